@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { User } from '@/types/auth';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Building, Settings2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
@@ -21,6 +22,12 @@ interface AgencyFeatureSetting {
   agency_name: string;
   enable_time_tracking_odometer: boolean;
   enable_fuel_expenses: boolean;
+  invoice_numbering_mode: 'continuous' | 'yearly';
+  default_credit_limit: number | null;
+  default_max_overdue_days: number | null;
+  returned_cheque_bank_charge: number | null;
+  returned_cheque_penalty: number | null;
+  cash_only_after_returns: number | null;
   updated_at?: string | null;
   updated_by?: string | null;
 }
@@ -61,6 +68,12 @@ const AgencyFeatureAccess = ({ user }: AgencyFeatureAccessProps) => {
             agency_name: agency.name,
             enable_time_tracking_odometer: false,
             enable_fuel_expenses: false,
+            invoice_numbering_mode: 'continuous',
+            default_credit_limit: null,
+            default_max_overdue_days: null,
+            returned_cheque_bank_charge: null,
+            returned_cheque_penalty: null,
+            cash_only_after_returns: null,
           }))
         );
         toast({
@@ -71,16 +84,41 @@ const AgencyFeatureAccess = ({ user }: AgencyFeatureAccessProps) => {
         return;
       }
 
+      const { data: sequencesData, error: sequencesError } = await supabase
+        .from('invoice_number_sequences')
+        .select('agency_id, mode');
+
+      if (sequencesError && !sequencesError.message.includes('does not exist')) {
+        console.warn('Error fetching invoice numbering settings:', sequencesError);
+      }
+
+      const { data: creditData, error: creditError } = await supabase
+        .from('agency_credit_settings')
+        .select('agency_id, default_credit_limit, default_max_overdue_days, returned_cheque_bank_charge, returned_cheque_penalty, cash_only_after_returns');
+
+      if (creditError && !creditError.message.includes('does not exist')) {
+        console.warn('Error fetching credit settings:', creditError);
+      }
+
       const agencies: Agency[] = agenciesData || [];
-      const existingSettings: AgencyFeatureSetting[] = settingsData || [];
+      const existingSettings = settingsData || [];
 
       const merged = agencies.map((agency) => {
         const existing = existingSettings.find((row) => row.agency_id === agency.id);
+        const creditDefaults = (creditData || []).find((row) => row.agency_id === agency.id);
         return {
           agency_id: agency.id,
           agency_name: agency.name,
           enable_time_tracking_odometer: existing?.enable_time_tracking_odometer ?? false,
           enable_fuel_expenses: existing?.enable_fuel_expenses ?? false,
+          invoice_numbering_mode: (sequencesData || []).find((row) => row.agency_id === agency.id)?.mode === 'yearly'
+            ? 'yearly' as const
+            : 'continuous' as const,
+          default_credit_limit: creditDefaults?.default_credit_limit ?? null,
+          default_max_overdue_days: creditDefaults?.default_max_overdue_days ?? null,
+          returned_cheque_bank_charge: creditDefaults?.returned_cheque_bank_charge ?? null,
+          returned_cheque_penalty: creditDefaults?.returned_cheque_penalty ?? null,
+          cash_only_after_returns: creditDefaults?.cash_only_after_returns ?? null,
           updated_at: existing?.updated_at ?? null,
           updated_by: existing?.updated_by ?? null,
         };
@@ -144,6 +182,116 @@ const AgencyFeatureAccess = ({ user }: AgencyFeatureAccessProps) => {
     }
   };
 
+  // Changing the mode clears period_year so the allocator re-seeds from the numbers
+  // already issued in the new format.
+  const updateInvoiceNumberingMode = async (agencyId: string, mode: AgencyFeatureSetting['invoice_numbering_mode']) => {
+    try {
+      setSaving(agencyId);
+
+      const { error } = await supabase
+        .from('invoice_number_sequences')
+        .upsert(
+          {
+            agency_id: agencyId,
+            mode,
+            period_year: null,
+            updated_at: new Date().toISOString(),
+            updated_by: user.id,
+          },
+          { onConflict: 'agency_id' }
+        );
+
+      if (error) throw error;
+
+      setSettings((prev) =>
+        prev.map((row) => (row.agency_id === agencyId ? { ...row, invoice_numbering_mode: mode } : row))
+      );
+
+      toast({
+        title: 'Success',
+        description: mode === 'yearly'
+          ? 'Invoice numbers will now reset every year.'
+          : 'Invoice numbers will now continue without yearly reset.',
+      });
+    } catch (error) {
+      console.error('Error updating invoice numbering mode:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update invoice numbering.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  // Customers without their own credit limit or overdue age fall back to these; blank disables the check.
+  // Returned cheque charges are raised as a debit note on every returned cheque; blank raises none.
+  const updateCreditDefaults = async (
+    agencyId: string,
+    nextValues: Partial<Pick<
+      AgencyFeatureSetting,
+      | 'default_credit_limit'
+      | 'default_max_overdue_days'
+      | 'returned_cheque_bank_charge'
+      | 'returned_cheque_penalty'
+      | 'cash_only_after_returns'
+    >>
+  ) => {
+    const current = settings.find((row) => row.agency_id === agencyId);
+    if (!current || Object.entries(nextValues).every(([key, value]) => current[key as keyof AgencyFeatureSetting] === value)) {
+      return;
+    }
+
+    try {
+      setSaving(agencyId);
+
+      const { error } = await supabase
+        .from('agency_credit_settings')
+        .upsert(
+          {
+            agency_id: agencyId,
+            default_credit_limit: current.default_credit_limit,
+            default_max_overdue_days: current.default_max_overdue_days,
+            returned_cheque_bank_charge: current.returned_cheque_bank_charge,
+            returned_cheque_penalty: current.returned_cheque_penalty,
+            cash_only_after_returns: current.cash_only_after_returns,
+            ...nextValues,
+            updated_at: new Date().toISOString(),
+            updated_by: user.id,
+          },
+          { onConflict: 'agency_id' }
+        );
+
+      if (error) throw error;
+
+      setSettings((prev) =>
+        prev.map((row) => (row.agency_id === agencyId ? { ...row, ...nextValues } : row))
+      );
+
+      toast({
+        title: 'Success',
+        description: 'Credit settings updated.',
+      });
+    } catch (error) {
+      console.error('Error updating credit defaults:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update credit defaults.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const parseOptionalNumber = (value: string) => {
+    const trimmed = value.trim();
+    if (trimmed === '') return null;
+    const parsed = Number(trimmed);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -164,7 +312,7 @@ const AgencyFeatureAccess = ({ user }: AgencyFeatureAccessProps) => {
             Agency Feature Access
           </CardTitle>
           <p className="text-sm text-slate-600">
-            Enable odometer capture and fuel/expense logging for selected agencies.
+            Enable odometer capture and fuel/expense logging, choose invoice numbering, and set default credit limits and returned cheque charges for selected agencies.
           </p>
         </CardHeader>
         <CardContent>
@@ -190,6 +338,9 @@ const AgencyFeatureAccess = ({ user }: AgencyFeatureAccessProps) => {
                         {row.enable_fuel_expenses && (
                           <Badge variant="secondary">Fuel & Expenses</Badge>
                         )}
+                        {row.invoice_numbering_mode === 'yearly' && (
+                          <Badge variant="secondary">Yearly Invoice Numbers</Badge>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -215,6 +366,92 @@ const AgencyFeatureAccess = ({ user }: AgencyFeatureAccessProps) => {
                       />
                       Fuel & Expenses Module
                     </label>
+                    <label className="flex items-center gap-3 text-sm text-slate-700">
+                      <Switch
+                        checked={row.invoice_numbering_mode === 'yearly'}
+                        onCheckedChange={(checked) =>
+                          updateInvoiceNumberingMode(row.agency_id, checked ? 'yearly' : 'continuous')
+                        }
+                        disabled={saving === row.agency_id}
+                      />
+                      Reset Invoice Numbers Yearly
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                      Credit Limit
+                      <Input
+                        type="number"
+                        min="0"
+                        className="w-28 h-8"
+                        placeholder="None"
+                        defaultValue={row.default_credit_limit ?? ''}
+                        onBlur={(e) =>
+                          updateCreditDefaults(row.agency_id, { default_credit_limit: parseOptionalNumber(e.target.value) })
+                        }
+                        disabled={saving === row.agency_id}
+                      />
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                      Max Overdue Days
+                      <Input
+                        type="number"
+                        min="0"
+                        step="1"
+                        className="w-20 h-8"
+                        placeholder="None"
+                        defaultValue={row.default_max_overdue_days ?? ''}
+                        onBlur={(e) => {
+                          const days = parseOptionalNumber(e.target.value);
+                          updateCreditDefaults(row.agency_id, { default_max_overdue_days: days === null ? null : Math.floor(days) });
+                        }}
+                        disabled={saving === row.agency_id}
+                      />
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                      Return Charge
+                      <Input
+                        type="number"
+                        min="0"
+                        className="w-24 h-8"
+                        placeholder="None"
+                        defaultValue={row.returned_cheque_bank_charge ?? ''}
+                        onBlur={(e) =>
+                          updateCreditDefaults(row.agency_id, { returned_cheque_bank_charge: parseOptionalNumber(e.target.value) })
+                        }
+                        disabled={saving === row.agency_id}
+                      />
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                      Return Penalty
+                      <Input
+                        type="number"
+                        min="0"
+                        className="w-24 h-8"
+                        placeholder="None"
+                        defaultValue={row.returned_cheque_penalty ?? ''}
+                        onBlur={(e) =>
+                          updateCreditDefaults(row.agency_id, { returned_cheque_penalty: parseOptionalNumber(e.target.value) })
+                        }
+                        disabled={saving === row.agency_id}
+                      />
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                      Cash Only After Returns
+                      <Input
+                        type="number"
+                        min="1"
+                        step="1"
+                        className="w-20 h-8"
+                        placeholder="Never"
+                        defaultValue={row.cash_only_after_returns ?? ''}
+                        onBlur={(e) => {
+                          const returns = parseOptionalNumber(e.target.value);
+                          updateCreditDefaults(row.agency_id, {
+                            cash_only_after_returns: returns === null || returns < 1 ? null : Math.floor(returns)
+                          });
+                        }}
+                        disabled={saving === row.agency_id}
+                      />
+                    </label>
                   </div>
                 </div>
               ))}
@@ -4,9 +4,12 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ArrowLeft, Settings, Building, DollarSign, Save } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { clearPricingCache } from '@/utils/agencyPricing';
+import PriceListManager from './PriceListManager';
 
 interface AgencyPricingConfigurationProps {
   user: User;
@@ -124,6 +127,7 @@ const AgencyPricingConfiguration = ({ user, onBack }: AgencyPricingConfiguration
         });
 
       if (error) throw error;
+      clearPricingCache();
 
       // Update local state
       setPricingSettings(prev => 
@@ -213,119 +217,133 @@ const AgencyPricingConfiguration = ({ user, onBack }: AgencyPricingConfiguration
         </Button>
         <div>
           <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Agency Pricing Configuration</h1>
-          <p className="text-gray-600">Configure which price type each agency uses in sales module</p>
+          <p className="text-gray-600">Manage price lists and the default price type each agency uses in sales module</p>
         </div>
       </div>
 
-      {/* Info Card */}
-      <Card className="border-blue-200 bg-blue-50">
-        <CardContent className="p-4">
-          <div className="flex items-start gap-3">
-            <Settings className="h-5 w-5 text-blue-600 mt-0.5" />
-            <div className="text-sm text-blue-800">
-              <p className="font-medium mb-1">Pricing Configuration Rules:</p>
-              <ul className="space-y-1 text-blue-700">
-                <li>• <strong>Selling Price:</strong> Shows selling price in sales module (higher price for customers)</li>
-                <li>• <strong>Billing Price:</strong> Shows billing price in sales module (lower cost price)</li>
-                <li>• <strong>Default:</strong> Billing price is used if no configuration is set</li>
-              </ul>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Agency Pricing Settings */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {pricingSettings.map((setting) => (
-          <Card key={setting.agency_id} className="hover:shadow-md transition-shadow">
-            <CardHeader className="pb-3">
-              <CardTitle className="flex items-center gap-2 text-lg">
-                <Building className="h-5 w-5 text-gray-600" />
-                {setting.agency_name}
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-gray-600">Current Setting:</span>
-                <Badge variant={getPriceTypeBadgeVariant(setting.price_type)}>
-                  {getPriceTypeLabel(setting.price_type)}
-                </Badge>
-              </div>
-
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-gray-700">Price Type for Sales:</label>
-                <Select
-                  value={setting.price_type}
-                  onValueChange={(value) => updatePricingSettings(setting.agency_id, value as 'selling_price' | 'billing_price')}
-                  disabled={saving === setting.agency_id}
-                >
-                  <SelectTrigger className="w-full">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="billing_price">
-                      <div className="flex items-center gap-2">
-                        <DollarSign className="h-4 w-4 text-gray-500" />
-                        Billing Price (Cost)
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="selling_price">
-                      <div className="flex items-center gap-2">
-                        <DollarSign className="h-4 w-4 text-green-500" />
-                        Selling Price (Customer)
-                      </div>
-                    </SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              {setting.updated_at && (
-                <div className="text-xs text-gray-500 pt-2 border-t">
-                  Last updated: {new Date(setting.updated_at).toLocaleDateString()}
-                </div>
-              )}
-
-              {saving === setting.agency_id && (
-                <div className="flex items-center justify-center py-2">
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
-                  <span className="ml-2 text-sm text-gray-600">Saving...</span>
+      <Tabs defaultValue="price-lists" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="price-lists">Price Lists</TabsTrigger>
+          <TabsTrigger value="agency-defaults">Agency Defaults</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="price-lists">
+          <PriceListManager user={user} agencies={agencies} />
+        </TabsContent>
+
+        <TabsContent value="agency-defaults" className="space-y-6">
+          {/* Info Card */}
+          <Card className="border-blue-200 bg-blue-50">
+            <CardContent className="p-4">
+              <div className="flex items-start gap-3">
+                <Settings className="h-5 w-5 text-blue-600 mt-0.5" />
+                <div className="text-sm text-blue-800">
+                  <p className="font-medium mb-1">Pricing Configuration Rules:</p>
+                  <ul className="space-y-1 text-blue-700">
+                    <li>• <strong>Selling Price:</strong> Shows selling price in sales module (higher price for customers)</li>
+                    <li>• <strong>Billing Price:</strong> Shows billing price in sales module (lower cost price)</li>
+                    <li>• <strong>Default:</strong> Billing price is used if no configuration is set</li>
+                    <li>• <strong>Price Lists:</strong> Customers assigned to a price tier use that list instead</li>
+                  </ul>
                 </div>
-              )}
+              </div>
             </CardContent>
           </Card>
-        ))}
-      </div>
 
-      {pricingSettings.length === 0 && agencies.length === 0 && (
-        <Card>
-          <CardContent className="p-8 text-center">
-            <Building className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No Agencies Found</h3>
-            <p className="text-gray-600">No agencies are available to configure pricing settings.</p>
-          </CardContent>
-        </Card>
-      )}
-
-      {pricingSettings.length === 0 && agencies.length > 0 && (
-        <Card className="border-orange-200 bg-orange-50">
-          <CardContent className="p-8 text-center">
-            <Settings className="h-12 w-12 text-orange-500 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-orange-900 mb-2">Database Setup Required</h3>
-            <p className="text-orange-700 mb-4">
-              The agency pricing settings table needs to be created before you can configure pricing preferences.
-            </p>
-            <div className="bg-white p-4 rounded-lg border border-orange-200">
-              <p className="text-sm text-orange-800 font-medium mb-2">Instructions:</p>
-              <ol className="text-sm text-orange-700 text-left list-decimal list-inside space-y-1">
-                <li>Open your Supabase dashboard</li>
-                <li>Go to the SQL Editor</li>
-                <li>Run the script from: <code className="bg-orange-100 px-2 py-1 rounded text-xs">database_setup/create_agency_pricing_settings_table.sql</code></li>
-                <li>Refresh this page</li>
-              </ol>
-            </div>
-          </CardContent>
-        </Card>
-      )}
+          {/* Agency Pricing Settings */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {pricingSettings.map((setting) => (
+              <Card key={setting.agency_id} className="hover:shadow-md transition-shadow">
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <Building className="h-5 w-5 text-gray-600" />
+                    {setting.agency_name}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-600">Current Setting:</span>
+                    <Badge variant={getPriceTypeBadgeVariant(setting.price_type)}>
+                      {getPriceTypeLabel(setting.price_type)}
+                    </Badge>
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-700">Price Type for Sales:</label>
+                    <Select
+                      value={setting.price_type}
+                      onValueChange={(value) => updatePricingSettings(setting.agency_id, value as 'selling_price' | 'billing_price')}
+                      disabled={saving === setting.agency_id}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="billing_price">
+                          <div className="flex items-center gap-2">
+                            <DollarSign className="h-4 w-4 text-gray-500" />
+                            Billing Price (Cost)
+                          </div>
+                        </SelectItem>
+                        <SelectItem value="selling_price">
+                          <div className="flex items-center gap-2">
+                            <DollarSign className="h-4 w-4 text-green-500" />
+                            Selling Price (Customer)
+                          </div>
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {setting.updated_at && (
+                    <div className="text-xs text-gray-500 pt-2 border-t">
+                      Last updated: {new Date(setting.updated_at).toLocaleDateString()}
+                    </div>
+                  )}
+
+                  {saving === setting.agency_id && (
+                    <div className="flex items-center justify-center py-2">
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                      <span className="ml-2 text-sm text-gray-600">Saving...</span>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {pricingSettings.length === 0 && agencies.length === 0 && (
+            <Card>
+              <CardContent className="p-8 text-center">
+                <Building className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No Agencies Found</h3>
+                <p className="text-gray-600">No agencies are available to configure pricing settings.</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {pricingSettings.length === 0 && agencies.length > 0 && (
+            <Card className="border-orange-200 bg-orange-50">
+              <CardContent className="p-8 text-center">
+                <Settings className="h-12 w-12 text-orange-500 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-orange-900 mb-2">Database Setup Required</h3>
+                <p className="text-orange-700 mb-4">
+                  The agency pricing settings table needs to be created before you can configure pricing preferences.
+                </p>
+                <div className="bg-white p-4 rounded-lg border border-orange-200">
+                  <p className="text-sm text-orange-800 font-medium mb-2">Instructions:</p>
+                  <ol className="text-sm text-orange-700 text-left list-decimal list-inside space-y-1">
+                    <li>Open your Supabase dashboard</li>
+                    <li>Go to the SQL Editor</li>
+                    <li>Run the script from: <code className="bg-orange-100 px-2 py-1 rounded text-xs">database_setup/create_agency_pricing_settings_table.sql</code></li>
+                    <li>Refresh this page</li>
+                  </ol>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+      </Tabs>
     </div>
   );
 };
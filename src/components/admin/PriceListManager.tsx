@@ -0,0 +1,497 @@
+import { useState, useEffect } from 'react';
+import { User } from '@/types/auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Tags, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { clearPricingCache, getPriceTypeLabel, type PriceType } from '@/utils/agencyPricing';
+
+interface PriceListManagerProps {
+  user: User;
+  agencies: { id: string; name: string }[];
+}
+
+interface PriceListRow {
+  id: string;
+  name: string;
+  description: string | null;
+  agency_id: string | null;
+  base_price_type: string;
+  is_active: boolean;
+}
+
+interface PriceListItemRow {
+  id: string;
+  price_list_id: string;
+  product_id: string | null;
+  category: string | null;
+  price: number | null;
+  discount_percentage: number | null;
+  valid_from: string | null;
+  valid_to: string | null;
+}
+
+interface ProductOption {
+  id: string;
+  name: string;
+  category: string;
+}
+
+const EMPTY_LIST_FORM = { name: '', description: '', agencyId: 'all', basePriceType: 'billing_price' as PriceType };
+const EMPTY_ITEM_FORM = {
+  target: 'product' as 'product' | 'category',
+  productId: '',
+  category: '',
+  valueType: 'price' as 'price' | 'discount',
+  value: '',
+  validFrom: '',
+  validTo: '',
+};
+
+const PriceListManager = ({ user, agencies }: PriceListManagerProps) => {
+  const [priceLists, setPriceLists] = useState<PriceListRow[]>([]);
+  const [items, setItems] = useState<PriceListItemRow[]>([]);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [selectedListId, setSelectedListId] = useState<string | null>(null);
+  const [listForm, setListForm] = useState(EMPTY_LIST_FORM);
+  const [itemForm, setItemForm] = useState(EMPTY_ITEM_FORM);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const categories = Array.from(new Set(products.map(product => product.category).filter(Boolean))).sort();
+  const selectedList = priceLists.find(list => list.id === selectedListId) || null;
+
+  useEffect(() => {
+    fetchPriceLists();
+    fetchProducts();
+  }, []);
+
+  useEffect(() => {
+    if (selectedListId) {
+      fetchItems(selectedListId);
+    } else {
+      setItems([]);
+    }
+  }, [selectedListId]);
+
+  const fetchPriceLists = async () => {
+    const { data, error } = await supabase
+      .from('price_lists')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching price lists:', error);
+      return;
+    }
+    setPriceLists(data || []);
+  };
+
+  const fetchProducts = async () => {
+    const { data, error } = await supabase
+      .from('products')
+      .select('id, name, category')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching products:', error);
+      return;
+    }
+    setProducts(data || []);
+  };
+
+  const fetchItems = async (priceListId: string) => {
+    const { data, error } = await supabase
+      .from('price_list_items')
+      .select('*')
+      .eq('price_list_id', priceListId)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching price list items:', error);
+      return;
+    }
+    setItems(data || []);
+  };
+
+  const createPriceList = async () => {
+    if (!listForm.name.trim()) {
+      toast({ title: "Name required", description: "Enter a name for the price list", variant: "destructive" });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { data, error } = await supabase
+        .from('price_lists')
+        .insert({
+          name: listForm.name.trim(),
+          description: listForm.description.trim() || null,
+          agency_id: listForm.agencyId === 'all' ? null : listForm.agencyId,
+          base_price_type: listForm.basePriceType,
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setPriceLists(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedListId(data.id);
+      setListForm(EMPTY_LIST_FORM);
+      toast({ title: "Success", description: `Price list "${data.name}" created` });
+    } catch (error) {
+      console.error('Error creating price list:', error);
+      toast({
+        title: "Error",
+        description: error?.code === '23505' ? 'A price list with this name already exists' : 'Failed to create price list',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updatePriceList = async (listId: string, changes: Partial<PriceListRow>) => {
+    const { error } = await supabase
+      .from('price_lists')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', listId);
+
+    if (error) {
+      console.error('Error updating price list:', error);
+      toast({ title: "Error", description: "Failed to update price list", variant: "destructive" });
+      return;
+    }
+
+    setPriceLists(prev => prev.map(list => (list.id === listId ? { ...list, ...changes } : list)));
+    clearPricingCache();
+  };
+
+  const deletePriceList = async (list: PriceListRow) => {
+    if (!window.confirm(`Delete price list "${list.name}"? Customers on this tier will fall back to agency pricing.`)) {
+      return;
+    }
+
+    const { error } = await supabase.from('price_lists').delete().eq('id', list.id);
+    if (error) {
+      console.error('Error deleting price list:', error);
+      toast({ title: "Error", description: "Failed to delete price list", variant: "destructive" });
+      return;
+    }
+
+    setPriceLists(prev => prev.filter(row => row.id !== list.id));
+    setSelectedListId(null);
+    clearPricingCache();
+  };
+
+  const addItem = async () => {
+    if (!selectedListId) return;
+
+    const value = Number(itemForm.value);
+    const target = itemForm.target === 'product' ? itemForm.productId : itemForm.category;
+    if (!target || !itemForm.value || Number.isNaN(value) || value < 0) {
+      toast({ title: "Missing information", description: "Choose a product or category and enter a value", variant: "destructive" });
+      return;
+    }
+    if (itemForm.valueType === 'discount' && value > 100) {
+      toast({ title: "Invalid discount", description: "Discount must be between 0 and 100%", variant: "destructive" });
+      return;
+    }
+    if (itemForm.validFrom && itemForm.validTo && itemForm.validFrom > itemForm.validTo) {
+      toast({ title: "Invalid dates", description: "Valid from must be before valid to", variant: "destructive" });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { data, error } = await supabase
+        .from('price_list_items')
+        .insert({
+          price_list_id: selectedListId,
+          product_id: itemForm.target === 'product' ? itemForm.productId : null,
+          category: itemForm.target === 'category' ? itemForm.category : null,
+          price: itemForm.valueType === 'price' ? value : null,
+          discount_percentage: itemForm.valueType === 'discount' ? value : null,
+          valid_from: itemForm.validFrom || null,
+          valid_to: itemForm.validTo || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setItems(prev => [...prev, data]);
+      setItemForm({ ...EMPTY_ITEM_FORM, target: itemForm.target, valueType: itemForm.valueType });
+      clearPricingCache();
+    } catch (error) {
+      console.error('Error adding price list item:', error);
+      toast({ title: "Error", description: "Failed to add override", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteItem = async (itemId: string) => {
+    const { error } = await supabase.from('price_list_items').delete().eq('id', itemId);
+    if (error) {
+      console.error('Error deleting price list item:', error);
+      toast({ title: "Error", description: "Failed to delete override", variant: "destructive" });
+      return;
+    }
+    setItems(prev => prev.filter(item => item.id !== itemId));
+    clearPricingCache();
+  };
+
+  const getAgencyName = (agencyId: string | null) =>
+    agencyId ? agencies.find(agency => agency.id === agencyId)?.name || 'Unknown agency' : 'All agencies';
+
+  const describeTarget = (item: PriceListItemRow) =>
+    item.product_id
+      ? products.find(product => product.id === item.product_id)?.name || 'Unknown product'
+      : `Category: ${item.category}`;
+
+  const describeValidity = (item: PriceListItemRow) => {
+    if (!item.valid_from && !item.valid_to) return 'Always';
+    return `${item.valid_from || '…'} → ${item.valid_to || '…'}`;
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Lists */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Tags className="h-5 w-5 text-gray-600" />
+            Price Lists
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            {priceLists.length === 0 && (
+              <p className="text-sm text-gray-500">No price lists yet. Customers use their agency's price type.</p>
+            )}
+            {priceLists.map(list => (
+              <button
+                key={list.id}
+                type="button"
+                onClick={() => setSelectedListId(list.id)}
+                className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                  list.id === selectedListId ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-gray-900">{list.name}</span>
+                  {!list.is_active && <Badge variant="outline">Inactive</Badge>}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {getAgencyName(list.agency_id)} · {getPriceTypeLabel(list.base_price_type as PriceType)}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-3 pt-4 border-t">
+            <p className="text-sm font-medium text-gray-700">New price list</p>
+            <Input
+              placeholder="Name (e.g. Wholesale)"
+              value={listForm.name}
+              onChange={(e) => setListForm({ ...listForm, name: e.target.value })}
+            />
+            <Input
+              placeholder="Description (optional)"
+              value={listForm.description}
+              onChange={(e) => setListForm({ ...listForm, description: e.target.value })}
+            />
+            <Select value={listForm.agencyId} onValueChange={(value) => setListForm({ ...listForm, agencyId: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All agencies</SelectItem>
+                {agencies.map(agency => (
+                  <SelectItem key={agency.id} value={agency.id}>{agency.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={listForm.basePriceType}
+              onValueChange={(value) => setListForm({ ...listForm, basePriceType: value as PriceType })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="billing_price">Base: Billing Price</SelectItem>
+                <SelectItem value="selling_price">Base: Selling Price</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button onClick={createPriceList} disabled={saving} className="w-full">
+              <Plus className="h-4 w-4 mr-2" />
+              Create Price List
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Overrides */}
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle className="text-lg">
+            {selectedList ? selectedList.name : 'Select a price list'}
+          </CardTitle>
+          {selectedList?.description && <p className="text-sm text-gray-600">{selectedList.description}</p>}
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!selectedList ? (
+            <p className="text-sm text-gray-500">
+              Products without an override are priced at the list's base price type.
+              Product overrides take precedence over category overrides.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-4">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <Switch
+                    checked={selectedList.is_active}
+                    onCheckedChange={(checked) => updatePriceList(selectedList.id, { is_active: checked })}
+                  />
+                  Active
+                </label>
+                <Select
+                  value={selectedList.base_price_type}
+                  onValueChange={(value) => updatePriceList(selectedList.id, { base_price_type: value })}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="billing_price">Base: Billing Price</SelectItem>
+                    <SelectItem value="selling_price">Base: Selling Price</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" onClick={() => deletePriceList(selectedList)}>
+                  <Trash2 className="h-4 w-4 mr-2 text-red-500" />
+                  Delete List
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                {items.length === 0 && <p className="text-sm text-gray-500">No overrides. Every product uses the base price.</p>}
+                {items.map(item => (
+                  <div key={item.id} className="flex flex-wrap items-center justify-between gap-2 p-3 border rounded-lg">
+                    <div>
+                      <p className="font-medium text-gray-900">{describeTarget(item)}</p>
+                      <p className="text-xs text-gray-500">{describeValidity(item)}</p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Badge variant="secondary">
+                        {item.price !== null ? `LKR ${Number(item.price).toLocaleString()}` : `${item.discount_percentage}% off`}
+                      </Badge>
+                      <Button variant="ghost" size="sm" onClick={() => deleteItem(item.id)}>
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 pt-4 border-t">
+                <div className="space-y-1">
+                  <Label>Applies to</Label>
+                  <Select
+                    value={itemForm.target}
+                    onValueChange={(value) => setItemForm({ ...itemForm, target: value as 'product' | 'category' })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="product">Product</SelectItem>
+                      <SelectItem value="category">Category</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>{itemForm.target === 'product' ? 'Product' : 'Category'}</Label>
+                  {itemForm.target === 'product' ? (
+                    <Select value={itemForm.productId} onValueChange={(value) => setItemForm({ ...itemForm, productId: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a product" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {products.map(product => (
+                          <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Select value={itemForm.category} onValueChange={(value) => setItemForm({ ...itemForm, category: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories.map(category => (
+                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                <div className="space-y-1">
+                  <Label>Value</Label>
+                  <div className="flex gap-2">
+                    <Select
+                      value={itemForm.valueType}
+                      onValueChange={(value) => setItemForm({ ...itemForm, valueType: value as 'price' | 'discount' })}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="price">Fixed price</SelectItem>
+                        <SelectItem value="discount">% off base</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={itemForm.value}
+                      onChange={(e) => setItemForm({ ...itemForm, value: e.target.value })}
+                      placeholder={itemForm.valueType === 'price' ? 'LKR' : '%'}
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label>Valid from</Label>
+                    <Input type="date" value={itemForm.validFrom} onChange={(e) => setItemForm({ ...itemForm, validFrom: e.target.value })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Valid to</Label>
+                    <Input type="date" value={itemForm.validTo} onChange={(e) => setItemForm({ ...itemForm, validTo: e.target.value })} />
+                  </div>
+                </div>
+                <div className="md:col-span-2">
+                  <Button onClick={addItem} disabled={saving}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Override
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PriceListManager;
@@ -0,0 +1,292 @@
+import { Fragment, useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { User } from '@/types/auth';
+import type { SmsDeliveryStatus, SmsLanguage, SmsLogEntry, SmsRelatedType, SmsTemplateKey } from '@/types/sms';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, MessageSquare, RefreshCw, Send } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { SMS_TEMPLATE_DEFINITIONS } from '@/utils/smsTemplates';
+
+interface SmsLogProps {
+  user: User;
+  onBack: () => void;
+}
+
+const PAGE_SIZE = 200;
+
+const RELATED_LABELS: Record<SmsRelatedType, string> = {
+  invoice: 'Invoice',
+  sales_order: 'Sales Order',
+  collection: 'Collection',
+  purchase_order: 'Purchase Order',
+  customer: 'Customer',
+  statement: 'Statement'
+};
+
+const SmsLog = ({ user, onBack }: SmsLogProps) => {
+  const [messages, setMessages] = useState<SmsLogEntry[]>([]);
+  const [statusFilter, setStatusFilter] = useState<'all' | SmsDeliveryStatus>('all');
+  const [search, setSearch] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [resending, setResending] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchMessages();
+  }, [statusFilter]);
+
+  const fetchMessages = async () => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from('sms_messages')
+        .select('*, customers!sms_messages_customer_id_fkey(sms_opt_out)')
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        if (error.message.includes('does not exist')) {
+          toast({
+            title: 'Database Setup Required',
+            description: 'Please run the SMS delivery log migration in your Supabase SQL editor.',
+            variant: 'destructive',
+          });
+          return;
+        }
+        throw error;
+      }
+
+      setMessages(
+        (data || []).map((row) => ({
+          id: row.id,
+          recipient: row.recipient,
+          message: row.message,
+          templateKey: row.template_key as SmsTemplateKey | null,
+          language: row.language as SmsLanguage | null,
+          customerId: row.customer_id,
+          agencyId: row.agency_id,
+          relatedType: row.related_type as SmsRelatedType | null,
+          relatedId: row.related_id,
+          status: row.status as SmsDeliveryStatus,
+          provider: row.provider,
+          providerMessageId: row.provider_message_id,
+          providerResponse: row.provider_response,
+          attempts: row.attempts,
+          lastError: row.last_error,
+          nextRetryAt: row.next_retry_at,
+          sentAt: row.sent_at,
+          resentFrom: row.resent_from,
+          customerOptedOut: !!row.customers?.sms_opt_out,
+          createdAt: row.created_at
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching SMS log:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load the SMS log.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResend = async (message: SmsLogEntry) => {
+    try {
+      setResending(message.id);
+      const { error } = await supabase.functions.invoke('send-sms', {
+        body: { resendOf: message.id },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'SMS Sent',
+        description: `Message resent to ${message.recipient}.`,
+      });
+    } catch (error) {
+      console.error('Error resending SMS:', error);
+      toast({
+        title: 'Resend failed',
+        description: 'The message was logged and will be retried automatically.',
+        variant: 'destructive',
+      });
+    } finally {
+      setResending(null);
+      fetchMessages();
+    }
+  };
+
+  const getStatusBadge = (message: SmsLogEntry) => {
+    if (message.status === 'sent') {
+      return <Badge className="bg-green-100 text-green-700 border-green-200">Sent</Badge>;
+    }
+    if (message.status === 'failed') {
+      return message.nextRetryAt
+        ? <Badge variant="secondary" className="text-orange-600 bg-orange-50 border-orange-200">Retrying</Badge>
+        : <Badge variant="destructive">Failed</Badge>;
+    }
+    return <Badge variant="secondary">Pending</Badge>;
+  };
+
+  const term = search.trim().toLowerCase();
+  const filteredMessages = term
+    ? messages.filter((message) =>
+        message.recipient.toLowerCase().includes(term) || message.message.toLowerCase().includes(term)
+      )
+    : messages;
+
+  if (user.role !== 'superuser') {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600">Only superusers can view the SMS log.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-4">
+      <Button variant="ghost" onClick={onBack} className="flex items-center gap-2">
+        <ArrowLeft className="h-4 w-4" /> Back
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquare className="h-5 w-5" />
+              SMS Log
+            </CardTitle>
+            <Button variant="outline" size="sm" onClick={fetchMessages} disabled={loading} className="flex items-center gap-2">
+              <RefreshCw className="h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Every SMS sent by the system, newest first. Failed messages are retried automatically with increasing delays.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              placeholder="Search phone number or message"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="sm:max-w-xs"
+            />
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+              <SelectTrigger className="sm:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="sent">Sent</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : filteredMessages.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No messages found.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Recipient</TableHead>
+                  <TableHead>Template</TableHead>
+                  <TableHead>Related</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Attempts</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredMessages.map((message) => (
+                  <Fragment key={message.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === message.id ? null : message.id)}
+                    >
+                      <TableCell className="whitespace-nowrap text-xs">
+                        {format(new Date(message.createdAt), 'dd MMM yyyy HH:mm')}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{message.recipient}</TableCell>
+                      <TableCell className="text-xs">
+                        {message.templateKey ? SMS_TEMPLATE_DEFINITIONS[message.templateKey]?.label ?? message.templateKey : 'Custom'}
+                        {message.language && message.language !== 'en' && (
+                          <Badge variant="outline" className="ml-1 text-[10px] uppercase">{message.language}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {message.relatedType ? RELATED_LABELS[message.relatedType] : '-'}
+                      </TableCell>
+                      <TableCell>{getStatusBadge(message)}</TableCell>
+                      <TableCell className="text-right text-xs">{message.attempts}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="flex items-center gap-1"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleResend(message);
+                          }}
+                          disabled={resending === message.id || message.customerOptedOut}
+                          title={message.customerOptedOut ? 'Customer opted out of SMS' : undefined}
+                        >
+                          <Send className="h-3 w-3" />
+                          {resending === message.id ? 'Sending...' : 'Resend'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {expandedId === message.id && (
+                      <TableRow className="bg-slate-50 hover:bg-slate-50">
+                        <TableCell colSpan={7} className="space-y-2 text-xs">
+                          <p className="whitespace-pre-wrap text-sm">{message.message}</p>
+                          <div className="flex flex-wrap gap-x-6 gap-y-1 text-muted-foreground">
+                            <span>Provider: {message.provider || '-'}</span>
+                            {message.providerMessageId && <span>Provider ID: {message.providerMessageId}</span>}
+                            {message.sentAt && <span>Sent: {format(new Date(message.sentAt), 'dd MMM yyyy HH:mm')}</span>}
+                            {message.nextRetryAt && <span>Next retry: {format(new Date(message.nextRetryAt), 'dd MMM yyyy HH:mm')}</span>}
+                            {message.relatedId && <span>Related ID: {message.relatedId}</span>}
+                            {message.resentFrom && <span>Resend of: {message.resentFrom}</span>}
+                          </div>
+                          {message.lastError && <p className="text-red-600">Error: {message.lastError}</p>}
+                          {message.providerResponse != null && (
+                            <pre className="bg-white border rounded p-2 overflow-x-auto">
+                              {JSON.stringify(message.providerResponse, null, 2)}
+                            </pre>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SmsLog;
@@ -0,0 +1,334 @@
+import { useState, useEffect } from 'react';
+import { User } from '@/types/auth';
+import type { SmsLanguage, SmsTemplate, SmsTemplateKey } from '@/types/sms';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, MessageSquare, Save, Trash2, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAgencies } from '@/hooks/useAgency';
+import {
+  SMS_LANGUAGES,
+  SMS_TEMPLATE_DEFINITIONS,
+  clearSmsTemplatesCache,
+  findUnknownPlaceholders,
+  renderSmsTemplate,
+  resolveSmsTemplateBody
+} from '@/utils/smsTemplates';
+
+interface SmsTemplateManagementProps {
+  user: User;
+  onBack: () => void;
+}
+
+const GLOBAL_SCOPE = 'global';
+const TEMPLATE_KEYS = Object.keys(SMS_TEMPLATE_DEFINITIONS) as SmsTemplateKey[];
+
+const SmsTemplateManagement = ({ user, onBack }: SmsTemplateManagementProps) => {
+  const [templates, setTemplates] = useState<SmsTemplate[]>([]);
+  const [scope, setScope] = useState<string>(GLOBAL_SCOPE);
+  const [language, setLanguage] = useState<SmsLanguage>('en');
+  const [drafts, setDrafts] = useState<Partial<Record<SmsTemplateKey, string>>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<SmsTemplateKey | null>(null);
+  const { agencies } = useAgencies();
+  const { toast } = useToast();
+
+  const agencyId = scope === GLOBAL_SCOPE ? null : scope;
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const findExact = (templateKey: SmsTemplateKey) =>
+    templates.find(
+      (template) =>
+        template.templateKey === templateKey &&
+        template.language === language &&
+        (template.agencyId ?? null) === agencyId
+    );
+
+  // Drafts always show the row for the selected agency and language; empty means it is inherited
+  useEffect(() => {
+    const next: Partial<Record<SmsTemplateKey, string>> = {};
+    templates
+      .filter((template) => template.language === language && (template.agencyId ?? null) === agencyId)
+      .forEach((template) => {
+        next[template.templateKey] = template.body;
+      });
+    setDrafts(next);
+  }, [templates, agencyId, language]);
+
+  const fetchTemplates = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('sms_templates')
+        .select('*')
+        .order('template_key');
+
+      if (error) {
+        if (error.message.includes('does not exist')) {
+          toast({
+            title: 'Database Setup Required',
+            description: 'Please run the SMS templates migration in your Supabase SQL editor.',
+            variant: 'destructive',
+          });
+          return;
+        }
+        throw error;
+      }
+
+      setTemplates(
+        (data || []).map((row) => ({
+          id: row.id,
+          templateKey: row.template_key as SmsTemplateKey,
+          language: row.language as SmsLanguage,
+          agencyId: row.agency_id,
+          body: row.body,
+          isActive: row.is_active,
+          updatedAt: row.updated_at
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching SMS templates:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load SMS templates.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (templateKey: SmsTemplateKey) => {
+    const body = (drafts[templateKey] || '').trim();
+    if (!body) {
+      toast({
+        title: 'Template is empty',
+        description: 'Enter a message, or remove the override to inherit the default.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setSaving(templateKey);
+      const { error } = await supabase
+        .from('sms_templates')
+        .upsert(
+          {
+            template_key: templateKey,
+            language,
+            agency_id: agencyId,
+            body,
+            is_active: true,
+            updated_at: new Date().toISOString(),
+            updated_by: user.id,
+          },
+          { onConflict: 'template_key,language,agency_id' }
+        );
+
+      if (error) throw error;
+
+      clearSmsTemplatesCache();
+      toast({
+        title: 'Saved',
+        description: `${SMS_TEMPLATE_DEFINITIONS[templateKey].label} template updated.`,
+      });
+      await fetchTemplates();
+    } catch (error) {
+      console.error('Error saving SMS template:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save SMS template.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleRemove = async (templateKey: SmsTemplateKey) => {
+    const existing = findExact(templateKey);
+    if (!existing) return;
+
+    try {
+      setSaving(templateKey);
+      const { error } = await supabase
+        .from('sms_templates')
+        .delete()
+        .eq('id', existing.id);
+
+      if (error) throw error;
+
+      clearSmsTemplatesCache();
+      toast({
+        title: 'Removed',
+        description: 'This template now inherits the default.',
+      });
+      await fetchTemplates();
+    } catch (error) {
+      console.error('Error removing SMS template:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to remove SMS template.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const inheritedBody = (templateKey: SmsTemplateKey) => {
+    const exact = findExact(templateKey);
+    const others = exact ? templates.filter((template) => template.id !== exact.id) : templates;
+    return resolveSmsTemplateBody(others, templateKey, language, agencyId);
+  };
+
+  if (user.role !== 'superuser') {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600">Only superusers can manage SMS templates.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 max-w-4xl mx-auto space-y-4">
+      <Button variant="ghost" onClick={onBack} className="flex items-center gap-2">
+        <ArrowLeft className="h-4 w-4" /> Back
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            SMS Templates
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Edit the messages sent to customers and staff. Use placeholders such as {'{customer_name}'}; wrap optional
+            text in square brackets, e.g. [ View here: {'{pdf_url}'}], to drop it when the value is missing.
+            Customers receive their own language when a variant exists, otherwise English.
+          </p>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <Label className="text-xs text-muted-foreground mb-1 block">Agency</Label>
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={GLOBAL_SCOPE}>All agencies (default)</SelectItem>
+                {agencies.map((agency) => (
+                  <SelectItem key={agency.id} value={agency.id}>{agency.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs text-muted-foreground mb-1 block">Language</Label>
+            <Select value={language} onValueChange={(value) => setLanguage(value as SmsLanguage)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SMS_LANGUAGES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : (
+        TEMPLATE_KEYS.map((templateKey) => {
+          const definition = SMS_TEMPLATE_DEFINITIONS[templateKey];
+          const exact = findExact(templateKey);
+          const draft = drafts[templateKey] ?? '';
+          const inherited = inheritedBody(templateKey);
+          const effectiveBody = draft.trim() || inherited;
+          const preview = renderSmsTemplate(effectiveBody, definition.sampleVariables);
+          const unknown = findUnknownPlaceholders(effectiveBody, templateKey);
+
+          return (
+            <Card key={templateKey}>
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle className="text-base">{definition.label}</CardTitle>
+                  <Badge variant={exact ? 'default' : 'secondary'}>
+                    {exact ? (agencyId ? 'Agency override' : 'Default') : 'Inherited'}
+                  </Badge>
+                </div>
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {definition.placeholders.map((placeholder) => (
+                    <Badge key={placeholder} variant="outline" className="font-mono text-xs">
+                      {`{${placeholder}}`}
+                    </Badge>
+                  ))}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Textarea
+                  rows={4}
+                  value={draft}
+                  placeholder={inherited}
+                  onChange={(e) => setDrafts((prev) => ({ ...prev, [templateKey]: e.target.value }))}
+                />
+
+                {unknown.length > 0 && (
+                  <p className="text-xs text-orange-600 flex items-center gap-1">
+                    <AlertTriangle className="h-3 w-3" />
+                    Unknown placeholders will be left blank: {unknown.map((name) => `{${name}}`).join(', ')}
+                  </p>
+                )}
+
+                <div className="p-3 bg-slate-50 border rounded-lg">
+                  <p className="text-xs font-medium text-muted-foreground mb-1">
+                    Preview ({preview.length} characters)
+                  </p>
+                  <p className="text-sm whitespace-pre-wrap">{preview}</p>
+                </div>
+
+                <div className="flex gap-2 justify-end">
+                  {exact && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive hover:text-destructive flex items-center gap-2"
+                      onClick={() => handleRemove(templateKey)}
+                      disabled={saving === templateKey}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      Remove
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    className="flex items-center gap-2"
+                    onClick={() => handleSave(templateKey)}
+                    disabled={saving === templateKey || draft.trim() === (exact?.body ?? '')}
+                  >
+                    <Save className="h-4 w-4" />
+                    {saving === templateKey ? 'Saving...' : 'Save'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default SmsTemplateManagement;
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ScanLine } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useBarcodeScanner } from '@/hooks/useBarcodeScanner';
+import type { ScannedProduct } from '@/types/product';
+import { findProductByBarcode } from '@/utils/barcodes';
+import BarcodeScanner from './BarcodeScanner';
+
+interface BarcodeScanButtonProps {
+  onScan: (scanned: ScannedProduct) => void;
+  onUnknownCode?: (code: string) => void; // Defaults to a "not found" toast
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Scan button for product variants: opens the camera scanner, and while mounted also accepts a
+ * keyboard-wedge scanner anywhere on the page
+ */
+const BarcodeScanButton = ({ onScan, onUnknownCode, disabled = false, className }: BarcodeScanButtonProps) => {
+  const [showScanner, setShowScanner] = useState(false);
+  const { toast } = useToast();
+
+  const handleCode = async (code: string) => {
+    setShowScanner(false);
+    try {
+      const scanned = await findProductByBarcode(code);
+      if (scanned) {
+        onScan(scanned);
+      } else if (onUnknownCode) {
+        onUnknownCode(code);
+      } else {
+        toast({
+          title: "Unknown barcode",
+          description: `${code} is not linked to any product`,
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error('Error looking up barcode:', error);
+      toast({
+        title: "Error",
+        description: "Failed to look up barcode",
+        variant: "destructive"
+      });
+    }
+  };
+
+  useBarcodeScanner(handleCode, !disabled && !showScanner);
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => setShowScanner(true)}
+        disabled={disabled}
+        className={className}
+      >
+        <ScanLine className="h-4 w-4 mr-2" />
+        Scan
+      </Button>
+      {showScanner && <BarcodeScanner onDetected={handleCode} onCancel={() => setShowScanner(false)} />}
+    </>
+  );
+};
+
+export default BarcodeScanButton;
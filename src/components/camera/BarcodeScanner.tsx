@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Camera, X } from 'lucide-react';
+import { Capacitor } from '@capacitor/core';
+import { BrowserMultiFormatReader } from '@zxing/browser';
+import { BarcodeFormat, ChecksumException, DecodeHintType, FormatException, NotFoundException } from '@zxing/library';
+import { useToast } from '@/hooks/use-toast';
+import InAppCamera from './InAppCamera';
+
+interface BarcodeScannerProps {
+  onDetected: (code: string) => void;
+  onCancel: () => void;
+}
+
+// The Shape Detection API is not in the TypeScript DOM library yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement | HTMLImageElement) => Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+
+const SCAN_INTERVAL_MS = 300;
+
+// Safari and iOS have no BarcodeDetector, so zxing decodes the same formats there; a frame without a
+// readable code is not an error
+const getZxingDetector = (): BarcodeDetectorInstance => {
+  const hints = new Map([
+    [DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.EAN_13, BarcodeFormat.CODE_128, BarcodeFormat.QR_CODE]]
+  ]);
+  const reader = new BrowserMultiFormatReader(hints);
+  return {
+    detect: async (source) => {
+      try {
+        return [{ rawValue: reader.decode(source).getText() }];
+      } catch (error) {
+        if (error instanceof NotFoundException || error instanceof ChecksumException || error instanceof FormatException) {
+          return [];
+        }
+        throw error;
+      }
+    }
+  };
+};
+
+const getBarcodeDetector = (): BarcodeDetectorInstance => {
+  const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  return Detector ? new Detector({ formats: ['ean_13', 'code_128', 'qr_code'] }) : getZxingDetector();
+};
+
+const BarcodeScanner = ({ onDetected, onCancel }: BarcodeScannerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const detectorRef = useRef<BarcodeDetectorInstance>(getBarcodeDetector());
+  const [manualCode, setManualCode] = useState('');
+  const [showPhotoCamera, setShowPhotoCamera] = useState(false);
+  const { toast } = useToast();
+  const isNative = Capacitor.isNativePlatform ? Capacitor.isNativePlatform() : Capacitor.getPlatform() !== 'web';
+  const canScanLive = !isNative && !!navigator.mediaDevices?.getUserMedia;
+
+  // Live scanning in the browser: grab frames from the rear camera until a code is read
+  useEffect(() => {
+    if (!canScanLive) return;
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let active = true;
+
+    const scanFrame = async () => {
+      const video = videoRef.current;
+      if (!active || !video || video.readyState < 2) return;
+      try {
+        const [barcode] = await detectorRef.current.detect(video);
+        if (active && barcode?.rawValue) {
+          active = false;
+          onDetected(barcode.rawValue);
+        }
+      } catch (error) {
+        console.warn('Barcode detection failed:', error);
+      }
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then(mediaStream => {
+        stream = mediaStream;
+        if (!active) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          videoRef.current.play();
+        }
+        timer = window.setInterval(scanFrame, SCAN_INTERVAL_MS);
+      })
+      .catch(error => {
+        console.error('Camera error:', error);
+        toast({
+          title: "Camera Error",
+          description: "Unable to access camera. Type the code or use a handheld scanner instead.",
+          variant: "destructive",
+        });
+      });
+
+    return () => {
+      active = false;
+      window.clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [canScanLive]);
+
+  // On the native app the photo comes from the existing camera flow and is decoded afterwards
+  const handlePhotoTaken = async (photoData: string) => {
+    setShowPhotoCamera(false);
+    try {
+      const image = new Image();
+      image.src = photoData;
+      await image.decode();
+      const [barcode] = await detectorRef.current.detect(image);
+      if (barcode?.rawValue) {
+        onDetected(barcode.rawValue);
+        return;
+      }
+      toast({
+        title: "No barcode found",
+        description: "Hold the label flat and closer to the camera, then try again.",
+        variant: "destructive",
+      });
+    } catch (error) {
+      console.error('Error reading barcode from photo:', error);
+      toast({
+        title: "Scan Error",
+        description: "Could not read the photo. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const submitManualCode = () => {
+    if (manualCode.trim()) {
+      onDetected(manualCode.trim());
+    }
+  };
+
+  if (showPhotoCamera) {
+    return <InAppCamera onPhotoTaken={handlePhotoTaken} onCancel={() => setShowPhotoCamera(false)} />;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black z-[9999] flex flex-col touch-manipulation">
+      <div className="flex justify-between items-center p-4 md:p-6 bg-black/80 text-white">
+        <h3 className="text-xl md:text-2xl font-semibold">Scan Barcode</h3>
+        <Button variant="ghost" size="sm" onClick={onCancel} className="text-white hover:bg-white/20 touch-manipulation p-3 md:p-2">
+          <X className="h-6 w-6 md:h-5 md:w-5" />
+        </Button>
+      </div>
+
+      <div className="flex-1 relative overflow-hidden flex items-center justify-center">
+        {canScanLive ? (
+          <>
+            <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+            <div className="absolute inset-0 pointer-events-none flex items-center justify-center">
+              <div className="w-4/5 max-w-md h-32 border-2 border-white/70 rounded-lg"></div>
+            </div>
+          </>
+        ) : (
+          <Button
+            onClick={() => setShowPhotoCamera(true)}
+            className="h-16 px-8 text-lg bg-white text-black hover:bg-gray-200 touch-manipulation"
+          >
+            <Camera className="h-6 w-6 mr-2" />
+            Take photo of barcode
+          </Button>
+        )}
+      </div>
+
+      <div className="p-4 md:p-6 bg-black/80 flex gap-2">
+        <Input
+          value={manualCode}
+          onChange={(e) => setManualCode(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submitManualCode()}
+          placeholder="Or type the barcode number"
+          inputMode="numeric"
+          className="bg-white"
+        />
+        <Button onClick={submitManualCode} disabled={!manualCode.trim()}>
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BarcodeScanner;
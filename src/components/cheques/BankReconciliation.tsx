@@ -0,0 +1,716 @@
+import { useState, useEffect } from 'react';
+import { User } from '@/types/auth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, Download, FileSpreadsheet, RefreshCw, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import AgencySelector from '@/components/common/AgencySelector';
+import {
+  BankAccount,
+  BankStatementFormat,
+  BankStatementImport,
+  BankStatementLine,
+  RegisterCheque,
+  StatementDateFormat
+} from '@/types/collections';
+import { getBankAccounts, getWaitingBankedCheques } from '@/utils/chequeBanking';
+import {
+  MATCH_TYPE_LABELS,
+  ParsedStatementLine,
+  STATEMENT_DATE_FORMATS,
+  autoMatchStatement,
+  confirmStatementLine,
+  dismissStatementLine,
+  getStatementFormats,
+  getStatementImports,
+  getStatementLines,
+  getUnreconciledLines,
+  importBankStatement,
+  parseBankStatement,
+  saveStatementFormat
+} from '@/utils/bankReconciliation';
+import { roundMoney } from '@/utils/money';
+
+interface BankReconciliationProps {
+  user: User;
+  onBack: () => void;
+}
+
+type FormatForm = Omit<BankStatementFormat, 'id'> & { id?: string };
+
+const emptyFormat: FormatForm = {
+  name: '',
+  bankName: '',
+  dateColumn: 'Date',
+  descriptionColumn: 'Description',
+  referenceColumn: '',
+  chequeNumberColumn: 'Cheque No',
+  debitColumn: 'Debit',
+  creditColumn: 'Credit',
+  amountColumn: '',
+  dateFormat: 'DD/MM/YYYY'
+};
+
+const money = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const BankReconciliation = ({ user, onBack }: BankReconciliationProps) => {
+  const [selectedAgencyId, setSelectedAgencyId] = useState<string | null>(
+    user.role === 'superuser' ? null : user.agencyId
+  );
+  const [accounts, setAccounts] = useState<BankAccount[]>([]);
+  const [accountId, setAccountId] = useState('');
+  const [formats, setFormats] = useState<BankStatementFormat[]>([]);
+  const [formatId, setFormatId] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [parsedLines, setParsedLines] = useState<ParsedStatementLine[]>([]);
+  const [imports, setImports] = useState<BankStatementImport[]>([]);
+  const [importId, setImportId] = useState('');
+  const [lines, setLines] = useState<BankStatementLine[]>([]);
+  const [openOnly, setOpenOnly] = useState(true);
+  const [unreconciledLines, setUnreconciledLines] = useState<BankStatementLine[]>([]);
+  const [waitingCheques, setWaitingCheques] = useState<RegisterCheque[]>([]);
+  const [formatForm, setFormatForm] = useState<FormatForm>(emptyFormat);
+  const [activeTab, setActiveTab] = useState('import');
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const isSuperuser = user.role === 'superuser';
+  const account = accounts.find(a => a.id === accountId);
+  const format = formats.find(f => f.id === formatId);
+
+  useEffect(() => {
+    getStatementFormats()
+      .then(setFormats)
+      .catch(error => console.error('Error fetching statement formats:', error));
+  }, []);
+
+  useEffect(() => {
+    setAccounts([]);
+    setAccountId('');
+    if (!selectedAgencyId) return;
+
+    getBankAccounts(selectedAgencyId)
+      .then(bankAccounts => {
+        const active = bankAccounts.filter(a => a.isActive);
+        setAccounts(active);
+        if (active.length > 0) setAccountId(active[0].id);
+      })
+      .catch(error => console.error('Error fetching bank accounts:', error));
+  }, [selectedAgencyId]);
+
+  useEffect(() => {
+    setImports([]);
+    setImportId('');
+    setLines([]);
+    setParsedLines([]);
+    setFileName('');
+    if (!accountId) return;
+
+    setFormatId(accounts.find(a => a.id === accountId)?.statementFormatId || '');
+    fetchImports();
+  }, [accountId]);
+
+  useEffect(() => {
+    if (importId) fetchLines(importId);
+  }, [importId]);
+
+  useEffect(() => {
+    if (activeTab === 'unreconciled' && accountId) fetchUnreconciled();
+  }, [activeTab, accountId, imports]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const fetchImports = async (selectId?: string) => {
+    try {
+      const statementImports = await getStatementImports(accountId);
+      setImports(statementImports);
+      setImportId(selectId || statementImports[0]?.id || '');
+    } catch (error) {
+      console.error('Error fetching statement imports:', error);
+      showError(error, "Failed to load imported statements");
+    }
+  };
+
+  const fetchLines = async (id: string) => {
+    try {
+      setLines(await getStatementLines(id));
+    } catch (error) {
+      console.error('Error fetching statement lines:', error);
+      showError(error, "Failed to load the statement");
+    }
+  };
+
+  const fetchUnreconciled = async () => {
+    try {
+      const latestStatementDate = imports
+        .map(statement => statement.statementTo)
+        .filter((date): date is Date => !!date)
+        .sort((a, b) => b.getTime() - a.getTime())[0];
+
+      const [statementLines, banked] = await Promise.all([
+        getUnreconciledLines(accountId),
+        latestStatementDate
+          ? getWaitingBankedCheques(accountId, latestStatementDate.toLocaleDateString('en-CA'))
+          : Promise.resolve([])
+      ]);
+      setUnreconciledLines(statementLines);
+      setWaitingCheques(banked);
+    } catch (error) {
+      console.error('Error fetching unreconciled items:', error);
+      showError(error, "Failed to load unreconciled items");
+    }
+  };
+
+  const handleFileChange = async (file?: File) => {
+    setParsedLines([]);
+    setFileName(file?.name || '');
+    if (!file || !format) return;
+
+    try {
+      const statementLines = parseBankStatement(await file.text(), format);
+      if (statementLines.length === 0) {
+        throw new Error('No transactions were found in the file');
+      }
+      setParsedLines(statementLines);
+    } catch (error) {
+      showError(error, "Failed to read the statement");
+    }
+  };
+
+  const handleImport = async () => {
+    if (!accountId || !formatId || parsedLines.length === 0) return;
+
+    setBusy(true);
+    try {
+      const newImportId = await importBankStatement(accountId, formatId, fileName, parsedLines);
+      const statementLines = await getStatementLines(newImportId);
+      toast({
+        title: "Statement Imported",
+        description: `${statementLines.length} new transactions, ${statementLines.filter(line => line.status === 'proposed').length} matches proposed`,
+      });
+      setParsedLines([]);
+      setFileName('');
+      setAccounts(prev => prev.map(a => a.id === accountId ? { ...a, statementFormatId: formatId } : a));
+      await fetchImports(newImportId);
+      setActiveTab('matches');
+    } catch (error) {
+      console.error('Error importing bank statement:', error);
+      showError(error, "Failed to import the statement");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runLineAction = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    try {
+      await action();
+      await fetchLines(importId);
+    } catch (error) {
+      console.error('Error reconciling statement line:', error);
+      showError(error, fallback);
+      await fetchLines(importId);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirmAllExact = async () => {
+    const exact = lines.filter(line => line.status === 'proposed' && line.matchScore === 100);
+    if (exact.length === 0) return;
+    if (!window.confirm(`Confirm ${exact.length} exact matches?`)) return;
+
+    await runLineAction(async () => {
+      for (const line of exact) {
+        await confirmStatementLine(line.id);
+      }
+      toast({ title: "Matches Confirmed", description: `${exact.length} statement lines reconciled` });
+    }, "Failed to confirm the matches");
+  };
+
+  const handleRematch = async () => {
+    await runLineAction(async () => {
+      const proposed = await autoMatchStatement(importId);
+      toast({ title: "Matching Done", description: `${proposed} new matches proposed` });
+    }, "Failed to match the statement");
+  };
+
+  const handleIgnore = async (line: BankStatementLine) => {
+    const notes = window.prompt('Why is this line ignored? (e.g. bank charges)', '');
+    if (notes === null) return;
+    await runLineAction(() => dismissStatementLine(line.id, true, notes), "Failed to ignore the line");
+  };
+
+  const handleExportUnreconciled = () => {
+    const headers = ['Item', 'Date', 'Description', 'Cheque #', 'Customer', 'Debit', 'Credit'];
+    const csvRows = [
+      ...unreconciledLines.map(line => [
+        'On statement, not reconciled',
+        line.transactionDate.toLocaleDateString('en-CA'),
+        line.description,
+        line.chequeNumber || '',
+        '',
+        line.debit.toString(),
+        line.credit.toString(),
+      ]),
+      ...waitingCheques.map(cheque => [
+        'Banked, not on statement',
+        cheque.depositedAt?.toLocaleDateString('en-CA') || '',
+        cheque.bankName,
+        cheque.chequeNumber,
+        cheque.customerName,
+        '',
+        cheque.amount.toString(),
+      ]),
+    ];
+
+    const csvContent = [headers, ...csvRows]
+      .map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
+      .join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `unreconciled-${account?.accountNumber || 'account'}-${new Date().toLocaleDateString('en-CA')}.csv`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const handleSaveFormat = async () => {
+    if (!formatForm.name.trim() || !formatForm.dateColumn.trim() || !formatForm.descriptionColumn.trim()
+      || (!formatForm.amountColumn?.trim() && (!formatForm.debitColumn?.trim() || !formatForm.creditColumn?.trim()))) {
+      toast({
+        title: "Validation Error",
+        description: "Enter a name, the date and description columns, and either debit and credit or an amount column",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await saveStatementFormat(formatForm);
+      setFormats(await getStatementFormats());
+      setFormatForm(emptyFormat);
+      toast({ title: "Format Saved", description: formatForm.name });
+    } catch (error) {
+      console.error('Error saving statement format:', error);
+      showError(error, "Failed to save the format");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderLineStatus = (line: BankStatementLine) => {
+    if (line.status === 'proposed') {
+      return <Badge variant="secondary">Proposed • {line.matchScore}%</Badge>;
+    }
+    if (line.status === 'reconciled') return <Badge variant="default">Reconciled</Badge>;
+    if (line.status === 'ignored') return <Badge variant="outline">Ignored</Badge>;
+    return <Badge variant="destructive">Unmatched</Badge>;
+  };
+
+  const renderMatch = (line: BankStatementLine) => {
+    if (!line.matchType) return null;
+    return (
+      <div className="text-xs text-blue-700 mt-1">
+        {MATCH_TYPE_LABELS[line.matchType]}:{' '}
+        {line.matchedCheque
+          ? `#${line.matchedCheque.chequeNumber} • ${line.matchedCheque.customerName} • LKR ${money(line.matchedCheque.amount)}`
+          : line.matchedCollection
+            ? `${line.matchedCollection.customerName} • ${line.matchedCollection.cashDate.toLocaleDateString()} • LKR ${money(line.matchedCollection.cashAmount)}`
+            : ''}
+      </div>
+    );
+  };
+
+  const visibleLines = openOnly ? lines.filter(line => ['unmatched', 'proposed'].includes(line.status)) : lines;
+  const exactCount = lines.filter(line => line.status === 'proposed' && line.matchScore === 100).length;
+  const parsedCredits = roundMoney(parsedLines.reduce((sum, line) => sum + line.credit, 0));
+  const parsedDebits = roundMoney(parsedLines.reduce((sum, line) => sum + line.debit, 0));
+
+  return (
+    <div className="p-4 md:p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start gap-3">
+        <Button variant="ghost" size="sm" onClick={onBack} className="mt-0.5 shrink-0">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </Button>
+        <div className="min-w-0">
+          <h2 className="text-xl md:text-2xl font-bold text-gray-900 leading-tight">Bank Reconciliation</h2>
+          <p className="text-sm text-gray-600 mt-0.5">Import bank statements and match them to cheques and cash deposits</p>
+        </div>
+      </div>
+
+      <AgencySelector
+        user={user}
+        selectedAgencyId={selectedAgencyId}
+        onAgencyChange={setSelectedAgencyId}
+        placeholder="Select agency to reconcile..."
+      />
+
+      {selectedAgencyId && (
+        <div className="max-w-md">
+          <Label>Bank Account</Label>
+          {accounts.length === 0 ? (
+            <div className="text-sm text-gray-500 mt-1">Add a bank account for the agency in the PDC Register first.</div>
+          ) : (
+            <Select value={accountId} onValueChange={setAccountId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose account" />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map(a => (
+                  <SelectItem key={a.id} value={a.id}>{a.bankName} • {a.accountNumber}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList>
+          <TabsTrigger value="import">Import</TabsTrigger>
+          <TabsTrigger value="matches">Matches</TabsTrigger>
+          <TabsTrigger value="unreconciled">Unreconciled</TabsTrigger>
+          <TabsTrigger value="formats">Formats</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="import">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Upload className="h-5 w-5" />
+                Upload Statement
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!account ? (
+                <div className="text-sm text-gray-500">Choose the bank account the statement belongs to.</div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                      <Label>Statement Format</Label>
+                      <Select
+                        value={formatId}
+                        onValueChange={(value) => {
+                          setFormatId(value);
+                          setParsedLines([]);
+                          setFileName('');
+                        }}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose format" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {formats.map(f => (
+                            <SelectItem key={f.id} value={f.id}>{f.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label>CSV File</Label>
+                      <Input
+                        key={`${formatId}-${accountId}`}
+                        type="file"
+                        accept=".csv,text/csv"
+                        disabled={!format}
+                        onChange={(e) => handleFileChange(e.target.files?.[0])}
+                      />
+                    </div>
+                  </div>
+
+                  {parsedLines.length > 0 && (
+                    <div className="space-y-3">
+                      <div className="text-sm text-gray-700">
+                        {parsedLines.length} transactions from {parsedLines[0].transactionDate} to{' '}
+                        {parsedLines[parsedLines.length - 1].transactionDate} • Credits LKR {money(parsedCredits)} •
+                        Debits LKR {money(parsedDebits)}
+                      </div>
+                      <div className="max-h-64 overflow-y-auto border rounded-lg divide-y text-sm">
+                        {parsedLines.slice(0, 50).map(line => (
+                          <div key={line.lineNumber} className="flex justify-between gap-3 px-3 py-2">
+                            <div className="min-w-0">
+                              <div className="truncate">{line.description}</div>
+                              <div className="text-xs text-gray-500">
+                                {line.transactionDate}{line.chequeNumber && ` • Cheque #${line.chequeNumber}`}
+                              </div>
+                            </div>
+                            <div className={`shrink-0 font-medium ${line.credit > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {line.credit > 0 ? `+${money(line.credit)}` : `-${money(line.debit)}`}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex justify-end">
+                        <Button onClick={handleImport} disabled={busy}>
+                          <FileSpreadsheet className="h-4 w-4 mr-1" />
+                          {busy ? 'Importing...' : 'Import & Match'}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="matches" className="space-y-4">
+          {imports.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No statements imported for this account yet</div>
+          ) : (
+            <>
+              <div className="flex flex-col md:flex-row md:items-end gap-3">
+                <div className="flex-1 max-w-md">
+                  <Label>Statement</Label>
+                  <Select value={importId} onValueChange={setImportId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {imports.map(statement => (
+                        <SelectItem key={statement.id} value={statement.id}>
+                          {statement.fileName} • {statement.statementFrom?.toLocaleDateString()} – {statement.statementTo?.toLocaleDateString()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" onClick={() => setOpenOnly(!openOnly)}>
+                    {openOnly ? 'Show All Lines' : 'Show Open Lines'}
+                  </Button>
+                  <Button variant="outline" onClick={handleRematch} disabled={busy}>
+                    <RefreshCw className="h-4 w-4 mr-1" />
+                    Match Again
+                  </Button>
+                  <Button onClick={handleConfirmAllExact} disabled={busy || exactCount === 0}>
+                    Confirm {exactCount} Exact Matches
+                  </Button>
+                </div>
+              </div>
+
+              {visibleLines.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">Every line of this statement is reconciled</div>
+              ) : (
+                <div className="space-y-2">
+                  {visibleLines.map(line => (
+                    <div key={line.id} className="p-3 border rounded-lg">
+                      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <div className="font-medium truncate">{line.description || '—'}</div>
+                          <div className="text-xs text-gray-500">
+                            {line.transactionDate.toLocaleDateString()}
+                            {line.chequeNumber && ` • Cheque #${line.chequeNumber}`}
+                            {line.reference && ` • Ref ${line.reference}`}
+                            {line.notes && ` • ${line.notes}`}
+                          </div>
+                          {renderMatch(line)}
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <span className={`font-medium ${line.credit > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {line.credit > 0 ? `+${money(line.credit)}` : `-${money(line.debit)}`}
+                          </span>
+                          {renderLineStatus(line)}
+                          {line.status === 'proposed' && (
+                            <>
+                              <Button
+                                size="sm"
+                                onClick={() => runLineAction(() => confirmStatementLine(line.id), "Failed to confirm the match")}
+                                disabled={busy}
+                              >
+                                Confirm
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => runLineAction(() => dismissStatementLine(line.id, false), "Failed to reject the match")}
+                                disabled={busy}
+                              >
+                                Reject
+                              </Button>
+                            </>
+                          )}
+                          {line.status === 'unmatched' && (
+                            <Button size="sm" variant="outline" onClick={() => handleIgnore(line)} disabled={busy}>
+                              Ignore
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="unreconciled" className="space-y-4">
+          {!account ? (
+            <div className="text-center py-8 text-gray-500">Choose a bank account</div>
+          ) : (
+            <>
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  onClick={handleExportUnreconciled}
+                  disabled={unreconciledLines.length + waitingCheques.length === 0}
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Export CSV
+                </Button>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">
+                    On the statement, not reconciled ({unreconciledLines.length})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {unreconciledLines.length === 0 ? (
+                    <div className="text-sm text-gray-500">Nothing outstanding</div>
+                  ) : (
+                    unreconciledLines.map(line => (
+                      <div key={line.id} className="flex justify-between gap-3 text-sm border-b last:border-b-0 py-2">
+                        <div className="min-w-0">
+                          <div className="truncate">{line.description || '—'}</div>
+                          <div className="text-xs text-gray-500">
+                            {line.transactionDate.toLocaleDateString()}
+                            {line.chequeNumber && ` • Cheque #${line.chequeNumber}`}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <span className={line.credit > 0 ? 'text-green-600' : 'text-red-600'}>
+                            {line.credit > 0 ? `+${money(line.credit)}` : `-${money(line.debit)}`}
+                          </span>
+                          {renderLineStatus(line)}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">
+                    Banked, not on any statement ({waitingCheques.length})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {waitingCheques.length === 0 ? (
+                    <div className="text-sm text-gray-500">Nothing outstanding</div>
+                  ) : (
+                    waitingCheques.map(cheque => (
+                      <div key={cheque.id} className="flex justify-between gap-3 text-sm border-b last:border-b-0 py-2">
+                        <div className="min-w-0">
+                          <div className="truncate">#{cheque.chequeNumber} • {cheque.bankName}</div>
+                          <div className="text-xs text-gray-500">
+                            {cheque.customerName} • banked {cheque.depositedAt?.toLocaleDateString()}
+                          </div>
+                        </div>
+                        <span className="shrink-0 font-medium">LKR {money(cheque.amount)}</span>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="formats" className="space-y-4">
+          {isSuperuser && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">{formatForm.id ? `Edit ${formatForm.name}` : 'New Format'}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {([
+                    ['name', 'Format Name'],
+                    ['bankName', 'Bank'],
+                    ['dateColumn', 'Date Column'],
+                    ['descriptionColumn', 'Description Column'],
+                    ['referenceColumn', 'Reference Column'],
+                    ['chequeNumberColumn', 'Cheque No Column'],
+                    ['debitColumn', 'Debit Column'],
+                    ['creditColumn', 'Credit Column'],
+                    ['amountColumn', 'Signed Amount Column'],
+                  ] as Array<[keyof FormatForm, string]>).map(([key, label]) => (
+                    <div key={key}>
+                      <Label>{label}</Label>
+                      <Input
+                        value={(formatForm[key] as string | undefined) || ''}
+                        onChange={(e) => setFormatForm(prev => ({ ...prev, [key]: e.target.value }))}
+                      />
+                    </div>
+                  ))}
+                  <div>
+                    <Label>Date Format</Label>
+                    <Select
+                      value={formatForm.dateFormat}
+                      onValueChange={(value) => setFormatForm(prev => ({ ...prev, dateFormat: value as StatementDateFormat }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STATEMENT_DATE_FORMATS.map(dateFormat => (
+                          <SelectItem key={dateFormat} value={dateFormat}>{dateFormat}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="flex justify-end gap-2">
+                  {formatForm.id && (
+                    <Button variant="outline" onClick={() => setFormatForm(emptyFormat)} disabled={busy}>Cancel</Button>
+                  )}
+                  <Button onClick={handleSaveFormat} disabled={busy}>Save Format</Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {formats.map(f => (
+            <div key={f.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg text-sm">
+              <div className="min-w-0">
+                <div className="font-medium">{f.name}</div>
+                <div className="text-xs text-gray-500">
+                  {f.dateColumn} ({f.dateFormat}) • {f.descriptionColumn}
+                  {f.chequeNumberColumn && ` • ${f.chequeNumberColumn}`}
+                  {f.amountColumn ? ` • ${f.amountColumn}` : ` • ${f.debitColumn} / ${f.creditColumn}`}
+                </div>
+              </div>
+              {isSuperuser && (
+                <Button size="sm" variant="outline" onClick={() => setFormatForm({ ...f })}>Edit</Button>
+              )}
+            </div>
+          ))}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default BankReconciliation;
@@ -0,0 +1,317 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Ban, Banknote, CalendarClock, Receipt, XCircle } from 'lucide-react';
+import { User } from '@/types/auth';
+import { ChequeRecoveryCase, RecoveryCaseStatus } from '@/types/collections';
+import { useToast } from '@/hooks/use-toast';
+import {
+  RECOVERY_EVENT_LABELS,
+  addRecoveryCharge,
+  closeRecoveryCase,
+  getRecoveryBalance,
+  getRecoveryCases,
+  logRecoveryFollowUp,
+  recordRecoveryCash,
+  setCustomerCashOnly
+} from '@/utils/chequeRecovery';
+import { roundMoney } from '@/utils/money';
+
+interface ChequeRecoveryCasesProps {
+  user: User;
+  agencyId: string | null;
+  refreshKey: number;
+}
+
+type RecoveryAction = 'charge' | 'cash' | 'follow_up' | 'close';
+
+const STATUS_VARIANTS: Record<RecoveryCaseStatus, 'destructive' | 'default' | 'secondary'> = {
+  open: 'destructive',
+  recovered: 'default',
+  closed: 'secondary'
+};
+
+const toDateKey = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export const ChequeRecoveryCases: React.FC<ChequeRecoveryCasesProps> = ({ user, agencyId, refreshKey }) => {
+  const [cases, setCases] = useState<ChequeRecoveryCase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [action, setAction] = useState<{ caseId: string; type: RecoveryAction } | null>(null);
+  const [amount, setAmount] = useState(0);
+  const [notes, setNotes] = useState('');
+  const [followUpDate, setFollowUpDate] = useState('');
+  const { toast } = useToast();
+
+  const canManageCashOnly = user.role === 'agency' || user.role === 'superuser';
+
+  const showError = (error: unknown, fallback: string) => {
+    console.error(fallback, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const loadCases = async () => {
+    setLoading(true);
+    try {
+      setCases(await getRecoveryCases(agencyId));
+    } catch (error) {
+      showError(error, 'Failed to load recovery cases');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCases();
+  }, [agencyId, refreshKey]);
+
+  const openAction = (recoveryCase: ChequeRecoveryCase, type: RecoveryAction) => {
+    setAction({ caseId: recoveryCase.id, type });
+    setAmount(type === 'cash' ? getRecoveryBalance(recoveryCase) : 0);
+    setNotes('');
+    setFollowUpDate('');
+  };
+
+  const handleAction = async () => {
+    if (!action) return;
+
+    setBusy(true);
+    try {
+      if (action.type === 'charge') {
+        await addRecoveryCharge(action.caseId, roundMoney(amount), notes);
+        toast({ title: "Charge Added", description: `LKR ${roundMoney(amount).toLocaleString()} raised as a debit note` });
+      } else if (action.type === 'cash') {
+        await recordRecoveryCash(action.caseId, roundMoney(amount), notes);
+        toast({
+          title: "Cash Recorded",
+          description: `LKR ${roundMoney(amount).toLocaleString()} received; charges settled first and the rest collected against invoices`,
+        });
+      } else if (action.type === 'follow_up') {
+        await logRecoveryFollowUp(action.caseId, notes, followUpDate || undefined);
+        toast({ title: "Follow-up Logged", description: followUpDate ? `Next follow-up on ${followUpDate}` : "No further follow-up set" });
+      } else {
+        await closeRecoveryCase(action.caseId, notes);
+        toast({ title: "Case Closed", description: "The recovery case was closed" });
+      }
+      setAction(null);
+      await loadCases();
+    } catch (error) {
+      showError(error, 'Failed to update the recovery case');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLiftCashOnly = async (recoveryCase: ChequeRecoveryCase) => {
+    if (!window.confirm(`Allow ${recoveryCase.customerName} to pay by cheque again?`)) return;
+
+    setBusy(true);
+    try {
+      await setCustomerCashOnly(recoveryCase.customerId, false);
+      toast({ title: "Cash-only Lifted", description: `${recoveryCase.customerName} can pay by cheque again` });
+      await loadCases();
+    } catch (error) {
+      showError(error, 'Failed to lift cash-only');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const today = toDateKey(new Date());
+  const visibleCases = showAll ? cases : cases.filter(recoveryCase => recoveryCase.status === 'open');
+  const openBalance = roundMoney(
+    cases.filter(recoveryCase => recoveryCase.status === 'open').reduce((sum, recoveryCase) => sum + getRecoveryBalance(recoveryCase), 0)
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <CardTitle>Recovery Cases</CardTitle>
+            <p className="text-sm text-gray-600 mt-1">
+              LKR {openBalance.toLocaleString()} still to recover, including bank charges and penalties
+            </p>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => setShowAll(current => !current)}>
+            {showAll ? 'Open Cases Only' : 'Show All Cases'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <div className="text-center py-6 text-gray-500">Loading recovery cases...</div>
+        ) : visibleCases.length === 0 ? (
+          <div className="text-center py-6 text-gray-500">
+            {showAll ? 'No returned cheques have recovery cases yet.' : 'No open recovery cases.'}
+          </div>
+        ) : (
+          visibleCases.map((recoveryCase) => {
+            const overdue = recoveryCase.status === 'open'
+              && !!recoveryCase.nextFollowUpDate
+              && toDateKey(recoveryCase.nextFollowUpDate) < today;
+            const activeAction = action?.caseId === recoveryCase.id ? action.type : null;
+
+            return (
+              <div
+                key={recoveryCase.id}
+                className={`border rounded-lg p-4 space-y-3 ${overdue ? 'border-red-300 bg-red-50' : ''}`}
+              >
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-semibold text-gray-900">Cheque #{recoveryCase.chequeNumber}</span>
+                      <Badge variant={STATUS_VARIANTS[recoveryCase.status]}>{recoveryCase.status}</Badge>
+                      {recoveryCase.customerIsCashOnly && (
+                        <Badge variant="outline" className="border-red-300 text-red-700">
+                          <Ban className="h-3 w-3 mr-1" />Cash only
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-600">{recoveryCase.customerName} • {recoveryCase.bankName}</div>
+                    {recoveryCase.returnReason && (
+                      <div className="text-xs text-gray-500">Returned: {recoveryCase.returnReason}</div>
+                    )}
+                    {recoveryCase.nextFollowUpDate && recoveryCase.status === 'open' && (
+                      <div className={`text-xs flex items-center gap-1 ${overdue ? 'text-red-700 font-medium' : 'text-gray-500'}`}>
+                        <CalendarClock className="h-3 w-3" />
+                        Follow up {overdue ? 'was due' : 'on'} {recoveryCase.nextFollowUpDate.toLocaleDateString()}
+                      </div>
+                    )}
+                    {recoveryCase.closedReason && (
+                      <div className="text-xs text-gray-500">Closed: {recoveryCase.closedReason}</div>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-3 gap-3 text-right text-sm shrink-0">
+                    <div>
+                      <div className="text-xs text-gray-500">Cheque</div>
+                      <div className="font-medium">LKR {recoveryCase.chequeAmount.toLocaleString()}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-500">Charges</div>
+                      <div className="font-medium">LKR {recoveryCase.chargesAmount.toLocaleString()}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-500">Recovered</div>
+                      <div className="font-medium text-green-700">LKR {recoveryCase.recoveredAmount.toLocaleString()}</div>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2 pt-1 border-t">
+                  {recoveryCase.status !== 'closed' && (
+                    <>
+                      <Button size="sm" variant="outline" onClick={() => openAction(recoveryCase, 'cash')} disabled={busy}>
+                        <Banknote className="h-4 w-4 mr-1" />Cash
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openAction(recoveryCase, 'charge')} disabled={busy}>
+                        <Receipt className="h-4 w-4 mr-1" />Charge
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openAction(recoveryCase, 'follow_up')} disabled={busy}>
+                        <CalendarClock className="h-4 w-4 mr-1" />Follow-up
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openAction(recoveryCase, 'close')} disabled={busy}>
+                        <XCircle className="h-4 w-4 mr-1" />Close
+                      </Button>
+                    </>
+                  )}
+                  {recoveryCase.customerIsCashOnly && canManageCashOnly && (
+                    <Button size="sm" variant="ghost" onClick={() => handleLiftCashOnly(recoveryCase)} disabled={busy}>
+                      Lift Cash-only
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setExpandedId(current => current === recoveryCase.id ? null : recoveryCase.id)}
+                  >
+                    {expandedId === recoveryCase.id ? 'Hide History' : `History (${recoveryCase.events.length})`}
+                  </Button>
+                </div>
+
+                {activeAction && (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-end rounded-lg border bg-gray-50 p-3">
+                    {(activeAction === 'cash' || activeAction === 'charge') && (
+                      <div>
+                        <Label className="text-xs">Amount (LKR)</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={amount}
+                          onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                        />
+                      </div>
+                    )}
+                    {activeAction === 'follow_up' && (
+                      <div>
+                        <Label className="text-xs">Next Follow-up</Label>
+                        <Input type="date" min={today} value={followUpDate} onChange={(e) => setFollowUpDate(e.target.value)} />
+                      </div>
+                    )}
+                    <div className={activeAction === 'close' ? 'sm:col-span-3' : 'sm:col-span-2'}>
+                      <Label className="text-xs">
+                        {activeAction === 'charge' ? 'Reason' : activeAction === 'close' ? 'Why is the case closed?' : activeAction === 'follow_up' ? 'What was agreed' : 'Notes'}
+                      </Label>
+                      <Input
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        placeholder={activeAction === 'cash' ? 'Optional' : undefined}
+                      />
+                    </div>
+                    <div className="sm:col-span-3 flex justify-end gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setAction(null)} disabled={busy}>
+                        Cancel
+                      </Button>
+                      <Button size="sm" onClick={handleAction} disabled={busy}>
+                        {busy ? 'Saving...' : 'Save'}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {expandedId === recoveryCase.id && (
+                  <div className="space-y-1 text-sm">
+                    {recoveryCase.events.length === 0 ? (
+                      <div className="text-gray-500 text-xs">Nothing recorded yet.</div>
+                    ) : (
+                      recoveryCase.events.map((event) => (
+                        <div key={event.id} className="flex justify-between gap-3 border-b last:border-b-0 py-1">
+                          <div className="min-w-0">
+                            <span className="font-medium">{RECOVERY_EVENT_LABELS[event.eventType]}</span>
+                            {event.notes && <span className="text-gray-600"> – {event.notes}</span>}
+                            {event.followUpDate && (
+                              <span className="text-gray-500"> (next: {event.followUpDate.toLocaleDateString()})</span>
+                            )}
+                          </div>
+                          <div className="text-right shrink-0 text-gray-600">
+                            {event.amount > 0 && <div>LKR {event.amount.toLocaleString()}</div>}
+                            <div className="text-xs">{event.createdAt.toLocaleDateString()}</div>
+                          </div>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+};
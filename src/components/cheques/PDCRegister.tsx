@@ -0,0 +1,595 @@
+import { useState, useEffect } from 'react';
+import { User } from '@/types/auth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, CalendarClock, FileText, Landmark, Plus, TrendingUp } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import AgencySelector from '@/components/common/AgencySelector';
+import { BankAccount, ChequeDepositBatch, RegisterCheque } from '@/types/collections';
+import {
+  buildChequeForecast,
+  createDepositBatch,
+  getBankAccounts,
+  getDepositBatch,
+  getDepositBatches,
+  getRegisterCheques,
+  saveBankAccount,
+  setBankAccountActive,
+  setDepositSlipUrl,
+  settleDepositBatch
+} from '@/utils/chequeBanking';
+import { generateAndUploadDepositSlipPdf } from '@/services/invoice-pdf.service';
+import { roundMoney } from '@/utils/money';
+
+interface PDCRegisterProps {
+  user: User;
+  onBack: () => void;
+}
+
+type ChequeResult = 'cleared' | 'returned' | 'waiting';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyAccount = { bankName: '', branch: '', accountName: '', accountNumber: '' };
+
+const PDCRegister = ({ user, onBack }: PDCRegisterProps) => {
+  const [cheques, setCheques] = useState<RegisterCheque[]>([]);
+  const [batches, setBatches] = useState<ChequeDepositBatch[]>([]);
+  const [accounts, setAccounts] = useState<BankAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [selectedAgencyId, setSelectedAgencyId] = useState<string | null>(
+    user.role === 'superuser' ? null : user.agencyId
+  );
+  const [selectedChequeIds, setSelectedChequeIds] = useState<string[]>([]);
+  const [deposit, setDeposit] = useState({ bankAccountId: '', depositDate: today(), notes: '' });
+  const [settlingBatchId, setSettlingBatchId] = useState<string | null>(null);
+  const [results, setResults] = useState<Record<string, ChequeResult>>({});
+  const [resultDate, setResultDate] = useState(today());
+  const [returnReason, setReturnReason] = useState('');
+  const [accountForm, setAccountForm] = useState(emptyAccount);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchData();
+  }, [selectedAgencyId]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [registerCheques, depositBatches, bankAccounts] = await Promise.all([
+        getRegisterCheques(selectedAgencyId),
+        getDepositBatches(selectedAgencyId),
+        selectedAgencyId ? getBankAccounts(selectedAgencyId) : Promise.resolve([])
+      ]);
+      setCheques(registerCheques);
+      setBatches(depositBatches);
+      setAccounts(bankAccounts);
+      setSelectedChequeIds([]);
+    } catch (error) {
+      console.error('Error fetching PDC register:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the PDC register",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const openDepositSlip = async (batch: ChequeDepositBatch) => {
+    if (batch.slipPdfUrl) {
+      window.open(batch.slipPdfUrl, '_blank');
+      return;
+    }
+
+    const url = await generateAndUploadDepositSlipPdf({ batch });
+    if (!url) {
+      toast({
+        title: "Error",
+        description: "Failed to generate the deposit slip",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await setDepositSlipUrl(batch.id, url);
+    window.open(url, '_blank');
+  };
+
+  const toggleCheque = (chequeId: string, checked: boolean) => {
+    setSelectedChequeIds(prev => checked ? [...prev, chequeId] : prev.filter(id => id !== chequeId));
+  };
+
+  const handleCreateBatch = async () => {
+    if (!selectedAgencyId || !deposit.bankAccountId || selectedChequeIds.length === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Pick the cheques and the bank account to deposit into",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const batchId = await createDepositBatch(
+        selectedAgencyId,
+        deposit.bankAccountId,
+        selectedChequeIds,
+        deposit.depositDate,
+        deposit.notes
+      );
+      const batch = await getDepositBatch(batchId);
+      toast({
+        title: "Deposit Batch Created",
+        description: `${batch.batchNumber}: ${batch.chequeCount} cheques, LKR ${batch.totalAmount.toLocaleString()}`,
+      });
+      setDeposit(prev => ({ ...prev, notes: '' }));
+      await openDepositSlip(batch);
+      await fetchData();
+    } catch (error) {
+      console.error('Error creating deposit batch:', error);
+      showError(error, "Failed to create the deposit batch");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openSettlement = (batch: ChequeDepositBatch) => {
+    setSettlingBatchId(batch.id);
+    setResults(Object.fromEntries(
+      batch.cheques.filter(cheque => cheque.status === 'pending').map(cheque => [cheque.id, 'cleared' as ChequeResult])
+    ));
+    setResultDate(today());
+    setReturnReason('');
+  };
+
+  const markAll = (result: ChequeResult) => {
+    setResults(prev => Object.fromEntries(Object.keys(prev).map(id => [id, result])));
+  };
+
+  const handleSettle = async (batch: ChequeDepositBatch) => {
+    const clearedIds = Object.keys(results).filter(id => results[id] === 'cleared');
+    const returnedIds = Object.keys(results).filter(id => results[id] === 'returned');
+
+    if (clearedIds.length + returnedIds.length === 0) return;
+    if (returnedIds.length > 0 && !returnReason.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Enter the reason the bank returned the cheques",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!window.confirm(`Clear ${clearedIds.length} and return ${returnedIds.length} cheques of ${batch.batchNumber}?`)) return;
+
+    setBusy(true);
+    try {
+      await settleDepositBatch(batch.id, clearedIds, returnedIds, resultDate, returnReason);
+      toast({
+        title: "Bank Result Recorded",
+        description: `${clearedIds.length} cleared, ${returnedIds.length} returned`,
+      });
+      setSettlingBatchId(null);
+      await fetchData();
+    } catch (error) {
+      console.error('Error settling deposit batch:', error);
+      showError(error, "Failed to record the bank result");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveAccount = async () => {
+    if (!selectedAgencyId) return;
+    if (!accountForm.bankName.trim() || !accountForm.accountName.trim() || !accountForm.accountNumber.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Enter the bank, account name and account number",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await saveBankAccount(selectedAgencyId, accountForm);
+      setAccountForm(emptyAccount);
+      setAccounts(await getBankAccounts(selectedAgencyId));
+    } catch (error) {
+      console.error('Error saving bank account:', error);
+      showError(error, "Failed to save the bank account");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleToggleAccount = async (account: BankAccount) => {
+    if (!selectedAgencyId) return;
+    try {
+      await setBankAccountActive(account.id, !account.isActive);
+      setAccounts(await getBankAccounts(selectedAgencyId));
+    } catch (error) {
+      console.error('Error updating bank account:', error);
+      showError(error, "Failed to update the bank account");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const todayKey = today();
+  const forecast = buildChequeForecast(cheques);
+  const activeAccounts = accounts.filter(account => account.isActive);
+  const batchNumbers = new Map(batches.map(batch => [batch.id, batch.batchNumber]));
+  const selectedTotal = roundMoney(
+    cheques.filter(cheque => selectedChequeIds.includes(cheque.id)).reduce((sum, cheque) => sum + cheque.amount, 0)
+  );
+
+  // Group the register by maturity date
+  const chequesByDate = cheques.reduce<Array<{ dateKey: string; cheques: RegisterCheque[] }>>((groups, cheque) => {
+    const dateKey = cheque.chequeDate.toLocaleDateString('en-CA');
+    const group = groups.find(g => g.dateKey === dateKey);
+    if (group) {
+      group.cheques.push(cheque);
+    } else {
+      groups.push({ dateKey, cheques: [cheque] });
+    }
+    return groups;
+  }, []);
+
+  return (
+    <div className="p-4 md:p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start gap-3">
+        <Button variant="ghost" size="sm" onClick={onBack} className="mt-0.5 shrink-0">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </Button>
+        <div className="min-w-0">
+          <h2 className="text-xl md:text-2xl font-bold text-gray-900 leading-tight">PDC Register</h2>
+          <p className="text-sm text-gray-600 mt-0.5">Post-dated cheques by maturity, bank deposits and expected cash-in</p>
+        </div>
+      </div>
+
+      <AgencySelector
+        user={user}
+        selectedAgencyId={selectedAgencyId}
+        onAgencyChange={(agencyId) => {
+          setSelectedAgencyId(agencyId);
+          setSettlingBatchId(null);
+          setDeposit({ bankAccountId: '', depositDate: today(), notes: '' });
+        }}
+        placeholder="Select agency to view cheques..."
+      />
+
+      {/* Cash-in forecast */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {forecast.map(bucket => (
+          <Card key={bucket.key}>
+            <CardContent className="p-4">
+              <div className="flex items-center gap-1 text-xs text-gray-500">
+                <TrendingUp className="h-3 w-3" />
+                {bucket.label}
+              </div>
+              <div className="text-lg font-bold text-gray-900">LKR {bucket.amount.toLocaleString()}</div>
+              <div className="text-xs text-gray-500">{bucket.count} cheques</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Tabs defaultValue="register">
+        <TabsList>
+          <TabsTrigger value="register">Register</TabsTrigger>
+          <TabsTrigger value="batches">Deposit Batches</TabsTrigger>
+          <TabsTrigger value="accounts">Bank Accounts</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="register" className="space-y-4">
+          {/* Deposit */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Landmark className="h-5 w-5" />
+                Bank Selected Cheques
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!selectedAgencyId ? (
+                <div className="text-sm text-gray-500">Select an agency to bank its cheques.</div>
+              ) : activeAccounts.length === 0 ? (
+                <div className="text-sm text-gray-500">Add a bank account for the agency under Bank Accounts first.</div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                  <div>
+                    <Label>Bank Account</Label>
+                    <Select
+                      value={deposit.bankAccountId}
+                      onValueChange={(value) => setDeposit(prev => ({ ...prev, bankAccountId: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose account" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {activeAccounts.map(account => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.bankName} • {account.accountNumber}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Deposit Date</Label>
+                    <Input
+                      type="date"
+                      value={deposit.depositDate}
+                      onChange={(e) => setDeposit(prev => ({ ...prev, depositDate: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label>Notes</Label>
+                    <Input
+                      value={deposit.notes}
+                      onChange={(e) => setDeposit(prev => ({ ...prev, notes: e.target.value }))}
+                      placeholder="Optional"
+                    />
+                  </div>
+                  <Button onClick={handleCreateBatch} disabled={busy || selectedChequeIds.length === 0}>
+                    {busy ? 'Saving...' : `Deposit ${selectedChequeIds.length} (LKR ${selectedTotal.toLocaleString()})`}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Cheques by maturity */}
+          {chequesByDate.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No post-dated cheques to bank</div>
+          ) : (
+            chequesByDate.map(group => (
+              <Card key={group.dateKey}>
+                <CardHeader className="py-3">
+                  <CardTitle className="flex items-center justify-between text-base">
+                    <span className="flex items-center gap-2">
+                      <CalendarClock className="h-4 w-4" />
+                      {new Date(`${group.dateKey}T00:00:00`).toLocaleDateString()}
+                    </span>
+                    <span className="text-sm font-medium text-gray-600">
+                      LKR {roundMoney(group.cheques.reduce((sum, cheque) => sum + cheque.amount, 0)).toLocaleString()}
+                    </span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {group.cheques.map(cheque => {
+                    const canDeposit = !!selectedAgencyId && !cheque.depositBatchId && group.dateKey <= deposit.depositDate;
+
+                    return (
+                      <div key={cheque.id} className="flex items-center gap-3 p-3 border rounded-lg">
+                        <Checkbox
+                          checked={selectedChequeIds.includes(cheque.id)}
+                          onCheckedChange={(checked) => toggleCheque(cheque.id, checked === true)}
+                          disabled={!canDeposit}
+                        />
+                        <div className="flex-1 min-w-0">
+                          <div className="font-medium truncate">Cheque #{cheque.chequeNumber}</div>
+                          <div className="text-sm text-gray-600 truncate">
+                            {cheque.customerName} • {cheque.bankName}
+                          </div>
+                        </div>
+                        <div className="flex flex-col items-end gap-1 shrink-0">
+                          <div className="font-bold text-green-600 text-sm">LKR {cheque.amount.toLocaleString()}</div>
+                          {cheque.depositBatchId ? (
+                            <Badge variant="secondary">Banked • {batchNumbers.get(cheque.depositBatchId) || 'batch'}</Badge>
+                          ) : group.dateKey <= todayKey ? (
+                            <Badge variant="default">Due</Badge>
+                          ) : (
+                            <Badge variant="outline">Post-dated</Badge>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
+
+        <TabsContent value="batches" className="space-y-4">
+          {batches.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No deposit batches yet</div>
+          ) : (
+            batches.map(batch => {
+              const waiting = batch.cheques.filter(cheque => cheque.status === 'pending');
+
+              return (
+                <Card key={batch.id}>
+                  <CardHeader className="py-3">
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                      <div>
+                        <div className="font-semibold">{batch.batchNumber}</div>
+                        <div className="text-sm text-gray-600">
+                          {batch.bankAccount ? `${batch.bankAccount.bankName} • ${batch.bankAccount.accountNumber}` : ''}
+                          {' • '}{batch.depositDate.toLocaleDateString()}
+                          {!selectedAgencyId && batch.agencyName && ` • ${batch.agencyName}`}
+                        </div>
+                        <div className="text-sm text-gray-600">
+                          {batch.chequeCount} cheques • LKR {batch.totalAmount.toLocaleString()}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={batch.status === 'settled' ? 'default' : 'secondary'}>
+                          {batch.status === 'settled' ? 'Settled' : `${waiting.length} waiting`}
+                        </Badge>
+                        <Button size="sm" variant="outline" onClick={() => openDepositSlip(batch)}>
+                          <FileText className="h-4 w-4 mr-1" />
+                          Slip
+                        </Button>
+                        {waiting.length > 0 && settlingBatchId !== batch.id && (
+                          <Button size="sm" onClick={() => openSettlement(batch)}>
+                            Record Bank Result
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {batch.cheques.map(cheque => (
+                      <div key={cheque.id} className="flex items-center justify-between gap-3 text-sm border-b last:border-b-0 py-2">
+                        <div className="min-w-0">
+                          <div className="font-medium truncate">#{cheque.chequeNumber} • {cheque.bankName}</div>
+                          <div className="text-gray-500 truncate">{cheque.customerName}</div>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <span className="font-medium">LKR {cheque.amount.toLocaleString()}</span>
+                          {settlingBatchId === batch.id && cheque.id in results ? (
+                            <Select
+                              value={results[cheque.id]}
+                              onValueChange={(value) => setResults(prev => ({ ...prev, [cheque.id]: value as ChequeResult }))}
+                            >
+                              <SelectTrigger className="w-32 h-8">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="cleared">Cleared</SelectItem>
+                                <SelectItem value="returned">Returned</SelectItem>
+                                <SelectItem value="waiting">Not yet</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <Badge variant={cheque.status === 'returned' ? 'destructive' : cheque.status === 'cleared' ? 'default' : 'secondary'}>
+                              {cheque.status === 'pending' ? 'waiting' : cheque.status}
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+
+                    {settlingBatchId === batch.id && (
+                      <div className="pt-3 space-y-3">
+                        <div className="flex flex-wrap gap-2">
+                          <Button size="sm" variant="outline" onClick={() => markAll('cleared')}>All Cleared</Button>
+                          <Button size="sm" variant="outline" onClick={() => markAll('returned')}>All Returned</Button>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                          <div>
+                            <Label>Statement Date</Label>
+                            <Input type="date" value={resultDate} onChange={(e) => setResultDate(e.target.value)} />
+                          </div>
+                          <div>
+                            <Label>Return Reason</Label>
+                            <Input
+                              value={returnReason}
+                              onChange={(e) => setReturnReason(e.target.value)}
+                              placeholder="e.g. Insufficient funds"
+                            />
+                          </div>
+                        </div>
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" variant="outline" onClick={() => setSettlingBatchId(null)} disabled={busy}>
+                            Cancel
+                          </Button>
+                          <Button size="sm" onClick={() => handleSettle(batch)} disabled={busy}>
+                            {busy ? 'Saving...' : 'Apply Bank Result'}
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+        </TabsContent>
+
+        <TabsContent value="accounts" className="space-y-4">
+          {!selectedAgencyId ? (
+            <div className="text-center py-8 text-gray-500">Select an agency to manage its bank accounts</div>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Plus className="h-5 w-5" />
+                    Add Bank Account
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+                  <div>
+                    <Label>Bank</Label>
+                    <Input
+                      value={accountForm.bankName}
+                      onChange={(e) => setAccountForm(prev => ({ ...prev, bankName: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label>Branch</Label>
+                    <Input
+                      value={accountForm.branch}
+                      onChange={(e) => setAccountForm(prev => ({ ...prev, branch: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label>Account Name</Label>
+                    <Input
+                      value={accountForm.accountName}
+                      onChange={(e) => setAccountForm(prev => ({ ...prev, accountName: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label>Account Number</Label>
+                    <Input
+                      value={accountForm.accountNumber}
+                      onChange={(e) => setAccountForm(prev => ({ ...prev, accountNumber: e.target.value }))}
+                    />
+                  </div>
+                  <Button onClick={handleSaveAccount} disabled={busy}>Add Account</Button>
+                </CardContent>
+              </Card>
+
+              {accounts.map(account => (
+                <div key={account.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                  <div>
+                    <div className="font-medium">{account.bankName}{account.branch && ` – ${account.branch}`}</div>
+                    <div className="text-sm text-gray-600">{account.accountName} • {account.accountNumber}</div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {!account.isActive && <Badge variant="secondary">Inactive</Badge>}
+                    <Button size="sm" variant="outline" onClick={() => handleToggleAccount(account)}>
+                      {account.isActive ? 'Deactivate' : 'Activate'}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default PDCRegister;
@@ -11,6 +11,7 @@ import { ArrowLeft, Search, FileX, AlertTriangle, Banknote, CheckCircle2, Landma
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import AgencySelector from '@/components/common/AgencySelector';
+import { ChequeRecoveryCases } from '@/components/cheques/ChequeRecoveryCases';
 
 interface ReturnChequesLodgeProps {
   user: User;
@@ -51,6 +52,7 @@ const ReturnChequesLodge = ({ user, onBack }: ReturnChequesLodgeProps) => {
   });
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
+  const [recoveryRefreshKey, setRecoveryRefreshKey] = useState(0);
   const [selectedAgencyId, setSelectedAgencyId] = useState<string | null>(
     user.role === 'superuser' ? null : user.agencyId
   );
@@ -126,7 +128,8 @@ const ReturnChequesLodge = ({ user, onBack }: ReturnChequesLodgeProps) => {
             return_reason,
             returned_at,
             resolution_method,
-            resolved_at
+            resolved_at,
+            deposit_batch_id
           )
         `)
         .not('collection_cheques', 'is', null);
@@ -158,7 +161,8 @@ const ReturnChequesLodge = ({ user, onBack }: ReturnChequesLodgeProps) => {
         collection.collection_cheques?.forEach(cheque => {
           const chequeDateKey = cheque.cheque_date;
           const storedStatus = cheque.status || 'pending';
-          const effectiveStatus = getAutoStatus(storedStatus, chequeDateKey);
+          // Cheques banked from the PDC register wait for the bank's result instead of clearing on their date
+          const effectiveStatus = cheque.deposit_batch_id ? storedStatus : getAutoStatus(storedStatus, chequeDateKey);
 
           if (storedStatus === 'pending' && effectiveStatus === 'cleared') {
             duePendingChequeIds.push(cheque.id);
@@ -208,6 +212,7 @@ const ReturnChequesLodge = ({ user, onBack }: ReturnChequesLodgeProps) => {
       setReturnedCheques(
         returnedChequesList.sort((a, b) => (b.returnedAt?.getTime() || 0) - (a.returnedAt?.getTime() || 0))
       );
+      setRecoveryRefreshKey(current => current + 1);
     } catch (error) {
       console.error('Error fetching cheques:', error);
       toast({
@@ -862,6 +867,8 @@ const ReturnChequesLodge = ({ user, onBack }: ReturnChequesLodgeProps) => {
           )}
         </CardContent>
       </Card>
+
+      <ChequeRecoveryCases user={user} agencyId={selectedAgencyId} refreshKey={recoveryRefreshKey} />
     </div>
   );
 };
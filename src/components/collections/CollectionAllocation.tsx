@@ -1,144 +1,139 @@
-import React, { useState } from 'react';
-import { Button } from '@/components/ui/button';
+import React from 'react';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
-import { Collection, InvoiceSummary } from '@/types/collections';
-import { centsToMoney, moneyToCents, roundMoney } from '@/utils/money';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AllocationStrategy, InvoiceSummary } from '@/types/collections';
+import { ALLOCATION_STRATEGY_LABELS, planCollectionAllocation } from '@/utils/collectionAllocation';
+import { roundMoney } from '@/utils/money';
 
 interface CollectionAllocationProps {
-  collection: Collection;
   invoices: InvoiceSummary[];
-  onAllocate: (allocations: { invoiceId: string; amount: number }[]) => void;
-  onCancel: () => void;
-  loading?: boolean;
+  amount: number;
+  strategy: AllocationStrategy;
+  // Picked invoices for the 'specific' strategy; null = up to the invoice's outstanding
+  specificAmounts: Record<string, number | null>;
+  onStrategyChange: (strategy: AllocationStrategy) => void;
+  onSpecificAmountsChange: (amounts: Record<string, number | null>) => void;
 }
 
 export const CollectionAllocation: React.FC<CollectionAllocationProps> = ({
-  collection,
   invoices,
-  onAllocate,
-  onCancel,
-  loading = false
+  amount,
+  strategy,
+  specificAmounts,
+  onStrategyChange,
+  onSpecificAmountsChange
 }) => {
-  const [allocations, setAllocations] = useState<{ [invoiceId: string]: number }>({});
-  const [totalAllocated, setTotalAllocated] = useState(0);
+  const plan = planCollectionAllocation(strategy, invoices, amount, specificAmounts);
+  const plannedByInvoice = new Map(plan.allocations.map(allocation => [allocation.invoiceId, allocation.amount]));
+  const allocatedAmount = roundMoney(amount - plan.credit);
 
-  const handleAllocationChange = (invoiceId: string, amount: number) => {
-    const invoice = invoices.find((item) => item.id === invoiceId);
-    const maxAllocation = invoice ? roundMoney(invoice.outstandingAmount || 0) : amount;
-    const nextAmount = Math.max(0, Math.min(roundMoney(amount || 0), maxAllocation));
-    const newAllocations = { ...allocations, [invoiceId]: nextAmount };
-    const total = roundMoney(Object.values(newAllocations).reduce((sum, amt) => sum + amt, 0));
-    
-    setAllocations(newAllocations);
-    setTotalAllocated(total);
+  const toggleInvoice = (invoiceId: string, checked: boolean) => {
+    const next = { ...specificAmounts };
+    if (checked) {
+      next[invoiceId] = null;
+    } else {
+      delete next[invoiceId];
+    }
+    onSpecificAmountsChange(next);
   };
 
-  const handleSubmit = () => {
-    const allocationList = Object.entries(allocations)
-      .filter(([_, amount]) => amount > 0)
-      .map(([invoiceId, amount]) => ({ invoiceId, amount: centsToMoney(moneyToCents(amount)) }));
-
-    onAllocate(allocationList);
+  const handleAmountChange = (invoiceId: string, value: string) => {
+    const parsed = parseFloat(value);
+    onSpecificAmountsChange({
+      ...specificAmounts,
+      [invoiceId]: Number.isNaN(parsed) ? null : Math.max(0, roundMoney(parsed))
+    });
   };
 
-  const remainingAmount = roundMoney(collection.totalAmount - totalAllocated);
-
   return (
-    <Card className="w-full max-w-4xl mx-auto">
-      <CardHeader>
-        <CardTitle>Allocate Collection to Invoices</CardTitle>
-        <div className="text-sm text-muted-foreground">
-          Collection: LKR {collection.totalAmount.toFixed(2)} • Customer: {collection.customerName}
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+        <div>
+          <Label>Allocate Payment</Label>
+          <Select value={strategy} onValueChange={(value) => onStrategyChange(value as AllocationStrategy)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ALLOCATION_STRATEGY_LABELS) as AllocationStrategy[]).map(key => (
+                <SelectItem key={key} value={key}>{ALLOCATION_STRATEGY_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
-      </CardHeader>
-      <CardContent>
-        <div className="space-y-6">
-          {/* Summary */}
-          <div className="grid grid-cols-3 gap-4 p-4 bg-muted rounded-lg">
-            <div>
-              <div className="text-sm font-medium text-muted-foreground">Total Collection</div>
-              <div className="text-2xl font-bold">LKR {collection.totalAmount.toFixed(2)}</div>
-            </div>
-            <div>
-              <div className="text-sm font-medium text-muted-foreground">Allocated</div>
-              <div className="text-2xl font-bold text-green-600">LKR {totalAllocated.toFixed(2)}</div>
-            </div>
-            <div>
-              <div className="text-sm font-medium text-muted-foreground">Remaining</div>
-              <div className={`text-2xl font-bold ${remainingAmount < 0 ? 'text-red-600' : 'text-blue-600'}`}>
-                LKR {remainingAmount.toFixed(2)}
-              </div>
-            </div>
-          </div>
+        <div className="text-sm text-gray-600 sm:text-right">
+          Allocated: LKR {allocatedAmount.toFixed(2)} / {roundMoney(amount).toFixed(2)}
+        </div>
+      </div>
 
-          {/* Invoices */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-medium">Available Invoices</h3>
-            {invoices.length === 0 ? (
-              <div className="text-center py-8 text-muted-foreground">
-                No outstanding invoices found for this customer.
-              </div>
-            ) : (
-              <div className="space-y-3">
-                {invoices.map((invoice) => {
-                  const outstandingAmount = roundMoney(invoice.outstandingAmount || 0);
+      {invoices.length === 0 ? (
+        <div className="text-center py-4 text-sm text-gray-500 bg-gray-50 rounded-lg">
+          No outstanding invoices. The whole payment will be kept as customer credit.
+        </div>
+      ) : (
+        <div className="space-y-3 max-h-64 overflow-y-auto">
+          {invoices.map((invoice) => {
+            const outstandingAmount = roundMoney(invoice.outstandingAmount || 0);
+            const picked = invoice.id in specificAmounts;
+            const planned = plannedByInvoice.get(invoice.id) || 0;
 
-                  return (
-                  <div key={invoice.id} className="flex items-center justify-between p-4 border rounded-lg">
-                    <div className="flex-1">
-                      <div className="font-medium">Invoice #{invoice.invoiceNumber}</div>
-                      <div className="text-sm text-muted-foreground">
-                        Outstanding: LKR {outstandingAmount.toFixed(2)} • 
-                        Total: LKR {invoice.total.toFixed(2)} • 
-                        Created: {invoice.createdAt.toLocaleDateString()}
-                      </div>
-                      <Badge variant={invoice.status === 'paid' ? 'default' : 'secondary'}>
-                        {invoice.status.replace('_', ' ')}
-                      </Badge>
+            return (
+              <div key={invoice.id} className="border rounded-lg p-3">
+                <div className="flex justify-between items-start gap-3">
+                  {strategy === 'specific' && (
+                    <Checkbox
+                      checked={picked}
+                      onCheckedChange={(checked) => toggleInvoice(invoice.id, checked === true)}
+                      className="mt-1"
+                    />
+                  )}
+                  <div className="flex-1">
+                    <div className="font-medium text-sm">Invoice #{invoice.invoiceNumber || invoice.id}</div>
+                    <div className="text-xs text-gray-600">
+                      Total: LKR {invoice.total.toFixed(2)} | Outstanding: LKR {outstandingAmount.toFixed(2)}
                     </div>
-                    <div className="flex items-center gap-2">
-                      <Label htmlFor={`alloc-${invoice.id}`} className="text-sm">
-                        Allocate:
-                      </Label>
-                      <Input
-                        id={`alloc-${invoice.id}`}
-                        type="number"
-                        value={allocations[invoice.id] || 0}
-                        onChange={(e) => handleAllocationChange(invoice.id, parseFloat(e.target.value) || 0)}
-                        placeholder="0.00"
-                        step="0.01"
-                        min="0"
-                        max={outstandingAmount}
-                        className="w-32"
-                      />
-                      <span className="text-sm text-muted-foreground">
-                        / LKR {outstandingAmount.toFixed(2)}
-                      </span>
+                    <div className="text-xs text-gray-500">
+                      {invoice.createdAt.toLocaleDateString()}
+                      {invoice.dueDate && ` • Due ${invoice.dueDate.toLocaleDateString()}`}
                     </div>
                   </div>
-                  );
-                })}
+                  <div className={`text-sm font-medium ${planned > 0 ? 'text-green-600' : 'text-gray-400'}`}>
+                    LKR {planned.toFixed(2)}
+                  </div>
+                </div>
+                {strategy === 'specific' && picked && (
+                  <div className="mt-2">
+                    <Label htmlFor={`allocation-${invoice.id}`} className="text-xs">
+                      Amount (LKR, blank = up to outstanding)
+                    </Label>
+                    <Input
+                      id={`allocation-${invoice.id}`}
+                      type="number"
+                      min="0"
+                      max={outstandingAmount}
+                      step="0.01"
+                      value={specificAmounts[invoice.id] ?? ''}
+                      onChange={(e) => handleAmountChange(invoice.id, e.target.value)}
+                      placeholder={outstandingAmount.toFixed(2)}
+                      className="mt-1"
+                    />
+                  </div>
+                )}
               </div>
-            )}
-          </div>
+            );
+          })}
+        </div>
+      )}
 
-          {/* Actions */}
-          <div className="flex justify-end space-x-2">
-            <Button type="button" variant="outline" onClick={onCancel}>
-              Cancel
-            </Button>
-            <Button 
-              onClick={handleSubmit} 
-              disabled={loading || totalAllocated <= 0 || remainingAmount < 0}
-            >
-              {loading ? 'Allocating...' : 'Allocate Collection'}
-            </Button>
-          </div>
+      {plan.credit > 0 && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          LKR {plan.credit.toFixed(2)} is more than the allocated invoices and will be kept as customer credit,
+          applied to the customer's next invoice.
+          {strategy !== 'specific' && ' Open debit notes of the customer are paid in date order too, so part of it may go to them.'}
         </div>
-      </CardContent>
-    </Card>
+      )}
+    </div>
   );
-}; 
+};
@@ -1,11 +1,12 @@
-import React, { useMemo, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, DollarSign, MapPin, Calendar, FileText, CreditCard, Building, Printer, Share2 } from 'lucide-react';
-import { Collection } from '@/types/collections';
+import { ArrowLeft, DollarSign, MapPin, Calendar, FileText, CreditCard, Building, Printer, Share2, History } from 'lucide-react';
+import { Collection, CollectionAllocation } from '@/types/collections';
 import { useToast } from '@/hooks/use-toast';
 import { Capacitor } from '@capacitor/core';
+import { getCollectionAllocations } from '@/utils/collectionAllocation';
 
 interface CollectionDetailsProps {
   collection: Collection;
@@ -17,8 +18,21 @@ export const CollectionDetails: React.FC<CollectionDetailsProps> = ({
   onBack
 }) => {
   const printableRef = useRef<HTMLDivElement>(null);
+  const [allocations, setAllocations] = useState<CollectionAllocation[]>([]);
   const { toast } = useToast();
 
+  useEffect(() => {
+    getCollectionAllocations(collection.id)
+      .then(setAllocations)
+      .catch((error) => console.warn('Allocation history fetch issue:', error));
+  }, [collection.id]);
+
+  const allocationTypeLabels: Record<CollectionAllocation['allocationType'], string> = {
+    payment: 'Payment',
+    credit: 'Credit applied',
+    reversal: 'Reversed'
+  };
+
   const formatDate = (date: Date) => {
     return date.toLocaleDateString() + ' ' + date.toLocaleTimeString();
   };
@@ -414,6 +428,43 @@ export const CollectionDetails: React.FC<CollectionDetailsProps> = ({
         </Card>
       </div>
 
+      {/* Allocation history: allocations, credit applied later and reversals of returned cheques */}
+      {allocations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Allocation History
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {allocations.map((allocation) => (
+              <div key={allocation.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">
+                      {allocation.debitNoteId
+                        ? `Debit note ${allocation.debitNoteNumber || allocation.debitNoteId}`
+                        : `Invoice #${allocation.invoiceNumber || allocation.invoiceId}`}
+                    </span>
+                    <Badge variant={allocation.allocationType === 'reversal' ? 'destructive' : allocation.allocationType === 'credit' ? 'secondary' : 'default'}>
+                      {allocationTypeLabels[allocation.allocationType]}
+                    </Badge>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {formatDate(allocation.allocatedAt)}
+                    {allocation.reason && ` • ${allocation.reason}`}
+                  </div>
+                </div>
+                <span className={`text-sm font-medium ${allocation.allocatedAmount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  LKR {allocation.allocatedAmount.toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Hidden printable receipt */}
       <div
         ref={printableRef}
@@ -5,15 +5,21 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Plus, X, MapPin, Navigation } from 'lucide-react';
-import { CollectionFormData, ChequeDetail } from '@/types/collections';
-import { centsToMoney, moneyToCents, roundMoney } from '@/utils/money';
+import { Plus, X, MapPin, Navigation, Ban } from 'lucide-react';
+import { CollectionFormData, ChequeDetail, CustomerCashOnly, InvoiceSummary } from '@/types/collections';
+import { getCustomerCashOnly } from '@/utils/chequeRecovery';
+import { moneyToCents, roundMoney } from '@/utils/money';
+import { CollectionAllocation } from './CollectionAllocation';
 
 interface CollectionFormProps {
   customerId: string;
   customerName: string;
-  customerInvoices?: any[]; // Outstanding invoices for the customer
-  onSubmit: (data: CollectionFormData & { paymentType: 'direct', invoiceAllocations: any[] }) => void;
+  cachedCashOnly?: boolean; // flag from the loaded customer list, used when the live check fails
+  customerInvoices?: InvoiceSummary[]; // Outstanding invoices for the customer
+  onSubmit: (data: CollectionFormData & {
+    paymentType: 'direct',
+    invoiceAllocations: Array<{ invoiceId: string; amount: number | null }>
+  }) => void;
   onCancel: () => void;
   loading?: boolean;
 }
@@ -21,6 +27,7 @@ interface CollectionFormProps {
 export const CollectionForm: React.FC<CollectionFormProps> = ({
   customerId,
   customerName,
+  cachedCashOnly,
   customerInvoices = [],
   onSubmit,
   onCancel,
@@ -38,6 +45,7 @@ export const CollectionForm: React.FC<CollectionFormProps> = ({
     cashDate: new Date(),
     chequeDetails: [],
     selectedInvoiceIds: [],
+    allocationStrategy: 'oldest_first',
     notes: '',
     gpsCoordinates: { latitude: 0, longitude: 0 }
   });
@@ -51,30 +59,19 @@ export const CollectionForm: React.FC<CollectionFormProps> = ({
 
   const [gpsStatus, setGpsStatus] = useState<'idle' | 'capturing' | 'success' | 'error'>('idle');
   const [paymentType, setPaymentType] = useState<'direct'>('direct');
-  const [invoiceAllocations, setInvoiceAllocations] = useState<{[key: string]: number}>({});
+  const [specificAmounts, setSpecificAmounts] = useState<Record<string, number | null>>({});
+  const [cashOnly, setCashOnly] = useState<CustomerCashOnly | null>(
+    cachedCashOnly === undefined ? null : { isCashOnly: cachedCashOnly }
+  );
+  const [cashOnlyUnknown, setCashOnlyUnknown] = useState(false);
+  // Cheques stay closed until we know the customer is not cash only
+  const chequesBlocked = !cashOnly || cashOnly.isCashOnly;
 
   // Calculate total amount automatically
   const calculateTotalAmount = () => {
     return roundMoney(formData.cashAmount + formData.chequeAmount + formData.cashDiscount);
   };
 
-  // Calculate total allocated amount for direct payments
-  const calculateAllocatedAmount = () => {
-    return roundMoney(Object.values(invoiceAllocations).reduce((sum, amount) => sum + amount, 0));
-  };
-
-  // Handle invoice allocation change
-  const handleAllocationChange = (invoiceId: string, amount: number) => {
-    const invoice = filteredInvoices.find((item) => item.id === invoiceId);
-    const maxAllocation = invoice ? roundMoney(invoice.outstandingAmount || 0) : amount;
-    const nextAmount = Math.max(0, Math.min(roundMoney(amount || 0), maxAllocation));
-
-    setInvoiceAllocations(prev => ({
-      ...prev,
-      [invoiceId]: nextAmount
-    }));
-  };
-
   // Capture GPS coordinates
   const captureGPS = () => {
     setGpsStatus('capturing');
@@ -112,6 +109,24 @@ export const CollectionForm: React.FC<CollectionFormProps> = ({
     captureGPS();
   }, []);
 
+  // Customers flagged for repeated returned cheques may only pay in cash
+  useEffect(() => {
+    const applyCashOnly = (status: CustomerCashOnly | null) => {
+      setCashOnly(status);
+      setCashOnlyUnknown(!status);
+      if (!status || status.isCashOnly) {
+        setFormData(prev => ({ ...prev, paymentMethod: 'cash', chequeAmount: 0, chequeDetails: [] }));
+      }
+    };
+
+    getCustomerCashOnly(customerId)
+      .then(applyCashOnly)
+      .catch((error) => {
+        console.warn('Could not load cash-only status:', error);
+        applyCashOnly(cachedCashOnly === undefined ? null : { isCashOnly: cachedCashOnly });
+      });
+  }, [customerId, cachedCashOnly]);
+
   const handleInputChange = (field: keyof CollectionFormData, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
@@ -162,49 +177,36 @@ export const CollectionForm: React.FC<CollectionFormProps> = ({
       return;
     }
 
-    if (formData.paymentMethod === 'cheque' && formData.chequeDetails.length === 0) {
-      alert('Please add at least one cheque');
+    if (chequesBlocked && (formData.paymentMethod !== 'cash' || formData.chequeDetails.length > 0)) {
+      alert(cashOnly?.isCashOnly
+        ? `${customerName} is on cash only and cannot pay by cheque`
+        : `Could not check whether ${customerName} may pay by cheque; take cash or try again when online`);
       return;
     }
 
-    // Validate invoice allocations - only against invoices with outstanding
-    if (filteredInvoices.length === 0) {
-      // No outstanding invoices: treat as advance; allow submission with zero allocations
-      onSubmit({
-        ...formData,
-        totalAmount: total,
-        paymentType,
-        invoiceAllocations: []
-      });
+    if (formData.paymentMethod === 'cheque' && formData.chequeDetails.length === 0) {
+      alert('Please add at least one cheque');
       return;
     }
-    
-    const allocatedAmount = calculateAllocatedAmount();
-    const allocatedCents = moneyToCents(allocatedAmount);
-    const totalCents = moneyToCents(total);
 
-    if (allocatedCents === 0) {
-      alert('Please allocate payment to at least one invoice');
-      return;
-    }
-    if (allocatedCents > totalCents) {
-      alert('Total allocated amount cannot exceed payment amount');
-      return;
-    }
-    if (allocatedCents !== totalCents) {
-      alert('Total allocated amount must equal the payment amount');
+    // The database allocates with the chosen strategy; anything left over becomes customer credit
+    const pickedInvoices = formData.allocationStrategy === 'specific'
+      ? filteredInvoices.filter((invoice) => invoice.id in specificAmounts)
+      : [];
+
+    if (formData.allocationStrategy === 'specific' && filteredInvoices.length > 0 && pickedInvoices.length === 0) {
+      alert('Please pick at least one invoice to allocate to');
       return;
     }
 
-    const allocationsArray = Object.entries(invoiceAllocations)
-          .filter(([, amount]) => amount > 0)
-          .map(([invoiceId, amount]) => ({ invoiceId, amount: centsToMoney(moneyToCents(amount)) }));
-
     onSubmit({
       ...formData,
       totalAmount: total,
       paymentType,
-      invoiceAllocations: allocationsArray
+      invoiceAllocations: pickedInvoices.map((invoice) => ({
+        invoiceId: invoice.id,
+        amount: specificAmounts[invoice.id] ?? null
+      }))
     });
   };
 
@@ -241,67 +243,36 @@ export const CollectionForm: React.FC<CollectionFormProps> = ({
             </div>
           </div>
 
-          {/* Payment info */}
-          <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
-            <div className="text-sm font-medium text-blue-900 mb-1">Payment Allocation</div>
-            <div className="text-xs text-blue-700">
-              Allocate to outstanding invoices when available. Cash discount is included in the allocatable total.
-            </div>
-          </div>
+          {/* Invoice Allocation */}
+          <CollectionAllocation
+            invoices={filteredInvoices}
+            amount={calculateTotalAmount()}
+            strategy={formData.allocationStrategy}
+            specificAmounts={specificAmounts}
+            onStrategyChange={(strategy) => handleInputChange('allocationStrategy', strategy)}
+            onSpecificAmountsChange={setSpecificAmounts}
+          />
 
-          {/* Invoice Allocation - Only when outstanding invoices exist */}
-          {filteredInvoices.length > 0 ? (
-            <div className="space-y-4">
-              <div className="flex justify-between items-center">
-                <Label>Allocate Payment to Invoices</Label>
-                <div className="text-sm text-gray-600">
-                  Allocated: LKR {calculateAllocatedAmount().toFixed(2)} / {calculateTotalAmount().toFixed(2)}
-                </div>
-              </div>
-              <div className="space-y-3 max-h-64 overflow-y-auto">
-                {filteredInvoices.map((invoice) => {
-                  const outstandingAmount = roundMoney(invoice.outstandingAmount || 0);
-                  const maxAllocation = Math.min(outstandingAmount, calculateTotalAmount());
-
-                  return (
-                  <div key={invoice.id} className="border rounded-lg p-3">
-                    <div className="flex justify-between items-start mb-2">
-                      <div className="flex-1">
-                        <div className="font-medium text-sm">Invoice #{invoice.invoiceNumber || invoice.id}</div>
-                        <div className="text-xs text-gray-600">
-                          Total: LKR {invoice.total?.toFixed(2) || '0.00'} | 
-                          Outstanding: LKR {outstandingAmount.toFixed(2)}
-                        </div>
-                        <div className="text-xs text-gray-500">
-                          {new Date(invoice.createdAt).toLocaleDateString()}
-                        </div>
-                      </div>
-                    </div>
-                    <div>
-                      <Label htmlFor={`allocation-${invoice.id}`} className="text-xs">
-                        Allocate Amount (LKR)
-                      </Label>
-                      <Input
-                        id={`allocation-${invoice.id}`}
-                        type="number"
-                        min="0"
-                        max={maxAllocation}
-                        step="0.01"
-                        value={invoiceAllocations[invoice.id] || ''}
-                        onChange={(e) => handleAllocationChange(invoice.id, parseFloat(e.target.value) || 0)}
-                        placeholder="0.00"
-                        className="mt-1"
-                      />
-                    </div>
+          {/* Payment Method */}
+          {cashOnly?.isCashOnly && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+              <Ban className="h-4 w-4 mt-0.5 shrink-0" />
+              <div>
+                <div className="font-medium">Cash only – cheques are not accepted from this customer</div>
+                {cashOnly.reason && (
+                  <div className="text-xs text-red-700">
+                    {cashOnly.reason}{cashOnly.since && ` (since ${cashOnly.since.toLocaleDateString()})`}
                   </div>
-                  );
-                })}
+                )}
               </div>
             </div>
-          ) : null}
-
-          {/* Payment form always visible; allocations optional when no outstanding */}
-          {/* Payment Method */}
+          )}
+          {cashOnlyUnknown && (
+            <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+              <Ban className="h-4 w-4 mt-0.5 shrink-0" />
+              <div className="font-medium">Cheques are unavailable – this customer's cash-only status could not be checked</div>
+            </div>
+          )}
           <div>
             <Label htmlFor="paymentMethod">Payment Method</Label>
             <Select
@@ -313,8 +284,12 @@ export const CollectionForm: React.FC<CollectionFormProps> = ({
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="cash">Cash</SelectItem>
-                <SelectItem value="cheque">Cheque</SelectItem>
-                <SelectItem value="mixed">Mixed (Cash + Cheque)</SelectItem>
+                {!chequesBlocked && (
+                  <>
+                    <SelectItem value="cheque">Cheque</SelectItem>
+                    <SelectItem value="mixed">Mixed (Cash + Cheque)</SelectItem>
+                  </>
+                )}
               </SelectContent>
             </Select>
           </div>
@@ -540,8 +515,8 @@ export const CollectionForm: React.FC<CollectionFormProps> = ({
             <Button type="button" variant="outline" onClick={onCancel}>
               Cancel
             </Button>
-            <Button type="submit" disabled={loading || customerInvoices.length === 0}>
-              {loading ? 'Recording...' : customerInvoices.length === 0 ? 'No Outstanding Invoices' : 'Record Payment'}
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Recording...' : filteredInvoices.length === 0 ? 'Record as Customer Credit' : 'Record Payment'}
             </Button>
           </div>
         </form>
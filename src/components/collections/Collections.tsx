@@ -1,9 +1,12 @@
 import { useState, useEffect, useRef } from 'react';
 import { sendSMS, SmsTemplates } from '@/services/sms.service';
+import { offlineSyncService } from '@/services/offlineSync';
 import { User } from '@/types/auth';
 import { Customer } from '@/types/customer';
 import { Invoice } from '@/types/sales';
-import { Collection, CustomerInvoiceSummary, InvoiceSummary } from '@/types/collections';
+import { Collection, CollectionFormData, CustomerCredit, CustomerInvoiceSummary, InvoiceSummary } from '@/types/collections';
+import type { OfflineCollectionPayload } from '@/types/offline';
+import type { Database } from '@/integrations/supabase/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -13,10 +16,13 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { CollectionForm } from './CollectionForm';
 import { CollectionDetails } from './CollectionDetails';
+import { CustomerCreditPanel } from './CustomerCreditPanel';
 import AgencySelector from '@/components/common/AgencySelector';
+import OfflineSyncStatus from '@/components/common/OfflineSyncStatus';
 import { useAgencies } from '@/hooks/useAgency';
 import { roundMoney } from '@/utils/money';
 import { getDisplayInvoiceNumber } from '@/utils/invoiceNumber';
+import { allocateCollection, getCustomerCredits } from '@/utils/collectionAllocation';
 
 const COLLECTIONS_CACHE_TTL = 2 * 60 * 1000;
 const _collectionsCache: Record<string, { customers: any[]; invoices: any[]; collections: any[]; expiry: number }> = {};
@@ -25,12 +31,25 @@ interface CollectionsProps {
   user: User;
 }
 
+type ChequeInsert = Database['public']['Tables']['collection_cheques']['Insert'];
+type FormCheque = CollectionFormData['chequeDetails'][number];
+
+// New cheques start pending; cheque_date is a date column
+const toChequeRow = (cheque: FormCheque): Omit<ChequeInsert, 'id' | 'collection_id'> => ({
+  cheque_number: cheque.chequeNumber,
+  bank_name: cheque.bankName,
+  amount: cheque.amount,
+  cheque_date: cheque.chequeDate.toISOString().split('T')[0],
+  status: 'pending'
+});
+
 const Collections = ({ user }: CollectionsProps) => {
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [collections, setCollections] = useState<Collection[]>([]);
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [customerInvoiceSummary, setCustomerInvoiceSummary] = useState<CustomerInvoiceSummary | null>(null);
+  const [customerCredits, setCustomerCredits] = useState<CustomerCredit[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -88,7 +107,8 @@ const Collections = ({ user }: CollectionsProps) => {
           id, cheque_number, bank_name, amount, cheque_date,
           status, cleared_at, return_reason, returned_at, created_at
         ),
-        collection_allocations (*)
+        collection_allocations (*),
+        customer_credits (refunded_amount)
       `);
       if (selectedAgencyId) collectionsQuery = collectionsQuery.eq('agency_id', selectedAgencyId);
 
@@ -112,7 +132,8 @@ const Collections = ({ user }: CollectionsProps) => {
         gpsCoordinates: { latitude: customer.latitude, longitude: customer.longitude },
         agencyId: customer.agency_id,
         createdAt: new Date(customer.created_at),
-        createdBy: customer.created_by
+        createdBy: customer.created_by,
+        isCashOnly: customer.is_cash_only
       }));
 
       const transformedInvoices: Invoice[] = (invoicesResult.data || []).map((invoice, index) => {
@@ -129,6 +150,7 @@ const Collections = ({ user }: CollectionsProps) => {
           subtotal: invoice.subtotal,
           discountAmount: invoice.discount_amount,
           total: invoice.total,
+          dueDate: invoice.due_date ? new Date(invoice.due_date) : undefined,
           gpsCoordinates: { latitude: invoice.latitude, longitude: invoice.longitude },
           signature: invoice.signature,
           createdAt: new Date(invoice.created_at),
@@ -161,6 +183,7 @@ const Collections = ({ user }: CollectionsProps) => {
             returnedAt: cheque.returned_at ? new Date(cheque.returned_at) : undefined,
             returnReason: cheque.return_reason || undefined
           })),
+          creditRefunded: Number(collection.customer_credits?.refunded_amount || 0),
           notes: collection.notes,
           gpsCoordinates: { latitude: collection.latitude, longitude: collection.longitude },
           createdAt: new Date(collection.created_at),
@@ -201,12 +224,18 @@ const Collections = ({ user }: CollectionsProps) => {
       const customerInvoices = invoices.filter(inv => inv.customerId === customerId && roundMoney(inv.outstandingAmount ?? inv.total) > 0);
       const customerCollections = collections.filter(col => col.customerId === customerId);
 
-      // Fetch approved/processed returns for this customer
-      const { data: returnsData, error: returnsError } = await supabase
-        .from('returns')
-        .select('id, invoice_id, total, status')
-        .eq('customer_id', customerId)
-        .in('status', ['approved', 'processed']);
+      // Fetch approved/processed returns and open credit for this customer
+      const [{ data: returnsData, error: returnsError }, credits] = await Promise.all([
+        supabase
+          .from('returns')
+          .select('id, invoice_id, total, status')
+          .eq('customer_id', customerId)
+          .in('status', ['approved', 'processed']),
+        getCustomerCredits(customerId).catch((creditsError) => {
+          console.warn('Customer credits fetch issue:', creditsError);
+          return [] as CustomerCredit[];
+        })
+      ]);
 
       if (returnsError) {
         console.warn('Returns fetch issue:', returnsError);
@@ -219,6 +248,7 @@ const Collections = ({ user }: CollectionsProps) => {
       
       let totalCashCollected = 0;
       let totalCashDiscounts = 0;
+      let totalCreditRefunds = 0; // Credit paid back on credit notes
       let totalRealizedChequePayments = 0; // Only past/current dated cheques
       let totalUnrealizedChequePayments = 0; // Future-dated cheques
       let returnedChequesAmount = 0;
@@ -227,6 +257,7 @@ const Collections = ({ user }: CollectionsProps) => {
       customerCollections.forEach(collection => {
         totalCashCollected += collection.cashAmount;
         totalCashDiscounts += collection.cashDiscount || 0;
+        totalCreditRefunds += collection.creditRefunded || 0;
         
         // Process cheques with proper date logic
         collection.chequeDetails?.forEach(cheque => {
@@ -250,7 +281,7 @@ const Collections = ({ user }: CollectionsProps) => {
       // Calculate totals
       const totalInvoiced = roundMoney(customerInvoices.reduce((sum, inv) => sum + inv.total, 0));
       const totalReturns = roundMoney(customerReturns.reduce((sum, ret) => sum + (ret.total || 0), 0));
-      const totalRealizedPayments = roundMoney(totalCashCollected + totalRealizedChequePayments + totalCashDiscounts);
+      const totalRealizedPayments = roundMoney(totalCashCollected + totalRealizedChequePayments + totalCashDiscounts - totalCreditRefunds);
       
       // Outstanding calculation:
       // Outstanding = Total Invoiced - Realized Payments - Returns + Returned Cheques
@@ -291,6 +322,7 @@ const Collections = ({ user }: CollectionsProps) => {
             collectedAmount,
             outstandingAmount,
             createdAt: new Date(invoice.createdAt),
+            dueDate: invoice.dueDate,
             status: outstandingAmount === 0 ? 'paid' :
                     collectedAmount > 0 ? 'partially_paid' : 'pending'
           };
@@ -311,9 +343,11 @@ const Collections = ({ user }: CollectionsProps) => {
           returnedChequesAmount,
           returnedChequesCount,
           invoices: invoiceSummaries,
-          totalReturns
+          totalReturns,
+          unappliedCredit: roundMoney(credits.reduce((sum, credit) => sum + credit.balance, 0))
         });
       }
+      setCustomerCredits(credits);
     } catch (error) {
       console.error('Error fetching customer invoice summary:', error);
     }
@@ -370,13 +404,53 @@ const Collections = ({ user }: CollectionsProps) => {
         created_by: user.id
       };
 
+      // The online insert carries the same id as the outbox record, so a replay after a dropped
+      // connection finds the collection if it was saved after all
+      const clientId = offlineSyncService.newClientId();
+
+      // Without signal the collection is kept in the device outbox and replayed later
+      const queueOffline = async () => {
+        const allocations: OfflineCollectionPayload['allocations'] = formData.paymentType === 'direct'
+          ? (formData.invoiceAllocations || []).map((allocation: OfflineCollectionPayload['allocations'][number]) => ({
+              invoiceId: allocation.invoiceId,
+              amount: allocation.amount,
+            }))
+          : [];
+        await offlineSyncService.enqueue('collection', {
+          collection: newCollection,
+          cheques: (formData.chequeDetails || []).map(toChequeRow),
+          allocationStrategy: formData.allocationStrategy,
+          allocations,
+          customerPhone: selectedCustomer?.phone,
+        }, {
+          clientId,
+          label: `${formData.customerName} - LKR ${Number(formData.totalAmount || 0).toLocaleString()}`,
+          dependsOn: allocations.map((allocation) => allocation.invoiceId),
+        });
+        toast({
+          title: "Saved offline",
+          description: "Collection stored on this device and will sync when you are back online",
+        });
+        setShowCollectionForm(false);
+      };
+
+      if (offlineSyncService.isOffline()) {
+        await queueOffline();
+        return;
+      }
+
       // Save to database
       const { data: savedCollection, error } = await supabase
         .from('collections')
-        .insert([newCollection])
+        .insert([{ ...newCollection, client_id: clientId }])
         .select()
         .single();
 
+      if (error && offlineSyncService.isNetworkError(error)) {
+        await queueOffline();
+        return;
+      }
+
       if (error) {
         console.error('Error saving collection:', error);
         toast({
@@ -389,13 +463,9 @@ const Collections = ({ user }: CollectionsProps) => {
 
       // Save cheque details if any
       if (formData.chequeDetails && formData.chequeDetails.length > 0) {
-        const chequeDetailsToSave = formData.chequeDetails.map((cheque: any) => ({
-          collection_id: savedCollection.id,
-          cheque_number: cheque.chequeNumber,
-          bank_name: cheque.bankName,
-          amount: cheque.amount,
-          cheque_date: cheque.chequeDate.toISOString().split('T')[0], // Date only
-          status: 'pending' // Default status
+        const chequeDetailsToSave: ChequeInsert[] = formData.chequeDetails.map((cheque: FormCheque) => ({
+          ...toChequeRow(cheque),
+          collection_id: savedCollection.id
         }));
 
         const { error: chequeError } = await supabase
@@ -414,29 +484,22 @@ const Collections = ({ user }: CollectionsProps) => {
         }
       }
 
-      // If this is a direct payment, create allocations immediately
-      if (formData.paymentType === 'direct' && formData.invoiceAllocations && formData.invoiceAllocations.length > 0) {
-        const allocations = formData.invoiceAllocations.map((allocation: any) => ({
-          collection_id: savedCollection.id,
-          invoice_id: allocation.invoiceId,
-          allocated_amount: allocation.amount,
-          allocated_by: user.id,
-          allocated_at: new Date().toISOString()
-        }));
-
-        const { error: allocationError } = await supabase
-          .from('collection_allocations')
-          .insert(allocations);
-
-        if (allocationError) {
-          console.error('Error saving allocations:', allocationError);
-          // Don't fail the entire operation, but log the error
-          toast({
-            title: "Warning",
-            description: "Collection saved but allocation failed. You can allocate manually.",
-            variant: "destructive",
-          });
-        }
+      // Spread the payment over the customer's invoices; the rest is kept as customer credit
+      let creditAmount = 0;
+      try {
+        creditAmount = await allocateCollection(
+          savedCollection.id,
+          formData.allocationStrategy,
+          formData.invoiceAllocations || []
+        );
+      } catch (allocationError) {
+        console.error('Error saving allocations:', allocationError);
+        // Don't fail the entire operation, but log the error
+        toast({
+          title: "Warning",
+          description: "Collection saved but allocation failed. You can allocate manually.",
+          variant: "destructive",
+        });
       }
 
       // Transform the saved data to match Collection type
@@ -452,7 +515,7 @@ const Collections = ({ user }: CollectionsProps) => {
         cashDiscount: savedCollection.cash_discount || 0,
         chequeAmount: savedCollection.cheque_amount,
         cashDate: new Date(savedCollection.cash_date),
-        chequeDetails: (formData.chequeDetails || []).map((cheque: any) => ({
+        chequeDetails: (formData.chequeDetails || []).map((cheque: FormCheque) => ({
           id: `temp-${Date.now()}-${Math.random()}`, // Temporary ID for display
           chequeNumber: cheque.chequeNumber,
           bankName: cheque.bankName,
@@ -477,17 +540,19 @@ const Collections = ({ user }: CollectionsProps) => {
         SmsTemplates.collectionRecorded(
           selectedCustomer?.name ?? formData.customerName,
           Number(formData.cashAmount) || 0,
-          (formData.chequeDetails || []).map((c: any) => ({
+          (formData.chequeDetails || []).map((c: FormCheque) => ({
             chequeNumber: c.chequeNumber,
             amount: Number(c.amount) || 0,
           })),
         ),
+        { customerId: savedCollection.customer_id, related: { type: 'collection', id: savedCollection.id } },
       );
 
       const chequeCount = formData.chequeDetails?.length || 0;
-      const successMessage = chequeCount > 0
+      const successMessage = (chequeCount > 0
         ? `Payment recorded with ${chequeCount} cheque${chequeCount > 1 ? 's' : ''} and allocated to invoices successfully`
-        : "Payment recorded and allocated to invoices successfully";
+        : "Payment recorded and allocated to invoices successfully")
+        + (creditAmount > 0 ? `. LKR ${creditAmount.toLocaleString()} kept as customer credit.` : '');
 
       toast({
         title: "Success",
@@ -537,6 +602,7 @@ const Collections = ({ user }: CollectionsProps) => {
         <CollectionForm
           customerId={selectedCustomer.id}
           customerName={selectedCustomer.name}
+          cachedCashOnly={selectedCustomer.isCashOnly}
           customerInvoices={customerInvoiceSummary?.invoices || []}
           onSubmit={handleCollectionFormSubmit}
           onCancel={() => setShowCollectionForm(false)}
@@ -579,6 +645,13 @@ const Collections = ({ user }: CollectionsProps) => {
         placeholder="Select agency to view collections..."
       />
 
+      <OfflineSyncStatus
+        kinds={['collection']}
+        onSynced={() => {
+          if (selectedCustomer) fetchCustomerInvoiceSummary(selectedCustomer.id);
+        }}
+      />
+
       {/* Customer Selection */}
       <Card>
         <CardHeader>
@@ -702,6 +775,17 @@ const Collections = ({ user }: CollectionsProps) => {
               </div>
             </div>
 
+            {customerCredits.length > 0 && (
+              <CustomerCreditPanel
+                customerId={selectedCustomer.id}
+                credits={customerCredits}
+                onChanged={() => {
+                  invalidateCollectionsCache();
+                  fetchCustomerInvoiceSummary(selectedCustomer.id);
+                }}
+              />
+            )}
+
             <div className="space-y-3">
               <h4 className="font-medium">Invoices</h4>
               {customerInvoiceSummary.invoices.map((invoice) => (
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Wallet } from 'lucide-react';
+import { CustomerCredit } from '@/types/collections';
+import { useToast } from '@/hooks/use-toast';
+import { applyCustomerCredit, refundCustomerCredit } from '@/utils/collectionAllocation';
+import { roundMoney } from '@/utils/money';
+
+interface CustomerCreditPanelProps {
+  customerId: string;
+  credits: CustomerCredit[];
+  onChanged: () => void;
+}
+
+export const CustomerCreditPanel: React.FC<CustomerCreditPanelProps> = ({
+  customerId,
+  credits,
+  onChanged
+}) => {
+  const [busy, setBusy] = useState(false);
+  const [refundingId, setRefundingId] = useState<string | null>(null);
+  const [refundAmount, setRefundAmount] = useState(0);
+  const [creditNoteReference, setCreditNoteReference] = useState('');
+  const [refundNotes, setRefundNotes] = useState('');
+  const { toast } = useToast();
+
+  const totalCredit = roundMoney(credits.reduce((sum, credit) => sum + credit.balance, 0));
+
+  const handleApply = async () => {
+    if (!window.confirm(`Apply LKR ${totalCredit.toLocaleString()} of credit to this customer's oldest outstanding invoices?`)) return;
+
+    setBusy(true);
+    try {
+      const applied = await applyCustomerCredit(customerId);
+      toast({
+        title: applied > 0 ? "Credit Applied" : "Nothing to Apply",
+        description: applied > 0
+          ? `LKR ${applied.toLocaleString()} applied to outstanding invoices`
+          : "The customer has no outstanding invoices",
+      });
+      onChanged();
+    } catch (error) {
+      console.error('Error applying customer credit:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to apply credit",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openRefund = (credit: CustomerCredit) => {
+    setRefundingId(credit.id);
+    setRefundAmount(credit.balance);
+    setCreditNoteReference('');
+    setRefundNotes('');
+  };
+
+  const handleRefund = async () => {
+    if (!refundingId) return;
+    if (!creditNoteReference.trim() || refundAmount <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Enter the amount and the credit note reference",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await refundCustomerCredit(refundingId, roundMoney(refundAmount), creditNoteReference, refundNotes);
+      toast({
+        title: "Credit Returned",
+        description: `LKR ${roundMoney(refundAmount).toLocaleString()} returned on credit note ${creditNoteReference.trim()}`,
+      });
+      setRefundingId(null);
+      onChanged();
+    } catch (error) {
+      console.error('Error returning customer credit:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to return credit",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Wallet className="h-5 w-5 text-amber-600" />
+          <div>
+            <div className="font-medium text-amber-900">Unapplied Credit: LKR {totalCredit.toLocaleString()}</div>
+            <div className="text-xs text-amber-700">Applied automatically to the customer's next invoice</div>
+          </div>
+        </div>
+        <Button size="sm" variant="outline" onClick={handleApply} disabled={busy}>
+          Apply to Outstanding Invoices
+        </Button>
+      </div>
+
+      {credits.map((credit) => (
+        <div key={credit.id} className="bg-white border rounded-lg p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-sm">
+              <div className="font-medium">LKR {credit.balance.toLocaleString()}</div>
+              <div className="text-xs text-gray-500">
+                From collection of {(credit.collectionDate || credit.createdAt).toLocaleDateString()}
+                {credit.refundedAmount > 0 && ` • LKR ${credit.refundedAmount.toLocaleString()} returned`}
+              </div>
+            </div>
+            {refundingId !== credit.id && (
+              <Button size="sm" variant="ghost" onClick={() => openRefund(credit)} disabled={busy}>
+                Return on Credit Note
+              </Button>
+            )}
+          </div>
+
+          {refundingId === credit.id && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-end">
+              <div>
+                <Label className="text-xs">Amount (LKR)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max={credit.balance}
+                  step="0.01"
+                  value={refundAmount}
+                  onChange={(e) => setRefundAmount(parseFloat(e.target.value) || 0)}
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Credit Note Reference</Label>
+                <Input
+                  value={creditNoteReference}
+                  onChange={(e) => setCreditNoteReference(e.target.value)}
+                  placeholder="e.g. CN-0012"
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Notes</Label>
+                <Input value={refundNotes} onChange={(e) => setRefundNotes(e.target.value)} placeholder="Optional" />
+              </div>
+              <div className="sm:col-span-3 flex justify-end gap-2">
+                <Button size="sm" variant="outline" onClick={() => setRefundingId(null)} disabled={busy}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={handleRefund} disabled={busy}>
+                  {busy ? 'Saving...' : 'Return Credit'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CloudOff, RefreshCw, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
+import { OutboxRecordKind, OutboxRecordStatus } from '@/types/offline';
+
+interface OfflineSyncStatusProps {
+  kinds: OutboxRecordKind[];
+  onSynced?: () => void;
+}
+
+const STATUS_STYLES: Record<OutboxRecordStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  syncing: 'bg-blue-100 text-blue-700',
+  synced: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+const KIND_LABELS: Record<OutboxRecordKind, string> = {
+  sales_order: 'Sales Order',
+  invoice: 'Invoice',
+  collection: 'Collection',
+  non_productive_visit: 'Visit',
+  route_point: 'Route Point',
+};
+
+const OfflineSyncStatus = ({ kinds, onSynced }: OfflineSyncStatusProps) => {
+  const { toast } = useToast();
+  const { unsynced, syncing, online, syncNow, retry, discard } = useOfflineSync(kinds);
+
+  if (unsynced.length === 0 && online) {
+    return null;
+  }
+
+  const handleSync = async () => {
+    const result = await syncNow();
+    if (result.synced > 0) {
+      onSynced?.();
+    }
+    toast({
+      title: result.failed > 0 ? "Sync incomplete" : "Sync finished",
+      description: `${result.synced} synced, ${result.failed} failed, ${result.waiting} waiting`,
+      variant: result.failed > 0 ? "destructive" : undefined,
+    });
+  };
+
+  const handleRetry = async (clientId: string) => {
+    const result = await retry(clientId);
+    if (result.synced > 0) {
+      onSynced?.();
+    }
+  };
+
+  const handleDiscard = async (clientId: string, label: string) => {
+    if (!window.confirm(`Discard "${label}"? It has not been saved to the server and will be lost.`)) {
+      return;
+    }
+    await discard(clientId);
+  };
+
+  return (
+    <Card className="bg-white/80 border border-amber-200 shadow-sm rounded-2xl mb-6">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <CloudOff className="h-5 w-5 text-amber-600" />
+            <span className="font-semibold text-slate-800">
+              {online ? 'Waiting to sync' : 'Offline mode'}
+            </span>
+            <Badge className="bg-amber-100 text-amber-700">{unsynced.length} unsynced</Badge>
+          </div>
+          <Button size="sm" variant="outline" onClick={handleSync} disabled={!online || syncing}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+            {syncing ? 'Syncing...' : 'Sync now'}
+          </Button>
+        </div>
+
+        {!online && unsynced.length === 0 && (
+          <p className="text-sm text-slate-600">
+            New records will be saved on this device and uploaded when the connection returns.
+          </p>
+        )}
+
+        {unsynced.map((record) => (
+          <div
+            key={record.clientId}
+            className="flex flex-wrap items-center justify-between gap-2 border-t border-slate-100 pt-2 text-sm"
+          >
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-slate-500">{KIND_LABELS[record.kind]}</span>
+                <span className="font-medium text-slate-800 truncate">{record.label}</span>
+              </div>
+              <p className="text-xs text-slate-500">
+                Saved {new Date(record.createdAt).toLocaleString()}
+                {record.error ? ` · ${record.error}` : ''}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge className={STATUS_STYLES[record.status]}>{record.status}</Badge>
+              {record.status === 'failed' && (
+                <>
+                  <Button size="sm" variant="ghost" onClick={() => handleRetry(record.clientId)} disabled={!online || syncing}>
+                    Retry
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDiscard(record.clientId, record.label)}>
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OfflineSyncStatus;
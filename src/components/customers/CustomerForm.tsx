@@ -1,16 +1,21 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { User } from '@/types/auth';
 import { Customer } from '@/types/customer';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ArrowLeft, Camera, MapPin, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import SignatureCapture from '@/components/sales/SignatureCapture';
 import InAppCamera from '@/components/camera/InAppCamera';
 import { uploadCustomerPhoto, base64ToBlob } from '@/utils/storage';
+import { supabase } from '@/integrations/supabase/client';
+import { SMS_LANGUAGES } from '@/utils/smsTemplates';
+import type { SmsLanguage } from '@/types/sms';
 
 interface CustomerFormProps {
   user: User;
@@ -27,8 +32,14 @@ const CustomerForm = ({ user, customer, onSubmit, onCancel }: CustomerFormProps)
     address: customer?.address || '',
     agencyId: customer?.agencyId || user.agencyId || '',
     shopOwnerName: customer?.shopOwnerName || '',
-    shopOwnerBirthday: customer?.shopOwnerBirthday || ''
+    shopOwnerBirthday: customer?.shopOwnerBirthday || '',
+    priceListId: customer?.priceListId || null,
+    preferredLanguage: customer?.preferredLanguage || 'en' as SmsLanguage,
+    smsOptOut: customer?.smsOptOut ?? false
   });
+  const [priceLists, setPriceLists] = useState<{ id: string; name: string }[]>([]);
+  const [creditLimit, setCreditLimit] = useState(customer?.creditLimit != null ? String(customer.creditLimit) : '');
+  const [maxOverdueDays, setMaxOverdueDays] = useState(customer?.maxOverdueDays != null ? String(customer.maxOverdueDays) : '');
 
   const [gpsCoordinates, setGpsCoordinates] = useState(
     customer?.gpsCoordinates || { latitude: 0, longitude: 0 }
@@ -45,6 +56,28 @@ const CustomerForm = ({ user, customer, onSubmit, onCancel }: CustomerFormProps)
   const [secondaryPhoneError, setSecondaryPhoneError] = useState('');
   const { toast } = useToast();
 
+  // Price tiers available to this customer's agency (agency-specific and global lists)
+  useEffect(() => {
+    const loadPriceLists = async () => {
+      let query = supabase
+        .from('price_lists')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('name');
+
+      query = formData.agencyId
+        ? query.or(`agency_id.is.null,agency_id.eq.${formData.agencyId}`)
+        : query.is('agency_id', null);
+
+      const { data, error } = await query;
+      if (error && !error.message.includes('does not exist')) {
+        console.warn('Error loading price lists:', error);
+      }
+      setPriceLists(data || []);
+    };
+    loadPriceLists();
+  }, [formData.agencyId]);
+
   const validatePhone = (phone: string) => {
     // Remove any non-numeric characters
     const numericPhone = phone.replace(/\D/g, '');
@@ -212,6 +245,8 @@ const CustomerForm = ({ user, customer, onSubmit, onCancel }: CustomerFormProps)
       
       await onSubmit({
         ...formData,
+        creditLimit: creditLimit.trim() === '' ? null : Number(creditLimit),
+        maxOverdueDays: maxOverdueDays.trim() === '' ? null : parseInt(maxOverdueDays, 10),
         gpsCoordinates,
         storefrontPhoto: storefrontPhotoUrl,
         signature: signature || 'placeholder-signature.png'
@@ -405,6 +440,83 @@ const CustomerForm = ({ user, customer, onSubmit, onCancel }: CustomerFormProps)
                 />
                 <p className="text-gray-500 text-xs mt-1">Optional: Used for birthday promotions and greetings</p>
               </div>
+
+              {priceLists.length > 0 && (
+                <div>
+                  <Label htmlFor="priceListId">Price Tier</Label>
+                  <Select
+                    value={formData.priceListId || 'default'}
+                    onValueChange={(value) => setFormData({ ...formData, priceListId: value === 'default' ? null : value })}
+                  >
+                    <SelectTrigger id="priceListId" className="text-base">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Agency default pricing</SelectItem>
+                      {priceLists.map((list) => (
+                        <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="preferredLanguage">SMS Language</Label>
+                  <Select
+                    value={formData.preferredLanguage}
+                    onValueChange={(value) => setFormData({ ...formData, preferredLanguage: value as SmsLanguage })}
+                  >
+                    <SelectTrigger id="preferredLanguage" className="text-base">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SMS_LANGUAGES.map((language) => (
+                        <SelectItem key={language.value} value={language.value}>{language.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-3 sm:pt-6">
+                  <Switch
+                    id="smsOptOut"
+                    checked={formData.smsOptOut}
+                    onCheckedChange={(checked) => setFormData({ ...formData, smsOptOut: checked })}
+                  />
+                  <Label htmlFor="smsOptOut">Customer opted out of SMS</Label>
+                </div>
+              </div>
+
+              {user.role !== 'agent' && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="creditLimit">Credit Limit (LKR)</Label>
+                    <Input
+                      id="creditLimit"
+                      type="number"
+                      min="0"
+                      value={creditLimit}
+                      onChange={(e) => setCreditLimit(e.target.value)}
+                      placeholder="Agency default"
+                      className="text-base"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="maxOverdueDays">Max Overdue Age (days)</Label>
+                    <Input
+                      id="maxOverdueDays"
+                      type="number"
+                      min="0"
+                      value={maxOverdueDays}
+                      onChange={(e) => setMaxOverdueDays(e.target.value)}
+                      placeholder="Agency default"
+                      className="text-base"
+                    />
+                  </div>
+                  <p className="text-gray-500 text-xs sm:col-span-2">Leave blank to use the agency default. Orders beyond these limits need superuser approval.</p>
+                </div>
+              )}
             </CardContent>
           </Card>
 
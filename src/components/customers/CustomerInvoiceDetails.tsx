@@ -1,19 +1,23 @@
 import { useState, useEffect } from 'react';
 import { User } from '@/types/auth';
 import { Customer } from '@/types/customer';
-import { Invoice } from '@/types/sales';
+import { BackorderLine, Invoice } from '@/types/sales';
 import { Collection, CustomerInvoiceSummary, InvoiceSummary } from '@/types/collections';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, FileText, DollarSign, Plus, MapPin, Phone, Building, Eye } from 'lucide-react';
+import { ArrowLeft, FileText, DollarSign, Plus, MapPin, Phone, Building, Eye, ScrollText, PackageX } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { CollectionForm } from '../collections/CollectionForm';
 import { CollectionDetails } from '../collections/CollectionDetails';
 import InvoiceDetails from '../sales/InvoiceDetails';
+import CustomerStatementDialog from './CustomerStatementDialog';
 import { roundMoney } from '@/utils/money';
 import { getDisplayInvoiceNumber } from '@/utils/invoiceNumber';
+import { calculateCustomerBalance } from '@/utils/customerCredit';
+import { getCustomerBackorders } from '@/utils/salesOrderFulfilment';
+import { allocateCollection } from '@/utils/collectionAllocation';
 
 interface CustomerInvoiceDetailsProps {
   user: User;
@@ -30,18 +34,26 @@ const CustomerInvoiceDetails = ({ user, customer, onBack }: CustomerInvoiceDetai
   const [showCollectionForm, setShowCollectionForm] = useState(false);
   const [viewingCollection, setViewingCollection] = useState<Collection | null>(null);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
+  const [showStatement, setShowStatement] = useState(false);
+  const [backorders, setBackorders] = useState<BackorderLine[]>([]);
   const { toast } = useToast();
 
   useEffect(() => {
     fetchCustomerData();
+    getCustomerBackorders(customer.id)
+      .then(setBackorders)
+      .catch((error) => {
+        console.warn('Could not load backorders:', error);
+        setBackorders([]);
+      });
   }, [customer.id]);
 
   const fetchCustomerData = async () => {
     try {
       setLoading(true);
 
-      // Fire all three queries in parallel
-      const [invoicesResult, collectionsResult, returnsResult] = await Promise.all([
+      // Fire all queries in parallel
+      const [invoicesResult, collectionsResult, returnsResult, debitNotesResult, creditNotesResult] = await Promise.all([
         supabase
           .from('invoices')
           .select('*')
@@ -49,7 +61,7 @@ const CustomerInvoiceDetails = ({ user, customer, onBack }: CustomerInvoiceDetai
           .order('created_at', { ascending: false }),
         supabase
           .from('collections')
-          .select('*, collection_cheques (*), collection_allocations (*)')
+          .select('*, collection_cheques (*), collection_allocations (*), customer_credits (refunded_amount)')
           .eq('customer_id', customer.id)
           .order('created_at', { ascending: false }),
         supabase
@@ -57,6 +69,16 @@ const CustomerInvoiceDetails = ({ user, customer, onBack }: CustomerInvoiceDetai
           .select('id, invoice_id, total, status')
           .eq('customer_id', customer.id)
           .in('status', ['approved', 'processed']),
+        supabase
+          .from('customer_debit_notes')
+          .select('amount')
+          .eq('customer_id', customer.id)
+          .eq('status', 'approved'),
+        supabase
+          .from('customer_credit_notes')
+          .select('invoice_id, amount')
+          .eq('customer_id', customer.id)
+          .eq('status', 'approved'),
       ]);
 
       if (invoicesResult.error) throw new Error(`Failed to fetch invoices: ${invoicesResult.error.message}`);
@@ -73,6 +95,7 @@ const CustomerInvoiceDetails = ({ user, customer, onBack }: CustomerInvoiceDetai
         subtotal: invoice.subtotal,
         discountAmount: invoice.discount_amount,
         total: invoice.total,
+        dueDate: invoice.due_date ? new Date(invoice.due_date) : undefined,
         gpsCoordinates: { latitude: invoice.latitude, longitude: invoice.longitude },
         signature: invoice.signature,
         createdAt: new Date(invoice.created_at),
@@ -101,6 +124,7 @@ const CustomerInvoiceDetails = ({ user, customer, onBack }: CustomerInvoiceDetai
             status: cheque.status,
             clearedAt: cheque.cleared_at ? new Date(cheque.cleared_at) : undefined
           })),
+          creditRefunded: Number(collection.customer_credits?.refunded_amount || 0),
           notes: collection.notes,
           gpsCoordinates: { latitude: collection.latitude, longitude: collection.longitude },
           createdAt: new Date(collection.created_at),
@@ -113,13 +137,17 @@ const CustomerInvoiceDetails = ({ user, customer, onBack }: CustomerInvoiceDetai
 
       const returnsData = returnsResult.error ? [] : (returnsResult.data || []);
       if (returnsResult.error) console.warn('Returns fetch issue:', returnsResult.error);
+      if (debitNotesResult.error) console.warn('Debit notes fetch issue:', debitNotesResult.error);
+      const debitNoteTotals = (debitNotesResult.data || []).map(note => Number(note.amount));
+      if (creditNotesResult.error) console.warn('Credit notes fetch issue:', creditNotesResult.error);
+      const creditNotes = (creditNotesResult.data || []).map(note => ({ invoice_id: note.invoice_id, amount: Number(note.amount) }));
 
       setInvoices(transformedInvoices);
       setCollections(transformedCollections);
       setCustomerReturns(returnsData);
 
       // Calculate summary
-      await calculateCustomerSummary(transformedInvoices, transformedCollections, returnsData);
+      await calculateCustomerSummary(transformedInvoices, transformedCollections, returnsData, debitNoteTotals, creditNotes);
     } catch (error) {
       console.error('Error fetching customer data:', error);
       toast({
@@ -132,54 +160,21 @@ const CustomerInvoiceDetails = ({ user, customer, onBack }: CustomerInvoiceDetai
     }
   };
 
-  const calculateCustomerSummary = async (customerInvoices: Invoice[], customerCollections: Collection[], customerReturnsList: Array<{ id: string; invoice_id: string | null; total: number; status: string }>) => {
-    // Calculate payments with proper date validation (same logic as Collections.tsx)
-    const today = new Date();
-    today.setHours(23, 59, 59, 999); // Set to end of day for comparison
-    
-    let totalCashCollected = 0;
-    let totalCashDiscounts = 0;
-    let totalRealizedChequePayments = 0; // Only past/current dated cheques
-    let totalUnrealizedChequePayments = 0; // Future-dated cheques
-    let returnedChequesAmount = 0;
-    let returnedChequesCount = 0;
-
-    customerCollections.forEach(collection => {
-      totalCashCollected += collection.cashAmount;
-      totalCashDiscounts += collection.cashDiscount || 0;
-      
-      // Process cheques with proper date logic
-      collection.chequeDetails?.forEach(cheque => {
-        const chequeDate = new Date(cheque.chequeDate);
-        chequeDate.setHours(23, 59, 59, 999); // Set to end of cheque date
-        
-        if (cheque.status === 'returned' || cheque.status === 'held') {
-          // Returned cheques add back to outstanding
-          returnedChequesAmount += cheque.amount;
-          returnedChequesCount++;
-        } else if (cheque.status !== 'resolved' && chequeDate <= today) {
-          // Only count cheques whose date has arrived as realized payments
-          totalRealizedChequePayments += cheque.amount;
-        } else if (cheque.status !== 'resolved') {
-          // Future-dated cheques are unrealized payments
-          totalUnrealizedChequePayments += cheque.amount;
-        }
-      });
-    });
-
-    // Calculate totals
-    const totalInvoiced = roundMoney(customerInvoices.reduce((sum, inv) => sum + inv.total, 0));
-    const totalReturns = roundMoney(customerReturnsList.reduce((sum, ret) => sum + (ret.total || 0), 0));
-    const totalRealizedPayments = roundMoney(totalCashCollected + totalRealizedChequePayments + totalCashDiscounts);
-    
-    // Outstanding calculation:
-    // Outstanding = Total Invoiced - Realized Payments - Returns + Returned Cheques
-    // Future cheques don't count as payments until their date arrives
-    const outstandingAmount = roundMoney(totalInvoiced - totalRealizedPayments - totalReturns + returnedChequesAmount);
-    
-    // Outstanding with Unrealized = Total Invoiced - (Realized + Unrealized) - Returns + Returned Cheques
-    const totalAllPayments = roundMoney(totalRealizedPayments + totalUnrealizedChequePayments);
-    const outstandingWithUnrealized = roundMoney(totalInvoiced - totalAllPayments - totalReturns + returnedChequesAmount);
+  const calculateCustomerSummary = async (
+    customerInvoices: Invoice[],
+    customerCollections: Collection[],
+    customerReturnsList: Array<{ id: string; invoice_id: string | null; total: number; status: string }>,
+    debitNoteTotals: number[],
+    creditNotes: Array<{ invoice_id: string | null; amount: number }>
+  ) => {
+    // Same balance rules as the credit check on new orders and invoices
+    const balance = calculateCustomerBalance(
+      customerInvoices.map(inv => inv.total),
+      customerCollections,
+      customerReturnsList.map(ret => ret.total),
+      debitNoteTotals,
+      creditNotes.map(note => note.amount)
+    );
 
     // Create invoice summaries with proper collection calculations
     // Build invoice item lookup to support per-item return linking
@@ -247,7 +242,11 @@ const CustomerInvoiceDetails = ({ user, customer, onBack }: CustomerInvoiceDetai
           .reduce((sum, ret) => sum + (ret.total || 0), 0);
         const invoiceReturnsFromItems = returnsByInvoiceId[invoice.id] || 0;
         const invoiceReturns = roundMoney(invoiceReturnsFromHeader + invoiceReturnsFromItems);
-        const invoiceOutstandingAmount = Math.max(0, roundMoney(invoice.total - collectedAmount - invoiceReturns));
+        // Credit notes raised against this invoice come off it like a return
+        const invoiceCredits = creditNotes
+          .filter((note) => note.invoice_id === invoice.id)
+          .reduce((sum, note) => sum + note.amount, 0);
+        const invoiceOutstandingAmount = Math.max(0, roundMoney(invoice.total - collectedAmount - invoiceReturns - invoiceCredits));
 
         return {
           id: invoice.id,
@@ -256,6 +255,7 @@ const CustomerInvoiceDetails = ({ user, customer, onBack }: CustomerInvoiceDetai
           collectedAmount,
           outstandingAmount: invoiceOutstandingAmount,
           createdAt: new Date(invoice.createdAt),
+          dueDate: invoice.dueDate,
           status: invoiceOutstandingAmount === 0 ? 'paid' :
                   collectedAmount > 0 ? 'partially_paid' : 'pending'
         };
@@ -264,17 +264,19 @@ const CustomerInvoiceDetails = ({ user, customer, onBack }: CustomerInvoiceDetai
     setCustomerInvoiceSummary({
       customerId: customer.id,
       customerName: customer.name,
-      totalInvoiced,
-      totalCollected: totalRealizedPayments,
-      unrealizedPayments: totalUnrealizedChequePayments,
-      outstandingAmount: outstandingAmount,
-      outstandingWithUnrealized: outstandingWithUnrealized,
-      outstandingWithCheques: outstandingAmount, // Same as outstanding amount now
-      outstandingWithoutCheques: outstandingAmount, // Same as outstanding amount now  
-      returnedChequesAmount,
-      returnedChequesCount,
+      totalInvoiced: balance.totalInvoiced,
+      totalCollected: balance.totalCollected,
+      unrealizedPayments: balance.unrealizedPayments,
+      outstandingAmount: balance.outstandingAmount,
+      outstandingWithUnrealized: balance.outstandingWithUnrealized,
+      outstandingWithCheques: balance.outstandingAmount, // Same as outstanding amount now
+      outstandingWithoutCheques: balance.outstandingAmount, // Same as outstanding amount now  
+      returnedChequesAmount: balance.returnedChequesAmount,
+      returnedChequesCount: balance.returnedChequesCount,
       invoices: invoiceSummaries,
-      totalReturns
+      totalReturns: balance.totalReturns,
+      totalDebitNotes: balance.totalDebitNotes,
+      totalCreditNotes: balance.totalCreditNotes
     });
   };
 
@@ -293,7 +295,7 @@ const CustomerInvoiceDetails = ({ user, customer, onBack }: CustomerInvoiceDetai
         notes: formData.notes,
         latitude: formData.gpsCoordinates.latitude,
         longitude: formData.gpsCoordinates.longitude,
-        status: 'pending',
+        status: 'allocated',
         created_by: user.id
       };
 
@@ -334,10 +336,18 @@ const CustomerInvoiceDetails = ({ user, customer, onBack }: CustomerInvoiceDetai
         }
       }
 
+      // Spread the payment over the customer's invoices; the rest is kept as customer credit
+      const creditAmount = await allocateCollection(
+        savedCollection.id,
+        formData.allocationStrategy,
+        formData.invoiceAllocations || []
+      );
+
       const chequeCount = formData.chequeDetails?.length || 0;
-      const successMessage = chequeCount > 0 
+      const successMessage = (chequeCount > 0 
         ? `Collection recorded with ${chequeCount} cheque${chequeCount > 1 ? 's' : ''} successfully`
-        : "Collection recorded successfully";
+        : "Collection recorded successfully")
+        + (creditAmount > 0 ? `. LKR ${creditAmount.toLocaleString()} kept as customer credit.` : '');
 
       toast({
         title: "Success",
@@ -381,6 +391,7 @@ const CustomerInvoiceDetails = ({ user, customer, onBack }: CustomerInvoiceDetai
         <CollectionForm
           customerId={customer.id}
           customerName={customer.name}
+          cachedCashOnly={customer.isCashOnly}
           customerInvoices={customerInvoiceSummary?.invoices || []}
           onSubmit={handleCollectionFormSubmit}
           onCancel={() => setShowCollectionForm(false)}
@@ -416,12 +427,23 @@ const CustomerInvoiceDetails = ({ user, customer, onBack }: CustomerInvoiceDetai
           <ArrowLeft className="h-4 w-4 mr-2" />
           Back to Customers
         </Button>
-        <div>
+        <div className="flex-1">
           <h2 className="text-2xl font-bold text-gray-900">{customer.name}</h2>
           <p className="text-gray-600">Customer invoices and collections</p>
         </div>
+        <Button variant="outline" onClick={() => setShowStatement(true)} className="flex items-center gap-2">
+          <ScrollText className="h-4 w-4" />
+          Statement
+        </Button>
       </div>
 
+      <CustomerStatementDialog
+        user={user}
+        customer={customer}
+        open={showStatement}
+        onOpenChange={setShowStatement}
+      />
+
       {/* Customer Info */}
       <Card>
         <CardHeader>
@@ -511,6 +533,61 @@ const CustomerInvoiceDetails = ({ user, customer, onBack }: CustomerInvoiceDetai
                 </div>
                 <div className="text-sm text-gray-600">Returned Cheques</div>
               </div>
+              {(customerInvoiceSummary.totalDebitNotes || 0) > 0 && (
+                <div className="text-center p-4 bg-rose-50 rounded-lg">
+                  <div className="text-xl font-bold text-rose-600">
+                    LKR {(customerInvoiceSummary.totalDebitNotes || 0).toLocaleString()}
+                  </div>
+                  <div className="text-sm text-gray-600">Open Debit Notes</div>
+                </div>
+              )}
+              {(customerInvoiceSummary.totalCreditNotes || 0) > 0 && (
+                <div className="text-center p-4 bg-teal-50 rounded-lg">
+                  <div className="text-xl font-bold text-teal-600">
+                    LKR {(customerInvoiceSummary.totalCreditNotes || 0).toLocaleString()}
+                  </div>
+                  <div className="text-sm text-gray-600">Credit Notes</div>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Backorders */}
+      {backorders.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <PackageX className="h-5 w-5" />
+              Backorders ({backorders.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {backorders.map((line) => (
+                <div key={line.salesOrderItemId} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-medium">{line.productName}</span>
+                      <Badge variant="outline" className="text-xs">
+                        {line.orderedAt.toLocaleDateString()}
+                      </Badge>
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {line.color}, {line.size} · Sales Order: {line.orderNumber}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-lg font-bold text-orange-600">
+                      {line.outstandingQuantity} outstanding
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      Ordered {line.orderedQuantity} · Invoiced {line.invoicedQuantity}
+                    </div>
+                  </div>
+                </div>
+              ))}
             </div>
           </CardContent>
         </Card>
@@ -83,7 +83,8 @@ const CustomerManagement = ({ user }: CustomerManagementProps) => {
         },
         agencyId: customer.agency_id,
         createdAt: new Date(customer.created_at),
-        createdBy: customer.created_by || ''
+        createdBy: customer.created_by || '',
+        isCashOnly: customer.is_cash_only
       }));
 
       console.log('Transformed customers:', transformedCustomers);
@@ -0,0 +1,514 @@
+import { useEffect, useState } from 'react';
+import { User } from '@/types/auth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Check, FilePlus, Printer, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import AgencySelector from '@/components/common/AgencySelector';
+import PrintableCustomerNote from './PrintableCustomerNote';
+import {
+  CustomerNote,
+  CustomerNoteCategory,
+  CustomerNoteStatus,
+  CustomerNoteType
+} from '@/types/collections';
+import {
+  NOTE_CATEGORY_LABELS,
+  NOTE_STATUS_LABELS,
+  cancelCustomerNote,
+  createCustomerNote,
+  getCustomerNoteApprovalThreshold,
+  getCustomerNotes,
+  reviewCustomerNote,
+  setCustomerNoteApprovalThreshold
+} from '@/utils/customerNotes';
+import { roundMoney } from '@/utils/money';
+
+interface CustomerNotesProps {
+  user: User;
+  onBack: () => void;
+}
+
+const STATUS_STYLES: Record<CustomerNoteStatus, string> = {
+  pending_approval: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+// Returned cheque charges are raised from the recovery cases, not by hand
+const MANUAL_CATEGORIES: CustomerNoteCategory[] = ['price_correction', 'damaged_goods', 'rebate', 'other'];
+
+const NO_INVOICE = 'none';
+
+const emptyForm = {
+  noteType: 'credit' as CustomerNoteType,
+  customerId: '',
+  invoiceId: NO_INVOICE,
+  category: 'price_correction' as CustomerNoteCategory,
+  amount: '',
+  reason: ''
+};
+
+const formatCurrency = (amount: number) => `LKR ${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const CustomerNotes = ({ user, onBack }: CustomerNotesProps) => {
+  const isSuperuser = user.role === 'superuser';
+  const [selectedAgencyId, setSelectedAgencyId] = useState<string | null>(isSuperuser ? null : user.agencyId);
+  const [notes, setNotes] = useState<CustomerNote[]>([]);
+  const [agencies, setAgencies] = useState<{ id: string; name: string }[]>([]);
+  const [customers, setCustomers] = useState<{ id: string; name: string }[]>([]);
+  const [invoices, setInvoices] = useState<{ id: string; invoice_number: string | null; total: number; created_at: string | null }[]>([]);
+  const [typeFilter, setTypeFilter] = useState<'all' | CustomerNoteType>('all');
+  const [statusFilter, setStatusFilter] = useState<'all' | CustomerNoteStatus>('all');
+  const [form, setForm] = useState(emptyForm);
+  const [creating, setCreating] = useState(false);
+  const [threshold, setThreshold] = useState(0);
+  const [thresholdDraft, setThresholdDraft] = useState('');
+  const [printing, setPrinting] = useState<CustomerNote | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const showError = (error: unknown, fallback: string) => {
+    console.error(fallback, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [noteList, agencyResult, customerResult, approvalThreshold] = await Promise.all([
+        getCustomerNotes({ agencyId: selectedAgencyId }),
+        supabase.from('agencies').select('id, name').order('name'),
+        selectedAgencyId
+          ? supabase.from('customers').select('id, name').eq('agency_id', selectedAgencyId).order('name')
+          : Promise.resolve({ data: [], error: null }),
+        getCustomerNoteApprovalThreshold()
+      ]);
+      if (agencyResult.error) throw agencyResult.error;
+      if (customerResult.error) throw customerResult.error;
+      setNotes(noteList);
+      setAgencies(agencyResult.data || []);
+      setCustomers(customerResult.data || []);
+      setThreshold(approvalThreshold);
+      setThresholdDraft(String(approvalThreshold));
+    } catch (error) {
+      showError(error, 'Failed to load credit and debit notes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+    setCreating(false);
+    setForm(emptyForm);
+  }, [selectedAgencyId]);
+
+  useEffect(() => {
+    if (!form.customerId) {
+      setInvoices([]);
+      return;
+    }
+
+    supabase
+      .from('invoices')
+      .select('id, invoice_number, total, created_at')
+      .eq('customer_id', form.customerId)
+      .order('created_at', { ascending: false })
+      .then(({ data, error }) => {
+        if (error) {
+          console.warn('Could not load invoices:', error);
+          setInvoices([]);
+          return;
+        }
+        setInvoices(data || []);
+      });
+  }, [form.customerId]);
+
+  const handleCreate = async () => {
+    const amount = roundMoney(Number(form.amount));
+    if (!form.customerId || !(amount > 0) || !form.reason.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Pick the customer and enter the amount and reason",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setBusy(true);
+      await createCustomerNote({
+        noteType: form.noteType,
+        customerId: form.customerId,
+        amount,
+        category: form.category,
+        reason: form.reason.trim(),
+        invoiceId: form.invoiceId === NO_INVOICE ? undefined : form.invoiceId
+      });
+      const needsApproval = !isSuperuser && amount > threshold;
+      toast({
+        title: form.noteType === 'credit' ? "Credit note raised" : "Debit note raised",
+        description: needsApproval
+          ? `It is above ${formatCurrency(threshold)} and will count once a superuser approves it`
+          : `${formatCurrency(amount)} has been ${form.noteType === 'credit' ? 'credited to' : 'debited to'} the customer`,
+      });
+      setCreating(false);
+      setForm(emptyForm);
+      await fetchData();
+    } catch (error) {
+      showError(error, 'Failed to raise the note');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReview = async (note: CustomerNote, approve: boolean) => {
+    const reason = approve ? undefined : window.prompt(`Reason for rejecting ${note.noteNumber}?`);
+    if (reason === null) return;
+
+    try {
+      setBusy(true);
+      await reviewCustomerNote(note.noteType, note.id, approve, reason);
+      toast({
+        title: approve ? "Note approved" : "Note rejected",
+        description: approve ? `${note.noteNumber} now counts in ${note.customerName}'s balance` : `${note.noteNumber} will not count`,
+      });
+      await fetchData();
+    } catch (error) {
+      showError(error, 'Failed to review the note');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async (note: CustomerNote) => {
+    if (!window.confirm(`Cancel ${note.noteNumber}?`)) return;
+
+    try {
+      setBusy(true);
+      await cancelCustomerNote(note.noteType, note.id);
+      toast({ title: "Note cancelled", description: `${note.noteNumber} has been withdrawn` });
+      await fetchData();
+    } catch (error) {
+      showError(error, 'Failed to cancel the note');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveThreshold = async () => {
+    try {
+      setBusy(true);
+      await setCustomerNoteApprovalThreshold(Number(thresholdDraft));
+      setThreshold(Number(thresholdDraft));
+      toast({
+        title: "Saved",
+        description: `Notes above ${formatCurrency(Number(thresholdDraft))} now need approval`,
+      });
+    } catch (error) {
+      showError(error, 'Failed to save approval threshold');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (printing) {
+    return (
+      <PrintableCustomerNote
+        note={printing}
+        agencyName={agencies.find(agency => agency.id === printing.agencyId)?.name || user.agencyName}
+        onClose={() => setPrinting(null)}
+      />
+    );
+  }
+
+  const filteredNotes = notes.filter(note =>
+    (typeFilter === 'all' || note.noteType === typeFilter)
+    && (statusFilter === 'all' || note.status === statusFilter)
+  );
+  const pendingCount = notes.filter(note => note.status === 'pending_approval').length;
+
+  return (
+    <div className="p-4 md:p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start gap-3">
+        <Button variant="ghost" size="sm" onClick={onBack} className="mt-0.5 shrink-0">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </Button>
+        <div className="min-w-0">
+          <h2 className="text-xl md:text-2xl font-bold text-gray-900 leading-tight">Credit &amp; Debit Notes</h2>
+          <p className="text-sm text-gray-600 mt-0.5">Price corrections, damaged-goods allowances, rebates and charges</p>
+        </div>
+      </div>
+
+      <AgencySelector
+        user={user}
+        selectedAgencyId={selectedAgencyId}
+        onAgencyChange={setSelectedAgencyId}
+        placeholder="Select agency to view notes..."
+      />
+
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div className="flex flex-wrap items-end gap-2">
+          <Button onClick={() => setCreating(true)} disabled={!selectedAgencyId || creating}>
+            <FilePlus className="h-4 w-4 mr-2" />
+            New note
+          </Button>
+          <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as 'all' | CustomerNoteType)}>
+            <SelectTrigger className="w-36 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All notes</SelectItem>
+              <SelectItem value="credit">Credit notes</SelectItem>
+              <SelectItem value="debit">Debit notes</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'all' | CustomerNoteStatus)}>
+            <SelectTrigger className="w-44 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any status</SelectItem>
+              {(Object.keys(NOTE_STATUS_LABELS) as CustomerNoteStatus[]).map(status => (
+                <SelectItem key={status} value={status}>{NOTE_STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {isSuperuser && (
+          <div className="flex items-end gap-2">
+            <div>
+              <Label htmlFor="note-threshold" className="text-xs">Approval needed above (LKR)</Label>
+              <Input
+                id="note-threshold"
+                type="number"
+                min="0"
+                value={thresholdDraft}
+                onChange={(e) => setThresholdDraft(e.target.value)}
+                className="w-36 h-9"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleSaveThreshold}
+              disabled={busy || thresholdDraft === '' || Number(thresholdDraft) === threshold}
+            >
+              Save
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {creating && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">New credit or debit note</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label>Type</Label>
+                <Select
+                  value={form.noteType}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, noteType: value as CustomerNoteType }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="credit">Credit note (lowers balance)</SelectItem>
+                    <SelectItem value="debit">Debit note (raises balance)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Customer</Label>
+                <Select
+                  value={form.customerId}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, customerId: value, invoiceId: NO_INVOICE }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select customer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {customers.map(customer => (
+                      <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Invoice</Label>
+                <Select
+                  value={form.invoiceId}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, invoiceId: value }))}
+                  disabled={!form.customerId}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_INVOICE}>Stand-alone (no invoice)</SelectItem>
+                    {invoices.map(invoice => (
+                      <SelectItem key={invoice.id} value={invoice.id}>
+                        {invoice.invoice_number || invoice.id.slice(0, 8).toUpperCase()} · {formatCurrency(Number(invoice.total))}
+                        {invoice.created_at ? ` · ${new Date(invoice.created_at).toLocaleDateString()}` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Category</Label>
+                <Select
+                  value={form.category}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, category: value as CustomerNoteCategory }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MANUAL_CATEGORIES.map(category => (
+                      <SelectItem key={category} value={category}>{NOTE_CATEGORY_LABELS[category]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="note-amount">Amount (LKR)</Label>
+                <Input
+                  id="note-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+                />
+                {!isSuperuser && Number(form.amount) > threshold && (
+                  <p className="text-xs text-yellow-700 mt-1">Above {formatCurrency(threshold)}: needs superuser approval</p>
+                )}
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="note-reason">Reason</Label>
+              <Textarea
+                id="note-reason"
+                value={form.reason}
+                onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+                placeholder="Printed on the note"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => { setCreating(false); setForm(emptyForm); }} disabled={busy}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} disabled={busy}>
+                Raise note
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">
+            Notes
+            {pendingCount > 0 && (
+              <Badge className="ml-2 bg-yellow-100 text-yellow-800">{pendingCount} awaiting approval</Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : filteredNotes.length === 0 ? (
+            <p className="text-sm text-gray-600">No credit or debit notes.</p>
+          ) : (
+            <div className="space-y-2">
+              {filteredNotes.map(note => {
+                const canCancel = note.status === 'pending_approval' && (isSuperuser || note.agencyId === user.agencyId);
+
+                return (
+                  <div key={`${note.noteType}-${note.id}`} className="border rounded-lg p-3 flex flex-wrap items-start justify-between gap-3">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-mono font-semibold">{note.noteNumber}</span>
+                        <Badge variant="outline" className={note.noteType === 'credit' ? 'text-teal-700' : 'text-rose-700'}>
+                          {note.noteType === 'credit' ? 'Credit' : 'Debit'}
+                        </Badge>
+                        <Badge className={STATUS_STYLES[note.status]}>{NOTE_STATUS_LABELS[note.status]}</Badge>
+                        <span className="text-sm text-gray-600">{NOTE_CATEGORY_LABELS[note.category]}</span>
+                      </div>
+                      <p className="text-sm font-medium text-gray-900">{note.customerName}</p>
+                      <p className="text-sm text-gray-700">{note.reason}</p>
+                      <p className="text-xs text-gray-500">
+                        {note.createdAt.toLocaleDateString()}
+                        {note.invoiceNumber && ` · Invoice ${note.invoiceNumber}`}
+                        {note.createdByName && ` · Raised by ${note.createdByName}`}
+                        {note.reviewedByName && ` · Reviewed by ${note.reviewedByName}`}
+                      </p>
+                      {note.rejectionReason && (
+                        <p className="text-xs text-red-700">Rejected: {note.rejectionReason}</p>
+                      )}
+                    </div>
+                    <div className="flex flex-col items-end gap-2">
+                      <div className={`text-lg font-bold ${note.noteType === 'credit' ? 'text-teal-600' : 'text-rose-600'}`}>
+                        {note.noteType === 'credit' ? '−' : '+'}{formatCurrency(note.amount)}
+                      </div>
+                      {note.noteType === 'debit' && note.settledAmount > 0 && (
+                        <p className="text-xs text-gray-500">Paid {formatCurrency(note.settledAmount)}</p>
+                      )}
+                      <div className="flex flex-wrap justify-end gap-2">
+                        <Button size="sm" variant="outline" onClick={() => setPrinting(note)}>
+                          <Printer className="h-4 w-4 mr-1" />
+                          Print
+                        </Button>
+                        {canCancel && (
+                          <Button size="sm" variant="outline" onClick={() => handleCancel(note)} disabled={busy}>
+                            Cancel
+                          </Button>
+                        )}
+                        {isSuperuser && note.status === 'pending_approval' && (
+                          <>
+                            <Button size="sm" variant="outline" className="text-red-700" onClick={() => handleReview(note, false)} disabled={busy}>
+                              <X className="h-4 w-4 mr-1" />
+                              Reject
+                            </Button>
+                            <Button size="sm" onClick={() => handleReview(note, true)} disabled={busy}>
+                              <Check className="h-4 w-4 mr-1" />
+                              Approve
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CustomerNotes;
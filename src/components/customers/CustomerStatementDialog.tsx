@@ -0,0 +1,289 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO, startOfMonth } from 'date-fns';
+import { User } from '@/types/auth';
+import { Customer } from '@/types/customer';
+import type { CustomerStatement } from '@/types/statement';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, MessageSquare, RefreshCw, Share2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { generateAndUploadStatementPdf } from '@/services/invoice-pdf.service';
+import { sendSMS, SmsTemplates } from '@/services/sms.service';
+import { getCustomerStatement, getStatementViewUrl, saveCustomerStatement } from '@/utils/customerStatement';
+
+interface CustomerStatementDialogProps {
+  user: User;
+  customer: Customer;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type SavedStatement = { id: string; pdfUrl: string | null };
+
+const formatMoney = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatPeriod = (statement: CustomerStatement) =>
+  `${format(parseISO(statement.periodFrom), 'dd MMM yyyy')} - ${format(parseISO(statement.periodTo), 'dd MMM yyyy')}`;
+
+const CustomerStatementDialog = ({ user, customer, open, onOpenChange }: CustomerStatementDialogProps) => {
+  const [periodFrom, setPeriodFrom] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [periodTo, setPeriodTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [statement, setStatement] = useState<CustomerStatement | null>(null);
+  // A statement is saved (and its PDF generated) the first time it is downloaded, sent or shared
+  const [saved, setSaved] = useState<SavedStatement | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState<'pdf' | 'sms' | 'share' | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) fetchStatement();
+  }, [open]);
+
+  const fetchStatement = async () => {
+    if (periodFrom > periodTo) {
+      toast({
+        title: 'Invalid period',
+        description: 'The start date must be on or before the end date.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setStatement(await getCustomerStatement(customer.id, periodFrom, periodTo));
+      setSaved(null);
+    } catch (error) {
+      console.error('Error loading statement:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load the account statement.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveStatement = async (current: CustomerStatement): Promise<SavedStatement> => {
+    if (saved) return saved;
+
+    const id = await saveCustomerStatement(current, user.id);
+    const pdfUrl = await generateAndUploadStatementPdf({ statementId: id, statement: current });
+    if (pdfUrl) {
+      const { error } = await supabase.from('customer_statements').update({ pdf_url: pdfUrl }).eq('id', id);
+      if (error) console.warn('Could not store statement PDF link:', error);
+    }
+
+    const result = { id, pdfUrl };
+    setSaved(result);
+    return result;
+  };
+
+  const handleDownload = async () => {
+    if (!statement) return;
+    try {
+      setBusy('pdf');
+      const { pdfUrl } = await saveStatement(statement);
+      if (!pdfUrl) throw new Error('PDF generation failed');
+      window.open(pdfUrl, '_blank');
+    } catch (error) {
+      console.error('Error generating statement PDF:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to generate the statement PDF.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSendSms = async () => {
+    if (!statement) return;
+    if (!customer.phone) {
+      toast({
+        title: 'No phone number',
+        description: 'Add a phone number to this customer to send the statement.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setBusy('sms');
+      const { id } = await saveStatement(statement);
+      await sendSMS(
+        customer.phone,
+        SmsTemplates.customerStatement(customer.name, formatPeriod(statement), statement.closingBalance, getStatementViewUrl(id)),
+        { customerId: customer.id, related: { type: 'statement', id } }
+      );
+      toast({
+        title: 'Statement sent',
+        description: `Statement SMS sent to ${customer.phone}.`,
+      });
+    } catch (error) {
+      console.error('Error sending statement SMS:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to send the statement.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!statement) return;
+    try {
+      setBusy('share');
+      const { id } = await saveStatement(statement);
+      const url = getStatementViewUrl(id);
+      const text = `Account statement for ${customer.name} (${formatPeriod(statement)}). Balance due: LKR ${formatMoney(statement.closingBalance)}`;
+
+      if (navigator.share) {
+        await navigator.share({ title: 'Account statement', text, url });
+      } else {
+        await navigator.clipboard.writeText(`${text}\n${url}`);
+        toast({
+          title: 'Link copied',
+          description: 'The statement link has been copied to the clipboard.',
+        });
+      }
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('Error sharing statement:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to share the statement.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Account Statement - {customer.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1">
+            <Label htmlFor="statement-from">From</Label>
+            <Input id="statement-from" type="date" value={periodFrom} onChange={(e) => setPeriodFrom(e.target.value)} />
+          </div>
+          <div className="flex-1">
+            <Label htmlFor="statement-to">To</Label>
+            <Input id="statement-to" type="date" value={periodTo} onChange={(e) => setPeriodTo(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={fetchStatement} disabled={loading} className="flex items-center gap-2">
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Load
+          </Button>
+        </div>
+
+        {loading && !statement ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">Loading...</p>
+        ) : statement && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+              <div className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-xs text-muted-foreground">Opening</div>
+                <div className="font-semibold">LKR {formatMoney(statement.openingBalance)}</div>
+              </div>
+              <div className="p-3 bg-red-50 rounded-lg">
+                <div className="text-xs text-muted-foreground">Debits</div>
+                <div className="font-semibold text-red-700">LKR {formatMoney(statement.totalDebits)}</div>
+              </div>
+              <div className="p-3 bg-green-50 rounded-lg">
+                <div className="text-xs text-muted-foreground">Credits</div>
+                <div className="font-semibold text-green-700">LKR {formatMoney(statement.totalCredits)}</div>
+              </div>
+              <div className="p-3 bg-blue-50 rounded-lg">
+                <div className="text-xs text-muted-foreground">Balance due</div>
+                <div className="font-semibold text-blue-700">LKR {formatMoney(statement.closingBalance)}</div>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow className="italic text-muted-foreground">
+                  <TableCell className="whitespace-nowrap text-xs">{statement.periodFrom}</TableCell>
+                  <TableCell colSpan={3}>Opening balance</TableCell>
+                  <TableCell className="text-right">{formatMoney(statement.openingBalance)}</TableCell>
+                </TableRow>
+                {statement.entries.map((entry, index) => (
+                  <TableRow key={`${entry.type}-${entry.reference}-${index}`}>
+                    <TableCell className="whitespace-nowrap text-xs">{entry.date}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">{entry.description}</div>
+                      <div className="text-xs text-muted-foreground">{entry.reference}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{entry.debit > 0 ? formatMoney(entry.debit) : ''}</TableCell>
+                    <TableCell className="text-right">{entry.credit > 0 ? formatMoney(entry.credit) : ''}</TableCell>
+                    <TableCell className="text-right font-medium">{formatMoney(entry.balance)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {statement.entries.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center">No transactions in this period.</p>
+            )}
+
+            {statement.pendingCheques.length > 0 && (
+              <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm">
+                <p className="font-medium text-orange-800 mb-1">Post-dated cheques (not yet credited)</p>
+                {statement.pendingCheques.map((cheque, index) => (
+                  <div key={`${cheque.reference}-${index}`} className="flex justify-between text-orange-700">
+                    <span>{cheque.date} · {cheque.description} #{cheque.reference}</span>
+                    <span>LKR {formatMoney(cheque.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2 justify-end">
+              <Button variant="outline" onClick={handleDownload} disabled={busy !== null} className="flex items-center gap-2">
+                <Download className="h-4 w-4" />
+                {busy === 'pdf' ? 'Generating...' : 'Download PDF'}
+              </Button>
+              <Button variant="outline" onClick={handleShare} disabled={busy !== null} className="flex items-center gap-2">
+                <Share2 className="h-4 w-4" />
+                {busy === 'share' ? 'Preparing...' : 'Share'}
+              </Button>
+              <Button onClick={handleSendSms} disabled={busy !== null || customer.smsOptOut} className="flex items-center gap-2">
+                <MessageSquare className="h-4 w-4" />
+                {busy === 'sms' ? 'Sending...' : 'Send SMS'}
+              </Button>
+            </div>
+            {customer.smsOptOut && (
+              <p className="text-xs text-muted-foreground text-right">This customer has opted out of SMS.</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomerStatementDialog;
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { sendSMS, SmsTemplates } from '@/services/sms.service';
 import { User } from '@/types/auth';
 import { Customer } from '@/types/customer';
+import type { SmsLanguage } from '@/types/sms';
 import { useAgencies } from '@/hooks/useAgency';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -14,6 +15,7 @@ import { useToast } from '@/hooks/use-toast';
 import CustomerForm from './CustomerForm';
 import CustomerInvoiceDetails from './CustomerInvoiceDetails';
 import { uploadCustomerPhoto, base64ToBlob } from '@/utils/storage';
+import { clearPricingCache } from '@/utils/agencyPricing';
 import ImageModal from '@/components/ui/image-modal';
 
 const CUSTOMER_CACHE_TTL = 2 * 60 * 1000;
@@ -112,7 +114,13 @@ const DuplicatePreventionCustomerManagement = ({ user }: CustomerManagementProps
         },
         agencyId: customer.agency_id,
         createdAt: new Date(customer.created_at),
-        createdBy: customer.created_by || ''
+        createdBy: customer.created_by || '',
+        priceListId: customer.price_list_id || null,
+        creditLimit: customer.credit_limit ?? null,
+        maxOverdueDays: customer.max_overdue_days ?? null,
+        preferredLanguage: (customer.preferred_language as SmsLanguage | undefined) ?? 'en',
+        smsOptOut: customer.sms_opt_out ?? false,
+        isCashOnly: customer.is_cash_only
       }));
 
       setCustomers(transformedCustomers);
@@ -236,6 +244,11 @@ const DuplicatePreventionCustomerManagement = ({ user }: CustomerManagementProps
           signature: customerData.signature,
           latitude: customerData.gpsCoordinates.latitude,
           longitude: customerData.gpsCoordinates.longitude,
+          price_list_id: customerData.priceListId || null,
+          credit_limit: customerData.creditLimit ?? null,
+          max_overdue_days: customerData.maxOverdueDays ?? null,
+          preferred_language: customerData.preferredLanguage ?? 'en',
+          sms_opt_out: customerData.smsOptOut ?? false,
           agency_id: agencyId,
           created_by: user.id
         }])
@@ -268,7 +281,10 @@ const DuplicatePreventionCustomerManagement = ({ user }: CustomerManagementProps
         description: "Customer added successfully!",
       });
 
-      sendSMS(customerData.phone, SmsTemplates.customerWelcome(customerData.name));
+      sendSMS(customerData.phone, SmsTemplates.customerWelcome(customerData.name), {
+        customerId: data.id,
+        related: { type: 'customer', id: data.id },
+      });
       invalidateCustomerCache();
       await loadCustomers();
       setShowForm(false);
@@ -345,6 +361,11 @@ const DuplicatePreventionCustomerManagement = ({ user }: CustomerManagementProps
           signature: customerData.signature,
           latitude: customerData.gpsCoordinates.latitude,
           longitude: customerData.gpsCoordinates.longitude,
+          price_list_id: customerData.priceListId || null,
+          credit_limit: customerData.creditLimit ?? null,
+          max_overdue_days: customerData.maxOverdueDays ?? null,
+          preferred_language: customerData.preferredLanguage ?? 'en',
+          sms_opt_out: customerData.smsOptOut ?? false,
         })
         .eq('id', editingCustomer.id);
 
@@ -375,6 +396,7 @@ const DuplicatePreventionCustomerManagement = ({ user }: CustomerManagementProps
       });
 
       invalidateCustomerCache();
+      clearPricingCache();
       await loadCustomers();
       setShowForm(false);
       setEditingCustomer(null);
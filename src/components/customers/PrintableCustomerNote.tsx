@@ -0,0 +1,214 @@
+import { useEffect } from 'react';
+import { CustomerNote } from '@/types/collections';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { NOTE_CATEGORY_LABELS, NOTE_STATUS_LABELS } from '@/utils/customerNotes';
+import companyLogo from '../../../assets/icon.png';
+
+interface PrintableCustomerNoteProps {
+  note: CustomerNote;
+  agencyName?: string;
+  onClose: () => void;
+}
+
+const PrintableCustomerNote = ({ note, agencyName, onClose }: PrintableCustomerNoteProps) => {
+  const title = note.noteType === 'credit' ? 'CREDIT NOTE' : 'DEBIT NOTE';
+
+  const handlePrint = () => {
+    window.print();
+  };
+
+  useEffect(() => {
+    // Same print styles as the invoice and purchase order printouts
+    const printStyles = `
+      @media print {
+        body * {
+          visibility: hidden !important;
+        }
+
+        .print-container, .print-container * {
+          visibility: visible !important;
+        }
+
+        .no-print, .no-print * {
+          display: none !important;
+          visibility: hidden !important;
+        }
+
+        body {
+          margin: 0 !important;
+          padding: 0 !important;
+          background: white !important;
+          font-size: 12pt !important;
+        }
+
+        .print-container {
+          position: absolute !important;
+          top: 0 !important;
+          left: 0 !important;
+          width: 100% !important;
+          max-width: none !important;
+          box-shadow: none !important;
+          border: none !important;
+          margin: 0 !important;
+          padding: 20px !important;
+          background: white !important;
+          page-break-inside: avoid;
+        }
+
+        nav, header, aside, .sidebar, .menu, .navigation {
+          display: none !important;
+          visibility: hidden !important;
+        }
+
+        table {
+          border-collapse: collapse !important;
+          width: 100% !important;
+        }
+
+        th, td {
+          border: 1px solid #000 !important;
+          padding: 8px !important;
+          text-align: left !important;
+        }
+
+        th {
+          background-color: #f0f0f0 !important;
+          font-weight: bold !important;
+        }
+      }
+    `;
+
+    const styleSheet = document.createElement("style");
+    styleSheet.innerText = printStyles;
+    document.head.appendChild(styleSheet);
+
+    return () => {
+      if (document.head.contains(styleSheet)) {
+        document.head.removeChild(styleSheet);
+      }
+    };
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Print Controls - Hidden during print */}
+      <div className="no-print bg-white border-b px-6 py-4 flex justify-between items-center">
+        <Button variant="ghost" onClick={onClose}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <Button onClick={handlePrint} className="bg-blue-600 hover:bg-blue-700">
+          <Printer className="h-4 w-4 mr-2" />
+          Print {note.noteType === 'credit' ? 'Credit' : 'Debit'} Note
+        </Button>
+      </div>
+
+      {/* Printable Note */}
+      <div className="print-container max-w-4xl mx-auto bg-white p-8 shadow-lg">
+        {/* Company Header */}
+        <div className="border-b pb-3 mb-6 flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <img src={companyLogo} alt="DAG Clothing Logo" className="h-12 w-auto" />
+            <div className="leading-tight">
+              <h1 className="text-2xl font-bold text-gray-800">DAG Clothing Pvt Ltd</h1>
+              <p className="text-gray-600 text-sm">Dag clothing Pvt Ltd Kandamuduna Thalalla Matara</p>
+            </div>
+          </div>
+          <div className="text-gray-600 text-sm space-y-1 text-right leading-tight">
+            <p>Phone: 0412259525</p>
+            <p>Email: order@dag-apparel.com</p>
+            <p>Website: www.dag.lk</p>
+          </div>
+        </div>
+
+        {/* Note Header */}
+        <div className="grid grid-cols-2 gap-8 mb-8">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">{title}</h2>
+            <div className="space-y-2">
+              <p><span className="font-semibold">Note Number:</span> {note.noteNumber}</p>
+              <p><span className="font-semibold">Date:</span> {note.createdAt.toLocaleDateString()}</p>
+              {note.invoiceNumber && (
+                <p><span className="font-semibold">Invoice:</span> {note.invoiceNumber}</p>
+              )}
+              {agencyName && (
+                <p><span className="font-semibold">Agency:</span> {agencyName}</p>
+              )}
+              {note.status !== 'approved' && (
+                <p><span className="font-semibold">Status:</span> {NOTE_STATUS_LABELS[note.status]}</p>
+              )}
+            </div>
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">
+              {note.noteType === 'credit' ? 'Credited To:' : 'Debited To:'}
+            </h3>
+            <div className="space-y-1">
+              <p className="font-semibold">{note.customerName}</p>
+              <p className="text-gray-600">Customer ID: {note.customerId}</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Details */}
+        <div className="mb-8">
+          <table className="w-full border-collapse border border-gray-300">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="border border-gray-300 px-4 py-2 text-left">Category</th>
+                <th className="border border-gray-300 px-4 py-2 text-left">Reason</th>
+                <th className="border border-gray-300 px-4 py-2 text-right">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td className="border border-gray-300 px-4 py-2">{NOTE_CATEGORY_LABELS[note.category]}</td>
+                <td className="border border-gray-300 px-4 py-2">{note.reason}</td>
+                <td className="border border-gray-300 px-4 py-2 text-right">LKR {note.amount.toLocaleString()}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        {/* Total */}
+        <div className="flex justify-end mb-8">
+          <div className="w-80">
+            <div className="flex justify-between py-2 text-lg font-bold border-t border-gray-300">
+              <span>{note.noteType === 'credit' ? 'Total Credit:' : 'Total Debit:'}</span>
+              <span>LKR {note.amount.toLocaleString()}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="mb-8 text-sm text-gray-700 bg-gray-50 p-3 rounded">
+          {note.noteType === 'credit'
+            ? `This amount has been credited to your account${note.invoiceNumber ? ` against invoice ${note.invoiceNumber}` : ''}.`
+            : `This amount has been debited to your account${note.invoiceNumber ? ` in respect of invoice ${note.invoiceNumber}` : ''}.`}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t pt-6 mt-8">
+          <div className="grid grid-cols-2 gap-8">
+            <div className="text-sm text-gray-600 space-y-1">
+              {note.createdByName && <p>Prepared by: {note.createdByName}</p>}
+              {note.reviewedByName && <p>Approved by: {note.reviewedByName}</p>}
+            </div>
+            <div className="text-right">
+              <div className="mb-4">
+                <p className="text-sm text-gray-600">Authorized Signature</p>
+                <div className="mt-8 border-b border-gray-400 w-48 ml-auto"></div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-8 text-xs text-gray-500">
+          <p>{note.noteType === 'credit' ? 'Credit' : 'Debit'} note generated on: {new Date().toLocaleString()}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrintableCustomerNote;
@@ -1,4 +1,4 @@
-import { useState, lazy, Suspense, memo } from 'react';
+import { useState, useEffect, lazy, Suspense, memo } from 'react';
 import { User } from '@/types/auth';
 import { Button } from '@/components/ui/button';
 import { LogOut } from 'lucide-react';
@@ -7,6 +7,7 @@ import DashboardStats from './DashboardStats';
 import DashboardMapLeaflet from './DashboardMapLeaflet';
 import ExternalInventory from '@/components/inventory/ExternalInventory';
 import ModuleErrorBoundary from '@/components/common/ModuleErrorBoundary';
+import { offlineSyncService } from '@/services/offlineSync';
 
 // Lazy load heavy components to improve initial load time
 const CustomerManagement = lazy(() => import('@/components/customers/DuplicatePreventionCustomerManagement'));
@@ -26,8 +27,17 @@ const Reports = lazy(() => import('@/components/reports/Reports'));
 const Collections = lazy(() => import('@/components/collections/Collections'));
 const Assets = lazy(() => import('@/components/assets/Assets'));
 const ReturnChequesLodge = lazy(() => import('@/components/cheques/ReturnChequesLodge'));
+const PDCRegister = lazy(() => import('@/components/cheques/PDCRegister'));
+const BankReconciliation = lazy(() => import('@/components/cheques/BankReconciliation'));
+const CustomerNotes = lazy(() => import('@/components/customers/CustomerNotes'));
 const FuelExpenses = lazy(() => import('@/components/visits/FuelExpenses'));
 const PONotificationSettings = lazy(() => import('@/components/admin/PONotificationSettings'));
+const SmsTemplateManagement = lazy(() => import('@/components/admin/SmsTemplateManagement'));
+const SmsLog = lazy(() => import('@/components/admin/SmsLog'));
+const GRNReceiving = lazy(() => import('@/components/grn/GRNReceiving'));
+const GRNDiscrepancyClaims = lazy(() => import('@/components/grn/GRNDiscrepancyClaims'));
+const GRNImport = lazy(() => import('@/components/grn/GRNImport'));
+const ProductMappingReview = lazy(() => import('@/components/products/ProductMappingReview'));
 
 interface DashboardProps {
   user: User;
@@ -38,6 +48,11 @@ const Dashboard = memo(({ user, onLogout }: DashboardProps) => {
   const [activeModule, setActiveModule] = useState('dashboard');
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
+  // Replay anything captured offline once a signed-in session is available
+  useEffect(() => {
+    offlineSyncService.startAutoSync();
+  }, []);
+
   // Loading component for lazy-loaded modules
   const ModuleLoader = () => (
     <div className="flex items-center justify-center h-64">
@@ -144,6 +159,42 @@ const Dashboard = memo(({ user, onLogout }: DashboardProps) => {
             <PONotificationSettings user={user} onBack={() => setActiveModule('dashboard')} />
           </Suspense>
         );
+      case 'sms-templates':
+        return (
+          <Suspense fallback={<ModuleLoader />}>
+            <SmsTemplateManagement user={user} onBack={() => setActiveModule('dashboard')} />
+          </Suspense>
+        );
+      case 'sms-log':
+        return (
+          <Suspense fallback={<ModuleLoader />}>
+            <SmsLog user={user} onBack={() => setActiveModule('dashboard')} />
+          </Suspense>
+        );
+      case 'grn-receiving':
+        return (
+          <Suspense fallback={<ModuleLoader />}>
+            <GRNReceiving user={user} onBack={() => setActiveModule('dashboard')} />
+          </Suspense>
+        );
+      case 'grn-claims':
+        return (
+          <Suspense fallback={<ModuleLoader />}>
+            <GRNDiscrepancyClaims user={user} onBack={() => setActiveModule('dashboard')} />
+          </Suspense>
+        );
+      case 'grn-import':
+        return (
+          <Suspense fallback={<ModuleLoader />}>
+            <GRNImport user={user} onBack={() => setActiveModule('dashboard')} />
+          </Suspense>
+        );
+      case 'product-matching':
+        return (
+          <Suspense fallback={<ModuleLoader />}>
+            <ProductMappingReview user={user} onBack={() => setActiveModule('dashboard')} />
+          </Suspense>
+        );
       case 'reports':
         return (
           <Suspense fallback={<ModuleLoader />}>
@@ -162,6 +213,24 @@ const Dashboard = memo(({ user, onLogout }: DashboardProps) => {
             <ReturnChequesLodge user={user} onBack={() => setActiveModule('dashboard')} />
           </Suspense>
         );
+      case 'pdc-register':
+        return (
+          <Suspense fallback={<ModuleLoader />}>
+            <PDCRegister user={user} onBack={() => setActiveModule('dashboard')} />
+          </Suspense>
+        );
+      case 'bank-reconciliation':
+        return (
+          <Suspense fallback={<ModuleLoader />}>
+            <BankReconciliation user={user} onBack={() => setActiveModule('dashboard')} />
+          </Suspense>
+        );
+      case 'customer-notes':
+        return (
+          <Suspense fallback={<ModuleLoader />}>
+            <CustomerNotes user={user} onBack={() => setActiveModule('dashboard')} />
+          </Suspense>
+        );
       case 'fuel-expenses':
         return (
           <Suspense fallback={<ModuleLoader />}>
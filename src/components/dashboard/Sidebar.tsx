@@ -28,6 +28,15 @@ import {
   CheckSquare,
   Droplet,
   Bell,
+  MessageSquare,
+  Send,
+  ClipboardX,
+  FileInput,
+  GitMerge,
+  CalendarClock,
+  FileSpreadsheet,
+  ReceiptText,
+  PackageCheck,
 } from 'lucide-react';
 import { useAgencyFeatureAccess } from '@/hooks/useAgencyFeatureAccess';
 
@@ -39,7 +48,7 @@ interface SidebarProps {
   onToggle: () => void;
 }
 
-type ActiveModule = 'dashboard' | 'customers' | 'products' | 'sales' | 'purchase' | 'inventory' | 'targets' | 'reports' | 'user-management' | 'non-productive-visits' | 'time-tracking' | 'company-returns' | 'assets' | 'collections' | 'return-cheques' | 'discount-management' | 'approval-management' | 'agency-pricing-configuration' | 'agency-feature-access' | 'fuel-expenses';
+type ActiveModule = 'dashboard' | 'customers' | 'products' | 'sales' | 'purchase' | 'inventory' | 'targets' | 'reports' | 'user-management' | 'non-productive-visits' | 'time-tracking' | 'company-returns' | 'assets' | 'collections' | 'return-cheques' | 'pdc-register' | 'bank-reconciliation' | 'customer-notes' | 'discount-management' | 'approval-management' | 'agency-pricing-configuration' | 'agency-feature-access' | 'fuel-expenses';
 
 const Sidebar = ({ user, activeModule, onModuleChange, isOpen, onToggle }: SidebarProps) => {
   const { agency } = useAgency(user.agencyId);
@@ -56,6 +65,9 @@ const Sidebar = ({ user, activeModule, onModuleChange, isOpen, onToggle }: Sideb
     { id: 'sales', label: 'Sales', icon: ShoppingCart, roles: ['agency', 'superuser', 'agent'] },
     { id: 'collections', label: 'Collections', icon: DollarSign, roles: ['agency', 'superuser', 'agent'] },
     { id: 'return-cheques', label: 'Return Cheques Lodge', icon: FileX, roles: ['agency', 'superuser', 'agent'] },
+    { id: 'pdc-register', label: 'PDC Register', icon: CalendarClock, roles: ['agency', 'superuser'] },
+    { id: 'bank-reconciliation', label: 'Bank Reconciliation', icon: FileSpreadsheet, roles: ['agency', 'superuser'] },
+    { id: 'customer-notes', label: 'Credit & Debit Notes', icon: ReceiptText, roles: ['agency', 'superuser'] },
     { id: 'company-returns', label: 'Company Returns', icon: RotateCcw, roles: ['agency', 'superuser', 'agent'] },
     { id: 'purchase', label: 'Purchase', icon: Truck, roles: ['agency', 'superuser', 'agent'] },
     { id: 'inventory', label: 'Inventory', icon: Warehouse, roles: ['agency', 'superuser', 'agent'] },
@@ -66,6 +78,12 @@ const Sidebar = ({ user, activeModule, onModuleChange, isOpen, onToggle }: Sideb
     { id: 'agency-feature-access', label: 'Agency Features', icon: Settings, roles: ['superuser'] },
     { id: 'agency-pricing-configuration', label: 'Agency Pricing', icon: Settings, roles: ['superuser'] },
     { id: 'po-notification-settings', label: 'PO Notifications', icon: Bell, roles: ['superuser'] },
+    { id: 'sms-templates', label: 'SMS Templates', icon: MessageSquare, roles: ['superuser'] },
+    { id: 'sms-log', label: 'SMS Log', icon: Send, roles: ['superuser'] },
+    { id: 'grn-receiving', label: 'GRN Receiving', icon: PackageCheck, roles: ['agency', 'agent'] },
+    { id: 'grn-import', label: 'GRN Import', icon: FileInput, roles: ['superuser'] },
+    { id: 'grn-claims', label: 'GRN Claims', icon: ClipboardX, roles: ['superuser'] },
+    { id: 'product-matching', label: 'Product Matching', icon: GitMerge, roles: ['superuser'] },
     {
       id: 'reports',
       label: 'Reports & Analytics',
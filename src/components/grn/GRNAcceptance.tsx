@@ -1,23 +1,34 @@
 import { useState } from 'react';
 import { User } from '@/types/auth';
-import { GRN } from '@/types/grn';
+import { GRN, GRNDiscrepancyClaim, GRNItem } from '@/types/grn';
+import type { ScannedProduct } from '@/types/product';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { Check, X, FileText, Package } from 'lucide-react';
+import { Check, X, FileText, Package, ClipboardX } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import BarcodeScanButton from '@/components/camera/BarcodeScanButton';
+import { matchesScannedProduct } from '@/utils/barcodes';
+import { getGRNDiscrepancyClaim, receiveGRN, rejectGRN } from '@/utils/grnReceiving';
+import { notifyDeliveredPurchaseOrders } from '@/utils/purchaseOrderLifecycle';
 
 interface GRNAcceptanceProps {
   user: User;
   grns: GRN[];
-  onGRNProcessed: (grnId: string, action: 'accepted' | 'rejected', reason?: string) => void;
+  onGRNProcessed: (grnId: string, action: 'accepted' | 'partially_accepted' | 'rejected', reason?: string) => void;
 }
 
 const GRNAcceptance = ({ user, grns, onGRNProcessed }: GRNAcceptanceProps) => {
   const { toast } = useToast();
   const [selectedGRN, setSelectedGRN] = useState<GRN | null>(null);
   const [rejectionReason, setRejectionReason] = useState('');
+  const [scannedCounts, setScannedCounts] = useState<Record<string, number>>({});
+  const [receipts, setReceipts] = useState<Record<string, { received: string; damaged: string; notes: string }>>({});
+  const [receiptNotes, setReceiptNotes] = useState('');
+  const [claim, setClaim] = useState<GRNDiscrepancyClaim | null>(null);
+  const [processing, setProcessing] = useState(false);
 
   // Only show if user is agency or agent role and filter GRNs for current agency
   if (user.role !== 'agency' && user.role !== 'agent') {
@@ -39,16 +50,111 @@ const GRNAcceptance = ({ user, grns, onGRNProcessed }: GRNAcceptanceProps) => {
     grn.agencyId === user.agencyId && grn.status !== 'pending'
   );
 
-  const handleAccept = (grn: GRN) => {
-    onGRNProcessed(grn.id, 'accepted');
-    setSelectedGRN(null);
-    toast({
-      title: "GRN Accepted",
-      description: "Stock has been added to your inventory."
-    });
+  const openGRN = async (grn: GRN | null) => {
+    setSelectedGRN(grn);
+    setScannedCounts({});
+    setReceipts({});
+    setReceiptNotes('');
+    setClaim(null);
+
+    if (grn?.status === 'partially_accepted') {
+      try {
+        setClaim(await getGRNDiscrepancyClaim(grn.id));
+      } catch (error) {
+        console.error('Error loading discrepancy claim:', error);
+      }
+    }
+  };
+
+  // Until a received quantity is typed, scanned pieces (or else everything not marked damaged) count as received
+  const receiptFor = (item: GRNItem) => {
+    const entry = receipts[item.id];
+    const damaged = Number(entry?.damaged || 0);
+    const received = entry?.received
+      ? Number(entry.received)
+      : Object.keys(scannedCounts).length > 0
+        ? Math.min(scannedCounts[item.id] || 0, item.quantity - damaged)
+        : item.quantity - damaged;
+    return { received, damaged, short: item.quantity - received - damaged, notes: entry?.notes || '' };
+  };
+
+  const updateReceipt = (itemId: string, field: 'received' | 'damaged' | 'notes', value: string) => {
+    setReceipts(prev => ({
+      ...prev,
+      [itemId]: { received: '', damaged: '', notes: '', ...prev[itemId], [field]: value }
+    }));
   };
 
-  const handleReject = (grn: GRN) => {
+  // Scanning the delivered garments tallies them against the GRN lines before it is accepted
+  const handleScan = (scanned: ScannedProduct) => {
+    const item = selectedGRN?.items.find(grnItem => matchesScannedProduct(scanned, grnItem));
+    if (!item) {
+      toast({
+        title: "Not on this GRN",
+        description: `${scanned.product.name} (${scanned.color}, ${scanned.size}) is not one of the items to be received`,
+        variant: "destructive"
+      });
+      return;
+    }
+    setScannedCounts(prev => ({ ...prev, [item.id]: (prev[item.id] || 0) + 1 }));
+  };
+
+  const handleAccept = async (grn: GRN) => {
+    const lines = grn.items.map(item => ({ item, ...receiptFor(item) }));
+    const invalid = lines.find(line =>
+      line.received < 0 || line.damaged < 0 || line.short < 0 ||
+      !Number.isInteger(line.received) || !Number.isInteger(line.damaged)
+    );
+    if (invalid) {
+      toast({
+        title: "Check quantities",
+        description: `Received and damaged for ${invalid.item.productName} (${invalid.item.color}, ${invalid.item.size}) must add up to at most ${invalid.item.quantity}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const short = lines.reduce((sum, line) => sum + line.short, 0);
+    const damaged = lines.reduce((sum, line) => sum + line.damaged, 0);
+    if (short + damaged > 0 && !window.confirm(
+      `${short} pieces short and ${damaged} damaged. Accept the rest and raise a discrepancy claim with head office?`
+    )) return;
+
+    try {
+      setProcessing(true);
+      const claimId = await receiveGRN(
+        grn.id,
+        lines.map(line => ({
+          itemId: line.item.id,
+          receivedQuantity: line.received,
+          damagedQuantity: line.damaged,
+          conditionNotes: line.notes.trim() || undefined
+        })),
+        receiptNotes.trim()
+      );
+      onGRNProcessed(grn.id, claimId ? 'partially_accepted' : 'accepted');
+      // The GRN may complete a purchase order shipped against it
+      notifyDeliveredPurchaseOrders(grn.id);
+      openGRN(null);
+      toast({
+        title: claimId ? "GRN Partially Accepted" : "GRN Accepted",
+        description: claimId
+          ? "Received pieces have been added to your inventory and head office has been sent a discrepancy claim."
+          : "Stock has been added to your inventory."
+      });
+    } catch (error) {
+      console.error('Error receiving GRN:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to receive GRN",
+        variant: "destructive"
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleReject = async (grn: GRN) => {
     if (!rejectionReason.trim()) {
       toast({
         title: "Rejection reason required",
@@ -58,13 +164,26 @@ const GRNAcceptance = ({ user, grns, onGRNProcessed }: GRNAcceptanceProps) => {
       return;
     }
 
-    onGRNProcessed(grn.id, 'rejected', rejectionReason);
-    setSelectedGRN(null);
-    setRejectionReason('');
-    toast({
-      title: "GRN Rejected",
-      description: "Superuser has been notified of the rejection."
-    });
+    try {
+      setProcessing(true);
+      await rejectGRN(grn.id, rejectionReason.trim(), user.name);
+      onGRNProcessed(grn.id, 'rejected', rejectionReason);
+      openGRN(null);
+      setRejectionReason('');
+      toast({
+        title: "GRN Rejected",
+        description: "Superuser has been notified of the rejection."
+      });
+    } catch (error) {
+      console.error('Error rejecting GRN:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reject GRN",
+        variant: "destructive"
+      });
+    } finally {
+      setProcessing(false);
+    }
   };
 
   const getStatusBadge = (status: string) => {
@@ -73,6 +192,8 @@ const GRNAcceptance = ({ user, grns, onGRNProcessed }: GRNAcceptanceProps) => {
         return <Badge variant="secondary">Pending</Badge>;
       case 'accepted':
         return <Badge variant="default" className="bg-green-600">Accepted</Badge>;
+      case 'partially_accepted':
+        return <Badge variant="default" className="bg-orange-500">Partially Accepted</Badge>;
       case 'rejected':
         return <Badge variant="destructive">Rejected</Badge>;
       default:
@@ -81,12 +202,18 @@ const GRNAcceptance = ({ user, grns, onGRNProcessed }: GRNAcceptanceProps) => {
   };
 
   if (selectedGRN) {
+    const hasScans = Object.keys(scannedCounts).length > 0;
+    const isPending = selectedGRN.status === 'pending';
+    const showReceipt = isPending || selectedGRN.items.some(item => item.receivedQuantity !== undefined);
     return (
       <div className="space-y-6">
         <div className="flex items-center gap-3">
-          <Button variant="ghost" onClick={() => setSelectedGRN(null)}>
+          <Button variant="ghost" onClick={() => openGRN(null)}>
             ← Back to GRN List
           </Button>
+          {isPending && (
+            <BarcodeScanButton onScan={handleScan} className="ml-auto" />
+          )}
         </div>
 
         <Card>
@@ -114,36 +241,139 @@ const GRNAcceptance = ({ user, grns, onGRNProcessed }: GRNAcceptanceProps) => {
 
             {/* Items Table */}
             <div>
-              <h3 className="font-semibold mb-3">Items to be Received</h3>
-              <div className="border rounded-lg overflow-hidden">
+              <h3 className="font-semibold mb-3">{isPending ? 'Items to be Received' : 'Items'}</h3>
+              {isPending && (
+                <p className="text-sm text-gray-600 mb-3">
+                  Leave Received blank for lines that arrived in full. Damaged pieces are not added to stock.
+                </p>
+              )}
+              <div className="border rounded-lg overflow-x-auto">
                 <table className="w-full">
                   <thead className="bg-gray-50">
                     <tr>
                       <th className="text-left p-3">Product</th>
                       <th className="text-left p-3">Color/Size</th>
                       <th className="text-right p-3">Quantity</th>
+                      {hasScans && <th className="text-right p-3">Scanned</th>}
+                      {showReceipt && (
+                        <>
+                          <th className="text-right p-3">Received</th>
+                          <th className="text-right p-3">Damaged</th>
+                          <th className="text-right p-3">Short</th>
+                        </>
+                      )}
                       <th className="text-right p-3">Unit Price</th>
                       <th className="text-right p-3">Total</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {selectedGRN.items.map((item) => (
-                      <tr key={item.id} className="border-t">
-                        <td className="p-3">{item.productName}</td>
-                        <td className="p-3">{item.color}, {item.size}</td>
-                        <td className="p-3 text-right">{item.quantity}</td>
-                        <td className="p-3 text-right">LKR {item.unitPrice.toLocaleString()}</td>
-                        <td className="p-3 text-right">LKR {item.total.toLocaleString()}</td>
-                      </tr>
-                    ))}
+                    {selectedGRN.items.map((item) => {
+                      const receipt = isPending ? receiptFor(item) : null;
+                      return (
+                        <tr key={item.id} className="border-t">
+                          <td className="p-3">
+                            {item.productName}
+                            {receipt && (receipt.short > 0 || receipt.damaged > 0) && (
+                              <Input
+                                placeholder="Condition notes"
+                                value={receipt.notes}
+                                onChange={(e) => updateReceipt(item.id, 'notes', e.target.value)}
+                                className="mt-1 h-8 text-sm"
+                              />
+                            )}
+                            {!isPending && item.conditionNotes && (
+                              <p className="text-xs text-gray-500">{item.conditionNotes}</p>
+                            )}
+                          </td>
+                          <td className="p-3">{item.color}, {item.size}</td>
+                          <td className="p-3 text-right">{item.quantity}</td>
+                          {hasScans && (
+                            <td className={`p-3 text-right font-medium ${(scannedCounts[item.id] || 0) === item.quantity ? 'text-green-600' : 'text-orange-600'}`}>
+                              {scannedCounts[item.id] || 0}
+                            </td>
+                          )}
+                          {receipt ? (
+                            <>
+                              <td className="p-3 text-right">
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  inputMode="numeric"
+                                  aria-label="Received quantity"
+                                  value={receipts[item.id]?.received ?? ''}
+                                  placeholder={String(receipt.received)}
+                                  onChange={(e) => updateReceipt(item.id, 'received', e.target.value)}
+                                  className="w-20 h-8 ml-auto"
+                                />
+                              </td>
+                              <td className="p-3 text-right">
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  inputMode="numeric"
+                                  aria-label="Damaged quantity"
+                                  value={receipts[item.id]?.damaged ?? ''}
+                                  placeholder="0"
+                                  onChange={(e) => updateReceipt(item.id, 'damaged', e.target.value)}
+                                  className="w-20 h-8 ml-auto"
+                                />
+                              </td>
+                              <td className={`p-3 text-right font-medium ${receipt.short !== 0 ? 'text-red-600' : ''}`}>{receipt.short}</td>
+                            </>
+                          ) : showReceipt && (
+                            <>
+                              <td className="p-3 text-right">{item.receivedQuantity ?? '–'}</td>
+                              <td className={`p-3 text-right ${item.damagedQuantity ? 'text-orange-600 font-medium' : ''}`}>{item.damagedQuantity ?? '–'}</td>
+                              <td className={`p-3 text-right ${item.shortQuantity ? 'text-red-600 font-medium' : ''}`}>{item.shortQuantity ?? '–'}</td>
+                            </>
+                          )}
+                          <td className="p-3 text-right">LKR {item.unitPrice.toLocaleString()}</td>
+                          <td className="p-3 text-right">LKR {item.total.toLocaleString()}</td>
+                        </tr>
+                      );
+                    })}
                   </tbody>
                 </table>
               </div>
             </div>
 
+            {claim && (
+              <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
+                <h4 className="font-medium text-orange-800 mb-2 flex items-center gap-2">
+                  <ClipboardX className="h-4 w-4" />
+                  Discrepancy Claim {claim.claimNumber}
+                </h4>
+                <p className="text-sm text-orange-700">
+                  {claim.shortQuantity} short · {claim.damagedQuantity} damaged · LKR {claim.claimValue.toLocaleString()}
+                </p>
+                <p className="text-sm text-orange-700">
+                  {claim.status === 'open'
+                    ? 'Waiting for head office to send a credit note or replacement.'
+                    : claim.resolution === 'credit_note'
+                      ? `Resolved with credit note ${claim.resolutionReference ?? ''}`
+                      : claim.resolution === 'replacement'
+                        ? 'Resolved with a replacement delivery; it will appear as a new pending GRN.'
+                        : 'Closed by head office.'}
+                  {claim.resolutionNotes ? ` ${claim.resolutionNotes}` : ''}
+                </p>
+              </div>
+            )}
+
             {/* Actions */}
-            {selectedGRN.status === 'pending' && (
+            {isPending && (
               <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    Receipt Notes (sent with any discrepancy claim):
+                  </label>
+                  <Textarea
+                    placeholder="e.g. carton 3 of 5 missing, two pieces stained"
+                    value={receiptNotes}
+                    onChange={(e) => setReceiptNotes(e.target.value)}
+                    rows={2}
+                  />
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium mb-2">
                     Rejection Reason (if rejecting):
@@ -159,13 +389,15 @@ const GRNAcceptance = ({ user, grns, onGRNProcessed }: GRNAcceptanceProps) => {
                 <div className="flex gap-3">
                   <Button 
                     onClick={() => handleAccept(selectedGRN)}
+                    disabled={processing}
                     className="bg-green-600 hover:bg-green-700"
                   >
                     <Check className="h-4 w-4 mr-2" />
-                    Accept GRN & Add to Inventory
+                    Accept Received Items & Add to Inventory
                   </Button>
                   <Button 
                     onClick={() => handleReject(selectedGRN)}
+                    disabled={processing}
                     variant="destructive"
                   >
                     <X className="h-4 w-4 mr-2" />
@@ -219,7 +451,7 @@ const GRNAcceptance = ({ user, grns, onGRNProcessed }: GRNAcceptanceProps) => {
                   </div>
                   <Button 
                     size="sm" 
-                    onClick={() => setSelectedGRN(grn)}
+                    onClick={() => openGRN(grn)}
                     className="bg-blue-600 hover:bg-blue-700"
                   >
                     Review GRN
@@ -254,7 +486,7 @@ const GRNAcceptance = ({ user, grns, onGRNProcessed }: GRNAcceptanceProps) => {
                   <Button 
                     size="sm" 
                     variant="outline"
-                    onClick={() => setSelectedGRN(grn)}
+                    onClick={() => openGRN(grn)}
                   >
                     View Details
                   </Button>
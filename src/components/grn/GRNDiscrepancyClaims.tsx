@@ -0,0 +1,259 @@
+import { Fragment, useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { User } from '@/types/auth';
+import type { GRNClaimResolution, GRNDiscrepancyClaim, GRNItem } from '@/types/grn';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, ClipboardX, RefreshCw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getGRNDiscrepancyClaims, getGRNDiscrepancyItems, resolveGRNDiscrepancyClaim } from '@/utils/grnReceiving';
+
+interface GRNDiscrepancyClaimsProps {
+  user: User;
+  onBack: () => void;
+}
+
+const RESOLUTION_LABELS: Record<GRNClaimResolution, string> = {
+  credit_note: 'Credit note',
+  replacement: 'Replacement',
+  dismissed: 'Dismissed'
+};
+
+const GRNDiscrepancyClaims = ({ user, onBack }: GRNDiscrepancyClaimsProps) => {
+  const [claims, setClaims] = useState<GRNDiscrepancyClaim[]>([]);
+  const [statusFilter, setStatusFilter] = useState<'all' | GRNDiscrepancyClaim['status']>('open');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [items, setItems] = useState<GRNItem[]>([]);
+  const [creditNoteNumber, setCreditNoteNumber] = useState('');
+  const [resolutionNotes, setResolutionNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [resolving, setResolving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchClaims();
+  }, [statusFilter]);
+
+  const fetchClaims = async () => {
+    try {
+      setLoading(true);
+      setClaims(await getGRNDiscrepancyClaims({ status: statusFilter === 'all' ? undefined : statusFilter }));
+    } catch (error) {
+      console.error('Error fetching discrepancy claims:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load discrepancy claims.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleClaim = async (claim: GRNDiscrepancyClaim) => {
+    if (expandedId === claim.id) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(claim.id);
+    setItems([]);
+    setCreditNoteNumber('');
+    setResolutionNotes('');
+    try {
+      setItems(await getGRNDiscrepancyItems(claim.grnId));
+    } catch (error) {
+      console.error('Error fetching claim items:', error);
+    }
+  };
+
+  const handleResolve = async (claim: GRNDiscrepancyClaim, resolution: GRNClaimResolution) => {
+    if (resolution === 'replacement' && !window.confirm(
+      `Send ${claim.agencyName ?? 'the agency'} a new GRN for ${claim.shortQuantity + claim.damagedQuantity} pieces?`
+    )) return;
+
+    try {
+      setResolving(true);
+      await resolveGRNDiscrepancyClaim(claim.id, resolution, creditNoteNumber.trim(), resolutionNotes.trim());
+      toast({
+        title: 'Claim Resolved',
+        description: resolution === 'replacement'
+          ? `A replacement GRN has been sent for ${claim.claimNumber}.`
+          : `${claim.claimNumber} has been closed.`,
+      });
+      setExpandedId(null);
+      fetchClaims();
+    } catch (error) {
+      console.error('Error resolving claim:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to resolve claim.',
+        variant: 'destructive',
+      });
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  if (user.role !== 'superuser') {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600">Only superusers can resolve GRN discrepancy claims.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-4">
+      <Button variant="ghost" onClick={onBack} className="flex items-center gap-2">
+        <ArrowLeft className="h-4 w-4" /> Back
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardX className="h-5 w-5" />
+              GRN Discrepancy Claims
+            </CardTitle>
+            <Button variant="outline" size="sm" onClick={fetchClaims} disabled={loading} className="flex items-center gap-2">
+              <RefreshCw className="h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Raised when an agency receives a GRN with pieces short or damaged. Settle each one with a credit note or a replacement delivery.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+            <SelectTrigger className="sm:w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="resolved">Resolved</SelectItem>
+              <SelectItem value="all">All claims</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : claims.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No claims found.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Claim</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Agency</TableHead>
+                  <TableHead>GRN</TableHead>
+                  <TableHead className="text-right">Short</TableHead>
+                  <TableHead className="text-right">Damaged</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {claims.map((claim) => (
+                  <Fragment key={claim.id}>
+                    <TableRow className="cursor-pointer" onClick={() => toggleClaim(claim)}>
+                      <TableCell className="font-medium">{claim.claimNumber}</TableCell>
+                      <TableCell className="whitespace-nowrap text-xs">{format(claim.createdAt, 'dd MMM yyyy')}</TableCell>
+                      <TableCell className="text-xs">{claim.agencyName ?? '-'}</TableCell>
+                      <TableCell className="text-xs">{claim.grnReference ?? claim.grnId}</TableCell>
+                      <TableCell className="text-right">{claim.shortQuantity}</TableCell>
+                      <TableCell className="text-right">{claim.damagedQuantity}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">LKR {claim.claimValue.toLocaleString()}</TableCell>
+                      <TableCell>
+                        {claim.status === 'open' ? (
+                          <Badge variant="secondary" className="text-orange-600 bg-orange-50 border-orange-200">Open</Badge>
+                        ) : (
+                          <Badge className="bg-green-100 text-green-700 border-green-200">
+                            {claim.resolution ? RESOLUTION_LABELS[claim.resolution] : 'Resolved'}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                    {expandedId === claim.id && (
+                      <TableRow className="bg-slate-50 hover:bg-slate-50">
+                        <TableCell colSpan={8} className="space-y-3 text-sm">
+                          {claim.notes && <p><strong>Agency notes:</strong> {claim.notes}</p>}
+                          {claim.raisedByName && <p className="text-xs text-gray-500">Raised by {claim.raisedByName}</p>}
+
+                          <div className="space-y-1">
+                            {items.map(item => (
+                              <div key={item.id} className="flex flex-wrap justify-between gap-2 border-t pt-1 text-xs">
+                                <span>
+                                  {item.productName} ({item.color}, {item.size})
+                                  {item.conditionNotes ? ` · ${item.conditionNotes}` : ''}
+                                </span>
+                                <span>
+                                  {item.quantity} invoiced · {item.receivedQuantity ?? 0} received
+                                  {item.damagedQuantity ? ` · ${item.damagedQuantity} damaged` : ''}
+                                  {item.shortQuantity ? ` · ${item.shortQuantity} short` : ''}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+
+                          {claim.status === 'open' ? (
+                            <div className="space-y-2 border-t pt-3">
+                              <div className="flex flex-col sm:flex-row gap-2">
+                                <Input
+                                  placeholder="Credit note number"
+                                  value={creditNoteNumber}
+                                  onChange={(e) => setCreditNoteNumber(e.target.value)}
+                                  className="sm:max-w-xs"
+                                />
+                                <Input
+                                  placeholder="Notes for the agency"
+                                  value={resolutionNotes}
+                                  onChange={(e) => setResolutionNotes(e.target.value)}
+                                />
+                              </div>
+                              <div className="flex flex-wrap gap-2">
+                                <Button
+                                  size="sm"
+                                  onClick={() => handleResolve(claim, 'credit_note')}
+                                  disabled={resolving || !creditNoteNumber.trim()}
+                                >
+                                  Resolve with credit note
+                                </Button>
+                                <Button size="sm" variant="outline" onClick={() => handleResolve(claim, 'replacement')} disabled={resolving}>
+                                  Send replacement GRN
+                                </Button>
+                                <Button size="sm" variant="ghost" onClick={() => handleResolve(claim, 'dismissed')} disabled={resolving}>
+                                  Dismiss
+                                </Button>
+                              </div>
+                            </div>
+                          ) : (
+                            <p className="border-t pt-2 text-xs text-gray-600">
+                              {claim.resolution ? RESOLUTION_LABELS[claim.resolution] : 'Resolved'}
+                              {claim.resolution === 'credit_note' && claim.resolutionReference ? ` ${claim.resolutionReference}` : ''}
+                              {claim.resolvedByName ? ` by ${claim.resolvedByName}` : ''}
+                              {claim.resolvedAt ? ` on ${format(claim.resolvedAt, 'dd MMM yyyy')}` : ''}
+                              {claim.resolutionNotes ? `: ${claim.resolutionNotes}` : ''}
+                            </p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default GRNDiscrepancyClaims;
@@ -0,0 +1,52 @@
+import { User } from '@/types/auth';
+import type { GRNItem } from '@/types/grn';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, FileInput } from 'lucide-react';
+import { createGRN } from '@/utils/grnImport';
+import OdooGRNImport from './OdooGRNImport';
+import GRNUpload from './GRNUpload';
+
+interface GRNImportProps {
+  user: User;
+  onBack: () => void;
+}
+
+const GRNImport = ({ user, onBack }: GRNImportProps) => {
+  const handleUploadedGRN = async (grn: { agencyId: string; invoiceId: string; invoiceFileName: string; items: GRNItem[] }) => {
+    await createGRN({
+      agencyId: grn.agencyId,
+      invoiceId: grn.invoiceId,
+      invoiceFileName: grn.invoiceFileName,
+      items: grn.items
+    });
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      <Button variant="ghost" onClick={onBack} className="flex items-center gap-2">
+        <ArrowLeft className="h-4 w-4" /> Back
+      </Button>
+
+      <h2 className="flex items-center gap-2 text-xl font-semibold">
+        <FileInput className="h-5 w-5" />
+        GRN Import
+      </h2>
+
+      <Tabs defaultValue="odoo">
+        <TabsList>
+          <TabsTrigger value="odoo">Odoo invoice</TabsTrigger>
+          <TabsTrigger value="upload">Other supplier (OCR)</TabsTrigger>
+        </TabsList>
+        <TabsContent value="odoo">
+          <OdooGRNImport user={user} />
+        </TabsContent>
+        <TabsContent value="upload">
+          <GRNUpload user={user} onGRNCreated={handleUploadedGRN} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default GRNImport;
@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import { User } from '@/types/auth';
+import type { GRN } from '@/types/grn';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, RefreshCw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getAgencyGRNs } from '@/utils/grnReceiving';
+import GRNAcceptance from './GRNAcceptance';
+
+interface GRNReceivingProps {
+  user: User;
+  onBack: () => void;
+}
+
+const GRNReceiving = ({ user, onBack }: GRNReceivingProps) => {
+  const { toast } = useToast();
+  const [grns, setGRNs] = useState<GRN[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchGRNs = useCallback(async () => {
+    if (!user.agencyId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setGRNs(await getAgencyGRNs(user.agencyId));
+    } catch (error) {
+      console.error('Error fetching GRNs:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load GRNs',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user.agencyId, toast]);
+
+  useEffect(() => {
+    fetchGRNs();
+  }, [fetchGRNs]);
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="ghost" onClick={onBack} className="flex items-center gap-2">
+          <ArrowLeft className="h-4 w-4" /> Back
+        </Button>
+        <Button variant="outline" size="sm" onClick={fetchGRNs} disabled={loading} className="flex items-center gap-2">
+          <RefreshCw className="h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-center py-8 text-muted-foreground">Loading GRNs...</p>
+      ) : (
+        <GRNAcceptance user={user} grns={grns} onGRNProcessed={() => fetchGRNs()} />
+      )}
+    </div>
+  );
+};
+
+export default GRNReceiving;
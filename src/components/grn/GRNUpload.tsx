@@ -13,12 +13,13 @@ import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import GoogleVisionService from '@/services/googleVisionService';
 import { InvoiceParser } from '@/utils/invoiceParser';
+import { getProductMappings, matchExternalProducts } from '@/utils/productMappings';
 import APIKeyInput from './APIKeyInput';
 import EnhancedGRNItem from './EnhancedGRNItem';
 
 interface GRNUploadProps {
   user: User;
-  onGRNCreated: (grn: any) => void;
+  onGRNCreated: (grn: any) => Promise<void>;
 }
 
 interface Agency {
@@ -110,8 +111,9 @@ const GRNUpload = ({ user, onGRNCreated }: GRNUploadProps) => {
       
       setProducts(productData);
       
-      // Set product master in InvoiceParser for enhanced matching
+      // Set product master and confirmed mappings in InvoiceParser for enhanced matching
       InvoiceParser.setProductMaster(productData);
+      InvoiceParser.setProductMappings(await getProductMappings('invoice_ocr'));
       console.log(`Loaded ${productData.length} products for enhanced product matching`);
       
     } catch (error) {
@@ -185,6 +187,10 @@ const GRNUpload = ({ user, onGRNCreated }: GRNUploadProps) => {
       // Parse with enhanced product matching
       const parsedData = InvoiceParser.parseOCRText(ocrResult.extractedText);
       
+      // Queue guessed matches for review so they can be confirmed once
+      matchExternalProducts('invoice_ocr', InvoiceParser.takeUnconfirmedProducts())
+        .catch(error => console.error('Error queueing product matches for review:', error));
+      
       if (parsedData.items.length > 0) {
         setItems(parsedData.items);
         toast({
@@ -254,7 +260,7 @@ const GRNUpload = ({ user, onGRNCreated }: GRNUploadProps) => {
     setItems(items.filter((_, i) => i !== index));
   };
 
-  const handleSubmit = () => {
+  const handleSubmit = async () => {
     if (!selectedFile || !selectedAgency || items.length === 0) {
       toast({
         title: "Missing information",
@@ -281,7 +287,17 @@ const GRNUpload = ({ user, onGRNCreated }: GRNUploadProps) => {
       createdAt: new Date()
     };
 
-    onGRNCreated(grn);
+    try {
+      await onGRNCreated(grn);
+    } catch (error) {
+      console.error('Error creating GRN:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create GRN",
+        variant: "destructive"
+      });
+      return;
+    }
     
     // Reset form
     setSelectedFile(null);
@@ -307,7 +323,10 @@ const GRNUpload = ({ user, onGRNCreated }: GRNUploadProps) => {
 
       <Card>
         <CardHeader>
-          <CardTitle>Enhanced OCR Invoice Processing & GRN Creation</CardTitle>
+          <CardTitle>Other Supplier Invoice (OCR)</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            For suppliers outside Odoo. Odoo invoices should be imported from the Odoo tab instead.
+          </p>
         </CardHeader>
         <CardContent className="space-y-6">
           {/* File Upload */}
@@ -0,0 +1,518 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { User } from '@/types/auth';
+import type { OdooGRNLine } from '@/types/grn';
+import type { Product, ProductMatch } from '@/types/product';
+import type { OdooInvoice, OdooPartner } from '@/services/odoo.service';
+import odooService from '@/services/odoo.service';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Link2, RefreshCw, Search } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  createGRN,
+  getAgencyOdooPartnerId,
+  getImportedOdooMoveIds,
+  getOdooInvoiceGRNLines,
+  setAgencyOdooPartnerId,
+} from '@/utils/grnImport';
+import { reviewProductMappings, saveProductMapping } from '@/utils/productMappings';
+
+interface OdooGRNImportProps {
+  user: User;
+}
+
+interface Agency {
+  id: string;
+  name: string;
+}
+
+interface MappingDraft {
+  productId: string;
+  color: string;
+  size: string;
+}
+
+const OdooGRNImport = ({ user }: OdooGRNImportProps) => {
+  const [agencies, setAgencies] = useState<Agency[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [agencyId, setAgencyId] = useState('');
+  const [partnerId, setPartnerId] = useState<number | null>(null);
+  const [partnerQuery, setPartnerQuery] = useState('');
+  const [partners, setPartners] = useState<OdooPartner[]>([]);
+  const [invoices, setInvoices] = useState<OdooInvoice[]>([]);
+  const [importedIds, setImportedIds] = useState<Set<number>>(new Set());
+  const [selectedInvoice, setSelectedInvoice] = useState<OdooInvoice | null>(null);
+  const [lines, setLines] = useState<OdooGRNLine[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, MappingDraft>>({});
+  const [loadingInvoices, setLoadingInvoices] = useState(false);
+  const [loadingLines, setLoadingLines] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchAgencies();
+    fetchProducts();
+  }, []);
+
+  useEffect(() => {
+    setPartnerId(null);
+    setPartners([]);
+    setInvoices([]);
+    setSelectedInvoice(null);
+    setLines([]);
+    if (agencyId) loadPartner(agencyId);
+  }, [agencyId]);
+
+  const showError = (description: string, error: unknown) => {
+    console.error(description, error);
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : description,
+      variant: 'destructive',
+    });
+  };
+
+  const fetchAgencies = async () => {
+    try {
+      const { data, error } = await supabase.from('agencies').select('id, name').order('name');
+      if (error) throw error;
+      setAgencies(data || []);
+    } catch (error) {
+      showError('Failed to load agencies.', error);
+    }
+  };
+
+  const fetchProducts = async () => {
+    try {
+      const { data, error } = await supabase.from('products').select('*').order('name');
+      if (error) throw error;
+      setProducts((data || []).map(item => ({
+        id: item.id,
+        name: item.name,
+        category: item.category,
+        subCategory: item.sub_category || '',
+        colors: item.colors || [],
+        sizes: item.sizes || [],
+        sellingPrice: item.selling_price,
+        billingPrice: item.billing_price,
+        image: item.image || '',
+        description: item.description || '',
+      })));
+    } catch (error) {
+      showError('Failed to load products.', error);
+    }
+  };
+
+  const loadPartner = async (id: string) => {
+    try {
+      const linkedPartnerId = await getAgencyOdooPartnerId(id);
+      setPartnerId(linkedPartnerId);
+      setPartnerQuery(agencies.find(agency => agency.id === id)?.name || '');
+      if (linkedPartnerId) fetchInvoices(linkedPartnerId);
+    } catch (error) {
+      showError('Failed to load the agency\'s Odoo partner.', error);
+    }
+  };
+
+  const searchPartners = async () => {
+    if (!partnerQuery.trim()) return;
+    try {
+      setPartners(await odooService.searchPartners(partnerQuery.trim()));
+    } catch (error) {
+      showError('Failed to search Odoo partners.', error);
+    }
+  };
+
+  const linkPartner = async (partner: OdooPartner) => {
+    try {
+      await setAgencyOdooPartnerId(agencyId, partner.id);
+      setPartnerId(partner.id);
+      setPartners([]);
+      toast({
+        title: 'Partner Linked',
+        description: `Invoices to ${partner.name} will be offered for this agency.`,
+      });
+      fetchInvoices(partner.id);
+    } catch (error) {
+      showError('Failed to link the Odoo partner.', error);
+    }
+  };
+
+  const fetchInvoices = async (id: number) => {
+    try {
+      setLoadingInvoices(true);
+      const partnerInvoices = await odooService.getPostedInvoicesForPartner(id);
+      setImportedIds(await getImportedOdooMoveIds(partnerInvoices.map(invoice => invoice.id)));
+      setInvoices(partnerInvoices);
+    } catch (error) {
+      showError('Failed to load Odoo invoices.', error);
+    } finally {
+      setLoadingInvoices(false);
+    }
+  };
+
+  const openInvoice = async (invoice: OdooInvoice) => {
+    try {
+      setSelectedInvoice(invoice);
+      setLines([]);
+      setDrafts({});
+      setLoadingLines(true);
+      setLines(await getOdooInvoiceGRNLines(invoice.id));
+    } catch (error) {
+      showError('Failed to load invoice lines.', error);
+    } finally {
+      setLoadingLines(false);
+    }
+  };
+
+  const updateDraft = (odooProductId: number, changes: Partial<MappingDraft>) => {
+    setDrafts(prev => {
+      const draft = { productId: '', color: '', size: '', ...prev[odooProductId], ...changes };
+      if (changes.productId !== undefined) {
+        const product = products.find(p => p.id === changes.productId);
+        draft.color = product?.colors[0] || 'Default';
+        draft.size = product?.sizes[0] || 'Default';
+      }
+      return { ...prev, [odooProductId]: draft };
+    });
+  };
+
+  const editMapping = (line: OdooGRNLine) => {
+    setDrafts(prev => ({
+      ...prev,
+      [line.odooProductId]: {
+        productId: line.match?.productId || '',
+        color: line.match?.color || '',
+        size: line.match?.size || ''
+      }
+    }));
+  };
+
+  // Every line of the same Odoo product shares the match
+  const applyMatch = (odooProductId: number, match: ProductMatch) => {
+    setLines(prev => prev.map(l => l.odooProductId === odooProductId ? { ...l, match } : l));
+  };
+
+  const confirmSuggestion = async (line: OdooGRNLine) => {
+    if (!line.match) return;
+    try {
+      await reviewProductMappings([line.match.mappingId], 'confirm');
+      applyMatch(line.odooProductId, { ...line.match, status: 'confirmed', confidence: 1 });
+    } catch (error) {
+      showError('Failed to confirm the suggested product.', error);
+    }
+  };
+
+  const saveMapping = async (line: OdooGRNLine) => {
+    const draft = drafts[line.odooProductId];
+    if (!draft?.productId) return;
+
+    try {
+      const mapping = await saveProductMapping({
+        source: 'odoo',
+        externalKey: String(line.odooProductId),
+        externalName: line.odooProductName,
+        productId: draft.productId,
+        color: draft.color,
+        size: draft.size
+      });
+      applyMatch(line.odooProductId, {
+        mappingId: mapping.id,
+        status: mapping.status,
+        productId: mapping.productId,
+        productName: mapping.productName,
+        color: mapping.color,
+        size: mapping.size,
+        confidence: mapping.confidence
+      });
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[line.odooProductId];
+        return next;
+      });
+    } catch (error) {
+      showError('Failed to save the product mapping.', error);
+    }
+  };
+
+  const handleCreateGRN = async () => {
+    if (!selectedInvoice) return;
+    if (lines.some(line => line.match?.status !== 'confirmed' || !line.match.productName)) {
+      toast({
+        title: 'Unmapped Products',
+        description: 'Map every Odoo product to one of ours before creating the GRN.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await createGRN({
+        agencyId,
+        invoiceId: selectedInvoice.name,
+        invoiceFileName: selectedInvoice.name,
+        odooMoveId: selectedInvoice.id,
+        items: lines.map(line => ({
+          productName: line.match!.productName!,
+          color: line.match!.color,
+          size: line.match!.size,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          total: line.total
+        }))
+      });
+      toast({
+        title: 'GRN Created',
+        description: `${selectedInvoice.name} has been sent to ${agencies.find(a => a.id === agencyId)?.name} for receiving.`,
+      });
+      setImportedIds(prev => new Set(prev).add(selectedInvoice.id));
+      setSelectedInvoice(null);
+      setLines([]);
+    } catch (error) {
+      showError('Failed to create the GRN.', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (user.role !== 'superuser') {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600">Only superusers can import GRNs.</p>
+      </div>
+    );
+  }
+
+  const unmappedCount = lines.filter(line => line.match?.status !== 'confirmed').length;
+  const totalQuantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const totalValue = lines.reduce((sum, line) => sum + line.total, 0);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Odoo Invoice</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Pick a posted Odoo invoice for the agency. Its lines become a pending GRN the agency receives as usual.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1">
+            <Label>Agency</Label>
+            <Select value={agencyId} onValueChange={setAgencyId}>
+              <SelectTrigger className="sm:max-w-sm">
+                <SelectValue placeholder="Select agency" />
+              </SelectTrigger>
+              <SelectContent>
+                {agencies.map(agency => (
+                  <SelectItem key={agency.id} value={agency.id}>{agency.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {agencyId && !partnerId && (
+            <div className="space-y-2 rounded-md border p-3">
+              <p className="text-sm">This agency is not linked to an Odoo partner yet.</p>
+              <div className="flex gap-2 sm:max-w-md">
+                <Input
+                  value={partnerQuery}
+                  onChange={(e) => setPartnerQuery(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && searchPartners()}
+                  placeholder="Partner name or email"
+                />
+                <Button variant="outline" onClick={searchPartners} className="flex items-center gap-2">
+                  <Search className="h-4 w-4" /> Search
+                </Button>
+              </div>
+              {partners.map(partner => (
+                <div key={partner.id} className="flex items-center justify-between gap-2 border-t pt-2 text-sm">
+                  <span>
+                    {partner.name}
+                    {partner.email ? <span className="text-xs text-gray-500"> · {partner.email}</span> : null}
+                  </span>
+                  <Button size="sm" variant="outline" onClick={() => linkPartner(partner)} className="flex items-center gap-1">
+                    <Link2 className="h-3 w-3" /> Link
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {partnerId && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium">Posted invoices</p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fetchInvoices(partnerId)}
+                  disabled={loadingInvoices}
+                  className="flex items-center gap-2"
+                >
+                  <RefreshCw className="h-4 w-4" /> Refresh
+                </Button>
+              </div>
+              {loadingInvoices ? (
+                <p className="text-sm text-muted-foreground">Loading...</p>
+              ) : invoices.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No posted invoices for this partner.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Invoice</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invoices.map(invoice => (
+                      <TableRow key={invoice.id} className={selectedInvoice?.id === invoice.id ? 'bg-blue-50' : undefined}>
+                        <TableCell className="font-medium">{invoice.name}</TableCell>
+                        <TableCell className="text-xs whitespace-nowrap">
+                          {invoice.invoice_date ? format(new Date(invoice.invoice_date), 'dd MMM yyyy') : '-'}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">LKR {invoice.amount_total.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">
+                          {importedIds.has(invoice.id) ? (
+                            <Badge className="bg-green-100 text-green-700 border-green-200">Imported</Badge>
+                          ) : (
+                            <Button size="sm" variant="outline" onClick={() => openInvoice(invoice)}>Open</Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedInvoice && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{selectedInvoice.name}</CardTitle>
+            {unmappedCount > 0 && (
+              <p className="text-sm text-orange-600">
+                {unmappedCount} line(s) use Odoo products without a confirmed match. Matches are remembered for later invoices.
+              </p>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loadingLines ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Odoo product</TableHead>
+                    <TableHead>Our product</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Unit price</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map(line => {
+                    const draft = drafts[line.odooProductId];
+                    const draftProduct = products.find(p => p.id === draft?.productId);
+                    return (
+                      <TableRow key={line.odooLineId}>
+                        <TableCell className="text-xs">{line.odooProductName}</TableCell>
+                        <TableCell className="text-xs">
+                          {draft ? (
+                            <div className="flex flex-wrap items-center gap-2">
+                              <Select value={draft.productId} onValueChange={(value) => updateDraft(line.odooProductId, { productId: value })}>
+                                <SelectTrigger className="h-8 w-48">
+                                  <SelectValue placeholder="Product" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {products.map(product => (
+                                    <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              {draftProduct && draftProduct.colors.length > 0 && (
+                                <Select value={draft.color} onValueChange={(value) => updateDraft(line.odooProductId, { color: value })}>
+                                  <SelectTrigger className="h-8 w-28">
+                                    <SelectValue placeholder="Color" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {draftProduct.colors.map(color => (
+                                      <SelectItem key={color} value={color}>{color}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              )}
+                              {draftProduct && draftProduct.sizes.length > 0 && (
+                                <Select value={draft.size} onValueChange={(value) => updateDraft(line.odooProductId, { size: value })}>
+                                  <SelectTrigger className="h-8 w-24">
+                                    <SelectValue placeholder="Size" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {draftProduct.sizes.map(size => (
+                                      <SelectItem key={size} value={size}>{size}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              )}
+                              <Button size="sm" onClick={() => saveMapping(line)} disabled={!draft.productId}>Save</Button>
+                            </div>
+                          ) : line.match?.status === 'confirmed' ? (
+                            <button type="button" className="text-left hover:underline" onClick={() => editMapping(line)}>
+                              {line.match.productName} ({line.match.color}, {line.match.size})
+                            </button>
+                          ) : line.match?.status === 'suggested' && line.match.productId ? (
+                            <div className="flex flex-wrap items-center gap-2">
+                              <span className="text-orange-600">
+                                {line.match.productName} ({line.match.color}, {line.match.size}) · {Math.round(line.match.confidence * 100)}%
+                              </span>
+                              <Button size="sm" variant="outline" onClick={() => confirmSuggestion(line)}>Confirm</Button>
+                              <Button size="sm" variant="ghost" onClick={() => editMapping(line)}>Change</Button>
+                            </div>
+                          ) : (
+                            <Button size="sm" variant="outline" onClick={() => editMapping(line)}>Map product</Button>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{line.quantity}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">LKR {line.unitPrice.toLocaleString()}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">LKR {line.total.toLocaleString()}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-2 border-t pt-3">
+              <p className="text-sm font-medium">
+                {totalQuantity} pieces · LKR {totalValue.toLocaleString()} before tax
+              </p>
+              <Button
+                onClick={handleCreateGRN}
+                disabled={saving || loadingLines || lines.length === 0 || unmappedCount > 0}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                Create GRN & Assign to Agency
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default OdooGRNImport;
@@ -8,15 +8,18 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Package, Search, AlertTriangle, TrendingDown, Plus, ExternalLink, ArrowDown, ArrowUp, RefreshCw, Settings, BarChart3, ChevronRight, Folder, FolderOpen, Globe, Database, CloudLightning, ClipboardList, History, Trash2 } from 'lucide-react';
+import { Package, Search, AlertTriangle, TrendingDown, Plus, ExternalLink, ArrowDown, ArrowUp, RefreshCw, Settings, BarChart3, ChevronRight, Folder, FolderOpen, Globe, Database, CloudLightning, ClipboardList, ClipboardCheck, ArrowRightLeft, History, Trash2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { externalInventoryService, ExternalInventoryItem, ExternalInventoryTransaction, ExternalInventoryMetrics } from '@/services/external-inventory.service';
 import { externalBotSyncService } from '@/services/external-bot-sync';
 import SimpleBulkStockAdjustment from './SimpleBulkStockAdjustment';
+import StockTake from './StockTake';
+import StockTransfers from './StockTransfers';
 import SingleTableStockApproval from './SingleTableStockApproval';
 import ExternalStockAdjustmentHistory from './ExternalStockAdjustmentHistory';
 import SyncStatusDashboard from './SyncStatusDashboard';
+import StockBalanceReconciliation from './StockBalanceReconciliation';
 
 interface ExternalInventoryProps {
   user: User;
@@ -46,6 +49,8 @@ const ExternalInventory = ({ user }: ExternalInventoryProps) => {
   const [externalSyncing, setExternalSyncing] = useState(false);
   const [odooSyncing, setOdooSyncing] = useState(false);
   const [showBulkAdjustment, setShowBulkAdjustment] = useState(false);
+  const [showStockTake, setShowStockTake] = useState(false);
+  const [showTransfers, setShowTransfers] = useState(false);
   const [showApprovals, setShowApprovals] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const [showAdjustmentStatus, setShowAdjustmentStatus] = useState(false);
@@ -94,7 +99,7 @@ const ExternalInventory = ({ user }: ExternalInventoryProps) => {
       
       let matchesStockFilter = true;
       if (stockFilter === 'low') {
-        matchesStockFilter = item.current_stock > 0 && item.current_stock <= 5;
+        matchesStockFilter = item.stock_status === 'low_stock';
       } else if (stockFilter === 'out') {
         matchesStockFilter = item.current_stock <= 0;
       } else if (stockFilter === 'in-stock') {
@@ -190,11 +195,11 @@ const ExternalInventory = ({ user }: ExternalInventoryProps) => {
       }
       
       stats[category].total += 1;
-      stats[category].totalValue += item.current_stock * (item.avg_unit_price || 0);
+      stats[category].totalValue += item.total_value ?? item.current_stock * (item.avg_unit_price || 0);
       
       if (item.current_stock <= 0) {
         stats[category].outOfStock += 1;
-      } else if (item.current_stock <= 5) {
+      } else if (item.stock_status === 'low_stock') {
         stats[category].lowStock += 1;
       }
     });
@@ -212,7 +217,7 @@ const ExternalInventory = ({ user }: ExternalInventoryProps) => {
   const overallStats = useMemo(() => {
     const totalItems = inventoryItems.length;
     const inStock = inventoryItems.filter(item => item.current_stock > 0).length;
-    const lowStock = inventoryItems.filter(item => item.current_stock > 0 && item.current_stock <= 5).length;
+    const lowStock = inventoryItems.filter(item => item.stock_status === 'low_stock').length;
     const outOfStock = inventoryItems.filter(item => item.current_stock <= 0).length;
     
     return { totalItems, inStock, lowStock, outOfStock };
@@ -221,7 +226,7 @@ const ExternalInventory = ({ user }: ExternalInventoryProps) => {
   const getStockStatus = (item: ExternalInventoryItem) => {
     if (item.current_stock <= 0) {
       return { status: 'Out of Stock', variant: 'destructive' as const, icon: AlertTriangle };
-    } else if (item.current_stock <= 5) {
+    } else if (item.stock_status === 'low_stock') {
       return { status: 'Low Stock', variant: 'secondary' as const, icon: TrendingDown };
     } else {
       return { status: 'In Stock', variant: 'default' as const, icon: Package };
@@ -316,20 +321,16 @@ const ExternalInventory = ({ user }: ExternalInventoryProps) => {
         ? externalInventoryService.getAgencyCategories(agencyIdToUse)
         : externalInventoryService.getCategories(user.id);
 
-      const metricsPromise = user.role === 'superuser'
-        ? externalInventoryService.getAgencyInventoryMetrics(agencyIdToUse)
-        : externalInventoryService.getInventoryMetrics(user.id);
-
-      const [itemsData, transactionsData, metricsData, categoriesData] = await Promise.all([
+      const [itemsData, transactionsData, categoriesData] = await Promise.all([
         stockSummaryPromise,
         externalInventoryService.getTransactionHistory(agencyIdToUse, 50),
-        metricsPromise,
         categoriesPromise
       ]);
 
       setInventoryItems(itemsData);
       setTransactions(transactionsData);
-      setMetrics(metricsData);
+      // Metrics come from the same stock balances rather than a second load
+      setMetrics(externalInventoryService.calculateInventoryMetrics(itemsData));
       setCategories(categoriesData);
       
       if (forceRefresh) {
@@ -730,6 +731,24 @@ const ExternalInventory = ({ user }: ExternalInventoryProps) => {
                 Stock Count
               </Button>
 
+              <Button 
+                onClick={() => setShowStockTake(true)}
+                variant="outline"
+                className="bg-blue-50 hover:bg-blue-100 text-blue-700"
+              >
+                <ClipboardCheck className="h-4 w-4 mr-2" />
+                Stock Take
+              </Button>
+
+              <Button 
+                onClick={() => setShowTransfers(true)}
+                variant="outline"
+                className="bg-teal-50 hover:bg-teal-100 text-teal-700"
+              >
+                <ArrowRightLeft className="h-4 w-4 mr-2" />
+                Transfers
+              </Button>
+
               <Button 
                 onClick={() => setShowApprovals(true)}
                 variant="outline"
@@ -759,6 +778,24 @@ const ExternalInventory = ({ user }: ExternalInventoryProps) => {
                 Stock Count
               </Button>
 
+              <Button 
+                onClick={() => setShowStockTake(true)}
+                variant="outline"
+                className="bg-blue-50 hover:bg-blue-100 text-blue-700"
+              >
+                <ClipboardCheck className="h-4 w-4 mr-2" />
+                Stock Take
+              </Button>
+
+              <Button 
+                onClick={() => setShowTransfers(true)}
+                variant="outline"
+                className="bg-teal-50 hover:bg-teal-100 text-teal-700"
+              >
+                <ArrowRightLeft className="h-4 w-4 mr-2" />
+                Transfers
+              </Button>
+
               <Button 
                 onClick={() => setShowHistory(true)}
                 variant="outline"
@@ -1093,7 +1130,14 @@ const ExternalInventory = ({ user }: ExternalInventoryProps) => {
                                   <p className="text-sm text-gray-600">Current Stock</p>
                                   <p className="text-lg font-semibold">{item.current_stock}</p>
                                 </div>
-                                
+
+                                {item.min_stock != null && (
+                                  <div className="text-center">
+                                    <p className="text-sm text-gray-600">Min / Max</p>
+                                    <p className="text-lg">{item.min_stock} / {item.max_stock}</p>
+                                  </div>
+                                )}
+
                                 <div className="text-center">
                                   <p className="text-sm text-gray-600">Stock IN</p>
                                   <p className="text-lg text-green-600">{item.total_stock_in}</p>
@@ -1111,7 +1155,7 @@ const ExternalInventory = ({ user }: ExternalInventoryProps) => {
                                 
                                 <div className="text-center">
                                   <p className="text-sm text-gray-600">Total Value</p>
-                                  <p className="text-lg font-semibold">LKR {(item.current_stock * (item.avg_unit_price || 0)).toLocaleString()}</p>
+                                  <p className="text-lg font-semibold">LKR {(item.total_value ?? item.current_stock * (item.avg_unit_price || 0)).toLocaleString()}</p>
                                 </div>
 
                                 <Badge variant={stockStatus.variant}>
@@ -1223,7 +1267,7 @@ const ExternalInventory = ({ user }: ExternalInventoryProps) => {
                                     
                                     <div className="text-center">
                                       <p className="text-sm text-gray-600">Total Value</p>
-                                      <p className="text-lg font-semibold">LKR {(item.current_stock * (item.avg_unit_price || 0)).toLocaleString()}</p>
+                                      <p className="text-lg font-semibold">LKR {(item.total_value ?? item.current_stock * (item.avg_unit_price || 0)).toLocaleString()}</p>
                                     </div>
 
                                     <Badge variant={stockStatus.variant}>
@@ -1458,6 +1502,10 @@ const ExternalInventory = ({ user }: ExternalInventoryProps) => {
               onRefresh={() => fetchData(true)} 
               onGlobalSync={handleGlobalSync}
             />
+            <StockBalanceReconciliation
+              agencyId={selectedAgencyId || undefined}
+              onRepaired={() => fetchData(true)}
+            />
           </TabsContent>
         )}
       </Tabs>
@@ -1478,6 +1526,24 @@ const ExternalInventory = ({ user }: ExternalInventoryProps) => {
         />
       )}
 
+      {showStockTake && (
+        <StockTake
+          user={user}
+          selectedAgencyId={selectedAgencyId}
+          onClose={() => setShowStockTake(false)}
+          onSubmitted={() => fetchData(true)}
+        />
+      )}
+
+      {showTransfers && (
+        <StockTransfers
+          user={user}
+          selectedAgencyId={selectedAgencyId}
+          onClose={() => setShowTransfers(false)}
+          onChanged={() => fetchData(true)}
+        />
+      )}
+
       {showApprovals && (
         <SingleTableStockApproval
           user={user}
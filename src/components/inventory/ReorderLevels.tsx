@@ -0,0 +1,286 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Gauge, Search, TrendingUp, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { ReorderLevel } from '@/types/inventory';
+import {
+  deleteReorderLevel,
+  getReorderLevels,
+  saveReorderLevel,
+  setReorderLevelsFromVelocity,
+} from '@/utils/reorderLevels';
+
+interface ReorderLevelsProps {
+  agencyId: string;
+  userId: string;
+  salesWeeks: number;
+  onChanged?: () => void;
+}
+
+const variantKey = (level: ReorderLevel) => `${level.productName}|${level.color}|${level.size}`;
+
+const ReorderLevels = ({ agencyId, userId, salesWeeks, onChanged }: ReorderLevelsProps) => {
+  const [levels, setLevels] = useState<ReorderLevel[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, { min: string; max: string }>>({});
+  const [searchTerm, setSearchTerm] = useState('');
+  const [leadDays, setLeadDays] = useState('14');
+  const [coverDays, setCoverDays] = useState('30');
+  const [loading, setLoading] = useState(true);
+  const [recalculating, setRecalculating] = useState(false);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchLevels = async () => {
+    try {
+      setLoading(true);
+      setLevels(await getReorderLevels(agencyId));
+      setDrafts({});
+    } catch (error) {
+      console.error('Error fetching reorder levels:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load reorder levels",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchLevels();
+  }, [agencyId]);
+
+  const filteredLevels = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return levels.filter(level =>
+      level.productName.toLowerCase().includes(term) ||
+      level.color.toLowerCase().includes(term) ||
+      level.size.toLowerCase().includes(term)
+    );
+  }, [levels, searchTerm]);
+
+  const handleRecalculate = async () => {
+    try {
+      setRecalculating(true);
+      const updated = await setReorderLevelsFromVelocity(agencyId, {
+        weeks: salesWeeks,
+        leadDays: Number(leadDays) || 0,
+        coverDays: Number(coverDays) || 1,
+      });
+      await fetchLevels();
+      onChanged?.();
+      toast({
+        title: "Reorder levels updated",
+        description: `${updated} variants set from the last ${salesWeeks} weeks of sales. Manual levels were kept.`,
+      });
+    } catch (error) {
+      console.error('Error setting reorder levels from sales:', error);
+      toast({
+        title: "Error",
+        description: "Failed to set reorder levels from sales",
+        variant: "destructive"
+      });
+    } finally {
+      setRecalculating(false);
+    }
+  };
+
+  const handleSave = async (level: ReorderLevel) => {
+    const key = variantKey(level);
+    const draft = drafts[key];
+    if (!draft) return;
+
+    try {
+      setSavingKey(key);
+      await saveReorderLevel({
+        ...level,
+        minimumStock: Number(draft.min) || 0,
+        maximumStock: Number(draft.max) || 0,
+      }, userId);
+      await fetchLevels();
+      onChanged?.();
+    } catch (error) {
+      console.error('Error saving reorder level:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save reorder level",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handleClear = async (level: ReorderLevel) => {
+    if (!level.id) return;
+    try {
+      setSavingKey(variantKey(level));
+      await deleteReorderLevel(level.id);
+      await fetchLevels();
+      onChanged?.();
+    } catch (error) {
+      console.error('Error clearing reorder level:', error);
+      toast({
+        title: "Error",
+        description: "Failed to clear reorder level",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const setDraft = (level: ReorderLevel, field: 'min' | 'max', value: string) => {
+    const key = variantKey(level);
+    setDrafts(prev => ({
+      ...prev,
+      [key]: {
+        min: String(level.minimumStock),
+        max: String(level.maximumStock),
+        ...prev[key],
+        [field]: value,
+      },
+    }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            Set from Sales Velocity
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Uses average daily sales over the last {salesWeeks} weeks. Minimum covers the supplier lead time;
+            maximum adds the cover days on top. Levels you entered by hand are not changed.
+          </p>
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <Label htmlFor="reorder-lead-days">Lead time (days)</Label>
+              <Input
+                id="reorder-lead-days"
+                type="number"
+                min="0"
+                value={leadDays}
+                onChange={(e) => setLeadDays(e.target.value)}
+                className="w-32"
+              />
+            </div>
+            <div>
+              <Label htmlFor="reorder-cover-days">Cover (days)</Label>
+              <Input
+                id="reorder-cover-days"
+                type="number"
+                min="1"
+                value={coverDays}
+                onChange={(e) => setCoverDays(e.target.value)}
+                className="w-32"
+              />
+            </div>
+            <Button onClick={handleRecalculate} disabled={recalculating}>
+              {recalculating ? 'Calculating...' : 'Set levels from sales'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <Gauge className="h-5 w-5" />
+              Min / Max Levels
+            </span>
+            <div className="relative w-full sm:w-64">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <Input
+                placeholder="Search variants..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {loading ? (
+            <p className="text-sm text-gray-600">Loading reorder levels...</p>
+          ) : filteredLevels.length === 0 ? (
+            <p className="text-sm text-gray-600">No stocked variants found.</p>
+          ) : (
+            filteredLevels.map(level => {
+              const key = variantKey(level);
+              const draft = drafts[key];
+              return (
+                <div key={key} className="flex flex-wrap items-center justify-between gap-3 border-t pt-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{level.productName}</p>
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                      <span>{level.color}, {level.size}</span>
+                      <span>· Stock {level.currentStock}</span>
+                      {level.id && (
+                        <Badge variant="outline" className="text-xs">
+                          {level.source === 'velocity'
+                            ? `From sales · ${level.dailySales ?? 0}/day over ${level.velocityWeeks} wks`
+                            : 'Manual'}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      aria-label="Minimum stock"
+                      value={draft?.min ?? String(level.minimumStock)}
+                      onChange={(e) => setDraft(level, 'min', e.target.value)}
+                      className="w-20"
+                    />
+                    <span className="text-gray-400">/</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      aria-label="Maximum stock"
+                      value={draft?.max ?? String(level.maximumStock)}
+                      onChange={(e) => setDraft(level, 'max', e.target.value)}
+                      className="w-20"
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleSave(level)}
+                      disabled={!draft || savingKey === key}
+                    >
+                      Save
+                    </Button>
+                    {level.id && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleClear(level)}
+                        disabled={savingKey === key}
+                        title="Clear level"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ReorderLevels;
@@ -11,6 +11,7 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { CheckCircle, XCircle, Clock, Package, User as UserIcon, CalendarDays, Building2, CheckSquare, Square } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { STOCK_TAKE_BATCH_PREFIX } from '@/utils/stockTake';
 
 interface PendingAdjustment {
   id: string;
@@ -308,6 +309,22 @@ const SingleTableStockApproval = ({
     }
   };
 
+  // Stock takes submit their differences as one batch sharing a transaction_id
+  const stockTakeBatches = Array.from(
+    pendingAdjustments
+      .filter(adj => adj.transaction_id?.startsWith(STOCK_TAKE_BATCH_PREFIX))
+      .reduce((batches, adj) => {
+        const batch = batches.get(adj.transaction_id) || { key: adj.transaction_id, label: adj.reference_name, ids: [] as string[] };
+        batch.ids.push(adj.id);
+        return batches.set(adj.transaction_id, batch);
+      }, new Map<string, { key: string; label: string; ids: string[] }>())
+      .values()
+  );
+
+  const selectBatch = (ids: string[]) => {
+    setSelectedIds(new Set(ids));
+  };
+
   // Filter by date range for bulk operations
   const bulkApproveByDate = async () => {
     if (!filterDate) {
@@ -503,7 +520,7 @@ const SingleTableStockApproval = ({
 
             {/* Select All/None */}
             {pendingAdjustments.length > 0 && (
-              <div className="flex items-center gap-2 mt-2">
+              <div className="flex flex-wrap items-center gap-2 mt-2">
                 <Button
                   onClick={toggleSelectAll}
                   variant="ghost"
@@ -522,6 +539,18 @@ const SingleTableStockApproval = ({
                     </>
                   )}
                 </Button>
+                {stockTakeBatches.map(batch => (
+                  <Button
+                    key={batch.key}
+                    onClick={() => selectBatch(batch.ids)}
+                    variant="ghost"
+                    size="sm"
+                    className="text-blue-600 hover:text-blue-700"
+                  >
+                    <CheckSquare className="h-4 w-4 mr-2" />
+                    {batch.label} ({batch.ids.length})
+                  </Button>
+                ))}
               </div>
             )}
           </div>
@@ -0,0 +1,140 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, CheckCircle, Scale } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type Reconciliation = Database['public']['Tables']['stock_balance_reconciliations']['Row'];
+type Drift = Database['public']['Tables']['stock_balance_drifts']['Row'];
+
+interface StockBalanceReconciliationProps {
+  agencyId?: string;
+  onRepaired?: () => void;
+}
+
+const StockBalanceReconciliation = ({ agencyId, onRepaired }: StockBalanceReconciliationProps) => {
+  const [lastRun, setLastRun] = useState<Reconciliation | null>(null);
+  const [drifts, setDrifts] = useState<Drift[]>([]);
+  const [running, setRunning] = useState(false);
+  const { toast } = useToast();
+
+  const fetchLastRun = async () => {
+    try {
+      // The nightly run covers every agency, so it counts as a check of this one too
+      let query = supabase
+        .from('stock_balance_reconciliations')
+        .select('*')
+        .not('completed_at', 'is', null)
+        .order('started_at', { ascending: false })
+        .limit(1);
+      query = agencyId ? query.or(`agency_id.eq.${agencyId},agency_id.is.null`) : query.is('agency_id', null);
+
+      const { data: runs, error } = await query;
+      if (error) throw error;
+
+      const run = runs?.[0] ?? null;
+      setLastRun(run);
+
+      if (run && run.drift_count > 0) {
+        let driftQuery = supabase
+          .from('stock_balance_drifts')
+          .select('*')
+          .eq('reconciliation_id', run.id)
+          .order('product_name');
+        if (agencyId) driftQuery = driftQuery.eq('agency_id', agencyId);
+
+        const { data, error: driftError } = await driftQuery;
+        if (driftError) throw driftError;
+        setDrifts(data || []);
+      } else {
+        setDrifts([]);
+      }
+    } catch (error) {
+      console.error('Error fetching stock reconciliation:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchLastRun();
+  }, [agencyId]);
+
+  const handleRun = async () => {
+    try {
+      setRunning(true);
+      const { error } = await supabase.rpc('reconcile_external_inventory_stock_balances', {
+        p_agency_id: agencyId || undefined,
+        p_repair: true,
+      });
+      if (error) throw error;
+
+      await fetchLastRun();
+      onRepaired?.();
+      toast({
+        title: "Stock check finished",
+        description: "Stock balances were compared with the transaction ledger.",
+      });
+    } catch (error) {
+      console.error('Error reconciling stock balances:', error);
+      toast({
+        title: "Error",
+        description: "Failed to check stock balances",
+        variant: "destructive"
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Stock Balance Check
+          </span>
+          <Button size="sm" variant="outline" onClick={handleRun} disabled={running}>
+            {running ? 'Checking...' : 'Check now'}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!lastRun ? (
+          <p className="text-sm text-gray-600">Stock balances have not been checked against the ledger yet.</p>
+        ) : (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {lastRun.drift_count === 0 ? (
+              <CheckCircle className="h-4 w-4 text-green-600" />
+            ) : (
+              <AlertTriangle className="h-4 w-4 text-orange-600" />
+            )}
+            <span>
+              Last checked {new Date(lastRun.started_at).toLocaleString()} ({lastRun.trigger}) · {lastRun.variants_checked} variants
+            </span>
+            <Badge className={lastRun.drift_count === 0 ? 'bg-green-100 text-green-700' : 'bg-orange-100 text-orange-700'}>
+              {lastRun.drift_count} drifted
+            </Badge>
+          </div>
+        )}
+
+        {drifts.map((drift) => (
+          <div key={drift.id} className="flex flex-wrap items-center justify-between gap-2 border-t pt-2 text-sm">
+            <div>
+              <p className="font-medium">{drift.product_name}</p>
+              <p className="text-xs text-gray-500">{drift.color}, {drift.size}</p>
+            </div>
+            <div className="text-right text-xs text-gray-600">
+              <p>Balance {drift.balance_stock ?? 'missing'} · Ledger {drift.ledger_stock ?? 'missing'}</p>
+              <p>{drift.repaired ? 'Repaired' : 'Not repaired'}</p>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StockBalanceReconciliation;
@@ -0,0 +1,687 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { User } from '@/types/auth';
+import type { StockTakeCount, StockTakeLine, StockTakeSession } from '@/types/inventory';
+import type { ScannedProduct } from '@/types/product';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, ClipboardCheck, Plus, RefreshCw, ScanLine, Send, Undo2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import BarcodeScanButton from '@/components/camera/BarcodeScanButton';
+import { findProductByBarcode, matchesScannedProduct } from '@/utils/barcodes';
+import {
+  addStockTakeLine,
+  cancelStockTake,
+  deleteStockTakeCount,
+  getStockTakeCounts,
+  getStockTakeLines,
+  getStockTakeSession,
+  getStockTakeSessions,
+  getStockTakeSubCategories,
+  recordStockTakeCount,
+  startNextStockTakePass,
+  startStockTake,
+  submitStockTake,
+} from '@/utils/stockTake';
+
+interface StockTakeProps {
+  user: User;
+  onClose: () => void;
+  onSubmitted: () => void;
+  selectedAgencyId?: string; // For superusers to count other agencies
+}
+
+const STATUS_STYLES: Record<StockTakeSession['status'], string> = {
+  counting: 'bg-blue-100 text-blue-800',
+  submitted: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+const formatCurrency = (amount: number) => `LKR ${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const StockTake = ({ user, onClose, onSubmitted, selectedAgencyId }: StockTakeProps) => {
+  const agencyId = selectedAgencyId || user.agencyId;
+  const [sessions, setSessions] = useState<StockTakeSession[]>([]);
+  const [session, setSession] = useState<StockTakeSession | null>(null);
+  const [lines, setLines] = useState<StockTakeLine[]>([]);
+  const [passCounts, setPassCounts] = useState<StockTakeCount[]>([]);
+  const [subCategories, setSubCategories] = useState<string[]>([]);
+  const [newName, setNewName] = useState(`Stock Take ${new Date().toLocaleDateString()}`);
+  const [scope, setScope] = useState<string[]>([]);
+  const [scanTerm, setScanTerm] = useState('');
+  const [onlyUncounted, setOnlyUncounted] = useState(false);
+  const [entryQuantities, setEntryQuantities] = useState<Record<string, string>>({});
+  const [newItem, setNewItem] = useState({ productName: '', color: '', size: '' });
+  const [zeroUncounted, setZeroUncounted] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const showError = (description: string, error: unknown) => {
+    console.error(description, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : description,
+      variant: "destructive"
+    });
+  };
+
+  const fetchSessions = async () => {
+    if (!agencyId) return;
+    try {
+      setLoading(true);
+      const [sessionList, categoryList] = await Promise.all([
+        getStockTakeSessions(agencyId),
+        getStockTakeSubCategories(agencyId)
+      ]);
+      setSessions(sessionList);
+      setSubCategories(categoryList);
+    } catch (error) {
+      showError('Failed to load stock takes', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadSession = async (sessionId: string) => {
+    try {
+      setLoading(true);
+      const current = await getStockTakeSession(sessionId);
+      const [lineList, counts] = await Promise.all([
+        getStockTakeLines(sessionId),
+        getStockTakeCounts(sessionId, current.currentPass)
+      ]);
+      setSession(current);
+      setLines(lineList);
+      setPassCounts(counts);
+    } catch (error) {
+      showError('Failed to load stock take', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, [agencyId]);
+
+  const passTotals = useMemo(() => {
+    const totals = new Map<string, number>();
+    passCounts.forEach(count => totals.set(count.lineId, (totals.get(count.lineId) || 0) + count.quantity));
+    return totals;
+  }, [passCounts]);
+
+  const linesById = useMemo(() => new Map(lines.map(line => [line.id, line])), [lines]);
+
+  const visibleLines = useMemo(() => {
+    const term = scanTerm.trim().toLowerCase();
+    return lines.filter(line =>
+      (!onlyUncounted || !passTotals.has(line.id)) &&
+      (!term ||
+        line.productName.toLowerCase().includes(term) ||
+        (line.productCode || '').toLowerCase().includes(term) ||
+        line.color.toLowerCase().includes(term) ||
+        line.size.toLowerCase().includes(term))
+    );
+  }, [lines, scanTerm, onlyUncounted, passTotals]);
+
+  const varianceSummary = useMemo(() => {
+    const counted = lines.filter(line => line.countedQuantity !== undefined);
+    const uncounted = lines.filter(line => line.countedQuantity === undefined);
+    const changed = counted.filter(line => line.variance !== 0);
+    const uncountedUnits = uncounted.reduce((sum, line) => sum + line.expectedQuantity + line.movedQuantity, 0);
+    const uncountedValue = uncounted.reduce((sum, line) => sum + (line.expectedQuantity + line.movedQuantity) * line.unitCost, 0);
+    return {
+      counted: counted.length,
+      uncounted,
+      changed,
+      netUnits: changed.reduce((sum, line) => sum + (line.variance || 0), 0) - (zeroUncounted ? uncountedUnits : 0),
+      netValue: changed.reduce((sum, line) => sum + (line.varianceValue || 0), 0) - (zeroUncounted ? uncountedValue : 0),
+    };
+  }, [lines, zeroUncounted]);
+
+  const handleStart = async () => {
+    if (!agencyId || !newName.trim()) return;
+    try {
+      setBusy(true);
+      const sessionId = await startStockTake(agencyId, newName.trim(), scope);
+      setScope([]);
+      await loadSession(sessionId);
+    } catch (error) {
+      showError('Failed to start stock take', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const refreshCounts = async () => {
+    if (!session) return;
+    setPassCounts(await getStockTakeCounts(session.id, session.currentPass));
+  };
+
+  const recordCount = async (line: StockTakeLine, quantity: number) => {
+    if (!session) return;
+    try {
+      setBusy(true);
+      await recordStockTakeCount(session.id, line.id, session.currentPass, quantity, { id: user.id, name: user.name });
+      await refreshCounts();
+    } catch (error) {
+      showError('Failed to record count', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // A labelled garment that is not in the snapshot is added to the count as found stock
+  const handleBarcodeScan = async (scanned: ScannedProduct) => {
+    if (!session) return;
+    const line = lines.find(candidate => matchesScannedProduct(scanned, candidate));
+    if (line) {
+      await recordCount(line, 1);
+      return;
+    }
+
+    try {
+      setBusy(true);
+      const lineId = await addStockTakeLine(session.id, {
+        productName: scanned.product.name,
+        color: scanned.color,
+        size: scanned.size,
+        category: scanned.product.category,
+        subCategory: scanned.product.subCategory,
+        unitCost: scanned.product.billingPrice,
+      });
+      await recordStockTakeCount(session.id, lineId, session.currentPass, 1, { id: user.id, name: user.name });
+      const [lineList] = await Promise.all([getStockTakeLines(session.id), refreshCounts()]);
+      setLines(lineList);
+      toast({
+        title: "Added to count",
+        description: `${scanned.product.name} (${scanned.color}, ${scanned.size}) was not in the snapshot`,
+      });
+    } catch (error) {
+      showError('Failed to add scanned item', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // The scan field takes product codes, label barcodes from a handheld scanner, or typed names.
+  // A single match gets one unit; otherwise the list is left filtered.
+  const handleScan = async (input = scanTerm) => {
+    const term = input.trim().toLowerCase();
+    if (!term) return;
+
+    const byCode = lines.filter(line => (line.productCode || '').toLowerCase() === term);
+    if (byCode.length === 0) {
+      const scanned = await findProductByBarcode(input).catch(() => null);
+      if (scanned) {
+        await handleBarcodeScan(scanned);
+        setScanTerm('');
+        scanInputRef.current?.focus();
+        return;
+      }
+    }
+
+    const matches = byCode.length > 0 ? byCode : lines.filter(line =>
+      line.productName.toLowerCase().includes(term) || (line.productCode || '').toLowerCase().includes(term)
+    );
+
+    if (matches.length === 1) {
+      await recordCount(matches[0], 1);
+      setScanTerm('');
+      scanInputRef.current?.focus();
+    } else if (matches.length === 0) {
+      toast({
+        title: "Not found",
+        description: `Nothing in this count matches "${input.trim()}"`,
+        variant: "destructive"
+      });
+    } else {
+      setScanTerm(input.trim());
+    }
+  };
+
+  const handleEntry = async (line: StockTakeLine) => {
+    const quantity = Number(entryQuantities[line.id]);
+    if (!entryQuantities[line.id] || Number.isNaN(quantity)) return;
+    await recordCount(line, quantity);
+    setEntryQuantities(prev => ({ ...prev, [line.id]: '' }));
+  };
+
+  const handleUndo = async (count: StockTakeCount) => {
+    try {
+      setBusy(true);
+      await deleteStockTakeCount(count.id);
+      await refreshCounts();
+    } catch (error) {
+      showError('Failed to remove count', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddItem = async () => {
+    if (!session || !newItem.productName.trim()) return;
+    try {
+      setBusy(true);
+      await addStockTakeLine(session.id, {
+        productName: newItem.productName.trim(),
+        color: newItem.color.trim(),
+        size: newItem.size.trim(),
+      });
+      setNewItem({ productName: '', color: '', size: '' });
+      setScanTerm(newItem.productName.trim());
+      setLines(await getStockTakeLines(session.id));
+    } catch (error) {
+      showError('Failed to add item', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleNextPass = async () => {
+    if (!session) return;
+    if (!window.confirm(`Start pass ${session.currentPass + 1}? Lines you count again replace their pass ${session.currentPass} count; the rest keep it.`)) {
+      return;
+    }
+    try {
+      setBusy(true);
+      await startNextStockTakePass(session);
+      await loadSession(session.id);
+    } catch (error) {
+      showError('Failed to start next pass', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!session) return;
+    try {
+      setBusy(true);
+      const created = await submitStockTake(session.id, zeroUncounted);
+      toast({
+        title: "Stock take submitted",
+        description: created > 0
+          ? `${created} adjustments sent for approval as batch ${session.sessionNumber}`
+          : 'No differences found. The stock take is complete.',
+      });
+      onSubmitted();
+      await loadSession(session.id);
+    } catch (error) {
+      showError('Failed to submit stock take', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!session || !window.confirm(`Cancel ${session.sessionNumber}? Its counts will not be posted.`)) return;
+    try {
+      setBusy(true);
+      await cancelStockTake(session.id);
+      await loadSession(session.id);
+    } catch (error) {
+      showError('Failed to cancel stock take', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleBack = () => {
+    setSession(null);
+    setLines([]);
+    setPassCounts([]);
+    setScanTerm('');
+    fetchSessions();
+  };
+
+  const isCounting = session?.status === 'counting';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-1 touch-manipulation">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[98vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-3 border-b bg-gradient-to-r from-blue-50 to-purple-50">
+          <div className="flex items-center gap-2 min-w-0">
+            {session && (
+              <Button variant="ghost" size="sm" onClick={handleBack} className="p-1">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            )}
+            <div className="min-w-0">
+              <h2 className="text-base font-semibold truncate">
+                {session ? `${session.sessionNumber} · ${session.name}` : 'Stock Take'}
+              </h2>
+              <p className="text-xs text-gray-600">
+                {session
+                  ? `${session.subCategories.length > 0 ? session.subCategories.join(', ') : 'All categories'} · snapshot ${session.snapshotAt.toLocaleString()}`
+                  : 'Count stock against a frozen snapshot and send the differences for approval'}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {session && (
+              <Badge className={STATUS_STYLES[session.status]}>
+                {session.status === 'counting' ? `Pass ${session.currentPass}` : session.status}
+              </Badge>
+            )}
+            <Button variant="ghost" onClick={onClose} className="p-1 hover:bg-gray-100" size="sm">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="p-3 overflow-y-auto flex-1">
+          {!agencyId ? (
+            <p className="text-sm text-gray-600">Select an agency to run a stock take.</p>
+          ) : loading ? (
+            <p className="text-sm text-gray-600">Loading...</p>
+          ) : !session ? (
+            <div className="space-y-4">
+              <div className="border rounded-lg p-3 space-y-3">
+                <h3 className="font-medium">New stock take</h3>
+                <div>
+                  <Label htmlFor="stock-take-name">Name</Label>
+                  <Input id="stock-take-name" value={newName} onChange={(e) => setNewName(e.target.value)} />
+                </div>
+                <div>
+                  <Label>Categories to count</Label>
+                  <p className="text-xs text-gray-500 mb-2">Leave all unticked to count everything.</p>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                    {subCategories.map(subCategory => (
+                      <label key={subCategory} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={scope.includes(subCategory)}
+                          onCheckedChange={(checked) => setScope(prev =>
+                            checked ? [...prev, subCategory] : prev.filter(item => item !== subCategory)
+                          )}
+                        />
+                        {subCategory}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <Button onClick={handleStart} disabled={busy || !newName.trim()}>
+                  <ClipboardCheck className="h-4 w-4 mr-2" />
+                  {busy ? 'Taking snapshot...' : 'Start stock take'}
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="font-medium">Stock takes</h3>
+                {sessions.length === 0 ? (
+                  <p className="text-sm text-gray-600">No stock takes yet.</p>
+                ) : (
+                  sessions.map(item => (
+                    <button
+                      key={item.id}
+                      onClick={() => loadSession(item.id)}
+                      className="w-full flex flex-wrap items-center justify-between gap-2 border rounded-lg p-3 text-left hover:bg-gray-50"
+                    >
+                      <div>
+                        <p className="font-medium">{item.sessionNumber} · {item.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {item.lineCount} lines · {item.snapshotAt.toLocaleDateString()}
+                          {item.createdByName ? ` · ${item.createdByName}` : ''}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {item.status !== 'counting' && item.status !== 'cancelled' && (
+                          <span className="text-xs text-gray-600">
+                            {item.adjustmentCount} adjustments · net {item.netVariance > 0 ? '+' : ''}{item.netVariance}
+                          </span>
+                        )}
+                        <Badge className={STATUS_STYLES[item.status]}>{item.status}</Badge>
+                      </div>
+                    </button>
+                  ))
+                )}
+              </div>
+            </div>
+          ) : (
+            <Tabs defaultValue={isCounting ? 'count' : 'variance'}>
+              <TabsList>
+                <TabsTrigger value="count" disabled={!isCounting}>Count</TabsTrigger>
+                <TabsTrigger value="variance" onClick={() => getStockTakeLines(session.id).then(setLines).catch(error => showError('Failed to load variances', error))}>
+                  Variance
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="count" className="space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <div className="relative flex-1 min-w-[200px]">
+                    <ScanLine className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <Input
+                      ref={scanInputRef}
+                      autoFocus
+                      placeholder="Scan or type product code / name, then Enter"
+                      value={scanTerm}
+                      onChange={(e) => setScanTerm(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          handleScan();
+                        }
+                      }}
+                      className="pl-10"
+                    />
+                  </div>
+                  <BarcodeScanButton onScan={handleBarcodeScan} onUnknownCode={handleScan} disabled={busy} />
+                  <label className="flex items-center gap-2 text-sm">
+                    <Switch checked={onlyUncounted} onCheckedChange={setOnlyUncounted} />
+                    Not counted this pass
+                  </label>
+                  <Button variant="outline" size="sm" onClick={refreshCounts} title="Load counts from other devices">
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleNextPass} disabled={busy}>
+                    Start pass {session.currentPass + 1}
+                  </Button>
+                </div>
+
+                <p className="text-xs text-gray-500">
+                  {passTotals.size} of {lines.length} lines counted in pass {session.currentPass}. Entries add up, so
+                  several counters can work the same lines.
+                </p>
+
+                <div className="space-y-1">
+                  {visibleLines.length === 0 ? (
+                    <p className="text-sm text-gray-600">No lines match.</p>
+                  ) : (
+                    visibleLines.map(line => (
+                      <div key={line.id} className="flex flex-wrap items-center justify-between gap-2 border rounded p-2 text-sm">
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">
+                            {line.productCode ? `[${line.productCode}] ` : ''}{line.productName}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {line.color}, {line.size} · {line.subCategory}
+                            {line.countedPass !== undefined && line.countedPass < session.currentPass
+                              ? ` · pass ${line.countedPass}: ${line.countedQuantity}`
+                              : ''}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="w-12 text-right font-semibold">{passTotals.get(line.id) ?? '–'}</span>
+                          <Button size="sm" variant="outline" onClick={() => recordCount(line, 1)} disabled={busy}>
+                            +1
+                          </Button>
+                          <Input
+                            type="number"
+                            min="0"
+                            inputMode="numeric"
+                            aria-label="Counted quantity"
+                            value={entryQuantities[line.id] ?? ''}
+                            onChange={(e) => setEntryQuantities(prev => ({ ...prev, [line.id]: e.target.value }))}
+                            onKeyDown={(e) => e.key === 'Enter' && handleEntry(line)}
+                            className="w-20 h-8"
+                          />
+                          <Button size="sm" onClick={() => handleEntry(line)} disabled={busy || !entryQuantities[line.id]}>
+                            Add
+                          </Button>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                <div className="border rounded-lg p-3 space-y-2">
+                  <h4 className="text-sm font-medium">Item found that is not on the list</h4>
+                  <div className="flex flex-wrap gap-2">
+                    <Input
+                      placeholder="Product name"
+                      value={newItem.productName}
+                      onChange={(e) => setNewItem(prev => ({ ...prev, productName: e.target.value }))}
+                      className="flex-1 min-w-[160px]"
+                    />
+                    <Input
+                      placeholder="Color"
+                      value={newItem.color}
+                      onChange={(e) => setNewItem(prev => ({ ...prev, color: e.target.value }))}
+                      className="w-28"
+                    />
+                    <Input
+                      placeholder="Size"
+                      value={newItem.size}
+                      onChange={(e) => setNewItem(prev => ({ ...prev, size: e.target.value }))}
+                      className="w-24"
+                    />
+                    <Button variant="outline" onClick={handleAddItem} disabled={busy || !newItem.productName.trim()}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add
+                    </Button>
+                  </div>
+                </div>
+
+                {passCounts.length > 0 && (
+                  <div className="space-y-1">
+                    <h4 className="text-sm font-medium">Entries this pass</h4>
+                    {passCounts.slice(0, 20).map(count => {
+                      const line = linesById.get(count.lineId);
+                      return (
+                        <div key={count.id} className="flex items-center justify-between text-xs text-gray-600 border-t pt-1">
+                          <span className="truncate">
+                            {count.quantity} × {line ? `${line.productName} (${line.color}, ${line.size})` : 'Unknown line'}
+                            {count.countedByName ? ` · ${count.countedByName}` : ''} · {count.countedAt.toLocaleTimeString()}
+                          </span>
+                          <Button size="sm" variant="ghost" onClick={() => handleUndo(count)} disabled={busy} title="Remove entry">
+                            <Undo2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </TabsContent>
+
+              <TabsContent value="variance" className="space-y-3">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  <div className="border rounded p-2">
+                    <p className="text-xs text-gray-600">Counted</p>
+                    <p className="text-lg font-semibold">{varianceSummary.counted} / {lines.length}</p>
+                  </div>
+                  <div className="border rounded p-2">
+                    <p className="text-xs text-gray-600">Lines with differences</p>
+                    <p className="text-lg font-semibold">{varianceSummary.changed.length}</p>
+                  </div>
+                  <div className="border rounded p-2">
+                    <p className="text-xs text-gray-600">Net units</p>
+                    <p className={`text-lg font-semibold ${varianceSummary.netUnits < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {varianceSummary.netUnits > 0 ? '+' : ''}{varianceSummary.netUnits}
+                    </p>
+                  </div>
+                  <div className="border rounded p-2">
+                    <p className="text-xs text-gray-600">Net value</p>
+                    <p className={`text-lg font-semibold ${varianceSummary.netValue < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatCurrency(varianceSummary.netValue)}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-gray-600">
+                        <th className="p-2">Product</th>
+                        <th className="p-2 text-right">Expected</th>
+                        <th className="p-2 text-right">Counted</th>
+                        <th className="p-2 text-right">Variance</th>
+                        <th className="p-2 text-right">Value</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...varianceSummary.changed, ...varianceSummary.uncounted].map(line => (
+                        <tr key={line.id} className="border-b">
+                          <td className="p-2">
+                            <p className="font-medium">{line.productName}</p>
+                            <p className="text-xs text-gray-500">
+                              {line.color}, {line.size}
+                              {line.addedDuringCount ? ' · added during count' : ''}
+                            </p>
+                          </td>
+                          <td className="p-2 text-right">
+                            {line.expectedQuantity + line.movedQuantity}
+                            {line.movedQuantity !== 0 && (
+                              <p className="text-xs text-gray-500">
+                                {line.expectedQuantity} {line.movedQuantity > 0 ? '+' : '−'} {Math.abs(line.movedQuantity)} moved
+                              </p>
+                            )}
+                          </td>
+                          <td className="p-2 text-right">
+                            {line.countedQuantity ?? <span className="text-gray-400">not counted</span>}
+                          </td>
+                          <td className={`p-2 text-right font-medium ${(line.variance ?? 0) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {line.variance !== undefined ? `${line.variance > 0 ? '+' : ''}${line.variance}` : ''}
+                          </td>
+                          <td className="p-2 text-right">
+                            {line.varianceValue !== undefined ? formatCurrency(line.varianceValue) : ''}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {varianceSummary.changed.length === 0 && varianceSummary.uncounted.length === 0 && (
+                    <p className="text-sm text-gray-600 p-2">Every line matches the snapshot.</p>
+                  )}
+                </div>
+
+                {isCounting ? (
+                  <div className="flex flex-wrap items-center justify-between gap-3 border-t pt-3">
+                    <label className="flex items-center gap-2 text-sm">
+                      <Switch checked={zeroUncounted} onCheckedChange={setZeroUncounted} />
+                      Treat the {varianceSummary.uncounted.length} uncounted lines as zero
+                    </label>
+                    <div className="flex gap-2">
+                      <Button variant="outline" onClick={handleCancel} disabled={busy}>
+                        Cancel stock take
+                      </Button>
+                      <Button onClick={handleSubmit} disabled={busy}>
+                        <Send className="h-4 w-4 mr-2" />
+                        {busy ? 'Submitting...' : 'Submit for approval'}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-600 border-t pt-3">
+                    {session.status === 'cancelled'
+                      ? 'This stock take was cancelled.'
+                      : `${session.adjustmentCount} adjustments submitted${session.submittedAt ? ` on ${session.submittedAt.toLocaleString()}` : ''}` +
+                        (session.status === 'completed' ? ' and reviewed.' : ' and waiting for approval.')}
+                  </p>
+                )}
+              </TabsContent>
+            </Tabs>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockTake;
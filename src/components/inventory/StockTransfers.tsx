@@ -0,0 +1,668 @@
+import { useEffect, useMemo, useState } from 'react';
+import { User } from '@/types/auth';
+import type { StockTransfer, StockTransferItem, StockTransferLine } from '@/types/inventory';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, ArrowRightLeft, Check, PackageCheck, Plus, Search, Send, Truck, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  cancelStockTransfer,
+  createStockTransfer,
+  getStockInTransit,
+  getStockTransferApprovalThreshold,
+  getStockTransferLines,
+  getStockTransfers,
+  getTransferableStock,
+  receiveStockTransfer,
+  reviewStockTransfer,
+  setStockTransferApprovalThreshold,
+} from '@/utils/stockTransfers';
+
+interface StockTransfersProps {
+  user: User;
+  onClose: () => void;
+  onChanged: () => void; // Stock moved in or out of the agency
+  selectedAgencyId?: string; // For superusers to transfer from other agencies
+}
+
+type TransferableItem = StockTransferItem & { available: number };
+
+const STATUS_STYLES: Record<StockTransfer['status'], string> = {
+  pending_approval: 'bg-yellow-100 text-yellow-800',
+  in_transit: 'bg-blue-100 text-blue-800',
+  received: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+const STATUS_LABELS: Record<StockTransfer['status'], string> = {
+  pending_approval: 'Awaiting approval',
+  in_transit: 'In transit',
+  received: 'Received',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+};
+
+const formatCurrency = (amount: number) => `LKR ${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const itemKey = (item: { productName: string; color: string; size: string }) => `${item.productName}|${item.color}|${item.size}`;
+
+const StockTransfers = ({ user, onClose, onChanged, selectedAgencyId }: StockTransfersProps) => {
+  const agencyId = selectedAgencyId || user.agencyId;
+  const isSuperuser = user.role === 'superuser';
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [agencies, setAgencies] = useState<{ id: string; name: string }[]>([]);
+  const [inTransit, setInTransit] = useState({ quantity: 0, value: 0 });
+  const [threshold, setThreshold] = useState(0);
+  const [thresholdDraft, setThresholdDraft] = useState('');
+  const [transfer, setTransfer] = useState<StockTransfer | null>(null);
+  const [lines, setLines] = useState<StockTransferLine[]>([]);
+  const [receipts, setReceipts] = useState<Record<string, { received: string; damaged: string }>>({});
+  const [receiptNotes, setReceiptNotes] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [stock, setStock] = useState<TransferableItem[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [stockSearch, setStockSearch] = useState('');
+  const [toAgencyId, setToAgencyId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const showError = (description: string, error: unknown) => {
+    console.error(description, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : description,
+      variant: "destructive"
+    });
+  };
+
+  const fetchTransfers = async () => {
+    try {
+      setLoading(true);
+      const [transferList, agencyResult, transit, approvalThreshold] = await Promise.all([
+        getStockTransfers(agencyId),
+        supabase.from('agencies').select('id, name').order('name'),
+        agencyId ? getStockInTransit(agencyId) : Promise.resolve({ quantity: 0, value: 0 }),
+        getStockTransferApprovalThreshold()
+      ]);
+      if (agencyResult.error) throw agencyResult.error;
+      setTransfers(transferList);
+      setAgencies(agencyResult.data || []);
+      setInTransit(transit);
+      setThreshold(approvalThreshold);
+      setThresholdDraft(String(approvalThreshold));
+    } catch (error) {
+      showError('Failed to load transfers', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTransfers();
+  }, [agencyId]);
+
+  const openTransfer = async (item: StockTransfer) => {
+    try {
+      setLoading(true);
+      const lineList = await getStockTransferLines(item.id);
+      setTransfer(item);
+      setLines(lineList);
+      setReceipts({});
+      setReceiptNotes('');
+    } catch (error) {
+      showError('Failed to load transfer', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openNewTransfer = async () => {
+    if (!agencyId) return;
+    try {
+      setLoading(true);
+      setStock(await getTransferableStock(agencyId));
+      setQuantities({});
+      setStockSearch('');
+      setToAgencyId('');
+      setNotes('');
+      setCreating(true);
+    } catch (error) {
+      showError('Failed to load stock', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBack = () => {
+    setTransfer(null);
+    setLines([]);
+    setCreating(false);
+    fetchTransfers();
+  };
+
+  const visibleStock = useMemo(() => {
+    const term = stockSearch.trim().toLowerCase();
+    return stock.filter(item =>
+      !term ||
+      item.productName.toLowerCase().includes(term) ||
+      (item.productCode || '').toLowerCase().includes(term) ||
+      item.color.toLowerCase().includes(term) ||
+      item.size.toLowerCase().includes(term)
+    );
+  }, [stock, stockSearch]);
+
+  const selectedItems = useMemo(() =>
+    stock
+      .map(item => ({ ...item, quantity: Number(quantities[itemKey(item)] || 0) }))
+      .filter(item => item.quantity > 0),
+  [stock, quantities]);
+
+  const overStocked = selectedItems.filter(item => item.quantity > item.available || !Number.isInteger(item.quantity));
+
+  const handleCreate = async () => {
+    if (!agencyId || !toAgencyId) return;
+    if (overStocked.length > 0) {
+      toast({
+        title: "Check quantities",
+        description: `${overStocked[0].productName} (${overStocked[0].color}, ${overStocked[0].size}) has only ${overStocked[0].available} in stock`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setBusy(true);
+      const transferId = await createStockTransfer(agencyId, toAgencyId, selectedItems, notes.trim());
+      const transferList = await getStockTransfers(agencyId);
+      const created = transferList.find(item => item.id === transferId);
+      setTransfers(transferList);
+      setCreating(false);
+      toast({
+        title: created?.status === 'pending_approval' ? "Transfer awaiting approval" : "Transfer dispatched",
+        description: created?.status === 'pending_approval'
+          ? `${created.transferNumber} is worth ${formatCurrency(created.totalValue)} and needs superuser approval before stock leaves`
+          : `${created?.transferNumber ?? 'The transfer'} is on its way to ${created?.toAgencyName ?? 'the other agency'}`,
+      });
+      if (created) {
+        if (created.status === 'in_transit') onChanged();
+        await openTransfer(created);
+      }
+    } catch (error) {
+      showError('Failed to create transfer', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const refreshTransfer = async (transferId: string) => {
+    const transferList = await getStockTransfers(agencyId);
+    setTransfers(transferList);
+    const updated = transferList.find(item => item.id === transferId);
+    if (updated) {
+      await openTransfer(updated);
+    }
+  };
+
+  const handleReview = async (approve: boolean) => {
+    if (!transfer) return;
+    const reason = approve ? undefined : window.prompt(`Reason for rejecting ${transfer.transferNumber}?`);
+    if (reason === null) return;
+
+    try {
+      setBusy(true);
+      await reviewStockTransfer(transfer.id, approve, reason);
+      toast({
+        title: approve ? "Transfer approved" : "Transfer rejected",
+        description: approve ? `${transfer.transferNumber} has been dispatched` : `${transfer.transferNumber} will not be sent`,
+      });
+      if (approve) onChanged();
+      await refreshTransfer(transfer.id);
+    } catch (error) {
+      showError('Failed to review transfer', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!transfer || !window.confirm(`Cancel transfer ${transfer.transferNumber}?`)) return;
+    try {
+      setBusy(true);
+      await cancelStockTransfer(transfer.id);
+      await refreshTransfer(transfer.id);
+    } catch (error) {
+      showError('Failed to cancel transfer', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const receiptFor = (line: StockTransferLine) => {
+    const entry = receipts[line.id];
+    const damaged = Number(entry?.damaged || 0);
+    const received = entry?.received !== undefined && entry.received !== '' ? Number(entry.received) : line.quantity - damaged;
+    return { received, damaged, short: line.quantity - received - damaged };
+  };
+
+  const updateReceipt = (lineId: string, field: 'received' | 'damaged', value: string) => {
+    setReceipts(prev => ({
+      ...prev,
+      [lineId]: { received: prev[lineId]?.received ?? '', damaged: prev[lineId]?.damaged ?? '', [field]: value }
+    }));
+  };
+
+  const receiptTotals = lines.reduce((totals, line) => {
+    const receipt = receiptFor(line);
+    return {
+      received: totals.received + receipt.received,
+      damaged: totals.damaged + receipt.damaged,
+      short: totals.short + receipt.short
+    };
+  }, { received: 0, damaged: 0, short: 0 });
+
+  const handleReceive = async () => {
+    if (!transfer) return;
+    const invalid = lines.find(line => {
+      const receipt = receiptFor(line);
+      return receipt.received < 0 || receipt.damaged < 0 || receipt.short < 0 ||
+        !Number.isInteger(receipt.received) || !Number.isInteger(receipt.damaged);
+    });
+    if (invalid) {
+      toast({
+        title: "Check quantities",
+        description: `Received and damaged for ${invalid.productName} (${invalid.color}, ${invalid.size}) must add up to at most ${invalid.quantity}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const discrepancies = receiptTotals.damaged + receiptTotals.short;
+    if (discrepancies > 0 && !window.confirm(
+      `Receive ${receiptTotals.received} units with ${receiptTotals.damaged} damaged and ${receiptTotals.short} short? This cannot be changed later.`
+    )) return;
+
+    try {
+      setBusy(true);
+      await receiveStockTransfer(
+        transfer.id,
+        lines.map(line => {
+          const receipt = receiptFor(line);
+          return { lineId: line.id, receivedQuantity: receipt.received, damagedQuantity: receipt.damaged };
+        }),
+        receiptNotes.trim()
+      );
+      toast({
+        title: "Transfer received",
+        description: `${receiptTotals.received} units added to stock`,
+      });
+      onChanged();
+      await refreshTransfer(transfer.id);
+    } catch (error) {
+      showError('Failed to receive transfer', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveThreshold = async () => {
+    try {
+      setBusy(true);
+      await setStockTransferApprovalThreshold(Number(thresholdDraft));
+      setThreshold(Number(thresholdDraft));
+      toast({
+        title: "Saved",
+        description: `Transfers above ${formatCurrency(Number(thresholdDraft))} now need approval`,
+      });
+    } catch (error) {
+      showError('Failed to save approval threshold', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const isIncoming = transfer?.toAgencyId === agencyId;
+  const canReceive = transfer?.status === 'in_transit' && (isIncoming || isSuperuser);
+  const canCancel = transfer?.status === 'pending_approval' && (transfer.fromAgencyId === agencyId || isSuperuser);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-1 touch-manipulation">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[98vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-3 border-b bg-gradient-to-r from-blue-50 to-purple-50">
+          <div className="flex items-center gap-2 min-w-0">
+            {(transfer || creating) && (
+              <Button variant="ghost" size="sm" onClick={handleBack} className="p-1">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            )}
+            <div className="min-w-0">
+              <h2 className="text-base font-semibold truncate">
+                {transfer
+                  ? `${transfer.transferNumber} · ${transfer.fromAgencyName ?? 'Unknown'} → ${transfer.toAgencyName ?? 'Unknown'}`
+                  : creating ? 'New Transfer' : 'Stock Transfers'}
+              </h2>
+              <p className="text-xs text-gray-600">
+                {transfer
+                  ? `${transfer.totalQuantity} units · ${formatCurrency(transfer.totalValue)} at cost · raised ${transfer.createdAt.toLocaleString()}${transfer.createdByName ? ` by ${transfer.createdByName}` : ''}`
+                  : `${inTransit.quantity} units (${formatCurrency(inTransit.value)}) on the way to this agency`}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {transfer && <Badge className={STATUS_STYLES[transfer.status]}>{STATUS_LABELS[transfer.status]}</Badge>}
+            <Button variant="ghost" onClick={onClose} className="p-1 hover:bg-gray-100" size="sm">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="p-3 overflow-y-auto flex-1">
+          {loading ? (
+            <p className="text-sm text-gray-600">Loading...</p>
+          ) : creating ? (
+            <div className="space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <Label>Send to</Label>
+                  <Select value={toAgencyId} onValueChange={setToAgencyId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose agency" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {agencies.filter(agency => agency.id !== agencyId).map(agency => (
+                        <SelectItem key={agency.id} value={agency.id}>{agency.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="transfer-notes">Notes</Label>
+                  <Input
+                    id="transfer-notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Vehicle, driver or reason"
+                  />
+                </div>
+              </div>
+
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  placeholder="Search stock by name, code, color or size"
+                  value={stockSearch}
+                  onChange={(e) => setStockSearch(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+
+              <div className="space-y-1">
+                {visibleStock.length === 0 ? (
+                  <p className="text-sm text-gray-600">No stock matches.</p>
+                ) : (
+                  visibleStock.slice(0, 200).map(item => {
+                    const key = itemKey(item);
+                    const quantity = Number(quantities[key] || 0);
+                    return (
+                      <div key={key} className="flex flex-wrap items-center justify-between gap-2 border rounded p-2 text-sm">
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">
+                            {item.productCode ? `[${item.productCode}] ` : ''}{item.productName}
+                          </p>
+                          <p className="text-xs text-gray-500">{item.color}, {item.size} · {item.available} in stock</p>
+                        </div>
+                        <Input
+                          type="number"
+                          min="0"
+                          max={item.available}
+                          inputMode="numeric"
+                          aria-label="Quantity to transfer"
+                          value={quantities[key] ?? ''}
+                          onChange={(e) => setQuantities(prev => ({ ...prev, [key]: e.target.value }))}
+                          className={`w-24 h-8 ${quantity > item.available ? 'border-red-500' : ''}`}
+                        />
+                      </div>
+                    );
+                  })
+                )}
+                {visibleStock.length > 200 && (
+                  <p className="text-xs text-gray-500">Showing the first 200 of {visibleStock.length}; search to narrow the list.</p>
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-3 border-t pt-3">
+                <p className="text-sm text-gray-600">
+                  {selectedItems.length} lines · {selectedItems.reduce((sum, item) => sum + item.quantity, 0)} units.
+                  {!isSuperuser && ` Transfers worth more than ${formatCurrency(threshold)} at cost wait for superuser approval.`}
+                </p>
+                <Button onClick={handleCreate} disabled={busy || !toAgencyId || selectedItems.length === 0}>
+                  <Send className="h-4 w-4 mr-2" />
+                  {busy ? 'Sending...' : 'Dispatch transfer'}
+                </Button>
+              </div>
+            </div>
+          ) : transfer ? (
+            <div className="space-y-3">
+              {(transfer.notes || transfer.rejectionReason || transfer.reviewedByName || transfer.dispatchedAt || transfer.receivedAt) && (
+                <div className="text-sm text-gray-600 space-y-1">
+                  {transfer.notes && <p>Notes: {transfer.notes}</p>}
+                  {transfer.reviewedByName && (
+                    <p>
+                      {transfer.status === 'rejected' ? 'Rejected' : 'Approved'} by {transfer.reviewedByName}
+                      {transfer.reviewedAt ? ` on ${transfer.reviewedAt.toLocaleString()}` : ''}
+                      {transfer.rejectionReason ? `: ${transfer.rejectionReason}` : ''}
+                    </p>
+                  )}
+                  {transfer.dispatchedAt && <p>Dispatched {transfer.dispatchedAt.toLocaleString()}</p>}
+                  {transfer.receivedAt && (
+                    <p>
+                      Received {transfer.receivedAt.toLocaleString()}{transfer.receivedByName ? ` by ${transfer.receivedByName}` : ''}
+                      {transfer.receiptNotes ? `: ${transfer.receiptNotes}` : ''}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="p-2">Product</th>
+                      <th className="p-2 text-right">Sent</th>
+                      <th className="p-2 text-right">Received</th>
+                      <th className="p-2 text-right">Damaged</th>
+                      <th className="p-2 text-right">Short</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lines.map(line => {
+                      const receipt = canReceive ? receiptFor(line) : null;
+                      return (
+                        <tr key={line.id} className="border-b">
+                          <td className="p-2">
+                            <p className="font-medium">{line.productCode ? `[${line.productCode}] ` : ''}{line.productName}</p>
+                            <p className="text-xs text-gray-500">{line.color}, {line.size} · {formatCurrency(line.unitCost)} each</p>
+                          </td>
+                          <td className="p-2 text-right">{line.quantity}</td>
+                          {receipt ? (
+                            <>
+                              <td className="p-2 text-right">
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  inputMode="numeric"
+                                  aria-label="Received quantity"
+                                  value={receipts[line.id]?.received ?? ''}
+                                  placeholder={String(line.quantity - receipt.damaged)}
+                                  onChange={(e) => updateReceipt(line.id, 'received', e.target.value)}
+                                  className="w-20 h-8 ml-auto"
+                                />
+                              </td>
+                              <td className="p-2 text-right">
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  inputMode="numeric"
+                                  aria-label="Damaged quantity"
+                                  value={receipts[line.id]?.damaged ?? ''}
+                                  placeholder="0"
+                                  onChange={(e) => updateReceipt(line.id, 'damaged', e.target.value)}
+                                  className="w-20 h-8 ml-auto"
+                                />
+                              </td>
+                              <td className={`p-2 text-right font-medium ${receipt.short !== 0 ? 'text-red-600' : ''}`}>{receipt.short}</td>
+                            </>
+                          ) : (
+                            <>
+                              <td className="p-2 text-right">{line.receivedQuantity ?? '–'}</td>
+                              <td className={`p-2 text-right ${line.damagedQuantity > 0 ? 'text-orange-600 font-medium' : ''}`}>
+                                {line.receivedQuantity !== undefined ? line.damagedQuantity : '–'}
+                              </td>
+                              <td className={`p-2 text-right ${line.shortQuantity > 0 ? 'text-red-600 font-medium' : ''}`}>
+                                {line.receivedQuantity !== undefined ? line.shortQuantity : '–'}
+                              </td>
+                            </>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {canReceive && (
+                <div className="space-y-2 border-t pt-3">
+                  <p className="text-xs text-gray-500">
+                    Leave a line blank if it arrived in full. Damaged units are recorded but not added to stock.
+                  </p>
+                  <Textarea
+                    placeholder="Receipt notes, e.g. what was damaged"
+                    value={receiptNotes}
+                    onChange={(e) => setReceiptNotes(e.target.value)}
+                    rows={2}
+                  />
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <p className="text-sm text-gray-600">
+                      {receiptTotals.received} received · {receiptTotals.damaged} damaged · {receiptTotals.short} short
+                    </p>
+                    <Button onClick={handleReceive} disabled={busy}>
+                      <PackageCheck className="h-4 w-4 mr-2" />
+                      {busy ? 'Receiving...' : 'Confirm receipt'}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {transfer.status === 'pending_approval' && (
+                <div className="flex flex-wrap items-center justify-between gap-3 border-t pt-3">
+                  <p className="text-sm text-gray-600">
+                    Worth more than {formatCurrency(threshold)}; stock leaves once a superuser approves.
+                  </p>
+                  <div className="flex gap-2">
+                    {canCancel && (
+                      <Button variant="outline" onClick={handleCancel} disabled={busy}>
+                        Cancel transfer
+                      </Button>
+                    )}
+                    {isSuperuser && (
+                      <>
+                        <Button variant="outline" onClick={() => handleReview(false)} disabled={busy} className="text-red-700">
+                          Reject
+                        </Button>
+                        <Button onClick={() => handleReview(true)} disabled={busy}>
+                          <Check className="h-4 w-4 mr-2" />
+                          Approve and dispatch
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-end justify-between gap-3">
+                <Button onClick={openNewTransfer} disabled={!agencyId}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  New transfer
+                </Button>
+                {isSuperuser && (
+                  <div className="flex items-end gap-2">
+                    <div>
+                      <Label htmlFor="transfer-threshold" className="text-xs">Approval needed above (LKR)</Label>
+                      <Input
+                        id="transfer-threshold"
+                        type="number"
+                        min="0"
+                        value={thresholdDraft}
+                        onChange={(e) => setThresholdDraft(e.target.value)}
+                        className="w-36 h-9"
+                      />
+                    </div>
+                    <Button
+                      variant="outline"
+                      onClick={handleSaveThreshold}
+                      disabled={busy || thresholdDraft === '' || Number(thresholdDraft) === threshold}
+                    >
+                      Save
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {transfers.length === 0 ? (
+                <p className="text-sm text-gray-600">No transfers yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {transfers.map(item => {
+                    const incoming = item.toAgencyId === agencyId;
+                    return (
+                      <button
+                        key={item.id}
+                        onClick={() => openTransfer(item)}
+                        className="w-full flex flex-wrap items-center justify-between gap-2 border rounded-lg p-3 text-left hover:bg-gray-50"
+                      >
+                        <div className="flex items-center gap-3 min-w-0">
+                          {incoming ? (
+                            <Truck className="h-5 w-5 text-blue-600 shrink-0" />
+                          ) : (
+                            <ArrowRightLeft className="h-5 w-5 text-gray-500 shrink-0" />
+                          )}
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">
+                              {item.transferNumber} · {item.fromAgencyName ?? 'Unknown'} → {item.toAgencyName ?? 'Unknown'}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {item.lineCount} lines · {item.totalQuantity} units · {formatCurrency(item.totalValue)} · {item.createdAt.toLocaleDateString()}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {item.status === 'received' && (item.damagedQuantity > 0 || item.shortQuantity > 0) && (
+                            <span className="text-xs text-red-600">
+                              {item.damagedQuantity} damaged · {item.shortQuantity} short
+                            </span>
+                          )}
+                          <Badge className={STATUS_STYLES[item.status]}>{STATUS_LABELS[item.status]}</Badge>
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockTransfers;
@@ -0,0 +1,230 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Product, ProductBarcode } from '@/types/product';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Barcode, Printer } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { assignProductBarcodes, getProductBarcodes, setProductBarcode } from '@/utils/barcodes';
+import { printBarcodeLabels } from '@/utils/barcodeLabels';
+
+interface BarcodeLabelsProps {
+  products: Product[];
+  canEditBarcodes: boolean; // Superusers can enter supplier barcodes
+  onClose: () => void;
+}
+
+interface LabelVariant {
+  key: string;
+  product: Product;
+  color: string;
+  size: string;
+}
+
+const variantKey = (productId: string, color: string, size: string) => `${productId}|${color}|${size}`;
+
+// Products without colors or sizes have one 'Default' variant, as assign_product_barcodes creates them
+const listVariants = (products: Product[]): LabelVariant[] =>
+  products.flatMap(product => {
+    const colors = product.colors.length > 0 ? product.colors : ['Default'];
+    const sizes = product.sizes.length > 0 ? product.sizes : ['Default'];
+    return colors.flatMap(color => sizes.map(size => ({
+      key: variantKey(product.id, color, size),
+      product,
+      color,
+      size
+    })));
+  });
+
+const BarcodeLabels = ({ products, canEditBarcodes, onClose }: BarcodeLabelsProps) => {
+  const [barcodes, setBarcodes] = useState<Map<string, ProductBarcode>>(new Map());
+  const [copies, setCopies] = useState<Record<string, string>>({});
+  const [editing, setEditing] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const { toast } = useToast();
+
+  const variants = useMemo(() => listVariants(products), [products]);
+  const missingCount = variants.filter(variant => !barcodes.has(variant.key)).length;
+
+  const fetchBarcodes = async () => {
+    try {
+      setLoading(true);
+      const rows = await getProductBarcodes(products.map(product => product.id));
+      setBarcodes(new Map(rows.map(row => [variantKey(row.productId, row.color, row.size), row])));
+    } catch (error) {
+      console.error('Error fetching barcodes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load barcodes",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The parent may pass a freshly filtered array on every render
+  const productIdsKey = products.map(product => product.id).join(',');
+
+  useEffect(() => {
+    fetchBarcodes();
+  }, [productIdsKey]);
+
+  const handleGenerate = async () => {
+    try {
+      setGenerating(true);
+      const created = await assignProductBarcodes(products.map(product => product.id));
+      await fetchBarcodes();
+      toast({
+        title: "Barcodes generated",
+        description: `${created} new barcodes created`,
+      });
+    } catch (error) {
+      console.error('Error generating barcodes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to generate barcodes",
+        variant: "destructive"
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleSaveBarcode = async (variant: LabelVariant) => {
+    try {
+      await setProductBarcode({ productId: variant.product.id, color: variant.color, size: variant.size }, editing[variant.key] || '');
+      setEditing(prev => {
+        const next = { ...prev };
+        delete next[variant.key];
+        return next;
+      });
+      await fetchBarcodes();
+    } catch (error) {
+      console.error('Error saving barcode:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save barcode",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handlePrint = () => {
+    try {
+      printBarcodeLabels(
+        variants
+          .filter(variant => barcodes.has(variant.key))
+          .map(variant => {
+            const barcode = barcodes.get(variant.key)!;
+            return {
+              productName: variant.product.name,
+              color: variant.color,
+              size: variant.size,
+              price: variant.product.sellingPrice,
+              barcode: barcode.barcode,
+              symbology: barcode.symbology,
+              copies: Number(copies[variant.key] ?? 1) || 0
+            };
+          })
+      );
+    } catch (error) {
+      toast({
+        title: "Print Error",
+        description: error instanceof Error ? error.message : "Failed to print labels",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Barcode className="h-5 w-5" />
+            Barcode Labels ({products.length} products)
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-sm text-gray-600">
+            {missingCount > 0 ? `${missingCount} variants have no barcode yet.` : 'Every variant has a barcode.'}
+          </p>
+          <div className="flex gap-2">
+            {missingCount > 0 && (
+              <Button variant="outline" onClick={handleGenerate} disabled={generating}>
+                {generating ? 'Generating...' : 'Generate missing'}
+              </Button>
+            )}
+            <Button onClick={handlePrint} disabled={loading || barcodes.size === 0}>
+              <Printer className="h-4 w-4 mr-2" />
+              Print labels
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-gray-600">Loading barcodes...</p>
+        ) : (
+          <div className="space-y-1">
+            {variants.map(variant => {
+              const barcode = barcodes.get(variant.key);
+              const draft = editing[variant.key];
+              return (
+                <div key={variant.key} className="flex flex-wrap items-center justify-between gap-2 border-t pt-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{variant.product.name}</p>
+                    <p className="text-xs text-gray-500">{variant.color}, {variant.size}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {draft !== undefined ? (
+                      <>
+                        <Input
+                          value={draft}
+                          onChange={(e) => setEditing(prev => ({ ...prev, [variant.key]: e.target.value }))}
+                          placeholder="Supplier barcode"
+                          className="w-44 h-8"
+                        />
+                        <Button size="sm" onClick={() => handleSaveBarcode(variant)}>Save</Button>
+                      </>
+                    ) : barcode ? (
+                      <Badge
+                        variant="outline"
+                        className={`font-mono ${canEditBarcodes ? 'cursor-pointer' : ''}`}
+                        onClick={() => canEditBarcodes && setEditing(prev => ({ ...prev, [variant.key]: barcode.barcode }))}
+                      >
+                        {barcode.barcode}
+                      </Badge>
+                    ) : (
+                      <Badge
+                        variant="outline"
+                        className={`text-orange-700 ${canEditBarcodes ? 'cursor-pointer' : ''}`}
+                        onClick={() => canEditBarcodes && setEditing(prev => ({ ...prev, [variant.key]: '' }))}
+                      >
+                        No barcode
+                      </Badge>
+                    )}
+                    <Input
+                      type="number"
+                      min="0"
+                      aria-label="Number of labels"
+                      value={copies[variant.key] ?? '1'}
+                      onChange={(e) => setCopies(prev => ({ ...prev, [variant.key]: e.target.value }))}
+                      disabled={!barcode}
+                      className="w-16 h-8"
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BarcodeLabels;
@@ -5,9 +5,10 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Search, Edit, Trash2, Package } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, Package, Barcode } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import BarcodeLabels from './BarcodeLabels';
 
 interface ProductCatalogProps {
   user: User;
@@ -20,6 +21,7 @@ const ProductCatalog = memo(({ user }: ProductCatalogProps) => {
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [labelProducts, setLabelProducts] = useState<Product[] | null>(null);
   const { toast } = useToast();
 
   // Form state
@@ -414,13 +416,23 @@ const ProductCatalog = memo(({ user }: ProductCatalogProps) => {
           <h2 className="text-2xl font-bold text-gray-900">Product Catalog</h2>
           <p className="text-gray-600">Manage your product inventory</p>
         </div>
-        <Button 
-          onClick={() => setShowCreateForm(true)}
-          className="bg-blue-600 hover:bg-blue-700"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Product
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setLabelProducts(filteredProducts)}
+            disabled={filteredProducts.length === 0}
+          >
+            <Barcode className="h-4 w-4 mr-2" />
+            Print Labels
+          </Button>
+          <Button 
+            onClick={() => setShowCreateForm(true)}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Product
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -489,6 +501,14 @@ const ProductCatalog = memo(({ user }: ProductCatalogProps) => {
                     )}
                   </div>
                   <div className="flex gap-1">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setLabelProducts([product])}
+                      title="Barcode labels"
+                    >
+                      <Barcode className="h-4 w-4" />
+                    </Button>
                     <Button
                       size="sm"
                       variant="ghost"
@@ -558,6 +578,14 @@ const ProductCatalog = memo(({ user }: ProductCatalogProps) => {
           ))}
         </div>
       )}
+
+      {labelProducts && (
+        <BarcodeLabels
+          products={labelProducts}
+          canEditBarcodes={user.role === 'superuser'}
+          onClose={() => setLabelProducts(null)}
+        />
+      )}
     </div>
   );
 };
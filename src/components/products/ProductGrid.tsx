@@ -4,9 +4,10 @@ import { User } from '@/types/auth';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
-import { Image as ImageIcon, Search, Grid, List, Plus, Camera, Upload } from 'lucide-react';
+import { Image as ImageIcon, Search, Grid, List, Plus, Camera, Upload, Barcode } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import BarcodeLabels from './BarcodeLabels';
 
 interface ProductGridProps {
   products: Product[];
@@ -20,6 +21,7 @@ const ProductGrid = ({ products, user, onAdd, onProductUpdate, isLoading = false
   const [searchTerm, setSearchTerm] = useState('');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('list'); // Default to list view
   const [uploadingImage, setUploadingImage] = useState<string | null>(null);
+  const [showLabels, setShowLabels] = useState(false);
   const { toast } = useToast();
 
   const filteredProducts = products.filter(product =>
@@ -210,6 +212,15 @@ const ProductGrid = ({ products, user, onAdd, onProductUpdate, isLoading = false
             </div>
             
             <div className="flex items-center gap-3">
+              <Button
+                variant="outline"
+                onClick={() => setShowLabels(true)}
+                disabled={filteredProducts.length === 0}
+                className="h-12 px-6 rounded-xl"
+              >
+                <Barcode className="h-5 w-5 mr-2" />
+                Print Labels
+              </Button>
               {onAdd && (
                 <Button 
                   onClick={onAdd} 
@@ -385,6 +396,14 @@ const ProductGrid = ({ products, user, onAdd, onProductUpdate, isLoading = false
           </div>
         )}
       </div>
+
+      {showLabels && (
+        <BarcodeLabels
+          products={filteredProducts}
+          canEditBarcodes={user.role === 'superuser'}
+          onClose={() => setShowLabels(false)}
+        />
+      )}
     </div>
   );
 };
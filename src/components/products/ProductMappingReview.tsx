@@ -0,0 +1,356 @@
+import { Fragment, useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { User } from '@/types/auth';
+import type { Product, ProductMapping, ProductMappingSource, ProductMappingStatus, ProductMatchMethod } from '@/types/product';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, GitMerge, RefreshCw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { getProductMappingQueue, reviewProductMappings } from '@/utils/productMappings';
+
+interface ProductMappingReviewProps {
+  user: User;
+  onBack: () => void;
+}
+
+interface VariantTarget {
+  productId: string;
+  color: string;
+  size: string;
+}
+
+const SOURCE_LABELS: Record<ProductMappingSource, string> = {
+  odoo: 'Odoo',
+  global_bot: 'Bot sync',
+  invoice_ocr: 'Invoice OCR',
+  external_inventory: 'External inventory'
+};
+
+const METHOD_LABELS: Record<ProductMatchMethod, string> = {
+  manual: 'Picked by hand',
+  merged: 'Merged',
+  exact_name: 'Exact name',
+  code: 'Product code',
+  contains: 'Similar name',
+  none: 'No candidate',
+  created: 'Created by auto-match'
+};
+
+const ProductMappingReview = ({ user, onBack }: ProductMappingReviewProps) => {
+  const [mappings, setMappings] = useState<ProductMapping[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ProductMappingStatus>('suggested');
+  const [sourceFilter, setSourceFilter] = useState<'all' | ProductMappingSource>('all');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null); // A mapping id, or 'merge' for the selection
+  const [target, setTarget] = useState<VariantTarget>({ productId: '', color: 'Default', size: 'Default' });
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchProducts();
+  }, []);
+
+  useEffect(() => {
+    fetchMappings();
+  }, [statusFilter, sourceFilter]);
+
+  const fetchMappings = async () => {
+    try {
+      setLoading(true);
+      setSelectedIds(new Set());
+      setEditingId(null);
+      setMappings(await getProductMappingQueue({
+        status: statusFilter,
+        source: sourceFilter === 'all' ? undefined : sourceFilter
+      }));
+    } catch (error) {
+      console.error('Error fetching product mappings:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load product mappings.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchProducts = async () => {
+    const { data, error } = await supabase.from('products').select('*').order('name');
+    if (error) {
+      console.error('Error fetching products:', error);
+      return;
+    }
+    setProducts((data || []).map(item => ({
+      id: item.id,
+      name: item.name,
+      category: item.category,
+      subCategory: item.sub_category || '',
+      colors: item.colors || [],
+      sizes: item.sizes || [],
+      sellingPrice: item.selling_price,
+      billingPrice: item.billing_price,
+      image: item.image || '',
+      description: item.description || '',
+    })));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const startEditing = (id: string, mapping?: ProductMapping) => {
+    setEditingId(id);
+    setTarget({
+      productId: mapping?.productId || '',
+      color: mapping?.color || 'Default',
+      size: mapping?.size || 'Default'
+    });
+  };
+
+  const changeTargetProduct = (productId: string) => {
+    const product = products.find(p => p.id === productId);
+    setTarget({ productId, color: product?.colors[0] || 'Default', size: product?.sizes[0] || 'Default' });
+  };
+
+  const handleReview = async (ids: string[], action: 'confirm' | 'reject' | 'merge', variant?: VariantTarget) => {
+    try {
+      setReviewing(true);
+      const count = await reviewProductMappings(ids, action, variant);
+      toast({
+        title: action === 'reject' ? 'Mappings Rejected' : action === 'merge' ? 'Mappings Merged' : 'Mappings Confirmed',
+        description: `${count} mapping(s) reviewed.`,
+      });
+      fetchMappings();
+    } catch (error) {
+      console.error('Error reviewing product mappings:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to review product mappings.',
+        variant: 'destructive',
+      });
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  if (user.role !== 'superuser') {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600">Only superusers can review product mappings.</p>
+      </div>
+    );
+  }
+
+  const targetProduct = products.find(p => p.id === target.productId);
+  const selected = mappings.filter(mapping => selectedIds.has(mapping.id));
+
+  const renderVariantPicker = (onSave: () => void, saveLabel: string) => (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={target.productId} onValueChange={changeTargetProduct}>
+        <SelectTrigger className="h-8 w-56">
+          <SelectValue placeholder="Product" />
+        </SelectTrigger>
+        <SelectContent>
+          {products.map(product => (
+            <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {targetProduct && targetProduct.colors.length > 0 && (
+        <Select value={target.color} onValueChange={(color) => setTarget(prev => ({ ...prev, color }))}>
+          <SelectTrigger className="h-8 w-28">
+            <SelectValue placeholder="Color" />
+          </SelectTrigger>
+          <SelectContent>
+            {targetProduct.colors.map(color => (
+              <SelectItem key={color} value={color}>{color}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {targetProduct && targetProduct.sizes.length > 0 && (
+        <Select value={target.size} onValueChange={(size) => setTarget(prev => ({ ...prev, size }))}>
+          <SelectTrigger className="h-8 w-24">
+            <SelectValue placeholder="Size" />
+          </SelectTrigger>
+          <SelectContent>
+            {targetProduct.sizes.map(size => (
+              <SelectItem key={size} value={size}>{size}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Button size="sm" onClick={onSave} disabled={reviewing || !target.productId}>{saveLabel}</Button>
+      <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>Cancel</Button>
+    </div>
+  );
+
+  return (
+    <div className="p-4 space-y-4">
+      <Button variant="ghost" onClick={onBack} className="flex items-center gap-2">
+        <ArrowLeft className="h-4 w-4" /> Back
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2">
+              <GitMerge className="h-5 w-5" />
+              Product Matching
+            </CardTitle>
+            <Button variant="outline" size="sm" onClick={fetchMappings} disabled={loading} className="flex items-center gap-2">
+              <RefreshCw className="h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Products seen by Odoo imports, the bot sync, invoice OCR and the inventory auto-matcher. Syncs only use
+            confirmed matches; confirm or correct the suggestions here, or merge names that are the same product.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ProductMappingStatus)}>
+              <SelectTrigger className="sm:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="suggested">To review</SelectItem>
+                <SelectItem value="confirmed">Confirmed</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={sourceFilter} onValueChange={(value) => setSourceFilter(value as typeof sourceFilter)}>
+              <SelectTrigger className="sm:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All sources</SelectItem>
+                {(Object.keys(SOURCE_LABELS) as ProductMappingSource[]).map(source => (
+                  <SelectItem key={source} value={source}>{SOURCE_LABELS[source]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selected.length > 0 && (
+            <div className="space-y-2 rounded-md border bg-slate-50 p-3 text-sm">
+              <p>{selected.length} selected</p>
+              {editingId === 'merge' ? (
+                renderVariantPicker(() => handleReview([...selectedIds], 'merge', target), 'Merge into this product')
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleReview([...selectedIds], 'confirm')}
+                    disabled={reviewing || selected.some(mapping => !mapping.productId)}
+                  >
+                    Confirm selected
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => startEditing('merge', selected.find(m => m.productId))}>
+                    Merge selected
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleReview([...selectedIds], 'reject')} disabled={reviewing}>
+                    Reject selected
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : mappings.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Nothing to show.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8"></TableHead>
+                  <TableHead>External product</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Our product</TableHead>
+                  <TableHead>Match</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {mappings.map(mapping => (
+                  <Fragment key={mapping.id}>
+                    <TableRow>
+                      <TableCell>
+                        <Checkbox checked={selectedIds.has(mapping.id)} onCheckedChange={() => toggleSelected(mapping.id)} />
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        <p className="font-medium">{mapping.externalName || mapping.externalKey}</p>
+                        <p className="text-gray-500">
+                          {[mapping.externalCode, mapping.externalColor, mapping.externalSize].filter(Boolean).join(' · ')}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-xs">{SOURCE_LABELS[mapping.source] || mapping.source}</TableCell>
+                      <TableCell className="text-xs">
+                        {mapping.productName ? `${mapping.productName} (${mapping.color}, ${mapping.size})` : '-'}
+                      </TableCell>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        <Badge
+                          variant="secondary"
+                          className={mapping.confidence >= 1 ? 'text-green-700 bg-green-50' : mapping.confidence >= 0.8 ? 'text-blue-700 bg-blue-50' : 'text-orange-600 bg-orange-50'}
+                        >
+                          {Math.round(mapping.confidence * 100)}%
+                        </Badge>
+                        <span className="ml-2 text-gray-500">{METHOD_LABELS[mapping.matchMethod]}</span>
+                        {mapping.reviewedAt && (
+                          <p className="text-gray-400">{format(mapping.reviewedAt, 'dd MMM yyyy')}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {mapping.status !== 'confirmed' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleReview([mapping.id], 'confirm')}
+                            disabled={reviewing || !mapping.productId}
+                          >
+                            Confirm
+                          </Button>
+                        )}
+                        <Button size="sm" variant="ghost" onClick={() => startEditing(mapping.id, mapping)}>Change</Button>
+                        {mapping.status !== 'rejected' && (
+                          <Button size="sm" variant="ghost" onClick={() => handleReview([mapping.id], 'reject')} disabled={reviewing}>
+                            Reject
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                    {editingId === mapping.id && (
+                      <TableRow className="bg-slate-50 hover:bg-slate-50">
+                        <TableCell colSpan={6}>
+                          {renderVariantPicker(() => handleReview([mapping.id], 'confirm', target), 'Confirm this product')}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ProductMappingReview;
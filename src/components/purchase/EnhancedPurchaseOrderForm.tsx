@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { User } from '@/types/auth';
-import { Product } from '@/types/product';
+import { Product, ScannedProduct } from '@/types/product';
 import { PurchaseOrderItem } from '@/types/purchase';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -13,19 +13,22 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { sendSMS, SmsTemplates } from '@/services/sms.service';
 import { generateAndUploadPurchaseOrderPdf } from '@/services/invoice-pdf.service';
+import BarcodeScanButton from '@/components/camera/BarcodeScanButton';
 
 interface EnhancedPurchaseOrderFormProps {
   user: User;
   onSuccess: () => void;
   onCancel: () => void;
   editingOrder?: import('@/types/purchase').PurchaseOrder;
+  // Lines to start a new order with, e.g. from the suggested purchase screen
+  initialItems?: PurchaseOrderItem[];
 }
 
 interface OrderSummaryItem extends PurchaseOrderItem {
   tempId: string;
 }
 
-const EnhancedPurchaseOrderForm = ({ user, onSuccess, onCancel, editingOrder }: EnhancedPurchaseOrderFormProps) => {
+const EnhancedPurchaseOrderForm = ({ user, onSuccess, onCancel, editingOrder, initialItems }: EnhancedPurchaseOrderFormProps) => {
   const isEditing = !!editingOrder;
   const [products, setProducts] = useState<Product[]>([]);
   const [selectedCategory, setSelectedCategory] = useState('');
@@ -53,6 +56,13 @@ const EnhancedPurchaseOrderForm = ({ user, onSuccess, onCancel, editingOrder }:
           tempId: item.id || `edit-${index}-${Date.now()}`,
         }))
       );
+    } else if (initialItems) {
+      setOrderSummary(
+        initialItems.map((item, index) => ({
+          ...item,
+          tempId: `initial-${index}-${Date.now()}`,
+        }))
+      );
     }
   }, []);
 
@@ -250,6 +260,34 @@ const EnhancedPurchaseOrderForm = ({ user, onSuccess, onCancel, editingOrder }:
     });
   };
 
+  // Each scan adds one unit of the labelled variant, merging with a line already in the summary
+  const addScannedItem = ({ product, color, size }: ScannedProduct) => {
+    setOrderSummary(prev => {
+      const existing = prev.find(item => item.productId === product.id && item.color === color && item.size === size);
+      if (existing) {
+        return prev.map(item => item === existing
+          ? { ...item, quantity: item.quantity + 1, total: item.unitPrice * (item.quantity + 1) }
+          : item
+        );
+      }
+      return [...prev, {
+        tempId: `${product.id}-${color}-${size}-${Date.now()}`,
+        id: '',
+        productId: product.id,
+        productName: product.name,
+        color,
+        size,
+        quantity: 1,
+        unitPrice: product.billingPrice,
+        total: product.billingPrice
+      }];
+    });
+    toast({
+      title: "Item scanned",
+      description: `${product.name} (${color}, ${size}) added to order summary`
+    });
+  };
+
   const removeFromOrderSummary = (tempId: string) => {
     setOrderSummary(prev => prev.filter(item => item.tempId !== tempId));
   };
@@ -396,7 +434,10 @@ const EnhancedPurchaseOrderForm = ({ user, onSuccess, onCancel, editingOrder }:
             .single();
           const phones = (setting?.value || '').split(',').map((p: string) => p.trim()).filter(Boolean);
           phones.forEach((phone: string) => {
-            sendSMS(phone, SmsTemplates.purchaseOrderUpdated(agencyName, orderId.slice(0, 8).toUpperCase(), total, pdfUrl ?? undefined));
+            sendSMS(phone, SmsTemplates.purchaseOrderUpdated(agencyName, orderId.slice(0, 8).toUpperCase(), total, pdfUrl ?? undefined), {
+              agencyId: user.agencyId,
+              related: { type: 'purchase_order', id: orderId },
+            });
           });
         });
 
@@ -461,7 +502,10 @@ const EnhancedPurchaseOrderForm = ({ user, onSuccess, onCancel, editingOrder }:
             .single();
           const phones = (setting?.value || '').split(',').map((p: string) => p.trim()).filter(Boolean);
           phones.forEach((phone: string) => {
-            sendSMS(phone, SmsTemplates.purchaseOrderCreated(agencyName, orderId.slice(0, 8).toUpperCase(), total, pdfUrl ?? undefined));
+            sendSMS(phone, SmsTemplates.purchaseOrderCreated(agencyName, orderId.slice(0, 8).toUpperCase(), total, pdfUrl ?? undefined), {
+              agencyId: user.agencyId,
+              related: { type: 'purchase_order', id: orderId },
+            });
           });
         });
       }
@@ -488,7 +532,8 @@ const EnhancedPurchaseOrderForm = ({ user, onSuccess, onCancel, editingOrder }:
           <ArrowLeft className="h-4 w-4 mr-2" />
           Back
         </Button>
-        <h2 className="text-2xl font-bold text-gray-900">{isEditing ? 'Edit Purchase Order' : 'Create Purchase Order'}</h2>
+        <h2 className="text-2xl font-bold text-gray-900 flex-1">{isEditing ? 'Edit Purchase Order' : 'Create Purchase Order'}</h2>
+        <BarcodeScanButton onScan={addScannedItem} />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -0,0 +1,613 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { User } from '@/types/auth';
+import type { PurchaseOrder, PurchaseOrderEvent, PurchaseOrderEventType, PurchaseOrderItem, PurchaseOrderShipment } from '@/types/purchase';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ArrowLeft,
+  CheckCircle,
+  FileText,
+  PackageCheck,
+  Pencil,
+  Receipt,
+  RefreshCw,
+  Truck,
+  XCircle,
+  type LucideIcon,
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { SmsTemplates } from '@/services/sms.service';
+import {
+  approvePurchaseOrder,
+  cancelPurchaseOrder,
+  closePurchaseOrderShipping,
+  createPurchaseOrderShipment,
+  formatPurchaseOrderNumber,
+  getPurchaseOrderEvents,
+  getPurchaseOrderShipments,
+  getUnmatchedGRNs,
+  linkShipmentGRN,
+  notifyDeliveredPurchaseOrders,
+  notifyPurchaseOrder,
+} from '@/utils/purchaseOrderLifecycle';
+
+interface PurchaseOrderTrackingProps {
+  user: User;
+  order: PurchaseOrder;
+  onBack: () => void;
+  onChanged: () => void;
+}
+
+const POLL_INTERVAL_MS = 30000;
+
+const STEPS: Array<{ status: PurchaseOrder['status']; label: string }> = [
+  { status: 'pending', label: 'Placed' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'shipped', label: 'Shipped' },
+  { status: 'delivered', label: 'Delivered' }
+];
+
+const EVENT_ICONS: Record<PurchaseOrderEventType, LucideIcon> = {
+  created: FileText,
+  revised: Pencil,
+  approved: CheckCircle,
+  shipped: Truck,
+  invoiced: Receipt,
+  received: PackageCheck,
+  delivered: PackageCheck,
+  cancelled: XCircle
+};
+
+type UnmatchedGRN = Awaited<ReturnType<typeof getUnmatchedGRNs>>[number];
+
+const PurchaseOrderTracking = ({ user, order, onBack, onChanged }: PurchaseOrderTrackingProps) => {
+  const [events, setEvents] = useState<PurchaseOrderEvent[]>([]);
+  const [shipments, setShipments] = useState<PurchaseOrderShipment[]>([]);
+  const [unmatchedGRNs, setUnmatchedGRNs] = useState<UnmatchedGRN[]>([]);
+  const [approvals, setApprovals] = useState<Record<string, string>>({});
+  const [approvalNotes, setApprovalNotes] = useState('');
+  const [shipQuantities, setShipQuantities] = useState<Record<string, string>>({});
+  const [invoiceReference, setInvoiceReference] = useState('');
+  const [shipmentNotes, setShipmentNotes] = useState('');
+  const [closeOrder, setCloseOrder] = useState(false);
+  const [grnSelection, setGrnSelection] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const isSuperuser = user.role === 'superuser';
+  const isOpen = order.status !== 'delivered' && order.status !== 'cancelled';
+  const canShip = isSuperuser && (order.status === 'approved' || order.status === 'shipped') && !order.shippingClosed;
+  const orderNumber = formatPurchaseOrderNumber(order.id);
+
+  useEffect(() => {
+    loadTracking();
+  }, [order.id, order.status]);
+
+  // Keep the timeline live while the order is still moving
+  useEffect(() => {
+    if (!isOpen) return;
+    const interval = setInterval(() => {
+      loadTracking();
+      onChanged();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [order.id, isOpen]);
+
+  const loadTracking = async () => {
+    try {
+      const [orderEvents, orderShipments] = await Promise.all([
+        getPurchaseOrderEvents(order.id),
+        getPurchaseOrderShipments(order.id)
+      ]);
+      setEvents(orderEvents);
+      setShipments(orderShipments);
+
+      if (isSuperuser && orderShipments.some(shipment => !shipment.grnId)) {
+        setUnmatchedGRNs(await getUnmatchedGRNs(order.agencyId));
+      }
+    } catch (error) {
+      console.error('Error loading purchase order tracking:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the order timeline",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    console.error(fallback, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  };
+
+  const approvedQuantity = (item: PurchaseOrderItem) => item.approvedQuantity ?? item.quantity;
+  const remainingToShip = (item: PurchaseOrderItem) => Math.max(approvedQuantity(item) - (item.shippedQuantity ?? 0), 0);
+
+  // Quantity on shipments whose GRN has been received, to compare against what actually arrived
+  const shippedOnReceivedShipments = (itemId: string) =>
+    shipments
+      .filter(shipment => shipment.status === 'received')
+      .flatMap(shipment => shipment.lines)
+      .filter(line => line.purchaseOrderItemId === itemId)
+      .reduce((sum, line) => sum + line.quantity, 0);
+
+  const handleApprove = async () => {
+    const lines = order.items.map(item => ({ item, approved: Number(approvals[item.id] ?? item.quantity) }));
+    const invalid = lines.find(line => !Number.isInteger(line.approved) || line.approved < 0 || line.approved > line.item.quantity);
+    if (invalid) {
+      toast({
+        title: "Check Quantities",
+        description: `Approved quantity for ${invalid.item.productName} (${invalid.item.color}, ${invalid.item.size}) must be between 0 and ${invalid.item.quantity}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const approvedTotal = lines.reduce((sum, line) => sum + line.approved * line.item.unitPrice, 0);
+
+    try {
+      setBusy(true);
+      await approvePurchaseOrder(
+        order.id,
+        lines
+          .filter(line => line.approved < line.item.quantity)
+          .map(line => ({ itemId: line.item.id, approvedQuantity: line.approved })),
+        approvalNotes.trim()
+      );
+      notifyPurchaseOrder(order, SmsTemplates.purchaseOrderApproved(order.agencyName, orderNumber, approvedTotal, approvalNotes.trim() || undefined), 'agency');
+      toast({ title: "Order Approved", description: `${orderNumber} approved for LKR ${approvedTotal.toLocaleString()}` });
+      setApprovals({});
+      setApprovalNotes('');
+      onChanged();
+    } catch (error) {
+      showError(error, 'Failed to approve order');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleShip = async () => {
+    if (!invoiceReference.trim()) {
+      toast({ title: "Invoice Required", description: "Enter the Odoo invoice reference for this shipment.", variant: "destructive" });
+      return;
+    }
+
+    const items = order.items
+      .map(item => ({ itemId: item.id, quantity: Number(shipQuantities[item.id] ?? remainingToShip(item)) }))
+      .filter(item => item.quantity !== 0);
+    if (items.some(item => !Number.isInteger(item.quantity) || item.quantity < 0) || items.length === 0) {
+      toast({ title: "Check Quantities", description: "Enter a whole quantity to ship for at least one line.", variant: "destructive" });
+      return;
+    }
+
+    const units = items.reduce((sum, item) => sum + item.quantity, 0);
+
+    try {
+      setBusy(true);
+      await createPurchaseOrderShipment(order.id, invoiceReference.trim(), items, shipmentNotes.trim(), closeOrder);
+      notifyPurchaseOrder(order, SmsTemplates.purchaseOrderShipped(order.agencyName, orderNumber, units, invoiceReference.trim()), 'agency');
+      toast({ title: "Shipment Dispatched", description: `${units} pcs dispatched on ${invoiceReference.trim()}` });
+      setShipQuantities({});
+      setInvoiceReference('');
+      setShipmentNotes('');
+      setCloseOrder(false);
+      onChanged();
+    } catch (error) {
+      showError(error, 'Failed to dispatch shipment');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    const reason = window.prompt(`Reason for cancelling order ${orderNumber}?`);
+    if (reason === null) return;
+
+    try {
+      setBusy(true);
+      await cancelPurchaseOrder(order.id, reason.trim());
+      notifyPurchaseOrder(
+        order,
+        SmsTemplates.purchaseOrderCancelled(order.agencyName, orderNumber, reason.trim() || undefined),
+        isSuperuser ? 'agency' : 'head_office'
+      );
+      toast({ title: "Order Cancelled", description: `${orderNumber} has been cancelled` });
+      onChanged();
+    } catch (error) {
+      showError(error, 'Failed to cancel order');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCloseShipping = async () => {
+    const reason = window.prompt('No further shipments will be made on this order. Reason (optional):');
+    if (reason === null) return;
+
+    try {
+      setBusy(true);
+      await closePurchaseOrderShipping(order.id, reason.trim());
+      if (shipments.every(shipment => shipment.status === 'received')) {
+        notifyPurchaseOrder(order, SmsTemplates.purchaseOrderDelivered(order.agencyName, orderNumber), 'head_office');
+      }
+      toast({ title: "Shipping Closed", description: `No further shipments will be made on ${orderNumber}` });
+      onChanged();
+      loadTracking();
+    } catch (error) {
+      showError(error, 'Failed to close shipping');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleMatchGRN = async (shipment: PurchaseOrderShipment) => {
+    const grnId = grnSelection[shipment.id];
+    if (!grnId) return;
+
+    try {
+      setBusy(true);
+      await linkShipmentGRN(shipment.id, grnId);
+      notifyDeliveredPurchaseOrders(grnId);
+      toast({ title: "GRN Matched", description: `${shipment.shipmentNumber} has been matched to the GRN` });
+      onChanged();
+      loadTracking();
+    } catch (error) {
+      showError(error, 'Failed to match GRN');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const currentStep = STEPS.findIndex(step => step.status === order.status);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Button variant="ghost" onClick={onBack} className="flex items-center gap-2">
+          <ArrowLeft className="h-4 w-4" /> Back
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => { loadTracking(); onChanged(); }} className="flex items-center gap-2">
+          <RefreshCw className="h-4 w-4" /> Refresh
+        </Button>
+      </div>
+
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Order {orderNumber}</h2>
+        <p className="text-gray-600">{order.agencyName} · placed {order.createdAt.toLocaleDateString()}</p>
+        <p className="text-sm text-gray-500">
+          Ordered LKR {order.total.toLocaleString()}
+          {order.approvedTotal !== undefined && ` · Approved LKR ${order.approvedTotal.toLocaleString()}`}
+        </p>
+      </div>
+
+      {/* Progress */}
+      {order.status === 'cancelled' ? (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          Cancelled{order.cancelledByName ? ` by ${order.cancelledByName}` : ''}
+          {order.cancelledAt ? ` on ${format(order.cancelledAt, 'dd MMM yyyy')}` : ''}
+          {order.cancellationReason ? `: ${order.cancellationReason}` : ''}
+        </div>
+      ) : (
+        <div className="flex items-center">
+          {STEPS.map((step, index) => (
+            <div key={step.status} className="flex flex-1 items-center last:flex-none">
+              <div className="flex flex-col items-center gap-1">
+                <div className={`h-8 w-8 rounded-full flex items-center justify-center text-sm font-semibold ${
+                  index <= currentStep ? 'bg-purple-600 text-white' : 'bg-gray-200 text-gray-500'
+                }`}>
+                  {index + 1}
+                </div>
+                <span className={`text-xs ${index <= currentStep ? 'text-purple-700 font-medium' : 'text-gray-500'}`}>{step.label}</span>
+              </div>
+              {index < STEPS.length - 1 && (
+                <div className={`h-0.5 flex-1 mx-2 mb-5 ${index < currentStep ? 'bg-purple-600' : 'bg-gray-200'}`} />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* PO <-> shipment <-> GRN per line */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Lines</CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Ordered</TableHead>
+                <TableHead className="text-right">Approved</TableHead>
+                <TableHead className="text-right">Shipped</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+                {isSuperuser && order.status === 'pending' && <TableHead className="text-right">Approve</TableHead>}
+                {canShip && <TableHead className="text-right">Ship now</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {order.items.map(item => {
+                const approved = approvedQuantity(item);
+                const shipped = item.shippedQuantity ?? 0;
+                const received = item.receivedQuantity ?? 0;
+                const arrived = shippedOnReceivedShipments(item.id);
+                const approvalCut = order.approvedAt && approved < item.quantity;
+                const shippingShort = (order.shippingClosed || order.status === 'delivered') && shipped < approved;
+                const receivingShort = received < arrived;
+
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <div className="font-medium">{item.productName}</div>
+                      <div className="text-xs text-gray-500">{item.color} · {item.size}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{item.quantity}</TableCell>
+                    <TableCell className={`text-right ${approvalCut ? 'text-amber-600 font-semibold' : ''}`}>
+                      {order.approvedAt ? approved : '-'}
+                    </TableCell>
+                    <TableCell className={`text-right ${shippingShort ? 'text-amber-600 font-semibold' : ''}`}>
+                      {shipped}
+                    </TableCell>
+                    <TableCell className={`text-right ${receivingShort ? 'text-red-600 font-semibold' : ''}`}>
+                      {received}
+                      {receivingShort && <div className="text-xs">{arrived - received} short</div>}
+                    </TableCell>
+                    {isSuperuser && order.status === 'pending' && (
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={item.quantity}
+                          value={approvals[item.id] ?? String(item.quantity)}
+                          onChange={(e) => setApprovals(prev => ({ ...prev, [item.id]: e.target.value }))}
+                          className="w-20 ml-auto"
+                        />
+                      </TableCell>
+                    )}
+                    {canShip && (
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={remainingToShip(item)}
+                          value={shipQuantities[item.id] ?? String(remainingToShip(item))}
+                          onChange={(e) => setShipQuantities(prev => ({ ...prev, [item.id]: e.target.value }))}
+                          className="w-20 ml-auto"
+                          disabled={remainingToShip(item) === 0}
+                        />
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Actions */}
+      {isSuperuser && order.status === 'pending' && (
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            <Textarea
+              placeholder="Approval notes for the agency (optional)"
+              value={approvalNotes}
+              onChange={(e) => setApprovalNotes(e.target.value)}
+              rows={2}
+            />
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleApprove} disabled={busy}>
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Approve
+              </Button>
+              <Button variant="outline" onClick={handleCancel} disabled={busy}>
+                <XCircle className="h-4 w-4 mr-2" />
+                Cancel Order
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {canShip && (
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                placeholder="Odoo invoice reference"
+                value={invoiceReference}
+                onChange={(e) => setInvoiceReference(e.target.value)}
+                className="sm:max-w-xs"
+              />
+              <Input
+                placeholder="Shipment notes (optional)"
+                value={shipmentNotes}
+                onChange={(e) => setShipmentNotes(e.target.value)}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <Checkbox checked={closeOrder} onCheckedChange={(checked) => setCloseOrder(checked === true)} />
+              Last shipment for this order
+            </label>
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleShip} disabled={busy}>
+                <Truck className="h-4 w-4 mr-2" />
+                Dispatch Shipment
+              </Button>
+              {order.status === 'shipped' && (
+                <Button variant="outline" onClick={handleCloseShipping} disabled={busy}>
+                  Close Shipping
+                </Button>
+              )}
+              {order.status === 'approved' && (
+                <Button variant="outline" onClick={handleCancel} disabled={busy}>
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Cancel Order
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {!isSuperuser && order.status === 'pending' && (
+        <Button variant="outline" onClick={handleCancel} disabled={busy}>
+          <XCircle className="h-4 w-4 mr-2" />
+          Cancel Order
+        </Button>
+      )}
+
+      {/* Shipments */}
+      {shipments.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Shipments</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {shipments.map(shipment => {
+              const grnDifference = shipment.grnTotal !== undefined ? shipment.grnTotal - shipment.totalValue : 0;
+              const invoiceDifference = shipment.odooInvoiceTotal !== undefined ? shipment.odooInvoiceTotal - shipment.totalValue : 0;
+              const receivedDifference = shipment.receivedQuantity !== undefined ? shipment.receivedQuantity - shipment.totalQuantity : 0;
+
+              return (
+                <div key={shipment.id} className="rounded-md border p-3 space-y-2 text-sm">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">{shipment.shipmentNumber}</span>
+                      <Badge variant={shipment.status === 'received' ? 'default' : 'outline'}>
+                        {shipment.status === 'received' ? 'Received' : 'In transit'}
+                      </Badge>
+                    </div>
+                    <span className="text-xs text-gray-500">
+                      {format(shipment.dispatchedAt, 'dd MMM yyyy')}
+                      {shipment.dispatchedByName ? ` · ${shipment.dispatchedByName}` : ''}
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-xs">
+                    <div>
+                      <div className="text-gray-500">Shipped</div>
+                      <div>{shipment.totalQuantity} pcs · LKR {shipment.totalValue.toLocaleString()}</div>
+                      <div className="text-gray-500">Invoice {shipment.invoiceReference}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-500">Odoo invoice</div>
+                      {shipment.odooInvoiceName ? (
+                        <div className={Math.abs(invoiceDifference) >= 0.01 ? 'text-amber-600 font-semibold' : ''}>
+                          {shipment.odooInvoiceName} · LKR {shipment.odooInvoiceTotal?.toLocaleString()}
+                          {Math.abs(invoiceDifference) >= 0.01 && ` (${invoiceDifference > 0 ? '+' : ''}${invoiceDifference.toLocaleString()})`}
+                        </div>
+                      ) : (
+                        <div className="text-gray-400">Not synced yet</div>
+                      )}
+                    </div>
+                    <div>
+                      <div className="text-gray-500">GRN</div>
+                      {shipment.grnId ? (
+                        <div className={receivedDifference !== 0 || Math.abs(grnDifference) >= 0.01 ? 'text-red-600 font-semibold' : ''}>
+                          {shipment.status === 'received'
+                            ? `${shipment.receivedQuantity} of ${shipment.totalQuantity} pcs received`
+                            : `Awaiting receipt (${shipment.grnStatus ?? 'pending'})`}
+                          {shipment.grnTotal !== undefined && Math.abs(grnDifference) >= 0.01 &&
+                            ` · GRN LKR ${shipment.grnTotal.toLocaleString()}`}
+                        </div>
+                      ) : (
+                        <div className="text-gray-400">Not arrived yet</div>
+                      )}
+                    </div>
+                  </div>
+
+                  {shipment.status === 'received' && receivedDifference !== 0 && (
+                    <div className="space-y-0.5 border-t pt-2 text-xs">
+                      {shipment.lines
+                        .filter(line => (line.receivedQuantity ?? 0) !== line.quantity)
+                        .map(line => (
+                          <div key={line.id} className="flex justify-between text-red-600">
+                            <span>{line.productName} ({line.color}, {line.size})</span>
+                            <span>{line.quantity} shipped · {line.receivedQuantity ?? 0} received</span>
+                          </div>
+                        ))}
+                    </div>
+                  )}
+
+                  {isSuperuser && !shipment.grnId && unmatchedGRNs.length > 0 && (
+                    <div className="flex flex-col sm:flex-row gap-2 border-t pt-2">
+                      <Select
+                        value={grnSelection[shipment.id] ?? ''}
+                        onValueChange={(value) => setGrnSelection(prev => ({ ...prev, [shipment.id]: value }))}
+                      >
+                        <SelectTrigger className="sm:max-w-sm">
+                          <SelectValue placeholder="Match a GRN by hand" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {unmatchedGRNs.map(grn => (
+                            <SelectItem key={grn.id} value={grn.id}>
+                              {grn.invoice_file_name || grn.invoice_id} · LKR {Number(grn.total).toLocaleString()} · {grn.status}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button size="sm" variant="outline" onClick={() => handleMatchGRN(shipment)} disabled={busy || !grnSelection[shipment.id]}>
+                        Match GRN
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Timeline */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Timeline</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-gray-500">No activity recorded yet.</p>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-3 space-y-4">
+              {events.map(event => {
+                const Icon = EVENT_ICONS[event.eventType] ?? FileText;
+                return (
+                  <li key={event.id} className="ml-6">
+                    <span className={`absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ${
+                      event.eventType === 'cancelled' ? 'bg-red-100 text-red-600' : 'bg-purple-100 text-purple-600'
+                    }`}>
+                      <Icon className="h-3.5 w-3.5" />
+                    </span>
+                    <p className="text-sm font-medium capitalize">{event.eventType}</p>
+                    {event.description && <p className="text-sm text-gray-600">{event.description}</p>}
+                    <p className="text-xs text-gray-400">
+                      {format(event.createdAt, 'dd MMM yyyy, hh:mm a')}
+                      {event.createdByName ? ` · ${event.createdByName}` : ''}
+                    </p>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PurchaseOrderTracking;
@@ -1,14 +1,16 @@
 import { useState, useEffect } from 'react';
 import { User } from '@/types/auth';
-import { PurchaseOrder } from '@/types/purchase';
+import { PurchaseOrder, PurchaseOrderItem } from '@/types/purchase';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Search, Eye, Plus, Package, Pencil } from 'lucide-react';
+import { Search, Eye, Plus, Package, Pencil, ListChecks, Truck } from 'lucide-react';
 import EnhancedPurchaseOrderForm from './EnhancedPurchaseOrderForm';
+import SuggestedPurchase from './SuggestedPurchase';
 import PrintablePurchaseOrder from './PrintablePurchaseOrder';
+import PurchaseOrderTracking from './PurchaseOrderTracking';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 
@@ -21,8 +23,11 @@ const PurchaseOrders = ({ user }: PurchaseOrdersProps) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [suggestedItems, setSuggestedItems] = useState<PurchaseOrderItem[] | undefined>(undefined);
   const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
   const [selectedOrder, setSelectedOrder] = useState<PurchaseOrder | null>(null);
+  const [trackingOrderId, setTrackingOrderId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
 
@@ -30,9 +35,9 @@ const PurchaseOrders = ({ user }: PurchaseOrdersProps) => {
     fetchOrders();
   }, [user]);
 
-  const fetchOrders = async () => {
+  const fetchOrders = async (showLoading = true) => {
     try {
-      setIsLoading(true);
+      if (showLoading) setIsLoading(true);
       
       // Fetch purchase orders with role-based filtering
       let ordersQuery = supabase.from('purchase_orders').select('*');
@@ -70,7 +75,10 @@ const PurchaseOrders = ({ user }: PurchaseOrdersProps) => {
             size: item.size,
             quantity: item.quantity,
             unitPrice: Number(item.unit_price),
-            total: Number(item.total)
+            total: Number(item.total),
+            approvedQuantity: item.approved_quantity ?? undefined,
+            shippedQuantity: item.shipped_quantity,
+            receivedQuantity: item.received_quantity
           })),
           total: Number(order.total),
           status: order.status,
@@ -80,7 +88,16 @@ const PurchaseOrders = ({ user }: PurchaseOrdersProps) => {
           },
           notes: order.notes,
           createdAt: new Date(order.created_at),
-          createdBy: order.created_by
+          createdBy: order.created_by,
+          approvedTotal: order.approved_total ?? undefined,
+          approvalNotes: order.approval_notes || undefined,
+          approvedByName: order.approved_by_name || undefined,
+          approvedAt: order.approved_at ? new Date(order.approved_at) : undefined,
+          shippingClosed: order.shipping_closed,
+          deliveredAt: order.delivered_at ? new Date(order.delivered_at) : undefined,
+          cancellationReason: order.cancellation_reason || undefined,
+          cancelledByName: order.cancelled_by_name || undefined,
+          cancelledAt: order.cancelled_at ? new Date(order.cancelled_at) : undefined
         };
       });
 
@@ -121,15 +138,39 @@ const PurchaseOrders = ({ user }: PurchaseOrdersProps) => {
   const handleOrderSuccess = async () => {
     await fetchOrders();
     setShowCreateForm(false);
+    setShowSuggestions(false);
+    setSuggestedItems(undefined);
     setEditingOrder(null);
   };
 
+  const handleCreateFromSuggestions = (items: PurchaseOrderItem[]) => {
+    setSuggestedItems(items);
+    setShowCreateForm(true);
+  };
+
+  const handleCancelCreate = () => {
+    // Orders started from suggestions go back to the suggestion list
+    setShowCreateForm(false);
+    setSuggestedItems(undefined);
+  };
+
   if (showCreateForm) {
     return (
       <EnhancedPurchaseOrderForm
         user={user}
         onSuccess={handleOrderSuccess}
-        onCancel={() => setShowCreateForm(false)}
+        onCancel={handleCancelCreate}
+        initialItems={suggestedItems}
+      />
+    );
+  }
+
+  if (showSuggestions) {
+    return (
+      <SuggestedPurchase
+        user={user}
+        onCreateOrder={handleCreateFromSuggestions}
+        onCancel={() => setShowSuggestions(false)}
       />
     );
   }
@@ -145,6 +186,18 @@ const PurchaseOrders = ({ user }: PurchaseOrdersProps) => {
     );
   }
 
+  const trackingOrder = trackingOrderId ? orders.find(order => order.id === trackingOrderId) : undefined;
+  if (trackingOrder) {
+    return (
+      <PurchaseOrderTracking
+        user={user}
+        order={trackingOrder}
+        onBack={() => setTrackingOrderId(null)}
+        onChanged={() => fetchOrders(false)}
+      />
+    );
+  }
+
   if (selectedOrder) {
     return (
       <PrintablePurchaseOrder
@@ -183,10 +236,18 @@ const PurchaseOrders = ({ user }: PurchaseOrdersProps) => {
             Total Orders: {filteredOrders.length}
           </div>
         </div>
-        <Button onClick={() => setShowCreateForm(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Create Order
-        </Button>
+        <div className="flex gap-2">
+          {user.agencyId && (
+            <Button variant="outline" onClick={() => setShowSuggestions(true)}>
+              <ListChecks className="h-4 w-4 mr-2" />
+              Suggested Purchase
+            </Button>
+          )}
+          <Button onClick={() => setShowCreateForm(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Order
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -271,6 +332,14 @@ const PurchaseOrders = ({ user }: PurchaseOrdersProps) => {
                         <Eye className="h-4 w-4 mr-1" />
                         View
                       </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setTrackingOrderId(order.id)}
+                      >
+                        <Truck className="h-4 w-4 mr-1" />
+                        {user.role === 'superuser' && (order.status === 'pending' || order.status === 'approved') ? 'Process' : 'Track'}
+                      </Button>
                       {order.status === 'pending' && user.role !== 'superuser' && (
                         <Button
                           size="sm"
@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import { User } from '@/types/auth';
+import { PurchaseOrderItem } from '@/types/purchase';
+import type { PurchaseSuggestion } from '@/types/inventory';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, ShoppingCart } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getPurchaseSuggestions } from '@/utils/reorderLevels';
+import ReorderLevels from '@/components/inventory/ReorderLevels';
+
+interface SuggestedPurchaseProps {
+  user: User;
+  onCreateOrder: (items: PurchaseOrderItem[]) => void;
+  onCancel: () => void;
+}
+
+const SALES_WINDOWS = [4, 8, 12, 26];
+
+const suggestionKey = (suggestion: PurchaseSuggestion) =>
+  `${suggestion.ledgerProductName}|${suggestion.color}|${suggestion.size}`;
+
+const SuggestedPurchase = ({ user, onCreateOrder, onCancel }: SuggestedPurchaseProps) => {
+  const [suggestions, setSuggestions] = useState<PurchaseSuggestion[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [salesWeeks, setSalesWeeks] = useState(8);
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchSuggestions = async () => {
+    if (!user.agencyId) return;
+    try {
+      setIsLoading(true);
+      const data = await getPurchaseSuggestions(user.agencyId, salesWeeks);
+      setSuggestions(data);
+      setQuantities(Object.fromEntries(data.map(suggestion => [suggestionKey(suggestion), suggestion.suggestedQuantity])));
+    } catch (error) {
+      console.error('Error fetching purchase suggestions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load purchase suggestions",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, [user.agencyId, salesWeeks]);
+
+  const orderable = suggestions.filter(suggestion =>
+    suggestion.productId && (quantities[suggestionKey(suggestion)] || 0) > 0
+  );
+
+  const handleCreateOrder = () => {
+    // Ledger rows without a colour or size are stored as 'Default'; the order form lists them as they are
+    const items: PurchaseOrderItem[] = orderable.map(suggestion => {
+      const quantity = quantities[suggestionKey(suggestion)];
+      return {
+        id: '',
+        productId: suggestion.productId || '',
+        productName: suggestion.productName,
+        color: suggestion.color,
+        size: suggestion.size,
+        quantity,
+        unitPrice: suggestion.unitPrice,
+        total: quantity * suggestion.unitPrice
+      };
+    });
+    onCreateOrder(items);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <h2 className="text-2xl font-bold text-gray-900">Suggested Purchase</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label className="text-sm text-gray-600">Sales window</Label>
+          <Select value={String(salesWeeks)} onValueChange={(value) => setSalesWeeks(Number(value))}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SALES_WINDOWS.map(weeks => (
+                <SelectItem key={weeks} value={String(weeks)}>{weeks} weeks</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {!user.agencyId ? (
+        <Card>
+          <CardContent className="p-8 text-center text-gray-600">
+            Suggestions are based on your agency's stock. Your profile has no agency.
+          </CardContent>
+        </Card>
+      ) : (
+        <Tabs defaultValue="suggestions">
+          <TabsList>
+            <TabsTrigger value="suggestions">Suggestions</TabsTrigger>
+            <TabsTrigger value="levels">Reorder Levels</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="suggestions">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+                  <span>Below Minimum Stock</span>
+                  <Button onClick={handleCreateOrder} disabled={orderable.length === 0}>
+                    <ShoppingCart className="h-4 w-4 mr-2" />
+                    Create Purchase Order ({orderable.length})
+                  </Button>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {isLoading ? (
+                  <p className="text-sm text-gray-600">Loading suggestions...</p>
+                ) : suggestions.length === 0 ? (
+                  <p className="text-sm text-gray-600">
+                    Nothing to reorder. Variants appear here once stock plus open purchase orders falls to the minimum level.
+                  </p>
+                ) : (
+                  suggestions.map(suggestion => {
+                    const key = suggestionKey(suggestion);
+                    return (
+                      <div key={key} className="flex flex-wrap items-center justify-between gap-3 border-t pt-2 text-sm">
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium truncate">{suggestion.productName}</p>
+                            {!suggestion.productId && (
+                              <Badge variant="outline" className="text-xs text-orange-700">Not in catalog</Badge>
+                            )}
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            {suggestion.color}, {suggestion.size} · Stock {suggestion.currentStock} · Min {suggestion.minimumStock} / Max {suggestion.maximumStock}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-6">
+                          <div className="text-center">
+                            <p className="text-xs text-gray-600">Sell-through</p>
+                            <p className={suggestion.sellThroughDays !== undefined && suggestion.sellThroughDays < 7 ? 'font-semibold text-red-600' : 'font-semibold'}>
+                              {suggestion.sellThroughDays !== undefined ? `${suggestion.sellThroughDays} days` : 'No sales'}
+                            </p>
+                          </div>
+                          <div className="text-center">
+                            <p className="text-xs text-gray-600">On order</p>
+                            <p className="font-semibold">{suggestion.onOrderQuantity}</p>
+                          </div>
+                          <div className="text-center">
+                            <p className="text-xs text-gray-600">Order qty</p>
+                            <Input
+                              type="number"
+                              min="0"
+                              aria-label="Order quantity"
+                              value={quantities[key] ?? 0}
+                              onChange={(e) => setQuantities(prev => ({ ...prev, [key]: Math.max(0, Number(e.target.value) || 0) }))}
+                              disabled={!suggestion.productId}
+                              className="w-20"
+                            />
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="levels">
+            <ReorderLevels
+              agencyId={user.agencyId}
+              userId={user.id}
+              salesWeeks={salesWeeks}
+              onChanged={fetchSuggestions}
+            />
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+};
+
+export default SuggestedPurchase;
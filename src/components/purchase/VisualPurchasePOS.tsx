@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { User } from '@/types/auth';
 import { PurchaseOrder, PurchaseOrderItem } from '@/types/purchase';
-import { Product } from '@/types/product';
+import { Product, ScannedProduct } from '@/types/product';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -11,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { ArrowLeft, Plus, Minus, Trash, MapPin, ShoppingCart } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import BarcodeScanButton from '@/components/camera/BarcodeScanButton';
 
 interface VisualPurchasePOSProps {
   user: User;
@@ -124,6 +125,32 @@ const VisualPurchasePOS = ({ user, onSubmit, onCancel }: VisualPurchasePOSProps)
     setQuantity(1);
   };
 
+  const addScannedItem = ({ product, color, size }: ScannedProduct) => {
+    setOrderItems(prev => {
+      const existing = prev.find(item => item.productId === product.id && item.color === color && item.size === size);
+      if (existing) {
+        return prev.map(item => item === existing
+          ? { ...item, quantity: item.quantity + 1, total: item.unitPrice * (item.quantity + 1) }
+          : item
+        );
+      }
+      return [...prev, {
+        id: Date.now().toString(),
+        productId: product.id,
+        productName: product.name,
+        color,
+        size,
+        quantity: 1,
+        unitPrice: product.billingPrice,
+        total: product.billingPrice
+      }];
+    });
+    toast({
+      title: "Added to order",
+      description: `${product.name} (${color}, ${size})`,
+    });
+  };
+
   const updateQuantity = (itemId: string, quantity: number) => {
     if (quantity <= 0) {
       removeItem(itemId);
@@ -215,6 +242,7 @@ const VisualPurchasePOS = ({ user, onSubmit, onCancel }: VisualPurchasePOSProps)
             <h2 className="text-xl font-bold">Visual Purchase Order</h2>
             <p className="text-sm text-gray-600">Visual interface for ordering inventory</p>
           </div>
+          <BarcodeScanButton onScan={addScannedItem} />
           <Button
             onClick={captureGPS}
             variant={gpsCoordinates.latitude !== 0 ? "default" : "outline"}
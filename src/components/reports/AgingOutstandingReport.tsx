@@ -22,8 +22,10 @@ interface Agency {
   name: string;
 }
 
+// An invoice or an approved debit note; a debit note ages from the day it was raised
 interface AgingInvoice {
   id: string;
+  documentType: 'invoice' | 'debit_note';
   invoiceNumber: string | null;
   displayInvoiceNumber: string;
   customerId: string | null;
@@ -33,6 +35,7 @@ interface AgingInvoice {
   total: number;
   paidAmount: number;
   returnAmount: number;
+  creditAmount: number;
   outstanding: number;
   ageDays: number;
   bucket: AgingBucketKey;
@@ -145,7 +148,37 @@ const AgingOutstandingReport = ({ user, onBack }: AgingOutstandingReportProps) =
       );
 
       const invoiceIds = invoices.map(invoice => invoice.id);
-      if (invoiceIds.length === 0) {
+
+      const creditNotes = await fetchAllSupabaseRows<{
+        customer_id: string;
+        invoice_id: string | null;
+        amount: number;
+      }>(() =>
+        supabase
+          .from('customer_credit_notes')
+          .select('customer_id, invoice_id, amount')
+          .eq('agency_id', selectedAgency)
+          .eq('status', 'approved')
+          .lte('created_at', asOfEnd)
+      );
+
+      const debitNotes = await fetchAllSupabaseRows<{
+        id: string;
+        debit_note_number: string;
+        customer_id: string;
+        amount: number;
+        created_at: string;
+        customers: { name: string } | null;
+      }>(() =>
+        supabase
+          .from('customer_debit_notes')
+          .select('id, debit_note_number, customer_id, amount, created_at, customers!customer_debit_notes_customer_id_fkey(name)')
+          .eq('agency_id', selectedAgency)
+          .eq('status', 'approved')
+          .lte('created_at', asOfEnd)
+      );
+
+      if (invoiceIds.length === 0 && debitNotes.length === 0) {
         setRows([]);
         return;
       }
@@ -163,28 +196,41 @@ const AgingOutstandingReport = ({ user, onBack }: AgingOutstandingReportProps) =
           invoiceDisplayNumbers.set(invoice.id, `${agencyPrefix}${String(index + 1).padStart(3, '0')}`);
         });
 
-      const allocations = await fetchAllSupabaseRows<{
-        invoice_id: string;
+      type AllocationRow = {
+        invoice_id: string | null;
+        debit_note_id: string | null;
         collection_id: string;
         allocated_amount: number;
-      }>(() =>
-        supabase
-          .from('collection_allocations')
-          .select('invoice_id, collection_id, allocated_amount')
-          .in('invoice_id', invoiceIds)
-      );
+      };
+      const debitNoteIds = debitNotes.map(note => note.id);
+      const invoiceAllocations = invoiceIds.length > 0
+        ? await fetchAllSupabaseRows<AllocationRow>(() =>
+            supabase
+              .from('collection_allocations')
+              .select('invoice_id, debit_note_id, collection_id, allocated_amount')
+              .in('invoice_id', invoiceIds)
+          )
+        : [];
+      const debitNoteAllocations = debitNoteIds.length > 0
+        ? await fetchAllSupabaseRows<AllocationRow>(() =>
+            supabase
+              .from('collection_allocations')
+              .select('invoice_id, debit_note_id, collection_id, allocated_amount')
+              .in('debit_note_id', debitNoteIds)
+          )
+        : [];
+      const allocations = [...invoiceAllocations, ...debitNoteAllocations];
 
       const collectionIds = Array.from(new Set(allocations.map(allocation => allocation.collection_id)));
       const collections = collectionIds.length > 0
         ? await fetchAllSupabaseRows<{
             id: string;
-            total_amount: number;
             cash_amount: number | null;
             cash_discount: number | null;
           }>(() =>
             supabase
               .from('collections')
-              .select('id, total_amount, cash_amount, cash_discount')
+              .select('id, cash_amount, cash_discount')
               .in('id', collectionIds)
           )
         : [];
@@ -203,17 +249,19 @@ const AgingOutstandingReport = ({ user, onBack }: AgingOutstandingReportProps) =
           )
         : [];
 
-      const returns = await fetchAllSupabaseRows<{
-        invoice_id: string | null;
-        total: number | null;
-        status: string | null;
-      }>(() =>
-        supabase
-          .from('returns')
-          .select('invoice_id, total, status')
-          .in('invoice_id', invoiceIds)
-          .in('status', ['approved', 'processed'])
-      );
+      const returns = invoiceIds.length > 0
+        ? await fetchAllSupabaseRows<{
+            invoice_id: string | null;
+            total: number | null;
+            status: string | null;
+          }>(() =>
+            supabase
+              .from('returns')
+              .select('invoice_id, total, status')
+              .in('invoice_id', invoiceIds)
+              .in('status', ['approved', 'processed'])
+          )
+        : [];
 
       const chequesByCollection = new Map<string, typeof cheques>();
       cheques.forEach((cheque) => {
@@ -222,33 +270,35 @@ const AgingOutstandingReport = ({ user, onBack }: AgingOutstandingReportProps) =
         chequesByCollection.set(cheque.collection_id, list);
       });
 
+      // Returned and held cheques already reverse their allocations, so only future-dated cheques are discounted here
       const collectionPaymentRatio = new Map<string, number>();
       collections.forEach((collection) => {
-        const collectionCheques = chequesByCollection.get(collection.id) || [];
+        const collectionCheques = (chequesByCollection.get(collection.id) || [])
+          .filter((cheque) => !['returned', 'held', 'resolved', 'bounced'].includes(cheque.status || 'pending'));
+        const goodChequeAmount = collectionCheques.reduce((sum, cheque) => sum + Number(cheque.amount || 0), 0);
         const eligibleChequeAmount = collectionCheques.reduce((sum, cheque) => {
-          if (cheque.status === 'returned' || cheque.status === 'held' || cheque.status === 'resolved') return sum;
           if (includeFutureCheques) return sum + Number(cheque.amount || 0);
 
           const chequeDate = new Date(`${cheque.cheque_date}T23:59:59`);
           return chequeDate <= asOf ? sum + Number(cheque.amount || 0) : sum;
         }, 0);
-        const eligiblePayment = roundMoney(
-          Number(collection.cash_amount || 0) +
-          Number(collection.cash_discount || 0) +
-          eligibleChequeAmount
-        );
-        const totalAmount = Number(collection.total_amount || 0);
-        const ratio = totalAmount > 0 ? Math.min(eligiblePayment / totalAmount, 1) : 0;
+        const cashPayment = Number(collection.cash_amount || 0) + Number(collection.cash_discount || 0);
+        const eligiblePayment = roundMoney(cashPayment + eligibleChequeAmount);
+        const goodPayment = roundMoney(cashPayment + goodChequeAmount);
+        const ratio = goodPayment > 0 ? Math.min(eligiblePayment / goodPayment, 1) : 0;
         collectionPaymentRatio.set(collection.id, ratio);
       });
 
+      // Keyed by invoice or debit note id; collections pay both
       const paidByInvoice = new Map<string, number>();
       allocations.forEach((allocation) => {
+        const documentId = allocation.invoice_id || allocation.debit_note_id;
+        if (!documentId) return;
         const ratio = collectionPaymentRatio.get(allocation.collection_id) ?? 1;
         const eligibleAllocatedAmount = roundMoney(Number(allocation.allocated_amount || 0) * ratio);
         paidByInvoice.set(
-          allocation.invoice_id,
-          roundMoney((paidByInvoice.get(allocation.invoice_id) || 0) + eligibleAllocatedAmount)
+          documentId,
+          roundMoney((paidByInvoice.get(documentId) || 0) + eligibleAllocatedAmount)
         );
       });
 
@@ -261,17 +311,35 @@ const AgingOutstandingReport = ({ user, onBack }: AgingOutstandingReportProps) =
         );
       });
 
-      const reportRows = invoices
+      // Credit notes on an invoice come off that invoice; standalone ones are applied to the oldest documents below
+      const creditsByInvoice = new Map<string, number>();
+      const standaloneCreditsByCustomer = new Map<string, number>();
+      creditNotes.forEach((note) => {
+        if (note.invoice_id) {
+          creditsByInvoice.set(note.invoice_id, roundMoney((creditsByInvoice.get(note.invoice_id) || 0) + Number(note.amount)));
+        } else {
+          standaloneCreditsByCustomer.set(
+            note.customer_id,
+            roundMoney((standaloneCreditsByCustomer.get(note.customer_id) || 0) + Number(note.amount))
+          );
+        }
+      });
+
+      const getAgeDays = (date: Date) => Math.max(0, Math.floor((asOf.getTime() - date.getTime()) / (24 * 60 * 60 * 1000)));
+
+      const invoiceRows: AgingInvoice[] = invoices
         .map((invoice) => {
           const invoiceDate = invoice.created_at ? new Date(invoice.created_at) : asOf;
-          const ageDays = Math.max(0, Math.floor((asOf.getTime() - invoiceDate.getTime()) / (24 * 60 * 60 * 1000)));
+          const ageDays = getAgeDays(invoiceDate);
           const total = Number(invoice.total || 0);
           const paidAmount = paidByInvoice.get(invoice.id) || 0;
           const returnAmount = returnsByInvoice.get(invoice.id) || 0;
-          const outstanding = Math.max(0, roundMoney(total - paidAmount - returnAmount));
+          const creditAmount = creditsByInvoice.get(invoice.id) || 0;
+          const outstanding = Math.max(0, roundMoney(total - paidAmount - returnAmount - creditAmount));
 
           return {
             id: invoice.id,
+            documentType: 'invoice' as const,
             invoiceNumber: invoice.invoice_number,
             displayInvoiceNumber: isCompactInvoiceNumber(invoice.invoice_number)
               ? invoice.invoice_number
@@ -283,15 +351,52 @@ const AgingOutstandingReport = ({ user, onBack }: AgingOutstandingReportProps) =
             total,
             paidAmount,
             returnAmount,
+            creditAmount,
             outstanding,
             ageDays,
             bucket: getAgeBucket(ageDays),
           };
-        })
-        .filter((invoice) => invoice.outstanding > 0)
+        });
+
+      const debitNoteRows: AgingInvoice[] = debitNotes.map((note) => {
+        const ageDays = getAgeDays(new Date(note.created_at));
+        const total = Number(note.amount);
+        const paidAmount = paidByInvoice.get(note.id) || 0;
+
+        return {
+          id: note.id,
+          documentType: 'debit_note',
+          invoiceNumber: note.debit_note_number,
+          displayInvoiceNumber: note.debit_note_number,
+          customerId: note.customer_id,
+          customerName: note.customers?.name || '',
+          agencyId: selectedAgency,
+          invoiceDate: note.created_at,
+          total,
+          paidAmount,
+          returnAmount: 0,
+          creditAmount: 0,
+          outstanding: Math.max(0, roundMoney(total - paidAmount)),
+          ageDays,
+          bucket: getAgeBucket(ageDays),
+        };
+      });
+
+      const reportRows = [...invoiceRows, ...debitNoteRows]
         .sort((a, b) => b.ageDays - a.ageDays || b.outstanding - a.outstanding);
 
-      setRows(reportRows);
+      reportRows.forEach((row) => {
+        if (!row.customerId || row.outstanding <= 0) return;
+        const available = standaloneCreditsByCustomer.get(row.customerId) || 0;
+        if (available <= 0) return;
+
+        const applied = Math.min(available, row.outstanding);
+        row.creditAmount = roundMoney(row.creditAmount + applied);
+        row.outstanding = roundMoney(row.outstanding - applied);
+        standaloneCreditsByCustomer.set(row.customerId, roundMoney(available - applied));
+      });
+
+      setRows(reportRows.filter((row) => row.outstanding > 0));
     } catch (error) {
       console.error('Error fetching aging outstanding report:', error);
       toast({
@@ -378,7 +483,7 @@ const AgingOutstandingReport = ({ user, onBack }: AgingOutstandingReportProps) =
       '91-120',
       '120+',
       'Total Outstanding',
-      'Invoice Count',
+      'Document Count',
       'Agency',
       'Future Cheques Included',
     ];
@@ -418,7 +523,7 @@ const AgingOutstandingReport = ({ user, onBack }: AgingOutstandingReportProps) =
           </Button>
           <div>
             <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Aging Outstanding Report</h1>
-            <p className="text-gray-600">Outstanding invoices by aging bucket</p>
+            <p className="text-gray-600">Outstanding invoices and debit notes by aging bucket</p>
           </div>
         </div>
 
@@ -491,7 +596,7 @@ const AgingOutstandingReport = ({ user, onBack }: AgingOutstandingReportProps) =
                 <CardContent className="p-4">
                   <p className="text-sm text-gray-600">{bucketLabels[bucket]} Days</p>
                   <p className="text-xl font-bold text-gray-900">{formatCurrency(bucketTotals[bucket].amount)}</p>
-                  <p className="text-xs text-gray-500">{bucketTotals[bucket].count} invoice{bucketTotals[bucket].count === 1 ? '' : 's'}</p>
+                  <p className="text-xs text-gray-500">{bucketTotals[bucket].count} document{bucketTotals[bucket].count === 1 ? '' : 's'}</p>
                 </CardContent>
               </Card>
             ))}
@@ -524,7 +629,7 @@ const AgingOutstandingReport = ({ user, onBack }: AgingOutstandingReportProps) =
                         <th className="px-3 py-3 text-right font-medium">91-120</th>
                         <th className="px-3 py-3 text-right font-medium">120+</th>
                         <th className="px-3 py-3 text-right font-medium">Total</th>
-                        <th className="px-3 py-3 text-right font-medium">Invoices</th>
+                        <th className="px-3 py-3 text-right font-medium">Documents</th>
                       </tr>
                     </thead>
                     <tbody>
@@ -560,13 +665,14 @@ const AgingOutstandingReport = ({ user, onBack }: AgingOutstandingReportProps) =
                                     <table className="min-w-full text-xs">
                                       <thead className="bg-gray-50 text-gray-600">
                                         <tr>
-                                          <th className="px-3 py-2 text-left font-medium">Invoice Date</th>
-                                          <th className="px-3 py-2 text-left font-medium">Invoice #</th>
+                                          <th className="px-3 py-2 text-left font-medium">Date</th>
+                                          <th className="px-3 py-2 text-left font-medium">Document #</th>
                                           <th className="px-3 py-2 text-right font-medium">Age</th>
                                           <th className="px-3 py-2 text-left font-medium">Bucket</th>
-                                          <th className="px-3 py-2 text-right font-medium">Invoice Total</th>
+                                          <th className="px-3 py-2 text-right font-medium">Total</th>
                                           <th className="px-3 py-2 text-right font-medium">Payments</th>
                                           <th className="px-3 py-2 text-right font-medium">Returns</th>
+                                          <th className="px-3 py-2 text-right font-medium">Credit Notes</th>
                                           <th className="px-3 py-2 text-right font-medium">Outstanding</th>
                                         </tr>
                                       </thead>
@@ -574,7 +680,12 @@ const AgingOutstandingReport = ({ user, onBack }: AgingOutstandingReportProps) =
                                         {customer.invoices.map((invoice) => (
                                           <tr key={invoice.id} className="border-t">
                                             <td className="px-3 py-2 text-gray-700">{new Date(invoice.invoiceDate).toLocaleDateString()}</td>
-                                            <td className="px-3 py-2 text-gray-700 font-mono text-xs">{invoice.displayInvoiceNumber}</td>
+                                            <td className="px-3 py-2 text-gray-700 font-mono text-xs">
+                                              {invoice.displayInvoiceNumber}
+                                              {invoice.documentType === 'debit_note' && (
+                                                <Badge variant="outline" className="ml-2">Debit note</Badge>
+                                              )}
+                                            </td>
                                             <td className="px-3 py-2 text-right text-gray-700">{invoice.ageDays}</td>
                                             <td className="px-3 py-2">
                                               <Badge variant={invoice.bucket === 'days120Plus' ? 'destructive' : 'secondary'}>
@@ -584,6 +695,7 @@ const AgingOutstandingReport = ({ user, onBack }: AgingOutstandingReportProps) =
                                             <td className="px-3 py-2 text-right text-gray-700">{formatCurrency(invoice.total)}</td>
                                             <td className="px-3 py-2 text-right text-gray-700">{formatCurrency(invoice.paidAmount)}</td>
                                             <td className="px-3 py-2 text-right text-gray-700">{formatCurrency(invoice.returnAmount)}</td>
+                                            <td className="px-3 py-2 text-right text-gray-700">{formatCurrency(invoice.creditAmount)}</td>
                                             <td className="px-3 py-2 text-right font-semibold text-gray-900">{formatCurrency(invoice.outstanding)}</td>
                                           </tr>
                                         ))}
@@ -0,0 +1,519 @@
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { User } from '@/types/auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, ChevronDown, ChevronRight, Coins, Download, FileWarning, Layers, Receipt } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { roundMoney } from '@/utils/money';
+import { useToast } from '@/hooks/use-toast';
+import type { CostMethod, InventoryValuationLine, InvoiceCostOfGoods } from '@/types/inventory';
+import {
+  getAgencyCostMethod,
+  getInventoryValuation,
+  getInvoiceCostOfGoods,
+  setAgencyCostMethod,
+} from '@/utils/inventoryValuation';
+
+interface InventoryValuationReportProps {
+  user: User;
+  onBack: () => void;
+}
+
+interface Agency {
+  id: string;
+  name: string;
+}
+
+interface CategoryValuation {
+  key: string;
+  category: string;
+  subCategory: string;
+  lines: InventoryValuationLine[];
+  quantity: number;
+  stockValue: number;
+}
+
+const costMethodLabels: Record<CostMethod, string> = {
+  fifo: 'FIFO',
+  weighted_average: 'Weighted Average',
+};
+
+const formatCurrency = (value: number) => `LKR ${Number(value || 0).toLocaleString()}`;
+
+const toDateInputValue = (date: Date) => date.toISOString().split('T')[0];
+
+const firstOfMonth = () => {
+  const today = new Date();
+  return toDateInputValue(new Date(today.getFullYear(), today.getMonth(), 1));
+};
+
+const formatPercent = (margin: number, revenue: number) =>
+  revenue > 0 ? `${((margin / revenue) * 100).toFixed(1)}%` : '-';
+
+const InventoryValuationReport = ({ user, onBack }: InventoryValuationReportProps) => {
+  const [agencies, setAgencies] = useState<Agency[]>([]);
+  const [selectedAgency, setSelectedAgency] = useState(user.role === 'superuser' ? '' : user.agencyId || '');
+  const [asOfDate, setAsOfDate] = useState(toDateInputValue(new Date()));
+  const [marginFrom, setMarginFrom] = useState(firstOfMonth());
+  const [marginTo, setMarginTo] = useState(toDateInputValue(new Date()));
+  const [costMethod, setCostMethod] = useState<CostMethod>('weighted_average');
+  const [lines, setLines] = useState<InventoryValuationLine[]>([]);
+  const [invoices, setInvoices] = useState<InvoiceCostOfGoods[]>([]);
+  const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [loadingMargins, setLoadingMargins] = useState(false);
+  const [changingMethod, setChangingMethod] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (user.role === 'superuser') {
+      fetchAgencies();
+    } else {
+      setSelectedAgency(user.agencyId || '');
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (selectedAgency && asOfDate) {
+      fetchValuation();
+    } else {
+      setLines([]);
+    }
+  }, [selectedAgency, asOfDate]);
+
+  useEffect(() => {
+    if (selectedAgency && marginFrom && marginTo) {
+      fetchMargins();
+    } else {
+      setInvoices([]);
+    }
+  }, [selectedAgency, marginFrom, marginTo]);
+
+  const fetchAgencies = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('agencies')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setAgencies(data || []);
+    } catch (error) {
+      console.error('Error fetching agencies:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch agencies',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const fetchValuation = async () => {
+    if (!selectedAgency) return;
+    setLoading(true);
+    try {
+      const [method, valuation] = await Promise.all([
+        getAgencyCostMethod(selectedAgency),
+        getInventoryValuation(selectedAgency, new Date(`${asOfDate}T23:59:59`)),
+      ]);
+      setCostMethod(method);
+      setLines(valuation);
+    } catch (error) {
+      console.error('Error fetching inventory valuation:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch inventory valuation',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchMargins = async () => {
+    if (!selectedAgency) return;
+    setLoadingMargins(true);
+    try {
+      setInvoices(await getInvoiceCostOfGoods(selectedAgency, marginFrom, marginTo));
+    } catch (error) {
+      console.error('Error fetching invoice cost of goods:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch cost of goods sold',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingMargins(false);
+    }
+  };
+
+  const handleCostMethodChange = async (method: CostMethod) => {
+    if (method === costMethod) return;
+    setChangingMethod(true);
+    try {
+      await setAgencyCostMethod(selectedAgency, method);
+      toast({
+        title: 'Cost method changed',
+        description: `Stock for this agency has been re-costed using ${costMethodLabels[method]}.`,
+      });
+      await Promise.all([fetchValuation(), fetchMargins()]);
+    } catch (error) {
+      console.error('Error changing cost method:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to change cost method',
+        variant: 'destructive',
+      });
+    } finally {
+      setChangingMethod(false);
+    }
+  };
+
+  const categoryRows = useMemo<CategoryValuation[]>(() => {
+    const grouped = new Map<string, CategoryValuation>();
+    lines.forEach((line) => {
+      const key = `${line.category}|${line.subCategory}`;
+      const current = grouped.get(key) || {
+        key,
+        category: line.category,
+        subCategory: line.subCategory,
+        lines: [],
+        quantity: 0,
+        stockValue: 0,
+      };
+      current.lines.push(line);
+      current.quantity += line.quantity;
+      current.stockValue = roundMoney(current.stockValue + line.stockValue);
+      grouped.set(key, current);
+    });
+    return Array.from(grouped.values())
+      .sort((a, b) => a.category.localeCompare(b.category) || a.subCategory.localeCompare(b.subCategory));
+  }, [lines]);
+
+  const totalValue = lines.reduce((sum, line) => roundMoney(sum + line.stockValue), 0);
+  const totalQuantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+  const marginTotals = useMemo(() => invoices.reduce(
+    (totals, invoice) => ({
+      revenue: roundMoney(totals.revenue + invoice.revenue),
+      costOfGoods: roundMoney(totals.costOfGoods + invoice.costOfGoods),
+      grossMargin: roundMoney(totals.grossMargin + invoice.grossMargin),
+      uncosted: totals.uncosted + (invoice.costedLines === 0 ? 1 : 0),
+    }),
+    { revenue: 0, costOfGoods: 0, grossMargin: 0, uncosted: 0 }
+  ), [invoices]);
+
+  const toggleCategory = (key: string) => {
+    setExpandedCategories((current) => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const exportCSV = () => {
+    const selectedAgencyName = agencies.find(agency => agency.id === selectedAgency)?.name || user.agencyName || 'Selected Agency';
+    const headers = ['Category', 'Sub Category', 'Product', 'Color', 'Size', 'Quantity', 'Unit Cost', 'Stock Value', 'Cost Method', 'As Of', 'Agency'];
+    const csvRows = categoryRows.flatMap((row) => row.lines.map((line) => [
+      row.category,
+      row.subCategory,
+      line.productName,
+      line.color,
+      line.size,
+      line.quantity.toString(),
+      line.unitCost.toFixed(2),
+      line.stockValue.toString(),
+      costMethodLabels[costMethod],
+      asOfDate,
+      selectedAgencyName,
+    ]));
+
+    const csvContent = [headers, ...csvRows]
+      .map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
+      .join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `inventory-valuation-${asOfDate}.csv`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" onClick={onBack}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Inventory Valuation</h1>
+            <p className="text-gray-600">Stock value at cost by category, and gross margin per invoice</p>
+          </div>
+        </div>
+
+        <Button variant="outline" onClick={exportCSV} disabled={loading || lines.length === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Valuation As Of</label>
+              <Input type="date" value={asOfDate} onChange={(event) => setAsOfDate(event.target.value)} />
+            </div>
+
+            {user.role === 'superuser' && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">Agency</label>
+                <Select value={selectedAgency} onValueChange={setSelectedAgency}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select Agency" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {agencies.map((agency) => (
+                      <SelectItem key={agency.id} value={agency.id}>
+                        {agency.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {selectedAgency && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">Cost Method</label>
+                {user.role === 'superuser' ? (
+                  <Select
+                    value={costMethod}
+                    onValueChange={(value) => handleCostMethodChange(value as CostMethod)}
+                    disabled={changingMethod}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="weighted_average">{costMethodLabels.weighted_average}</SelectItem>
+                      <SelectItem value="fifo">{costMethodLabels.fifo}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <div className="rounded-md border px-3 py-2 text-sm text-gray-700">{costMethodLabels[costMethod]}</div>
+                )}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {selectedAgency ? (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600">Stock Value</p>
+                    <p className="text-2xl font-bold text-gray-900">{formatCurrency(totalValue)}</p>
+                    <p className="text-xs text-gray-500">{totalQuantity} units · {costMethodLabels[costMethod]}</p>
+                  </div>
+                  <Coins className="h-8 w-8 text-blue-600" />
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600">Cost of Goods Sold</p>
+                <p className="text-2xl font-bold text-gray-900">{formatCurrency(marginTotals.costOfGoods)}</p>
+                <p className="text-xs text-gray-500">{marginFrom} to {marginTo}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600">Gross Margin</p>
+                <p className="text-2xl font-bold text-gray-900">{formatCurrency(marginTotals.grossMargin)}</p>
+                <p className="text-xs text-gray-500">{formatPercent(marginTotals.grossMargin, marginTotals.revenue)} of {formatCurrency(marginTotals.revenue)} sales</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Layers className="h-5 w-5" />
+                Valuation by Category
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="py-12 text-center text-gray-500">Loading valuation...</div>
+              ) : categoryRows.length === 0 ? (
+                <div className="py-12 text-center text-gray-500">
+                  <FileWarning className="h-10 w-10 mx-auto mb-3 text-gray-400" />
+                  No stock on hand at the selected date.
+                </div>
+              ) : (
+                <div className="overflow-x-auto rounded-lg border">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50 text-gray-600">
+                      <tr>
+                        <th className="px-3 py-3 text-left font-medium">Category</th>
+                        <th className="px-3 py-3 text-left font-medium">Sub Category</th>
+                        <th className="px-3 py-3 text-right font-medium">Variants</th>
+                        <th className="px-3 py-3 text-right font-medium">Quantity</th>
+                        <th className="px-3 py-3 text-right font-medium">Stock Value</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {categoryRows.map((row) => {
+                        const isExpanded = expandedCategories.has(row.key);
+
+                        return (
+                          <Fragment key={row.key}>
+                            <tr className="border-t bg-white hover:bg-gray-50">
+                              <td className="px-3 py-3 text-gray-800">
+                                <button
+                                  type="button"
+                                  onClick={() => toggleCategory(row.key)}
+                                  className="flex items-center gap-2 font-medium hover:text-blue-700"
+                                >
+                                  {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                                  {row.category}
+                                </button>
+                              </td>
+                              <td className="px-3 py-3 text-gray-700">{row.subCategory}</td>
+                              <td className="px-3 py-3 text-right text-gray-700">{row.lines.length}</td>
+                              <td className="px-3 py-3 text-right text-gray-700">{row.quantity}</td>
+                              <td className="px-3 py-3 text-right font-semibold text-gray-900">{formatCurrency(row.stockValue)}</td>
+                            </tr>
+
+                            {isExpanded && (
+                              <tr className="border-t bg-gray-50">
+                                <td colSpan={5} className="px-4 py-4">
+                                  <div className="overflow-x-auto rounded-lg border bg-white">
+                                    <table className="min-w-full text-xs">
+                                      <thead className="bg-gray-50 text-gray-600">
+                                        <tr>
+                                          <th className="px-3 py-2 text-left font-medium">Product</th>
+                                          <th className="px-3 py-2 text-left font-medium">Color</th>
+                                          <th className="px-3 py-2 text-left font-medium">Size</th>
+                                          <th className="px-3 py-2 text-right font-medium">Quantity</th>
+                                          <th className="px-3 py-2 text-right font-medium">Unit Cost</th>
+                                          <th className="px-3 py-2 text-right font-medium">Stock Value</th>
+                                        </tr>
+                                      </thead>
+                                      <tbody>
+                                        {row.lines.map((line) => (
+                                          <tr key={`${line.productName}|${line.color}|${line.size}`} className="border-t">
+                                            <td className="px-3 py-2 text-gray-700">{line.productName}</td>
+                                            <td className="px-3 py-2 text-gray-700">{line.color}</td>
+                                            <td className="px-3 py-2 text-gray-700">{line.size}</td>
+                                            <td className="px-3 py-2 text-right text-gray-700">{line.quantity}</td>
+                                            <td className="px-3 py-2 text-right text-gray-700">{formatCurrency(roundMoney(line.unitCost))}</td>
+                                            <td className="px-3 py-2 text-right font-semibold text-gray-900">{formatCurrency(line.stockValue)}</td>
+                                          </tr>
+                                        ))}
+                                      </tbody>
+                                    </table>
+                                  </div>
+                                </td>
+                              </tr>
+                            )}
+                          </Fragment>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+                <span className="flex items-center gap-2">
+                  <Receipt className="h-5 w-5" />
+                  Gross Margin by Invoice
+                </span>
+                <div className="flex items-center gap-2 text-sm font-normal">
+                  <Input type="date" value={marginFrom} onChange={(event) => setMarginFrom(event.target.value)} className="w-40" />
+                  <span className="text-gray-500">to</span>
+                  <Input type="date" value={marginTo} onChange={(event) => setMarginTo(event.target.value)} className="w-40" />
+                </div>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {marginTotals.uncosted > 0 && (
+                <p className="mb-3 text-xs text-orange-700">
+                  {marginTotals.uncosted} invoice{marginTotals.uncosted === 1 ? ' has' : 's have'} no stock movements, so no cost is recorded for them.
+                </p>
+              )}
+              {loadingMargins ? (
+                <div className="py-12 text-center text-gray-500">Loading invoices...</div>
+              ) : invoices.length === 0 ? (
+                <div className="py-12 text-center text-gray-500">No invoices in the selected period.</div>
+              ) : (
+                <div className="overflow-x-auto rounded-lg border">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50 text-gray-600">
+                      <tr>
+                        <th className="px-3 py-3 text-left font-medium">Date</th>
+                        <th className="px-3 py-3 text-left font-medium">Invoice #</th>
+                        <th className="px-3 py-3 text-left font-medium">Customer</th>
+                        <th className="px-3 py-3 text-right font-medium">Sales</th>
+                        <th className="px-3 py-3 text-right font-medium">Cost of Goods</th>
+                        <th className="px-3 py-3 text-right font-medium">Gross Margin</th>
+                        <th className="px-3 py-3 text-right font-medium">Margin %</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {invoices.map((invoice) => (
+                        <tr key={invoice.invoiceId} className="border-t">
+                          <td className="px-3 py-2 text-gray-700">{invoice.invoiceDate.toLocaleDateString()}</td>
+                          <td className="px-3 py-2 text-gray-700 font-mono text-xs">{invoice.invoiceNumber || invoice.invoiceId.slice(0, 8)}</td>
+                          <td className="px-3 py-2 text-gray-700">{invoice.customerName}</td>
+                          <td className="px-3 py-2 text-right text-gray-700">{formatCurrency(invoice.revenue)}</td>
+                          <td className="px-3 py-2 text-right text-gray-700">
+                            {invoice.costedLines === 0 ? <Badge variant="secondary">Not costed</Badge> : formatCurrency(invoice.costOfGoods)}
+                          </td>
+                          <td className="px-3 py-2 text-right font-semibold text-gray-900">{formatCurrency(invoice.grossMargin)}</td>
+                          <td className="px-3 py-2 text-right text-gray-700">{formatPercent(invoice.grossMargin, invoice.revenue)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      ) : (
+        <Card>
+          <CardContent className="p-12 text-center text-gray-600">
+            Select an agency to view the inventory valuation.
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default InventoryValuationReport;
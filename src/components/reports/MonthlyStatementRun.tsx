@@ -0,0 +1,474 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO, subMonths, startOfMonth, endOfMonth } from 'date-fns';
+import { User } from '@/types/auth';
+import type { StatementRun, StatementRunItem, StatementRunItemStatus, StatementRunStatus } from '@/types/statement';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, ExternalLink, Play, Printer, RefreshCw, ScrollText } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { generateAndUploadStatementBundlePdf } from '@/services/invoice-pdf.service';
+import { getCustomerStatement, getStatementViewUrl } from '@/utils/customerStatement';
+
+interface MonthlyStatementRunProps {
+  user: User;
+  onBack: () => void;
+}
+
+interface Agency {
+  id: string;
+  name: string;
+}
+
+const formatCurrency = (value: number) => `LKR ${Number(value || 0).toLocaleString()}`;
+
+const lastMonth = subMonths(new Date(), 1);
+
+const runStatusVariant: Record<StatementRunStatus, 'default' | 'secondary' | 'destructive'> = {
+  queued: 'secondary',
+  running: 'secondary',
+  completed: 'default',
+  failed: 'destructive',
+};
+
+const itemStatusLabels: Record<StatementRunItemStatus, string> = {
+  generated: 'Generated',
+  sent: 'SMS sent',
+  skipped: 'SMS skipped',
+  failed: 'Failed',
+};
+
+const MonthlyStatementRun = ({ user, onBack }: MonthlyStatementRunProps) => {
+  const [agencies, setAgencies] = useState<Agency[]>([]);
+  const [selectedAgency, setSelectedAgency] = useState(user.role === 'superuser' ? '' : user.agencyId || '');
+  const [periodFrom, setPeriodFrom] = useState(format(startOfMonth(lastMonth), 'yyyy-MM-dd'));
+  const [periodTo, setPeriodTo] = useState(format(endOfMonth(lastMonth), 'yyyy-MM-dd'));
+  const [sendSms, setSendSms] = useState(false);
+  const [runs, setRuns] = useState<StatementRun[]>([]);
+  const [selectedRun, setSelectedRun] = useState<StatementRun | null>(null);
+  const [items, setItems] = useState<StatementRunItem[]>([]);
+  const [running, setRunning] = useState(false);
+  const [printing, setPrinting] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (user.role === 'superuser') {
+      fetchAgencies();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    setSelectedRun(null);
+    if (selectedAgency) {
+      fetchRuns();
+    } else {
+      setRuns([]);
+    }
+  }, [selectedAgency]);
+
+  useEffect(() => {
+    if (selectedRun) {
+      fetchItems(selectedRun.id);
+    } else {
+      setItems([]);
+    }
+  }, [selectedRun]);
+
+  const fetchAgencies = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('agencies')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setAgencies(data || []);
+    } catch (error) {
+      console.error('Error fetching agencies:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch agencies',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const fetchRuns = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('statement_runs')
+        .select('*')
+        .eq('agency_id', selectedAgency)
+        .order('created_at', { ascending: false })
+        .limit(24);
+
+      if (error) {
+        if (error.message.includes('does not exist')) {
+          toast({
+            title: 'Database Setup Required',
+            description: 'Please run the monthly statement runs migration in your Supabase SQL editor.',
+            variant: 'destructive',
+          });
+          return;
+        }
+        throw error;
+      }
+
+      setRuns(
+        (data || []).map((row) => ({
+          id: row.id,
+          agencyId: row.agency_id,
+          periodFrom: row.period_from,
+          periodTo: row.period_to,
+          trigger: row.trigger as StatementRun['trigger'],
+          sendSms: row.send_sms,
+          status: row.status as StatementRunStatus,
+          customerCount: row.customer_count,
+          smsSentCount: row.sms_sent_count,
+          failedCount: row.failed_count,
+          totalBalance: Number(row.total_balance),
+          bundlePdfUrl: row.bundle_pdf_url,
+          error: row.error,
+          createdAt: row.created_at,
+          completedAt: row.completed_at,
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching statement runs:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load statement runs',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchItems = async (runId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('statement_run_items')
+        .select('*, customers (name)')
+        .eq('run_id', runId)
+        .order('closing_balance', { ascending: false });
+
+      if (error) throw error;
+
+      setItems(
+        (data || []).map((row) => ({
+          id: row.id,
+          customerId: row.customer_id,
+          customerName: row.customers?.name || 'Unknown customer',
+          statementId: row.statement_id,
+          closingBalance: Number(row.closing_balance),
+          status: row.status as StatementRunItemStatus,
+          error: row.error,
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching statement run items:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load statements for this run',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRun = async () => {
+    if (!selectedAgency) return;
+    if (periodFrom > periodTo) {
+      toast({
+        title: 'Invalid period',
+        description: 'The start date must be on or before the end date.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setRunning(true);
+      const { data, error } = await supabase.functions.invoke('monthly-statements', {
+        body: { agencyId: selectedAgency, periodFrom, periodTo, sendSms },
+      });
+
+      if (error) throw error;
+
+      const run = data?.runs?.[0];
+      if (run?.status === 'failed') {
+        throw new Error(run.error || 'Statement run failed');
+      }
+
+      toast({
+        title: 'Statements generated',
+        description: sendSms
+          ? `${run?.customer_count ?? 0} statements created, ${run?.sms_sent_count ?? 0} SMS sent.`
+          : `${run?.customer_count ?? 0} statements created.`,
+      });
+      await fetchRuns();
+    } catch (error) {
+      console.error('Error running statements:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to run the monthly statements',
+        variant: 'destructive',
+      });
+      fetchRuns();
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handlePrintBundle = async (run: StatementRun) => {
+    if (run.bundlePdfUrl) {
+      window.open(run.bundlePdfUrl, '_blank');
+      return;
+    }
+
+    try {
+      setPrinting(run.id);
+      const { data, error } = await supabase
+        .from('statement_run_items')
+        .select('customer_id')
+        .eq('run_id', run.id)
+        .not('statement_id', 'is', null);
+
+      if (error) throw error;
+
+      // Built from the current ledger so the printout matches the statement links
+      const statements = [];
+      for (const item of data || []) {
+        statements.push(await getCustomerStatement(item.customer_id, run.periodFrom, run.periodTo));
+      }
+      statements.sort((a, b) => a.customer.name.localeCompare(b.customer.name));
+
+      const pdfUrl = await generateAndUploadStatementBundlePdf({ runId: run.id, statements });
+      if (!pdfUrl) throw new Error('PDF generation failed');
+
+      const { error: updateError } = await supabase
+        .from('statement_runs')
+        .update({ bundle_pdf_url: pdfUrl })
+        .eq('id', run.id);
+      if (updateError) console.warn('Could not store bundle PDF link:', updateError);
+
+      window.open(pdfUrl, '_blank');
+      fetchRuns();
+    } catch (error) {
+      console.error('Error generating statement bundle:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to generate the statement bundle',
+        variant: 'destructive',
+      });
+    } finally {
+      setPrinting(null);
+    }
+  };
+
+  const getItemBadge = (status: StatementRunItemStatus) => {
+    if (status === 'sent') {
+      return <Badge className="bg-green-100 text-green-700 border-green-200">{itemStatusLabels[status]}</Badge>;
+    }
+    if (status === 'failed') {
+      return <Badge variant="destructive">{itemStatusLabels[status]}</Badge>;
+    }
+    return <Badge variant="secondary">{itemStatusLabels[status]}</Badge>;
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <ScrollText className="h-6 w-6" />
+            Monthly Statements
+          </h1>
+          <p className="text-gray-600">
+            Statements for every customer with a balance. Runs automatically on the 1st for the previous month.
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">New run</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {user.role === 'superuser' && (
+              <div>
+                <Label>Agency</Label>
+                <Select value={selectedAgency} onValueChange={setSelectedAgency}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select agency" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {agencies.map((agency) => (
+                      <SelectItem key={agency.id} value={agency.id}>{agency.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="run-from">From</Label>
+              <Input id="run-from" type="date" value={periodFrom} onChange={(e) => setPeriodFrom(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="run-to">To</Label>
+              <Input id="run-to" type="date" value={periodTo} onChange={(e) => setPeriodTo(e.target.value)} />
+            </div>
+          </div>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="run-send-sms" checked={sendSms} onCheckedChange={setSendSms} />
+              <Label htmlFor="run-send-sms">Send each customer an SMS with their statement link</Label>
+            </div>
+            <Button onClick={handleRun} disabled={!selectedAgency || running} className="flex items-center gap-2">
+              <Play className="h-4 w-4" />
+              {running ? 'Running...' : 'Run statements'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="text-lg">Previous runs</CardTitle>
+            <Button variant="outline" size="sm" onClick={fetchRuns} disabled={!selectedAgency || loading} className="flex items-center gap-2">
+              <RefreshCw className="h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!selectedAgency ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Select an agency to see its statement runs.</p>
+          ) : loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No statement runs yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Run</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Customers</TableHead>
+                  <TableHead className="text-right">SMS sent</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead className="text-right">Total balance</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow
+                    key={run.id}
+                    className={`cursor-pointer ${selectedRun?.id === run.id ? 'bg-blue-50' : ''}`}
+                    onClick={() => setSelectedRun(selectedRun?.id === run.id ? null : run)}
+                  >
+                    <TableCell className="whitespace-nowrap">
+                      {format(parseISO(run.periodFrom), 'dd MMM')} - {format(parseISO(run.periodTo), 'dd MMM yyyy')}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                      {format(new Date(run.createdAt), 'dd MMM yyyy HH:mm')}
+                      <div>{run.trigger === 'scheduled' ? 'Scheduled' : 'Manual'}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={runStatusVariant[run.status]} className="capitalize">{run.status}</Badge>
+                      {run.error && <div className="text-xs text-red-600 mt-1">{run.error}</div>}
+                    </TableCell>
+                    <TableCell className="text-right">{run.customerCount}</TableCell>
+                    <TableCell className="text-right">{run.sendSms ? run.smsSentCount : '-'}</TableCell>
+                    <TableCell className="text-right">{run.failedCount}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(run.totalBalance)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="flex items-center gap-1"
+                        disabled={run.status !== 'completed' || run.customerCount === 0 || printing !== null}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handlePrintBundle(run);
+                        }}
+                      >
+                        <Printer className="h-3 w-3" />
+                        {printing === run.id ? 'Preparing...' : 'Print all'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedRun && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              Statements for {format(parseISO(selectedRun.periodFrom), 'dd MMM')} - {format(parseISO(selectedRun.periodTo), 'dd MMM yyyy')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {items.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No customers had a balance in this run.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Customer</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell>{item.customerName}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.closingBalance)}</TableCell>
+                      <TableCell>
+                        {getItemBadge(item.status)}
+                        {item.error && <div className="text-xs text-muted-foreground mt-1">{item.error}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.statementId && (
+                          <Button size="sm" variant="ghost" asChild>
+                            <a href={getStatementViewUrl(item.statementId)} target="_blank" rel="noopener noreferrer">
+                              <ExternalLink className="h-4 w-4" />
+                            </a>
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default MonthlyStatementRun;
@@ -2,19 +2,21 @@ import { useState } from 'react';
 import { User } from '@/types/auth';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeft, BarChart3, Calendar, TrendingUp, FileText, Users, WalletCards } from 'lucide-react';
+import { ArrowLeft, BarChart3, Calendar, TrendingUp, FileText, Users, WalletCards, ScrollText, Coins } from 'lucide-react';
 import EnhancedReports from './EnhancedReports';
 import DailyLogReport from './DailyLogReport';
 import CategorySizeInvoiceReport from './CategorySizeInvoiceReport';
 import CustomerEngagementReport from './CustomerEngagementReport';
 import AgingOutstandingReport from './AgingOutstandingReport';
+import MonthlyStatementRun from './MonthlyStatementRun';
+import InventoryValuationReport from './InventoryValuationReport';
 
 interface ReportsProps {
   user: User;
   onBack: () => void;
 }
 
-type ReportType = 'main' | 'enhanced' | 'daily-log' | 'category-size' | 'customer-engagement' | 'aging-outstanding';
+type ReportType = 'main' | 'enhanced' | 'daily-log' | 'category-size' | 'customer-engagement' | 'aging-outstanding' | 'monthly-statements' | 'inventory-valuation';
 
 const Reports = ({ user, onBack }: ReportsProps) => {
   const [activeReport, setActiveReport] = useState<ReportType>('main');
@@ -55,6 +57,20 @@ const Reports = ({ user, onBack }: ReportsProps) => {
       icon: WalletCards,
       color: 'bg-cyan-500',
     },
+    {
+      id: 'monthly-statements',
+      title: 'Monthly Statements',
+      description: 'Generate, print and SMS account statements for every customer with an outstanding balance',
+      icon: ScrollText,
+      color: 'bg-rose-500',
+    },
+    {
+      id: 'inventory-valuation',
+      title: 'Inventory Valuation',
+      description: 'Stock value at FIFO or weighted average cost as of any date, with cost of goods sold per invoice',
+      icon: Coins,
+      color: 'bg-amber-500',
+    },
   ];
 
   const renderActiveReport = () => {
@@ -69,6 +85,10 @@ const Reports = ({ user, onBack }: ReportsProps) => {
         return <CustomerEngagementReport user={user} onBack={() => setActiveReport('main')} />;
       case 'aging-outstanding':
         return <AgingOutstandingReport user={user} onBack={() => setActiveReport('main')} />;
+      case 'monthly-statements':
+        return <MonthlyStatementRun user={user} onBack={() => setActiveReport('main')} />;
+      case 'inventory-valuation':
+        return <InventoryValuationReport user={user} onBack={() => setActiveReport('main')} />;
       default:
         return null;
     }
@@ -145,6 +165,12 @@ const Reports = ({ user, onBack }: ReportsProps) => {
           <div>
             <strong>Aging Outstanding Report:</strong> Track overdue invoice balances and cheque impact on outstanding amounts.
           </div>
+          <div>
+            <strong>Monthly Statements:</strong> Month-end statements for all customers with a balance, as one printable PDF.
+          </div>
+          <div>
+            <strong>Inventory Valuation:</strong> Month-end stock value by category and gross margin on each invoice.
+          </div>
         </div>
       </div>
     </div>
@@ -12,6 +12,8 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Plus, RotateCcw, Eye, ArrowLeft, Trash2, Search } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import BarcodeScanButton from '@/components/camera/BarcodeScanButton';
+import type { ScannedProduct } from '@/types/product';
 
 interface CompanyReturn {
   id: string;
@@ -195,6 +197,30 @@ const SimpleCompanyReturns = ({ user }: SimpleCompanyReturnsProps) => {
     }]);
   };
 
+  // Company return lines are per product, so a scan adds one unit to the product's line or fills the blank row
+  const addScannedItem = ({ product }: ScannedProduct) => {
+    setReturnItems(prev => {
+      const existingIndex = prev.findIndex(item => item.product_id === product.id);
+      if (existingIndex >= 0) {
+        return prev.map((item, index) => index === existingIndex
+          ? { ...item, quantity_returned: item.quantity_returned + 1 }
+          : item
+        );
+      }
+      const scannedItem = {
+        product_id: product.id,
+        product_name: product.name,
+        quantity_returned: 1,
+        unit_price: product.billingPrice,
+        reason: ''
+      };
+      const blankIndex = prev.findIndex(item => !item.product_id);
+      return blankIndex >= 0
+        ? prev.map((item, index) => index === blankIndex ? scannedItem : item)
+        : [...prev, scannedItem];
+    });
+  };
+
   const removeReturnItem = (index: number) => {
     if (returnItems.length > 1) {
       setReturnItems(returnItems.filter((_, i) => i !== index));
@@ -384,7 +410,8 @@ const SimpleCompanyReturns = ({ user }: SimpleCompanyReturnsProps) => {
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back to Returns
           </Button>
-          <h2 className="text-2xl font-bold">Create Company Return</h2>
+          <h2 className="text-2xl font-bold flex-1">Create Company Return</h2>
+          <BarcodeScanButton onScan={addScannedItem} />
         </div>
 
         <Card>
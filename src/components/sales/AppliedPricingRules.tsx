@@ -0,0 +1,46 @@
+import { Badge } from '@/components/ui/badge';
+import { Gift, Percent } from 'lucide-react';
+import type { PricingResult } from '@/types/discounts';
+
+interface AppliedPricingRulesProps {
+  pricing: PricingResult;
+}
+
+const AppliedPricingRules = ({ pricing }: AppliedPricingRulesProps) => {
+  if (pricing.applications.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-t pt-3 space-y-2">
+      {pricing.promotionLines.map((line) => (
+        <div key={line.key} className="p-2 bg-green-50 border border-green-100 rounded flex justify-between items-start gap-2">
+          <div className="flex-1">
+            <p className="font-medium text-sm flex items-center gap-1">
+              <Gift className="h-3 w-3 text-green-600" />
+              {line.productName}
+            </p>
+            <p className="text-xs text-gray-600">{line.color}, {line.size} · Qty {line.quantity}</p>
+          </div>
+          <span className="font-medium text-sm text-green-700">
+            {line.total === 0 ? 'FREE' : `LKR ${line.total.toLocaleString()}`}
+          </span>
+        </div>
+      ))}
+      <div className="space-y-1">
+        {pricing.applications.map((application) => (
+          <div key={application.ruleId} className="flex justify-between items-center text-xs text-green-700 gap-2">
+            <span className="flex items-center gap-1">
+              <Percent className="h-3 w-3" />
+              <Badge variant="outline" className="text-[10px] border-green-300 text-green-700">{application.ruleName}</Badge>
+              {application.description}
+            </span>
+            <span>-LKR {application.appliedAmount.toLocaleString()}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AppliedPricingRules;
@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { FileText, PackageCheck, X } from 'lucide-react';
+import type { FillableBackorder } from '@/types/sales';
+import { getFillableBackorders } from '@/utils/salesOrderFulfilment';
+
+interface BackorderStockAlertProps {
+  agencyId: string;
+  // Called with the order and the quantity to invoice now per order line
+  onInvoice: (salesOrderId: string, quantities: Record<string, number>) => void;
+}
+
+type OrderGroup = { salesOrderId: string; orderNumber: string; customerName: string; lines: FillableBackorder[] };
+
+const groupByOrder = (backorders: FillableBackorder[]): OrderGroup[] => {
+  const groups = new Map<string, OrderGroup>();
+  backorders.forEach((line) => {
+    const group = groups.get(line.salesOrderId) ?? {
+      salesOrderId: line.salesOrderId,
+      orderNumber: line.orderNumber,
+      customerName: line.customerName,
+      lines: [],
+    };
+    group.lines.push(line);
+    groups.set(line.salesOrderId, group);
+  });
+  return Array.from(groups.values());
+};
+
+const BackorderStockAlert = ({ agencyId, onInvoice }: BackorderStockAlertProps) => {
+  const [backorders, setBackorders] = useState<FillableBackorder[]>([]);
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => {
+    setDismissed(false);
+    getFillableBackorders(agencyId)
+      .then(setBackorders)
+      .catch((error) => {
+        console.warn('Could not check backorders against stock:', error);
+        setBackorders([]);
+      });
+  }, [agencyId]);
+
+  if (dismissed || backorders.length === 0) {
+    return null;
+  }
+
+  const handleInvoice = (group: OrderGroup) => {
+    const quantities = Object.fromEntries(group.lines.map((line) => [line.salesOrderItemId, line.availableQuantity]));
+    onInvoice(group.salesOrderId, quantities);
+  };
+
+  return (
+    <Card className="bg-white/80 border border-emerald-200 shadow-sm rounded-2xl mb-6">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <PackageCheck className="h-5 w-5 text-emerald-600" />
+            <span className="font-semibold text-slate-800">Stock arrived for backordered items</span>
+            <Badge className="bg-emerald-100 text-emerald-700">{backorders.length} lines</Badge>
+          </div>
+          <Button size="sm" variant="ghost" onClick={() => setDismissed(true)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {groupByOrder(backorders).map((group) => (
+          <div
+            key={group.salesOrderId}
+            className="flex flex-wrap items-center justify-between gap-2 border-t border-slate-100 pt-2 text-sm"
+          >
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-slate-500">{group.orderNumber}</span>
+                <span className="font-medium text-slate-800 truncate">{group.customerName}</span>
+              </div>
+              {group.lines.map((line) => (
+                <p key={line.salesOrderItemId} className="text-xs text-slate-500">
+                  {line.productName} ({line.color}, {line.size}) · {line.availableQuantity} of {line.outstandingQuantity} available
+                  · received {line.receivedAt.toLocaleDateString()}
+                </p>
+              ))}
+            </div>
+            <Button size="sm" variant="outline" onClick={() => handleInvoice(group)}>
+              <FileText className="h-4 w-4 mr-2" />
+              Invoice
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BackorderStockAlert;
@@ -2,7 +2,8 @@ import { useState, useEffect, useRef } from 'react';
 import { sendSMS, SmsTemplates } from '@/services/sms.service';
 import { generateAndUploadInvoicePdf } from '@/services/invoice-pdf.service';
 import { User } from '@/types/auth';
-import { SalesOrder, Invoice, InvoiceItem } from '@/types/sales';
+import { SalesOrder, SalesOrderItem, Invoice, InvoiceItem } from '@/types/sales';
+import type { AppliedPricingRule } from '@/types/discounts';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -11,40 +12,59 @@ import SignatureCapture from './SignatureCapture';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { externalInventoryService } from '@/services/external-inventory.service';
-import { getNextInvoiceNumber } from '@/utils/invoiceNumber';
 import { Database } from '@/integrations/supabase/types';
+import { roundMoney } from '@/utils/money';
+import { getRuleApplications } from '@/utils/pricingRules';
+import { getCustomerCreditStatus } from '@/utils/customerCredit';
+import { Badge } from '@/components/ui/badge';
 
 interface CreateInvoiceFormProps {
   user: User;
   salesOrder: SalesOrder;
   invoicedItems?: InvoiceItem[];
+  // Quantity to invoice now per order line (e.g. the stock that arrived for a backorder); other lines start at 0
+  initialQuantities?: Record<string, number>;
   onSubmit: (invoice: Omit<Invoice, 'id' | 'createdAt' | 'createdBy'> & { signature?: string }) => void;
   onCancel: () => void;
 }
 
-const CreateInvoiceForm = ({ user, salesOrder, invoicedItems = [], onSubmit, onCancel }: CreateInvoiceFormProps) => {
+// Promotion lines are keyed apart from ordered lines of the same variant
+const itemKey = (item: Pick<SalesOrderItem, 'productId' | 'productName' | 'color' | 'size' | 'appliedRuleId'>) =>
+  `${item.productId || item.productName}|${item.color}|${item.size}|${item.appliedRuleId || ''}`;
+
+// Lines keep the price the pricing engine gave them on the order, including rule discounts
+const orderLineTotal = (item: SalesOrderItem, quantity: number) =>
+  item.quantity > 0 ? roundMoney((item.total * quantity) / item.quantity) : 0;
+
+const CreateInvoiceForm = ({ user, salesOrder, invoicedItems = [], initialQuantities, onSubmit, onCancel }: CreateInvoiceFormProps) => {
   // Helper to group already invoiced quantities by product/color/size
   const invoicedQtyByKey = invoicedItems.reduce<Record<string, number>>((acc, item) => {
-    const key = `${item.productId || item.productName}|${item.color}|${item.size}`;
+    const key = itemKey(item);
     acc[key] = (acc[key] || 0) + item.quantity;
     return acc;
   }, {});
 
+  // Lines loaded with their invoiced quantity are tracked per line; older callers fall back to matching by variant
+  const invoicedQuantityOf = (item: SalesOrderItem) =>
+    item.invoicedQuantity !== undefined ? item.invoicedQuantity : invoicedQtyByKey[itemKey(item)] || 0;
+  const outstandingQuantityOf = (item: SalesOrderItem) => Math.max(0, item.quantity - invoicedQuantityOf(item));
+
   const initialInvoiceItems: InvoiceItem[] = salesOrder.items
     .map((item) => {
-      const key = `${item.productId || item.productName}|${item.color}|${item.size}`;
-      const alreadyQty = invoicedQtyByKey[key] || 0;
-      const remainingQty = Math.max(0, item.quantity - alreadyQty);
-      if (remainingQty <= 0) return null;
+      const remainingQty = outstandingQuantityOf(item);
+      const quantity = initialQuantities ? Math.min(remainingQty, initialQuantities[item.id] || 0) : remainingQty;
+      if (quantity <= 0) return null;
       return {
         id: item.id,
         productId: item.productId,
         productName: item.productName,
         color: item.color,
         size: item.size,
-        quantity: remainingQty,
+        quantity,
         unitPrice: item.unitPrice,
-        total: item.unitPrice * remainingQty
+        total: orderLineTotal(item, quantity),
+        appliedRuleId: item.appliedRuleId,
+        salesOrderItemId: item.id
       } as InvoiceItem;
     })
     .filter((item): item is InvoiceItem => item !== null);
@@ -54,9 +74,15 @@ const CreateInvoiceForm = ({ user, salesOrder, invoicedItems = [], onSubmit, onC
   const [signature, setSignature] = useState<string>('');
   const [showSignatureCapture, setShowSignatureCapture] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [ruleApplications, setRuleApplications] = useState<AppliedPricingRule[]>([]);
   const submitLockRef = useRef(false);
   const { toast } = useToast();
 
+  // The order's rules were counted when it was saved; the invoice only shows them
+  useEffect(() => {
+    getRuleApplications([salesOrder.id]).then(setRuleApplications);
+  }, [salesOrder.id]);
+
   const captureGPS = async (): Promise<{ latitude: number; longitude: number }> => {
     try {
       if (navigator.geolocation) {
@@ -94,16 +120,13 @@ const CreateInvoiceForm = ({ user, salesOrder, invoicedItems = [], onSubmit, onC
 
     const originalItem = salesOrder.items.find(item => item.id === itemId);
     if (!originalItem) return;
-    const key = `${originalItem.productId || originalItem.productName}|${originalItem.color}|${originalItem.size}`;
-    const alreadyQty = invoicedQtyByKey[key] || 0;
-    const remainingCap = Math.max(0, originalItem.quantity - alreadyQty);
-    const clampedQuantity = Math.min(quantity, remainingCap);
+    const clampedQuantity = Math.min(quantity, outstandingQuantityOf(originalItem));
 
     setInvoiceItems(
       invoiceItems
         .map(item =>
           item.id === itemId
-            ? { ...item, quantity: clampedQuantity, total: item.unitPrice * clampedQuantity }
+            ? { ...item, quantity: clampedQuantity, total: orderLineTotal(originalItem, clampedQuantity) }
             : item
         )
         .filter(item => item.quantity > 0)
@@ -131,6 +154,23 @@ const CreateInvoiceForm = ({ user, salesOrder, invoicedItems = [], onSubmit, onC
     submitLockRef.current = true;
 
     try {
+      // An order a superuser approved over the customer's limits may be invoiced; otherwise re-check credit now
+      const creditApproved = Boolean(salesOrder.approvedBy && salesOrder.approvalReasons?.length);
+      if (user.role !== 'superuser' && !creditApproved) {
+        const creditCheck = await getCustomerCreditStatus(salesOrder.customerId, salesOrder.agencyId, total).catch((creditError) => {
+          console.warn('Credit check failed, creating invoice without it:', creditError);
+          return null;
+        });
+        if (creditCheck && creditCheck.breaches.length > 0) {
+          toast({
+            title: "Credit limit reached",
+            description: `${creditCheck.breaches.join('; ')}. A superuser must approve this sale before it is invoiced.`,
+            variant: "destructive",
+          });
+          return;
+        }
+      }
+
       // Capture GPS coordinates when creating invoice
       toast({
         title: "Capturing location",
@@ -139,7 +179,6 @@ const CreateInvoiceForm = ({ user, salesOrder, invoicedItems = [], onSubmit, onC
 
       const coords = await captureGPS();
       setGpsCoordinates(coords);
-      const invoiceNumber = await getNextInvoiceNumber(supabase, salesOrder.agencyId, user.agencyName);
 
       console.log('Creating invoice with data:', {
         salesOrder,
@@ -158,7 +197,6 @@ const CreateInvoiceForm = ({ user, salesOrder, invoicedItems = [], onSubmit, onC
         latitude: coords.latitude,
         longitude: coords.longitude,
         signature,
-        invoice_number: invoiceNumber,
         created_by: user.id
       };
 
@@ -189,7 +227,9 @@ const CreateInvoiceForm = ({ user, salesOrder, invoicedItems = [], onSubmit, onC
         size: item.size,
         quantity: item.quantity,
         unit_price: item.unitPrice,
-        total: item.total
+        total: item.total,
+        applied_rule_id: item.appliedRuleId ?? null,
+        sales_order_item_id: item.salesOrderItemId ?? null
       }));
 
       const { error: itemsError } = await supabase
@@ -271,7 +311,7 @@ const CreateInvoiceForm = ({ user, salesOrder, invoicedItems = [], onSubmit, onC
       ]).then(async ([{ data: cust }, { data: ag }]) => {
         const pdfUrl = await generateAndUploadInvoicePdf({
           invoiceId: invoice.id,
-          invoiceNumber: invoice.invoice_number || invoiceNumber,
+          invoiceNumber: invoice.invoice_number || invoice.id,
           customerName: salesOrder.customerName,
           agencyName: ag?.name ?? 'Agency',
           date: new Date().toLocaleDateString('en-LK', { timeZone: 'Asia/Colombo' }),
@@ -289,12 +329,15 @@ const CreateInvoiceForm = ({ user, salesOrder, invoicedItems = [], onSubmit, onC
           gpsLat: coords.latitude || undefined,
           gpsLng: coords.longitude || undefined,
         });
-        sendSMS(cust?.phone, SmsTemplates.invoiceCreated(salesOrder.customerName, invoice.invoice_number || invoiceNumber, total, pdfUrl ?? undefined));
+        sendSMS(cust?.phone, SmsTemplates.invoiceCreated(salesOrder.customerName, invoice.invoice_number || invoice.id, total, pdfUrl ?? undefined), {
+          customerId: salesOrder.customerId,
+          related: { type: 'invoice', id: invoice.id },
+        });
       });
 
       const invoiceResponseData = {
         salesOrderId: salesOrder.id,
-        invoiceNumber: invoice.invoice_number || invoiceNumber,
+        invoiceNumber: invoice.invoice_number || invoice.id,
         customerId: salesOrder.customerId,
         customerName: salesOrder.customerName,
         agencyId: salesOrder.agencyId,
@@ -370,48 +413,65 @@ const CreateInvoiceForm = ({ user, salesOrder, invoicedItems = [], onSubmit, onC
               <CardTitle>Invoice Items</CardTitle>
               <p className="text-sm text-gray-600">
                 Adjust quantities if needed (e.g., due to stock issues). Set quantity to 0 to remove items.
+                Quantities not invoiced now stay open on the order as a backorder.
               </p>
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
-                {invoiceItems.map((item) => (
-                  <div key={item.id} className="flex items-center justify-between p-3 border rounded-lg">
-                    <div className="flex-1">
-                      <h4 className="font-medium">{item.productName}</h4>
-                      <p className="text-sm text-gray-600">
-                        {item.color}, {item.size} - LKR {item.unitPrice} each
-                      </p>
-                    </div>
-                    <div className="flex items-center gap-3">
-                      <div className="flex items-center gap-2">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => updateQuantity(item.id, item.quantity - 1)}
-                        >
-                          <Minus className="h-4 w-4" />
-                        </Button>
-                        <Input
-                          type="number"
-                          min="0"
-                          value={item.quantity}
-                          onChange={(e) => updateQuantity(item.id, parseInt(e.target.value) || 0)}
-                          className="w-20 text-center"
-                        />
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => updateQuantity(item.id, item.quantity + 1)}
-                        >
-                          <Plus className="h-4 w-4" />
-                        </Button>
+                {invoiceItems.map((item) => {
+                  const orderLine = salesOrder.items.find(line => line.id === item.id);
+                  return (
+                    <div key={item.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div className="flex-1">
+                        <h4 className="font-medium flex items-center gap-2">
+                          {item.productName}
+                          {item.appliedRuleId && (
+                            <Badge variant="outline" className="text-xs border-green-300 text-green-700">Promotion</Badge>
+                          )}
+                        </h4>
+                        <p className="text-sm text-gray-600">
+                          {item.color}, {item.size} - LKR {item.unitPrice} each
+                        </p>
+                        {orderLine && (
+                          <p className="text-xs text-gray-500">
+                            Ordered {orderLine.quantity} · Invoiced {invoicedQuantityOf(orderLine)} · Outstanding {outstandingQuantityOf(orderLine)}
+                            {item.quantity < outstandingQuantityOf(orderLine) && (
+                              <span className="text-orange-600"> · {outstandingQuantityOf(orderLine) - item.quantity} to backorder</span>
+                            )}
+                          </p>
+                        )}
                       </div>
-                      <div className="text-right min-w-24">
-                        <p className="font-medium">LKR {item.total.toLocaleString()}</p>
+                      <div className="flex items-center gap-3">
+                        <div className="flex items-center gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                          >
+                            <Minus className="h-4 w-4" />
+                          </Button>
+                          <Input
+                            type="number"
+                            min="0"
+                            value={item.quantity}
+                            onChange={(e) => updateQuantity(item.id, parseInt(e.target.value) || 0)}
+                            className="w-20 text-center"
+                          />
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                          >
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        <div className="text-right min-w-24">
+                          <p className="font-medium">LKR {item.total.toLocaleString()}</p>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </CardContent>
           </Card>
@@ -441,6 +501,17 @@ const CreateInvoiceForm = ({ user, salesOrder, invoicedItems = [], onSubmit, onC
                   <span>Discount ({salesOrder.discountPercentage}%):</span>
                   <span>-LKR {discountAmount.toLocaleString()}</span>
                 </div>
+                {ruleApplications.length > 0 && (
+                  <div className="space-y-1 pt-2 border-t">
+                    <p className="text-xs text-gray-500">Promotions on this order (included in line totals)</p>
+                    {ruleApplications.map((application) => (
+                      <div key={application.ruleId} className="flex justify-between text-xs text-green-700">
+                        <span>{application.ruleName}: {application.description}</span>
+                        <span>-LKR {application.appliedAmount.toLocaleString()}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <div className="flex justify-between font-semibold text-lg border-t pt-2">
                   <span>Total:</span>
                   <span>LKR {total.toLocaleString()}</span>
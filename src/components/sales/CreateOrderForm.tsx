@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { User } from '@/types/auth';
 import { Customer } from '@/types/customer';
 import { Product } from '@/types/product';
@@ -11,6 +11,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { ArrowLeft, Plus, Minus, MapPin } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { getAgencyPriceType, getCustomerPriceList, resolveProductPrice, type PriceType } from '@/utils/agencyPricing';
+import type { PriceList } from '@/types/pricing';
+import type { PricedCartLine, PricingCartLine } from '@/types/discounts';
+import { usePricingRules } from '@/hooks/usePricingRules';
+import { claimPricingRules, recordRuleApplications } from '@/utils/pricingRules';
+import AppliedPricingRules from './AppliedPricingRules';
 
 interface CreateOrderFormProps {
   user: User;
@@ -27,8 +33,27 @@ const CreateOrderForm = ({ user, customers, products, onSubmit, onCancel }: Crea
   const [gpsLoading, setGpsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const submitLockRef = useRef(false);
+  const [agencyPriceType, setAgencyPriceType] = useState<PriceType>('billing_price');
+  const [customerPriceList, setCustomerPriceList] = useState<PriceList | null>(null);
   const { toast } = useToast();
 
+  useEffect(() => {
+    if (user.agencyId) {
+      getAgencyPriceType(user.agencyId).then(setAgencyPriceType);
+    }
+  }, [user.agencyId]);
+
+  // Customers on a price tier get that list's prices; others fall back to the agency price type
+  useEffect(() => {
+    if (!selectedCustomer?.id) {
+      setCustomerPriceList(null);
+      return;
+    }
+    getCustomerPriceList(selectedCustomer.id).then(setCustomerPriceList);
+  }, [selectedCustomer?.id]);
+
+  const getUnitPrice = (product: Product) => resolveProductPrice(product, agencyPriceType, customerPriceList);
+
   // Auto-capture GPS on component mount
   useEffect(() => {
     console.log('CreateOrderForm mounted, capturing GPS...');
@@ -77,7 +102,7 @@ const CreateOrderForm = ({ user, customers, products, onSubmit, onCancel }: Crea
 
   const addProduct = (product: Product, color: string, size: string) => {
     console.log('Adding product to order:', { product: product.name, color, size });
-    const productPrice = product.sellingPrice || 0;
+    const productPrice = getUnitPrice(product);
     const newItem: SalesOrderItem = {
       id: crypto.randomUUID(),
       productId: product.id,
@@ -121,10 +146,47 @@ const CreateOrderForm = ({ user, customers, products, onSubmit, onCancel }: Crea
     ));
   };
 
-  const subtotal = orderItems.reduce((sum, item) => sum + item.total, 0);
+  const pricingCart = useMemo<PricingCartLine[]>(() => orderItems.map(item => ({
+    key: item.id,
+    productId: item.productId,
+    productName: item.productName,
+    color: item.color,
+    size: item.size,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice
+  })), [orderItems]);
+
+  const resolvePromotionProduct = useCallback((productId: string) => {
+    const product = products.find(p => p.id === productId);
+    if (!product) return null;
+    return {
+      productId: product.id,
+      productName: product.name,
+      color: product.colors[0] || 'default',
+      size: product.sizes[0] || 'default',
+      unitPrice: resolveProductPrice(product, agencyPriceType, customerPriceList)
+    };
+  }, [products, agencyPriceType, customerPriceList]);
+
+  const { pricing } = usePricingRules(pricingCart, {
+    customerId: selectedCustomer?.id,
+    agentId: user.id,
+    resolveProduct: resolvePromotionProduct
+  });
+
+  const pricedItems: PricedCartLine[] = [...pricing.lines, ...pricing.promotionLines];
+  const pricedTotals = new Map(pricing.lines.map(line => [line.key, line.total]));
+
   const discountPercentage = 0;
-  const discountAmount = (subtotal * discountPercentage) / 100;
-  const total = subtotal - discountAmount;
+  const calculateTotals = (items: PricedCartLine[] = pricedItems) => {
+    const subtotal = items.reduce((sum, item) => sum + item.total, 0);
+    const discountAmount = (subtotal * discountPercentage) / 100;
+    const total = subtotal - discountAmount;
+
+    return { subtotal, discountAmount, total };
+  };
+
+  const { subtotal, discountAmount, total } = calculateTotals();
 
   const handleSubmit = async () => {
     console.log('=== STARTING ORDER SUBMISSION ===');
@@ -215,8 +277,34 @@ const CreateOrderForm = ({ user, customers, products, onSubmit, onCancel }: Crea
 
       console.log('✓ Sales order created successfully:', salesOrder);
 
+      // Count the rules against their usage limits; a rule another order used up in the meantime is priced out
+      const savedPricing = await claimPricingRules(salesOrder.id, 'sales_order', pricingCart, pricing, {
+        customerId: selectedCustomer.id,
+        agentId: user.id,
+        resolveProduct: resolvePromotionProduct
+      });
+      const savedItems = [...savedPricing.lines, ...savedPricing.promotionLines];
+
+      if (savedPricing !== pricing) {
+        const savedTotals = calculateTotals(savedItems);
+        const { error: totalsError } = await supabase
+          .from('sales_orders')
+          .update({
+            subtotal: savedTotals.subtotal,
+            discount_amount: savedTotals.discountAmount,
+            total: savedTotals.total
+          })
+          .eq('id', salesOrder.id);
+
+        if (totalsError) {
+          await recordRuleApplications(salesOrder.id, 'sales_order', []);
+          await supabase.from('sales_orders').delete().eq('id', salesOrder.id);
+          throw new Error(`Failed to update order totals: ${totalsError.message}`);
+        }
+      }
+
       // Prepare order items data
-      const itemsToInsert = orderItems.map(item => ({
+      const itemsToInsert = savedItems.map(item => ({
         sales_order_id: salesOrder.id,
         product_id: item.productId,
         product_name: item.productName,
@@ -224,7 +312,8 @@ const CreateOrderForm = ({ user, customers, products, onSubmit, onCancel }: Crea
         size: item.size,
         quantity: item.quantity,
         unit_price: item.unitPrice,
-        total: item.total
+        total: item.total,
+        applied_rule_id: item.appliedRuleId ?? null
       }));
 
       console.log('Order items data prepared:', itemsToInsert);
@@ -244,8 +333,9 @@ const CreateOrderForm = ({ user, customers, products, onSubmit, onCancel }: Crea
           code: itemsError.code
         });
         
-        // If items fail to insert, delete the order to maintain consistency
+        // If items fail to insert, release its rules and delete the order to maintain consistency
         console.log('Cleaning up: deleting order due to items insertion failure...');
+        await recordRuleApplications(salesOrder.id, 'sales_order', []);
         await supabase.from('sales_orders').delete().eq('id', salesOrder.id);
         throw new Error(`Failed to create order items: ${itemsError.message}`);
       }
@@ -362,7 +452,7 @@ const CreateOrderForm = ({ user, customers, products, onSubmit, onCancel }: Crea
                       <div>
                         <h4 className="font-medium">{product.name}</h4>
                         <p className="text-sm text-gray-600">{product.category}</p>
-                        <p className="text-lg font-semibold text-green-600">RS {product.sellingPrice?.toLocaleString()}</p>
+                        <p className="text-lg font-semibold text-green-600">RS {getUnitPrice(product).toLocaleString()}</p>
                       </div>
                     </div>
 
@@ -436,12 +526,17 @@ const CreateOrderForm = ({ user, customers, products, onSubmit, onCancel }: Crea
                           </Button>
                         </div>
                         <div className="text-right min-w-24">
-                          <p className="font-medium">RS {item.total.toLocaleString()}</p>
+                          {(pricedTotals.get(item.id) ?? item.total) < item.total && (
+                            <p className="text-xs text-gray-400 line-through">RS {item.total.toLocaleString()}</p>
+                          )}
+                          <p className="font-medium">RS {(pricedTotals.get(item.id) ?? item.total).toLocaleString()}</p>
                         </div>
                       </div>
                     </div>
                   ))}
                 </div>
+
+                <AppliedPricingRules pricing={pricing} />
               </CardContent>
             </Card>
           )}
@@ -10,6 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Textarea } from '@/components/ui/textarea';
 import { ArrowLeft, Search, Trash2, User as UserIcon } from 'lucide-react';
 import { getAgencyPriceType, getProductPriceForAgency, type PriceType } from '@/utils/agencyPricing';
+import BarcodeScanButton from '@/components/camera/BarcodeScanButton';
 
 interface CreateReturnFormProps {
   user: User;
@@ -126,8 +127,8 @@ const CreateReturnForm = ({ user, customers, products, onSubmit, onCancel }: Cre
     );
   };
 
-  const addReturnItem = (product: Product, size: string) => {
-    const color = selectedColor || product.colors[0] || 'Default';
+  const addReturnItem = (product: Product, size: string, scannedColor?: string) => {
+    const color = scannedColor || selectedColor || product.colors[0] || 'Default';
     const unitPrice = getProductPriceForAgency(product, priceType) || 0;
     const existingIndex = returnItems.findIndex(
       item => item.productId === product.id && item.color === color && item.size === size
@@ -268,6 +269,10 @@ const CreateReturnForm = ({ user, customers, products, onSubmit, onCancel }: Cre
           <h2 className="text-2xl font-bold text-gray-900">Process Return</h2>
           <p className="text-gray-600">Select a customer; linking an invoice is optional and can be done later</p>
         </div>
+        <BarcodeScanButton
+          onScan={({ product, color, size }) => addReturnItem(product, size, color)}
+          className="ml-auto"
+        />
       </div>
 
       {/* Customer Selection */}
@@ -0,0 +1,35 @@
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+import type { CustomerCreditStatus } from '@/utils/customerCredit';
+
+interface CustomerCreditNoticeProps {
+  creditStatus: CustomerCreditStatus | null;
+}
+
+const CustomerCreditNotice = ({ creditStatus }: CustomerCreditNoticeProps) => {
+  if (!creditStatus || (creditStatus.creditLimit === null && creditStatus.maxOverdueDays === null)) {
+    return null;
+  }
+
+  const { balance, creditLimit, maxOverdueDays, oldestOutstandingDays, breaches } = creditStatus;
+  const blocked = breaches.length > 0;
+
+  return (
+    <Alert className={`mt-2 ${blocked ? 'border-orange-300 bg-orange-50' : 'border-slate-200'}`}>
+      <AlertTriangle className={`h-4 w-4 ${blocked ? 'text-orange-600' : 'text-slate-500'}`} />
+      <AlertDescription className="text-xs space-y-1">
+        <p>
+          Outstanding LKR {balance.outstandingAmount.toLocaleString()}
+          {creditLimit !== null && ` of LKR ${creditLimit.toLocaleString()} limit`}
+          {oldestOutstandingDays > 0 && ` · oldest unpaid ${oldestOutstandingDays} days`}
+          {maxOverdueDays !== null && ` (max ${maxOverdueDays})`}
+        </p>
+        {blocked && breaches.map((reason) => (
+          <p key={reason} className="text-orange-700 font-medium">{reason}</p>
+        ))}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default CustomerCreditNotice;
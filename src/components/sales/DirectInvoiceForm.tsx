@@ -1,6 +1,7 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { sendSMS, SmsTemplates } from '@/services/sms.service';
 import { generateAndUploadInvoicePdf } from '@/services/invoice-pdf.service';
+import { offlineSyncService } from '@/services/offlineSync';
 import { User } from '@/types/auth';
 import { Customer } from '@/types/customer';
 import { Product } from '@/types/product';
@@ -17,9 +18,16 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { externalInventoryService, type ExternalInventoryItem } from '@/services/external-inventory.service';
 import { useDiscountValidation } from '@/hooks/useDiscountValidation';
-import { getAgencyPriceType, getProductPriceForAgency, type PriceType } from '@/utils/agencyPricing';
+import { getAgencyPriceType, getCustomerPriceList, resolveProductPrice, type PriceType } from '@/utils/agencyPricing';
+import type { PriceList } from '@/types/pricing';
+import type { PricedCartLine, PricingCartLine } from '@/types/discounts';
+import { usePricingRules } from '@/hooks/usePricingRules';
+import { claimPricingRules } from '@/utils/pricingRules';
+import { getCustomerCreditStatus } from '@/utils/customerCredit';
+import { useCustomerCredit } from '@/hooks/useCustomerCredit';
+import AppliedPricingRules from './AppliedPricingRules';
+import CustomerCreditNotice from './CustomerCreditNotice';
 import CustomerSearch from '@/components/customers/CustomerSearch';
-import { getNextInvoiceNumber } from '@/utils/invoiceNumber';
 
 interface DirectInvoiceFormProps {
   user: User;
@@ -58,6 +66,7 @@ const DirectInvoiceForm = ({ user, customers, products, onSuccess, onCancel }: D
   const [inventoryLoading, setInventoryLoading] = useState(false);
   const { toast } = useToast();
   const [agencyPriceType, setAgencyPriceType] = useState<PriceType>('billing_price');
+  const [customerPriceList, setCustomerPriceList] = useState<PriceList | null>(null);
   
   const { agencyDiscountLimit, validateDiscount, loading: discountLoading } = useDiscountValidation(user);
 
@@ -73,6 +82,22 @@ const DirectInvoiceForm = ({ user, customers, products, onSuccess, onCancel }: D
     loadAgencyPricing();
   }, [user.agencyId]);
 
+  // Customers on a price tier get that list's prices; others fall back to the agency price type
+  useEffect(() => {
+    if (!selectedCustomerId) {
+      setCustomerPriceList(null);
+      return;
+    }
+    getCustomerPriceList(selectedCustomerId).then(setCustomerPriceList);
+  }, [selectedCustomerId]);
+
+  // Keep a block of invoice numbers on the device in case the signal drops mid-route
+  useEffect(() => {
+    if (user.agencyId) {
+      offlineSyncService.ensureInvoiceNumberBlock(user.agencyId);
+    }
+  }, [user.agencyId]);
+
   const categories = [...new Set(products.map(p => p.category))];
   const subCategories = selectedCategory 
     ? [...new Set(products.filter(p => p.category === selectedCategory).map(p => p.subCategory))]
@@ -394,7 +419,7 @@ const DirectInvoiceForm = ({ user, customers, products, onSuccess, onCancel }: D
     productGridItems.forEach(gridItem => {
       gridItem.sizes.forEach(sizeItem => {
         if (sizeItem.quantity > 0) {
-          const unitPrice = getProductPriceForAgency(gridItem.product, agencyPriceType);
+          const unitPrice = resolveProductPrice(gridItem.product, agencyPriceType, customerPriceList);
           itemsToAdd.push({
             tempId: `${gridItem.product.id}-${gridItem.color}-${sizeItem.size}-${Date.now()}`,
             id: '',
@@ -476,8 +501,41 @@ const DirectInvoiceForm = ({ user, customers, products, onSuccess, onCancel }: D
     }
   };
 
-  const calculateTotals = () => {
-    const subtotal = invoiceSummary.reduce((sum, item) => sum + item.total, 0);
+  const pricingCart = useMemo<PricingCartLine[]>(() => invoiceSummary.map(item => ({
+    key: item.tempId,
+    productId: item.productId,
+    productName: item.productName,
+    color: item.color,
+    size: item.size,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice
+  })), [invoiceSummary]);
+
+  const resolvePromotionProduct = useCallback((productId: string) => {
+    const product = products.find(p => p.id === productId);
+    if (!product) return null;
+    return {
+      productId: product.id,
+      productName: product.name,
+      color: product.colors[0] || 'default',
+      size: product.sizes[0] || 'default',
+      unitPrice: resolveProductPrice(product, agencyPriceType, customerPriceList)
+    };
+  }, [products, agencyPriceType, customerPriceList]);
+
+  const { pricing } = usePricingRules(pricingCart, {
+    customerId: selectedCustomerId || undefined,
+    agentId: user.id,
+    resolveProduct: resolvePromotionProduct
+  });
+
+  const { creditStatus } = useCustomerCredit(selectedCustomerId, user.agencyId);
+
+  const pricedItems: PricedCartLine[] = [...pricing.lines, ...pricing.promotionLines];
+  const pricedTotals = new Map(pricing.lines.map(line => [line.key, line.total]));
+
+  const calculateTotals = (items: PricedCartLine[] = pricedItems) => {
+    const subtotal = items.reduce((sum, item) => sum + item.total, 0);
     const percentageDiscountAmount = (subtotal * discountPercentage) / 100;
     const fixedDiscountAmount = Math.min(discountAmountInput, subtotal);
     const discountAmount = discountType === 'percentage' ? percentageDiscountAmount : fixedDiscountAmount;
@@ -526,8 +584,6 @@ const DirectInvoiceForm = ({ user, customers, products, onSuccess, onCancel }: D
 
       const selectedCustomer = customers.find(c => c.id === selectedCustomerId);
       const { subtotal, discountAmount, total, effectiveDiscountPercentage } = calculateTotals();
-      const invoiceNumber = await getNextInvoiceNumber(supabase, user.agencyId, user.agencyName);
-
       const discountValidation = validateDiscount(effectiveDiscountPercentage);
       if (discountValidation.requiresApproval) {
         toast({
@@ -540,30 +596,118 @@ const DirectInvoiceForm = ({ user, customers, products, onSuccess, onCancel }: D
         return;
       }
 
-      // Create direct invoice (no sales_order_id)
+      // Direct invoices have no approval step, so a credit breach blocks the sale
+      if (user.role !== 'superuser' && !offlineSyncService.isOffline()) {
+        const creditCheck = await getCustomerCreditStatus(selectedCustomerId, user.agencyId, total).catch((creditError) => {
+          console.warn('Credit check failed, saving invoice without it:', creditError);
+          return null;
+        });
+        if (creditCheck && creditCheck.breaches.length > 0) {
+          toast({
+            title: "Credit limit reached",
+            description: `${creditCheck.breaches.join('; ')}. Create a sales order for superuser approval instead.`,
+            variant: "destructive"
+          });
+          submitLockRef.current = false;
+          setIsSubmitting(false);
+          return;
+        }
+      }
+
+      // No sales_order_id - this is a direct invoice
+      const invoiceRow = {
+        customer_id: selectedCustomerId,
+        customer_name: selectedCustomer?.name || '',
+        agency_id: user.agencyId,
+        subtotal,
+        discount_amount: discountAmount,
+        total,
+        latitude: gpsCoordinates.latitude,
+        longitude: gpsCoordinates.longitude,
+        signature,
+        created_by: user.id
+      };
+
+      // Shared by the online insert and the outbox record, so a replay after a dropped connection
+      // finds the invoice if it was saved after all
+      const clientId = offlineSyncService.newClientId();
+
+      // Without signal the invoice is numbered and saved when the outbox replays it
+      const queueOfflineInvoice = async () => {
+        const reservedInvoiceNumber = offlineSyncService.takeReservedInvoiceNumber(user.agencyId);
+        await offlineSyncService.enqueue('invoice', {
+          invoice: invoiceRow,
+          items: pricedItems.map(item => ({
+            product_id: item.productId,
+            product_name: item.productName,
+            color: item.color,
+            size: item.size,
+            quantity: item.quantity,
+            unit_price: item.unitPrice,
+            total: item.total,
+            applied_rule_id: item.appliedRuleId ?? null
+          })),
+          ruleApplications: pricing.applications,
+          reservedInvoiceNumber,
+          agencyName: user.agencyName,
+          customerPhone: selectedCustomer?.phone,
+        }, {
+          clientId,
+          label: `${reservedInvoiceNumber ? `${reservedInvoiceNumber} · ` : ''}${invoiceRow.customer_name} - LKR ${total.toLocaleString()}`,
+        });
+        toast({
+          title: "Saved offline",
+          description: reservedInvoiceNumber
+            ? `Invoice ${reservedInvoiceNumber} stored on this device and will sync when you are back online`
+            : "Invoice stored on this device and will be numbered when it syncs"
+        });
+        onSuccess();
+      };
+
+      if (offlineSyncService.isOffline()) {
+        await queueOfflineInvoice();
+        return;
+      }
+
+      // Numbered by the database as part of the insert
       const { data: invoiceData, error: invoiceError } = await supabase
         .from('invoices')
-        .insert({
-          customer_id: selectedCustomerId,
-          customer_name: selectedCustomer?.name || '',
-          agency_id: user.agencyId,
-          subtotal,
-          discount_amount: discountAmount,
-          total,
-          latitude: gpsCoordinates.latitude,
-          longitude: gpsCoordinates.longitude,
-          signature,
-          invoice_number: invoiceNumber,
-          created_by: user.id
-          // No sales_order_id - this is a direct invoice
-        })
+        .insert({ ...invoiceRow, client_id: clientId })
         .select()
         .single();
 
+      if (invoiceError && offlineSyncService.isNetworkError(invoiceError)) {
+        await queueOfflineInvoice();
+        return;
+      }
+
       if (invoiceError) throw invoiceError;
+      const invoiceNumber = invoiceData.invoice_number || invoiceData.id;
+
+      // Count the rules against their usage limits; a rule another sale used up in the meantime is priced out
+      const savedPricing = await claimPricingRules(invoiceData.id, 'invoice', pricingCart, pricing, {
+        customerId: selectedCustomerId,
+        agentId: user.id,
+        resolveProduct: resolvePromotionProduct
+      });
+      const savedItems = [...savedPricing.lines, ...savedPricing.promotionLines];
+      const savedTotals = calculateTotals(savedItems);
+
+      if (savedPricing !== pricing) {
+        const { error: totalsError } = await supabase
+          .from('invoices')
+          .update({
+            subtotal: savedTotals.subtotal,
+            discount_amount: savedTotals.discountAmount,
+            total: savedTotals.total
+          })
+          .eq('id', invoiceData.id);
+
+        if (totalsError) throw totalsError;
+      }
 
       // Create invoice items
-      const invoiceItems = invoiceSummary.map(item => ({
+      const invoiceItems = savedItems.map(item => ({
         invoice_id: invoiceData.id,
         product_id: item.productId,
         product_name: item.productName,
@@ -571,7 +715,8 @@ const DirectInvoiceForm = ({ user, customers, products, onSuccess, onCancel }: D
         size: item.size,
         quantity: item.quantity,
         unit_price: item.unitPrice,
-        total: item.total
+        total: item.total,
+        applied_rule_id: item.appliedRuleId ?? null
       }));
 
       const { error: itemsError } = await supabase
@@ -593,7 +738,7 @@ const DirectInvoiceForm = ({ user, customers, products, onSuccess, onCancel }: D
 
         const userName = profileData?.name || 'Unknown User';
 
-        for (const item of invoiceSummary) {
+        for (const item of savedItems) {
           await externalInventoryService.addSaleTransaction(
             user.agencyId,
             userName,
@@ -634,7 +779,7 @@ const DirectInvoiceForm = ({ user, customers, products, onSuccess, onCancel }: D
         customerName: customerForSms?.name ?? '',
         agencyName: user.agencyName ?? '',
         date: new Date().toLocaleDateString('en-LK', { timeZone: 'Asia/Colombo' }),
-        items: invoiceSummary.map(i => ({
+        items: savedItems.map(i => ({
           productName: i.productName,
           color: i.color,
           size: i.size,
@@ -642,13 +787,16 @@ const DirectInvoiceForm = ({ user, customers, products, onSuccess, onCancel }: D
           unitPrice: i.unitPrice,
           total: i.total,
         })),
-        subtotal,
-        discountAmount,
-        total,
+        subtotal: savedTotals.subtotal,
+        discountAmount: savedTotals.discountAmount,
+        total: savedTotals.total,
         gpsLat: gpsCoordinates.latitude || undefined,
         gpsLng: gpsCoordinates.longitude || undefined,
       }).then(pdfUrl => {
-        sendSMS(customerForSms?.phone, SmsTemplates.invoiceCreated(customerForSms?.name ?? '', invoiceNumber, total, pdfUrl ?? undefined));
+        sendSMS(customerForSms?.phone, SmsTemplates.invoiceCreated(customerForSms?.name ?? '', invoiceNumber, savedTotals.total, pdfUrl ?? undefined), {
+          customerId: customerForSms?.id,
+          related: { type: 'invoice', id: invoiceData.id },
+        });
       });
 
       onSuccess();
@@ -717,6 +865,10 @@ const DirectInvoiceForm = ({ user, customers, products, onSuccess, onCancel }: D
                     });
                   }}
                 />
+                {customerPriceList && (
+                  <Badge variant="secondary" className="mt-2">Price tier: {customerPriceList.name}</Badge>
+                )}
+                <CustomerCreditNotice creditStatus={creditStatus} />
               </div>
               
               {gpsCoordinates.latitude !== 0 ? (
@@ -911,7 +1063,12 @@ const DirectInvoiceForm = ({ user, customers, products, onSuccess, onCancel }: D
                           <p className="text-xs text-gray-600">{item.color}, {item.size} × {item.quantity}</p>
                         </div>
                         <div className="flex items-center gap-2">
-                          <span className="font-medium">LKR {item.total.toLocaleString()}</span>
+                          <span className="font-medium">
+                            {(pricedTotals.get(item.tempId) ?? item.total) < item.total && (
+                              <span className="text-xs text-gray-400 line-through mr-1">LKR {item.total.toLocaleString()}</span>
+                            )}
+                            LKR {(pricedTotals.get(item.tempId) ?? item.total).toLocaleString()}
+                          </span>
                           <Button
                             size="sm"
                             variant="ghost"
@@ -924,6 +1081,8 @@ const DirectInvoiceForm = ({ user, customers, products, onSuccess, onCancel }: D
                     ))}
                   </div>
 
+                  <AppliedPricingRules pricing={pricing} />
+
                   {/* Discount Section */}
                   <div className="border-t pt-3 space-y-3">
                     <div>
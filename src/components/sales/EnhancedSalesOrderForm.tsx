@@ -1,9 +1,12 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { sendSMS, SmsTemplates } from '@/services/sms.service';
+import { offlineSyncService } from '@/services/offlineSync';
+import { OfflineSalesOrderPayload } from '@/types/offline';
+import { getNextSalesOrderNumber, isDuplicateOrderNumberError } from '@/utils/salesOrderNumber';
 import { generateAndUploadSalesOrderPdf } from '@/services/invoice-pdf.service';
 import { User } from '@/types/auth';
 import { Customer } from '@/types/customer';
-import { Product } from '@/types/product';
+import { Product, ScannedProduct } from '@/types/product';
 import { SalesOrderItem } from '@/types/sales';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -17,7 +20,16 @@ import { useToast } from '@/hooks/use-toast';
 import CustomerSearch from '@/components/customers/CustomerSearch';
 import { useDraftSalesOrder } from '@/hooks/useDraftSalesOrder';
 import { useDiscountValidation } from '@/hooks/useDiscountValidation';
-import { getAgencyPriceType, getProductPriceForAgency, type PriceType } from '@/utils/agencyPricing';
+import { usePricingRules } from '@/hooks/usePricingRules';
+import { getAgencyPriceType, getCustomerPriceList, resolveProductPrice, type PriceType } from '@/utils/agencyPricing';
+import type { PriceList } from '@/types/pricing';
+import type { PricedCartLine, PricingCartLine } from '@/types/discounts';
+import { claimPricingRules } from '@/utils/pricingRules';
+import { getCustomerCreditStatus } from '@/utils/customerCredit';
+import { useCustomerCredit } from '@/hooks/useCustomerCredit';
+import AppliedPricingRules from './AppliedPricingRules';
+import CustomerCreditNotice from './CustomerCreditNotice';
+import BarcodeScanButton from '@/components/camera/BarcodeScanButton';
 import { externalInventoryService, type ExternalInventoryItem } from '@/services/external-inventory.service';
 
 // Module-level inventory cache — survives re-mounts (e.g. navigating away and back) for 5 minutes
@@ -72,6 +84,7 @@ const EnhancedSalesOrderForm = ({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [agencyPriceType, setAgencyPriceType] = useState<PriceType>('billing_price');
+  const [customerPriceList, setCustomerPriceList] = useState<PriceList | null>(null);
   const [inventoryMap, setInventoryMap] = useState<Record<string, number>>({});
   const [pendingStockKeys, setPendingStockKeys] = useState<Set<string>>(new Set());
   const [inventoryLoading, setInventoryLoading] = useState(false);
@@ -89,6 +102,15 @@ const EnhancedSalesOrderForm = ({
     loadAgencyPricing();
   }, [user.agencyId]);
 
+  // Customers on a price tier get that list's prices; others fall back to the agency price type
+  useEffect(() => {
+    if (!selectedCustomer?.id) {
+      setCustomerPriceList(null);
+      return;
+    }
+    getCustomerPriceList(selectedCustomer.id).then(setCustomerPriceList);
+  }, [selectedCustomer?.id]);
+
   // Load draft or editing order on mount
   useEffect(() => {
     if (editingOrder) {
@@ -99,10 +121,14 @@ const EnhancedSalesOrderForm = ({
         updateCustomer(customer);
       }
       
-      const orderItems = editingOrder.items.map((item: any) => ({
-        ...item,
-        tempId: `${item.productId}-${item.color}-${item.size}-${Date.now()}`
-      }));
+      // Promotion lines are rebuilt by the pricing engine, so only ordered lines are restored
+      const orderItems = editingOrder.items
+        .filter((item: SalesOrderItem) => !item.appliedRuleId)
+        .map((item: SalesOrderItem) => ({
+          ...item,
+          total: item.unitPrice * item.quantity,
+          tempId: `${item.productId}-${item.color}-${item.size}-${Date.now()}`
+        }));
       setOrderSummary(orderItems);
       updateItems(orderItems);
       setDiscountPercentage(editingOrder.discountPercentage || 0);
@@ -626,8 +652,8 @@ const EnhancedSalesOrderForm = ({
             color: gridItem.color,
             size: sizeItem.size,
             quantity: sizeItem.quantity,
-            unitPrice: getProductPriceForAgency(gridItem.product, agencyPriceType),
-            total: getProductPriceForAgency(gridItem.product, agencyPriceType) * sizeItem.quantity
+            unitPrice: resolveProductPrice(gridItem.product, agencyPriceType, customerPriceList),
+            total: resolveProductPrice(gridItem.product, agencyPriceType, customerPriceList) * sizeItem.quantity
           });
         }
       });
@@ -656,6 +682,35 @@ const EnhancedSalesOrderForm = ({
     });
   };
 
+  // Each scan adds one unit of the labelled variant, merging with a line already in the summary
+  const addScannedItem = ({ product, color, size }: ScannedProduct) => {
+    const unitPrice = resolveProductPrice(product, agencyPriceType, customerPriceList);
+    setOrderSummary(prev => {
+      const existing = prev.find(item => item.productId === product.id && item.color === color && item.size === size);
+      if (existing) {
+        return prev.map(item => item === existing
+          ? { ...item, quantity: item.quantity + 1, total: item.unitPrice * (item.quantity + 1) }
+          : item
+        );
+      }
+      return [...prev, {
+        tempId: `${product.id}-${color}-${size}-${Date.now()}`,
+        id: '',
+        productId: product.id,
+        productName: product.name,
+        color,
+        size,
+        quantity: 1,
+        unitPrice,
+        total: unitPrice
+      }];
+    });
+    toast({
+      title: "Item scanned",
+      description: `${product.name} (${color}, ${size}) added to order summary`
+    });
+  };
+
   const removeFromOrderSummary = (tempId: string) => {
     setOrderSummary(prev => prev.filter(item => item.tempId !== tempId));
   };
@@ -714,44 +769,48 @@ const EnhancedSalesOrderForm = ({
     }
   };
 
-  const calculateTotals = () => {
-    const subtotal = orderSummary.reduce((sum, item) => sum + item.total, 0);
-    const discountAmount = (subtotal * discountPercentage) / 100;
-    const total = subtotal - discountAmount;
-
-    return { subtotal, discountAmount, total };
-  };
-
-  const getNextSalesOrderNumber = async (agencyId: string) => {
-    const agencyCode = agencyId.slice(-4);
-    const { data, error } = await supabase
-      .from('sales_orders')
-      .select('order_number')
-      .eq('agency_id', agencyId)
-      .like('order_number', `${agencyCode}-%`);
+  const pricingCart = useMemo<PricingCartLine[]>(() => orderSummary.map(item => ({
+    key: item.tempId,
+    productId: item.productId,
+    productName: item.productName,
+    color: item.color,
+    size: item.size,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice
+  })), [orderSummary]);
+
+  const resolvePromotionProduct = useCallback((productId: string) => {
+    const product = products.find(p => p.id === productId);
+    if (!product) return null;
+    return {
+      productId: product.id,
+      productName: product.name,
+      color: product.colors[0] || 'default',
+      size: product.sizes[0] || 'default',
+      unitPrice: resolveProductPrice(product, agencyPriceType, customerPriceList)
+    };
+  }, [products, agencyPriceType, customerPriceList]);
 
-    if (error) throw error;
+  const { pricing } = usePricingRules(pricingCart, {
+    customerId: selectedCustomer?.id,
+    agentId: user.id,
+    resolveProduct: resolvePromotionProduct
+  });
 
-    const maxNumber = (data || []).reduce((max, order) => {
-      const match = order.order_number?.match(new RegExp(`^${agencyCode}-(\\d+)$`));
-      if (!match) return max;
-      return Math.max(max, Number(match[1]));
-    }, 99);
+  const { creditStatus } = useCustomerCredit(selectedCustomer?.id, user.agencyId);
 
-    return `${agencyCode}-${String(maxNumber + 1).padStart(5, '0')}`;
-  };
+  const pricedItems: PricedCartLine[] = [...pricing.lines, ...pricing.promotionLines];
+  const pricedTotals = new Map(pricing.lines.map(line => [line.key, line.total]));
 
-  const isDuplicateOrderNumberError = (error: unknown) => {
-    if (!error || typeof error !== 'object') return false;
+  const calculateTotals = (items: PricedCartLine[] = pricedItems) => {
+    const subtotal = items.reduce((sum, item) => sum + item.total, 0);
+    const discountAmount = (subtotal * discountPercentage) / 100;
+    const total = subtotal - discountAmount;
 
-    const supabaseError = error as { code?: string; message?: string };
-    return (
-      supabaseError.code === '23505' &&
-      Boolean(supabaseError.message?.includes('sales_orders_order_number_key'))
-    );
+    return { subtotal, discountAmount, total };
   };
 
-  const createInventoryTransactions = async (salesOrderId: string, orderItems: OrderSummaryItem[]) => {
+  const createInventoryTransactions = async (salesOrderId: string, orderItems: PricedCartLine[]) => {
     try {
       const transactions = orderItems.map(item => ({
         product_id: item.productId,
@@ -783,6 +842,36 @@ const EnhancedSalesOrderForm = ({
     }
   };
 
+  // Keeps a new order on the device when there is no signal; the outbox replays it later.
+  const queueOfflineOrder = async (salesOrderData: OfflineSalesOrderPayload['order'], clientId: string) => {
+    await offlineSyncService.enqueue('sales_order', {
+      order: salesOrderData,
+      items: pricedItems.map(item => ({
+        product_id: item.productId,
+        product_name: item.productName,
+        color: item.color,
+        size: item.size,
+        quantity: item.quantity,
+        unit_price: item.unitPrice,
+        total: item.total,
+        applied_rule_id: item.appliedRuleId ?? null
+      })),
+      ruleApplications: pricing.applications,
+      customerPhone: selectedCustomer?.phone,
+    }, {
+      clientId,
+      label: `${salesOrderData.customer_name} - LKR ${Number(salesOrderData.total).toLocaleString()}`,
+    });
+
+    toast({
+      title: "Saved offline",
+      description: "Sales order stored on this device and will sync when you are back online"
+    });
+
+    clearDraft();
+    onSuccess();
+  };
+
   const submitSalesOrder = async () => {
     if (!selectedCustomer || orderSummary.length === 0) {
       toast({
@@ -823,10 +912,25 @@ const EnhancedSalesOrderForm = ({
       
       // Validate discount using agency limits
       const discountValidation = validateDiscount(discountPercentage);
-      const requiresApproval = discountValidation.requiresApproval;
-      const status = requiresApproval ? 'pending' : 'approved';
       const agencyId = user.agencyId;
 
+      // Orders over the customer's credit limit or overdue age go to approval with the reasons attached
+      const approvalReasons: string[] = [];
+      if (discountValidation.requiresApproval) {
+        approvalReasons.push(discountValidation.message || `Discount of ${discountPercentage}% exceeds the agency limit`);
+      }
+      if (user.role !== 'superuser' && !offlineSyncService.isOffline()) {
+        try {
+          const creditCheck = await getCustomerCreditStatus(selectedCustomer.id, agencyId, total);
+          approvalReasons.push(...creditCheck.breaches);
+        } catch (creditError) {
+          console.warn('Credit check failed, saving order without it:', creditError);
+        }
+      }
+
+      const requiresApproval = approvalReasons.length > 0;
+      const status = requiresApproval ? 'pending' : 'approved';
+
       let salesOrderData;
       let orderData;
 
@@ -841,6 +945,7 @@ const EnhancedSalesOrderForm = ({
           total,
           status,
           requires_approval: requiresApproval,
+          approval_reasons: approvalReasons.length > 0 ? approvalReasons : null,
           latitude: coords.latitude,
           longitude: coords.longitude
         };
@@ -874,18 +979,28 @@ const EnhancedSalesOrderForm = ({
           total,
           status,
           requires_approval: requiresApproval,
+          approval_reasons: approvalReasons.length > 0 ? approvalReasons : null,
           latitude: coords.latitude,
           longitude: coords.longitude,
           created_by: user.id
         };
 
+        // Shared by the online insert and the outbox record, so a replay after a dropped connection
+        // finds the order if it was saved after all
+        const clientId = offlineSyncService.newClientId();
+
+        if (offlineSyncService.isOffline()) {
+          await queueOfflineOrder(salesOrderData, clientId);
+          return;
+        }
+
         let orderError = null;
 
         for (let attempt = 0; attempt < 3; attempt++) {
           const orderNumber = await getNextSalesOrderNumber(agencyId);
           const { data, error } = await supabase
             .from('sales_orders')
-            .insert({ ...salesOrderData, order_number: orderNumber })
+            .insert({ ...salesOrderData, order_number: orderNumber, client_id: clientId })
             .select()
             .single();
 
@@ -902,11 +1017,38 @@ const EnhancedSalesOrderForm = ({
           }
         }
 
+        if (orderError && offlineSyncService.isNetworkError(orderError)) {
+          await queueOfflineOrder(salesOrderData, clientId);
+          return;
+        }
+
         if (orderError) throw orderError;
       }
 
+      // Count the rules against their usage limits; a rule another order used up in the meantime is priced out
+      const savedPricing = await claimPricingRules(orderData.id, 'sales_order', pricingCart, pricing, {
+        customerId: selectedCustomer.id,
+        agentId: user.id,
+        resolveProduct: resolvePromotionProduct
+      });
+      const savedItems = [...savedPricing.lines, ...savedPricing.promotionLines];
+      const savedTotals = calculateTotals(savedItems);
+
+      if (savedPricing !== pricing) {
+        const { error: totalsError } = await supabase
+          .from('sales_orders')
+          .update({
+            subtotal: savedTotals.subtotal,
+            discount_amount: savedTotals.discountAmount,
+            total: savedTotals.total
+          })
+          .eq('id', orderData.id);
+
+        if (totalsError) throw totalsError;
+      }
+
       // Create order items
-      const orderItems = orderSummary.map(item => ({
+      const orderItems = savedItems.map(item => ({
         sales_order_id: orderData.id,
         product_id: item.productId,
         product_name: item.productName,
@@ -914,7 +1056,8 @@ const EnhancedSalesOrderForm = ({
         size: item.size,
         quantity: item.quantity,
         unit_price: item.unitPrice,
-        total: item.total
+        total: item.total,
+        applied_rule_id: item.appliedRuleId ?? null
       }));
 
       const { error: itemsError } = await supabase
@@ -925,12 +1068,12 @@ const EnhancedSalesOrderForm = ({
 
       // Create inventory transactions for stock reduction if order is approved
       if (status === 'approved') {
-        await createInventoryTransactions(orderData.id, orderSummary);
+        await createInventoryTransactions(orderData.id, savedItems);
       }
 
       toast({
         title: "Sales Order Saved",
-        description: `Order ${orderData.id} has been ${requiresApproval ? 'submitted for approval' : 'approved'} ${discountPercentage > 0 ? `with ${discountPercentage}% discount` : ''}${discountValidation.message ? ` - ${discountValidation.message}` : ''}`
+        description: `Order ${orderData.id} has been ${requiresApproval ? 'submitted for approval' : 'approved'} ${discountPercentage > 0 ? `with ${discountPercentage}% discount` : ''}${approvalReasons.length > 0 ? ` - ${approvalReasons.join('; ')}` : ''}`
       });
 
       generateAndUploadSalesOrderPdf({
@@ -939,7 +1082,7 @@ const EnhancedSalesOrderForm = ({
         customerName: selectedCustomer.name,
         agencyName: user.agencyName ?? '',
         date: new Date().toLocaleDateString('en-LK', { timeZone: 'Asia/Colombo' }),
-        items: orderSummary.map(i => ({
+        items: savedItems.map(i => ({
           productName: i.productName,
           color: i.color,
           size: i.size,
@@ -947,13 +1090,16 @@ const EnhancedSalesOrderForm = ({
           unitPrice: i.unitPrice,
           total: i.total,
         })),
-        subtotal,
-        discountAmount,
-        total,
+        subtotal: savedTotals.subtotal,
+        discountAmount: savedTotals.discountAmount,
+        total: savedTotals.total,
         gpsLat: coords.latitude || undefined,
         gpsLng: coords.longitude || undefined,
       }).then(pdfUrl => {
-        sendSMS(selectedCustomer.phone, SmsTemplates.salesOrderCreated(selectedCustomer.name, total, pdfUrl ?? undefined));
+        sendSMS(selectedCustomer.phone, SmsTemplates.salesOrderCreated(selectedCustomer.name, savedTotals.total, pdfUrl ?? undefined), {
+          customerId: selectedCustomer.id,
+          related: { type: 'sales_order', id: orderData.id },
+        });
       });
 
       // Clear draft if not editing
@@ -995,6 +1141,7 @@ const EnhancedSalesOrderForm = ({
             </p>
           )}
         </div>
+        <BarcodeScanButton onScan={addScannedItem} />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -1013,6 +1160,10 @@ const EnhancedSalesOrderForm = ({
                 onCustomerChange={handleCustomerChange}
                 disabled={isSubmitting}
               />
+              {customerPriceList && (
+                <Badge variant="secondary">Price tier: {customerPriceList.name}</Badge>
+              )}
+              <CustomerCreditNotice creditStatus={creditStatus} />
               
               {gpsCoordinates.latitude !== 0 && (
                 <div className="p-3 bg-green-50 rounded-lg border border-green-200">
@@ -1215,12 +1366,19 @@ const EnhancedSalesOrderForm = ({
                               className="w-16 h-7 text-sm px-2"
                             />
                           </div>
-                          <span className="font-medium text-sm">LKR {item.total.toLocaleString()}</span>
+                          <span className="font-medium text-sm">
+                            {(pricedTotals.get(item.tempId) ?? item.total) < item.total && (
+                              <span className="text-xs text-gray-400 line-through mr-1">LKR {item.total.toLocaleString()}</span>
+                            )}
+                            LKR {(pricedTotals.get(item.tempId) ?? item.total).toLocaleString()}
+                          </span>
                         </div>
                       </div>
                     ))}
                   </div>
 
+                  <AppliedPricingRules pricing={pricing} />
+
                   {/* Discount Section */}
                   <div className="border-t pt-3 space-y-3">
                     <div>
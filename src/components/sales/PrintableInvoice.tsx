@@ -6,6 +6,8 @@ import { useToast } from '@/hooks/use-toast';
 import { Capacitor } from '@capacitor/core';
 import companyLogo from '../../../assets/icon.png';
 import { supabase } from '@/integrations/supabase/client';
+import type { AppliedPricingRule } from '@/types/discounts';
+import { getRuleApplications } from '@/utils/pricingRules';
 
 interface PrintableInvoiceProps {
   invoice: Invoice;
@@ -17,6 +19,18 @@ const PrintableInvoice = ({ invoice, salesOrder, onClose }: PrintableInvoiceProp
   const { toast } = useToast();
   const [invoiceItems, setInvoiceItems] = useState<InvoiceItem[]>(invoice.items || []);
   const [isLoadingItems, setIsLoadingItems] = useState(false);
+  const [ruleApplications, setRuleApplications] = useState<AppliedPricingRule[]>([]);
+
+  // Invoices raised from a sales order show the rules recorded on the order
+  useEffect(() => {
+    let isMounted = true;
+    getRuleApplications([invoice.id, invoice.salesOrderId || '']).then((applications) => {
+      if (isMounted) setRuleApplications(applications);
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [invoice.id, invoice.salesOrderId]);
 
   useEffect(() => {
     let isMounted = true;
@@ -32,7 +46,7 @@ const PrintableInvoice = ({ invoice, salesOrder, onClose }: PrintableInvoiceProp
       setIsLoadingItems(true);
       const { data, error } = await supabase
         .from('invoice_items')
-        .select('id, product_id, product_name, color, size, quantity, unit_price, total')
+        .select('id, product_id, product_name, color, size, quantity, unit_price, total, applied_rule_id')
         .eq('invoice_id', invoice.id);
 
       if (!error && data && isMounted) {
@@ -44,7 +58,8 @@ const PrintableInvoice = ({ invoice, salesOrder, onClose }: PrintableInvoiceProp
           size: item.size,
           quantity: item.quantity,
           unitPrice: Number(item.unit_price),
-          total: Number(item.total)
+          total: Number(item.total),
+          appliedRuleId: item.applied_rule_id || undefined
         })));
       } else if (isMounted && salesOrder?.items?.length) {
         setInvoiceItems(salesOrder.items.map((item) => ({
@@ -55,7 +70,8 @@ const PrintableInvoice = ({ invoice, salesOrder, onClose }: PrintableInvoiceProp
           size: item.size,
           quantity: item.quantity,
           unitPrice: item.unitPrice,
-          total: item.total
+          total: item.total,
+          appliedRuleId: item.appliedRuleId
         })));
       }
 
@@ -260,6 +276,11 @@ const PrintableInvoice = ({ invoice, salesOrder, onClose }: PrintableInvoiceProp
               font-size: 14px; 
               border-top: 1px solid #333; 
             }
+            .promotions { 
+              margin-bottom: 15px; 
+              font-size: 11px; 
+              color: #15803d; 
+            }
             .signature-section { 
               border-top: 1px solid #333; 
               padding-top: 20px; 
@@ -324,7 +345,7 @@ const PrintableInvoice = ({ invoice, salesOrder, onClose }: PrintableInvoiceProp
                 ${invoiceItems.map((item, index) => `
                   <tr>
                     <td>${index + 1}</td>
-                    <td>${item.productName}</td>
+                    <td>${item.productName}${item.appliedRuleId ? ' <em>(Promotion)</em>' : ''}</td>
                     <td>${item.color}, ${item.size}</td>
                     <td>LKR ${item.unitPrice.toLocaleString()}</td>
                     <td>${item.quantity}</td>
@@ -347,6 +368,15 @@ const PrintableInvoice = ({ invoice, salesOrder, onClose }: PrintableInvoiceProp
                 </tr>
               </table>
             </div>
+
+            ${ruleApplications.length > 0 ? `
+              <div class="promotions">
+                <h3 style="margin: 0 0 8px 0; font-size: 14px;">Promotions Applied</h3>
+                ${ruleApplications.map((application) => `
+                  <div>${application.ruleName} - ${application.description}: LKR ${application.appliedAmount.toLocaleString()} saved</div>
+                `).join('')}
+              </div>
+            ` : ''}
             
             
             <div class="footer">
@@ -563,7 +593,10 @@ const PrintableInvoice = ({ invoice, salesOrder, onClose }: PrintableInvoiceProp
               {invoiceItems.map((item, index) => (
                 <tr key={item.id}>
                   <td className="border border-gray-300 px-4 py-2">{index + 1}</td>
-                  <td className="border border-gray-300 px-4 py-2">{item.productName}</td>
+                  <td className="border border-gray-300 px-4 py-2">
+                    {item.productName}
+                    {item.appliedRuleId && <span className="ml-1 text-xs italic text-green-700">(Promotion)</span>}
+                  </td>
                   <td className="border border-gray-300 px-4 py-2">{item.color}, {item.size}</td>
                   <td className="border border-gray-300 px-4 py-2 text-right">LKR {item.unitPrice.toLocaleString()}</td>
                   <td className="border border-gray-300 px-4 py-2 text-right">{item.quantity}</td>
@@ -600,6 +633,20 @@ const PrintableInvoice = ({ invoice, salesOrder, onClose }: PrintableInvoiceProp
         </div>
 
 
+        {ruleApplications.length > 0 && (
+          <div className="mb-6 text-sm">
+            <h3 className="font-semibold text-gray-800 mb-2">Promotions Applied</h3>
+            <div className="space-y-1">
+              {ruleApplications.map((application) => (
+                <div key={application.ruleId} className="flex justify-between text-green-700">
+                  <span>{application.ruleName} - {application.description}</span>
+                  <span>LKR {application.appliedAmount.toLocaleString()} saved</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Additional Info */}
         <div className="mt-8 text-xs text-gray-500">
           <p>Invoice generated on: {new Date().toLocaleString()}</p>
@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ArrowLeft, Edit, FileText } from 'lucide-react';
 import CreateInvoiceForm from './CreateInvoiceForm';
+import { getOutstandingQuantity, hasOutstandingLines } from '@/utils/salesOrderFulfilment';
 
 interface SalesOrderDetailsProps {
   user: User;
@@ -36,7 +37,8 @@ const SalesOrderDetails = ({ user, order, onBack, onEdit }: SalesOrderDetailsPro
     return order.total - order.totalInvoiced;
   };
 
-  const canCreateInvoice = order.status === 'approved' || order.status === 'partially_invoiced';
+  const canCreateInvoice = (order.status === 'approved' || order.status === 'partially_invoiced') &&
+    hasOutstandingLines(order);
 
   if (showCreateInvoice) {
     return (
@@ -119,12 +121,18 @@ const SalesOrderDetails = ({ user, order, onBack, onEdit }: SalesOrderDetailsPro
                       <div>
                         <p className="font-medium">{item.productName}</p>
                         <p className="text-sm text-gray-600">
-                          Color: {item.color} | Size: {item.size} | Quantity: {item.quantity}
+                          Color: {item.color} | Size: {item.size}
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          Ordered: {item.quantity} | Invoiced: {item.invoicedQuantity || 0} | Outstanding: {getOutstandingQuantity(item)}
                         </p>
                         <p className="text-sm text-gray-600">Unit Price: LKR {item.unitPrice.toLocaleString()}</p>
                       </div>
                       <div className="text-right">
                         <p className="font-semibold">LKR {item.total.toLocaleString()}</p>
+                        {order.status === 'partially_invoiced' && getOutstandingQuantity(item) > 0 && (
+                          <Badge variant="outline" className="mt-1 text-xs border-orange-300 text-orange-700">Backordered</Badge>
+                        )}
                       </div>
                     </div>
                   ))
@@ -184,6 +192,16 @@ const SalesOrderDetails = ({ user, order, onBack, onEdit }: SalesOrderDetailsPro
                   Approved by: {order.approvedBy} on {order.approvedAt?.toLocaleDateString()}
                 </p>
               )}
+              {order.approvalReasons && order.approvalReasons.length > 0 && (
+                <div className="mt-2 text-sm text-orange-700 bg-orange-50 p-2 rounded">
+                  <p className="font-medium">Approval required because:</p>
+                  <ul className="list-disc list-inside">
+                    {order.approvalReasons.map((reason) => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
 
             {/* Action Buttons */}
@@ -194,7 +212,7 @@ const SalesOrderDetails = ({ user, order, onBack, onEdit }: SalesOrderDetailsPro
                   Edit Order
                 </Button>
               )}
-              {canCreateInvoice && getRemainingAmount() > 0 && (
+              {canCreateInvoice && (
                 <Button 
                   className="bg-green-600 hover:bg-green-700" 
                   onClick={() => setShowCreateInvoice(true)}
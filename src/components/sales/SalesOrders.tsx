@@ -22,8 +22,11 @@ import { useToast } from '@/hooks/use-toast';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import AgencySelector from '@/components/common/AgencySelector';
+import OfflineSyncStatus from '@/components/common/OfflineSyncStatus';
 import { chunkArray, fetchAllSupabaseRows } from '@/utils/supabasePagination';
 import { getDisplayInvoiceNumber } from '@/utils/invoiceNumber';
+import { hasOutstandingLines } from '@/utils/salesOrderFulfilment';
+import BackorderStockAlert from './BackorderStockAlert';
 
 interface SalesOrdersProps {
   user: User;
@@ -53,6 +56,8 @@ const SalesOrders = ({ user }: SalesOrdersProps) => {
   const [selectedOrder, setSelectedOrder] = useState<SalesOrder | null>(null);
   const [editingOrder, setEditingOrder] = useState<SalesOrder | null>(null);
   const [convertingToInvoiceOrder, setConvertingToInvoiceOrder] = useState<SalesOrder | null>(null);
+  // Set when invoicing arrived stock for a backorder, so only those quantities are pre-filled
+  const [backorderQuantities, setBackorderQuantities] = useState<Record<string, number> | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('orders');
   const [showAllOrders, setShowAllOrders] = useState(false);
@@ -98,7 +103,7 @@ const SalesOrders = ({ user }: SalesOrdersProps) => {
         .select(`
           id, customer_id, customer_name, agency_id, subtotal, 
           discount_percentage, discount_amount, total, total_invoiced,
-          status, requires_approval, approved_by, approved_at,
+          status, requires_approval, approval_reasons, approved_by, approved_at,
           latitude, longitude, order_number, created_at, created_by
         `);
       
@@ -186,7 +191,7 @@ const SalesOrders = ({ user }: SalesOrdersProps) => {
 
       const [itemsResult, returnItemsResult] = await Promise.all([
         orderIds.length > 0
-          ? supabase.from('sales_order_items').select('id, sales_order_id, product_id, product_name, color, size, quantity, unit_price, total').in('sales_order_id', orderIds)
+          ? supabase.from('sales_order_items').select('id, sales_order_id, product_id, product_name, color, size, quantity, invoiced_quantity, unit_price, total, applied_rule_id').in('sales_order_id', orderIds)
           : Promise.resolve({ data: [] as any[], error: null }),
         returnIds0.length > 0
           ? supabase.from('return_items').select('id, return_id, invoice_item_id, product_id, product_name, color, size, quantity_returned, original_quantity, unit_price, total, reason').in('return_id', returnIds0)
@@ -261,7 +266,9 @@ const SalesOrders = ({ user }: SalesOrdersProps) => {
             size: item.size,
             quantity: item.quantity,
             unitPrice: Number(item.unit_price),
-            total: Number(item.total)
+            total: Number(item.total),
+            appliedRuleId: item.applied_rule_id || undefined,
+            invoicedQuantity: Number(item.invoiced_quantity || 0)
           })),
           subtotal: Number(order.subtotal),
           discountPercentage: Number(order.discount_percentage),
@@ -270,6 +277,7 @@ const SalesOrders = ({ user }: SalesOrdersProps) => {
           totalInvoiced: Number(order.total_invoiced || 0),
           status: order.status,
           requiresApproval: order.requires_approval,
+          approvalReasons: order.approval_reasons || undefined,
           approvedBy: order.approved_by,
           approvedAt: order.approved_at ? new Date(order.approved_at) : undefined,
           gpsCoordinates: {
@@ -437,7 +445,7 @@ const SalesOrders = ({ user }: SalesOrdersProps) => {
               fetchAllSupabaseRows<any>(() =>
                 supabase
                   .from('invoice_items')
-                  .select('id, invoice_id, product_id, product_name, color, size, quantity, unit_price, total')
+                  .select('id, invoice_id, product_id, product_name, color, size, quantity, unit_price, total, applied_rule_id')
                   .in('invoice_id', chunk)
               )
             )
@@ -521,7 +529,8 @@ const SalesOrders = ({ user }: SalesOrdersProps) => {
               size: item.size,
               quantity: item.quantity,
               unitPrice: Number(item.unit_price),
-              total: Number(item.total)
+              total: Number(item.total),
+              appliedRuleId: item.applied_rule_id || undefined
             })),
             subtotal: Number(invoice.subtotal),
             discountAmount: Number(invoice.discount_amount),
@@ -621,9 +630,25 @@ const SalesOrders = ({ user }: SalesOrdersProps) => {
   }, [getRemainingAmount]);
 
   const canConvertToInvoice = useCallback((order: SalesOrder) => {
-    return (order.status === 'approved' || order.status === 'partially_invoiced') && getRemainingAmount(order) > 0;
+    // Orders are fulfilled line by line; the amount check only covers orders loaded without lines
+    const hasOpenQuantity = order.items.length > 0 ? hasOutstandingLines(order) : getRemainingAmount(order) > 0;
+    return (order.status === 'approved' || order.status === 'partially_invoiced') && hasOpenQuantity;
   }, [getRemainingAmount]);
 
+  const handleInvoiceBackorder = useCallback((orderId: string, quantities: Record<string, number>) => {
+    const order = orders.find(o => o.id === orderId);
+    if (!order || !canConvertToInvoice(order)) {
+      toast({
+        title: 'Order not available',
+        description: 'This order is no longer open for invoicing. Refresh to see its latest status.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setBackorderQuantities(quantities);
+    setConvertingToInvoiceOrder(order);
+  }, [orders, canConvertToInvoice, toast]);
+
   const canClose = useCallback((order: SalesOrder) => {
     return order.status !== 'closed' && order.status !== 'cancelled' && order.status !== 'invoiced';
   }, []);
@@ -632,7 +657,7 @@ const SalesOrders = ({ user }: SalesOrdersProps) => {
     try {
       const { data, error } = await supabase
         .from('sales_order_items')
-        .select('id, sales_order_id, product_id, product_name, color, size, quantity, unit_price, total')
+        .select('id, sales_order_id, product_id, product_name, color, size, quantity, invoiced_quantity, unit_price, total, applied_rule_id')
         .eq('sales_order_id', order.id);
 
       if (error) throw error;
@@ -647,7 +672,9 @@ const SalesOrders = ({ user }: SalesOrdersProps) => {
           size: item.size,
           quantity: item.quantity,
           unitPrice: Number(item.unit_price),
-          total: Number(item.total)
+          total: Number(item.total),
+          appliedRuleId: item.applied_rule_id || undefined,
+          invoicedQuantity: item.invoiced_quantity
         }))
       });
     } catch (error) {
@@ -698,6 +725,7 @@ const SalesOrders = ({ user }: SalesOrdersProps) => {
     setShowDirectInvoiceForm(false);
     setEditingOrder(null);
     setConvertingToInvoiceOrder(null);
+    setBackorderQuantities(undefined);
   }, [fetchData, fetchInvoicePage]);
 
   const requiresAgencySelection = user.role === 'superuser' && !selectedAgencyId;
@@ -894,8 +922,12 @@ const SalesOrders = ({ user }: SalesOrdersProps) => {
         user={effectiveUser}
         salesOrder={convertingToInvoiceOrder}
         invoicedItems={invoicedItemsByOrder[convertingToInvoiceOrder.id] || []}
+        initialQuantities={backorderQuantities}
         onSubmit={handleOrderSuccess}
-        onCancel={() => setConvertingToInvoiceOrder(null)}
+        onCancel={() => {
+          setConvertingToInvoiceOrder(null);
+          setBackorderQuantities(undefined);
+        }}
       />
     );
   }
@@ -1036,6 +1068,18 @@ const SalesOrders = ({ user }: SalesOrdersProps) => {
           placeholder="Select agency to view sales data..."
         />
 
+        <OfflineSyncStatus
+          kinds={['sales_order', 'invoice']}
+          onSynced={() => Promise.all([fetchData(), fetchInvoicePage()])}
+        />
+
+        {selectedAgencyId && (
+          <BackorderStockAlert
+            agencyId={selectedAgencyId}
+            onInvoice={handleInvoiceBackorder}
+          />
+        )}
+
         {/* Modern Setup Warning */}
         {(customers.length === 0 || products.length === 0) && (
           <Card className="bg-gradient-to-r from-orange-50 to-amber-50 border border-orange-200 shadow-lg rounded-2xl mb-8">
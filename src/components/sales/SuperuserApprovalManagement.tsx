@@ -18,6 +18,7 @@ import {
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { getUnreviewedCreditBreachInvoices, reviewInvoiceCreditBreach, type CreditBreachInvoice } from '@/utils/customerCredit';
 
 interface SuperuserApprovalManagementProps {
   user: User;
@@ -26,14 +27,46 @@ interface SuperuserApprovalManagementProps {
 const SuperuserApprovalManagement = ({ user }: SuperuserApprovalManagementProps) => {
   const [filter, setFilter] = useState<'all' | 'pending' | 'approved' | 'rejected'>('pending');
   const [orders, setOrders] = useState<SalesOrder[]>([]);
+  const [breachInvoices, setBreachInvoices] = useState<CreditBreachInvoice[]>([]);
   const [loading, setLoading] = useState(true);
   const [processing, setProcessing] = useState<string | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
     fetchOrdersNeedingApproval();
+    fetchCreditBreachInvoices();
   }, []);
 
+  // Direct invoices made offline cannot wait for approval, so breaches found on sync are only reviewed
+  const fetchCreditBreachInvoices = async () => {
+    try {
+      setBreachInvoices(await getUnreviewedCreditBreachInvoices());
+    } catch (error) {
+      console.error('Error fetching invoices over credit limit:', error);
+    }
+  };
+
+  const handleReviewInvoice = async (invoiceId: string) => {
+    setProcessing(invoiceId);
+    try {
+      await reviewInvoiceCreditBreach(invoiceId);
+      toast({
+        title: 'Invoice Reviewed',
+        description: 'The invoice has been marked as reviewed',
+      });
+      fetchCreditBreachInvoices();
+    } catch (error) {
+      console.error('Error reviewing invoice:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to mark the invoice as reviewed',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessing(null);
+    }
+  };
+
   const fetchOrdersNeedingApproval = async () => {
     try {
       setLoading(true);
@@ -43,6 +76,7 @@ const SuperuserApprovalManagement = ({ user }: SuperuserApprovalManagementProps)
         .from('sales_orders')
         .select(`
           id,
+          order_number,
           customer_id,
           customer_name,
           agency_id,
@@ -52,6 +86,7 @@ const SuperuserApprovalManagement = ({ user }: SuperuserApprovalManagementProps)
           total,
           status,
           requires_approval,
+          approval_reasons,
           approved_by,
           approved_at,
           created_at,
@@ -63,7 +98,30 @@ const SuperuserApprovalManagement = ({ user }: SuperuserApprovalManagementProps)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      setOrders(data || []);
+      setOrders((data || []).map(order => ({
+        id: order.id,
+        orderNumber: order.order_number || order.id,
+        customerId: order.customer_id,
+        customerName: order.customer_name,
+        agencyId: order.agency_id,
+        items: [],
+        subtotal: Number(order.subtotal),
+        discountPercentage: Number(order.discount_percentage),
+        discountAmount: Number(order.discount_amount),
+        total: Number(order.total),
+        totalInvoiced: 0,
+        status: order.status as SalesOrder['status'],
+        requiresApproval: order.requires_approval,
+        approvalReasons: order.approval_reasons || undefined,
+        approvedBy: order.approved_by || undefined,
+        approvedAt: order.approved_at ? new Date(order.approved_at) : undefined,
+        gpsCoordinates: {
+          latitude: order.latitude || 0,
+          longitude: order.longitude || 0
+        },
+        createdAt: new Date(order.created_at),
+        createdBy: order.created_by
+      })));
     } catch (error) {
       console.error('Error fetching orders:', error);
       toast({
@@ -199,18 +257,57 @@ const SuperuserApprovalManagement = ({ user }: SuperuserApprovalManagementProps)
         <div>
           <h2 className="text-3xl font-bold tracking-tight">Order Approvals</h2>
           <p className="text-muted-foreground">
-            Review and approve orders with discounts exceeding agency limits
+            Review and approve orders with discounts exceeding agency limits or customers over their credit limits
           </p>
         </div>
         <Button
           variant="outline"
-          onClick={fetchOrdersNeedingApproval}
+          onClick={() => {
+            fetchOrdersNeedingApproval();
+            fetchCreditBreachInvoices();
+          }}
           disabled={loading}
         >
           Refresh
         </Button>
       </div>
 
+      {breachInvoices.length > 0 && (
+        <Card className="border-orange-200">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-orange-800">
+              <AlertTriangle className="h-5 w-5" />
+              Offline Invoices Over Credit Limit ({breachInvoices.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {breachInvoices.map((invoice) => (
+              <div key={invoice.id} className="flex justify-between items-start gap-4 p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm">
+                <div>
+                  <p className="font-medium">
+                    <span className="font-mono">#{invoice.invoiceNumber}</span> · {invoice.customerName} · LKR {invoice.total.toLocaleString()}
+                  </p>
+                  <p className="text-xs text-gray-600">{invoice.createdAt.toLocaleDateString()}</p>
+                  <ul className="list-disc list-inside text-orange-700 mt-1">
+                    {invoice.reasons.map(reason => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleReviewInvoice(invoice.id)}
+                  disabled={processing === invoice.id}
+                >
+                  {processing === invoice.id ? 'Saving...' : 'Mark Reviewed'}
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Filter Tabs */}
       <div className="flex gap-2">
         {[
@@ -240,7 +337,7 @@ const SuperuserApprovalManagement = ({ user }: SuperuserApprovalManagementProps)
             </h3>
             <p className="text-gray-600">
               {filter === 'pending' 
-                ? 'All orders are within approved discount limits.' 
+                ? 'All orders are within approved discount and credit limits.' 
                 : `There are no ${filter} orders at this time.`}
             </p>
           </CardContent>
@@ -253,11 +350,13 @@ const SuperuserApprovalManagement = ({ user }: SuperuserApprovalManagementProps)
                 <div className="flex justify-between items-start">
                   <div>
                     <CardTitle className="flex items-center gap-3">
-                      <span className="font-mono text-sm">#{order.id}</span>
+                      <span className="font-mono text-sm">#{order.orderNumber}</span>
                       {getStatusBadge(order)}
-                      <Badge variant="outline" className="text-orange-600 border-orange-600">
-                        {order.discountPercentage}% Discount
-                      </Badge>
+                      {order.discountPercentage > 0 && (
+                        <Badge variant="outline" className="text-orange-600 border-orange-600">
+                          {order.discountPercentage}% Discount
+                        </Badge>
+                      )}
                     </CardTitle>
                     <div className="flex items-center gap-4 text-sm text-gray-600 mt-2">
                       <span className="flex items-center gap-1">
@@ -300,6 +399,17 @@ const SuperuserApprovalManagement = ({ user }: SuperuserApprovalManagementProps)
               </CardHeader>
               
               <CardContent>
+                {order.approvalReasons && order.approvalReasons.length > 0 && (
+                  <div className="mb-4 p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm">
+                    <p className="font-medium text-orange-800 mb-1">Approval required because:</p>
+                    <ul className="list-disc list-inside text-orange-700 space-y-1">
+                      {order.approvalReasons.map(reason => (
+                        <li key={reason}>{reason}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                   <div>
                     <span className="font-medium text-gray-500">Subtotal:</span>
@@ -337,9 +447,10 @@ const SuperuserApprovalManagement = ({ user }: SuperuserApprovalManagementProps)
       <Alert>
         <AlertTriangle className="h-4 w-4" />
         <AlertDescription>
-          <strong>Approval Required:</strong> Orders with discounts exceeding agency limits are automatically 
-          marked as pending and require superuser approval before processing. Approved orders will be 
-          processed immediately and inventory will be updated accordingly.
+          <strong>Approval Required:</strong> Orders with discounts exceeding agency limits, or for customers 
+          over their credit limit or maximum overdue age, are automatically marked as pending and require superuser approval before processing. Approved orders will be 
+          processed immediately and inventory will be updated accordingly. Direct invoices made offline are only checked when they 
+          sync, so those over the limit are listed for review instead.
         </AlertDescription>
       </Alert>
     </div>
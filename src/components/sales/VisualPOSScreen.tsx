@@ -1,8 +1,8 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { User } from '@/types/auth';
 import { SalesOrder, SalesOrderItem } from '@/types/sales';
 import { Customer } from '@/types/customer';
-import { Product } from '@/types/product';
+import { Product, ScannedProduct } from '@/types/product';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -12,20 +12,44 @@ import { Badge } from '@/components/ui/badge';
 import { ArrowLeft, MapPin, AlertTriangle, ShoppingCart, Plus, Minus, Trash } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { getAgencyPriceType, getProductPriceForAgency, type PriceType } from '@/utils/agencyPricing';
+import { getAgencyPriceType, getCustomerPriceList, resolveProductPrice, type PriceType } from '@/utils/agencyPricing';
+import type { PriceList } from '@/types/pricing';
+import BarcodeScanButton from '@/components/camera/BarcodeScanButton';
+import type { PricedCartLine, PricingCartLine } from '@/types/discounts';
+import { usePricingRules } from '@/hooks/usePricingRules';
+import { claimPricingRules } from '@/utils/pricingRules';
+import AppliedPricingRules from './AppliedPricingRules';
 
 interface VisualPOSScreenProps {
   user: User;
-  onSubmit: (order: Omit<SalesOrder, 'id' | 'createdAt' | 'createdBy'>) => void;
+  // Once the order is saved, claimRules counts its pricing rules and returns the lines to save with it,
+  // priced again without any rule another order used up in the meantime
+  onSubmit: (
+    order: Omit<SalesOrder, 'id' | 'createdAt' | 'createdBy'>,
+    claimRules: (orderId: string) => Promise<SalesOrderItem[]>
+  ) => void;
   onCancel: () => void;
 }
 
+const toOrderItem = (line: PricedCartLine): SalesOrderItem => ({
+  id: line.key,
+  productId: line.productId,
+  productName: line.productName,
+  color: line.color,
+  size: line.size,
+  quantity: line.quantity,
+  unitPrice: line.unitPrice,
+  total: line.total,
+  appliedRuleId: line.appliedRuleId
+});
+
 const VisualPOSScreen = ({ user, onSubmit, onCancel }: VisualPOSScreenProps) => {
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [agencyPriceType, setAgencyPriceType] = useState<PriceType>('billing_price');
+  const [customerPriceList, setCustomerPriceList] = useState<PriceList | null>(null);
   const { toast } = useToast();
 
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
@@ -45,6 +69,16 @@ const VisualPOSScreen = ({ user, onSubmit, onCancel }: VisualPOSScreenProps) =>
     fetchData();
   }, [user.agencyId]);
 
+  useEffect(() => {
+    if (!selectedCustomer?.id) {
+      setCustomerPriceList(null);
+      return;
+    }
+    getCustomerPriceList(selectedCustomer.id).then(setCustomerPriceList);
+  }, [selectedCustomer?.id]);
+
+  const getUnitPrice = (product: Product) => resolveProductPrice(product, agencyPriceType, customerPriceList);
+
   const fetchData = async () => {
     try {
       setIsLoading(true);
@@ -133,7 +167,38 @@ const VisualPOSScreen = ({ user, onSubmit, onCancel }: VisualPOSScreenProps) =>
     ? products.filter(p => p.category === selectedCategory)
     : products;
 
-  const subtotal = orderItems.reduce((sum, item) => sum + item.total, 0);
+  const pricingCart = useMemo<PricingCartLine[]>(() => orderItems.map(item => ({
+    key: item.id,
+    productId: item.productId,
+    productName: item.productName,
+    color: item.color,
+    size: item.size,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice
+  })), [orderItems]);
+
+  const resolvePromotionProduct = useCallback((productId: string) => {
+    const product = products.find(p => p.id === productId);
+    if (!product) return null;
+    return {
+      productId: product.id,
+      productName: product.name,
+      color: product.colors[0] || 'default',
+      size: product.sizes[0] || 'default',
+      unitPrice: resolveProductPrice(product, agencyPriceType, customerPriceList)
+    };
+  }, [products, agencyPriceType, customerPriceList]);
+
+  const { pricing } = usePricingRules(pricingCart, {
+    customerId: selectedCustomer?.id,
+    agentId: user.id,
+    resolveProduct: resolvePromotionProduct
+  });
+
+  const pricedItems: PricedCartLine[] = [...pricing.lines, ...pricing.promotionLines];
+  const pricedTotals = new Map(pricing.lines.map(line => [line.key, line.total]));
+
+  const subtotal = pricedItems.reduce((sum, item) => sum + item.total, 0);
   const discountAmount = (subtotal * discountPercentage) / 100;
   const total = subtotal - discountAmount;
   const requiresApproval = discountPercentage > 20;
@@ -175,8 +240,8 @@ const VisualPOSScreen = ({ user, onSubmit, onCancel }: VisualPOSScreenProps) =>
         color: selectedColor,
         size: selectedSize,
         quantity,
-        unitPrice: getProductPriceForAgency(selectedProduct, agencyPriceType),
-        total: getProductPriceForAgency(selectedProduct, agencyPriceType) * quantity
+        unitPrice: getUnitPrice(selectedProduct),
+        total: getUnitPrice(selectedProduct) * quantity
       };
       setOrderItems([...orderItems, newItem]);
     }
@@ -186,6 +251,34 @@ const VisualPOSScreen = ({ user, onSubmit, onCancel }: VisualPOSScreenProps) =>
     setSelectedSize(selectedProduct.sizes[0]);
   };
 
+  // A scanned label already names the color and size, so the line goes straight into the cart
+  const addScannedItem = ({ product, color, size }: ScannedProduct) => {
+    const unitPrice = getUnitPrice(product);
+    setOrderItems(prev => {
+      const existing = prev.find(item => item.productId === product.id && item.color === color && item.size === size);
+      if (existing) {
+        return prev.map(item => item === existing
+          ? { ...item, quantity: item.quantity + 1, total: item.unitPrice * (item.quantity + 1) }
+          : item
+        );
+      }
+      return [...prev, {
+        id: Date.now().toString(),
+        productId: product.id,
+        productName: product.name,
+        color,
+        size,
+        quantity: 1,
+        unitPrice,
+        total: unitPrice
+      }];
+    });
+    toast({
+      title: "Added to cart",
+      description: `${product.name} (${color}, ${size})`,
+    });
+  };
+
   const updateQuantity = (itemId: string, newQuantity: number) => {
     if (newQuantity <= 0) {
       removeItem(itemId);
@@ -246,7 +339,7 @@ const VisualPOSScreen = ({ user, onSubmit, onCancel }: VisualPOSScreenProps) =>
       customerId: selectedCustomer.id,
       customerName: selectedCustomer.name,
       agencyId: user.agencyId || 'agency-1',
-      items: orderItems,
+      items: pricedItems.map(toOrderItem),
       subtotal,
       discountPercentage,
       discountAmount,
@@ -256,7 +349,16 @@ const VisualPOSScreen = ({ user, onSubmit, onCancel }: VisualPOSScreenProps) =>
       requiresApproval,
       gpsCoordinates
     };
-    onSubmit(orderData);
+    const customerId = selectedCustomer.id;
+    const claimRules = async (orderId: string) => {
+      const savedPricing = await claimPricingRules(orderId, 'sales_order', pricingCart, pricing, {
+        customerId,
+        agentId: user.id,
+        resolveProduct: resolvePromotionProduct
+      });
+      return [...savedPricing.lines, ...savedPricing.promotionLines].map(toOrderItem);
+    };
+    onSubmit(orderData, claimRules);
   };
 
   if (isLoading) {
@@ -283,6 +385,7 @@ const VisualPOSScreen = ({ user, onSubmit, onCancel }: VisualPOSScreenProps) =>
             <h2 className="text-xl font-bold">Visual POS System</h2>
             <p className="text-sm text-gray-600">Click product images to add to cart</p>
           </div>
+          <BarcodeScanButton onScan={addScannedItem} />
           <Button
             onClick={captureGPS}
             variant={gpsCoordinates.latitude !== 0 ? "default" : "outline"}
@@ -394,7 +497,7 @@ const VisualPOSScreen = ({ user, onSubmit, onCancel }: VisualPOSScreenProps) =>
                           <h3 className="font-medium text-sm mb-1">{product.name}</h3>
                           <p className="text-xs text-gray-600 mb-2">{product.subCategory}</p>
                           <div className="flex justify-between items-center">
-                            <span className="font-bold text-blue-600">LKR {getProductPriceForAgency(product, agencyPriceType)}</span>
+                            <span className="font-bold text-blue-600">LKR {getUnitPrice(product)}</span>
                             <Badge variant="outline" className="text-xs">
                               {product.colors.length} colors
                             </Badge>
@@ -473,13 +576,18 @@ const VisualPOSScreen = ({ user, onSubmit, onCancel }: VisualPOSScreenProps) =>
                           </Button>
                         </div>
                         <div className="text-right min-w-16">
-                          <div className="font-medium text-xs">LKR {item.total}</div>
+                          {(pricedTotals.get(item.id) ?? item.total) < item.total && (
+                            <div className="text-xs text-gray-400 line-through">LKR {item.total}</div>
+                          )}
+                          <div className="font-medium text-xs">LKR {pricedTotals.get(item.id) ?? item.total}</div>
                         </div>
                       </div>
                     ))}
                   </div>
                 )}
 
+                <AppliedPricingRules pricing={pricing} />
+
                 {/* Order Summary */}
                 <div className="space-y-4 pt-4 border-t">
                   <div>
@@ -584,7 +692,7 @@ const VisualPOSScreen = ({ user, onSubmit, onCancel }: VisualPOSScreenProps) =>
                   <div>
                     <h3 className="font-medium">{selectedProduct.name}</h3>
                     <p className="text-sm text-gray-600">{selectedProduct.description}</p>
-                    <p className="font-bold text-blue-600">LKR {getProductPriceForAgency(selectedProduct, agencyPriceType)}</p>
+                    <p className="font-bold text-blue-600">LKR {getUnitPrice(selectedProduct)}</p>
                   </div>
                 </div>
 
@@ -651,7 +759,7 @@ const VisualPOSScreen = ({ user, onSubmit, onCancel }: VisualPOSScreenProps) =>
                   <div className="p-3 bg-blue-50 rounded-md">
                     <div className="flex justify-between items-center">
                       <span className="text-sm font-medium">Unit Price:</span>
-                      <span className="text-blue-600 font-medium">LKR {getProductPriceForAgency(selectedProduct, agencyPriceType).toLocaleString()}</span>
+                      <span className="text-blue-600 font-medium">LKR {getUnitPrice(selectedProduct).toLocaleString()}</span>
                     </div>
                     <div className="flex justify-between items-center mt-1">
                       <span className="text-sm font-medium">Quantity:</span>
@@ -659,7 +767,7 @@ const VisualPOSScreen = ({ user, onSubmit, onCancel }: VisualPOSScreenProps) =>
                     </div>
                     <div className="flex justify-between items-center mt-2 border-t pt-2 border-blue-200">
                       <span className="font-bold">Total Value:</span>
-                      <span className="text-blue-700 font-bold text-lg">LKR {(getProductPriceForAgency(selectedProduct, agencyPriceType) * quantity).toLocaleString()}</span>
+                      <span className="text-blue-700 font-bold text-lg">LKR {(getUnitPrice(selectedProduct) * quantity).toLocaleString()}</span>
                     </div>
                   </div>
                 </div>
@@ -12,6 +12,7 @@ import { Badge } from '@/components/ui/badge';
 import { Plus, MapPin, Search, Calendar, ArrowLeft, Users } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { offlineSyncService } from '@/services/offlineSync';
 import CustomerSearch from '@/components/customers/CustomerSearch';
 import AgencySelector from '@/components/common/AgencySelector';
 
@@ -204,27 +205,44 @@ const NonProductiveVisits = ({ user }: NonProductiveVisitsProps) => {
       // Get customer info to store
       const customerInfo = selectedCustomer?.name;
 
-      const { data, error } = await supabase
-        .from('non_productive_visits')
-        .insert([{
-          agency_id: selectedAgencyId || user.agencyId,
-          user_id: user.id,
-          customer_id: selectedCustomer?.id || null,
-          customer_name: customerInfo,
-          reason: formData.reason,
-          notes: formData.notes,
-          potential_customer: customerInfo,
-          store_front_photo: null,
-          latitude: gpsCoordinates.latitude,
-          longitude: gpsCoordinates.longitude,
-          created_by: user.id
-        }]);
+      const visit = {
+        agency_id: selectedAgencyId || user.agencyId,
+        user_id: user.id,
+        customer_id: selectedCustomer?.id || null,
+        customer_name: customerInfo,
+        reason: formData.reason,
+        notes: formData.notes,
+        potential_customer: customerInfo,
+        store_front_photo: null,
+        latitude: gpsCoordinates.latitude,
+        longitude: gpsCoordinates.longitude,
+        created_by: user.id
+      };
+
+      // The same id goes on the online insert and the outbox record so a replay cannot save the visit twice
+      const clientId = offlineSyncService.newClientId();
+      let savedOffline = offlineSyncService.isOffline();
+      if (!savedOffline) {
+        const { error } = await supabase
+          .from('non_productive_visits')
+          .insert([{ ...visit, client_id: clientId }]);
+
+        if (error && !offlineSyncService.isNetworkError(error)) throw error;
+        savedOffline = Boolean(error);
+      }
 
-      if (error) throw error;
+      if (savedOffline) {
+        await offlineSyncService.enqueue('non_productive_visit', visit, {
+          clientId,
+          label: `${customerInfo} - ${formData.reason}`,
+        });
+      }
 
       toast({
-        title: "Success",
-        description: "Non-productive visit recorded successfully",
+        title: savedOffline ? "Saved offline" : "Success",
+        description: savedOffline
+          ? "Visit stored on this device and will sync when you are back online"
+          : "Non-productive visit recorded successfully",
       });
 
       // Reset form
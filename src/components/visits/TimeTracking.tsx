@@ -11,6 +11,7 @@ import { Badge } from '@/components/ui/badge';
 import { Clock, MapPin, Calendar, Play, Square, Camera } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { offlineSyncService } from '@/services/offlineSync';
 import { Database } from '@/integrations/supabase/types';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAgencies } from '@/hooks/useAgency';
@@ -187,22 +188,37 @@ const TimeTracking = ({ user }: TimeTrackingProps) => {
       lastRecordedPointRef.current = { latitude, longitude };
       lastRoutePersistRef.current = now;
 
+      const routePoint = {
+        time_tracking_id: activeRecordId,
+        latitude,
+        longitude,
+        accuracy,
+        speed,
+        recorded_at: new Date(timestamp).toISOString(),
+      };
+      const clientId = offlineSyncService.newClientId();
+      const queueRoutePoint = () =>
+        offlineSyncService.enqueue('route_point', routePoint, {
+          clientId,
+          label: `Route point ${new Date(timestamp).toLocaleTimeString()}`,
+        });
+
+      if (offlineSyncService.isOffline()) {
+        await queueRoutePoint();
+        return;
+      }
+
       const { data, error } = await supabase
         .from('time_tracking_route_points')
-        .insert([
-          {
-            time_tracking_id: activeRecordId,
-            latitude,
-            longitude,
-            accuracy,
-            speed,
-            recorded_at: new Date(timestamp).toISOString(),
-          },
-        ])
+        .insert([{ ...routePoint, client_id: clientId }])
         .select()
         .single();
 
       if (error) {
+        if (offlineSyncService.isNetworkError(error)) {
+          await queueRoutePoint();
+          return;
+        }
         console.error('Error saving route point:', error);
         return;
       }
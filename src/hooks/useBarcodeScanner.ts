@@ -0,0 +1,48 @@
+import { useEffect, useRef } from 'react';
+
+// Keyboard-wedge scanners type a whole code in a few milliseconds and finish with Enter; people type far slower
+const MAX_KEY_GAP_MS = 50;
+const MIN_CODE_LENGTH = 6;
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Listen for codes from a keyboard-wedge scanner anywhere on the page. Keystrokes aimed at a text field are
+ * left alone, so a field can still take scans on its own.
+ */
+export const useBarcodeScanner = (onScan: (code: string) => void, enabled = true) => {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditable(event.target) || event.ctrlKey || event.altKey || event.metaKey) return;
+
+      const now = Date.now();
+      if (now - lastKeyAt > MAX_KEY_GAP_MS) {
+        buffer = '';
+      }
+      lastKeyAt = now;
+
+      if (event.key === 'Enter') {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          event.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+      } else if (event.key.length === 1) {
+        buffer += event.key;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { getCustomerCreditStatus, type CustomerCreditStatus } from '@/utils/customerCredit';
+
+export const useCustomerCredit = (customerId: string | null | undefined, agencyId: string | null | undefined) => {
+  const [creditStatus, setCreditStatus] = useState<CustomerCreditStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!customerId) {
+      setCreditStatus(null);
+      return;
+    }
+
+    let active = true;
+    setLoading(true);
+    getCustomerCreditStatus(customerId, agencyId)
+      .then((status) => {
+        if (active) setCreditStatus(status);
+      })
+      .catch((error) => {
+        console.warn('Error checking customer credit:', error);
+        if (active) setCreditStatus(null);
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [customerId, agencyId]);
+
+  return { creditStatus, loading };
+};
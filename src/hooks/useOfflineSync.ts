@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+import { offlineSyncService } from '@/services/offlineSync';
+import { OutboxRecord, OutboxRecordKind } from '@/types/offline';
+
+export const useOfflineSync = (kinds?: OutboxRecordKind[]) => {
+  const [records, setRecords] = useState<OutboxRecord[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [online, setOnline] = useState(typeof navigator === 'undefined' ? true : navigator.onLine);
+  const kindsKey = kinds ? kinds.join(',') : '';
+
+  useEffect(() => {
+    const unsubscribe = offlineSyncService.subscribe((all) => {
+      const wanted = kindsKey ? kindsKey.split(',') : null;
+      setRecords(wanted ? all.filter((r) => wanted.includes(r.kind)) : all);
+      setSyncing(offlineSyncService.isSyncing());
+    });
+    return unsubscribe;
+  }, [kindsKey]);
+
+  useEffect(() => {
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const syncNow = useCallback(() => offlineSyncService.syncPending(), []);
+  const retry = useCallback((clientId: string) => offlineSyncService.retry(clientId), []);
+  const discard = useCallback((clientId: string) => offlineSyncService.discard(clientId), []);
+
+  const unsynced = records.filter((r) => r.status !== 'synced');
+
+  return { records, unsynced, syncing, online, syncNow, retry, discard };
+};
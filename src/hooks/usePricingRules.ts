@@ -0,0 +1,31 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { PricingCartLine } from '@/types/discounts';
+import { evaluatePricingRules, getActivePricingRules, type PricingContext, type PricingRuleSet } from '@/utils/pricingRules';
+
+const EMPTY_RULES: PricingRuleSet = { discountRules: [], promotionalRules: [] };
+
+export const usePricingRules = (cart: PricingCartLine[], context: PricingContext) => {
+  const [rules, setRules] = useState<PricingRuleSet>(EMPTY_RULES);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    getActivePricingRules().then((loaded) => {
+      if (active) {
+        setRules(loaded);
+        setLoading(false);
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const { customerId, agentId, resolveProduct } = context;
+  const pricing = useMemo(
+    () => evaluatePricingRules(cart, rules, { customerId, agentId, resolveProduct }),
+    [cart, rules, customerId, agentId, resolveProduct]
+  );
+
+  return { pricing, loading };
+};
@@ -12,31 +12,37 @@ export type Database = {
       agencies: {
         Row: {
           address: string | null
+          cost_method: string
           created_at: string | null
           created_by: string | null
           email: string | null
           id: string
           name: string
+          odoo_partner_id: number | null
           phone: string | null
           updated_at: string | null
         }
         Insert: {
           address?: string | null
+          cost_method?: string
           created_at?: string | null
           created_by?: string | null
           email?: string | null
           id?: string
           name: string
+          odoo_partner_id?: number | null
           phone?: string | null
           updated_at?: string | null
         }
         Update: {
           address?: string | null
+          cost_method?: string
           created_at?: string | null
           created_by?: string | null
           email?: string | null
           id?: string
           name?: string
+          odoo_partner_id?: number | null
           phone?: string | null
           updated_at?: string | null
         }
@@ -100,25 +106,37 @@ export type Database = {
           allocated_amount: number
           allocated_at: string | null
           allocated_by: string | null
+          allocation_type: string
           collection_id: string
+          debit_note_id: string | null
           id: string
-          invoice_id: string
+          invoice_id: string | null
+          reason: string | null
+          reversal_of: string | null
         }
         Insert: {
           allocated_amount: number
           allocated_at?: string | null
           allocated_by?: string | null
+          allocation_type?: string
           collection_id: string
+          debit_note_id?: string | null
           id?: string
-          invoice_id: string
+          invoice_id?: string | null
+          reason?: string | null
+          reversal_of?: string | null
         }
         Update: {
           allocated_amount?: number
           allocated_at?: string | null
           allocated_by?: string | null
+          allocation_type?: string
           collection_id?: string
+          debit_note_id?: string | null
           id?: string
-          invoice_id?: string
+          invoice_id?: string | null
+          reason?: string | null
+          reversal_of?: string | null
         }
         Relationships: [
           {
@@ -135,6 +153,20 @@ export type Database = {
             referencedRelation: "collections"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "collection_allocations_debit_note_id_fkey"
+            columns: ["debit_note_id"]
+            isOneToOne: false
+            referencedRelation: "customer_debit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collection_allocations_reversal_of_fkey"
+            columns: ["reversal_of"]
+            isOneToOne: false
+            referencedRelation: "collection_allocations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "collection_allocations_invoice_id_fkey"
             columns: ["invoice_id"]
@@ -153,7 +185,14 @@ export type Database = {
           cleared_at: string | null
           collection_id: string
           created_at: string | null
+          deposit_batch_id: string | null
+          deposited_at: string | null
           id: string
+          replacement_for_cheque_id: string | null
+          resolution_method: string | null
+          resolved_at: string | null
+          return_reason: string | null
+          returned_at: string | null
           status: string | null
         }
         Insert: {
@@ -164,7 +203,14 @@ export type Database = {
           cleared_at?: string | null
           collection_id: string
           created_at?: string | null
+          deposit_batch_id?: string | null
+          deposited_at?: string | null
           id?: string
+          replacement_for_cheque_id?: string | null
+          resolution_method?: string | null
+          resolved_at?: string | null
+          return_reason?: string | null
+          returned_at?: string | null
           status?: string | null
         }
         Update: {
@@ -175,7 +221,14 @@ export type Database = {
           cleared_at?: string | null
           collection_id?: string
           created_at?: string | null
+          deposit_batch_id?: string | null
+          deposited_at?: string | null
           id?: string
+          replacement_for_cheque_id?: string | null
+          resolution_method?: string | null
+          resolved_at?: string | null
+          return_reason?: string | null
+          returned_at?: string | null
           status?: string | null
         }
         Relationships: [
@@ -186,14 +239,31 @@ export type Database = {
             referencedRelation: "collections"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "collection_cheques_deposit_batch_id_fkey"
+            columns: ["deposit_batch_id"]
+            isOneToOne: false
+            referencedRelation: "cheque_deposit_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collection_cheques_replacement_for_cheque_id_fkey"
+            columns: ["replacement_for_cheque_id"]
+            isOneToOne: false
+            referencedRelation: "collection_cheques"
+            referencedColumns: ["id"]
+          },
         ]
       }
       collections: {
         Row: {
           agency_id: string
+          allocation_strategy: string | null
           cash_amount: number | null
           cash_date: string
+          cash_discount: number | null
           cheque_amount: number | null
+          client_id: string | null
           created_at: string | null
           created_by: string | null
           customer_id: string
@@ -208,9 +278,12 @@ export type Database = {
         }
         Insert: {
           agency_id: string
+          allocation_strategy?: string | null
           cash_amount?: number | null
           cash_date: string
+          cash_discount?: number | null
           cheque_amount?: number | null
+          client_id?: string | null
           created_at?: string | null
           created_by?: string | null
           customer_id: string
@@ -225,9 +298,12 @@ export type Database = {
         }
         Update: {
           agency_id?: string
+          allocation_strategy?: string | null
           cash_amount?: number | null
           cash_date?: string
+          cash_discount?: number | null
           cheque_amount?: number | null
+          client_id?: string | null
           created_at?: string | null
           created_by?: string | null
           customer_id?: string
@@ -309,49 +385,73 @@ export type Database = {
         Row: {
           address: string
           agency_id: string
+          cash_only_reason: string | null
+          cash_only_since: string | null
           created_at: string | null
           created_by: string | null
+          credit_limit: number | null
           id: string
+          is_cash_only: boolean
           latitude: number | null
           longitude: number | null
+          max_overdue_days: number | null
           name: string
           phone: string
+          preferred_language: string
+          price_list_id: string | null
           secondary_phone: string | null
           shop_owner_birthday: string | null
           shop_owner_name: string | null
           signature: string | null
+          sms_opt_out: boolean
           storefront_photo: string | null
         }
         Insert: {
           address: string
           agency_id: string
+          cash_only_reason?: string | null
+          cash_only_since?: string | null
           created_at?: string | null
           created_by?: string | null
+          credit_limit?: number | null
           id?: string
+          is_cash_only?: boolean
           latitude?: number | null
           longitude?: number | null
+          max_overdue_days?: number | null
           name: string
           phone: string
+          preferred_language?: string
+          price_list_id?: string | null
           secondary_phone?: string | null
           shop_owner_birthday?: string | null
           shop_owner_name?: string | null
           signature?: string | null
+          sms_opt_out?: boolean
           storefront_photo?: string | null
         }
         Update: {
           address?: string
           agency_id?: string
+          cash_only_reason?: string | null
+          cash_only_since?: string | null
           created_at?: string | null
           created_by?: string | null
+          credit_limit?: number | null
           id?: string
+          is_cash_only?: boolean
           latitude?: number | null
           longitude?: number | null
+          max_overdue_days?: number | null
           name?: string
           phone?: string
+          preferred_language?: string
+          price_list_id?: string | null
           secondary_phone?: string | null
           shop_owner_birthday?: string | null
           shop_owner_name?: string | null
           signature?: string | null
+          sms_opt_out?: boolean
           storefront_photo?: string | null
         }
         Relationships: [
@@ -543,30 +643,42 @@ export type Database = {
       grn_items: {
         Row: {
           color: string
+          condition_notes: string | null
+          damaged_quantity: number
           grn_id: string | null
           id: string
           product_name: string
           quantity: number
+          received_quantity: number | null
+          short_quantity: number
           size: string
           total: number
           unit_price: number
         }
         Insert: {
           color: string
+          condition_notes?: string | null
+          damaged_quantity?: number
           grn_id?: string | null
           id?: string
           product_name: string
           quantity?: number
+          received_quantity?: number | null
+          short_quantity?: number
           size: string
           total: number
           unit_price: number
         }
         Update: {
           color?: string
+          condition_notes?: string | null
+          damaged_quantity?: number
           grn_id?: string | null
           id?: string
           product_name?: string
           quantity?: number
+          received_quantity?: number | null
+          short_quantity?: number
           size?: string
           total?: number
           unit_price?: number
@@ -590,9 +702,11 @@ export type Database = {
           id: string
           invoice_file_name: string
           invoice_id: string
+          odoo_move_id: number | null
           processed_at: string | null
           processed_by: string | null
           rejection_reason: string | null
+          source: string
           status: Database["public"]["Enums"]["grn_status"] | null
           total: number
           uploaded_by: string | null
@@ -605,9 +719,11 @@ export type Database = {
           id?: string
           invoice_file_name: string
           invoice_id: string
+          odoo_move_id?: number | null
           processed_at?: string | null
           processed_by?: string | null
           rejection_reason?: string | null
+          source?: string
           status?: Database["public"]["Enums"]["grn_status"] | null
           total?: number
           uploaded_by?: string | null
@@ -620,9 +736,11 @@ export type Database = {
           id?: string
           invoice_file_name?: string
           invoice_id?: string
+          odoo_move_id?: number | null
           processed_at?: string | null
           processed_by?: string | null
           rejection_reason?: string | null
+          source?: string
           status?: Database["public"]["Enums"]["grn_status"] | null
           total?: number
           uploaded_by?: string | null
@@ -733,34 +851,40 @@ export type Database = {
       }
       invoice_items: {
         Row: {
+          applied_rule_id: string | null
           color: string
           id: string
           invoice_id: string | null
           product_id: string | null
           product_name: string
           quantity: number
+          sales_order_item_id: string | null
           size: string
           total: number
           unit_price: number
         }
         Insert: {
+          applied_rule_id?: string | null
           color: string
           id?: string
           invoice_id?: string | null
           product_id?: string | null
           product_name: string
           quantity?: number
+          sales_order_item_id?: string | null
           size: string
           total: number
           unit_price: number
         }
         Update: {
+          applied_rule_id?: string | null
           color?: string
           id?: string
           invoice_id?: string | null
           product_id?: string | null
           product_name?: string
           quantity?: number
+          sales_order_item_id?: string | null
           size?: string
           total?: number
           unit_price?: number
@@ -799,11 +923,16 @@ export type Database = {
       invoices: {
         Row: {
           agency_id: string
+          client_id: string | null
           created_at: string | null
           created_by: string | null
+          credit_breach_reasons: string[] | null
+          credit_reviewed_at: string | null
+          credit_reviewed_by: string | null
           customer_id: string | null
           customer_name: string
           discount_amount: number | null
+          due_date: string | null
           id: string
           invoice_number: string | null
           latitude: number | null
@@ -815,11 +944,16 @@ export type Database = {
         }
         Insert: {
           agency_id: string
+          client_id?: string | null
           created_at?: string | null
           created_by?: string | null
+          credit_breach_reasons?: string[] | null
+          credit_reviewed_at?: string | null
+          credit_reviewed_by?: string | null
           customer_id?: string | null
           customer_name: string
           discount_amount?: number | null
+          due_date?: string | null
           id?: string
           invoice_number?: string | null
           latitude?: number | null
@@ -831,11 +965,16 @@ export type Database = {
         }
         Update: {
           agency_id?: string
+          client_id?: string | null
           created_at?: string | null
           created_by?: string | null
+          credit_breach_reasons?: string[] | null
+          credit_reviewed_at?: string | null
+          credit_reviewed_by?: string | null
           customer_id?: string | null
           customer_name?: string
           discount_amount?: number | null
+          due_date?: string | null
           id?: string
           invoice_number?: string | null
           latitude?: number | null
@@ -872,6 +1011,7 @@ export type Database = {
       non_productive_visits: {
         Row: {
           agency_id: string
+          client_id: string | null
           created_at: string
           created_by: string
           customer_id: string | null
@@ -887,6 +1027,7 @@ export type Database = {
         }
         Insert: {
           agency_id: string
+          client_id?: string | null
           created_at?: string
           created_by: string
           customer_id?: string | null
@@ -902,6 +1043,7 @@ export type Database = {
         }
         Update: {
           agency_id?: string
+          client_id?: string | null
           created_at?: string
           created_by?: string
           customer_id?: string | null
@@ -1289,34 +1431,43 @@ export type Database = {
       }
       purchase_order_items: {
         Row: {
+          approved_quantity: number | null
           color: string
           id: string
           product_id: string | null
           product_name: string
           purchase_order_id: string | null
           quantity: number
+          received_quantity: number
+          shipped_quantity: number
           size: string
           total: number
           unit_price: number
         }
         Insert: {
+          approved_quantity?: number | null
           color: string
           id?: string
           product_id?: string | null
           product_name: string
           purchase_order_id?: string | null
           quantity?: number
+          received_quantity?: number
+          shipped_quantity?: number
           size: string
           total: number
           unit_price: number
         }
         Update: {
+          approved_quantity?: number | null
           color?: string
           id?: string
           product_id?: string | null
           product_name?: string
           purchase_order_id?: string | null
           quantity?: number
+          received_quantity?: number
+          shipped_quantity?: number
           size?: string
           total?: number
           unit_price?: number
@@ -1356,36 +1507,66 @@ export type Database = {
         Row: {
           agency_id: string
           agency_name: string
+          approval_notes: string | null
+          approved_at: string | null
+          approved_by: string | null
+          approved_by_name: string | null
+          approved_total: number | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by_name: string | null
           created_at: string | null
           created_by: string | null
+          delivered_at: string | null
           id: string
           latitude: number | null
           longitude: number | null
           notes: string | null
+          shipping_closed: boolean
           status: Database["public"]["Enums"]["purchase_order_status"] | null
           total: number
         }
         Insert: {
           agency_id: string
           agency_name: string
+          approval_notes?: string | null
+          approved_at?: string | null
+          approved_by?: string | null
+          approved_by_name?: string | null
+          approved_total?: number | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by_name?: string | null
           created_at?: string | null
           created_by?: string | null
+          delivered_at?: string | null
           id?: string
           latitude?: number | null
           longitude?: number | null
           notes?: string | null
+          shipping_closed?: boolean
           status?: Database["public"]["Enums"]["purchase_order_status"] | null
           total?: number
         }
         Update: {
           agency_id?: string
           agency_name?: string
+          approval_notes?: string | null
+          approved_at?: string | null
+          approved_by?: string | null
+          approved_by_name?: string | null
+          approved_total?: number | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by_name?: string | null
           created_at?: string | null
           created_by?: string | null
+          delivered_at?: string | null
           id?: string
           latitude?: number | null
           longitude?: number | null
           notes?: string | null
+          shipping_closed?: boolean
           status?: Database["public"]["Enums"]["purchase_order_status"] | null
           total?: number
         }
@@ -1610,33 +1791,44 @@ export type Database = {
         Row: {
           applied_amount: number
           applied_at: string | null
+          description: string | null
+          document_type: string
           id: string
           order_id: string
           rule_id: string
+          rule_name: string | null
           rule_type: Database["public"]["Enums"]["rule_type"]
         }
         Insert: {
           applied_amount: number
           applied_at?: string | null
+          description?: string | null
+          document_type?: string
           id?: string
           order_id: string
           rule_id: string
+          rule_name?: string | null
           rule_type: Database["public"]["Enums"]["rule_type"]
         }
         Update: {
           applied_amount?: number
           applied_at?: string | null
+          description?: string | null
+          document_type?: string
           id?: string
           order_id?: string
           rule_id?: string
+          rule_name?: string | null
           rule_type?: Database["public"]["Enums"]["rule_type"]
         }
         Relationships: []
       }
       sales_order_items: {
         Row: {
+          applied_rule_id: string | null
           color: string
           id: string
+          invoiced_quantity: number
           product_id: string | null
           product_name: string
           quantity: number
@@ -1646,8 +1838,10 @@ export type Database = {
           unit_price: number
         }
         Insert: {
+          applied_rule_id?: string | null
           color: string
           id?: string
+          invoiced_quantity?: number
           product_id?: string | null
           product_name: string
           quantity?: number
@@ -1657,8 +1851,10 @@ export type Database = {
           unit_price: number
         }
         Update: {
+          applied_rule_id?: string | null
           color?: string
           id?: string
+          invoiced_quantity?: number
           product_id?: string | null
           product_name?: string
           quantity?: number
@@ -1701,8 +1897,10 @@ export type Database = {
       sales_orders: {
         Row: {
           agency_id: string
+          approval_reasons: string[] | null
           approved_at: string | null
           approved_by: string | null
+          client_id: string | null
           created_at: string | null
           created_by: string | null
           customer_id: string | null
@@ -1721,8 +1919,10 @@ export type Database = {
         }
         Insert: {
           agency_id: string
+          approval_reasons?: string[] | null
           approved_at?: string | null
           approved_by?: string | null
+          client_id?: string | null
           created_at?: string | null
           created_by?: string | null
           customer_id?: string | null
@@ -1741,8 +1941,10 @@ export type Database = {
         }
         Update: {
           agency_id?: string
+          approval_reasons?: string[] | null
           approved_at?: string | null
           approved_by?: string | null
+          client_id?: string | null
           created_at?: string | null
           created_by?: string | null
           customer_id?: string | null
@@ -1991,6 +2193,7 @@ export type Database = {
       time_tracking_route_points: {
         Row: {
           accuracy: number | null
+          client_id: string | null
           created_at: string
           id: string
           latitude: number
@@ -2001,6 +2204,7 @@ export type Database = {
         }
         Insert: {
           accuracy?: number | null
+          client_id?: string | null
           created_at?: string
           id?: string
           latitude: number
@@ -2011,6 +2215,7 @@ export type Database = {
         }
         Update: {
           accuracy?: number | null
+          client_id?: string | null
           created_at?: string
           id?: string
           latitude?: number
@@ -2029,66 +2234,2890 @@ export type Database = {
           }
         ]
       }
-    }
-    Views: {
-      sortedproducts: {
+      invoice_number_reservations: {
+        Row: {
+          agency_id: string
+          id: string
+          invoice_id: string | null
+          invoice_number: string
+          mode: string
+          period_year: number | null
+          reserved_at: string
+          reserved_by: string | null
+          used_at: string | null
+        }
+        Insert: {
+          agency_id: string
+          id?: string
+          invoice_id?: string | null
+          invoice_number: string
+          mode?: string
+          period_year?: number | null
+          reserved_at?: string
+          reserved_by?: string | null
+          used_at?: string | null
+        }
+        Update: {
+          agency_id?: string
+          id?: string
+          invoice_id?: string | null
+          invoice_number?: string
+          mode?: string
+          period_year?: number | null
+          reserved_at?: string
+          reserved_by?: string | null
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_number_reservations_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_number_reservations_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_number_sequences: {
+        Row: {
+          agency_id: string
+          last_number: number
+          mode: string
+          period_year: number | null
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          agency_id: string
+          last_number?: number
+          mode?: string
+          period_year?: number | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          agency_id?: string
+          last_number?: number
+          mode?: string
+          period_year?: number | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_number_sequences_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: true
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_list_items: {
         Row: {
-          billing_price: number | null
           category: string | null
-          colors: string[] | null
-          created_at: string | null
-          description: string | null
-          id: string | null
-          image: string | null
-          name: string | null
-          selling_price: number | null
-          size: string | null
-          sizes: string[] | null
-          sub_category: string | null
+          created_at: string
+          discount_percentage: number | null
+          id: string
+          price: number | null
+          price_list_id: string
+          product_id: string | null
+          valid_from: string | null
+          valid_to: string | null
         }
         Insert: {
-          billing_price?: number | null
           category?: string | null
-          colors?: string[] | null
-          created_at?: string | null
-          description?: string | null
-          id?: string | null
-          image?: string | null
-          name?: string | null
-          selling_price?: number | null
-          size?: never
-          sizes?: string[] | null
-          sub_category?: string | null
+          created_at?: string
+          discount_percentage?: number | null
+          id?: string
+          price?: number | null
+          price_list_id: string
+          product_id?: string | null
+          valid_from?: string | null
+          valid_to?: string | null
         }
         Update: {
-          billing_price?: number | null
           category?: string | null
-          colors?: string[] | null
-          created_at?: string | null
+          created_at?: string
+          discount_percentage?: number | null
+          id?: string
+          price?: number | null
+          price_list_id?: string
+          product_id?: string | null
+          valid_from?: string | null
+          valid_to?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_list_items_price_list_id_fkey"
+            columns: ["price_list_id"]
+            isOneToOne: false
+            referencedRelation: "price_lists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_list_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_lists: {
+        Row: {
+          agency_id: string | null
+          base_price_type: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          agency_id?: string | null
+          base_price_type?: string
+          created_at?: string
+          created_by?: string | null
           description?: string | null
-          id?: string | null
-          image?: string | null
-          name?: string | null
-          selling_price?: number | null
-          size?: never
-          sizes?: string[] | null
-          sub_category?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
         }
-        Relationships: []
+        Update: {
+          agency_id?: string | null
+          base_price_type?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_lists_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-    }
-    Functions: {
-      generate_invoice_number: {
-        Args: { agency_id: string }
-        Returns: string
+      agency_credit_settings: {
+        Row: {
+          agency_id: string
+          cash_only_after_returns: number | null
+          default_credit_limit: number | null
+          default_max_overdue_days: number | null
+          returned_cheque_bank_charge: number | null
+          returned_cheque_penalty: number | null
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          agency_id: string
+          cash_only_after_returns?: number | null
+          default_credit_limit?: number | null
+          default_max_overdue_days?: number | null
+          returned_cheque_bank_charge?: number | null
+          returned_cheque_penalty?: number | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          agency_id?: string
+          cash_only_after_returns?: number | null
+          default_credit_limit?: number | null
+          default_max_overdue_days?: number | null
+          returned_cheque_bank_charge?: number | null
+          returned_cheque_penalty?: number | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agency_credit_settings_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: true
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      generate_sales_order_number: {
-        Args: { agency_id: string }
-        Returns: string
+      sms_templates: {
+        Row: {
+          agency_id: string | null
+          body: string
+          created_at: string
+          id: string
+          is_active: boolean
+          language: string
+          template_key: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          agency_id?: string | null
+          body: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          language?: string
+          template_key: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          agency_id?: string | null
+          body?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          language?: string
+          template_key?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sms_templates_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      get_user_role: {
-        Args: { user_id: string }
-        Returns: Database["public"]["Enums"]["user_role"]
+      sms_messages: {
+        Row: {
+          agency_id: string | null
+          attempts: number
+          created_at: string
+          created_by: string | null
+          customer_id: string | null
+          id: string
+          language: string | null
+          last_error: string | null
+          message: string
+          next_retry_at: string | null
+          provider: string | null
+          provider_message_id: string | null
+          provider_response: Json | null
+          recipient: string
+          related_id: string | null
+          related_type: string | null
+          resent_from: string | null
+          sent_at: string | null
+          status: string
+          template_key: string | null
+          updated_at: string
+        }
+        Insert: {
+          agency_id?: string | null
+          attempts?: number
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string | null
+          id?: string
+          language?: string | null
+          last_error?: string | null
+          message: string
+          next_retry_at?: string | null
+          provider?: string | null
+          provider_message_id?: string | null
+          provider_response?: Json | null
+          recipient: string
+          related_id?: string | null
+          related_type?: string | null
+          resent_from?: string | null
+          sent_at?: string | null
+          status?: string
+          template_key?: string | null
+          updated_at?: string
+        }
+        Update: {
+          agency_id?: string | null
+          attempts?: number
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string | null
+          id?: string
+          language?: string | null
+          last_error?: string | null
+          message?: string
+          next_retry_at?: string | null
+          provider?: string | null
+          provider_message_id?: string | null
+          provider_response?: Json | null
+          recipient?: string
+          related_id?: string | null
+          related_type?: string | null
+          resent_from?: string | null
+          sent_at?: string | null
+          status?: string
+          template_key?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sms_messages_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sms_messages_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sms_messages_resent_from_fkey"
+            columns: ["resent_from"]
+            isOneToOne: false
+            referencedRelation: "sms_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_statements: {
+        Row: {
+          agency_id: string | null
+          closing_balance: number
+          created_at: string
+          created_by: string | null
+          customer_id: string
+          id: string
+          opening_balance: number
+          pdf_url: string | null
+          period_from: string
+          period_to: string
+        }
+        Insert: {
+          agency_id?: string | null
+          closing_balance?: number
+          created_at?: string
+          created_by?: string | null
+          customer_id: string
+          id?: string
+          opening_balance?: number
+          pdf_url?: string | null
+          period_from: string
+          period_to: string
+        }
+        Update: {
+          agency_id?: string | null
+          closing_balance?: number
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string
+          id?: string
+          opening_balance?: number
+          pdf_url?: string | null
+          period_from?: string
+          period_to?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_statements_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_statements_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      statement_runs: {
+        Row: {
+          agency_id: string
+          bundle_pdf_url: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          customer_count: number
+          error: string | null
+          failed_count: number
+          id: string
+          period_from: string
+          period_to: string
+          send_sms: boolean
+          sms_sent_count: number
+          started_at: string | null
+          status: string
+          total_balance: number
+          trigger: string
+        }
+        Insert: {
+          agency_id: string
+          bundle_pdf_url?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_count?: number
+          error?: string | null
+          failed_count?: number
+          id?: string
+          period_from: string
+          period_to: string
+          send_sms?: boolean
+          sms_sent_count?: number
+          started_at?: string | null
+          status?: string
+          total_balance?: number
+          trigger?: string
+        }
+        Update: {
+          agency_id?: string
+          bundle_pdf_url?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_count?: number
+          error?: string | null
+          failed_count?: number
+          id?: string
+          period_from?: string
+          period_to?: string
+          send_sms?: boolean
+          sms_sent_count?: number
+          started_at?: string | null
+          status?: string
+          total_balance?: number
+          trigger?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "statement_runs_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      statement_run_items: {
+        Row: {
+          closing_balance: number
+          created_at: string
+          customer_id: string
+          error: string | null
+          id: string
+          run_id: string
+          sms_message_id: string | null
+          statement_id: string | null
+          status: string
+        }
+        Insert: {
+          closing_balance?: number
+          created_at?: string
+          customer_id: string
+          error?: string | null
+          id?: string
+          run_id: string
+          sms_message_id?: string | null
+          statement_id?: string | null
+          status: string
+        }
+        Update: {
+          closing_balance?: number
+          created_at?: string
+          customer_id?: string
+          error?: string | null
+          id?: string
+          run_id?: string
+          sms_message_id?: string | null
+          statement_id?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "statement_run_items_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "statement_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "statement_run_items_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "statement_run_items_statement_id_fkey"
+            columns: ["statement_id"]
+            isOneToOne: false
+            referencedRelation: "customer_statements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "statement_run_items_sms_message_id_fkey"
+            columns: ["sms_message_id"]
+            isOneToOne: false
+            referencedRelation: "sms_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      external_inventory_stock_balances: {
+        Row: {
+          agency_id: string
+          avg_unit_price: number
+          category: string | null
+          color: string
+          current_stock: number
+          first_transaction_date: string | null
+          last_transaction_date: string | null
+          price_count: number
+          price_sum: number
+          product_code: string | null
+          product_name: string
+          size: string
+          sources: string[]
+          sub_category: string | null
+          total_stock_in: number
+          total_stock_out: number
+          transaction_count: number
+          transaction_types: string[]
+          updated_at: string
+        }
+        Insert: {
+          agency_id: string
+          avg_unit_price?: never
+          category?: string | null
+          color: string
+          current_stock?: number
+          first_transaction_date?: string | null
+          last_transaction_date?: string | null
+          price_count?: number
+          price_sum?: number
+          product_code?: string | null
+          product_name: string
+          size: string
+          sources?: string[]
+          sub_category?: string | null
+          total_stock_in?: number
+          total_stock_out?: number
+          transaction_count?: number
+          transaction_types?: string[]
+          updated_at?: string
+        }
+        Update: {
+          agency_id?: string
+          avg_unit_price?: never
+          category?: string | null
+          color?: string
+          current_stock?: number
+          first_transaction_date?: string | null
+          last_transaction_date?: string | null
+          price_count?: number
+          price_sum?: number
+          product_code?: string | null
+          product_name?: string
+          size?: string
+          sources?: string[]
+          sub_category?: string | null
+          total_stock_in?: number
+          total_stock_out?: number
+          transaction_count?: number
+          transaction_types?: string[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      stock_balance_reconciliations: {
+        Row: {
+          agency_id: string | null
+          completed_at: string | null
+          created_by: string | null
+          drift_count: number
+          id: string
+          repair: boolean
+          started_at: string
+          trigger: string
+          variants_checked: number
+        }
+        Insert: {
+          agency_id?: string | null
+          completed_at?: string | null
+          created_by?: string | null
+          drift_count?: number
+          id?: string
+          repair?: boolean
+          started_at?: string
+          trigger?: string
+          variants_checked?: number
+        }
+        Update: {
+          agency_id?: string | null
+          completed_at?: string | null
+          created_by?: string | null
+          drift_count?: number
+          id?: string
+          repair?: boolean
+          started_at?: string
+          trigger?: string
+          variants_checked?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_balance_reconciliations_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_balance_drifts: {
+        Row: {
+          agency_id: string
+          balance_stock: number | null
+          balance_transaction_count: number | null
+          color: string
+          created_at: string
+          id: string
+          ledger_stock: number | null
+          ledger_transaction_count: number | null
+          product_name: string
+          reconciliation_id: string
+          repaired: boolean
+          size: string
+        }
+        Insert: {
+          agency_id: string
+          balance_stock?: number | null
+          balance_transaction_count?: number | null
+          color: string
+          created_at?: string
+          id?: string
+          ledger_stock?: number | null
+          ledger_transaction_count?: number | null
+          product_name: string
+          reconciliation_id: string
+          repaired?: boolean
+          size: string
+        }
+        Update: {
+          agency_id?: string
+          balance_stock?: number | null
+          balance_transaction_count?: number | null
+          color?: string
+          created_at?: string
+          id?: string
+          ledger_stock?: number | null
+          ledger_transaction_count?: number | null
+          product_name?: string
+          reconciliation_id?: string
+          repaired?: boolean
+          size?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_balance_drifts_reconciliation_id_fkey"
+            columns: ["reconciliation_id"]
+            isOneToOne: false
+            referencedRelation: "stock_balance_reconciliations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_reorder_levels: {
+        Row: {
+          agency_id: string
+          color: string
+          daily_sales: number | null
+          id: string
+          max_stock: number
+          min_stock: number
+          product_name: string
+          size: string
+          source: string
+          updated_at: string
+          updated_by: string | null
+          velocity_weeks: number | null
+        }
+        Insert: {
+          agency_id: string
+          color?: string
+          daily_sales?: number | null
+          id?: string
+          max_stock?: number
+          min_stock?: number
+          product_name: string
+          size?: string
+          source?: string
+          updated_at?: string
+          updated_by?: string | null
+          velocity_weeks?: number | null
+        }
+        Update: {
+          agency_id?: string
+          color?: string
+          daily_sales?: number | null
+          id?: string
+          max_stock?: number
+          min_stock?: number
+          product_name?: string
+          size?: string
+          source?: string
+          updated_at?: string
+          updated_by?: string | null
+          velocity_weeks?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_reorder_levels_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_cost_movements: {
+        Row: {
+          agency_id: string
+          balance_quantity: number
+          balance_value: number
+          category: string | null
+          color: string
+          cost_method: string
+          costed_at: string
+          ledger_id: string
+          product_name: string
+          quantity: number
+          sequence: number
+          size: string
+          sub_category: string | null
+          total_cost: number
+          transaction_date: string
+          transaction_id: string | null
+          transaction_type: string
+          unit_cost: number
+        }
+        Insert: {
+          agency_id: string
+          balance_quantity: number
+          balance_value: number
+          category?: string | null
+          color: string
+          cost_method: string
+          costed_at?: string
+          ledger_id: string
+          product_name: string
+          quantity: number
+          sequence: number
+          size: string
+          sub_category?: string | null
+          total_cost?: number
+          transaction_date: string
+          transaction_id?: string | null
+          transaction_type: string
+          unit_cost?: number
+        }
+        Update: {
+          agency_id?: string
+          balance_quantity?: number
+          balance_value?: number
+          category?: string | null
+          color?: string
+          cost_method?: string
+          costed_at?: string
+          ledger_id?: string
+          product_name?: string
+          quantity?: number
+          sequence?: number
+          size?: string
+          sub_category?: string | null
+          total_cost?: number
+          transaction_date?: string
+          transaction_id?: string | null
+          transaction_type?: string
+          unit_cost?: number
+        }
+        Relationships: []
+      }
+      stock_take_counts: {
+        Row: {
+          counted_at: string
+          counted_by: string | null
+          counted_by_name: string | null
+          id: string
+          line_id: string
+          pass_number: number
+          quantity: number
+          session_id: string
+        }
+        Insert: {
+          counted_at?: string
+          counted_by?: string | null
+          counted_by_name?: string | null
+          id?: string
+          line_id: string
+          pass_number?: number
+          quantity: number
+          session_id: string
+        }
+        Update: {
+          counted_at?: string
+          counted_by?: string | null
+          counted_by_name?: string | null
+          id?: string
+          line_id?: string
+          pass_number?: number
+          quantity?: number
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_take_counts_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "stock_take_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_take_counts_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "stock_take_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_take_lines: {
+        Row: {
+          added_during_count: boolean
+          category: string | null
+          color: string
+          created_at: string
+          expected_quantity: number
+          id: string
+          product_code: string | null
+          product_name: string
+          session_id: string
+          size: string
+          sub_category: string | null
+          unit_cost: number
+        }
+        Insert: {
+          added_during_count?: boolean
+          category?: string | null
+          color?: string
+          created_at?: string
+          expected_quantity?: number
+          id?: string
+          product_code?: string | null
+          product_name: string
+          session_id: string
+          size?: string
+          sub_category?: string | null
+          unit_cost?: number
+        }
+        Update: {
+          added_during_count?: boolean
+          category?: string | null
+          color?: string
+          created_at?: string
+          expected_quantity?: number
+          id?: string
+          product_code?: string | null
+          product_name?: string
+          session_id?: string
+          size?: string
+          sub_category?: string | null
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_take_lines_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "stock_take_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_take_sessions: {
+        Row: {
+          adjustment_count: number
+          agency_id: string
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          created_by_name: string | null
+          current_pass: number
+          id: string
+          line_count: number
+          name: string
+          net_variance: number
+          notes: string | null
+          session_number: string
+          snapshot_at: string
+          status: string
+          sub_categories: string[]
+          submitted_at: string | null
+          submitted_by: string | null
+          variance_value: number
+        }
+        Insert: {
+          adjustment_count?: number
+          agency_id: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          current_pass?: number
+          id?: string
+          line_count?: number
+          name: string
+          net_variance?: number
+          notes?: string | null
+          session_number: string
+          snapshot_at?: string
+          status?: string
+          sub_categories?: string[]
+          submitted_at?: string | null
+          submitted_by?: string | null
+          variance_value?: number
+        }
+        Update: {
+          adjustment_count?: number
+          agency_id?: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          current_pass?: number
+          id?: string
+          line_count?: number
+          name?: string
+          net_variance?: number
+          notes?: string | null
+          session_number?: string
+          snapshot_at?: string
+          status?: string
+          sub_categories?: string[]
+          submitted_at?: string | null
+          submitted_by?: string | null
+          variance_value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_take_sessions_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_barcodes: {
+        Row: {
+          barcode: string
+          color: string
+          created_at: string
+          id: string
+          product_id: string
+          size: string
+          symbology: string
+        }
+        Insert: {
+          barcode: string
+          color?: string
+          created_at?: string
+          id?: string
+          product_id: string
+          size?: string
+          symbology?: string
+        }
+        Update: {
+          barcode?: string
+          color?: string
+          created_at?: string
+          id?: string
+          product_id?: string
+          size?: string
+          symbology?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_barcodes_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_barcodes_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "sortedproducts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfer_lines: {
+        Row: {
+          category: string | null
+          color: string
+          damaged_quantity: number
+          id: string
+          product_code: string | null
+          product_name: string
+          quantity: number
+          received_quantity: number | null
+          short_quantity: number
+          size: string
+          sub_category: string | null
+          transfer_id: string
+          unit_cost: number
+        }
+        Insert: {
+          category?: string | null
+          color?: string
+          damaged_quantity?: number
+          id?: string
+          product_code?: string | null
+          product_name: string
+          quantity: number
+          received_quantity?: number | null
+          short_quantity?: number
+          size?: string
+          sub_category?: string | null
+          transfer_id: string
+          unit_cost?: number
+        }
+        Update: {
+          category?: string | null
+          color?: string
+          damaged_quantity?: number
+          id?: string
+          product_code?: string | null
+          product_name?: string
+          quantity?: number
+          received_quantity?: number | null
+          short_quantity?: number
+          size?: string
+          sub_category?: string | null
+          transfer_id?: string
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transfer_lines_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "stock_transfers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfers: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          created_by_name: string | null
+          damaged_quantity: number
+          dispatched_at: string | null
+          from_agency_id: string
+          id: string
+          line_count: number
+          notes: string | null
+          receipt_notes: string | null
+          received_at: string | null
+          received_by: string | null
+          received_by_name: string | null
+          received_quantity: number
+          rejection_reason: string | null
+          requires_approval: boolean
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reviewed_by_name: string | null
+          short_quantity: number
+          status: string
+          to_agency_id: string
+          total_quantity: number
+          total_value: number
+          transfer_number: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          damaged_quantity?: number
+          dispatched_at?: string | null
+          from_agency_id: string
+          id?: string
+          line_count?: number
+          notes?: string | null
+          receipt_notes?: string | null
+          received_at?: string | null
+          received_by?: string | null
+          received_by_name?: string | null
+          received_quantity?: number
+          rejection_reason?: string | null
+          requires_approval?: boolean
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_name?: string | null
+          short_quantity?: number
+          status?: string
+          to_agency_id: string
+          total_quantity?: number
+          total_value?: number
+          transfer_number: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          damaged_quantity?: number
+          dispatched_at?: string | null
+          from_agency_id?: string
+          id?: string
+          line_count?: number
+          notes?: string | null
+          receipt_notes?: string | null
+          received_at?: string | null
+          received_by?: string | null
+          received_by_name?: string | null
+          received_quantity?: number
+          rejection_reason?: string | null
+          requires_approval?: boolean
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_name?: string | null
+          short_quantity?: number
+          status?: string
+          to_agency_id?: string
+          total_quantity?: number
+          total_value?: number
+          transfer_number?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transfers_from_agency_id_fkey"
+            columns: ["from_agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_to_agency_id_fkey"
+            columns: ["to_agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      app_settings: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          key: string
+          updated_at: string | null
+          value: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          key: string
+          updated_at?: string | null
+          value?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          key?: string
+          updated_at?: string | null
+          value?: string | null
+        }
+        Relationships: []
+      }
+      grn_discrepancy_claims: {
+        Row: {
+          agency_id: string
+          claim_number: string
+          claim_value: number
+          created_at: string
+          damaged_quantity: number
+          grn_id: string
+          id: string
+          notes: string | null
+          raised_by: string | null
+          raised_by_name: string | null
+          replacement_grn_id: string | null
+          resolution: string | null
+          resolution_notes: string | null
+          resolution_reference: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          resolved_by_name: string | null
+          short_quantity: number
+          status: string
+        }
+        Insert: {
+          agency_id: string
+          claim_number: string
+          claim_value?: number
+          created_at?: string
+          damaged_quantity?: number
+          grn_id: string
+          id?: string
+          notes?: string | null
+          raised_by?: string | null
+          raised_by_name?: string | null
+          replacement_grn_id?: string | null
+          resolution?: string | null
+          resolution_notes?: string | null
+          resolution_reference?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_by_name?: string | null
+          short_quantity?: number
+          status?: string
+        }
+        Update: {
+          agency_id?: string
+          claim_number?: string
+          claim_value?: number
+          created_at?: string
+          damaged_quantity?: number
+          grn_id?: string
+          id?: string
+          notes?: string | null
+          raised_by?: string | null
+          raised_by_name?: string | null
+          replacement_grn_id?: string | null
+          resolution?: string | null
+          resolution_notes?: string | null
+          resolution_reference?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_by_name?: string | null
+          short_quantity?: number
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grn_discrepancy_claims_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grn_discrepancy_claims_grn_id_fkey"
+            columns: ["grn_id"]
+            isOneToOne: true
+            referencedRelation: "grns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grn_discrepancy_claims_replacement_grn_id_fkey"
+            columns: ["replacement_grn_id"]
+            isOneToOne: false
+            referencedRelation: "grns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_events: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          created_by_name: string | null
+          description: string | null
+          event_type: string
+          id: string
+          purchase_order_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          description?: string | null
+          event_type: string
+          id?: string
+          purchase_order_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          description?: string | null
+          event_type?: string
+          id?: string
+          purchase_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_events_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_shipment_lines: {
+        Row: {
+          color: string
+          id: string
+          product_name: string
+          purchase_order_item_id: string
+          quantity: number
+          received_quantity: number | null
+          shipment_id: string
+          size: string
+          unit_price: number
+        }
+        Insert: {
+          color: string
+          id?: string
+          product_name: string
+          purchase_order_item_id: string
+          quantity: number
+          received_quantity?: number | null
+          shipment_id: string
+          size: string
+          unit_price?: number
+        }
+        Update: {
+          color?: string
+          id?: string
+          product_name?: string
+          purchase_order_item_id?: string
+          quantity?: number
+          received_quantity?: number | null
+          shipment_id?: string
+          size?: string
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_shipment_lines_purchase_order_item_id_fkey"
+            columns: ["purchase_order_item_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_shipment_lines_shipment_id_fkey"
+            columns: ["shipment_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_shipments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_shipments: {
+        Row: {
+          agency_id: string
+          dispatched_at: string
+          dispatched_by: string | null
+          dispatched_by_name: string | null
+          grn_id: string | null
+          id: string
+          invoice_reference: string
+          notes: string | null
+          odoo_invoice_id: string | null
+          purchase_order_id: string
+          received_at: string | null
+          received_quantity: number | null
+          shipment_number: string
+          status: string
+          total_quantity: number
+          total_value: number
+        }
+        Insert: {
+          agency_id: string
+          dispatched_at?: string
+          dispatched_by?: string | null
+          dispatched_by_name?: string | null
+          grn_id?: string | null
+          id?: string
+          invoice_reference: string
+          notes?: string | null
+          odoo_invoice_id?: string | null
+          purchase_order_id: string
+          received_at?: string | null
+          received_quantity?: number | null
+          shipment_number: string
+          status?: string
+          total_quantity?: number
+          total_value?: number
+        }
+        Update: {
+          agency_id?: string
+          dispatched_at?: string
+          dispatched_by?: string | null
+          dispatched_by_name?: string | null
+          grn_id?: string | null
+          id?: string
+          invoice_reference?: string
+          notes?: string | null
+          odoo_invoice_id?: string | null
+          purchase_order_id?: string
+          received_at?: string | null
+          received_quantity?: number | null
+          shipment_number?: string
+          status?: string
+          total_quantity?: number
+          total_value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_shipments_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_shipments_grn_id_fkey"
+            columns: ["grn_id"]
+            isOneToOne: false
+            referencedRelation: "grns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_shipments_odoo_invoice_id_fkey"
+            columns: ["odoo_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "odoo_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_shipments_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_mappings: {
+        Row: {
+          color: string
+          confidence: number
+          created_at: string
+          created_by: string | null
+          external_code: string | null
+          external_color: string | null
+          external_key: string
+          external_name: string | null
+          external_size: string | null
+          id: string
+          match_method: string
+          product_id: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          size: string
+          source: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          confidence?: number
+          created_at?: string
+          created_by?: string | null
+          external_code?: string | null
+          external_color?: string | null
+          external_key: string
+          external_name?: string | null
+          external_size?: string | null
+          id?: string
+          match_method?: string
+          product_id?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          size?: string
+          source: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          confidence?: number
+          created_at?: string
+          created_by?: string | null
+          external_code?: string | null
+          external_color?: string | null
+          external_key?: string
+          external_name?: string | null
+          external_size?: string | null
+          id?: string
+          match_method?: string
+          product_id?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          size?: string
+          source?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_mappings_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_credits: {
+        Row: {
+          agency_id: string
+          balance: number
+          collection_id: string
+          created_at: string
+          customer_id: string
+          id: string
+          refunded_amount: number
+          updated_at: string
+        }
+        Insert: {
+          agency_id: string
+          balance?: number
+          collection_id: string
+          created_at?: string
+          customer_id: string
+          id?: string
+          refunded_amount?: number
+          updated_at?: string
+        }
+        Update: {
+          agency_id?: string
+          balance?: number
+          collection_id?: string
+          created_at?: string
+          customer_id?: string
+          id?: string
+          refunded_amount?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_credits_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_credits_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: true
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_credits_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_credit_refunds: {
+        Row: {
+          amount: number
+          credit_id: string
+          credit_note_reference: string
+          id: string
+          notes: string | null
+          refunded_at: string
+          refunded_by: string | null
+        }
+        Insert: {
+          amount: number
+          credit_id: string
+          credit_note_reference: string
+          id?: string
+          notes?: string | null
+          refunded_at?: string
+          refunded_by?: string | null
+        }
+        Update: {
+          amount?: number
+          credit_id?: string
+          credit_note_reference?: string
+          id?: string
+          notes?: string | null
+          refunded_at?: string
+          refunded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_credit_refunds_credit_id_fkey"
+            columns: ["credit_id"]
+            isOneToOne: false
+            referencedRelation: "customer_credits"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      agency_bank_accounts: {
+        Row: {
+          account_name: string
+          account_number: string
+          agency_id: string
+          bank_name: string
+          branch: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          statement_format_id: string | null
+        }
+        Insert: {
+          account_name: string
+          account_number: string
+          agency_id: string
+          bank_name: string
+          branch?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          statement_format_id?: string | null
+        }
+        Update: {
+          account_name?: string
+          account_number?: string
+          agency_id?: string
+          bank_name?: string
+          branch?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          statement_format_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agency_bank_accounts_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agency_bank_accounts_statement_format_id_fkey"
+            columns: ["statement_format_id"]
+            isOneToOne: false
+            referencedRelation: "bank_statement_formats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cheque_deposit_batches: {
+        Row: {
+          agency_id: string
+          bank_account_id: string
+          batch_number: string
+          cheque_count: number
+          created_at: string
+          created_by: string | null
+          deposit_date: string
+          id: string
+          notes: string | null
+          settled_at: string | null
+          settled_by: string | null
+          slip_pdf_url: string | null
+          status: string
+          total_amount: number
+        }
+        Insert: {
+          agency_id: string
+          bank_account_id: string
+          batch_number: string
+          cheque_count?: number
+          created_at?: string
+          created_by?: string | null
+          deposit_date?: string
+          id?: string
+          notes?: string | null
+          settled_at?: string | null
+          settled_by?: string | null
+          slip_pdf_url?: string | null
+          status?: string
+          total_amount?: number
+        }
+        Update: {
+          agency_id?: string
+          bank_account_id?: string
+          batch_number?: string
+          cheque_count?: number
+          created_at?: string
+          created_by?: string | null
+          deposit_date?: string
+          id?: string
+          notes?: string | null
+          settled_at?: string | null
+          settled_by?: string | null
+          slip_pdf_url?: string | null
+          status?: string
+          total_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cheque_deposit_batches_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cheque_deposit_batches_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "agency_bank_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_statement_formats: {
+        Row: {
+          amount_column: string | null
+          bank_name: string
+          cheque_number_column: string | null
+          created_at: string
+          created_by: string | null
+          credit_column: string | null
+          date_column: string
+          date_format: string
+          debit_column: string | null
+          description_column: string
+          id: string
+          name: string
+          reference_column: string | null
+        }
+        Insert: {
+          amount_column?: string | null
+          bank_name: string
+          cheque_number_column?: string | null
+          created_at?: string
+          created_by?: string | null
+          credit_column?: string | null
+          date_column: string
+          date_format?: string
+          debit_column?: string | null
+          description_column: string
+          id?: string
+          name: string
+          reference_column?: string | null
+        }
+        Update: {
+          amount_column?: string | null
+          bank_name?: string
+          cheque_number_column?: string | null
+          created_at?: string
+          created_by?: string | null
+          credit_column?: string | null
+          date_column?: string
+          date_format?: string
+          debit_column?: string | null
+          description_column?: string
+          id?: string
+          name?: string
+          reference_column?: string | null
+        }
+        Relationships: []
+      }
+      bank_statement_imports: {
+        Row: {
+          agency_id: string
+          bank_account_id: string
+          created_at: string
+          file_name: string
+          format_id: string | null
+          id: string
+          imported_by: string | null
+          line_count: number
+          skipped_count: number
+          statement_from: string | null
+          statement_to: string | null
+        }
+        Insert: {
+          agency_id: string
+          bank_account_id: string
+          created_at?: string
+          file_name: string
+          format_id?: string | null
+          id?: string
+          imported_by?: string | null
+          line_count?: number
+          skipped_count?: number
+          statement_from?: string | null
+          statement_to?: string | null
+        }
+        Update: {
+          agency_id?: string
+          bank_account_id?: string
+          created_at?: string
+          file_name?: string
+          format_id?: string | null
+          id?: string
+          imported_by?: string | null
+          line_count?: number
+          skipped_count?: number
+          statement_from?: string | null
+          statement_to?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_statement_imports_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_imports_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "agency_bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_imports_format_id_fkey"
+            columns: ["format_id"]
+            isOneToOne: false
+            referencedRelation: "bank_statement_formats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_statement_lines: {
+        Row: {
+          bank_account_id: string
+          cheque_number: string | null
+          credit: number
+          debit: number
+          description: string
+          id: string
+          import_id: string
+          line_number: number
+          match_score: number | null
+          match_type: string | null
+          matched_cheque_id: string | null
+          matched_collection_id: string | null
+          notes: string | null
+          reconciled_at: string | null
+          reconciled_by: string | null
+          reference: string | null
+          status: string
+          transaction_date: string
+        }
+        Insert: {
+          bank_account_id: string
+          cheque_number?: string | null
+          credit?: number
+          debit?: number
+          description?: string
+          id?: string
+          import_id: string
+          line_number: number
+          match_score?: number | null
+          match_type?: string | null
+          matched_cheque_id?: string | null
+          matched_collection_id?: string | null
+          notes?: string | null
+          reconciled_at?: string | null
+          reconciled_by?: string | null
+          reference?: string | null
+          status?: string
+          transaction_date: string
+        }
+        Update: {
+          bank_account_id?: string
+          cheque_number?: string | null
+          credit?: number
+          debit?: number
+          description?: string
+          id?: string
+          import_id?: string
+          line_number?: number
+          match_score?: number | null
+          match_type?: string | null
+          matched_cheque_id?: string | null
+          matched_collection_id?: string | null
+          notes?: string | null
+          reconciled_at?: string | null
+          reconciled_by?: string | null
+          reference?: string | null
+          status?: string
+          transaction_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_statement_lines_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "agency_bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_lines_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "bank_statement_imports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_lines_matched_cheque_id_fkey"
+            columns: ["matched_cheque_id"]
+            isOneToOne: false
+            referencedRelation: "collection_cheques"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_lines_matched_collection_id_fkey"
+            columns: ["matched_collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cheque_recovery_cases: {
+        Row: {
+          agency_id: string
+          charges_amount: number
+          cheque_amount: number
+          cheque_id: string
+          closed_at: string | null
+          closed_by: string | null
+          closed_reason: string | null
+          created_at: string
+          customer_id: string
+          id: string
+          next_follow_up_date: string | null
+          recovered_amount: number
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          agency_id: string
+          charges_amount?: number
+          cheque_amount: number
+          cheque_id: string
+          closed_at?: string | null
+          closed_by?: string | null
+          closed_reason?: string | null
+          created_at?: string
+          customer_id: string
+          id?: string
+          next_follow_up_date?: string | null
+          recovered_amount?: number
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          agency_id?: string
+          charges_amount?: number
+          cheque_amount?: number
+          cheque_id?: string
+          closed_at?: string | null
+          closed_by?: string | null
+          closed_reason?: string | null
+          created_at?: string
+          customer_id?: string
+          id?: string
+          next_follow_up_date?: string | null
+          recovered_amount?: number
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cheque_recovery_cases_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cheque_recovery_cases_cheque_id_fkey"
+            columns: ["cheque_id"]
+            isOneToOne: true
+            referencedRelation: "collection_cheques"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cheque_recovery_cases_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cheque_recovery_events: {
+        Row: {
+          amount: number
+          case_id: string
+          charges_amount: number
+          collection_id: string | null
+          created_at: string
+          created_by: string | null
+          debit_note_id: string | null
+          event_type: string
+          follow_up_date: string | null
+          id: string
+          notes: string | null
+          replacement_cheque_id: string | null
+        }
+        Insert: {
+          amount?: number
+          case_id: string
+          charges_amount?: number
+          collection_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          debit_note_id?: string | null
+          event_type: string
+          follow_up_date?: string | null
+          id?: string
+          notes?: string | null
+          replacement_cheque_id?: string | null
+        }
+        Update: {
+          amount?: number
+          case_id?: string
+          charges_amount?: number
+          collection_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          debit_note_id?: string | null
+          event_type?: string
+          follow_up_date?: string | null
+          id?: string
+          notes?: string | null
+          replacement_cheque_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cheque_recovery_events_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cheque_recovery_cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cheque_recovery_events_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cheque_recovery_events_debit_note_id_fkey"
+            columns: ["debit_note_id"]
+            isOneToOne: false
+            referencedRelation: "customer_debit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cheque_recovery_events_replacement_cheque_id_fkey"
+            columns: ["replacement_cheque_id"]
+            isOneToOne: false
+            referencedRelation: "collection_cheques"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_debit_notes: {
+        Row: {
+          agency_id: string
+          amount: number
+          category: string
+          created_at: string
+          created_by: string | null
+          created_by_name: string | null
+          customer_id: string
+          debit_note_number: string
+          id: string
+          invoice_id: string | null
+          reason: string
+          recovery_case_id: string | null
+          rejection_reason: string | null
+          requires_approval: boolean
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reviewed_by_name: string | null
+          settled_amount: number
+          status: string
+        }
+        Insert: {
+          agency_id: string
+          amount: number
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          customer_id: string
+          debit_note_number: string
+          id?: string
+          invoice_id?: string | null
+          reason: string
+          recovery_case_id?: string | null
+          rejection_reason?: string | null
+          requires_approval?: boolean
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_name?: string | null
+          settled_amount?: number
+          status?: string
+        }
+        Update: {
+          agency_id?: string
+          amount?: number
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          customer_id?: string
+          debit_note_number?: string
+          id?: string
+          invoice_id?: string | null
+          reason?: string
+          recovery_case_id?: string | null
+          rejection_reason?: string | null
+          requires_approval?: boolean
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_name?: string | null
+          settled_amount?: number
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_debit_notes_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_debit_notes_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_debit_notes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_debit_notes_recovery_case_id_fkey"
+            columns: ["recovery_case_id"]
+            isOneToOne: false
+            referencedRelation: "cheque_recovery_cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_credit_notes: {
+        Row: {
+          agency_id: string
+          amount: number
+          category: string
+          created_at: string
+          created_by: string | null
+          created_by_name: string | null
+          credit_note_number: string
+          customer_id: string
+          id: string
+          invoice_id: string | null
+          reason: string
+          rejection_reason: string | null
+          requires_approval: boolean
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reviewed_by_name: string | null
+          status: string
+        }
+        Insert: {
+          agency_id: string
+          amount: number
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          credit_note_number: string
+          customer_id: string
+          id?: string
+          invoice_id?: string | null
+          reason: string
+          rejection_reason?: string | null
+          requires_approval?: boolean
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_name?: string | null
+          status?: string
+        }
+        Update: {
+          agency_id?: string
+          amount?: number
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          credit_note_number?: string
+          customer_id?: string
+          id?: string
+          invoice_id?: string | null
+          reason?: string
+          rejection_reason?: string | null
+          requires_approval?: boolean
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_name?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_credit_notes_agency_id_fkey"
+            columns: ["agency_id"]
+            isOneToOne: false
+            referencedRelation: "agencies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_credit_notes_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_credit_notes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      invoice_cost_of_goods: {
+        Row: {
+          agency_id: string | null
+          cost_of_goods: number | null
+          costed_lines: number | null
+          customer_id: string | null
+          customer_name: string | null
+          gross_margin: number | null
+          invoice_date: string | null
+          invoice_id: string | null
+          invoice_number: string | null
+          revenue: number | null
+        }
+        Relationships: []
+      }
+      sales_order_backorders: {
+        Row: {
+          agency_id: string | null
+          color: string | null
+          customer_id: string | null
+          customer_name: string | null
+          invoiced_quantity: number | null
+          order_number: string | null
+          ordered_at: string | null
+          ordered_quantity: number | null
+          outstanding_quantity: number | null
+          product_id: string | null
+          product_name: string | null
+          sales_order_id: string | null
+          sales_order_item_id: string | null
+          size: string | null
+          unit_price: number | null
+        }
+        Relationships: []
+      }
+      stock_in_transit: {
+        Row: {
+          agency_id: string | null
+          color: string | null
+          product_name: string | null
+          quantity: number | null
+          size: string | null
+          stock_value: number | null
+          transfer_count: number | null
+        }
+        Relationships: []
+      }
+      sortedproducts: {
+        Row: {
+          billing_price: number | null
+          category: string | null
+          colors: string[] | null
+          created_at: string | null
+          description: string | null
+          id: string | null
+          image: string | null
+          name: string | null
+          selling_price: number | null
+          size: string | null
+          sizes: string[] | null
+          sub_category: string | null
+        }
+        Insert: {
+          billing_price?: number | null
+          category?: string | null
+          colors?: string[] | null
+          created_at?: string | null
+          description?: string | null
+          id?: string | null
+          image?: string | null
+          name?: string | null
+          selling_price?: number | null
+          size?: never
+          sizes?: string[] | null
+          sub_category?: string | null
+        }
+        Update: {
+          billing_price?: number | null
+          category?: string | null
+          colors?: string[] | null
+          created_at?: string | null
+          description?: string | null
+          id?: string | null
+          image?: string | null
+          name?: string | null
+          selling_price?: number | null
+          size?: never
+          sizes?: string[] | null
+          sub_category?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      add_cheque_recovery_charge: {
+        Args: {
+          p_case_id: string
+          p_amount: number
+          p_reason: string
+        }
+        Returns: string
+      }
+      allocate_collection: {
+        Args: {
+          p_collection_id: string
+          p_strategy?: string
+          p_allocations?: Json
+        }
+        Returns: number
+      }
+      allocate_invoice_numbers: {
+        Args: {
+          p_agency_id: string
+          p_count?: number
+        }
+        Returns: string[]
+      }
+      apply_customer_credit: {
+        Args: {
+          p_customer_id: string
+        }
+        Returns: number
+      }
+      approve_purchase_order: {
+        Args: {
+          p_order_id: string
+          p_lines?: Json
+          p_notes?: string
+        }
+        Returns: undefined
+      }
+      assign_product_barcodes: {
+        Args: {
+          p_product_ids: string[]
+        }
+        Returns: number
+      }
+      auto_match_bank_statement: {
+        Args: {
+          p_import_id: string
+        }
+        Returns: number
+      }
+      cancel_customer_note: {
+        Args: {
+          p_note_type: string
+          p_note_id: string
+        }
+        Returns: undefined
+      }
+      cancel_purchase_order: {
+        Args: {
+          p_order_id: string
+          p_reason?: string
+        }
+        Returns: undefined
+      }
+      cancel_stock_transfer: {
+        Args: {
+          p_transfer_id: string
+        }
+        Returns: undefined
+      }
+      close_cheque_recovery_case: {
+        Args: {
+          p_case_id: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      close_purchase_order_shipping: {
+        Args: {
+          p_order_id: string
+          p_reason?: string
+        }
+        Returns: undefined
+      }
+      confirm_bank_statement_line: {
+        Args: {
+          p_line_id: string
+        }
+        Returns: undefined
+      }
+      create_cheque_deposit_batch: {
+        Args: {
+          p_agency_id: string
+          p_bank_account_id: string
+          p_cheque_ids: string[]
+          p_deposit_date?: string
+          p_notes?: string
+        }
+        Returns: string
+      }
+      create_customer_note: {
+        Args: {
+          p_note_type: string
+          p_customer_id: string
+          p_amount: number
+          p_category: string
+          p_reason: string
+          p_invoice_id?: string
+        }
+        Returns: string
+      }
+      create_grn: {
+        Args: {
+          p_agency_id: string
+          p_invoice_id: string
+          p_invoice_file_name: string
+          p_lines: Json
+          p_odoo_move_id?: number
+        }
+        Returns: string
+      }
+      create_purchase_order_shipment: {
+        Args: {
+          p_order_id: string
+          p_invoice_reference: string
+          p_lines: Json
+          p_notes?: string
+          p_close_order?: boolean
+        }
+        Returns: string
+      }
+      create_stock_transfer: {
+        Args: {
+          p_from_agency_id: string
+          p_to_agency_id: string
+          p_lines: Json
+          p_notes?: string
+        }
+        Returns: string
+      }
+      customer_ledger_entries: {
+        Args: {
+          p_customer_id: string
+        }
+        Returns: {
+          entry_date: string
+          sort_at: string
+          entry_type: string
+          reference: string
+          description: string
+          debit: number
+          credit: number
+        }[]
+      }
+      customer_note_approval_threshold: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      dismiss_bank_statement_line: {
+        Args: {
+          p_line_id: string
+          p_ignore?: boolean
+          p_notes?: string
+        }
+        Returns: undefined
+      }
+      ean13_check_digit: {
+        Args: {
+          p_digits: string
+        }
+        Returns: number
+      }
+      generate_invoice_number: {
+        Args: { agency_id: string }
+        Returns: string
+      }
+      generate_sales_order_number: {
+        Args: { agency_id: string }
+        Returns: string
+      }
+      get_agency_statement_balances: {
+        Args: {
+          p_agency_id: string
+          p_from: string
+          p_to: string
+        }
+        Returns: {
+          customer_id: string
+          opening_balance: number
+          closing_balance: number
+        }[]
+      }
+      get_customer_statement: {
+        Args: {
+          p_customer_id: string
+          p_from: string
+          p_to: string
+        }
+        Returns: Json
+      }
+      get_fillable_backorders: {
+        Args: {
+          p_agency_id: string
+        }
+        Returns: {
+          sales_order_item_id: string
+          sales_order_id: string
+          order_number: string
+          customer_id: string
+          customer_name: string
+          product_name: string
+          color: string
+          size: string
+          outstanding_quantity: number
+          available_quantity: number
+          received_at: string
+        }[]
+      }
+      get_inventory_valuation: {
+        Args: {
+          p_agency_id: string
+          p_as_of?: string
+        }
+        Returns: {
+          product_name: string
+          color: string
+          size: string
+          category: string | null
+          sub_category: string | null
+          quantity: number
+          stock_value: number
+          unit_cost: number
+          cost_method: string
+        }[]
+      }
+      get_purchase_suggestions: {
+        Args: {
+          p_agency_id: string
+          p_weeks?: number
+        }
+        Returns: {
+          product_id: string | null
+          product_name: string
+          ledger_product_name: string
+          color: string
+          size: string
+          unit_price: number
+          current_stock: number
+          min_stock: number
+          max_stock: number
+          daily_sales: number
+          sell_through_days: number | null
+          on_order_quantity: number
+          suggested_quantity: number
+        }[]
+      }
+      get_stock_take_variances: {
+        Args: {
+          p_session_id: string
+        }
+        Returns: {
+          line_id: string
+          product_name: string
+          product_code: string | null
+          color: string
+          size: string
+          category: string | null
+          sub_category: string | null
+          expected_quantity: number
+          moved_quantity: number
+          counted_quantity: number | null
+          counted_pass: number | null
+          variance: number | null
+          unit_cost: number
+          variance_value: number | null
+          added_during_count: boolean
+        }[]
+      }
+      get_user_role: {
+        Args: { user_id: string }
+        Returns: Database["public"]["Enums"]["user_role"]
+      }
+      get_variant_sales_velocity: {
+        Args: {
+          p_agency_id: string
+          p_weeks?: number
+        }
+        Returns: {
+          product_name: string
+          color: string
+          size: string
+          units_sold: number
+          daily_sales: number
+        }[]
+      }
+      import_bank_statement: {
+        Args: {
+          p_bank_account_id: string
+          p_format_id: string
+          p_file_name: string
+          p_lines: Json
+        }
+        Returns: string
+      }
+      link_created_product_mappings: {
+        Args: {
+          p_mapping_ids: string[]
+          p_product_id: string
+        }
+        Returns: number
+      }
+      link_purchase_order_shipment_grn: {
+        Args: {
+          p_shipment_id: string
+          p_grn_id: string
+        }
+        Returns: undefined
+      }
+      log_cheque_recovery_follow_up: {
+        Args: {
+          p_case_id: string
+          p_notes: string
+          p_next_follow_up_date?: string
+        }
+        Returns: undefined
+      }
+      match_external_products: {
+        Args: {
+          p_source: string
+          p_items: Json
+        }
+        Returns: {
+            external_key: string
+            mapping_id: string
+            status: string
+            product_id: string | null
+            product_name: string | null
+            color: string
+            size: string
+            confidence: number
+          }[]
+      }
+      receive_grn: {
+        Args: {
+          p_grn_id: string
+          p_lines?: Json
+          p_notes?: string
+        }
+        Returns: string
+      }
+      receive_stock_transfer: {
+        Args: {
+          p_transfer_id: string
+          p_lines?: Json
+          p_notes?: string
+        }
+        Returns: undefined
+      }
+      reconcile_external_inventory_stock_balances: {
+        Args: {
+          p_agency_id?: string
+          p_repair?: boolean
+          p_trigger?: string
+        }
+        Returns: string
+      }
+      record_cheque_recovery_cash: {
+        Args: {
+          p_case_id: string
+          p_amount: number
+          p_notes?: string
+        }
+        Returns: string
+      }
+      record_rule_applications: {
+        Args: {
+          p_order_id: string
+          p_document_type: string
+          p_applications: Json
+        }
+        Returns: string[]
+      }
+      refund_customer_credit: {
+        Args: {
+          p_credit_id: string
+          p_amount: number
+          p_credit_note_reference: string
+          p_notes?: string
+        }
+        Returns: number
+      }
+      reserve_invoice_numbers: {
+        Args: {
+          p_agency_id: string
+          p_count: number
+        }
+        Returns: string[]
+      }
+      resolve_grn_discrepancy_claim: {
+        Args: {
+          p_claim_id: string
+          p_resolution: string
+          p_reference?: string
+          p_notes?: string
+        }
+        Returns: string
+      }
+      review_customer_note: {
+        Args: {
+          p_note_type: string
+          p_note_id: string
+          p_approve: boolean
+          p_reason?: string
+        }
+        Returns: undefined
+      }
+      review_invoice_credit_breach: {
+        Args: {
+          p_invoice_id: string
+        }
+        Returns: undefined
+      }
+      review_product_mappings: {
+        Args: {
+          p_mapping_ids: string[]
+          p_action: string
+          p_product_id?: string
+          p_color?: string
+          p_size?: string
+        }
+        Returns: number
+      }
+      review_stock_transfer: {
+        Args: {
+          p_transfer_id: string
+          p_approve: boolean
+          p_reason?: string
+        }
+        Returns: undefined
+      }
+      set_agency_cost_method: {
+        Args: {
+          p_agency_id: string
+          p_cost_method: string
+        }
+        Returns: number
+      }
+      set_customer_cash_only: {
+        Args: {
+          p_customer_id: string
+          p_cash_only: boolean
+          p_reason?: string
+        }
+        Returns: undefined
+      }
+      set_reorder_levels_from_velocity: {
+        Args: {
+          p_agency_id: string
+          p_weeks?: number
+          p_lead_days?: number
+          p_cover_days?: number
+        }
+        Returns: number
+      }
+      settle_cheque_deposit_batch: {
+        Args: {
+          p_batch_id: string
+          p_cleared_ids?: string[]
+          p_returned_ids?: string[]
+          p_return_reason?: string
+          p_result_date?: string
+        }
+        Returns: number
+      }
+      start_stock_take: {
+        Args: {
+          p_agency_id: string
+          p_name: string
+          p_sub_categories?: string[]
+        }
+        Returns: string
+      }
+      stock_transfer_approval_threshold: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      submit_stock_take: {
+        Args: {
+          p_session_id: string
+          p_zero_uncounted?: boolean
+        }
+        Returns: number
       }
       sync_odoo_invoices: {
         Args: {
@@ -2113,7 +5142,7 @@ export type Database = {
       discount_type: "percentage" | "fixed_amount" | "special_pricing"
       dispute_status: "open" | "in_progress" | "resolved" | "closed"
       dispute_type: "product_category" | "specific_product" | "customer"
-      grn_status: "pending" | "accepted" | "rejected"
+      grn_status: "pending" | "accepted" | "rejected" | "partially_accepted"
       priority_level: "low" | "medium" | "high" | "urgent"
       promotional_type:
         | "buy_x_get_y_free"
@@ -2255,7 +5284,7 @@ export const Constants = {
       discount_type: ["percentage", "fixed_amount", "special_pricing"],
       dispute_status: ["open", "in_progress", "resolved", "closed"],
       dispute_type: ["product_category", "specific_product", "customer"],
-      grn_status: ["pending", "accepted", "rejected"],
+      grn_status: ["pending", "accepted", "rejected", "partially_accepted"],
       priority_level: ["low", "medium", "high", "urgent"],
       promotional_type: [
         "buy_x_get_y_free",
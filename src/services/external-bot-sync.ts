@@ -1,5 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import type { ProductMatch } from '@/types/product';
+import { buildProductMappingKey, matchExternalProducts } from '@/utils/productMappings';
 
 interface ExternalInvoice {
   id: number | string;
@@ -275,7 +277,7 @@ export class ExternalBotSyncService {
       let matchedInvoices = 0;
       let unmatchedInvoices = 0;
       let globalMatchedProducts = 0;
-      const globalUnmatchedProducts = 0;
+      let globalUnmatchedProducts = 0;
 
       for (const invoice of externalInvoices) {
         // Find matching user by partner_name
@@ -313,13 +315,41 @@ export class ExternalBotSyncService {
           continue;
         }
 
-        for (const line of invoice.order_lines) {
+        // Ask the mapping table about every product on the invoice: Odoo product ids where the line has one,
+        // the product text otherwise. Products it has not confirmed are queued for review.
+        const orderLines: ExternalInvoice['order_lines'] = invoice.order_lines;
+        const lineRefs = orderLines
+          .filter(line => line.product_name)
+          .map(line => {
+            const externalProductId = line.product_id?.[0] || line.product_id || null;
+            return {
+              source: externalProductId ? 'odoo' as const : 'global_bot' as const,
+              externalKey: externalProductId
+                ? String(externalProductId)
+                : buildProductMappingKey(line.product_name, line.color || line.variant, line.size || line.variant),
+              name: line.product_name,
+              code: this.extractProductCode(line.product_name) || undefined,
+              color: line.color || line.variant || undefined,
+              size: line.size || line.variant || undefined
+            };
+          });
+
+        let odooMatches = new Map<string, ProductMatch>();
+        let nameMatches = new Map<string, ProductMatch>();
+        try {
+          [odooMatches, nameMatches] = await Promise.all([
+            matchExternalProducts('odoo', lineRefs.filter(ref => ref.source === 'odoo')),
+            matchExternalProducts('global_bot', lineRefs.filter(ref => ref.source === 'global_bot'))
+          ]);
+        } catch (matchError) {
+          console.warn('  ⚠️ Product mappings unavailable, lines keep their Odoo names only:', matchError);
+        }
+
+        for (const line of orderLines) {
           if (!line.product_name || (!line.qty_delivered && !line.quantity)) continue;
 
           const productName = line.product_name || line.name || 'Unknown Product';
           const quantity = Math.abs(Number(line.qty_delivered || line.quantity) || 0);
-          const color = line.color || line.variant || 'Default';
-          const size = line.size || line.variant || 'Default';
           const unitPrice = Number(line.price_unit || line.unit_price || 0);
           const externalProductId = line.product_id?.[0] || line.product_id || null;
 
@@ -327,12 +357,23 @@ export class ExternalBotSyncService {
 
           console.log(`    🔍 Processing line: ${productName} (Qty: ${quantity})`);
 
-          // No product matching needed - direct relationship via product_name/description
+          // product_name stays as Odoo sends it (it matches products.description); a confirmed mapping adds the
+          // product link and the variant
+          const match = externalProductId
+            ? odooMatches.get(String(externalProductId))
+            : nameMatches.get(buildProductMappingKey(productName, line.color || line.variant, line.size || line.variant));
+          const confirmed = match?.status === 'confirmed' ? match : undefined;
+          const color = confirmed && confirmed.color !== 'Default' ? confirmed.color : line.color || line.variant || 'Default';
+          const size = confirmed && confirmed.size !== 'Default' ? confirmed.size : line.size || line.variant || 'Default';
           const category = 'General';
           const subCategory = 'General';
           
-          console.log(`📦 Processing product: "${productName}" (no matching required)`);
-          globalMatchedProducts++; // All products are considered "matched" since we have direct relationship
+          if (confirmed) {
+            globalMatchedProducts++;
+          } else {
+            globalUnmatchedProducts++;
+            console.log(`📦 "${productName}" has no confirmed product mapping yet`);
+          }
 
           // Insert into external_inventory_management
           const insertData = {
@@ -342,7 +383,7 @@ export class ExternalBotSyncService {
             size: size,
             category: category,
             sub_category: subCategory,
-            matched_product_id: null, // No longer needed - direct relationship via product_name/description
+            matched_product_id: confirmed?.productId || null,
             unit_price: unitPrice,
             transaction_type: 'external_invoice',
             transaction_id: invoice.name,
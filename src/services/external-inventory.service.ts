@@ -1,4 +1,12 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { fetchAllSupabaseRows } from '@/utils/supabasePagination';
+
+type StockBalanceRow = Database['public']['Tables']['external_inventory_stock_balances']['Row'];
+type ReorderLevelRow = Database['public']['Tables']['stock_reorder_levels']['Row'];
+
+// Low-stock threshold for variants without a reorder level
+const DEFAULT_LOW_STOCK_LEVEL = 5;
 
 export interface ExternalInventoryItem {
   product_name: string;
@@ -19,8 +27,10 @@ export interface ExternalInventoryItem {
   first_transaction_date: string;
   sources?: string; // Comma-separated transaction sources
   transaction_types?: string; // Comma-separated transaction types
+  min_stock?: number | null; // Reorder levels summed over the merged variants; null when none are set
+  max_stock?: number | null;
   stock_status?: 'in_stock' | 'low_stock' | 'out_of_stock'; // Calculated status
-  total_value?: number; // current_stock * avg_unit_price
+  total_value?: number; // Cost of the stock on hand under the agency's cost method; current_stock * avg_unit_price when not costed
 }
 
 export interface ExternalInventoryTransaction {
@@ -63,10 +73,10 @@ export interface ExternalInventoryMetrics {
 
 export class ExternalInventoryService {
   
-  // Helper method to calculate stock status
-  private calculateStockStatus(currentStock: number): 'in_stock' | 'low_stock' | 'out_of_stock' {
+  // Helper method to calculate stock status against the variant's minimum level
+  private calculateStockStatus(currentStock: number, minStock?: number | null): 'in_stock' | 'low_stock' | 'out_of_stock' {
     if (currentStock <= 0) return 'out_of_stock';
-    if (currentStock <= 5) return 'low_stock';
+    if (currentStock <= (minStock ?? DEFAULT_LOW_STOCK_LEVEL)) return 'low_stock';
     return 'in_stock';
   }
 
@@ -79,7 +89,7 @@ export class ExternalInventoryService {
       // Small delay to ensure database has processed recent changes
       await new Promise(resolve => setTimeout(resolve, 100));
     }
-    return this.buildStockSummaryFromTransactions(userId);
+    return this.buildStockSummary(userId);
   }
 
   // Get all stock for an agency (superuser only) - no reference_name filtering
@@ -87,85 +97,71 @@ export class ExternalInventoryService {
     if (forceRefresh) {
       await new Promise(resolve => setTimeout(resolve, 100));
     }
-    return this.buildAgencyStockSummaryFromTransactions(agencyId);
+    return this.buildAgencyStockSummary(agencyId);
   }
 
-  // Helper method to build stock summary for entire agency (superuser only)
-  private async buildAgencyStockSummaryFromTransactions(agencyId: string, filters?: { searchTerm?: string; category?: string }): Promise<ExternalInventoryItem[]> {
-    console.log(`🔍 Debug: Getting ALL stock for agency ${agencyId} (superuser mode)`);
-
-    const PAGE_SIZE = 1000;
-
-    const fetchPage = async (from: number, to: number) => {
-      let pageQuery = supabase
-        .from('external_inventory_management')
-        .select(`
-          product_name,
-          product_code,
-          color,
-          size,
-          category,
-          sub_category,
-          unit_price,
-          quantity,
-          transaction_date,
-          external_source,
-          transaction_type,
-          reference_name
-        `, { count: 'exact' })
+  // Per-variant balances maintained by the database from approved ledger rows (external_inventory_stock_balances)
+  private async fetchStockBalances(agencyId: string, filters?: { searchTerm?: string; category?: string }): Promise<StockBalanceRow[]> {
+    return fetchAllSupabaseRows<StockBalanceRow>(() => {
+      let query = supabase
+        .from('external_inventory_stock_balances')
+        .select('*')
         .eq('agency_id', agencyId)
-        .eq('approval_status', 'approved'); // Only approved transactions affect stock
+        .order('product_name')
+        .order('color')
+        .order('size');
 
-      // Apply filters per page
       if (filters?.searchTerm) {
-        pageQuery = pageQuery.ilike('product_name', `%${filters.searchTerm}%`);
+        query = query.ilike('product_name', `%${filters.searchTerm}%`);
       }
-
       if (filters?.category) {
-        pageQuery = pageQuery.eq('sub_category', filters.category);
+        query = query.eq('sub_category', filters.category);
       }
 
-      return pageQuery.range(from, to);
-    };
+      return query;
+    });
+  }
 
-    // Fetch first page
-    const firstPage = await fetchPage(0, PAGE_SIZE - 1);
+  // Min/max levels keyed like the balances; missing levels only mean the default threshold applies
+  private async fetchReorderLevels(agencyId: string): Promise<Map<string, ReorderLevelRow>> {
+    const { data, error } = await supabase
+      .from('stock_reorder_levels')
+      .select('*')
+      .eq('agency_id', agencyId);
 
-    if (firstPage.error) {
-      console.error('Error fetching agency transactions:', firstPage.error);
-      throw firstPage.error;
+    if (error) {
+      console.warn('Could not load reorder levels:', error);
     }
 
-    const data: any[] = firstPage.data || [];
-    const totalCount = firstPage.count ?? data.length;
-
-    // Fetch remaining pages
-    while (data.length < totalCount) {
-      const from = data.length;
-      const to = from + PAGE_SIZE - 1;
-      const page = await fetchPage(from, to);
-      if (page.error) {
-        console.error('Error fetching paginated agency transactions:', page.error);
-        throw page.error;
-      }
-      data.push(...(page.data || []));
-    }
+    return new Map((data || []).map(level => [`${level.product_name}|${level.color}|${level.size}`, level]));
+  }
 
-    console.log(`🔍 Debug: Fetched ${data.length} transactions for agency ${agencyId}`);
-    if (data && data.length > 0) {
-      console.log(`🔍 Debug: Sample transactions:`, data.slice(0, 3));
-    } else {
-      console.log(`⚠️ Debug: No transactions found for agency ${agencyId} - this agency will show empty inventory`);
+  // Current stock value per variant from the costed ledger (FIFO or weighted average, per agency)
+  private async fetchStockCosts(agencyId: string): Promise<Map<string, number>> {
+    const { data, error } = await supabase.rpc('get_inventory_valuation', { p_agency_id: agencyId });
+
+    if (error) {
+      console.warn('Could not load stock costs:', error);
     }
 
-    if (!data || data.length === 0) {
+    return new Map((data || []).map(row => [`${row.product_name}|${row.color}|${row.size}`, Number(row.stock_value)]));
+  }
+
+  // Helper method to build the stock summary for an agency from its variant balances
+  private async buildAgencyStockSummary(agencyId: string, filters?: { searchTerm?: string; category?: string }): Promise<ExternalInventoryItem[]> {
+    const [balances, reorderLevels, stockCosts] = await Promise.all([
+      this.fetchStockBalances(agencyId, filters),
+      this.fetchReorderLevels(agencyId),
+      this.fetchStockCosts(agencyId)
+    ]);
+
+    if (balances.length === 0) {
       return [];
     }
 
-    // Get unique product names and fetch their corresponding products table data  
-    const uniqueProductNames = [...new Set(data.map(item => item.product_name))];
-    
-    // Fetch products data for all unique product names
+    // Get unique product names and fetch their corresponding products table data
+    const uniqueProductNames = [...new Set(balances.map(balance => balance.product_name))];
+
     const { data: productsData, error: productsError } = await supabase
       .from('products')
       .select('description, name, sub_category')
@@ -256,88 +252,96 @@ export class ExternalInventoryService {
       return baseName.trim();
     };
 
-    // Group transactions by product variant
+    // Group balances by product variant; spellings of a colour or size that normalize alike are merged
     const groupedData = new Map<string, any>();
-    
-    data.forEach(transaction => {
-      const normalizedColor = normalizeColor(transaction.color, transaction.product_name);
-      const normalizedSize = extractSize(transaction.product_name, transaction.size);
-      const normalizedCode = normalizeProductCode(transaction.product_code, transaction.product_name);
-      
+
+    balances.forEach(balance => {
+      const normalizedColor = normalizeColor(balance.color, balance.product_name);
+      const normalizedSize = extractSize(balance.product_name, balance.size);
+      const normalizedCode = normalizeProductCode(balance.product_code, balance.product_name);
+
       // Get product info from products table
-      const productInfo = productsMap.get(transaction.product_name);
-      const displayName = productInfo?.displayName || transaction.product_name;
-      // Prefer transaction's sub_category, then product mapping, then category fallback
-      const subCategory = transaction.sub_category || productInfo?.subCategory || transaction.category || 'General';
-      
-      const key = `${transaction.product_name}|${normalizedColor}|${normalizedSize}`;
-      
+      const productInfo = productsMap.get(balance.product_name);
+      const displayName = productInfo?.displayName || balance.product_name;
+      // Prefer the ledger's sub_category, then product mapping, then category fallback
+      const subCategory = balance.sub_category || productInfo?.subCategory || balance.category || 'General';
+
+      const key = `${balance.product_name}|${normalizedColor}|${normalizedSize}`;
+
       if (!groupedData.has(key)) {
         groupedData.set(key, {
           product_name: displayName, // Use products.name for display
-          original_product_name: transaction.product_name, // Keep original for matching
+          original_product_name: balance.product_name, // Keep original for matching
           product_code: normalizedCode,
           color: normalizedColor,
           size: normalizedSize,
-          category: transaction.category || 'General',
-          sub_category: subCategory, // Use products.sub_category
+          category: balance.category || 'General',
+          sub_category: subCategory,
           current_stock: 0,
           total_stock_in: 0,
           total_stock_out: 0,
           transaction_count: 0,
           variant_count: 1,
           avg_unit_price: 0,
-          last_transaction_date: transaction.transaction_date,
-          first_transaction_date: transaction.transaction_date,
+          last_transaction_date: balance.last_transaction_date,
+          first_transaction_date: balance.first_transaction_date,
           sources: new Set(),
           transaction_types: new Set(),
           price_sum: 0,
-          price_count: 0
+          price_count: 0,
+          min_stock: null,
+          max_stock: null,
+          stock_value: null
         });
       }
-      
+
       const item = groupedData.get(key)!;
       // Upgrade sub_category/category if we previously had a generic value
       if ((item.sub_category === 'General' || !item.sub_category) && subCategory && subCategory !== 'General') {
         item.sub_category = subCategory;
       }
-      if ((item.category === 'General' || !item.category) && transaction.category) {
-        item.category = transaction.category;
+      if ((item.category === 'General' || !item.category) && balance.category) {
+        item.category = balance.category;
       }
 
-      item.current_stock += transaction.quantity;
-      item.transaction_count++;
-      
-      if (transaction.quantity > 0) {
-        item.total_stock_in += transaction.quantity;
-      } else {
-        item.total_stock_out += Math.abs(transaction.quantity);
+      item.current_stock += balance.current_stock;
+      item.total_stock_in += balance.total_stock_in;
+      item.total_stock_out += balance.total_stock_out;
+      item.transaction_count += balance.transaction_count;
+
+      item.price_sum += Number(balance.price_sum);
+      item.price_count += balance.price_count;
+      item.avg_unit_price = item.price_count > 0 ? item.price_sum / item.price_count : 0;
+
+      const stockValue = stockCosts.get(`${balance.product_name}|${balance.color}|${balance.size}`);
+      if (stockValue !== undefined) {
+        item.stock_value = (item.stock_value ?? 0) + stockValue;
       }
-      
-      if (transaction.unit_price > 0) {
-        item.price_sum += transaction.unit_price;
-        item.price_count++;
-        item.avg_unit_price = item.price_sum / item.price_count;
+
+      const level = reorderLevels.get(`${balance.product_name}|${balance.color}|${balance.size}`);
+      if (level) {
+        item.min_stock = (item.min_stock ?? 0) + level.min_stock;
+        item.max_stock = (item.max_stock ?? 0) + level.max_stock;
       }
-      
-      if (transaction.transaction_date > item.last_transaction_date) {
-        item.last_transaction_date = transaction.transaction_date;
+
+      if (balance.last_transaction_date && balance.last_transaction_date > item.last_transaction_date) {
+        item.last_transaction_date = balance.last_transaction_date;
       }
-      if (transaction.transaction_date < item.first_transaction_date) {
-        item.first_transaction_date = transaction.transaction_date;
+      if (balance.first_transaction_date && balance.first_transaction_date < item.first_transaction_date) {
+        item.first_transaction_date = balance.first_transaction_date;
       }
-      
-      item.sources.add(transaction.external_source);
-      item.transaction_types.add(transaction.transaction_type);
+
+      balance.sources.forEach(source => item.sources.add(source));
+      balance.transaction_types.forEach(type => item.transaction_types.add(type));
     });
 
     // Convert to array and clean up
-    const initialItems = Array.from(groupedData.values()).map(item => ({
+    const initialItems = Array.from(groupedData.values()).map(({ stock_value, ...item }) => ({
       ...item,
       sources: Array.from(item.sources).join(', '),
       transaction_types: Array.from(item.transaction_types).join(', '),
-      stock_status: this.calculateStockStatus(item.current_stock),
-      total_value: item.current_stock * (item.avg_unit_price || 0)
+      stock_status: this.calculateStockStatus(item.current_stock, item.min_stock),
+      total_value: stock_value ?? item.current_stock * (item.avg_unit_price || 0)
     }));
 
     // Second‑level aggregation: merge items by normalized product name + normalized size (ignore product_code/ids)
@@ -381,6 +385,10 @@ export class ExternalInventoryService {
         existing.total_stock_out += item.total_stock_out;
         existing.transaction_count += item.transaction_count;
         existing.variant_count += item.variant_count ?? 0;
+        if (item.min_stock !== null) {
+          existing.min_stock = (existing.min_stock ?? 0) + item.min_stock;
+          existing.max_stock = (existing.max_stock ?? 0) + (item.max_stock ?? 0);
+        }
 
         // Prefer non-default colors/sizes; else mark MULTI
         if (existing.color !== item.color) {
@@ -399,16 +407,15 @@ export class ExternalInventoryService {
           : existing.avg_unit_price ?? item.avg_unit_price;
 
         existing.total_value = combinedTotalValue;
-        existing.stock_status = this.calculateStockStatus(combinedStock);
+        existing.stock_status = this.calculateStockStatus(combinedStock, existing.min_stock);
       }
     });
 
     return Array.from(aggregatedMap.values());
   }
 
-  // Helper method to build stock summary from raw transactions filtered by user profile name  
-  private async buildStockSummaryFromTransactions(userId: string, filters?: { searchTerm?: string; category?: string }): Promise<ExternalInventoryItem[]> {
-    // First get the user's profile name
+  // Helper method to build the stock summary for the agency on a user's profile
+  private async buildStockSummary(userId: string, filters?: { searchTerm?: string; category?: string }): Promise<ExternalInventoryItem[]> {
     const { data: profileData, error: profileError } = await supabase
       .from('profiles')
       .select('name, agency_id')
@@ -420,378 +427,20 @@ export class ExternalInventoryService {
       return [];
     }
 
-    const userProfileName = profileData.name;
-    const agencyId = profileData.agency_id;
-    
-    if (!userProfileName) {
+    if (!profileData.name) {
       console.warn('User profile has no name');
       return [];
     }
 
-    console.log(`🔍 Debug: Loading inventory for agency ${agencyId} (all approved transactions, no reference_name filter)`);
-
-    const PAGE_SIZE = 1000;
-
-    const fetchPage = async (from: number, to: number) => {
-      let pageQuery = supabase
-        .from('external_inventory_management')
-        .select(`
-          product_name,
-          product_code,
-          color,
-          size,
-          category,
-          sub_category,
-          unit_price,
-          quantity,
-          transaction_date,
-          external_source,
-          transaction_type,
-          reference_name
-        `, { count: 'exact' })
-        .eq('agency_id', agencyId)
-        .eq('approval_status', 'approved'); // Only approved transactions affect stock
-
-      // Apply filters per page
-      if (filters?.searchTerm) {
-        pageQuery = pageQuery.ilike('product_name', `%${filters.searchTerm}%`);
-      }
-      if (filters?.category) {
-        pageQuery = pageQuery.eq('sub_category', filters.category);
-      }
-
-      return pageQuery.range(from, to);
-    };
-
-    // Fetch first page
-    const firstPage = await fetchPage(0, PAGE_SIZE - 1);
-    if (firstPage.error) {
-      console.error('Error fetching external inventory transactions:', firstPage.error);
-      throw firstPage.error;
-    }
-
-    const transactions: any[] = firstPage.data || [];
-    const totalCount = firstPage.count ?? transactions.length;
-
-    // Fetch remaining pages if needed
-    while (transactions.length < totalCount) {
-      const from = transactions.length;
-      const to = from + PAGE_SIZE - 1;
-      const page = await fetchPage(from, to);
-      if (page.error) {
-        console.error('Error fetching paginated transactions:', page.error);
-        throw page.error;
-      }
-      transactions.push(...(page.data || []));
-    }
-
-    console.log(`🔍 Debug: Fetched ${transactions.length} transactions for agency ${agencyId}`);
-    if (transactions && transactions.length > 0) {
-      console.log('🔍 Debug: Sample transactions:', transactions.slice(0, 3));
-      
-      // Debug: Check for recent BRITNY-BLACK L transactions
-      const britnyTransactions = transactions.filter(t => 
-        t.product_name?.includes('BRITNY') && t.color === 'BLACK' && t.size === 'L'
-      );
-      console.log('🔍 Debug: BRITNY-BLACK L transactions:', britnyTransactions);
-      
-      // Debug: Check for sale transactions
-      const saleTransactions = transactions.filter(t => t.transaction_type === 'sale');
-      console.log('🔍 Debug: Sale transactions found:', saleTransactions.length);
-      if (saleTransactions.length > 0) {
-        console.log('🔍 Debug: Sample sale transactions:', saleTransactions.slice(-3));
-      }
-    } else {
-      console.log(`⚠️ Debug: No transactions found for agency ${agencyId} - this agency will show empty inventory`);
-    }
-
-    if (!transactions || transactions.length === 0) {
+    if (!profileData.agency_id) {
+      console.warn('User profile has no agency');
       return [];
     }
 
-    // Get unique product names and fetch their corresponding products table data  
-    const uniqueProductNames = [...new Set(transactions.map(item => item.product_name))];
-    
-    // Fetch products data for all unique product names
-    const { data: productsData, error: productsError } = await supabase
-      .from('products')
-      .select('description, name, sub_category')
-      .in('description', uniqueProductNames);
-
-    if (productsError) {
-      console.error('Error fetching products data:', productsError);
-    }
-
-    // Create a lookup map for products
-    const productsMap = new Map();
-    productsData?.forEach(product => {
-      productsMap.set(product.description, {
-        displayName: product.name,
-        subCategory: product.sub_category
-      });
-    });
-
-    // Helper function to normalize and extract size from product name or size field
-    const extractSize = (productName: string, sizeField: string): string => {
-      // If size field is not "Default", use it
-      if (sizeField && sizeField !== 'Default') {
-        return sizeField.toUpperCase();
-      }
-      
-      // Extract numeric sizes (28, 30, 32, 34, etc.)
-      const numericSizeMatch = productName.match(/\s+(\d+)$/);
-      if (numericSizeMatch) {
-        return numericSizeMatch[1];
-      }
-      
-      // Extract letter sizes (XS, S, M, L, XL, 2XL, 3XL, XXL, XXXL)
-      const letterSizeMatch = productName.match(/\s+(XS|S|M|L|XL|2XL|3XL|XXL|XXXL)$/i);
-      if (letterSizeMatch) {
-        return letterSizeMatch[1].toUpperCase();
-      }
-      
-      // Handle patterns like "BRITNY-BLACK 2XL" where size might be after color
-      const afterColorSizeMatch = productName.match(/-[A-Z]+\s+(XS|S|M|L|XL|2XL|3XL|XXL|XXXL|\d+)$/i);
-      if (afterColorSizeMatch) {
-        return afterColorSizeMatch[1].toUpperCase();
-      }
-      
-      return 'Default';
-    };
-
-    // Helper function to normalize color
-    const normalizeColor = (color: string, productName: string): string => {
-      // If color field is not "Default", use it
-      if (color && color !== 'Default') {
-        // Normalize common color spelling variations
-        return color.toUpperCase()
-          .replace('BEIGH', 'BEIGE')
-          .replace('GREY', 'GRAY');
-      }
-      
-      // Extract color from product name patterns
-      // Pattern 1: "PRODUCT-COLOR SIZE" (e.g., "SOLACE-BEIGH 28")
-      const colorAfterDashMatch = productName.match(/-([A-Z]+)\s+(?:\d+|XS|S|M|L|XL|2XL|3XL|XXL|XXXL)$/i);
-      if (colorAfterDashMatch) {
-        return colorAfterDashMatch[1].toUpperCase()
-          .replace('BEIGH', 'BEIGE')
-          .replace('GREY', 'GRAY');
-      }
-      
-      // Pattern 2: "PRODUCT-COLOR" without size (e.g., "SHORTS-BLACK")
-      const colorAfterDashNoSizeMatch = productName.match(/-([A-Z]+)$/i);
-      if (colorAfterDashNoSizeMatch) {
-        return colorAfterDashNoSizeMatch[1].toUpperCase()
-          .replace('BEIGH', 'BEIGE')
-          .replace('GREY', 'GRAY');
-      }
-      
-      return 'Default';
-    };
-
-    // Helper function to normalize product code
-    const normalizeProductCode = (productCode: string | null, productName: string): string | null => {
-      if (productCode) {
-        return productCode.toUpperCase();
-      }
-      
-      // Extract product code from brackets in product name
-      const codeMatch = productName.match(/\[([^\]]+)\]/);
-      if (codeMatch) {
-        return codeMatch[1].toUpperCase();
-      }
-      
-      return null;
-    };
-
-    // Helper function to create normalized base product name
-    const createBaseProductName = (productName: string): string => {
-      // Remove product code in brackets
-      let baseName = productName.replace(/^\[[^\]]+\]\s*/, '');
-      
-      // Remove color and size patterns
-      // Pattern 1: Remove "-COLOR SIZE" at the end
-      baseName = baseName.replace(/-[A-Z]+\s+(?:\d+|XS|S|M|L|XL|2XL|3XL|XXL|XXXL)$/i, '');
-      
-      // Pattern 2: Remove just size at the end if no color pattern matched
-      baseName = baseName.replace(/\s+(?:\d+|XS|S|M|L|XL|2XL|3XL|XXL|XXXL)$/i, '');
-      
-      // Pattern 3: Remove just "-COLOR" at the end if no size
-      baseName = baseName.replace(/-[A-Z]+$/i, '');
-      
-      return baseName.trim();
-    };
-
-    // Group transactions by product variant (name + normalized color + normalized size)
-    const groupedData = new Map<string, any>();
-    
-    transactions?.forEach(transaction => {
-      const normalizedColor = normalizeColor(transaction.color, transaction.product_name);
-      const normalizedSize = extractSize(transaction.product_name, transaction.size);
-      const normalizedCode = normalizeProductCode(transaction.product_code, transaction.product_name);
-      
-      // Get product info from products table
-      const productInfo = productsMap.get(transaction.product_name);
-      const displayName = productInfo?.displayName || transaction.product_name;
-      // Prefer transaction's sub_category, then product mapping, then category fallback
-      const subCategory = transaction.sub_category || productInfo?.subCategory || transaction.category || 'General';
-      
-      const key = `${transaction.product_name}|${normalizedColor}|${normalizedSize}`;
-      
-      if (!groupedData.has(key)) {
-        groupedData.set(key, {
-          product_name: displayName, // Use products.name for display
-          original_product_name: transaction.product_name, // Keep original for matching
-          product_code: normalizedCode,
-          color: normalizedColor,
-          size: normalizedSize,
-          category: transaction.category || 'General',
-          sub_category: subCategory, // Use products.sub_category
-          current_stock: 0,
-          total_stock_in: 0,
-          total_stock_out: 0,
-          transaction_count: 0,
-          variant_count: 1,
-          avg_unit_price: 0,
-          last_transaction_date: transaction.transaction_date,
-          first_transaction_date: transaction.transaction_date,
-          sources: new Set(),
-          transaction_types: new Set(),
-          price_sum: 0,
-          price_count: 0
-        });
-      }
-      
-      const item = groupedData.get(key)!;
-      // Upgrade sub_category/category if we previously had a generic value
-      if ((item.sub_category === 'General' || !item.sub_category) && subCategory && subCategory !== 'General') {
-        item.sub_category = subCategory;
-      }
-      if ((item.category === 'General' || !item.category) && transaction.category) {
-        item.category = transaction.category;
-      }
-      
-      // Debug specific product
-      if (transaction.product_name?.includes('BRITNY') && normalizedColor === 'BLACK' && normalizedSize === 'L') {
-        console.log('🔍 Debug: Processing BRITNY-BLACK L transaction:', {
-          type: transaction.transaction_type,
-          quantity: transaction.quantity,
-          currentStock: item.current_stock,
-          newStock: item.current_stock + transaction.quantity,
-          transactionDate: transaction.transaction_date,
-          key: key
-        });
-      }
-      
-      item.current_stock += transaction.quantity;
-      item.transaction_count++;
-      
-      if (transaction.quantity > 0) {
-        item.total_stock_in += transaction.quantity;
-      } else {
-        item.total_stock_out += Math.abs(transaction.quantity);
-      }
-      
-      if (transaction.unit_price > 0) {
-        item.price_sum += transaction.unit_price;
-        item.price_count++;
-        item.avg_unit_price = item.price_sum / item.price_count;
-      }
-      
-      if (transaction.transaction_date > item.last_transaction_date) {
-        item.last_transaction_date = transaction.transaction_date;
-      }
-      if (transaction.transaction_date < item.first_transaction_date) {
-        item.first_transaction_date = transaction.transaction_date;
-      }
-      
-      item.sources.add(transaction.external_source);
-      item.transaction_types.add(transaction.transaction_type);
-    });
-
-    // Convert to array and clean up
-    const initialItems = Array.from(groupedData.values()).map(item => ({
-      ...item,
-      sources: Array.from(item.sources).join(', '),
-      transaction_types: Array.from(item.transaction_types).join(', '),
-      stock_status: this.calculateStockStatus(item.current_stock),
-      total_value: item.current_stock * (item.avg_unit_price || 0)
-    }));
-
-    // Second‑level aggregation: merge items by normalized product name + normalized size for this user (ignore product_code)
-    const aggregatedMap = new Map<string, any>();
-
-    initialItems.forEach(item => {
-      const normalizeBaseName = (name: string | null | undefined) => {
-        if (!name) return '';
-        let base = name.replace(/^\[[^\]]+\]\s*/, '').trim();
-        base = base.replace(/\s+(S|M|L|XL|2XL|3XL|4XL|5XL|\d{1,3})$/i, '').trim();
-        base = base.replace(/[-\s]+$/, '').trim();
-        base = base.replace(/[-_\s]+/g, ' ').toUpperCase();
-        return base;
-      };
-      const normalizeSize = (size: string | null | undefined) => {
-        if (!size) return '';
-        const s = size.toUpperCase().trim();
-        if (s === 'DEFAULT' || /FREE\s*SIZE/.test(s) || /ONE\s*SIZE/.test(s)) return '';
-        return s.replace(/\s+/g, '').replace(/–/g, '-');
-      };
-      const extractSizeFromName = (name: string | null | undefined) => {
-        if (!name) return '';
-        const match = name.match(/\b(S|M|L|XL|2XL|3XL|4XL|5XL|\d{2,3}|\d+\s*[-–]\s*\d+)\s*$/i);
-        return match ? match[1].toUpperCase().replace(/\s+/g, '').replace(/–/g, '-') : '';
-      };
-
-      const baseName = normalizeBaseName(item.product_name);
-      const sizeKey = normalizeSize(item.size) || extractSizeFromName(item.product_name) || 'NOSIZE';
-
-      const key = `name:${baseName}|size:${sizeKey}`;
-      if (!aggregatedMap.has(key)) {
-        aggregatedMap.set(key, { ...item });
-      } else {
-        const existing = aggregatedMap.get(key)!;
-        const combinedStock = existing.current_stock + item.current_stock;
-        const combinedTotalValue = existing.total_value + item.total_value;
-
-        existing.current_stock = combinedStock;
-        existing.total_stock_in += item.total_stock_in;
-        existing.total_stock_out += item.total_stock_out;
-        existing.transaction_count += item.transaction_count;
-        existing.variant_count += item.variant_count ?? 0;
-
-        if (existing.color !== item.color) {
-          if (existing.color === 'Default') existing.color = item.color;
-          else if (item.color === 'Default') existing.color = existing.color;
-          else existing.color = 'MULTI';
-        }
-        if (existing.size !== item.size) {
-          if (existing.size === 'Default') existing.size = item.size;
-          else if (item.size === 'Default') existing.size = existing.size;
-          else existing.size = 'MULTI';
-        }
-
-        existing.avg_unit_price = combinedStock !== 0
-          ? combinedTotalValue / combinedStock
-          : existing.avg_unit_price ?? item.avg_unit_price;
-
-        existing.total_value = combinedTotalValue;
-        existing.stock_status = this.calculateStockStatus(combinedStock);
-      }
-    });
-
-    const result = Array.from(aggregatedMap.values());
-    
-    // Debug: Check final BRITNY-BLACK L result for user-specific function
-    const britnyResult = result.find(item => 
-      item.product_name?.includes('BRITNY') && item.color === 'BLACK' && item.size === 'L'
-    );
-    if (britnyResult) {
-      console.log('🔍 Debug: Final USER-SPECIFIC BRITNY-BLACK L stock result:', britnyResult);
-    }
-    
-    return result;
+    return this.buildAgencyStockSummary(profileData.agency_id, filters);
   }
 
+
   // Get transaction history for an agency (include all statuses for history)
   async getTransactionHistory(agencyId: string, limit: number = 50): Promise<ExternalInventoryTransaction[]> {
     const { data, error } = await supabase
@@ -850,33 +499,30 @@ export class ExternalInventoryService {
     size: string = 'Default'
   ): Promise<number> {
     const { data, error } = await supabase
-      .from('external_inventory_management')
-      .select('quantity')
+      .from('external_inventory_stock_balances')
+      .select('current_stock')
       .eq('agency_id', agencyId)
       .eq('product_name', productName)
       .eq('color', color)
       .eq('size', size)
-      .eq('approval_status', 'approved'); // Only approved transactions
+      .maybeSingle();
 
     if (error) {
       console.error('Error getting current stock:', error);
       return 0;
     }
 
-    const totalStock = data?.reduce((sum, row) => sum + row.quantity, 0) || 0;
-    return totalStock;
+    return data?.current_stock ?? 0;
   }
 
-  // Calculate inventory metrics for user
-  async getInventoryMetrics(userId: string): Promise<ExternalInventoryMetrics> {
-    const stockSummary = await this.getStockSummary(userId);
-    
+  // Calculate inventory metrics from an already loaded stock summary
+  calculateInventoryMetrics(stockSummary: ExternalInventoryItem[]): ExternalInventoryMetrics {
     const totalItems = stockSummary.length;
     const totalValue = stockSummary.reduce((sum, item) => 
-      sum + (item.current_stock * (item.avg_unit_price || 0)), 0
+      sum + (item.total_value ?? item.current_stock * (item.avg_unit_price || 0)), 0
     );
     const lowStockItems = stockSummary.filter(item => 
-      item.current_stock > 0 && item.current_stock <= 5
+      item.stock_status === 'low_stock'
     ).length;
     const outOfStockItems = stockSummary.filter(item => 
       item.current_stock <= 0
@@ -894,31 +540,14 @@ export class ExternalInventoryService {
     };
   }
 
+  // Calculate inventory metrics for user
+  async getInventoryMetrics(userId: string): Promise<ExternalInventoryMetrics> {
+    return this.calculateInventoryMetrics(await this.getStockSummary(userId));
+  }
+
   // Calculate inventory metrics for agency (superuser)
   async getAgencyInventoryMetrics(agencyId: string): Promise<ExternalInventoryMetrics> {
-    const stockSummary = await this.getAgencyStockSummary(agencyId);
-    
-    const totalItems = stockSummary.length;
-    const totalValue = stockSummary.reduce((sum, item) => 
-      sum + (item.current_stock * (item.avg_unit_price || 0)), 0
-    );
-    const lowStockItems = stockSummary.filter(item => 
-      item.current_stock > 0 && item.current_stock <= 5
-    ).length;
-    const outOfStockItems = stockSummary.filter(item => 
-      item.current_stock <= 0
-    ).length;
-    const totalTransactions = stockSummary.reduce((sum, item) => 
-      sum + item.transaction_count, 0
-    );
-
-    return {
-      totalItems,
-      totalValue,
-      lowStockItems,
-      outOfStockItems,
-      totalTransactions
-    };
+    return this.calculateInventoryMetrics(await this.getAgencyStockSummary(agencyId));
   }
 
   // Add stock adjustment with product matching
@@ -1124,12 +753,12 @@ export class ExternalInventoryService {
 
   // Search products by name for user
   async searchProducts(userId: string, searchTerm: string): Promise<ExternalInventoryItem[]> {
-    return this.buildStockSummaryFromTransactions(userId, { searchTerm });
+    return this.buildStockSummary(userId, { searchTerm });
   }
 
   // Get products by category for user
   async getProductsByCategory(userId: string, category: string): Promise<ExternalInventoryItem[]> {
-    return this.buildStockSummaryFromTransactions(userId, { category });
+    return this.buildStockSummary(userId, { category });
   }
 
   // Get unique subcategories for a user from products table via direct relationship
@@ -1198,16 +827,16 @@ export class ExternalInventoryService {
     try {
       console.log(`🔍 Debug: Getting categories for agency ${agencyId} (superuser mode)`);
 
-      // Get unique product names from external inventory for the entire agency
-      const { data: inventoryData, error: inventoryError } = await supabase
-        .from('external_inventory_management')
-        .select('product_name')
-        .eq('agency_id', agencyId);
-
-      if (inventoryError) {
-        console.error('Error getting agency inventory product names:', inventoryError);
-        throw inventoryError;
-      }
+      // Get unique product names from the agency's stock balances
+      const inventoryData = await fetchAllSupabaseRows<{ product_name: string }>(() =>
+        supabase
+          .from('external_inventory_stock_balances')
+          .select('product_name')
+          .eq('agency_id', agencyId)
+          .order('product_name')
+          .order('color')
+          .order('size')
+      );
 
       if (!inventoryData || inventoryData.length === 0) {
         return [];
@@ -1,4 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { ChequeDepositBatch } from '@/types/collections';
+import type { CustomerStatement } from '@/types/statement';
 
 type LineItem = {
   productName: string;
@@ -115,52 +117,261 @@ function buildHtml(data: PdfData): string {
     </div>`;
 }
 
-async function renderHtmlToPdfBlob(html: string): Promise<Blob | null> {
+function buildStatementHtml(statement: CustomerStatement): string {
+  const money = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const cell = 'border:1px solid #333;padding:6px 8px';
+
+  const entryRows = statement.entries.map(entry => `
+    <tr>
+      <td style="${cell}">${entry.date}</td>
+      <td style="${cell}">${entry.description}</td>
+      <td style="${cell}">${entry.reference}</td>
+      <td style="${cell};text-align:right">${entry.debit > 0 ? money(entry.debit) : ''}</td>
+      <td style="${cell};text-align:right">${entry.credit > 0 ? money(entry.credit) : ''}</td>
+      <td style="${cell};text-align:right">${money(entry.balance)}</td>
+    </tr>`).join('');
+
+  const pendingRows = statement.pendingCheques.map(cheque => `
+    <tr>
+      <td style="${cell}">${cheque.date}</td>
+      <td style="${cell}">${cheque.description}</td>
+      <td style="${cell}">${cheque.reference}</td>
+      <td style="${cell};text-align:right">${money(cheque.amount)}</td>
+    </tr>`).join('');
+
+  return `
+    <div style="width:794px;background:#fff;padding:37px 45px;font-family:Arial,sans-serif;font-size:12px;color:#333;line-height:1.4">
+      <!-- Header -->
+      <div style="display:flex;align-items:flex-start;justify-content:space-between;border-bottom:2px solid #333;padding-bottom:16px;margin-bottom:16px">
+        <div style="display:flex;align-items:center;gap:12px">
+          <img src="${LOGO_URL}" alt="Logo" style="height:48px;object-fit:contain" crossorigin="anonymous" />
+          <div>
+            <div style="font-size:22px;font-weight:bold;margin-bottom:4px">${COMPANY_NAME}</div>
+            <div style="font-size:11px;color:#555">${COMPANY_ADDRESS}</div>
+          </div>
+        </div>
+        <div style="text-align:right;font-size:11px;color:#555;line-height:1.8">
+          <div>Phone: ${COMPANY_PHONE}</div>
+          <div>Email: ${COMPANY_EMAIL}</div>
+          <div>Website: ${COMPANY_WEBSITE}</div>
+        </div>
+      </div>
+
+      <!-- Statement Meta -->
+      <div style="display:flex;justify-content:space-between;margin-bottom:20px">
+        <div>
+          <h2 style="margin:0 0 12px;font-size:18px">STATEMENT OF ACCOUNT</h2>
+          <div><strong>Period:</strong> ${statement.periodFrom} to ${statement.periodTo}</div>
+          ${statement.agency ? `<div><strong>Agency:</strong> ${statement.agency.name}</div>` : ''}
+        </div>
+        <div>
+          <h3 style="margin:0 0 8px;font-size:14px">Customer:</h3>
+          <div style="font-weight:bold">${statement.customer.name}</div>
+          ${statement.customer.address ? `<div style="color:#666">${statement.customer.address}</div>` : ''}
+          ${statement.customer.phone ? `<div style="color:#666">${statement.customer.phone}</div>` : ''}
+        </div>
+      </div>
+
+      <!-- Ledger -->
+      <table style="width:100%;border-collapse:collapse;margin-bottom:20px">
+        <thead>
+          <tr style="background:#f0f0f0">
+            <th style="${cell};text-align:left">Date</th>
+            <th style="${cell};text-align:left">Description</th>
+            <th style="${cell};text-align:left">Reference</th>
+            <th style="${cell};text-align:right">Debit</th>
+            <th style="${cell};text-align:right">Credit</th>
+            <th style="${cell};text-align:right">Balance</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr style="font-style:italic">
+            <td style="${cell}">${statement.periodFrom}</td>
+            <td style="${cell}" colspan="4">Opening balance</td>
+            <td style="${cell};text-align:right">${money(statement.openingBalance)}</td>
+          </tr>
+          ${entryRows}
+        </tbody>
+      </table>
+
+      <!-- Totals -->
+      <div style="display:flex;justify-content:flex-end;margin-bottom:20px">
+        <table style="width:300px">
+          <tr><td style="padding:5px 10px">Opening balance:</td><td style="padding:5px 10px;text-align:right">LKR ${money(statement.openingBalance)}</td></tr>
+          <tr><td style="padding:5px 10px">Total debits:</td><td style="padding:5px 10px;text-align:right">LKR ${money(statement.totalDebits)}</td></tr>
+          <tr><td style="padding:5px 10px">Total credits:</td><td style="padding:5px 10px;text-align:right">-LKR ${money(statement.totalCredits)}</td></tr>
+          <tr style="font-weight:bold;font-size:14px;border-top:1px solid #333">
+            <td style="padding:8px 10px">Balance due:</td>
+            <td style="padding:8px 10px;text-align:right">LKR ${money(statement.closingBalance)}</td>
+          </tr>
+        </table>
+      </div>
+
+      ${statement.pendingCheques.length > 0 ? `
+      <!-- Post-dated cheques -->
+      <h3 style="margin:0 0 8px;font-size:14px">Post-dated cheques (not yet credited)</h3>
+      <table style="width:100%;border-collapse:collapse;margin-bottom:20px">
+        <thead>
+          <tr style="background:#f0f0f0">
+            <th style="${cell};text-align:left">Cheque date</th>
+            <th style="${cell};text-align:left">Details</th>
+            <th style="${cell};text-align:left">Cheque #</th>
+            <th style="${cell};text-align:right">Amount</th>
+          </tr>
+        </thead>
+        <tbody>${pendingRows}</tbody>
+      </table>` : ''}
+
+      <!-- Footer -->
+      <div style="margin-top:24px;font-size:10px;color:#888">
+        <div>Generated on: ${new Date().toLocaleString('en-LK', { timeZone: 'Asia/Colombo' })}</div>
+      </div>
+    </div>`;
+}
+
+function buildDepositSlipHtml(batch: ChequeDepositBatch): string {
+  const money = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const cell = 'border:1px solid #333;padding:6px 8px';
+  const account = batch.bankAccount;
+
+  const chequeRows = batch.cheques.map((cheque, index) => `
+    <tr>
+      <td style="${cell}">${index + 1}</td>
+      <td style="${cell}">${cheque.chequeNumber}</td>
+      <td style="${cell}">${cheque.bankName}</td>
+      <td style="${cell}">${cheque.customerName}</td>
+      <td style="${cell}">${cheque.chequeDate.toLocaleDateString('en-LK')}</td>
+      <td style="${cell};text-align:right">${money(cheque.amount)}</td>
+    </tr>`).join('');
+
+  return `
+    <div style="width:794px;background:#fff;padding:37px 45px;font-family:Arial,sans-serif;font-size:12px;color:#333;line-height:1.4">
+      <!-- Header -->
+      <div style="display:flex;align-items:flex-start;justify-content:space-between;border-bottom:2px solid #333;padding-bottom:16px;margin-bottom:16px">
+        <div style="display:flex;align-items:center;gap:12px">
+          <img src="${LOGO_URL}" alt="Logo" style="height:48px;object-fit:contain" crossorigin="anonymous" />
+          <div>
+            <div style="font-size:22px;font-weight:bold;margin-bottom:4px">${COMPANY_NAME}</div>
+            <div style="font-size:11px;color:#555">${COMPANY_ADDRESS}</div>
+          </div>
+        </div>
+        <div style="text-align:right;font-size:11px;color:#555;line-height:1.8">
+          <div>Phone: ${COMPANY_PHONE}</div>
+          <div>Email: ${COMPANY_EMAIL}</div>
+          <div>Website: ${COMPANY_WEBSITE}</div>
+        </div>
+      </div>
+
+      <!-- Slip Meta -->
+      <div style="display:flex;justify-content:space-between;margin-bottom:20px">
+        <div>
+          <h2 style="margin:0 0 12px;font-size:18px">CHEQUE DEPOSIT SLIP</h2>
+          <div><strong>Batch #:</strong> ${batch.batchNumber}</div>
+          <div><strong>Deposit date:</strong> ${batch.depositDate.toLocaleDateString('en-LK')}</div>
+          ${batch.agencyName ? `<div><strong>Agency:</strong> ${batch.agencyName}</div>` : ''}
+        </div>
+        ${account ? `
+        <div>
+          <h3 style="margin:0 0 8px;font-size:14px">Deposit to:</h3>
+          <div style="font-weight:bold">${account.accountName}</div>
+          <div>A/C ${account.accountNumber}</div>
+          <div style="color:#666">${account.bankName}${account.branch ? ` – ${account.branch}` : ''}</div>
+        </div>` : ''}
+      </div>
+
+      <!-- Cheques -->
+      <table style="width:100%;border-collapse:collapse;margin-bottom:20px">
+        <thead>
+          <tr style="background:#f0f0f0">
+            <th style="${cell};text-align:left">#</th>
+            <th style="${cell};text-align:left">Cheque #</th>
+            <th style="${cell};text-align:left">Bank</th>
+            <th style="${cell};text-align:left">Drawer</th>
+            <th style="${cell};text-align:left">Cheque date</th>
+            <th style="${cell};text-align:right">Amount</th>
+          </tr>
+        </thead>
+        <tbody>${chequeRows}</tbody>
+      </table>
+
+      <!-- Totals -->
+      <div style="display:flex;justify-content:flex-end;margin-bottom:20px">
+        <table style="width:300px">
+          <tr><td style="padding:5px 10px">Cheques:</td><td style="padding:5px 10px;text-align:right">${batch.cheques.length}</td></tr>
+          <tr style="font-weight:bold;font-size:14px;border-top:1px solid #333">
+            <td style="padding:8px 10px">Total:</td>
+            <td style="padding:8px 10px;text-align:right">LKR ${money(batch.totalAmount)}</td>
+          </tr>
+        </table>
+      </div>
+
+      ${batch.notes ? `<div style="margin-bottom:20px"><strong>Notes:</strong> ${batch.notes}</div>` : ''}
+
+      <!-- Signatures -->
+      <div style="display:flex;justify-content:space-between;margin-top:48px">
+        <div style="border-top:1px solid #333;width:200px;text-align:center;padding-top:4px">Deposited by</div>
+        <div style="border-top:1px solid #333;width:200px;text-align:center;padding-top:4px">Bank stamp</div>
+      </div>
+
+      <!-- Footer -->
+      <div style="margin-top:24px;font-size:10px;color:#888">
+        <div>Generated on: ${new Date().toLocaleString('en-LK', { timeZone: 'Asia/Colombo' })}</div>
+      </div>
+    </div>`;
+}
+
+// Several documents can be passed to bundle them; each one starts on a new page
+async function renderHtmlToPdfBlob(html: string | string[]): Promise<Blob | null> {
   const [jspdfModule, h2cModule] = await Promise.all([
     import(/* @vite-ignore */ 'jspdf'),
     import(/* @vite-ignore */ 'html2canvas').then(m => (m as any).default ?? (m as any)),
   ]);
   const JsPDF = (jspdfModule as any).default ?? (jspdfModule as any).jsPDF;
 
-  // Mount off-screen
-  const container = document.createElement('div');
-  container.style.cssText = 'position:fixed;left:-9999px;top:0;z-index:-1;';
-  container.innerHTML = html;
-  document.body.appendChild(container);
-  const el = container.firstElementChild as HTMLElement;
+  const pdf = new JsPDF('p', 'mm', 'a4');
+  const pageW = pdf.internal.pageSize.getWidth();
+  const pageH = pdf.internal.pageSize.getHeight();
+  const documents = Array.isArray(html) ? html : [html];
 
-  try {
-    const canvas = await (h2cModule as any)(el, {
-      scale: 2,
-      useCORS: true,
-      allowTaint: true,
-      logging: false,
-      backgroundColor: '#ffffff',
-      width: 794,
-    });
+  for (const [index, documentHtml] of documents.entries()) {
+    // Mount off-screen
+    const container = document.createElement('div');
+    container.style.cssText = 'position:fixed;left:-9999px;top:0;z-index:-1;';
+    container.innerHTML = documentHtml;
+    document.body.appendChild(container);
+    const el = container.firstElementChild as HTMLElement;
+
+    try {
+      const canvas = await (h2cModule as any)(el, {
+        scale: 2,
+        useCORS: true,
+        allowTaint: true,
+        logging: false,
+        backgroundColor: '#ffffff',
+        width: 794,
+      });
 
-    const imgData = canvas.toDataURL('image/jpeg', 0.95);
-    const pdf = new JsPDF('p', 'mm', 'a4');
-    const pageW = pdf.internal.pageSize.getWidth();
-    const pageH = pdf.internal.pageSize.getHeight();
-    const imgW = pageW;
-    const imgH = (canvas.height * imgW) / canvas.width;
-
-    let left = imgH;
-    let pos = 0;
-    pdf.addImage(imgData, 'JPEG', 0, pos, imgW, imgH, undefined, 'FAST');
-    left -= pageH;
-    while (left > 0) {
-      pos = left - imgH;
-      pdf.addPage();
+      const imgData = canvas.toDataURL('image/jpeg', 0.95);
+      const imgW = pageW;
+      const imgH = (canvas.height * imgW) / canvas.width;
+
+      let left = imgH;
+      let pos = 0;
+      if (index > 0) pdf.addPage();
       pdf.addImage(imgData, 'JPEG', 0, pos, imgW, imgH, undefined, 'FAST');
       left -= pageH;
+      while (left > 0) {
+        pos = left - imgH;
+        pdf.addPage();
+        pdf.addImage(imgData, 'JPEG', 0, pos, imgW, imgH, undefined, 'FAST');
+        left -= pageH;
+      }
+    } finally {
+      document.body.removeChild(container);
     }
-
-    return pdf.output('blob');
-  } finally {
-    document.body.removeChild(container);
   }
+
+  return pdf.output('blob');
 }
 
 async function uploadPdf(blob: Blob, path: string): Promise<string | null> {
@@ -269,3 +480,54 @@ export async function generateAndUploadPurchaseOrderPdf(data: PurchaseOrderPdfDa
     return null;
   }
 }
+
+export interface StatementPdfData {
+  statementId: string;
+  statement: CustomerStatement;
+}
+
+export async function generateAndUploadStatementPdf(data: StatementPdfData): Promise<string | null> {
+  try {
+    const html = buildStatementHtml(data.statement);
+    const blob = await renderHtmlToPdfBlob(html);
+    if (!blob) return null;
+    return uploadPdf(blob, `statements/${data.statementId}.pdf`);
+  } catch (err) {
+    console.error('[PDF] Statement error:', err);
+    return null;
+  }
+}
+
+export interface StatementBundlePdfData {
+  runId: string;
+  statements: CustomerStatement[];
+}
+
+// One printable PDF with every statement of a month-end run
+export async function generateAndUploadStatementBundlePdf(data: StatementBundlePdfData): Promise<string | null> {
+  try {
+    if (data.statements.length === 0) return null;
+    const blob = await renderHtmlToPdfBlob(data.statements.map(buildStatementHtml));
+    if (!blob) return null;
+    return uploadPdf(blob, `statements/runs/${data.runId}.pdf`);
+  } catch (err) {
+    console.error('[PDF] Statement bundle error:', err);
+    return null;
+  }
+}
+
+export interface DepositSlipPdfData {
+  batch: ChequeDepositBatch;
+}
+
+export async function generateAndUploadDepositSlipPdf(data: DepositSlipPdfData): Promise<string | null> {
+  try {
+    const html = buildDepositSlipHtml(data.batch);
+    const blob = await renderHtmlToPdfBlob(html);
+    if (!blob) return null;
+    return uploadPdf(blob, `deposit-slips/${data.batch.id}.pdf`);
+  } catch (err) {
+    console.error('[PDF] Deposit slip error:', err);
+    return null;
+  }
+}
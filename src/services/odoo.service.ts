@@ -1,5 +1,6 @@
 import odooClient, { OdooConfig } from '@/integrations/odoo/client';
 import { supabase } from '@/integrations/supabase/client';
+import { matchExternalProducts } from '@/utils/productMappings';
 
 export interface OdooProduct {
   id: number;
@@ -265,6 +266,15 @@ class OdooService {
     );
   }
 
+  // Posted customer and vendor invoices billed to one partner, newest first
+  async getPostedInvoicesForPartner(partnerId: number, limit = 50): Promise<OdooInvoice[]> {
+    return this.getInvoices(limit, 0, [
+      ['partner_id', '=', partnerId],
+      ['state', '=', 'posted'],
+      ['invoice_type', 'in', ['out_invoice', 'in_invoice']]
+    ]);
+  }
+
   async getInvoiceById(id: number): Promise<OdooInvoice | null> {
     await this.initialize();
     const invoices = await odooClient.read<OdooInvoice>('account.move', [id]);
@@ -397,6 +407,16 @@ class OdooService {
             if (itemsError) {
               throw new Error(`Failed to insert invoice items: ${itemsError.message}`);
             }
+
+            // Products without a confirmed mapping get a suggestion in the review queue before any GRN import
+            await matchExternalProducts('odoo', invoiceLines
+              .filter(line => line.product_id)
+              .map(line => ({
+                externalKey: String(line.product_id![0]),
+                name: line.product_id![1],
+                code: line.product_default_code
+              }))
+            ).catch(error => console.warn(`Could not queue product mappings for invoice ${odooInvoice.id}:`, error));
           }
 
           invoiceCount++;
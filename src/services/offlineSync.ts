@@ -1,127 +1,750 @@
 import { CapacitorSQLite, SQLiteConnection, SQLiteDBConnection } from '@capacitor-community/sqlite';
-import { Injectable } from '@angular/core';
-import { BehaviorSubject } from 'rxjs';
+import { Capacitor } from '@capacitor/core';
+import { supabase } from '@/integrations/supabase/client';
+import { externalInventoryService } from '@/services/external-inventory.service';
+import { generateAndUploadInvoicePdf } from '@/services/invoice-pdf.service';
+import { sendSMS, SmsTemplates } from '@/services/sms.service';
+import { reserveInvoiceNumbers } from '@/utils/invoiceNumber';
+import { getNextSalesOrderNumber, isDuplicateOrderNumberError } from '@/utils/salesOrderNumber';
+import { claimPricingRules, type PricingContext } from '@/utils/pricingRules';
+import { roundMoney } from '@/utils/money';
+import { getCustomerCreditStatus } from '@/utils/customerCredit';
+import { allocateCollection } from '@/utils/collectionAllocation';
+import {
+  OfflineCollectionPayload,
+  OfflineInvoicePayload,
+  OfflineSalesOrderPayload,
+  OutboxPayloadByKind,
+  OutboxRecord,
+  OutboxRecordKind,
+  OutboxSyncResult,
+} from '@/types/offline';
+import type { AppliedPricingRule, PricedCartLine, PricingResult } from '@/types/discounts';
 
-@Injectable({
-  providedIn: 'root'
-})
-export class OfflineSyncService {
+// Replay order: later kinds may reference ids created by earlier ones
+// (invoice -> sales order, collection allocation -> invoice).
+const KIND_ORDER: OutboxRecordKind[] = ['sales_order', 'invoice', 'collection', 'non_productive_visit', 'route_point'];
+
+const SYNCED_RETENTION_MS = 3 * 24 * 60 * 60 * 1000;
+const AUTO_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+// Invoice numbers kept on the device for offline invoicing; topped up while online.
+const INVOICE_NUMBER_BLOCK_SIZE = 20;
+const INVOICE_NUMBER_BLOCK_MIN = 5;
+// The server gives numbers left unused for two days to invoices saved online, so the device lets
+// them go a day earlier
+const INVOICE_NUMBER_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const invoiceNumberBlockKey = (agencyId: string) => `invoice_number_block_${agencyId}`;
+
+type QueuedItem = OfflineSalesOrderPayload['items'][number];
+
+interface ReservedInvoiceNumber {
+  invoiceNumber: string;
+  reservedAt: number;
+}
+
+interface OutboxStore {
+  getAll(): Promise<OutboxRecord[]>;
+  put(record: OutboxRecord): Promise<void>;
+  remove(clientId: string): Promise<void>;
+}
+
+class SqliteOutboxStore implements OutboxStore {
   private db: SQLiteDBConnection | null = null;
-  private syncInProgress = new BehaviorSubject<boolean>(false);
-  private lastSyncTime = new BehaviorSubject<Date | null>(null);
+  private opening: Promise<SQLiteDBConnection> | null = null;
+
+  private async getDb(): Promise<SQLiteDBConnection> {
+    if (this.db) return this.db;
+    if (!this.opening) {
+      this.opening = (async () => {
+        const sqlite = new SQLiteConnection(CapacitorSQLite);
+        const db = await sqlite.createConnection('apparel_flow_outbox', false, 'no-encryption', 1, false);
+        await db.open();
+        await db.execute(`CREATE TABLE IF NOT EXISTS outbox (
+          client_id TEXT PRIMARY KEY NOT NULL,
+          kind TEXT NOT NULL,
+          record TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        )`);
+        this.db = db;
+        return db;
+      })();
+    }
+    return this.opening;
+  }
 
-  constructor() {
-    this.initializeDatabase();
+  async getAll(): Promise<OutboxRecord[]> {
+    const db = await this.getDb();
+    const result = await db.query('SELECT record FROM outbox ORDER BY created_at');
+    return (result.values || []).map((row: { record: string }) => JSON.parse(row.record) as OutboxRecord);
   }
 
-  private async initializeDatabase() {
-    const sqlite = new SQLiteConnection(CapacitorSQLite);
-    this.db = await sqlite.createConnection(
-      'apparel_flow_db',
-      false,
-      'no-encryption',
-      1,
-      false
+  async put(record: OutboxRecord): Promise<void> {
+    const db = await this.getDb();
+    await db.run(
+      'INSERT OR REPLACE INTO outbox (client_id, kind, record, created_at) VALUES (?, ?, ?, ?)',
+      [record.clientId, record.kind, JSON.stringify(record), record.createdAt]
     );
+  }
 
-    await this.db.open();
-    await this.createTables();
+  async remove(clientId: string): Promise<void> {
+    const db = await this.getDb();
+    await db.run('DELETE FROM outbox WHERE client_id = ?', [clientId]);
   }
+}
 
-  private async createTables() {
-    const queries = [
-      `CREATE TABLE IF NOT EXISTS customers (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT,
-        phone TEXT,
-        address TEXT,
-        sync_status TEXT DEFAULT 'pending'
-      )`,
-      `CREATE TABLE IF NOT EXISTS orders (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        customer_id INTEGER,
-        order_date TEXT,
-        total_amount REAL,
-        sync_status TEXT DEFAULT 'pending',
-        FOREIGN KEY (customer_id) REFERENCES customers (id)
-      )`,
-      `CREATE TABLE IF NOT EXISTS order_items (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        order_id INTEGER,
-        product_id INTEGER,
-        quantity INTEGER,
-        price REAL,
-        sync_status TEXT DEFAULT 'pending',
-        FOREIGN KEY (order_id) REFERENCES orders (id)
-      )`
-    ];
+class IndexedDbOutboxStore implements OutboxStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
 
-    for (const query of queries) {
-      await this.db?.execute(query);
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open('apparel_flow_outbox', 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore('outbox', { keyPath: 'clientId' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
     }
+    return this.dbPromise;
   }
 
-  // Save customer offline
-  async saveCustomerOffline(customer: any) {
-    const query = `INSERT INTO customers (name, phone, address) VALUES (?, ?, ?)`;
-    await this.db?.run(query, [customer.name, customer.phone, customer.address]);
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.getDb();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction('outbox', mode).objectStore('outbox'));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
   }
 
-  // Save order offline
-  async saveOrderOffline(order: any) {
-    const query = `INSERT INTO orders (customer_id, order_date, total_amount) VALUES (?, ?, ?)`;
-    const result = await this.db?.run(query, [order.customer_id, order.order_date, order.total_amount]);
-    return result?.lastId;
+  async getAll(): Promise<OutboxRecord[]> {
+    const records = await this.request<OutboxRecord[]>('readonly', (store) => store.getAll());
+    return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
   }
 
-  // Save order items offline
-  async saveOrderItemsOffline(orderItems: any[]) {
-    for (const item of orderItems) {
-      const query = `INSERT INTO order_items (order_id, product_id, quantity, price) VALUES (?, ?, ?, ?)`;
-      await this.db?.run(query, [item.order_id, item.product_id, item.quantity, item.price]);
+  async put(record: OutboxRecord): Promise<void> {
+    await this.request('readwrite', (store) => store.put(record));
+  }
+
+  async remove(clientId: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(clientId));
+  }
+}
+
+const isUniqueViolation = (error: unknown) =>
+  Boolean(error && typeof error === 'object' && (error as { code?: string }).code === '23505');
+
+const describeError = (error: unknown) => {
+  if (!error) return 'Unknown error';
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'object' && 'message' in error) return String((error as { message: unknown }).message);
+  return String(error);
+};
+
+export class OfflineSyncService {
+  private store: OutboxStore = Capacitor.isNativePlatform() ? new SqliteOutboxStore() : new IndexedDbOutboxStore();
+  private records: OutboxRecord[] = [];
+  private loaded: Promise<void> | null = null;
+  private listeners = new Set<(records: OutboxRecord[]) => void>();
+  private syncing = false;
+  private autoSyncTimer: ReturnType<typeof setInterval> | null = null;
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.getAll()
+        .then(async (records) => {
+          const cutoff = Date.now() - SYNCED_RETENTION_MS;
+          // A synced record stays while an unsynced one still needs its server id
+          const needed = new Set(records.filter((r) => r.status !== 'synced').flatMap((r) => r.dependsOn));
+          const expired = records.filter((r) =>
+            r.status === 'synced' && new Date(r.updatedAt).getTime() < cutoff && !needed.has(r.clientId)
+          );
+          await Promise.all(expired.map((r) => this.store.remove(r.clientId)));
+          // A record left in 'syncing' means the app closed mid-replay; retry it.
+          this.records = records
+            .filter((r) => !expired.includes(r))
+            .map((r) => (r.status === 'syncing' ? { ...r, status: 'pending' } : r));
+          this.emit();
+        })
+        .catch((error) => {
+          console.error('[Outbox] Failed to open local store:', error);
+          this.records = [];
+        });
     }
+    return this.loaded;
   }
 
-  // Sync data with server
-  async syncData() {
-    if (this.syncInProgress.value) return;
+  private emit() {
+    const snapshot = [...this.records];
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
 
+  private async save(record: OutboxRecord) {
+    const index = this.records.findIndex((r) => r.clientId === record.clientId);
+    if (index >= 0) this.records[index] = record;
+    else this.records.push(record);
+    await this.store.put(record);
+    this.emit();
+  }
+
+  private async update(clientId: string, changes: Partial<OutboxRecord>) {
+    const current = this.records.find((r) => r.clientId === clientId);
+    if (!current) return;
+    await this.save({ ...current, ...changes, updatedAt: new Date().toISOString() });
+  }
+
+  subscribe(listener: (records: OutboxRecord[]) => void): () => void {
+    this.listeners.add(listener);
+    this.load().then(() => listener([...this.records]));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  isSyncing() {
+    return this.syncing;
+  }
+
+  newClientId(): string {
+    return crypto.randomUUID();
+  }
+
+  /**
+   * True when a write should go to the outbox instead of Supabase.
+   * Callers also fall back to the outbox when an online write fails with a network error.
+   */
+  isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+  }
+
+  isNetworkError(error: unknown): boolean {
+    const message = describeError(error).toLowerCase();
+    return message.includes('failed to fetch') || message.includes('network') || message.includes('load failed');
+  }
+
+  async enqueue<K extends OutboxRecordKind>(
+    kind: K,
+    payload: OutboxPayloadByKind[K],
+    options: { clientId?: string; label: string; dependsOn?: string[] }
+  ): Promise<OutboxRecord<K>> {
+    await this.load();
+    const now = new Date().toISOString();
+    const record: OutboxRecord<K> = {
+      clientId: options.clientId || this.newClientId(),
+      kind,
+      payload,
+      label: options.label,
+      // Ids that are not outbox records are server ids already
+      dependsOn: (options.dependsOn || []).filter((id) => this.records.some((r) => r.clientId === id)),
+      status: 'pending',
+      serverId: null,
+      error: null,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.save(record);
+    return record;
+  }
+
+  getReservedInvoiceNumbers(agencyId: string): ReservedInvoiceNumber[] {
     try {
-      this.syncInProgress.next(true);
-
-      // Check if current time is within sync window (7:30 AM to 5:30 PM)
-      const now = new Date();
-      const currentHour = now.getHours();
-      const currentMinute = now.getMinutes();
-      
-      const startTime = 7 * 60 + 30; // 7:30 AM in minutes
-      const endTime = 17 * 60 + 30;  // 5:30 PM in minutes
-      const currentTimeInMinutes = currentHour * 60 + currentMinute;
-
-      if (currentTimeInMinutes < startTime || currentTimeInMinutes > endTime) {
-        console.log('Outside sync window');
-        return;
-      }
+      return JSON.parse(localStorage.getItem(invoiceNumberBlockKey(agencyId)) || '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  // Numbers held too long may be handed to other invoices by the server, so they are dropped
+  private getFreshReservedInvoiceNumbers(agencyId: string): ReservedInvoiceNumber[] {
+    return this.getReservedInvoiceNumbers(agencyId)
+      .filter((entry) => Date.now() - entry.reservedAt < INVOICE_NUMBER_MAX_AGE_MS);
+  }
+
+  // Removes and returns the next reserved number, or null when none is left that is still fresh;
+  // the invoice is then numbered when it syncs.
+  takeReservedInvoiceNumber(agencyId: string): string | null {
+    const [next, ...rest] = this.getFreshReservedInvoiceNumbers(agencyId);
+    if (!next) {
+      localStorage.setItem(invoiceNumberBlockKey(agencyId), '[]');
+      return null;
+    }
+    localStorage.setItem(invoiceNumberBlockKey(agencyId), JSON.stringify(rest));
+    return next.invoiceNumber;
+  }
 
-      // Get all pending records
-      const pendingCustomers = await this.db?.query('SELECT * FROM customers WHERE sync_status = ?', ['pending']);
-      const pendingOrders = await this.db?.query('SELECT * FROM orders WHERE sync_status = ?', ['pending']);
-      const pendingOrderItems = await this.db?.query('SELECT * FROM order_items WHERE sync_status = ?', ['pending']);
+  async ensureInvoiceNumberBlock(agencyId: string) {
+    if (!agencyId || this.isOffline()) return;
+    const reserved = this.getFreshReservedInvoiceNumbers(agencyId);
+    localStorage.setItem(invoiceNumberBlockKey(agencyId), JSON.stringify(reserved));
+    if (reserved.length >= INVOICE_NUMBER_BLOCK_MIN) return;
 
-      // TODO: Implement your API calls here to sync with server
-      // After successful sync, update sync_status to 'synced'
-      
-      this.lastSyncTime.next(new Date());
+    try {
+      const numbers = await reserveInvoiceNumbers(supabase, agencyId, INVOICE_NUMBER_BLOCK_SIZE - reserved.length);
+      const reservedAt = Date.now();
+      localStorage.setItem(invoiceNumberBlockKey(agencyId), JSON.stringify([
+        ...reserved,
+        ...numbers.map((invoiceNumber) => ({ invoiceNumber, reservedAt })),
+      ]));
     } catch (error) {
-      console.error('Sync failed:', error);
+      console.error('[Outbox] Failed to reserve invoice numbers:', error);
+    }
+  }
+
+  async discard(clientId: string) {
+    await this.load();
+    this.records = this.records.filter((r) => r.clientId !== clientId);
+    await this.store.remove(clientId);
+    this.emit();
+  }
+
+  async retry(clientId: string) {
+    await this.update(clientId, { status: 'pending', error: null });
+    return this.syncPending();
+  }
+
+  /**
+   * Replays pending records to Supabase in dependency order.
+   * A record whose dependency has not synced yet stays pending for the next run.
+   */
+  async syncPending(): Promise<OutboxSyncResult> {
+    await this.load();
+    const result: OutboxSyncResult = { synced: 0, failed: 0, waiting: 0 };
+    if (this.syncing || this.isOffline()) return result;
+
+    this.syncing = true;
+    this.emit();
+    try {
+      const queue = this.records
+        .filter((r) => r.status === 'pending' || r.status === 'failed')
+        .sort((a, b) =>
+          KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || a.createdAt.localeCompare(b.createdAt)
+        );
+
+      for (const record of queue) {
+        if (record.dependsOn.some((id) => !this.records.some((r) => r.clientId === id))) {
+          result.failed++;
+          await this.update(record.clientId, {
+            status: 'failed',
+            error: 'A linked record was discarded from this device before it synced',
+          });
+          continue;
+        }
+
+        const unresolved = record.dependsOn.filter((id) => !this.resolveDependency(id));
+        if (unresolved.length > 0) {
+          result.waiting++;
+          await this.update(record.clientId, { status: 'pending', error: 'Waiting for a linked record to sync' });
+          continue;
+        }
+
+        await this.update(record.clientId, { status: 'syncing', attempts: record.attempts + 1 });
+        try {
+          const serverId = await this.replay(record);
+          await this.update(record.clientId, { status: 'synced', serverId, error: null });
+          result.synced++;
+        } catch (error) {
+          console.error(`[Outbox] Failed to sync ${record.kind} ${record.clientId}:`, error);
+          await this.update(record.clientId, { status: 'failed', error: describeError(error) });
+          result.failed++;
+          if (this.isNetworkError(error)) break;
+        }
+      }
     } finally {
-      this.syncInProgress.next(false);
+      this.syncing = false;
+      this.emit();
     }
+    return result;
+  }
+
+  startAutoSync() {
+    if (this.autoSyncTimer) return;
+    window.addEventListener('online', () => this.syncPending());
+    this.autoSyncTimer = setInterval(() => this.syncPending(), AUTO_SYNC_INTERVAL_MS);
+    this.syncPending();
   }
 
-  // Start periodic sync
-  startPeriodicSync() {
-    // Sync every 3 hours
-    setInterval(() => this.syncData(), 3 * 60 * 60 * 1000);
+  // Returns the server id for an outbox client id, or null while it is unsynced or no longer on the device.
+  private resolveDependency(clientId: string): string | null {
+    const record = this.records.find((r) => r.clientId === clientId);
+    return record?.status === 'synced' ? record.serverId || null : null;
   }
-} 
\ No newline at end of file
+
+  // Swaps an outbox client id for its server id; ids that are not outbox records are server ids already.
+  // Records are only replayed once every dependency resolves, so a client id is never passed through.
+  private resolveId(id: string | null | undefined): string | null {
+    if (!id) return null;
+    if (!this.records.some((r) => r.clientId === id)) return id;
+    return this.resolveDependency(id);
+  }
+
+  private async replay(record: OutboxRecord): Promise<string> {
+    switch (record.kind) {
+      case 'sales_order':
+        return this.replaySalesOrder(record.clientId, record.payload as OfflineSalesOrderPayload);
+      case 'invoice':
+        return this.replayInvoice(record.clientId, record.payload as OfflineInvoicePayload);
+      case 'collection':
+        return this.replayCollection(record.clientId, record.payload as OfflineCollectionPayload);
+      case 'non_productive_visit':
+        return this.insertOnce('non_productive_visits', record.clientId, record.payload as OutboxPayloadByKind['non_productive_visit']);
+      case 'route_point':
+        return this.insertOnce('time_tracking_route_points', record.clientId, record.payload as OutboxPayloadByKind['route_point']);
+      default:
+        throw new Error(`Unknown outbox record kind: ${record.kind}`);
+    }
+  }
+
+  // Inserts a row tagged with client_id; if a previous replay already created it, reuse that row.
+  private async insertOnce(
+    table: 'sales_orders' | 'invoices' | 'collections' | 'non_productive_visits' | 'time_tracking_route_points',
+    clientId: string,
+    row: Record<string, unknown>
+  ): Promise<string> {
+    const existing = await this.findByClientId(table, clientId);
+    if (existing) return existing;
+
+    const { data, error } = await supabase
+      .from(table)
+      .insert({ ...row, client_id: clientId } as never)
+      .select('id')
+      .single();
+
+    if (error) {
+      if (isUniqueViolation(error)) {
+        const duplicate = await this.findByClientId(table, clientId);
+        if (duplicate) return duplicate;
+      }
+      throw error;
+    }
+    return (data as { id: string }).id;
+  }
+
+  private async findByClientId(table: string, clientId: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from(table as 'invoices')
+      .select('id')
+      .eq('client_id', clientId)
+      .maybeSingle();
+    if (error) throw error;
+    return data?.id || null;
+  }
+
+  private async hasChildRows(table: 'sales_order_items' | 'invoice_items' | 'collection_cheques', column: string, parentId: string) {
+    const { count, error } = await supabase
+      .from(table)
+      .select('id', { count: 'exact', head: true })
+      .eq(column as 'id', parentId);
+    if (error) throw error;
+    return (count || 0) > 0;
+  }
+
+  // Credit limits could not be checked while offline, so a breaching order is sent to approval on sync
+  private async applyCreditCheck(order: OfflineSalesOrderPayload['order']): Promise<OfflineSalesOrderPayload['order']> {
+    const customerId = this.resolveId(order.customer_id);
+    if (order.status !== 'approved' || !customerId) return order;
+
+    try {
+      const { breaches } = await getCustomerCreditStatus(customerId, order.agency_id, Number(order.total) || 0);
+      if (breaches.length === 0) return order;
+      return {
+        ...order,
+        status: 'pending',
+        requires_approval: true,
+        approval_reasons: [...(order.approval_reasons || []), ...breaches],
+      };
+    } catch (error) {
+      console.warn('[Outbox] Credit check failed for queued order', error);
+      return order;
+    }
+  }
+
+  // Rules a queued document used may have run out while it waited, so it is priced again without them
+  // and the lines saved match the rules that were counted
+  private async claimQueuedRules(
+    documentId: string,
+    documentType: 'sales_order' | 'invoice',
+    items: QueuedItem[],
+    applications: AppliedPricingRule[] | undefined,
+    context: PricingContext
+  ): Promise<QueuedItem[]> {
+    if (!applications?.length) return items;
+
+    const toLine = (item: QueuedItem, index: number): PricedCartLine => ({
+      key: `${index}`,
+      productId: item.product_id || '',
+      productName: item.product_name,
+      color: item.color,
+      size: item.size,
+      quantity: item.quantity || 0,
+      unitPrice: Number(item.unit_price),
+      discountAmount: roundMoney(Number(item.unit_price) * (item.quantity || 0) - Number(item.total)),
+      total: Number(item.total),
+      appliedRuleId: item.applied_rule_id || undefined,
+    });
+    const lines = items.map(toLine);
+    const queued: PricingResult = {
+      lines: lines.filter((line) => !line.appliedRuleId),
+      promotionLines: lines.filter((line) => line.appliedRuleId),
+      applications,
+      totalSavings: roundMoney(applications.reduce((sum, application) => sum + application.appliedAmount, 0)),
+    };
+    const cart = queued.lines.map(({ key, productId, productName, color, size, quantity, unitPrice }) => ({
+      key, productId, productName, color, size, quantity, unitPrice,
+    }));
+
+    const saved = await claimPricingRules(documentId, documentType, cart, queued, {
+      ...context,
+      // A free product that is not in the cart is only known from the promotion line it was added as
+      resolveProduct: (productId) => queued.promotionLines.find((line) => line.productId === productId) ?? null,
+    });
+    if (saved === queued) return items;
+
+    return [...saved.lines, ...saved.promotionLines].map((line) => ({
+      product_id: line.productId,
+      product_name: line.productName,
+      color: line.color,
+      size: line.size,
+      quantity: line.quantity,
+      unit_price: line.unitPrice,
+      total: line.total,
+      applied_rule_id: line.appliedRuleId ?? null,
+    }));
+  }
+
+  // A direct invoice made offline was handed over already, so a breach found on sync is recorded on
+  // the invoice for a superuser to review instead of blocking it
+  private async findCreditBreaches(invoice: OfflineInvoicePayload['invoice']): Promise<string[] | null> {
+    const customerId = this.resolveId(invoice.customer_id);
+    if (!customerId) return null;
+
+    try {
+      const { breaches } = await getCustomerCreditStatus(customerId, invoice.agency_id, Number(invoice.total) || 0);
+      return breaches.length > 0 ? breaches : null;
+    } catch (error) {
+      console.warn('[Outbox] Credit check failed for queued invoice', error);
+      return null;
+    }
+  }
+
+  private async replaySalesOrder(clientId: string, payload: OfflineSalesOrderPayload): Promise<string> {
+    let orderId = await this.findByClientId('sales_orders', clientId);
+    const order = orderId ? payload.order : await this.applyCreditCheck(payload.order);
+
+    for (let attempt = 0; !orderId && attempt < 3; attempt++) {
+      try {
+        orderId = await this.insertOnce('sales_orders', clientId, {
+          ...order,
+          order_number: await getNextSalesOrderNumber(payload.order.agency_id),
+          customer_id: this.resolveId(payload.order.customer_id),
+        });
+      } catch (error) {
+        if (!isDuplicateOrderNumberError(error) || attempt === 2) throw error;
+      }
+    }
+
+    if (!(await this.hasChildRows('sales_order_items', 'sales_order_id', orderId))) {
+      const items = await this.claimQueuedRules(orderId, 'sales_order', payload.items, payload.ruleApplications, {
+        customerId: this.resolveId(payload.order.customer_id) || undefined,
+        agentId: payload.order.created_by || undefined,
+      });
+      let total = Number(payload.order.total) || 0;
+
+      if (items !== payload.items) {
+        const subtotal = roundMoney(items.reduce((sum, item) => sum + Number(item.total), 0));
+        const discountAmount = roundMoney(subtotal * (Number(payload.order.discount_percentage) || 0) / 100);
+        total = roundMoney(subtotal - discountAmount);
+        const { error: totalsError } = await supabase
+          .from('sales_orders')
+          .update({ subtotal, discount_amount: discountAmount, total })
+          .eq('id', orderId);
+        if (totalsError) throw totalsError;
+      }
+
+      const { error } = await supabase
+        .from('sales_order_items')
+        .insert(items.map((item) => ({ ...item, sales_order_id: orderId })));
+      if (error) throw error;
+
+      if (order.status === 'approved') {
+        const { error: inventoryError } = await supabase.functions.invoke('insert-inventory-transactions', {
+          body: {
+            transactions: items.map((item) => ({
+              product_id: item.product_id,
+              product_name: item.product_name,
+              color: item.color,
+              size: item.size,
+              transaction_type: 'invoice_creation',
+              quantity: -item.quantity,
+              reference_id: orderId,
+              reference_name: `Sales Order ${orderId}`,
+              user_id: payload.order.created_by,
+              agency_id: payload.order.agency_id,
+              notes: `Stock reduced for sales order ${orderId}`,
+            })),
+          },
+        });
+        if (inventoryError) console.error('[Outbox] Inventory transactions failed for order', orderId, inventoryError);
+      }
+
+      sendSMS(
+        payload.customerPhone,
+        SmsTemplates.salesOrderCreated(payload.order.customer_name, total),
+        { customerId: this.resolveId(payload.order.customer_id), related: { type: 'sales_order', id: orderId } }
+      );
+    }
+
+    return orderId;
+  }
+
+  private async replayInvoice(clientId: string, payload: OfflineInvoicePayload): Promise<string> {
+    let invoiceId = await this.findByClientId('invoices', clientId);
+
+    // Without a reserved number the database numbers the invoice as part of the insert
+    if (!invoiceId) {
+      invoiceId = await this.insertOnce('invoices', clientId, {
+        ...payload.invoice,
+        invoice_number: payload.reservedInvoiceNumber || null,
+        credit_breach_reasons: await this.findCreditBreaches(payload.invoice),
+        customer_id: this.resolveId(payload.invoice.customer_id),
+        sales_order_id: this.resolveId(payload.invoice.sales_order_id),
+      });
+    }
+
+    if (await this.hasChildRows('invoice_items', 'invoice_id', invoiceId)) {
+      return invoiceId;
+    }
+
+    const items = await this.claimQueuedRules(invoiceId, 'invoice', payload.items, payload.ruleApplications, {
+      customerId: this.resolveId(payload.invoice.customer_id) || undefined,
+      agentId: payload.invoice.created_by || undefined,
+    });
+    let subtotal = Number(payload.invoice.subtotal) || 0;
+    let discountAmount = Number(payload.invoice.discount_amount) || 0;
+    let total = Number(payload.invoice.total) || 0;
+
+    if (items !== payload.items) {
+      subtotal = roundMoney(items.reduce((sum, item) => sum + Number(item.total), 0));
+      discountAmount = Math.min(discountAmount, subtotal);
+      total = roundMoney(subtotal - discountAmount);
+      const { error: totalsError } = await supabase
+        .from('invoices')
+        .update({ subtotal, discount_amount: discountAmount, total })
+        .eq('id', invoiceId);
+      if (totalsError) throw totalsError;
+    }
+
+    const { error } = await supabase
+      .from('invoice_items')
+      .insert(items.map((item) => ({ ...item, invoice_id: invoiceId })));
+    if (error) throw error;
+
+    try {
+      let userName = payload.userName;
+      if (!userName && payload.invoice.created_by) {
+        const { data: profileData } = await supabase
+          .from('profiles')
+          .select('name')
+          .eq('id', payload.invoice.created_by)
+          .maybeSingle();
+        userName = profileData?.name;
+      }
+
+      for (const item of items) {
+        await externalInventoryService.addSaleTransaction(
+          payload.invoice.agency_id,
+          userName || 'Unknown User',
+          item.product_name,
+          item.color || 'Default',
+          item.size || 'Default',
+          item.quantity,
+          payload.invoice.customer_name,
+          invoiceId,
+          item.unit_price
+        );
+      }
+    } catch (inventoryError) {
+      console.error('[Outbox] Invoice synced but stock was not reduced:', invoiceId, inventoryError);
+    }
+
+    // A reserved number given to another invoice while this one waited was replaced on insert
+    const { data: numbered } = await supabase
+      .from('invoices')
+      .select('invoice_number')
+      .eq('id', invoiceId)
+      .maybeSingle();
+    const number = numbered?.invoice_number || payload.reservedInvoiceNumber || invoiceId;
+    generateAndUploadInvoicePdf({
+      invoiceId,
+      invoiceNumber: number,
+      customerName: payload.invoice.customer_name,
+      agencyName: payload.agencyName ?? '',
+      date: new Date(payload.invoice.created_at || Date.now()).toLocaleDateString('en-LK', { timeZone: 'Asia/Colombo' }),
+      items: items.map((item) => ({
+        productName: item.product_name,
+        color: item.color,
+        size: item.size,
+        quantity: item.quantity,
+        unitPrice: item.unit_price,
+        total: item.total,
+      })),
+      subtotal,
+      discountAmount,
+      total,
+      gpsLat: payload.invoice.latitude ?? undefined,
+      gpsLng: payload.invoice.longitude ?? undefined,
+    }).then((pdfUrl) => {
+      sendSMS(
+        payload.customerPhone,
+        SmsTemplates.invoiceCreated(payload.invoice.customer_name, number, total, pdfUrl ?? undefined),
+        { customerId: this.resolveId(payload.invoice.customer_id), related: { type: 'invoice', id: invoiceId } }
+      );
+    });
+
+    return invoiceId;
+  }
+
+  private async replayCollection(clientId: string, payload: OfflineCollectionPayload): Promise<string> {
+    const collectionId = await this.insertOnce('collections', clientId, {
+      ...payload.collection,
+      customer_id: this.resolveId(payload.collection.customer_id),
+    });
+
+    // Saved cheques mean an earlier replay got this far: skip them and the SMS. Allocating again only
+    // allocates what is still unapplied, so it is safe to retry.
+    const replayedBefore = await this.hasChildRows('collection_cheques', 'collection_id', collectionId);
+
+    if (!replayedBefore && payload.cheques.length > 0) {
+      const { error } = await supabase
+        .from('collection_cheques')
+        .insert(payload.cheques.map((cheque) => ({ ...cheque, collection_id: collectionId })));
+      if (error) throw error;
+    }
+
+    await allocateCollection(
+      collectionId,
+      payload.allocationStrategy || 'specific',
+      payload.allocations.map((allocation) => ({ ...allocation, invoiceId: this.resolveId(allocation.invoiceId) }))
+    );
+
+    if (replayedBefore) {
+      return collectionId;
+    }
+
+    sendSMS(
+      payload.customerPhone,
+      SmsTemplates.collectionRecorded(
+        payload.collection.customer_name,
+        Number(payload.collection.cash_amount) || 0,
+        payload.cheques.map((cheque) => ({ chequeNumber: cheque.cheque_number, amount: Number(cheque.amount) || 0 }))
+      ),
+      { customerId: this.resolveId(payload.collection.customer_id), related: { type: 'collection', id: collectionId } }
+    );
+
+    return collectionId;
+  }
+}
+
+export const offlineSyncService = new OfflineSyncService();
@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import { buildProductMappingKey, linkCreatedProductMappings, matchExternalProducts } from '@/utils/productMappings';
 
 export class ProductAutoMatcherService {
   
@@ -29,22 +30,46 @@ export class ProductAutoMatcherService {
       // Group unmatched items by base product name
       const productGroups = this.groupByBaseProduct(unmatchedItems);
 
-      for (const [baseProductName, items] of productGroups.entries()) {
+      // Ask the mapping table first; guesses it makes are queued for review and only confirmed ones are linked
+      const matches = await matchExternalProducts('external_inventory', [...productGroups.values()].flat().map(item => ({
+        externalKey: buildProductMappingKey(item.product_name),
+        name: item.product_name,
+        code: item.product_code || this.extractProductCode(item.product_name) || undefined
+      })));
+
+      for (const [baseProductName, groupItems] of productGroups.entries()) {
         try {
-          // Try to find existing master product
-          let masterProduct = await this.findMasterProduct(baseProductName, agencyId);
-
-          // If no master product exists, create one
-          if (!masterProduct) {
-            masterProduct = await this.createMasterProduct(baseProductName, items[0], agencyId);
-            if (masterProduct) {
-              createdCount++;
-            } else {
-              failedCount += items.length;
-              continue;
+          // Items with a confirmed mapping are linked to its product
+          const items: typeof groupItems = [];
+          const mappingIds = new Set<string>();
+          for (const item of groupItems) {
+            const match = matches.get(buildProductMappingKey(item.product_name));
+            if (match?.status === 'confirmed' && match.productId) {
+              if (await this.linkToMasterProduct(item.id, match.productId)) {
+                matchedCount++;
+              } else {
+                failedCount++;
+              }
+            } else if (match && match.status === 'suggested' && !match.productId) {
+              items.push(item);
+              mappingIds.add(match.mappingId);
             }
+            // Suggested candidates and rejected guesses wait for review
+          }
+
+          if (items.length === 0) continue;
+
+          // Items nothing was found for share a new master product, saved on their suggestions for review so it is reused
+          const masterProduct = await this.createMasterProduct(baseProductName, items[0], agencyId);
+          if (masterProduct) {
+            createdCount++;
+          } else {
+            failedCount += items.length;
+            continue;
           }
 
+          await linkCreatedProductMappings([...mappingIds], masterProduct.id);
+
           // Link all variants of this product to the master product
           for (const item of items) {
             const success = await this.linkToMasterProduct(item.id, masterProduct.id);
@@ -56,7 +81,7 @@ export class ProductAutoMatcherService {
           }
         } catch (error) {
           console.error(`Error processing product group ${baseProductName}:`, error);
-          failedCount += items.length;
+          failedCount += groupItems.length;
         }
       }
 
@@ -96,35 +121,6 @@ export class ProductAutoMatcherService {
     return baseName.trim();
   }
 
-  // Find existing master product
-  private async findMasterProduct(baseProductName: string, agencyId: string): Promise<any | null> {
-    // Try exact match first
-    let { data, error } = await supabase
-      .from('products')
-      .select('id, name, category, sub_category')
-      .eq('agency_id', agencyId)
-      .ilike('name', baseProductName)
-      .limit(1);
-
-    if (!error && data && data.length > 0) {
-      return data[0];
-    }
-
-    // Try fuzzy match
-    ({ data, error } = await supabase
-      .from('products')
-      .select('id, name, category, sub_category')
-      .eq('agency_id', agencyId)
-      .ilike('name', `%${baseProductName}%`)
-      .limit(1));
-
-    if (!error && data && data.length > 0) {
-      return data[0];
-    }
-
-    return null;
-  }
-
   // Create a new master product
   private async createMasterProduct(baseProductName: string, sampleItem: any, agencyId: string): Promise<any | null> {
     try {
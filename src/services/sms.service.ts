@@ -1,10 +1,54 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { SmsLanguage, SmsMessage, SmsRelatedType } from '@/types/sms';
+import { renderSmsMessage } from '@/utils/smsTemplates';
 
-export async function sendSMS(phone: string | undefined | null, message: string): Promise<void> {
+export interface SmsRecipientContext {
+  // When set, the customer's opt-out flag and language are honoured
+  customerId?: string | null;
+  // Picks the agency's template override; defaults to the customer's agency
+  agencyId?: string | null;
+  // Record the message is about, shown in the SMS log
+  related?: { type: SmsRelatedType; id: string | null | undefined };
+}
+
+// Sends through the send-sms function, which logs the message and retries failed deliveries
+export async function sendSMS(
+  phone: string | undefined | null,
+  message: SmsMessage | string,
+  context: SmsRecipientContext = {},
+): Promise<void> {
   if (!phone) return;
   try {
+    let language: SmsLanguage = 'en';
+    let agencyId = context.agencyId ?? null;
+
+    if (context.customerId) {
+      const { data: customer, error: customerError } = await supabase
+        .from('customers')
+        .select('agency_id, preferred_language, sms_opt_out')
+        .eq('id', context.customerId)
+        .maybeSingle();
+      if (customerError) console.warn('[SMS] Could not load customer preferences:', customerError);
+      if (customer?.sms_opt_out) {
+        console.log('[SMS] Customer has opted out of SMS, skipping');
+        return;
+      }
+      language = (customer?.preferred_language as SmsLanguage | undefined) ?? 'en';
+      agencyId = agencyId ?? customer?.agency_id ?? null;
+    }
+
+    const text = typeof message === 'string' ? message : await renderSmsMessage(message, language, agencyId);
     const { error } = await supabase.functions.invoke('send-sms', {
-      body: { to: phone, message },
+      body: {
+        to: phone,
+        message: text,
+        templateKey: typeof message === 'string' ? null : message.templateKey,
+        language: typeof message === 'string' ? null : language,
+        customerId: context.customerId ?? null,
+        agencyId,
+        relatedType: context.related?.id ? context.related.type : null,
+        relatedId: context.related?.id ?? null,
+      },
     });
     if (error) console.error('[SMS] Failed to send:', error);
   } catch (err) {
@@ -13,26 +57,56 @@ export async function sendSMS(phone: string | undefined | null, message: string)
 }
 
 export const SmsTemplates = {
-  customerWelcome: (name: string) =>
-    `Dear ${name}, welcome to DAG Clothing Pvt Ltd! We are delighted to have you as our valued customer. We look forward to serving you with the finest apparel. Thank you for choosing DAG Clothing!`,
+  customerWelcome: (name: string): SmsMessage => ({
+    templateKey: 'customer_welcome',
+    variables: { customer_name: name },
+  }),
 
-  salesOrderCreated: (name: string, total: number, pdfUrl?: string) =>
-    `Dear ${name}, thank you for placing your order with DAG Clothing Pvt Ltd! Your sales order of LKR ${total.toLocaleString()} has been successfully received and is being processed.${pdfUrl ? ` View your order here: ${pdfUrl}` : ''} We truly appreciate your trust in us. Thank you for choosing DAG Clothing!`,
+  salesOrderCreated: (name: string, total: number, pdfUrl?: string): SmsMessage => ({
+    templateKey: 'sales_order_created',
+    variables: { customer_name: name, total, pdf_url: pdfUrl },
+  }),
 
-  invoiceCreated: (name: string, invoiceNumber: string, total: number, pdfUrl?: string) =>
-    `Dear ${name}, your invoice #${invoiceNumber} of LKR ${total.toLocaleString()} has been generated by DAG Clothing Pvt Ltd.${pdfUrl ? ` You may view and download your invoice here: ${pdfUrl}` : ''} We are grateful for your continued support. Thank you for choosing DAG Clothing!`,
+  invoiceCreated: (name: string, invoiceNumber: string, total: number, pdfUrl?: string): SmsMessage => ({
+    templateKey: 'invoice_created',
+    variables: { customer_name: name, invoice_number: invoiceNumber, total, pdf_url: pdfUrl },
+  }),
 
-  purchaseOrderCreated: (agencyName: string, orderId: string, total: number, pdfUrl?: string) =>
-    `Dear Team, a new Purchase Order has been submitted by ${agencyName}. Order ID: ${orderId}, Total: LKR ${total.toLocaleString()}.${pdfUrl ? ` View PDF: ${pdfUrl}` : ''} Please review and process at your earliest convenience. - DAG Clothing Pvt Ltd`,
+  purchaseOrderCreated: (agencyName: string, orderId: string, total: number, pdfUrl?: string): SmsMessage => ({
+    templateKey: 'purchase_order_created',
+    variables: { agency_name: agencyName, order_number: orderId, total, pdf_url: pdfUrl },
+  }),
 
-  purchaseOrderUpdated: (agencyName: string, orderId: string, total: number, pdfUrl?: string) =>
-    `Dear Team, please note that Purchase Order ${orderId} from ${agencyName} has been revised. Updated Total: LKR ${total.toLocaleString()}.${pdfUrl ? ` View updated PDF: ${pdfUrl}` : ''} Kindly review the changes. - DAG Clothing Pvt Ltd`,
+  purchaseOrderUpdated: (agencyName: string, orderId: string, total: number, pdfUrl?: string): SmsMessage => ({
+    templateKey: 'purchase_order_updated',
+    variables: { agency_name: agencyName, order_number: orderId, total, pdf_url: pdfUrl },
+  }),
+
+  purchaseOrderApproved: (agencyName: string, orderId: string, total: number, notes?: string): SmsMessage => ({
+    templateKey: 'purchase_order_approved',
+    variables: { agency_name: agencyName, order_number: orderId, total, notes },
+  }),
+
+  purchaseOrderShipped: (agencyName: string, orderId: string, quantity: number, invoiceReference: string): SmsMessage => ({
+    templateKey: 'purchase_order_shipped',
+    variables: { agency_name: agencyName, order_number: orderId, quantity, invoice_reference: invoiceReference },
+  }),
+
+  purchaseOrderDelivered: (agencyName: string, orderId: string): SmsMessage => ({
+    templateKey: 'purchase_order_delivered',
+    variables: { agency_name: agencyName, order_number: orderId },
+  }),
+
+  purchaseOrderCancelled: (agencyName: string, orderId: string, reason?: string): SmsMessage => ({
+    templateKey: 'purchase_order_cancelled',
+    variables: { agency_name: agencyName, order_number: orderId, reason },
+  }),
 
   collectionRecorded: (
     name: string,
     cashAmount: number,
     cheques: Array<{ chequeNumber: string; amount: number }>,
-  ) => {
+  ): SmsMessage => {
     const parts: string[] = [];
     if (cashAmount > 0) {
       parts.push(`Cash payment of LKR ${cashAmount.toLocaleString()}`);
@@ -41,6 +115,14 @@ export const SmsTemplates = {
       parts.push(`Cheque #${c.chequeNumber} of LKR ${c.amount.toLocaleString()}`);
     });
     const total = cashAmount + cheques.reduce((s, c) => s + c.amount, 0);
-    return `Dear ${name}, we have successfully received your payment of LKR ${total.toLocaleString()} (${parts.join(' & ')}) at DAG Clothing Pvt Ltd. Your account has been updated accordingly. We sincerely appreciate your prompt payment. Thank you for choosing DAG Clothing!`;
+    return {
+      templateKey: 'collection_recorded',
+      variables: { customer_name: name, total, payment_details: parts.join(' & ') },
+    };
   },
+
+  customerStatement: (name: string, period: string, balance: number, statementUrl?: string): SmsMessage => ({
+    templateKey: 'customer_statement',
+    variables: { customer_name: name, period, balance, statement_url: statementUrl },
+  }),
 };
@@ -11,6 +11,8 @@ export interface Collection {
   chequeAmount: number;
   cashDate: Date;
   chequeDetails: ChequeDetail[];
+  // Unapplied credit of this collection paid back to the customer
+  creditRefunded?: number;
   notes?: string;
   gpsCoordinates: {
     latitude: number;
@@ -33,13 +35,228 @@ export interface ChequeDetail {
   returnReason?: string;
 }
 
+export interface BankAccount {
+  id: string;
+  agencyId: string;
+  bankName: string;
+  branch?: string;
+  accountName: string;
+  accountNumber: string;
+  isActive: boolean;
+  statementFormatId?: string;
+}
+
+// A cheque in the PDC register; depositBatchId is set once it is banked and waiting for the bank's result
+export interface RegisterCheque {
+  id: string;
+  collectionId: string;
+  customerId: string;
+  customerName: string;
+  chequeNumber: string;
+  bankName: string;
+  amount: number;
+  chequeDate: Date;
+  status: string;
+  depositBatchId?: string;
+  depositedAt?: Date;
+  returnReason?: string;
+}
+
+export type DepositBatchStatus = 'deposited' | 'settled';
+
+export interface ChequeDepositBatch {
+  id: string;
+  agencyId: string;
+  agencyName?: string;
+  batchNumber: string;
+  bankAccountId: string;
+  bankAccount?: BankAccount;
+  depositDate: Date;
+  status: DepositBatchStatus;
+  chequeCount: number;
+  totalAmount: number;
+  notes?: string;
+  slipPdfUrl?: string;
+  createdAt: Date;
+  settledAt?: Date;
+  cheques: RegisterCheque[];
+}
+
+export interface ChequeForecastBucket {
+  key: 'due' | '30' | '60' | '90' | 'later';
+  label: string;
+  amount: number;
+  count: number;
+}
+
+export type StatementDateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD' | 'DD-MMM-YYYY';
+
+// Which CSV headers of a bank's statement hold each field; amounts are either debit/credit or one signed column
+export interface BankStatementFormat {
+  id: string;
+  name: string;
+  bankName: string;
+  dateColumn: string;
+  descriptionColumn: string;
+  referenceColumn?: string;
+  chequeNumberColumn?: string;
+  debitColumn?: string;
+  creditColumn?: string;
+  amountColumn?: string;
+  dateFormat: StatementDateFormat;
+}
+
+export interface BankStatementImport {
+  id: string;
+  agencyId: string;
+  bankAccountId: string;
+  fileName: string;
+  statementFrom?: Date;
+  statementTo?: Date;
+  lineCount: number;
+  skippedCount: number;
+  createdAt: Date;
+}
+
+export type StatementLineStatus = 'unmatched' | 'proposed' | 'reconciled' | 'ignored';
+
+export type StatementMatchType = 'cheque_cleared' | 'cheque_returned' | 'cash_deposit';
+
+export interface BankStatementLine {
+  id: string;
+  importId: string;
+  bankAccountId: string;
+  lineNumber: number;
+  transactionDate: Date;
+  description: string;
+  reference?: string;
+  chequeNumber?: string;
+  debit: number;
+  credit: number;
+  status: StatementLineStatus;
+  matchType?: StatementMatchType;
+  matchScore?: number;
+  matchedCheque?: { id: string; chequeNumber: string; bankName: string; amount: number; chequeDate: Date; customerName: string };
+  matchedCollection?: { id: string; customerName: string; cashAmount: number; cashDate: Date };
+  notes?: string;
+}
+
+export type RecoveryCaseStatus = 'open' | 'recovered' | 'closed';
+
+export type RecoveryEventType = 'replacement_cheque' | 'cash' | 'charge' | 'follow_up' | 'closed';
+
+export interface RecoveryEvent {
+  id: string;
+  eventType: RecoveryEventType;
+  amount: number;
+  chargesAmount: number;
+  replacementChequeId?: string;
+  collectionId?: string;
+  debitNoteId?: string;
+  followUpDate?: Date;
+  notes?: string;
+  createdAt: Date;
+}
+
+// One per returned cheque; recoveredAmount counts cash, replacement cheques that have not bounced and the
+// cheque itself if it was cleared later
+export interface ChequeRecoveryCase {
+  id: string;
+  agencyId: string;
+  customerId: string;
+  customerName: string;
+  customerIsCashOnly: boolean;
+  chequeId: string;
+  chequeNumber: string;
+  bankName: string;
+  returnReason?: string;
+  returnedAt?: Date;
+  chequeAmount: number;
+  chargesAmount: number;
+  recoveredAmount: number;
+  status: RecoveryCaseStatus;
+  nextFollowUpDate?: Date;
+  closedReason?: string;
+  createdAt: Date;
+  events: RecoveryEvent[];
+}
+
+export interface CustomerCashOnly {
+  isCashOnly: boolean;
+  reason?: string;
+  since?: Date;
+}
+
+export type CustomerNoteType = 'credit' | 'debit';
+
+export type CustomerNoteCategory = 'price_correction' | 'damaged_goods' | 'rebate' | 'returned_cheque' | 'other';
+
+export type CustomerNoteStatus = 'pending_approval' | 'approved' | 'rejected' | 'cancelled';
+
+// A credit note lowers what the customer owes, a debit note raises it; only approved notes count. A credit note
+// on an invoice comes off that invoice, a debit note on an invoice only names it.
+export interface CustomerNote {
+  id: string;
+  noteType: CustomerNoteType;
+  agencyId: string;
+  customerId: string;
+  customerName: string;
+  noteNumber: string;
+  invoiceId?: string;
+  invoiceNumber?: string;
+  category: CustomerNoteCategory;
+  amount: number;
+  // Debit notes only: how much of it the customer has paid
+  settledAmount: number;
+  reason: string;
+  status: CustomerNoteStatus;
+  requiresApproval: boolean;
+  createdByName?: string;
+  reviewedByName?: string;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  createdAt: Date;
+}
+
+// How a collection is spread over the customer's invoices; whatever is left becomes customer credit
+export type AllocationStrategy = 'oldest_first' | 'due_date' | 'specific';
+
+// 'credit' rows apply a collection's unapplied credit later; 'reversal' rows are negative and undo reversalOf
+export type AllocationType = 'payment' | 'credit' | 'reversal';
+
+// Pays either an invoice or an approved debit note
 export interface CollectionAllocation {
   id: string;
   collectionId: string;
-  invoiceId: string;
+  invoiceId?: string;
+  invoiceNumber?: string;
+  debitNoteId?: string;
+  debitNoteNumber?: string;
   allocatedAmount: number;
   allocatedAt: Date;
   allocatedBy: string;
+  allocationType: AllocationType;
+  reversalOf?: string;
+  reason?: string;
+}
+
+export interface CustomerCreditRefund {
+  id: string;
+  amount: number;
+  creditNoteReference: string;
+  notes?: string;
+  refundedAt: Date;
+}
+
+export interface CustomerCredit {
+  id: string;
+  customerId: string;
+  collectionId: string;
+  collectionDate?: Date;
+  balance: number;
+  refundedAmount: number;
+  refunds: CustomerCreditRefund[];
+  createdAt: Date;
 }
 
 export interface CustomerInvoiceSummary {
@@ -55,6 +272,9 @@ export interface CustomerInvoiceSummary {
   returnedChequesAmount: number;
   returnedChequesCount: number;
   totalReturns?: number;
+  totalDebitNotes?: number;
+  totalCreditNotes?: number;
+  unappliedCredit?: number;
   invoices: InvoiceSummary[];
 }
 
@@ -65,6 +285,7 @@ export interface InvoiceSummary {
   collectedAmount: number;
   outstandingAmount: number;
   createdAt: Date;
+  dueDate?: Date;
   status: 'pending' | 'partially_paid' | 'paid' | 'overdue';
 }
 
@@ -79,6 +300,7 @@ export interface CollectionFormData {
   cashDate: Date;
   chequeDetails: Omit<ChequeDetail, 'id' | 'status' | 'clearedAt'>[];
   selectedInvoiceIds: string[];
+  allocationStrategy: AllocationStrategy;
   notes?: string;
   gpsCoordinates: {
     latitude: number;
@@ -1,3 +1,5 @@
+import type { SmsLanguage } from './sms';
+
 
 export interface Customer {
   id: string;
@@ -16,4 +18,10 @@ export interface Customer {
   createdBy: string;
   shopOwnerName?: string;
   shopOwnerBirthday?: string; // ISO date string (YYYY-MM-DD)
+  priceListId?: string | null; // price tier; null uses the agency price type
+  creditLimit?: number | null; // null uses the agency default
+  maxOverdueDays?: number | null; // null uses the agency default
+  preferredLanguage?: SmsLanguage; // language of SMS sent to this customer
+  smsOptOut?: boolean; // customer asked not to receive SMS
+  isCashOnly?: boolean; // returned cheques put the customer on cash only
 }
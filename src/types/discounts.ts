@@ -50,3 +50,36 @@ export interface RuleApplication {
   appliedAmount: number;
   appliedAt: Date;
 }
+
+export interface PricingCartLine {
+  key: string;
+  productId: string;
+  productName: string;
+  color: string;
+  size: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+// A cart line after rules are applied. Promotion lines (free or discounted units added
+// by a promotional rule) carry the id of the rule that created them.
+export interface PricedCartLine extends PricingCartLine {
+  discountAmount: number;
+  total: number;
+  appliedRuleId?: string;
+}
+
+export interface AppliedPricingRule {
+  ruleId: string;
+  ruleType: 'discount' | 'promotional';
+  ruleName: string;
+  description: string;
+  appliedAmount: number;
+}
+
+export interface PricingResult {
+  lines: PricedCartLine[];
+  promotionLines: PricedCartLine[];
+  applications: AppliedPricingRule[];
+  totalSavings: number;
+}
@@ -1,3 +1,5 @@
+import type { ProductMatch } from './product';
+
 
 export interface CompanyInvoice {
   id: string;
@@ -18,6 +20,10 @@ export interface GRNItem {
   unitPrice: number;
   discountPercentage?: number;
   total: number;
+  receivedQuantity?: number; // Good pieces put into stock; unset until the GRN is received
+  damagedQuantity?: number;
+  shortQuantity?: number;
+  conditionNotes?: string;
 }
 
 export interface GRN {
@@ -28,7 +34,7 @@ export interface GRN {
   agencyName: string;
   items: GRNItem[];
   total: number;
-  status: 'pending' | 'accepted' | 'rejected';
+  status: 'pending' | 'accepted' | 'partially_accepted' | 'rejected';
   uploadedBy: string;
   assignedAt: Date;
   createdAt: Date;
@@ -36,3 +42,45 @@ export interface GRN {
   processedBy?: string;
   rejectionReason?: string;
 }
+
+export interface GRNLineReceipt {
+  itemId: string;
+  receivedQuantity: number;
+  damagedQuantity: number;
+  conditionNotes?: string;
+}
+
+export type GRNClaimResolution = 'credit_note' | 'replacement' | 'dismissed';
+
+export interface GRNDiscrepancyClaim {
+  id: string;
+  claimNumber: string;
+  grnId: string;
+  agencyId: string;
+  agencyName?: string;
+  grnReference?: string; // Invoice file name of the GRN
+  status: 'open' | 'resolved';
+  shortQuantity: number;
+  damagedQuantity: number;
+  claimValue: number;
+  notes?: string;
+  resolution?: GRNClaimResolution;
+  resolutionReference?: string; // Credit note number, or the replacement GRN id
+  resolutionNotes?: string;
+  replacementGrnId?: string;
+  raisedByName?: string;
+  resolvedByName?: string;
+  resolvedAt?: Date;
+  createdAt: Date;
+}
+
+// A line of an Odoo invoice on its way to becoming a GRN item
+export interface OdooGRNLine {
+  odooLineId: number;
+  odooProductId: number;
+  odooProductName: string;
+  quantity: number;
+  unitPrice: number; // net of the line discount
+  total: number;
+  match?: ProductMatch; // Only a confirmed match is used; a suggestion waits for a superuser
+}
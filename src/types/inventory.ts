@@ -64,3 +64,165 @@ export interface StockAdjustmentRequest {
   reviewedAt?: Date;
   reviewNotes?: string;
 }
+
+export interface ReorderLevel {
+  id?: string; // Unset until a level is saved for the variant
+  agencyId: string;
+  productName: string; // Ledger product name, as stored in external_inventory_management
+  color: string;
+  size: string;
+  currentStock: number;
+  minimumStock: number;
+  maximumStock: number;
+  source: 'manual' | 'velocity';
+  velocityWeeks?: number;
+  dailySales?: number;
+  updatedAt?: Date;
+}
+
+export interface PurchaseSuggestion {
+  productId?: string;
+  productName: string;
+  ledgerProductName: string;
+  color: string;
+  size: string;
+  unitPrice: number;
+  currentStock: number;
+  minimumStock: number;
+  maximumStock: number;
+  dailySales: number;
+  sellThroughDays?: number; // Days the current stock lasts at the recent sales rate; unset when nothing sold
+  onOrderQuantity: number; // Already on pending, approved or shipped purchase orders
+  suggestedQuantity: number; // Needed to reach maximum stock after what is on order
+}
+
+export type CostMethod = 'fifo' | 'weighted_average';
+
+export interface InventoryValuationLine {
+  productName: string;
+  color: string;
+  size: string;
+  category: string;
+  subCategory: string;
+  quantity: number;
+  stockValue: number;
+  unitCost: number;
+}
+
+export interface InvoiceCostOfGoods {
+  invoiceId: string;
+  invoiceNumber?: string;
+  customerName: string;
+  invoiceDate: Date;
+  revenue: number;
+  costOfGoods: number;
+  grossMargin: number;
+  costedLines: number; // Sale movements costed for the invoice; 0 means stock was never booked out
+}
+
+export type StockTakeStatus = 'counting' | 'submitted' | 'completed' | 'cancelled';
+
+export interface StockTakeSession {
+  id: string;
+  agencyId: string;
+  sessionNumber: string;
+  name: string;
+  subCategories: string[]; // Empty when the whole agency is counted
+  status: StockTakeStatus;
+  currentPass: number;
+  snapshotAt: Date;
+  lineCount: number;
+  adjustmentCount: number; // Pending adjustments posted on submit
+  netVariance: number;
+  varianceValue: number;
+  createdByName?: string;
+  submittedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface StockTakeLine {
+  id: string;
+  productName: string;
+  productCode?: string;
+  color: string;
+  size: string;
+  category: string;
+  subCategory: string;
+  expectedQuantity: number; // Frozen when the session started
+  movedQuantity: number; // Approved stock movement between the snapshot and the count; variance is against expected + moved
+  unitCost: number;
+  countedQuantity?: number; // Total of the latest pass that counted the line; unset until counted
+  countedPass?: number;
+  variance?: number;
+  varianceValue?: number;
+  addedDuringCount: boolean;
+}
+
+export interface StockTakeCount {
+  id: string;
+  lineId: string;
+  passNumber: number;
+  quantity: number;
+  countedByName?: string;
+  countedAt: Date;
+}
+
+export type StockTransferStatus = 'pending_approval' | 'in_transit' | 'received' | 'rejected' | 'cancelled';
+
+export interface StockTransfer {
+  id: string;
+  transferNumber: string;
+  fromAgencyId: string;
+  fromAgencyName?: string;
+  toAgencyId: string;
+  toAgencyName?: string;
+  status: StockTransferStatus;
+  requiresApproval: boolean; // Worth more than the approval threshold when raised
+  lineCount: number;
+  totalQuantity: number;
+  totalValue: number; // At the source agency's cost
+  receivedQuantity: number;
+  damagedQuantity: number;
+  shortQuantity: number;
+  notes?: string;
+  receiptNotes?: string;
+  createdByName?: string;
+  reviewedByName?: string;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  dispatchedAt?: Date;
+  receivedByName?: string;
+  receivedAt?: Date;
+  createdAt: Date;
+}
+
+export interface StockTransferLine {
+  id: string;
+  productName: string;
+  productCode?: string;
+  color: string;
+  size: string;
+  category: string;
+  subCategory: string;
+  quantity: number; // Dispatched
+  unitCost: number;
+  receivedQuantity?: number; // Unset until the transfer is received
+  damagedQuantity: number;
+  shortQuantity: number;
+}
+
+export interface StockTransferItem {
+  productName: string;
+  productCode?: string;
+  color: string;
+  size: string;
+  category?: string;
+  subCategory?: string;
+  quantity: number;
+}
+
+export interface StockTransferReceipt {
+  lineId: string;
+  receivedQuantity: number;
+  damagedQuantity: number;
+}
@@ -0,0 +1,77 @@
+import { Database } from '@/integrations/supabase/types';
+import { AllocationStrategy } from '@/types/collections';
+import { AppliedPricingRule } from '@/types/discounts';
+
+type Tables = Database['public']['Tables'];
+
+export type OutboxRecordKind =
+  | 'sales_order'
+  | 'invoice'
+  | 'collection'
+  | 'non_productive_visit'
+  | 'route_point';
+
+export type OutboxRecordStatus = 'pending' | 'syncing' | 'synced' | 'failed';
+
+// Payloads are stored in server column shape so the replay is a straight insert.
+// Any id that may still be a client UUID is listed in the record's dependsOn and
+// is swapped for the server id right before the insert.
+
+export interface OfflineSalesOrderPayload {
+  order: Omit<Tables['sales_orders']['Insert'], 'id' | 'client_id' | 'order_number'>;
+  items: Array<Omit<Tables['sales_order_items']['Insert'], 'id' | 'sales_order_id'>>;
+  ruleApplications?: AppliedPricingRule[];
+  customerPhone?: string | null;
+}
+
+export interface OfflineInvoicePayload {
+  invoice: Omit<Tables['invoices']['Insert'], 'id' | 'client_id' | 'invoice_number'>;
+  items: Array<Omit<Tables['invoice_items']['Insert'], 'id' | 'invoice_id'>>;
+  ruleApplications?: AppliedPricingRule[];
+  // Taken from the device's reserved block when available; otherwise numbered on sync.
+  reservedInvoiceNumber?: string | null;
+  agencyName?: string | null;
+  userName?: string | null;
+  customerPhone?: string | null;
+}
+
+export interface OfflineCollectionPayload {
+  collection: Omit<Tables['collections']['Insert'], 'id' | 'client_id'>;
+  cheques: Array<Omit<Tables['collection_cheques']['Insert'], 'id' | 'collection_id'>>;
+  // Missing on collections queued before allocation strategies; those replay as 'specific'
+  allocationStrategy?: AllocationStrategy;
+  allocations: Array<{ invoiceId: string; amount: number | null }>;
+  customerPhone?: string | null;
+}
+
+export type OfflineNonProductiveVisitPayload = Omit<Tables['non_productive_visits']['Insert'], 'id' | 'client_id'>;
+
+export type OfflineRoutePointPayload = Omit<Tables['time_tracking_route_points']['Insert'], 'id' | 'client_id'>;
+
+export interface OutboxPayloadByKind {
+  sales_order: OfflineSalesOrderPayload;
+  invoice: OfflineInvoicePayload;
+  collection: OfflineCollectionPayload;
+  non_productive_visit: OfflineNonProductiveVisitPayload;
+  route_point: OfflineRoutePointPayload;
+}
+
+export interface OutboxRecord<K extends OutboxRecordKind = OutboxRecordKind> {
+  clientId: string;
+  kind: K;
+  payload: OutboxPayloadByKind[K];
+  label: string;
+  dependsOn: string[];
+  status: OutboxRecordStatus;
+  serverId?: string | null;
+  error?: string | null;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OutboxSyncResult {
+  synced: number;
+  failed: number;
+  waiting: number;
+}
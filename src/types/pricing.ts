@@ -0,0 +1,22 @@
+import { PriceType } from '@/utils/agencyPricing';
+
+export interface PriceListItem {
+  id: string;
+  priceListId: string;
+  productId?: string | null; // set for a product override
+  category?: string | null; // set for a category override
+  price?: number | null; // fixed unit price
+  discountPercentage?: number | null; // percentage off the list's base price
+  validFrom?: string | null; // YYYY-MM-DD, inclusive
+  validTo?: string | null; // YYYY-MM-DD, inclusive
+}
+
+export interface PriceList {
+  id: string;
+  name: string;
+  description?: string | null;
+  agencyId?: string | null; // null = available to every agency
+  basePriceType: PriceType;
+  isActive: boolean;
+  items: PriceListItem[];
+}
@@ -20,3 +20,69 @@ export interface ProductVariant {
   sellingPrice: number;
   billingPrice: number;
 }
+
+export type BarcodeSymbology = 'ean13' | 'code128';
+
+export interface ProductBarcode {
+  id: string;
+  productId: string;
+  color: string;
+  size: string;
+  barcode: string;
+  symbology: BarcodeSymbology;
+}
+
+export interface ScannedProduct {
+  product: Product;
+  color: string;
+  size: string;
+  barcode: string;
+}
+
+// Where an external product comes from: 'odoo' is keyed by Odoo product.product id; the others by
+// normalized product text (see buildProductMappingKey)
+export type ProductMappingSource = 'odoo' | 'global_bot' | 'invoice_ocr' | 'external_inventory';
+
+export type ProductMappingStatus = 'suggested' | 'confirmed' | 'rejected';
+
+export type ProductMatchMethod = 'manual' | 'merged' | 'exact_name' | 'code' | 'contains' | 'none' | 'created';
+
+// An external system's product mapped to one of our product variants
+export interface ProductMapping {
+  id: string;
+  source: ProductMappingSource;
+  externalKey: string;
+  externalName?: string;
+  externalCode?: string;
+  externalColor?: string;
+  externalSize?: string;
+  productId?: string; // Unset for suggestions with no candidate
+  productName?: string;
+  color: string;
+  size: string;
+  status: ProductMappingStatus;
+  confidence: number; // 0-1; 1 for confirmed mappings
+  matchMethod: ProductMatchMethod;
+  reviewedAt?: Date;
+  updatedAt: Date;
+}
+
+// What a sync or import path knows about an external product when asking for its mapping
+export interface ExternalProductRef {
+  externalKey: string;
+  name?: string;
+  code?: string;
+  color?: string;
+  size?: string;
+}
+
+// Answer of the mapping table for one external product; only confirmed matches should be used without review
+export interface ProductMatch {
+  mappingId: string;
+  status: ProductMappingStatus;
+  productId?: string;
+  productName?: string;
+  color: string;
+  size: string;
+  confidence: number;
+}
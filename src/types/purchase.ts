@@ -1,4 +1,3 @@
-
 export interface PurchaseOrder {
   id: string;
   agencyId: string;
@@ -13,6 +12,15 @@ export interface PurchaseOrder {
   notes?: string;
   createdAt: Date;
   createdBy: string;
+  approvedTotal?: number;
+  approvalNotes?: string;
+  approvedByName?: string;
+  approvedAt?: Date;
+  shippingClosed?: boolean; // nothing more will be shipped
+  deliveredAt?: Date;
+  cancellationReason?: string;
+  cancelledByName?: string;
+  cancelledAt?: Date;
 }
 
 export interface PurchaseOrderItem {
@@ -24,4 +32,68 @@ export interface PurchaseOrderItem {
   quantity: number;
   unitPrice: number;
   total: number;
+  approvedQuantity?: number; // set when head office approves the order
+  shippedQuantity?: number;
+  receivedQuantity?: number; // good pieces on the matched GRNs
+}
+
+export interface PurchaseOrderLineApproval {
+  itemId: string;
+  approvedQuantity: number;
+}
+
+export interface PurchaseOrderShipmentItem {
+  itemId: string;
+  quantity: number;
+}
+
+export interface PurchaseOrderShipmentLine {
+  id: string;
+  purchaseOrderItemId: string;
+  productName: string;
+  color: string;
+  size: string;
+  quantity: number;
+  unitPrice: number;
+  receivedQuantity?: number;
+}
+
+export interface PurchaseOrderShipment {
+  id: string;
+  shipmentNumber: string;
+  purchaseOrderId: string;
+  invoiceReference: string;
+  status: 'dispatched' | 'received';
+  totalQuantity: number;
+  totalValue: number;
+  receivedQuantity?: number;
+  grnId?: string;
+  grnStatus?: string;
+  grnTotal?: number;
+  odooInvoiceId?: string;
+  odooInvoiceName?: string;
+  odooInvoiceTotal?: number;
+  notes?: string;
+  dispatchedByName?: string;
+  dispatchedAt: Date;
+  receivedAt?: Date;
+  lines: PurchaseOrderShipmentLine[];
+}
+
+export type PurchaseOrderEventType =
+  | 'created'
+  | 'revised'
+  | 'approved'
+  | 'shipped'
+  | 'invoiced'
+  | 'received'
+  | 'delivered'
+  | 'cancelled';
+
+export interface PurchaseOrderEvent {
+  id: string;
+  eventType: PurchaseOrderEventType;
+  description?: string;
+  createdByName?: string;
+  createdAt: Date;
 }
@@ -12,6 +12,7 @@ export interface SalesOrder {
   totalInvoiced: number;
   status: 'pending' | 'approved' | 'partially_invoiced' | 'invoiced' | 'cancelled' | 'closed';
   requiresApproval: boolean;
+  approvalReasons?: string[];
   approvedBy?: string;
   approvedAt?: Date;
   dispute?: Dispute;
@@ -32,6 +33,41 @@ export interface SalesOrderItem {
   quantity: number;
   unitPrice: number;
   total: number;
+  appliedRuleId?: string; // set on free or discounted lines added by a promotional rule
+  invoicedQuantity?: number; // drawn down by invoices linked to this line
+}
+
+// An order line that is still open after the order was partly invoiced
+export interface BackorderLine {
+  salesOrderItemId: string;
+  salesOrderId: string;
+  orderNumber: string;
+  customerId: string;
+  customerName: string;
+  productId?: string;
+  productName: string;
+  color: string;
+  size: string;
+  unitPrice: number;
+  orderedQuantity: number;
+  invoicedQuantity: number;
+  outstandingQuantity: number;
+  orderedAt: Date;
+}
+
+// A backorder line whose variant has been received into stock since it was ordered
+export interface FillableBackorder {
+  salesOrderItemId: string;
+  salesOrderId: string;
+  orderNumber: string;
+  customerId: string;
+  customerName: string;
+  productName: string;
+  color: string;
+  size: string;
+  outstandingQuantity: number;
+  availableQuantity: number;
+  receivedAt: Date;
 }
 
 export interface Invoice {
@@ -47,6 +83,7 @@ export interface Invoice {
   discountAmount: number;
   total: number;
   outstandingAmount?: number;
+  dueDate?: Date;
   gpsCoordinates: {
     latitude: number;
     longitude: number;
@@ -65,6 +102,8 @@ export interface InvoiceItem {
   quantity: number;
   unitPrice: number;
   total: number;
+  appliedRuleId?: string; // set on free or discounted lines added by a promotional rule
+  salesOrderItemId?: string; // the order line this invoice line fulfils
 }
 
 export interface Dispute {
@@ -0,0 +1,60 @@
+export type SmsLanguage = 'en' | 'si' | 'ta';
+
+export type SmsTemplateKey =
+  | 'customer_welcome'
+  | 'sales_order_created'
+  | 'invoice_created'
+  | 'purchase_order_created'
+  | 'purchase_order_updated'
+  | 'purchase_order_approved'
+  | 'purchase_order_shipped'
+  | 'purchase_order_delivered'
+  | 'purchase_order_cancelled'
+  | 'collection_recorded'
+  | 'customer_birthday'
+  | 'customer_statement';
+
+export type SmsTemplateVariables = Record<string, string | number | null | undefined>;
+
+// A message waiting to be rendered with the recipient's language and agency template
+export interface SmsMessage {
+  templateKey: SmsTemplateKey;
+  variables: SmsTemplateVariables;
+}
+
+export interface SmsTemplate {
+  id: string;
+  templateKey: SmsTemplateKey;
+  language: SmsLanguage;
+  agencyId?: string | null; // null = default for every agency
+  body: string;
+  isActive: boolean;
+  updatedAt?: string;
+}
+
+export type SmsRelatedType = 'invoice' | 'sales_order' | 'collection' | 'purchase_order' | 'customer' | 'statement';
+
+export type SmsDeliveryStatus = 'pending' | 'sent' | 'failed';
+
+export interface SmsLogEntry {
+  id: string;
+  recipient: string;
+  message: string;
+  templateKey?: SmsTemplateKey | null;
+  language?: SmsLanguage | null;
+  customerId?: string | null;
+  agencyId?: string | null;
+  relatedType?: SmsRelatedType | null;
+  relatedId?: string | null;
+  status: SmsDeliveryStatus;
+  provider?: string | null;
+  providerMessageId?: string | null;
+  providerResponse?: unknown;
+  attempts: number;
+  lastError?: string | null;
+  nextRetryAt?: string | null; // null on a failed message = no more retries
+  sentAt?: string | null;
+  resentFrom?: string | null;
+  customerOptedOut?: boolean; // resends to this customer are refused
+  createdAt: string;
+}
@@ -0,0 +1,86 @@
+export type StatementEntryType =
+  | 'invoice'
+  | 'cash'
+  | 'discount'
+  | 'cheque'
+  | 'returned_cheque'
+  | 'return'
+  | 'debit_note'
+  | 'credit_note'
+  | 'charges_paid'
+  | 'credit_refund';
+
+export interface StatementEntry {
+  date: string; // YYYY-MM-DD
+  type: StatementEntryType;
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number; // running balance after this entry
+}
+
+// Cheques dated after the period; they are credited on their cheque date
+export interface StatementPendingCheque {
+  date: string;
+  reference: string;
+  description: string;
+  amount: number;
+}
+
+export interface CustomerStatement {
+  customer: {
+    id: string;
+    name: string;
+    phone: string;
+    address: string;
+    agencyId: string | null;
+  };
+  agency: {
+    name: string;
+    phone?: string | null;
+    address?: string | null;
+  } | null;
+  periodFrom: string;
+  periodTo: string;
+  openingBalance: number;
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  entries: StatementEntry[];
+  pendingCheques: StatementPendingCheque[];
+}
+
+// Scheduled runs wait as 'queued' until the worker reaches their agency
+export type StatementRunStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// generated: no SMS requested; skipped: no phone number or opted out
+export type StatementRunItemStatus = 'generated' | 'sent' | 'skipped' | 'failed';
+
+export interface StatementRun {
+  id: string;
+  agencyId: string;
+  periodFrom: string;
+  periodTo: string;
+  trigger: 'manual' | 'scheduled';
+  sendSms: boolean;
+  status: StatementRunStatus;
+  customerCount: number;
+  smsSentCount: number;
+  failedCount: number;
+  totalBalance: number;
+  bundlePdfUrl?: string | null;
+  error?: string | null;
+  createdAt: string;
+  completedAt?: string | null;
+}
+
+export interface StatementRunItem {
+  id: string;
+  customerId: string;
+  customerName: string;
+  statementId?: string | null;
+  closingBalance: number;
+  status: StatementRunItemStatus;
+  error?: string | null;
+}
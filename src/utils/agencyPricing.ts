@@ -1,4 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { PriceList, PriceListItem } from '@/types/pricing';
+import { roundMoney } from '@/utils/money';
 
 export type PriceType = 'selling_price' | 'billing_price';
 
@@ -87,6 +90,8 @@ export const getAllAgencyPricingSettings = async (): Promise<{ [agencyId: string
 export const clearPricingCache = () => {
   pricingCache = {};
   cacheExpiry = 0;
+  priceListCache = {};
+  customerPriceListCache = {};
 };
 
 /**
@@ -105,4 +110,133 @@ export const getProductPriceForAgency = (product: any, priceType: PriceType): nu
  */
 export const getPriceTypeLabel = (priceType: PriceType): string => {
   return priceType === 'selling_price' ? 'Selling Price' : 'Billing Price';
-};
\ No newline at end of file
+};
+
+// Price lists are cached the same way as agency settings
+let priceListCache: { [priceListId: string]: { list: PriceList | null; expiry: number } } = {};
+let customerPriceListCache: { [customerId: string]: { priceListId: string | null; expiry: number } } = {};
+
+const toPriceListItem = (row: Database['public']['Tables']['price_list_items']['Row']): PriceListItem => ({
+  id: row.id,
+  priceListId: row.price_list_id,
+  productId: row.product_id,
+  category: row.category,
+  price: row.price === null ? null : Number(row.price),
+  discountPercentage: row.discount_percentage === null ? null : Number(row.discount_percentage),
+  validFrom: row.valid_from,
+  validTo: row.valid_to,
+});
+
+/**
+ * Get a price list with its overrides
+ * Returns null if the list does not exist or is inactive
+ */
+export const getPriceList = async (priceListId: string): Promise<PriceList | null> => {
+  const now = Date.now();
+  const cached = priceListCache[priceListId];
+  if (cached && cached.expiry > now) {
+    return cached.list;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('price_lists')
+      .select('*, price_list_items(*)')
+      .eq('id', priceListId)
+      .maybeSingle();
+
+    if (error && !error.message.includes('does not exist')) {
+      console.warn('Error fetching price list:', error);
+    }
+
+    const list: PriceList | null = data && data.is_active
+      ? {
+          id: data.id,
+          name: data.name,
+          description: data.description,
+          agencyId: data.agency_id,
+          basePriceType: data.base_price_type as PriceType,
+          isActive: data.is_active,
+          items: (data.price_list_items || []).map(toPriceListItem),
+        }
+      : null;
+
+    priceListCache[priceListId] = { list, expiry: now + CACHE_DURATION };
+    return list;
+  } catch (error) {
+    console.warn('Error in getPriceList:', error);
+    return null;
+  }
+};
+
+/**
+ * Get the price list assigned to a customer
+ * Returns null when the customer has no tier, so callers fall back to the agency price type
+ */
+export const getCustomerPriceList = async (customerId: string): Promise<PriceList | null> => {
+  if (!customerId) return null;
+
+  const now = Date.now();
+  const cached = customerPriceListCache[customerId];
+  let priceListId = cached && cached.expiry > now ? cached.priceListId : undefined;
+
+  if (priceListId === undefined) {
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('price_list_id')
+        .eq('id', customerId)
+        .maybeSingle();
+
+      if (error && !error.message.includes('does not exist')) {
+        console.warn('Error fetching customer price list:', error);
+      }
+
+      priceListId = data?.price_list_id || null;
+      customerPriceListCache[customerId] = { priceListId, expiry: now + CACHE_DURATION };
+    } catch (error) {
+      console.warn('Error in getCustomerPriceList:', error);
+      return null;
+    }
+  }
+
+  return priceListId ? getPriceList(priceListId) : null;
+};
+
+const toDateKey = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const isItemValidOn = (item: PriceListItem, dateKey: string) =>
+  (!item.validFrom || item.validFrom <= dateKey) && (!item.validTo || item.validTo >= dateKey);
+
+/**
+ * Resolve the unit price for a product
+ * Order: product override -> category override -> list base price type -> agency price type
+ */
+export const resolveProductPrice = (
+  product: { id: string; category?: string | null },
+  agencyPriceType: PriceType,
+  priceList?: PriceList | null,
+  date: Date = new Date()
+): number => {
+  if (!priceList) {
+    return getProductPriceForAgency(product, agencyPriceType);
+  }
+
+  const basePrice = getProductPriceForAgency(product, priceList.basePriceType);
+  const dateKey = toDateKey(date);
+  const validItems = priceList.items.filter(item => isItemValidOn(item, dateKey));
+  const override =
+    validItems.find(item => item.productId && item.productId === product.id) ||
+    validItems.find(item => item.category && item.category === product.category);
+
+  if (!override) return basePrice;
+  if (override.price !== null && override.price !== undefined) return override.price;
+
+  const discount = override.discountPercentage || 0;
+  return roundMoney((basePrice * (100 - discount)) / 100);
+};
@@ -0,0 +1,389 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type {
+  BankStatementFormat,
+  BankStatementImport,
+  BankStatementLine,
+  StatementDateFormat,
+  StatementLineStatus,
+  StatementMatchType
+} from '@/types/collections';
+import { roundMoney } from '@/utils/money';
+import { fetchAllSupabaseRows } from '@/utils/supabasePagination';
+
+type FormatRow = Database['public']['Tables']['bank_statement_formats']['Row'];
+type ImportRow = Database['public']['Tables']['bank_statement_imports']['Row'];
+
+type LineRow = Database['public']['Tables']['bank_statement_lines']['Row'] & {
+  collection_cheques?: (Pick<
+    Database['public']['Tables']['collection_cheques']['Row'],
+    'id' | 'cheque_number' | 'bank_name' | 'amount' | 'cheque_date'
+  > & { collections?: { customer_name: string } | null }) | null;
+  collections?: Pick<
+    Database['public']['Tables']['collections']['Row'],
+    'id' | 'customer_name' | 'cash_amount' | 'cash_date'
+  > | null;
+};
+
+export interface ParsedStatementLine {
+  lineNumber: number;
+  transactionDate: string;
+  description: string;
+  reference?: string;
+  chequeNumber?: string;
+  debit: number;
+  credit: number;
+}
+
+export const STATEMENT_DATE_FORMATS: StatementDateFormat[] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD', 'DD-MMM-YYYY'];
+
+export const MATCH_TYPE_LABELS: Record<StatementMatchType, string> = {
+  cheque_cleared: 'Cheque cleared',
+  cheque_returned: 'Cheque returned',
+  cash_deposit: 'Cash deposit'
+};
+
+// Cheque numbers in narrations such as "CHQ DEP 004512" or "RTN CHEQUE NO 4512"
+const CHEQUE_NUMBER_PATTERN = /\b(?:CHQ|CHEQUE|CHK)\.?\s*(?:DEP\.?\s*|RTN\.?\s*)?(?:NO\.?\s*)?#?\s*(\d{4,})/i;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const LINE_SELECT = '*, collection_cheques(id, cheque_number, bank_name, amount, cheque_date, collections(customer_name)), collections(id, customer_name, cash_amount, cash_date)';
+
+const toStatementFormat = (row: FormatRow): BankStatementFormat => ({
+  id: row.id,
+  name: row.name,
+  bankName: row.bank_name,
+  dateColumn: row.date_column,
+  descriptionColumn: row.description_column,
+  referenceColumn: row.reference_column || undefined,
+  chequeNumberColumn: row.cheque_number_column || undefined,
+  debitColumn: row.debit_column || undefined,
+  creditColumn: row.credit_column || undefined,
+  amountColumn: row.amount_column || undefined,
+  dateFormat: row.date_format as StatementDateFormat
+});
+
+const toStatementImport = (row: ImportRow): BankStatementImport => ({
+  id: row.id,
+  agencyId: row.agency_id,
+  bankAccountId: row.bank_account_id,
+  fileName: row.file_name,
+  statementFrom: row.statement_from ? new Date(`${row.statement_from}T00:00:00`) : undefined,
+  statementTo: row.statement_to ? new Date(`${row.statement_to}T00:00:00`) : undefined,
+  lineCount: row.line_count,
+  skippedCount: row.skipped_count,
+  createdAt: new Date(row.created_at)
+});
+
+const toStatementLine = (row: LineRow): BankStatementLine => ({
+  id: row.id,
+  importId: row.import_id,
+  bankAccountId: row.bank_account_id,
+  lineNumber: row.line_number,
+  transactionDate: new Date(`${row.transaction_date}T00:00:00`),
+  description: row.description,
+  reference: row.reference || undefined,
+  chequeNumber: row.cheque_number || undefined,
+  debit: Number(row.debit),
+  credit: Number(row.credit),
+  status: row.status as StatementLineStatus,
+  matchType: (row.match_type as StatementMatchType) || undefined,
+  matchScore: row.match_score ?? undefined,
+  matchedCheque: row.collection_cheques ? {
+    id: row.collection_cheques.id,
+    chequeNumber: row.collection_cheques.cheque_number,
+    bankName: row.collection_cheques.bank_name,
+    amount: Number(row.collection_cheques.amount),
+    chequeDate: new Date(`${row.collection_cheques.cheque_date}T00:00:00`),
+    customerName: row.collection_cheques.collections?.customer_name || ''
+  } : undefined,
+  matchedCollection: row.collections ? {
+    id: row.collections.id,
+    customerName: row.collections.customer_name,
+    cashAmount: Number(row.collections.cash_amount || 0),
+    cashDate: new Date(`${row.collections.cash_date}T00:00:00`)
+  } : undefined,
+  notes: row.notes || undefined
+});
+
+/**
+ * Split CSV text into rows of cells; handles quoted cells with commas, quotes and line breaks
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+/**
+ * A statement date as YYYY-MM-DD, or null when it does not fit the format
+ */
+export const parseStatementDate = (value: string, format: StatementDateFormat): string | null => {
+  const text = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  if (format === 'YYYY-MM-DD') {
+    const match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+    if (!match) return null;
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if (format === 'DD-MMM-YYYY') {
+    const match = text.match(/^(\d{1,2})[-/ ]([A-Za-z]{3})[A-Za-z]*[-/ ](\d{2,4})/);
+    if (!match) return null;
+    day = Number(match[1]);
+    month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    year = Number(match[3]);
+  } else {
+    const match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+    if (!match) return null;
+    [day, month] = format === 'DD/MM/YYYY'
+      ? [Number(match[1]), Number(match[2])]
+      : [Number(match[2]), Number(match[1])];
+    year = Number(match[3]);
+  }
+
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * A statement amount as a number; "(1,200.00)" and "1,200.00 DR" are negative
+ */
+export const parseStatementAmount = (value: string): number => {
+  const text = value.trim();
+  if (!text) return 0;
+
+  const negative = /^\(.*\)$/.test(text) || /^-/.test(text) || /\bDR\b/i.test(text);
+  const amount = parseFloat(text.replace(/[^0-9.]/g, ''));
+  if (Number.isNaN(amount)) return 0;
+
+  return roundMoney(negative ? -amount : amount);
+};
+
+/**
+ * Read a bank statement CSV with a column mapping. The header row is the first row that has the
+ * mapped date column; rows without a readable date or an amount (balances, footers) are left out.
+ */
+export const parseBankStatement = (text: string, format: BankStatementFormat): ParsedStatementLine[] => {
+  const rows = parseCsv(text);
+  const normalize = (header: string) => header.trim().toLowerCase();
+  const headerIndex = rows.findIndex(cells => cells.some(cell => normalize(cell) === normalize(format.dateColumn)));
+
+  if (headerIndex === -1) {
+    throw new Error(`Column "${format.dateColumn}" was not found in the file`);
+  }
+
+  const headers = rows[headerIndex].map(normalize);
+  const column = (name?: string, required = false) => {
+    if (!name) return -1;
+    const index = headers.indexOf(normalize(name));
+    if (index === -1 && required) {
+      throw new Error(`Column "${name}" was not found in the file`);
+    }
+    return index;
+  };
+
+  const dateIndex = column(format.dateColumn, true);
+  const descriptionIndex = column(format.descriptionColumn, true);
+  const referenceIndex = column(format.referenceColumn);
+  const chequeIndex = column(format.chequeNumberColumn);
+  const amountIndex = column(format.amountColumn, !format.debitColumn);
+  const debitIndex = format.amountColumn ? -1 : column(format.debitColumn, true);
+  const creditIndex = format.amountColumn ? -1 : column(format.creditColumn, true);
+
+  const cellAt = (cells: string[], index: number) => (index >= 0 ? (cells[index] || '').trim() : '');
+
+  return rows.slice(headerIndex + 1).flatMap((cells, index) => {
+    const transactionDate = parseStatementDate(cellAt(cells, dateIndex), format.dateFormat);
+    if (!transactionDate) return [];
+
+    const description = cellAt(cells, descriptionIndex);
+    const signedAmount = amountIndex >= 0 ? parseStatementAmount(cellAt(cells, amountIndex)) : 0;
+    const debit = amountIndex >= 0 ? Math.max(-signedAmount, 0) : Math.abs(parseStatementAmount(cellAt(cells, debitIndex)));
+    const credit = amountIndex >= 0 ? Math.max(signedAmount, 0) : Math.abs(parseStatementAmount(cellAt(cells, creditIndex)));
+    if (debit === 0 && credit === 0) return [];
+
+    const chequeNumber = cellAt(cells, chequeIndex).replace(/\D/g, '') || description.match(CHEQUE_NUMBER_PATTERN)?.[1];
+
+    return [{
+      lineNumber: headerIndex + index + 2,
+      transactionDate,
+      description,
+      reference: cellAt(cells, referenceIndex) || undefined,
+      chequeNumber: chequeNumber || undefined,
+      debit,
+      credit
+    }];
+  });
+};
+
+export const getStatementFormats = async (): Promise<BankStatementFormat[]> => {
+  const { data, error } = await supabase
+    .from('bank_statement_formats')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return (data || []).map(toStatementFormat);
+};
+
+export const saveStatementFormat = async (format: Omit<BankStatementFormat, 'id'> & { id?: string }): Promise<void> => {
+  const values = {
+    name: format.name.trim(),
+    bank_name: format.bankName.trim(),
+    date_column: format.dateColumn.trim(),
+    description_column: format.descriptionColumn.trim(),
+    reference_column: format.referenceColumn?.trim() || null,
+    cheque_number_column: format.chequeNumberColumn?.trim() || null,
+    debit_column: format.debitColumn?.trim() || null,
+    credit_column: format.creditColumn?.trim() || null,
+    amount_column: format.amountColumn?.trim() || null,
+    date_format: format.dateFormat
+  };
+
+  const { error } = format.id
+    ? await supabase.from('bank_statement_formats').update(values).eq('id', format.id)
+    : await supabase.from('bank_statement_formats').insert(values);
+
+  if (error) throw error;
+};
+
+/**
+ * Store a parsed statement for a bank account and propose matches; returns the import id
+ */
+export const importBankStatement = async (
+  bankAccountId: string,
+  formatId: string,
+  fileName: string,
+  lines: ParsedStatementLine[]
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('import_bank_statement', {
+    p_bank_account_id: bankAccountId,
+    p_format_id: formatId,
+    p_file_name: fileName,
+    p_lines: lines.map(line => ({
+      line_number: line.lineNumber,
+      transaction_date: line.transactionDate,
+      description: line.description,
+      reference: line.reference ?? null,
+      cheque_number: line.chequeNumber ?? null,
+      debit: line.debit,
+      credit: line.credit
+    }))
+  });
+
+  if (error) throw error;
+  return data as string;
+};
+
+/**
+ * Statements imported for a bank account, newest first
+ */
+export const getStatementImports = async (bankAccountId: string): Promise<BankStatementImport[]> => {
+  const { data, error } = await supabase
+    .from('bank_statement_imports')
+    .select('*')
+    .eq('bank_account_id', bankAccountId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(toStatementImport);
+};
+
+export const getStatementLines = async (importId: string): Promise<BankStatementLine[]> => {
+  const rows = await fetchAllSupabaseRows<LineRow>(() =>
+    supabase
+      .from('bank_statement_lines')
+      .select(LINE_SELECT)
+      .eq('import_id', importId)
+      .order('line_number')
+  );
+
+  return rows.map(toStatementLine);
+};
+
+/**
+ * Statement lines of a bank account that are not reconciled yet, oldest first
+ */
+export const getUnreconciledLines = async (bankAccountId: string): Promise<BankStatementLine[]> => {
+  const rows = await fetchAllSupabaseRows<LineRow>(() =>
+    supabase
+      .from('bank_statement_lines')
+      .select(LINE_SELECT)
+      .eq('bank_account_id', bankAccountId)
+      .in('status', ['unmatched', 'proposed'])
+      .order('transaction_date')
+      .order('line_number')
+  );
+
+  return rows.map(toStatementLine);
+};
+
+/**
+ * Propose matches again for the unmatched lines of an import; returns how many were proposed
+ */
+export const autoMatchStatement = async (importId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('auto_match_bank_statement', { p_import_id: importId });
+
+  if (error) throw error;
+  return Number(data || 0);
+};
+
+export const confirmStatementLine = async (lineId: string): Promise<void> => {
+  const { error } = await supabase.rpc('confirm_bank_statement_line', { p_line_id: lineId });
+
+  if (error) throw error;
+};
+
+/**
+ * Turn down a proposed match, or set the line aside as ignored (bank charges, transfers)
+ */
+export const dismissStatementLine = async (lineId: string, ignore: boolean, notes?: string): Promise<void> => {
+  const { error } = await supabase.rpc('dismiss_bank_statement_line', {
+    p_line_id: lineId,
+    p_ignore: ignore,
+    p_notes: notes
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,75 @@
+import type { BarcodeSymbology } from '@/types/product';
+import { renderBarcodeSvg } from '@/utils/barcodes';
+
+export interface BarcodeLabel {
+  productName: string;
+  color: string;
+  size: string;
+  price: number;
+  barcode: string;
+  symbology: BarcodeSymbology;
+  copies: number;
+}
+
+// A4 sheet of 3 x 8 labels, 70 x 37 mm, the common self-adhesive layout
+const LABEL_COLUMNS = 3;
+const LABEL_WIDTH_MM = 70;
+const LABEL_HEIGHT_MM = 37;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Open the label sheet in a new window and print it; each label is repeated by its copies
+ */
+export const printBarcodeLabels = (labels: BarcodeLabel[]) => {
+  const cells = labels.flatMap(label => {
+    const cell = `
+      <div class="label">
+        <div class="name">${escapeHtml(label.productName)}</div>
+        <div class="variant">${escapeHtml(label.color)} · ${escapeHtml(label.size)}</div>
+        ${renderBarcodeSvg(label.barcode, label.symbology, { width: LABEL_WIDTH_MM - 10, height: 14 })}
+        <div class="footer">
+          <span class="code">${escapeHtml(label.barcode)}</span>
+          <span class="price">LKR ${label.price.toLocaleString()}</span>
+        </div>
+      </div>`;
+    return Array.from({ length: Math.max(0, label.copies) }, () => cell);
+  });
+
+  if (cells.length === 0) {
+    throw new Error('No labels to print');
+  }
+
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Popup blocked. Please allow popups to print labels.');
+  }
+
+  printWindow.document.write(`
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Barcode Labels</title>
+      <style>
+        @page { size: A4; margin: 10mm 0 0 0; }
+        * { box-sizing: border-box; }
+        body { margin: 0; font-family: Arial, sans-serif; color: #000; }
+        .sheet { display: grid; grid-template-columns: repeat(${LABEL_COLUMNS}, ${LABEL_WIDTH_MM}mm); grid-auto-rows: ${LABEL_HEIGHT_MM}mm; }
+        .label { padding: 2mm 5mm; overflow: hidden; page-break-inside: avoid; display: flex; flex-direction: column; justify-content: space-between; }
+        .name { font-size: 9pt; font-weight: bold; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+        .variant { font-size: 8pt; }
+        .footer { display: flex; justify-content: space-between; font-size: 8pt; }
+        .code { letter-spacing: 1px; }
+        .price { font-weight: bold; }
+      </style>
+    </head>
+    <body>
+      <div class="sheet">${cells.join('')}</div>
+      <script>window.onload = function () { window.print(); };</script>
+    </body>
+    </html>
+  `);
+  printWindow.document.close();
+};
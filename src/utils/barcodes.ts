@@ -0,0 +1,242 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { BarcodeSymbology, Product, ProductBarcode, ScannedProduct } from '@/types/product';
+import { chunkArray, fetchAllSupabaseRows } from '@/utils/supabasePagination';
+
+type ProductBarcodeRow = Database['public']['Tables']['product_barcodes']['Row'];
+type ProductRow = Database['public']['Tables']['products']['Row'];
+
+// EAN-13 digit patterns for the left-hand "L" set; "R" is its complement and "G" is "R" reversed
+const EAN_L_CODES = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+// Which of L/G encodes each left-hand digit, chosen by the first digit
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+// Code 128 bar/space widths by symbol value; 104 is Start B, 106 is Stop
+const CODE128_WIDTHS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+const toProduct = (row: ProductRow): Product => ({
+  id: row.id,
+  name: row.name,
+  category: row.category,
+  subCategory: row.sub_category || '',
+  colors: row.colors || [],
+  sizes: row.sizes || [],
+  sellingPrice: Number(row.selling_price),
+  billingPrice: Number(row.billing_price),
+  image: row.image || undefined,
+  description: row.description || undefined
+});
+
+const toProductBarcode = (row: ProductBarcodeRow): ProductBarcode => ({
+  id: row.id,
+  productId: row.product_id,
+  color: row.color,
+  size: row.size,
+  barcode: row.barcode,
+  symbology: row.symbology === 'code128' ? 'code128' : 'ean13'
+});
+
+/**
+ * Check digit for the first 12 digits of an EAN-13
+ */
+export const ean13CheckDigit = (digits: string) => {
+  const sum = digits
+    .slice(0, 12)
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidEan13 = (code: string) =>
+  /^\d{13}$/.test(code) && ean13CheckDigit(code) === Number(code[12]);
+
+/**
+ * Modules of an EAN-13 as a string of 1 (bar) and 0 (space), 95 wide
+ */
+export const encodeEan13 = (code: string) => {
+  if (!isValidEan13(code)) {
+    throw new Error(`${code} is not a valid EAN-13`);
+  }
+
+  const digits = code.split('').map(Number);
+  const parity = EAN_PARITY[digits[0]];
+  const right = (digit: number) => EAN_L_CODES[digit].split('').map(bit => (bit === '1' ? '0' : '1')).join('');
+
+  const left = digits.slice(1, 7).map((digit, index) =>
+    parity[index] === 'L' ? EAN_L_CODES[digit] : right(digit).split('').reverse().join('')
+  );
+
+  return `101${left.join('')}01010${digits.slice(7).map(right).join('')}101`;
+};
+
+/**
+ * Modules of a Code 128 (set B) barcode as a string of 1 (bar) and 0 (space)
+ */
+export const encodeCode128 = (text: string) => {
+  const values = text.split('').map(char => {
+    const value = char.charCodeAt(0) - 32;
+    if (value < 0 || value > 94) {
+      throw new Error(`"${char}" cannot be printed in a Code 128 barcode`);
+    }
+    return value;
+  });
+
+  const checksum = values.reduce((sum, value, index) => sum + value * (index + 1), CODE128_START_B) % 103;
+
+  return [CODE128_START_B, ...values, checksum, CODE128_STOP]
+    .map(value =>
+      CODE128_WIDTHS[value]
+        .split('')
+        .map((width, index) => (index % 2 === 0 ? '1' : '0').repeat(Number(width)))
+        .join('')
+    )
+    .join('');
+};
+
+/**
+ * Inline SVG of a barcode, sized in millimetres for printing. Quiet zones are included.
+ */
+export const renderBarcodeSvg = (
+  barcode: string,
+  symbology: BarcodeSymbology,
+  options: { width: number; height: number }
+) => {
+  const modules = symbology === 'ean13' ? encodeEan13(barcode) : encodeCode128(barcode);
+  const quietZone = symbology === 'ean13' ? 9 : 10;
+  const totalModules = modules.length + quietZone * 2;
+
+  const bars: string[] = [];
+  let start = -1;
+  for (let index = 0; index <= modules.length; index++) {
+    if (modules[index] === '1' && start < 0) {
+      start = index;
+    } else if (modules[index] !== '1' && start >= 0) {
+      bars.push(`<rect x="${start + quietZone}" y="0" width="${index - start}" height="1" />`);
+      start = -1;
+    }
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${options.width}mm" height="${options.height}mm" viewBox="0 0 ${totalModules} 1" preserveAspectRatio="none" shape-rendering="crispEdges"><g fill="#000">${bars.join('')}</g></svg>`;
+};
+
+/**
+ * Saved barcodes for the given products
+ */
+export const getProductBarcodes = async (productIds: string[]): Promise<ProductBarcode[]> => {
+  const batches = await Promise.all(
+    chunkArray(productIds, 200).map(ids =>
+      fetchAllSupabaseRows<ProductBarcodeRow>(() =>
+        supabase
+          .from('product_barcodes')
+          .select('*')
+          .in('product_id', ids)
+          .order('color')
+          .order('size')
+      )
+    )
+  );
+
+  return batches.flat().map(toProductBarcode);
+};
+
+/**
+ * Generate an EAN-13 for every color/size of the products that has none. Returns the number created.
+ */
+export const assignProductBarcodes = async (productIds: string[]): Promise<number> => {
+  const { data, error } = await supabase.rpc('assign_product_barcodes', { p_product_ids: productIds });
+  if (error) throw error;
+  return data ?? 0;
+};
+
+/**
+ * Replace a variant's barcode, e.g. with the supplier barcode already on the garment. Superusers only.
+ */
+export const setProductBarcode = async (
+  variant: { productId: string; color: string; size: string },
+  barcode: string
+) => {
+  const code = barcode.trim();
+  if (!code) {
+    throw new Error('Enter a barcode');
+  }
+
+  const symbology: BarcodeSymbology = isValidEan13(code) ? 'ean13' : 'code128';
+  if (symbology === 'code128') {
+    // Throws for characters a label printer cannot encode
+    encodeCode128(code);
+  }
+
+  const { error } = await supabase
+    .from('product_barcodes')
+    .upsert({
+      product_id: variant.productId,
+      color: variant.color,
+      size: variant.size,
+      barcode: code,
+      symbology
+    }, { onConflict: 'product_id,color,size' });
+
+  if (error) {
+    throw error.code === '23505' ? new Error(`Barcode ${code} is already used by another variant`) : error;
+  }
+};
+
+/**
+ * The product variant a scanned barcode belongs to, or null when it is not known
+ */
+export const findProductByBarcode = async (barcode: string): Promise<ScannedProduct | null> => {
+  const code = barcode.trim();
+  if (!code) return null;
+
+  const { data, error } = await supabase
+    .from('product_barcodes')
+    .select('barcode, color, size, products(*)')
+    .eq('barcode', code)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data?.products) return null;
+
+  return {
+    product: toProduct(data.products as ProductRow),
+    color: data.color,
+    size: data.size,
+    barcode: data.barcode
+  };
+};
+
+const normalizeName = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Whether a scanned variant is the given line. Lines from the ledger or a supplier invoice may carry the
+ * product description or an "[CODE] Name" label instead of the catalog name.
+ */
+export const matchesScannedProduct = (
+  scanned: ScannedProduct,
+  line: { productName: string; color: string; size: string }
+) => {
+  const lineName = normalizeName(line.productName);
+  const lineNameWithoutCode = lineName.replace(/^\[[^\]]*\]\s*/, '');
+  const nameMatches = [scanned.product.name, scanned.product.description]
+    .filter((name): name is string => !!name)
+    .map(normalizeName)
+    .some(name => name === lineName || name === lineNameWithoutCode);
+
+  return nameMatches &&
+    normalizeName(line.color) === normalizeName(scanned.color) &&
+    normalizeName(line.size) === normalizeName(scanned.size);
+};
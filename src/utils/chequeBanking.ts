@@ -0,0 +1,274 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type {
+  BankAccount,
+  ChequeDepositBatch,
+  ChequeForecastBucket,
+  DepositBatchStatus,
+  RegisterCheque
+} from '@/types/collections';
+import { centsToMoney, moneyToCents } from '@/utils/money';
+import { fetchAllSupabaseRows } from '@/utils/supabasePagination';
+
+type BankAccountRow = Database['public']['Tables']['agency_bank_accounts']['Row'];
+
+type ChequeRow = Database['public']['Tables']['collection_cheques']['Row'] & {
+  collections?: { customer_id: string; customer_name: string } | null;
+};
+
+type BatchRow = Database['public']['Tables']['cheque_deposit_batches']['Row'] & {
+  agencies?: { name: string } | null;
+  agency_bank_accounts?: BankAccountRow | null;
+  collection_cheques?: ChequeRow[];
+};
+
+// Banks refuse cheques older than six months, so cleared-but-never-banked cheques drop off the register after that
+const CHEQUE_VALIDITY_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FORECAST_BUCKETS: Array<Pick<ChequeForecastBucket, 'key' | 'label'>> = [
+  { key: 'due', label: 'Due now' },
+  { key: '30', label: 'Next 30 days' },
+  { key: '60', label: '31 – 60 days' },
+  { key: '90', label: '61 – 90 days' },
+  { key: 'later', label: 'After 90 days' }
+];
+
+const toDateKey = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const toBankAccount = (row: BankAccountRow): BankAccount => ({
+  id: row.id,
+  agencyId: row.agency_id,
+  bankName: row.bank_name,
+  branch: row.branch || undefined,
+  accountName: row.account_name,
+  accountNumber: row.account_number,
+  isActive: row.is_active,
+  statementFormatId: row.statement_format_id || undefined
+});
+
+const toRegisterCheque = (row: ChequeRow): RegisterCheque => ({
+  id: row.id,
+  collectionId: row.collection_id,
+  customerId: row.collections?.customer_id || '',
+  customerName: row.collections?.customer_name || '',
+  chequeNumber: row.cheque_number,
+  bankName: row.bank_name,
+  amount: Number(row.amount),
+  chequeDate: new Date(`${row.cheque_date}T00:00:00`),
+  status: row.status || 'pending',
+  depositBatchId: row.deposit_batch_id || undefined,
+  depositedAt: row.deposited_at ? new Date(`${row.deposited_at}T00:00:00`) : undefined,
+  returnReason: row.return_reason || undefined
+});
+
+const toDepositBatch = (row: BatchRow): ChequeDepositBatch => ({
+  id: row.id,
+  agencyId: row.agency_id,
+  agencyName: row.agencies?.name || undefined,
+  batchNumber: row.batch_number,
+  bankAccountId: row.bank_account_id,
+  bankAccount: row.agency_bank_accounts ? toBankAccount(row.agency_bank_accounts) : undefined,
+  depositDate: new Date(`${row.deposit_date}T00:00:00`),
+  status: row.status as DepositBatchStatus,
+  chequeCount: row.cheque_count,
+  totalAmount: Number(row.total_amount),
+  notes: row.notes || undefined,
+  slipPdfUrl: row.slip_pdf_url || undefined,
+  createdAt: new Date(row.created_at),
+  settledAt: row.settled_at ? new Date(row.settled_at) : undefined,
+  cheques: (row.collection_cheques || [])
+    .map(toRegisterCheque)
+    .sort((a, b) => a.chequeNumber.localeCompare(b.chequeNumber))
+});
+
+/**
+ * Bank accounts of an agency, active ones first
+ */
+export const getBankAccounts = async (agencyId: string): Promise<BankAccount[]> => {
+  const { data, error } = await supabase
+    .from('agency_bank_accounts')
+    .select('*')
+    .eq('agency_id', agencyId)
+    .order('is_active', { ascending: false })
+    .order('bank_name');
+
+  if (error) throw error;
+  return (data || []).map(toBankAccount);
+};
+
+export const saveBankAccount = async (
+  agencyId: string,
+  account: Pick<BankAccount, 'bankName' | 'branch' | 'accountName' | 'accountNumber'> & { id?: string }
+): Promise<void> => {
+  const values = {
+    agency_id: agencyId,
+    bank_name: account.bankName.trim(),
+    branch: account.branch?.trim() || null,
+    account_name: account.accountName.trim(),
+    account_number: account.accountNumber.trim()
+  };
+
+  const { error } = account.id
+    ? await supabase.from('agency_bank_accounts').update(values).eq('id', account.id)
+    : await supabase.from('agency_bank_accounts').insert(values);
+
+  if (error) throw error;
+};
+
+export const setBankAccountActive = async (accountId: string, isActive: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('agency_bank_accounts')
+    .update({ is_active: isActive })
+    .eq('id', accountId);
+
+  if (error) throw error;
+};
+
+/**
+ * Cheques of the agency still to be banked or waiting for the bank, by maturity date. Includes cheques the
+ * Return Cheques Lodge cleared on their date without banking them, while they are still valid.
+ */
+export const getRegisterCheques = async (agencyId?: string | null): Promise<RegisterCheque[]> => {
+  const validFrom = toDateKey(new Date(Date.now() - CHEQUE_VALIDITY_DAYS * DAY_MS));
+
+  const rows = await fetchAllSupabaseRows<ChequeRow>(() => {
+    const query = supabase
+      .from('collection_cheques')
+      .select('*, collections!inner(customer_id, customer_name, agency_id)')
+      .or(`status.eq.pending,status.is.null,and(status.eq.cleared,resolution_method.is.null,deposit_batch_id.is.null,cheque_date.gte.${validFrom})`)
+      .order('cheque_date')
+      .order('cheque_number');
+    return agencyId ? query.eq('collections.agency_id', agencyId) : query;
+  });
+
+  return rows.map(toRegisterCheque);
+};
+
+/**
+ * Cheques banked into an account on or before a date that the bank has not cleared or returned yet
+ */
+export const getWaitingBankedCheques = async (bankAccountId: string, depositedBy: string): Promise<RegisterCheque[]> => {
+  const rows = await fetchAllSupabaseRows<ChequeRow>(() =>
+    supabase
+      .from('collection_cheques')
+      .select('*, collections(customer_id, customer_name), cheque_deposit_batches!inner(bank_account_id)')
+      .eq('cheque_deposit_batches.bank_account_id', bankAccountId)
+      .eq('status', 'pending')
+      .lte('deposited_at', depositedBy)
+      .order('deposited_at')
+  );
+
+  return rows.map(toRegisterCheque);
+};
+
+/**
+ * Deposit batches with their cheques, newest first
+ */
+export const getDepositBatches = async (agencyId?: string | null): Promise<ChequeDepositBatch[]> => {
+  const rows = await fetchAllSupabaseRows<BatchRow>(() => {
+    const query = supabase
+      .from('cheque_deposit_batches')
+      .select('*, agencies(name), agency_bank_accounts(*), collection_cheques(*, collections(customer_id, customer_name))')
+      .order('created_at', { ascending: false });
+    return agencyId ? query.eq('agency_id', agencyId) : query;
+  });
+
+  return rows.map(toDepositBatch);
+};
+
+export const getDepositBatch = async (batchId: string): Promise<ChequeDepositBatch> => {
+  const { data, error } = await supabase
+    .from('cheque_deposit_batches')
+    .select('*, agencies(name), agency_bank_accounts(*), collection_cheques(*, collections(customer_id, customer_name))')
+    .eq('id', batchId)
+    .single();
+
+  if (error) throw error;
+  return toDepositBatch(data as BatchRow);
+};
+
+/**
+ * Bank the given cheques into one of the agency's accounts; returns the new batch id
+ */
+export const createDepositBatch = async (
+  agencyId: string,
+  bankAccountId: string,
+  chequeIds: string[],
+  depositDate: string,
+  notes?: string
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('create_cheque_deposit_batch', {
+    p_agency_id: agencyId,
+    p_bank_account_id: bankAccountId,
+    p_cheque_ids: chequeIds,
+    p_deposit_date: depositDate,
+    p_notes: notes
+  });
+
+  if (error) throw error;
+  return data as string;
+};
+
+/**
+ * Record the bank statement result for cheques of a batch; returns how many cheques were updated
+ */
+export const settleDepositBatch = async (
+  batchId: string,
+  clearedIds: string[],
+  returnedIds: string[],
+  resultDate: string,
+  returnReason?: string
+): Promise<number> => {
+  const { data, error } = await supabase.rpc('settle_cheque_deposit_batch', {
+    p_batch_id: batchId,
+    p_cleared_ids: clearedIds,
+    p_returned_ids: returnedIds,
+    p_return_reason: returnReason,
+    p_result_date: resultDate
+  });
+
+  if (error) throw error;
+  return Number(data || 0);
+};
+
+export const setDepositSlipUrl = async (batchId: string, slipPdfUrl: string): Promise<void> => {
+  const { error } = await supabase
+    .from('cheque_deposit_batches')
+    .update({ slip_pdf_url: slipPdfUrl })
+    .eq('id', batchId);
+
+  if (error) throw error;
+};
+
+/**
+ * Cash expected from the register's cheques in 30/60/90-day buckets. Cheques that are due or already
+ * banked count as due now.
+ */
+export const buildChequeForecast = (cheques: RegisterCheque[], today = new Date()): ChequeForecastBucket[] => {
+  const todayTime = new Date(`${toDateKey(today)}T00:00:00`).getTime();
+  const totals = Object.fromEntries(
+    FORECAST_BUCKETS.map(bucket => [bucket.key, { cents: 0, count: 0 }])
+  ) as Record<ChequeForecastBucket['key'], { cents: number; count: number }>;
+
+  cheques.forEach(cheque => {
+    const days = Math.round((cheque.chequeDate.getTime() - todayTime) / DAY_MS);
+    const key: ChequeForecastBucket['key'] = cheque.depositBatchId || days <= 0
+      ? 'due'
+      : days <= 30 ? '30' : days <= 60 ? '60' : days <= 90 ? '90' : 'later';
+    totals[key].cents += moneyToCents(cheque.amount);
+    totals[key].count += 1;
+  });
+
+  return FORECAST_BUCKETS.map(bucket => ({
+    ...bucket,
+    amount: centsToMoney(totals[bucket.key].cents),
+    count: totals[bucket.key].count
+  }));
+};
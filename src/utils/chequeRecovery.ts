@@ -0,0 +1,162 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type {
+  ChequeRecoveryCase,
+  CustomerCashOnly,
+  RecoveryCaseStatus,
+  RecoveryEvent,
+  RecoveryEventType
+} from '@/types/collections';
+import { fetchAllSupabaseRows } from '@/utils/supabasePagination';
+
+type EventRow = Database['public']['Tables']['cheque_recovery_events']['Row'];
+
+type CaseRow = Database['public']['Tables']['cheque_recovery_cases']['Row'] & {
+  customers?: { name: string; is_cash_only: boolean } | null;
+  collection_cheques?: { cheque_number: string; bank_name: string; return_reason: string | null; returned_at: string | null } | null;
+  cheque_recovery_events?: EventRow[];
+};
+
+const CASE_SELECT = '*, customers!cheque_recovery_cases_customer_id_fkey(name, is_cash_only), collection_cheques!cheque_recovery_cases_cheque_id_fkey(cheque_number, bank_name, return_reason, returned_at), cheque_recovery_events(*)';
+
+export const RECOVERY_EVENT_LABELS: Record<RecoveryEventType, string> = {
+  replacement_cheque: 'Replacement cheque',
+  cash: 'Cash received',
+  charge: 'Charge',
+  follow_up: 'Follow-up',
+  closed: 'Closed'
+};
+
+const toRecoveryEvent = (row: EventRow): RecoveryEvent => ({
+  id: row.id,
+  eventType: row.event_type as RecoveryEventType,
+  amount: Number(row.amount),
+  chargesAmount: Number(row.charges_amount),
+  replacementChequeId: row.replacement_cheque_id || undefined,
+  collectionId: row.collection_id || undefined,
+  debitNoteId: row.debit_note_id || undefined,
+  followUpDate: row.follow_up_date ? new Date(`${row.follow_up_date}T00:00:00`) : undefined,
+  notes: row.notes || undefined,
+  createdAt: new Date(row.created_at)
+});
+
+const toRecoveryCase = (row: CaseRow): ChequeRecoveryCase => ({
+  id: row.id,
+  agencyId: row.agency_id,
+  customerId: row.customer_id,
+  customerName: row.customers?.name || '',
+  customerIsCashOnly: !!row.customers?.is_cash_only,
+  chequeId: row.cheque_id,
+  chequeNumber: row.collection_cheques?.cheque_number || '',
+  bankName: row.collection_cheques?.bank_name || '',
+  returnReason: row.collection_cheques?.return_reason || undefined,
+  returnedAt: row.collection_cheques?.returned_at ? new Date(row.collection_cheques.returned_at) : undefined,
+  chequeAmount: Number(row.cheque_amount),
+  chargesAmount: Number(row.charges_amount),
+  recoveredAmount: Number(row.recovered_amount),
+  status: row.status as RecoveryCaseStatus,
+  nextFollowUpDate: row.next_follow_up_date ? new Date(`${row.next_follow_up_date}T00:00:00`) : undefined,
+  closedReason: row.closed_reason || undefined,
+  createdAt: new Date(row.created_at),
+  events: (row.cheque_recovery_events || [])
+    .map(toRecoveryEvent)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+});
+
+/**
+ * Recovery cases of returned cheques, open ones first by follow-up date
+ */
+export const getRecoveryCases = async (agencyId?: string | null): Promise<ChequeRecoveryCase[]> => {
+  const rows = await fetchAllSupabaseRows<CaseRow>(() => {
+    const query = supabase
+      .from('cheque_recovery_cases')
+      .select(CASE_SELECT)
+      .order('created_at', { ascending: false });
+    return agencyId ? query.eq('agency_id', agencyId) : query;
+  });
+
+  const statusOrder: Record<RecoveryCaseStatus, number> = { open: 0, recovered: 1, closed: 2 };
+  return rows.map(toRecoveryCase).sort((a, b) =>
+    statusOrder[a.status] - statusOrder[b.status]
+    || (a.nextFollowUpDate?.getTime() ?? Infinity) - (b.nextFollowUpDate?.getTime() ?? Infinity)
+  );
+};
+
+/**
+ * What is still owed on a case: the cheque and its charges less what has been recovered
+ */
+export const getRecoveryBalance = (recoveryCase: ChequeRecoveryCase): number =>
+  Math.max(recoveryCase.chequeAmount + recoveryCase.chargesAmount - recoveryCase.recoveredAmount, 0);
+
+export const getCustomerCashOnly = async (customerId: string): Promise<CustomerCashOnly> => {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('is_cash_only, cash_only_reason, cash_only_since')
+    .eq('id', customerId)
+    .single();
+
+  if (error) throw error;
+  return {
+    isCashOnly: data.is_cash_only,
+    reason: data.cash_only_reason || undefined,
+    since: data.cash_only_since ? new Date(data.cash_only_since) : undefined
+  };
+};
+
+export const setCustomerCashOnly = async (customerId: string, cashOnly: boolean, reason?: string): Promise<void> => {
+  const { error } = await supabase.rpc('set_customer_cash_only', {
+    p_customer_id: customerId,
+    p_cash_only: cashOnly,
+    p_reason: reason
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Raise another charge on the case as a debit note; returns the debit note id
+ */
+export const addRecoveryCharge = async (caseId: string, amount: number, reason: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('add_cheque_recovery_charge', {
+    p_case_id: caseId,
+    p_amount: amount,
+    p_reason: reason
+  });
+
+  if (error) throw error;
+  return data as string;
+};
+
+/**
+ * Record cash received on the case as a cash collection, whose id is returned. It pays the case's charges first
+ * and the rest goes to the oldest invoices and debit notes.
+ */
+export const recordRecoveryCash = async (caseId: string, amount: number, notes?: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('record_cheque_recovery_cash', {
+    p_case_id: caseId,
+    p_amount: amount,
+    p_notes: notes
+  });
+
+  if (error) throw error;
+  return data as string;
+};
+
+export const logRecoveryFollowUp = async (caseId: string, notes: string, nextFollowUpDate?: string): Promise<void> => {
+  const { error } = await supabase.rpc('log_cheque_recovery_follow_up', {
+    p_case_id: caseId,
+    p_notes: notes,
+    p_next_follow_up_date: nextFollowUpDate
+  });
+
+  if (error) throw error;
+};
+
+export const closeRecoveryCase = async (caseId: string, reason: string): Promise<void> => {
+  const { error } = await supabase.rpc('close_cheque_recovery_case', {
+    p_case_id: caseId,
+    p_reason: reason
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,181 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type {
+  AllocationStrategy,
+  AllocationType,
+  CollectionAllocation,
+  CustomerCredit,
+  InvoiceSummary
+} from '@/types/collections';
+import { centsToMoney, moneyToCents } from '@/utils/money';
+
+type AllocationRow = Database['public']['Tables']['collection_allocations']['Row'] & {
+  invoices?: { invoice_number: string | null } | null;
+  customer_debit_notes?: { debit_note_number: string } | null;
+};
+
+type CreditRow = Database['public']['Tables']['customer_credits']['Row'] & {
+  collections?: { created_at: string | null } | null;
+  customer_credit_refunds?: Database['public']['Tables']['customer_credit_refunds']['Row'][];
+};
+
+export interface PlannedAllocation {
+  invoiceId: string;
+  amount: number;
+}
+
+export const ALLOCATION_STRATEGY_LABELS: Record<AllocationStrategy, string> = {
+  oldest_first: 'Oldest invoice first',
+  due_date: 'Earliest due date first',
+  specific: 'Specific invoices'
+};
+
+const toCollectionAllocation = (row: AllocationRow): CollectionAllocation => ({
+  id: row.id,
+  collectionId: row.collection_id,
+  invoiceId: row.invoice_id || undefined,
+  invoiceNumber: row.invoices?.invoice_number || undefined,
+  debitNoteId: row.debit_note_id || undefined,
+  debitNoteNumber: row.customer_debit_notes?.debit_note_number || undefined,
+  allocatedAmount: Number(row.allocated_amount),
+  allocatedAt: new Date(row.allocated_at || 0),
+  allocatedBy: row.allocated_by || '',
+  allocationType: row.allocation_type as AllocationType,
+  reversalOf: row.reversal_of || undefined,
+  reason: row.reason || undefined
+});
+
+const toCustomerCredit = (row: CreditRow): CustomerCredit => ({
+  id: row.id,
+  customerId: row.customer_id,
+  collectionId: row.collection_id,
+  collectionDate: row.collections?.created_at ? new Date(row.collections.created_at) : undefined,
+  balance: Number(row.balance),
+  refundedAmount: Number(row.refunded_amount),
+  refunds: (row.customer_credit_refunds || []).map(refund => ({
+    id: refund.id,
+    amount: Number(refund.amount),
+    creditNoteReference: refund.credit_note_reference,
+    notes: refund.notes || undefined,
+    refundedAt: new Date(refund.refunded_at)
+  })),
+  createdAt: new Date(row.created_at)
+});
+
+/**
+ * Preview of how allocate_collection will spread an amount, for the collection form. The database
+ * allocates the same way when the collection is saved, except that oldest_first and due_date also pay
+ * open debit notes in date order. specificAmounts caps each picked invoice; null means up to its outstanding.
+ */
+export const planCollectionAllocation = (
+  strategy: AllocationStrategy,
+  invoices: InvoiceSummary[],
+  amount: number,
+  specificAmounts: Record<string, number | null> = {}
+): { allocations: PlannedAllocation[]; credit: number } => {
+  const ordered = strategy === 'specific'
+    ? invoices.filter(invoice => invoice.id in specificAmounts)
+    : [...invoices].sort((a, b) => {
+        if (strategy === 'due_date') {
+          const dueDiff = (a.dueDate?.getTime() ?? Infinity) - (b.dueDate?.getTime() ?? Infinity);
+          if (dueDiff !== 0 && !Number.isNaN(dueDiff)) return dueDiff;
+        }
+        return a.createdAt.getTime() - b.createdAt.getTime();
+      });
+
+  let availableCents = moneyToCents(amount);
+  const allocations: PlannedAllocation[] = [];
+
+  ordered.forEach(invoice => {
+    const cap = strategy === 'specific' ? specificAmounts[invoice.id] : null;
+    const cents = Math.min(
+      availableCents,
+      moneyToCents(invoice.outstandingAmount),
+      cap === null || cap === undefined ? availableCents : moneyToCents(cap)
+    );
+    if (cents <= 0) return;
+    allocations.push({ invoiceId: invoice.id, amount: centsToMoney(cents) });
+    availableCents -= cents;
+  });
+
+  return { allocations, credit: centsToMoney(Math.max(availableCents, 0)) };
+};
+
+/**
+ * Allocate a saved collection to the customer's invoices; returns the amount kept as customer credit
+ */
+export const allocateCollection = async (
+  collectionId: string,
+  strategy: AllocationStrategy,
+  allocations: Array<{ invoiceId: string; amount?: number | null }> = []
+): Promise<number> => {
+  const { data, error } = await supabase.rpc('allocate_collection', {
+    p_collection_id: collectionId,
+    p_strategy: strategy,
+    p_allocations: strategy === 'specific'
+      ? allocations.map(allocation => ({ invoice_id: allocation.invoiceId, amount: allocation.amount ?? null }))
+      : undefined
+  });
+
+  if (error) throw error;
+  return Number(data || 0);
+};
+
+/**
+ * Allocations, credit applications and reversals of a collection, oldest first; each pays an invoice or a debit note
+ */
+export const getCollectionAllocations = async (collectionId: string): Promise<CollectionAllocation[]> => {
+  const { data, error } = await supabase
+    .from('collection_allocations')
+    .select('*, invoices(invoice_number), customer_debit_notes(debit_note_number)')
+    .eq('collection_id', collectionId)
+    .order('allocated_at');
+
+  if (error) throw error;
+  return (data || []).map(toCollectionAllocation);
+};
+
+/**
+ * A customer's credits that still have an unapplied balance, oldest first
+ */
+export const getCustomerCredits = async (customerId: string): Promise<CustomerCredit[]> => {
+  const { data, error } = await supabase
+    .from('customer_credits')
+    .select('*, collections(created_at), customer_credit_refunds(*)')
+    .eq('customer_id', customerId)
+    .gt('balance', 0)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []).map(toCustomerCredit);
+};
+
+/**
+ * Apply a customer's open credit to their outstanding invoices, oldest first; returns the amount applied
+ */
+export const applyCustomerCredit = async (customerId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('apply_customer_credit', { p_customer_id: customerId });
+
+  if (error) throw error;
+  return Number(data || 0);
+};
+
+/**
+ * Return credit to the customer on a credit note; returns what is left of the credit
+ */
+export const refundCustomerCredit = async (
+  creditId: string,
+  amount: number,
+  creditNoteReference: string,
+  notes?: string
+): Promise<number> => {
+  const { data, error } = await supabase.rpc('refund_customer_credit', {
+    p_credit_id: creditId,
+    p_amount: amount,
+    p_credit_note_reference: creditNoteReference,
+    p_notes: notes
+  });
+
+  if (error) throw error;
+  return Number(data || 0);
+};
@@ -0,0 +1,245 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { ChequeDetail } from '@/types/collections';
+import { roundMoney } from '@/utils/money';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CustomerBalance {
+  totalInvoiced: number;
+  totalCollected: number;
+  unrealizedPayments: number;
+  totalReturns: number;
+  returnedChequesAmount: number;
+  returnedChequesCount: number;
+  // Approved debit notes, e.g. returned cheque charges; the collections that pay them are payments
+  totalDebitNotes: number;
+  // Approved credit notes: price corrections, damaged-goods allowances and rebates
+  totalCreditNotes: number;
+  // Future-dated cheques are not payments yet, so they stay in the outstanding amount
+  outstandingAmount: number;
+  outstandingWithUnrealized: number;
+}
+
+export interface CustomerCreditStatus {
+  balance: CustomerBalance;
+  creditLimit: number | null;
+  maxOverdueDays: number | null;
+  oldestOutstandingDays: number;
+  // Human-readable reasons this sale breaches the customer's limits; empty when within limits
+  breaches: string[];
+}
+
+// A direct invoice made offline that broke the customer's limits when it synced
+export interface CreditBreachInvoice {
+  id: string;
+  invoiceNumber: string;
+  customerName: string;
+  total: number;
+  createdAt: Date;
+  reasons: string[];
+}
+
+type BalanceCollection = {
+  cashAmount: number;
+  cashDiscount?: number;
+  creditRefunded?: number;
+  chequeDetails?: Array<Pick<ChequeDetail, 'amount' | 'chequeDate' | 'status'>>;
+};
+
+/**
+ * Outstanding balance for a customer
+ * Outstanding = Total Invoiced - Realized Payments - Returns + Returned Cheques + Debit Notes - Credit Notes
+ * Credit paid back to the customer on a credit note is no longer a payment
+ * Future cheques don't count as payments until their date arrives
+ */
+export const calculateCustomerBalance = (
+  invoiceTotals: number[],
+  collections: BalanceCollection[],
+  returnTotals: number[],
+  debitNoteTotals: number[] = [],
+  creditNoteTotals: number[] = [],
+  asOf: Date = new Date()
+): CustomerBalance => {
+  const today = new Date(asOf);
+  today.setHours(23, 59, 59, 999); // Set to end of day for comparison
+
+  let totalCashCollected = 0;
+  let totalCashDiscounts = 0;
+  let totalCreditRefunds = 0;
+  let totalRealizedChequePayments = 0; // Only past/current dated cheques
+  let totalUnrealizedChequePayments = 0; // Future-dated cheques
+  let returnedChequesAmount = 0;
+  let returnedChequesCount = 0;
+
+  collections.forEach(collection => {
+    totalCashCollected += collection.cashAmount;
+    totalCashDiscounts += collection.cashDiscount || 0;
+    totalCreditRefunds += collection.creditRefunded || 0;
+
+    collection.chequeDetails?.forEach(cheque => {
+      const chequeDate = new Date(cheque.chequeDate);
+      chequeDate.setHours(23, 59, 59, 999); // Set to end of cheque date
+
+      if (cheque.status === 'returned' || cheque.status === 'held') {
+        // Returned cheques add back to outstanding
+        returnedChequesAmount += cheque.amount;
+        returnedChequesCount++;
+      } else if (cheque.status !== 'resolved' && chequeDate <= today) {
+        totalRealizedChequePayments += cheque.amount;
+      } else if (cheque.status !== 'resolved') {
+        totalUnrealizedChequePayments += cheque.amount;
+      }
+    });
+  });
+
+  const totalInvoiced = roundMoney(invoiceTotals.reduce((sum, total) => sum + total, 0));
+  const totalReturns = roundMoney(returnTotals.reduce((sum, total) => sum + (total || 0), 0));
+  const totalDebitNotes = roundMoney(debitNoteTotals.reduce((sum, total) => sum + (total || 0), 0));
+  const totalCreditNotes = roundMoney(creditNoteTotals.reduce((sum, total) => sum + (total || 0), 0));
+  const totalRealizedPayments = roundMoney(totalCashCollected + totalRealizedChequePayments + totalCashDiscounts - totalCreditRefunds);
+  const totalAllPayments = roundMoney(totalRealizedPayments + totalUnrealizedChequePayments);
+
+  return {
+    totalInvoiced,
+    totalCollected: totalRealizedPayments,
+    unrealizedPayments: roundMoney(totalUnrealizedChequePayments),
+    totalReturns,
+    returnedChequesAmount: roundMoney(returnedChequesAmount),
+    returnedChequesCount,
+    totalDebitNotes,
+    totalCreditNotes,
+    outstandingAmount: roundMoney(totalInvoiced - totalRealizedPayments - totalReturns + returnedChequesAmount + totalDebitNotes - totalCreditNotes),
+    outstandingWithUnrealized: roundMoney(totalInvoiced - totalAllPayments - totalReturns + returnedChequesAmount + totalDebitNotes - totalCreditNotes)
+  };
+};
+
+/**
+ * Check a customer's balance and oldest unpaid invoice against their credit limits
+ * Customer limits override the agency defaults; a NULL limit is not enforced
+ * additionalAmount is the value of the order or invoice being created
+ */
+export const getCustomerCreditStatus = async (
+  customerId: string,
+  agencyId: string | null | undefined,
+  additionalAmount = 0
+): Promise<CustomerCreditStatus> => {
+  const [customerResult, settingsResult, invoicesResult, collectionsResult, returnsResult, debitNotesResult, creditNotesResult] = await Promise.all([
+    supabase.from('customers').select('credit_limit, max_overdue_days').eq('id', customerId).maybeSingle(),
+    agencyId
+      ? supabase.from('agency_credit_settings').select('default_credit_limit, default_max_overdue_days').eq('agency_id', agencyId).maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+    supabase.from('invoices').select('id, total, created_at').eq('customer_id', customerId),
+    supabase.from('collections').select('cash_amount, cash_discount, collection_cheques (amount, cheque_date, status), customer_credits (refunded_amount)').eq('customer_id', customerId),
+    supabase.from('returns').select('invoice_id, total').eq('customer_id', customerId).in('status', ['approved', 'processed']),
+    supabase.from('customer_debit_notes').select('amount').eq('customer_id', customerId).eq('status', 'approved'),
+    supabase.from('customer_credit_notes').select('invoice_id, amount').eq('customer_id', customerId).eq('status', 'approved')
+  ]);
+
+  if (customerResult.error) console.warn('Customer credit fetch issue:', customerResult.error);
+  if (settingsResult.error && !settingsResult.error.message.includes('does not exist')) {
+    console.warn('Agency credit settings fetch issue:', settingsResult.error);
+  }
+  if (invoicesResult.error) throw invoicesResult.error;
+  if (collectionsResult.error) throw collectionsResult.error;
+  if (returnsResult.error) console.warn('Returns fetch issue:', returnsResult.error);
+  if (debitNotesResult.error) console.warn('Debit notes fetch issue:', debitNotesResult.error);
+  if (creditNotesResult.error) console.warn('Credit notes fetch issue:', creditNotesResult.error);
+
+  const invoices = invoicesResult.data || [];
+  const returns = returnsResult.data || [];
+  const creditNotes = creditNotesResult.data || [];
+
+  const balance = calculateCustomerBalance(
+    invoices.map(invoice => Number(invoice.total)),
+    (collectionsResult.data || []).map(collection => ({
+      cashAmount: Number(collection.cash_amount),
+      cashDiscount: Number(collection.cash_discount || 0),
+      creditRefunded: Number(collection.customer_credits?.refunded_amount || 0),
+      chequeDetails: (collection.collection_cheques || []).map(cheque => ({
+        amount: Number(cheque.amount),
+        chequeDate: new Date(cheque.cheque_date),
+        status: cheque.status
+      }))
+    })),
+    returns.map(ret => Number(ret.total || 0)),
+    (debitNotesResult.data || []).map(note => Number(note.amount)),
+    creditNotes.map(note => Number(note.amount))
+  );
+
+  // Age of the oldest invoice that still has a balance, as in the aging report
+  const allocationsByInvoice: Record<string, number> = {};
+  if (invoices.length > 0) {
+    const { data: allocationsData } = await supabase
+      .from('collection_allocations')
+      .select('invoice_id, allocated_amount')
+      .in('invoice_id', invoices.map(invoice => invoice.id));
+    (allocationsData || []).forEach(allocation => {
+      allocationsByInvoice[allocation.invoice_id] = (allocationsByInvoice[allocation.invoice_id] || 0) + Number(allocation.allocated_amount);
+    });
+  }
+
+  const now = Date.now();
+  const oldestOutstandingDays = invoices.reduce((oldest, invoice) => {
+    const returned = returns.filter(ret => ret.invoice_id === invoice.id).reduce((sum, ret) => sum + Number(ret.total || 0), 0);
+    const credited = creditNotes.filter(note => note.invoice_id === invoice.id).reduce((sum, note) => sum + Number(note.amount), 0);
+    const outstanding = roundMoney(Number(invoice.total) - (allocationsByInvoice[invoice.id] || 0) - returned - credited);
+    if (outstanding <= 0 || !invoice.created_at) return oldest;
+    const ageDays = Math.max(0, Math.floor((now - new Date(invoice.created_at).getTime()) / DAY_MS));
+    return Math.max(oldest, ageDays);
+  }, 0);
+
+  const customer = customerResult.data;
+  const settings = settingsResult.data;
+  const creditLimit = customer?.credit_limit ?? settings?.default_credit_limit ?? null;
+  const maxOverdueDays = customer?.max_overdue_days ?? settings?.default_max_overdue_days ?? null;
+
+  const breaches: string[] = [];
+  const projected = roundMoney(balance.outstandingAmount + additionalAmount);
+  if (creditLimit !== null && projected > Number(creditLimit)) {
+    breaches.push(
+      `Credit limit LKR ${Number(creditLimit).toLocaleString()} exceeded: outstanding LKR ${balance.outstandingAmount.toLocaleString()} + this sale LKR ${roundMoney(additionalAmount).toLocaleString()}`
+    );
+  }
+  if (maxOverdueDays !== null && oldestOutstandingDays > maxOverdueDays) {
+    breaches.push(`Oldest unpaid invoice is ${oldestOutstandingDays} days old (limit ${maxOverdueDays} days)`);
+  }
+
+  return {
+    balance,
+    creditLimit: creditLimit !== null ? Number(creditLimit) : null,
+    maxOverdueDays,
+    oldestOutstandingDays,
+    breaches
+  };
+};
+
+/**
+ * Direct invoices synced from offline over the customer's credit limits that no superuser has reviewed yet
+ */
+export const getUnreviewedCreditBreachInvoices = async (): Promise<CreditBreachInvoice[]> => {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('id, invoice_number, customer_name, total, created_at, credit_breach_reasons')
+    .not('credit_breach_reasons', 'is', null)
+    .is('credit_reviewed_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(invoice => ({
+    id: invoice.id,
+    invoiceNumber: invoice.invoice_number || invoice.id,
+    customerName: invoice.customer_name,
+    total: Number(invoice.total),
+    createdAt: new Date(invoice.created_at || Date.now()),
+    reasons: invoice.credit_breach_reasons || []
+  }));
+};
+
+/**
+ * Mark an invoice over the credit limit as reviewed by the current superuser
+ */
+export const reviewInvoiceCreditBreach = async (invoiceId: string) => {
+  const { error } = await supabase.rpc('review_invoice_credit_breach', { p_invoice_id: invoiceId });
+  if (error) throw error;
+};
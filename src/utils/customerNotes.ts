@@ -0,0 +1,157 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type {
+  CustomerNote,
+  CustomerNoteCategory,
+  CustomerNoteStatus,
+  CustomerNoteType
+} from '@/types/collections';
+import { fetchAllSupabaseRows } from '@/utils/supabasePagination';
+
+type NoteJoins = {
+  customers?: { name: string } | null;
+  invoices?: { invoice_number: string | null } | null;
+};
+type CreditNoteRow = Database['public']['Tables']['customer_credit_notes']['Row'] & NoteJoins;
+type DebitNoteRow = Database['public']['Tables']['customer_debit_notes']['Row'] & NoteJoins;
+
+const APPROVAL_THRESHOLD_KEY = 'customer_note_approval_value';
+
+const CREDIT_NOTE_SELECT = '*, customers!customer_credit_notes_customer_id_fkey(name), invoices!customer_credit_notes_invoice_id_fkey(invoice_number)';
+const DEBIT_NOTE_SELECT = '*, customers!customer_debit_notes_customer_id_fkey(name), invoices!customer_debit_notes_invoice_id_fkey(invoice_number)';
+
+export const NOTE_CATEGORY_LABELS: Record<CustomerNoteCategory, string> = {
+  price_correction: 'Price correction',
+  damaged_goods: 'Damaged goods allowance',
+  rebate: 'Rebate',
+  returned_cheque: 'Returned cheque charges',
+  other: 'Other'
+};
+
+export const NOTE_STATUS_LABELS: Record<CustomerNoteStatus, string> = {
+  pending_approval: 'Pending approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled'
+};
+
+const toCustomerNote = (
+  noteType: CustomerNoteType,
+  row: CreditNoteRow | DebitNoteRow,
+  noteNumber: string,
+  settledAmount: number
+): CustomerNote => ({
+  id: row.id,
+  noteType,
+  agencyId: row.agency_id,
+  customerId: row.customer_id,
+  customerName: row.customers?.name || '',
+  noteNumber,
+  invoiceId: row.invoice_id || undefined,
+  invoiceNumber: row.invoices?.invoice_number || undefined,
+  category: row.category as CustomerNoteCategory,
+  amount: Number(row.amount),
+  settledAmount,
+  reason: row.reason,
+  status: row.status as CustomerNoteStatus,
+  requiresApproval: row.requires_approval,
+  createdByName: row.created_by_name || undefined,
+  reviewedByName: row.reviewed_by_name || undefined,
+  reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+  rejectionReason: row.rejection_reason || undefined,
+  createdAt: new Date(row.created_at)
+});
+
+/**
+ * Credit and debit notes of an agency or customer, newest first
+ */
+export const getCustomerNotes = async (
+  filter: { agencyId?: string | null; customerId?: string } = {}
+): Promise<CustomerNote[]> => {
+  const [creditRows, debitRows] = await Promise.all([
+    fetchAllSupabaseRows<CreditNoteRow>(() => {
+      let query = supabase.from('customer_credit_notes').select(CREDIT_NOTE_SELECT).order('created_at', { ascending: false });
+      if (filter.agencyId) query = query.eq('agency_id', filter.agencyId);
+      if (filter.customerId) query = query.eq('customer_id', filter.customerId);
+      return query;
+    }),
+    fetchAllSupabaseRows<DebitNoteRow>(() => {
+      let query = supabase.from('customer_debit_notes').select(DEBIT_NOTE_SELECT).order('created_at', { ascending: false });
+      if (filter.agencyId) query = query.eq('agency_id', filter.agencyId);
+      if (filter.customerId) query = query.eq('customer_id', filter.customerId);
+      return query;
+    })
+  ]);
+
+  return [
+    ...creditRows.map(row => toCustomerNote('credit', row, row.credit_note_number, 0)),
+    ...debitRows.map(row => toCustomerNote('debit', row, row.debit_note_number, Number(row.settled_amount)))
+  ].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+/**
+ * Raise a credit or debit note; it waits for approval when it is above the threshold. Returns its id.
+ */
+export const createCustomerNote = async (note: {
+  noteType: CustomerNoteType;
+  customerId: string;
+  amount: number;
+  category: CustomerNoteCategory;
+  reason: string;
+  invoiceId?: string;
+}): Promise<string> => {
+  const { data, error } = await supabase.rpc('create_customer_note', {
+    p_note_type: note.noteType,
+    p_customer_id: note.customerId,
+    p_amount: note.amount,
+    p_category: note.category,
+    p_reason: note.reason,
+    p_invoice_id: note.invoiceId
+  });
+
+  if (error) throw error;
+  return data as string;
+};
+
+export const reviewCustomerNote = async (
+  noteType: CustomerNoteType,
+  noteId: string,
+  approve: boolean,
+  reason?: string
+): Promise<void> => {
+  const { error } = await supabase.rpc('review_customer_note', {
+    p_note_type: noteType,
+    p_note_id: noteId,
+    p_approve: approve,
+    p_reason: reason
+  });
+
+  if (error) throw error;
+};
+
+export const cancelCustomerNote = async (noteType: CustomerNoteType, noteId: string): Promise<void> => {
+  const { error } = await supabase.rpc('cancel_customer_note', {
+    p_note_type: noteType,
+    p_note_id: noteId
+  });
+
+  if (error) throw error;
+};
+
+export const getCustomerNoteApprovalThreshold = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('customer_note_approval_threshold');
+  if (error) throw error;
+  return Number(data || 0);
+};
+
+export const setCustomerNoteApprovalThreshold = async (value: number) => {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error('Approval threshold must be zero or more');
+  }
+
+  const { error } = await supabase
+    .from('app_settings')
+    .upsert({ key: APPROVAL_THRESHOLD_KEY, value: String(value), updated_at: new Date().toISOString() });
+
+  if (error) throw error;
+};
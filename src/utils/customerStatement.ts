@@ -0,0 +1,92 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { CustomerStatement, StatementEntry, StatementPendingCheque } from '@/types/statement';
+import { roundMoney } from '@/utils/money';
+
+// Same project the app talks to; view-invoice links are built the same way
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL || 'https://ejpwmgluazqcczrpwjlo.supabase.co';
+
+type StatementJson = {
+  customer: { id: string; name: string; phone: string; address: string; agency_id: string | null };
+  agency: { name: string | null; phone: string | null; address: string | null } | null;
+  period_from: string;
+  period_to: string;
+  opening_balance: number;
+  total_debits: number;
+  total_credits: number;
+  closing_balance: number;
+  entries: StatementEntry[];
+  pending_cheques: StatementPendingCheque[];
+};
+
+/**
+ * Account statement for a customer between two dates (inclusive, YYYY-MM-DD)
+ * The ledger is built by the get_customer_statement database function
+ */
+export const getCustomerStatement = async (
+  customerId: string,
+  periodFrom: string,
+  periodTo: string
+): Promise<CustomerStatement> => {
+  const { data, error } = await supabase.rpc('get_customer_statement', {
+    p_customer_id: customerId,
+    p_from: periodFrom,
+    p_to: periodTo
+  });
+
+  if (error) throw error;
+
+  const statement = data as unknown as StatementJson;
+  return {
+    customer: {
+      id: statement.customer.id,
+      name: statement.customer.name,
+      phone: statement.customer.phone,
+      address: statement.customer.address,
+      agencyId: statement.customer.agency_id
+    },
+    agency: statement.agency?.name
+      ? { name: statement.agency.name, phone: statement.agency.phone, address: statement.agency.address }
+      : null,
+    periodFrom: statement.period_from,
+    periodTo: statement.period_to,
+    openingBalance: roundMoney(Number(statement.opening_balance)),
+    totalDebits: roundMoney(Number(statement.total_debits)),
+    totalCredits: roundMoney(Number(statement.total_credits)),
+    closingBalance: roundMoney(Number(statement.closing_balance)),
+    entries: (statement.entries || []).map(entry => ({
+      ...entry,
+      debit: roundMoney(Number(entry.debit)),
+      credit: roundMoney(Number(entry.credit)),
+      balance: roundMoney(Number(entry.balance))
+    })),
+    pendingCheques: (statement.pending_cheques || []).map(cheque => ({
+      ...cheque,
+      amount: roundMoney(Number(cheque.amount))
+    }))
+  };
+};
+
+/**
+ * Record a generated statement; its id is the public link to the statement
+ */
+export const saveCustomerStatement = async (statement: CustomerStatement, userId: string): Promise<string> => {
+  const { data, error } = await supabase
+    .from('customer_statements')
+    .insert({
+      customer_id: statement.customer.id,
+      agency_id: statement.customer.agencyId,
+      period_from: statement.periodFrom,
+      period_to: statement.periodTo,
+      opening_balance: statement.openingBalance,
+      closing_balance: statement.closingBalance,
+      created_by: userId
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+export const getStatementViewUrl = (statementId: string) =>
+  `${SUPABASE_URL}/functions/v1/view-statement?id=${statementId}`;
@@ -0,0 +1,107 @@
+import { supabase } from '@/integrations/supabase/client';
+import odooService from '@/services/odoo.service';
+import type { GRNItem, OdooGRNLine } from '@/types/grn';
+import { matchExternalProducts } from '@/utils/productMappings';
+
+interface CreateGRNInput {
+  agencyId: string;
+  invoiceId: string;
+  invoiceFileName: string;
+  items: Pick<GRNItem, 'productName' | 'color' | 'size' | 'quantity' | 'unitPrice' | 'total'>[];
+  odooMoveId?: number;
+}
+
+/**
+ * Odoo partner an agency is invoiced as, if it has been linked
+ */
+export const getAgencyOdooPartnerId = async (agencyId: string): Promise<number | null> => {
+  const { data, error } = await supabase
+    .from('agencies')
+    .select('odoo_partner_id')
+    .eq('id', agencyId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.odoo_partner_id ?? null;
+};
+
+/**
+ * Link an agency to its Odoo partner so its invoices can be imported
+ */
+export const setAgencyOdooPartnerId = async (agencyId: string, partnerId: number | null) => {
+  const { error } = await supabase
+    .from('agencies')
+    .update({ odoo_partner_id: partnerId })
+    .eq('id', agencyId);
+
+  if (error) throw error;
+};
+
+/**
+ * Which of the given Odoo invoice ids already have a GRN
+ */
+export const getImportedOdooMoveIds = async (moveIds: number[]): Promise<Set<number>> => {
+  if (moveIds.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from('grns')
+    .select('odoo_move_id')
+    .in('odoo_move_id', moveIds);
+
+  if (error) throw error;
+  return new Set((data || []).map(row => row.odoo_move_id).filter((id): id is number => id !== null));
+};
+
+/**
+ * Product lines of an Odoo invoice with the mapping table's match for each product, in invoice order.
+ * Notes, sections and zero-quantity lines are left out.
+ */
+export const getOdooInvoiceGRNLines = async (invoiceId: number): Promise<OdooGRNLine[]> => {
+  const lines = (await odooService.getInvoiceLines(invoiceId))
+    .filter(line => line.product_id && line.quantity > 0);
+
+  const matches = await matchExternalProducts('odoo', lines.map(line => {
+    const [odooProductId, odooProductName] = line.product_id!;
+    return {
+      externalKey: String(odooProductId),
+      name: odooProductName,
+      code: odooProductName.match(/^\[([^\]]+)\]/)?.[1]
+    };
+  }));
+
+  return lines.map(line => {
+    const [odooProductId, odooProductName] = line.product_id!;
+    return {
+      odooLineId: line.id,
+      odooProductId,
+      odooProductName,
+      quantity: line.quantity,
+      unitPrice: line.price_subtotal / line.quantity,
+      total: line.price_subtotal,
+      match: matches.get(String(odooProductId))
+    };
+  });
+};
+
+/**
+ * Create a pending GRN assigned to an agency; returns its id. Superusers only.
+ */
+export const createGRN = async ({ agencyId, invoiceId, invoiceFileName, items, odooMoveId }: CreateGRNInput): Promise<string> => {
+  const { data, error } = await supabase.rpc('create_grn', {
+    p_agency_id: agencyId,
+    p_invoice_id: invoiceId,
+    p_invoice_file_name: invoiceFileName,
+    p_lines: items.map(item => ({
+      product_name: item.productName,
+      color: item.color,
+      size: item.size,
+      quantity: item.quantity,
+      unit_price: item.unitPrice,
+      total: item.total
+    })),
+    p_odoo_move_id: odooMoveId
+  });
+
+  if (error) throw error;
+  return data;
+};
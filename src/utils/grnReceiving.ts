@@ -0,0 +1,182 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { GRN, GRNClaimResolution, GRNDiscrepancyClaim, GRNItem, GRNLineReceipt } from '@/types/grn';
+import { fetchAllSupabaseRows } from '@/utils/supabasePagination';
+
+type GRNDiscrepancyClaimRow = Database['public']['Tables']['grn_discrepancy_claims']['Row'] & {
+  grns?: { invoice_file_name: string; agency_name: string } | null;
+};
+type GRNItemRow = Database['public']['Tables']['grn_items']['Row'];
+type GRNRow = Database['public']['Tables']['grns']['Row'] & { grn_items?: GRNItemRow[] | null };
+
+const toGRNDiscrepancyClaim = (row: GRNDiscrepancyClaimRow): GRNDiscrepancyClaim => ({
+  id: row.id,
+  claimNumber: row.claim_number,
+  grnId: row.grn_id,
+  agencyId: row.agency_id,
+  agencyName: row.grns?.agency_name || undefined,
+  grnReference: row.grns?.invoice_file_name || undefined,
+  status: row.status === 'resolved' ? 'resolved' : 'open',
+  shortQuantity: row.short_quantity,
+  damagedQuantity: row.damaged_quantity,
+  claimValue: Number(row.claim_value || 0),
+  notes: row.notes || undefined,
+  resolution: (row.resolution as GRNClaimResolution | null) || undefined,
+  resolutionReference: row.resolution_reference || undefined,
+  resolutionNotes: row.resolution_notes || undefined,
+  replacementGrnId: row.replacement_grn_id || undefined,
+  raisedByName: row.raised_by_name || undefined,
+  resolvedByName: row.resolved_by_name || undefined,
+  resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+  createdAt: new Date(row.created_at)
+});
+
+const toGRNItem = (row: GRNItemRow): GRNItem => ({
+  id: row.id,
+  productName: row.product_name,
+  color: row.color,
+  size: row.size,
+  quantity: row.quantity,
+  unitPrice: Number(row.unit_price),
+  total: Number(row.total),
+  receivedQuantity: row.received_quantity ?? undefined,
+  damagedQuantity: row.damaged_quantity,
+  shortQuantity: row.short_quantity,
+  conditionNotes: row.condition_notes || undefined
+});
+
+const toGRN = (row: GRNRow): GRN => ({
+  id: row.id,
+  invoiceId: row.invoice_id,
+  invoiceFileName: row.invoice_file_name,
+  agencyId: row.agency_id,
+  agencyName: row.agency_name,
+  items: (row.grn_items || []).map(toGRNItem),
+  total: Number(row.total),
+  status: row.status || 'pending',
+  uploadedBy: row.uploaded_by || '',
+  assignedAt: new Date(row.assigned_at || row.created_at || Date.now()),
+  createdAt: new Date(row.created_at || Date.now()),
+  processedAt: row.processed_at ? new Date(row.processed_at) : undefined,
+  processedBy: row.processed_by || undefined,
+  rejectionReason: row.rejection_reason || undefined
+});
+
+/**
+ * GRNs sent to an agency with their items, newest first
+ */
+export const getAgencyGRNs = async (agencyId: string): Promise<GRN[]> => {
+  const rows = await fetchAllSupabaseRows<GRNRow>(() =>
+    supabase
+      .from('grns')
+      .select('*, grn_items(*)')
+      .eq('agency_id', agencyId)
+      .order('created_at', { ascending: false })
+  );
+
+  return rows.map(toGRN);
+};
+
+/**
+ * Receive a pending GRN line by line. Only good pieces go into stock; lines without a receipt entry are
+ * received as invoiced. Returns the discrepancy claim raised for the shortfall, or null.
+ */
+export const receiveGRN = async (grnId: string, receipts: GRNLineReceipt[], notes?: string): Promise<string | null> => {
+  const { data, error } = await supabase.rpc('receive_grn', {
+    p_grn_id: grnId,
+    p_lines: receipts.map(receipt => ({
+      item_id: receipt.itemId,
+      received_quantity: receipt.receivedQuantity,
+      damaged_quantity: receipt.damagedQuantity,
+      condition_notes: receipt.conditionNotes || null
+    })),
+    p_notes: notes || undefined
+  });
+
+  if (error) throw error;
+  return data || null;
+};
+
+/**
+ * Turn away an entire delivery; nothing is posted to stock
+ */
+export const rejectGRN = async (grnId: string, reason: string, processedBy: string) => {
+  const { error } = await supabase
+    .from('grns')
+    .update({
+      status: 'rejected',
+      rejection_reason: reason,
+      processed_at: new Date().toISOString(),
+      processed_by: processedBy
+    })
+    .eq('id', grnId)
+    .eq('status', 'pending');
+
+  if (error) throw error;
+};
+
+/**
+ * Discrepancy claims, newest first; all agencies when no agency is given (head office)
+ */
+export const getGRNDiscrepancyClaims = async (
+  filters: { agencyId?: string; status?: GRNDiscrepancyClaim['status'] } = {}
+): Promise<GRNDiscrepancyClaim[]> => {
+  const rows = await fetchAllSupabaseRows<GRNDiscrepancyClaimRow>(() => {
+    let query = supabase
+      .from('grn_discrepancy_claims')
+      .select('*, grns!grn_discrepancy_claims_grn_id_fkey(invoice_file_name, agency_name)')
+      .order('created_at', { ascending: false });
+    if (filters.agencyId) query = query.eq('agency_id', filters.agencyId);
+    if (filters.status) query = query.eq('status', filters.status);
+    return query;
+  });
+
+  return rows.map(toGRNDiscrepancyClaim);
+};
+
+export const getGRNDiscrepancyClaim = async (grnId: string): Promise<GRNDiscrepancyClaim | null> => {
+  const { data, error } = await supabase
+    .from('grn_discrepancy_claims')
+    .select('*, grns!grn_discrepancy_claims_grn_id_fkey(invoice_file_name, agency_name)')
+    .eq('grn_id', grnId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toGRNDiscrepancyClaim(data) : null;
+};
+
+/**
+ * GRN items that arrived short or damaged
+ */
+export const getGRNDiscrepancyItems = async (grnId: string): Promise<GRNItem[]> => {
+  const { data, error } = await supabase
+    .from('grn_items')
+    .select('*')
+    .eq('grn_id', grnId)
+    .or('short_quantity.gt.0,damaged_quantity.gt.0')
+    .order('product_name');
+
+  if (error) throw error;
+  return (data || []).map(toGRNItem);
+};
+
+/**
+ * Close a claim. A replacement sends the agency a new pending GRN for the missing and damaged pieces and
+ * returns its id. Superusers only.
+ */
+export const resolveGRNDiscrepancyClaim = async (
+  claimId: string,
+  resolution: GRNClaimResolution,
+  reference?: string,
+  notes?: string
+): Promise<string | null> => {
+  const { data, error } = await supabase.rpc('resolve_grn_discrepancy_claim', {
+    p_claim_id: claimId,
+    p_resolution: resolution,
+    p_reference: reference || undefined,
+    p_notes: notes || undefined
+  });
+
+  if (error) throw error;
+  return data || null;
+};
@@ -0,0 +1,87 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { CostMethod, InventoryValuationLine, InvoiceCostOfGoods } from '@/types/inventory';
+import { fetchAllSupabaseRows } from '@/utils/supabasePagination';
+
+/**
+ * The cost method an agency values its stock with
+ */
+export const getAgencyCostMethod = async (agencyId: string): Promise<CostMethod> => {
+  const { data, error } = await supabase
+    .from('agencies')
+    .select('cost_method')
+    .eq('id', agencyId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.cost_method === 'fifo' ? 'fifo' : 'weighted_average';
+};
+
+/**
+ * Switch an agency's cost method; its whole ledger is re-costed. Superusers only.
+ */
+export const setAgencyCostMethod = async (agencyId: string, costMethod: CostMethod) => {
+  const { error } = await supabase.rpc('set_agency_cost_method', {
+    p_agency_id: agencyId,
+    p_cost_method: costMethod
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Quantity and cost of every variant on hand at the end of the given moment
+ */
+export const getInventoryValuation = async (agencyId: string, asOf: Date): Promise<InventoryValuationLine[]> => {
+  const { data, error } = await supabase.rpc('get_inventory_valuation', {
+    p_agency_id: agencyId,
+    p_as_of: asOf.toISOString()
+  });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    productName: row.product_name,
+    color: row.color,
+    size: row.size,
+    category: row.category || 'General',
+    subCategory: row.sub_category || row.category || 'General',
+    quantity: row.quantity,
+    stockValue: Number(row.stock_value || 0),
+    unitCost: Number(row.unit_cost || 0)
+  }));
+};
+
+/**
+ * Cost of goods sold and gross margin for an agency's invoices in a date range, newest first
+ */
+export const getInvoiceCostOfGoods = async (agencyId: string, from: string, to: string): Promise<InvoiceCostOfGoods[]> => {
+  const rows = await fetchAllSupabaseRows<{
+    invoice_id: string | null;
+    invoice_number: string | null;
+    customer_name: string | null;
+    invoice_date: string | null;
+    revenue: number | null;
+    cost_of_goods: number | null;
+    gross_margin: number | null;
+    costed_lines: number | null;
+  }>(() =>
+    supabase
+      .from('invoice_cost_of_goods')
+      .select('invoice_id, invoice_number, customer_name, invoice_date, revenue, cost_of_goods, gross_margin, costed_lines')
+      .eq('agency_id', agencyId)
+      .gte('invoice_date', `${from}T00:00:00`)
+      .lte('invoice_date', `${to}T23:59:59`)
+      .order('invoice_date', { ascending: false })
+  );
+
+  return rows.map(row => ({
+    invoiceId: row.invoice_id || '',
+    invoiceNumber: row.invoice_number || undefined,
+    customerName: row.customer_name || '',
+    invoiceDate: new Date(row.invoice_date || 0),
+    revenue: Number(row.revenue || 0),
+    costOfGoods: Number(row.cost_of_goods || 0),
+    grossMargin: Number(row.gross_margin || 0),
+    costedLines: row.costed_lines || 0
+  }));
+};
@@ -1,3 +1,6 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+
 const COMPACT_INVOICE_NUMBER_PATTERN = /^[A-Z0-9]{3}\d{3,}$/;
 const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -6,26 +9,7 @@ interface AgencyPrefixRow {
   name: string | null;
 }
 
-interface InvoiceNumberSupabaseClient {
-  from(table: 'agencies'): {
-    select: (columns: string) => {
-      order: (column: string) => Promise<{
-        data: AgencyPrefixRow[] | null;
-        error: Error | null;
-      }>;
-    };
-  };
-  from(table: 'invoices'): {
-    select: (columns: string) => {
-      eq: (column: string, value: string) => {
-        like: (column: string, pattern: string) => Promise<{
-          data: Array<{ invoice_number: string | null }> | null;
-          error: Error | null;
-        }>;
-      };
-    };
-  };
-}
+type InvoiceNumberSupabaseClient = SupabaseClient<Database>;
 
 const getBaseAgencyInvoicePrefix = (agencyName?: string | null, agencyId?: string | null) => {
   const source = agencyName || agencyId || 'INV';
@@ -81,34 +65,24 @@ export const getDisplayInvoiceNumber = (
   return formatInvoiceSequence(getAgencyInvoicePrefix(agencyName, agencyId), fallbackSequence);
 };
 
-export const getNextInvoiceNumber = async (
+// Invoices are inserted without a number: the set_invoice_number trigger takes the next one
+// from a locked per-agency counter inside the insert, so concurrent invoices can never share
+// a number and a failed insert leaves no gap. Read it back from the inserted row.
+// The prefix (including collision markers) is derived server-side by
+// get_agency_invoice_prefix, which mirrors getUniqueAgencyInvoicePrefix above.
+
+// Claims a block of numbers for the current user so invoices created offline can be
+// numbered on the device. Numbers left unused for two days go to invoices saved online.
+export const reserveInvoiceNumbers = async (
   supabaseClient: InvoiceNumberSupabaseClient,
   agencyId: string,
-  agencyName?: string | null
+  count: number
 ) => {
-  const { data: agencies, error: agenciesError } = await supabaseClient
-    .from('agencies')
-    .select('id, name')
-    .order('name');
-
-  if (agenciesError) throw agenciesError;
-
-  const prefix = getUniqueAgencyInvoicePrefix(agencyId, agencies || [], agencyName);
-  const { data, error } = await supabaseClient
-    .from('invoices')
-    .select('invoice_number')
-    .eq('agency_id', agencyId)
-    .like('invoice_number', `${prefix}%`);
+  const { data, error } = await supabaseClient.rpc('reserve_invoice_numbers', {
+    p_agency_id: agencyId,
+    p_count: count,
+  });
 
   if (error) throw error;
-
-  const maxSequence = (data || []).reduce((max: number, invoice: { invoice_number: string | null }) => {
-    const invoiceNumber = invoice.invoice_number;
-    if (!invoiceNumber?.startsWith(prefix)) return max;
-
-    const sequence = Number(invoiceNumber.slice(3));
-    return Number.isFinite(sequence) ? Math.max(max, sequence) : max;
-  }, 0);
-
-  return formatInvoiceSequence(prefix, maxSequence + 1);
+  return data || [];
 };
@@ -1,6 +1,7 @@
 
 import { GRNItem } from '@/types/grn';
-import { Product } from '@/types/product';
+import { ExternalProductRef, Product, ProductMapping } from '@/types/product';
+import { buildProductMappingKey } from '@/utils/productMappings';
 
 export interface ParsedInvoiceData {
   invoiceNumber?: string;
@@ -11,6 +12,8 @@ export interface ParsedInvoiceData {
 
 export class InvoiceParser {
   private static productMaster: Product[] = [];
+  private static productMappings = new Map<string, ProductMapping>();
+  private static unconfirmedProducts: ExternalProductRef[] = [];
 
   // Set product master data for reference
   static setProductMaster(products: Product[]) {
@@ -18,6 +21,18 @@ export class InvoiceParser {
     console.log('InvoiceParser: Product master set with', products.length, 'products');
   }
 
+  // Set confirmed 'invoice_ocr' mappings; they win over guessing
+  static setProductMappings(mappings: Map<string, ProductMapping>) {
+    this.productMappings = mappings;
+  }
+
+  // Invoice products matched by guessing since the last call, for the mapping review queue
+  static takeUnconfirmedProducts(): ExternalProductRef[] {
+    const products = this.unconfirmedProducts;
+    this.unconfirmedProducts = [];
+    return products;
+  }
+
   // Enhanced product matching - case insensitive, exact text match
   static findProductMatch(productText: string): Product | null {
     if (!productText || this.productMaster.length === 0) return null;
@@ -112,10 +127,18 @@ export class InvoiceParser {
         if (quantityPriceMatch) {
           const { quantity, unitPrice, discountPercentage } = quantityPriceMatch;
           
-          // Try to find product match
-          const matchedProduct = this.findProductMatch(fullProductText) || 
-                                this.findProductMatch(productCode) || 
-                                this.findProductMatch(productName.trim());
+          // A confirmed mapping wins; otherwise guess and queue the text for review
+          const mappingKey = buildProductMappingKey(fullProductText);
+          const mapping = this.productMappings.get(mappingKey);
+          const matchedProduct = mapping
+            ? this.productMaster.find(product => product.id === mapping.productId) || null
+            : this.findProductMatch(fullProductText) || 
+              this.findProductMatch(productCode) || 
+              this.findProductMatch(productName.trim());
+          
+          if (!mapping) {
+            this.unconfirmedProducts.push({ externalKey: mappingKey, name: fullProductText, code: productCode, size });
+          }
           
           if (matchedProduct) {
             // Calculate total amount
@@ -126,8 +149,8 @@ export class InvoiceParser {
             const item: GRNItem = {
               id: itemId.toString(),
               productName: matchedProduct.name,
-              color: 'Not specified',
-              size: size || 'Not specified',
+              color: mapping?.color || 'Not specified',
+              size: size || mapping?.size || 'Not specified',
               quantity: quantity,
               unitPrice: unitPrice,
               discountPercentage: discountPercentage || 0,
@@ -0,0 +1,421 @@
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import type {
+  AppliedPricingRule,
+  DiscountRule,
+  PricedCartLine,
+  PricingCartLine,
+  PricingResult,
+  PromotionalRule
+} from '@/types/discounts';
+import { roundMoney } from '@/utils/money';
+
+type DiscountRuleRow = Database['public']['Tables']['discount_rules']['Row'];
+type PromotionalRuleRow = Database['public']['Tables']['promotional_rules']['Row'];
+
+export interface PricingRuleSet {
+  discountRules: DiscountRule[];
+  promotionalRules: PromotionalRule[];
+}
+
+export interface PricingContext {
+  customerId?: string;
+  agentId?: string;
+  date?: Date;
+  // Looks up a product that is not in the cart so a promotion can add it as a free line
+  resolveProduct?: (productId: string) => Omit<PricingCartLine, 'key' | 'quantity'> | null;
+}
+
+let rulesCache: PricingRuleSet | null = null;
+let rulesCacheExpiry = 0;
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const mapDiscountRule = (row: DiscountRuleRow): DiscountRule => ({
+  id: row.id,
+  name: row.name,
+  type: row.type,
+  value: Number(row.value),
+  applicableTo: row.applicable_to,
+  targetIds: row.target_ids || [],
+  targetNames: row.target_names || [],
+  isActive: row.is_active ?? false,
+  validFrom: new Date(row.valid_from),
+  validTo: new Date(row.valid_to),
+  maxUsageCount: row.max_usage_count ?? undefined,
+  currentUsageCount: row.current_usage_count || 0,
+  description: row.description || undefined,
+  createdAt: new Date(row.created_at || Date.now()),
+  createdBy: row.created_by || ''
+});
+
+const mapPromotionalRule = (row: PromotionalRuleRow): PromotionalRule => ({
+  id: row.id,
+  name: row.name,
+  type: row.type,
+  buyQuantity: row.buy_quantity,
+  getQuantity: row.get_quantity,
+  discountPercentage: row.discount_percentage ?? undefined,
+  applicableTo: row.applicable_to === 'product' ? 'product' : 'global',
+  buyProductIds: row.buy_product_ids || [],
+  getProductIds: row.get_product_ids || [],
+  buyProductNames: row.buy_product_names || [],
+  getProductNames: row.get_product_names || [],
+  customerIds: row.customer_ids || [],
+  agentIds: row.agent_ids || [],
+  customerNames: row.customer_names || [],
+  agentNames: row.agent_names || [],
+  isActive: row.is_active ?? false,
+  validFrom: new Date(row.valid_from),
+  validTo: new Date(row.valid_to),
+  maxUsageCount: row.max_usage_count ?? undefined,
+  currentUsageCount: row.current_usage_count || 0,
+  description: row.description || undefined,
+  createdAt: new Date(row.created_at || Date.now()),
+  createdBy: row.created_by || ''
+});
+
+/**
+ * Load all active discount and promotional rules
+ * Returns empty rule sets when the rules cannot be loaded so orders can still be saved
+ */
+export const getActivePricingRules = async (): Promise<PricingRuleSet> => {
+  const now = Date.now();
+  if (rulesCache && rulesCacheExpiry > now) {
+    return rulesCache;
+  }
+
+  try {
+    const [discountResult, promotionalResult] = await Promise.all([
+      supabase.from('discount_rules').select('*').eq('is_active', true),
+      supabase.from('promotional_rules').select('*').eq('is_active', true)
+    ]);
+
+    if (discountResult.error) {
+      console.warn('Error fetching discount rules:', discountResult.error);
+    }
+    if (promotionalResult.error) {
+      console.warn('Error fetching promotional rules:', promotionalResult.error);
+    }
+
+    rulesCache = {
+      discountRules: (discountResult.data || []).map(mapDiscountRule),
+      promotionalRules: (promotionalResult.data || []).map(mapPromotionalRule)
+    };
+    rulesCacheExpiry = now + CACHE_DURATION;
+    return rulesCache;
+  } catch (error) {
+    console.warn('Error in getActivePricingRules:', error);
+    return { discountRules: [], promotionalRules: [] };
+  }
+};
+
+/**
+ * Clear the rule cache (useful after rules are edited or a usage limit is reached)
+ */
+export const clearPricingRulesCache = () => {
+  rulesCache = null;
+  rulesCacheExpiry = 0;
+};
+
+/**
+ * Whether a rule can be used on the given date
+ * The valid_to day is inclusive; rules that reached maxUsageCount are skipped
+ */
+export const isRuleAvailable = (
+  rule: Pick<DiscountRule, 'isActive' | 'validFrom' | 'validTo' | 'maxUsageCount' | 'currentUsageCount'>,
+  date: Date = new Date()
+): boolean => {
+  if (!rule.isActive) return false;
+  const day = toDateKey(date);
+  if (day < toDateKey(rule.validFrom) || day > toDateKey(rule.validTo)) return false;
+  if (rule.maxUsageCount != null && rule.currentUsageCount >= rule.maxUsageCount) return false;
+  return true;
+};
+
+const describeDiscountRule = (rule: DiscountRule) => {
+  if (rule.type === 'percentage') return `${rule.value}% off`;
+  if (rule.type === 'special_pricing') return `Special price LKR ${rule.value.toLocaleString()}`;
+  return rule.applicableTo === 'product'
+    ? `LKR ${rule.value.toLocaleString()} off per unit`
+    : `LKR ${rule.value.toLocaleString()} off the order`;
+};
+
+const describePromotionalRule = (rule: PromotionalRule, rewardQuantity: number, productName?: string) => {
+  if (rule.type === 'buy_x_get_y_free') {
+    return `Buy ${rule.buyQuantity} get ${rule.getQuantity} free: ${rewardQuantity} x ${productName}`;
+  }
+  if (rule.type === 'buy_x_get_y_discount') {
+    return `Buy ${rule.buyQuantity} get ${rule.getQuantity} at ${rule.discountPercentage || 0}% off: ${rewardQuantity} x ${productName}`;
+  }
+  return `Bundle ${rule.discountPercentage || 0}% off`;
+};
+
+const netOf = (line: PricedCartLine) => roundMoney(line.unitPrice * line.quantity - line.discountAmount);
+
+/**
+ * Evaluate every available rule against a cart
+ *
+ * Discount rules: each line takes the single largest discount that targets it (product,
+ * customer, agent or global). Fixed-amount rules that are not product rules come off the
+ * order after line discounts, spread across lines by value.
+ * Promotional rules: buy X get Y adds a promotion line for the reward product (the
+ * cheapest bought variant when no reward product is set); bundle rules discount the
+ * bundled lines when every product in the bundle is bought in the required quantity.
+ */
+export const evaluatePricingRules = (
+  cart: PricingCartLine[],
+  rules: PricingRuleSet,
+  context: PricingContext = {}
+): PricingResult => {
+  const date = context.date || new Date();
+  const amounts = new Map<string, AppliedPricingRule>();
+  const addApplication = (ruleId: string, ruleType: AppliedPricingRule['ruleType'], ruleName: string, description: string, amount: number) => {
+    if (amount <= 0) return;
+    const existing = amounts.get(ruleId);
+    if (existing) {
+      existing.appliedAmount = roundMoney(existing.appliedAmount + amount);
+    } else {
+      amounts.set(ruleId, { ruleId, ruleType, ruleName, description, appliedAmount: roundMoney(amount) });
+    }
+  };
+
+  const lines: PricedCartLine[] = cart
+    .filter(line => line.quantity > 0)
+    .map(line => ({ ...line, discountAmount: 0, total: roundMoney(line.unitPrice * line.quantity) }));
+
+  const discountRules = rules.discountRules.filter(rule => {
+    if (!isRuleAvailable(rule, date)) return false;
+    if (rule.applicableTo === 'customer') return !!context.customerId && rule.targetIds.includes(context.customerId);
+    if (rule.applicableTo === 'agent') return !!context.agentId && rule.targetIds.includes(context.agentId);
+    return true;
+  });
+
+  lines.forEach(line => {
+    const gross = line.unitPrice * line.quantity;
+    let best: { rule: DiscountRule; amount: number } | null = null;
+
+    for (const rule of discountRules) {
+      const isProductRule = rule.applicableTo === 'product';
+      if (isProductRule && !rule.targetIds.includes(line.productId)) continue;
+
+      let amount = 0;
+      if (rule.type === 'percentage') {
+        amount = gross * Math.min(rule.value, 100) / 100;
+      } else if (rule.type === 'fixed_amount' && isProductRule) {
+        amount = Math.min(rule.value, line.unitPrice) * line.quantity;
+      } else if (rule.type === 'special_pricing' && isProductRule && rule.value < line.unitPrice) {
+        amount = (line.unitPrice - rule.value) * line.quantity;
+      }
+
+      if (amount > 0 && (!best || amount > best.amount)) {
+        best = { rule, amount };
+      }
+    }
+
+    if (best) {
+      const { rule, amount } = best;
+      line.discountAmount = roundMoney(amount);
+      addApplication(rule.id, 'discount', rule.name, describeDiscountRule(rule), amount);
+    }
+  });
+
+  const orderRule = discountRules
+    .filter(rule => rule.type === 'fixed_amount' && rule.applicableTo !== 'product')
+    .sort((a, b) => b.value - a.value)[0];
+
+  const netTotal = lines.reduce((sum, line) => sum + netOf(line), 0);
+  // Nothing left to take an order discount off, e.g. every line is already free
+  if (orderRule && netTotal > 0) {
+    const orderDiscount = roundMoney(Math.min(orderRule.value, netTotal));
+    let remaining = orderDiscount;
+
+    lines.forEach((line, index) => {
+      const share = index === lines.length - 1
+        ? remaining
+        : roundMoney(orderDiscount * netOf(line) / netTotal);
+      line.discountAmount = roundMoney(line.discountAmount + share);
+      remaining = roundMoney(remaining - share);
+    });
+
+    addApplication(orderRule.id, 'discount', orderRule.name, describeDiscountRule(orderRule), orderDiscount);
+  }
+
+  const promotionLines: PricedCartLine[] = [];
+  const promotionalRules = rules.promotionalRules.filter(rule => {
+    if (!isRuleAvailable(rule, date)) return false;
+    if (rule.customerIds?.length && (!context.customerId || !rule.customerIds.includes(context.customerId))) return false;
+    if (rule.agentIds?.length && (!context.agentId || !rule.agentIds.includes(context.agentId))) return false;
+    return rule.buyQuantity > 0;
+  });
+
+  promotionalRules.forEach(rule => {
+    const buyLines = lines.filter(line => rule.buyProductIds.length === 0 || rule.buyProductIds.includes(line.productId));
+    if (buyLines.length === 0) return;
+
+    if (rule.type === 'bundle_discount') {
+      if (rule.buyProductIds.length === 0 || !rule.discountPercentage) return;
+      const complete = rule.buyProductIds.every(productId =>
+        buyLines.filter(line => line.productId === productId).reduce((sum, line) => sum + line.quantity, 0) >= rule.buyQuantity
+      );
+      if (!complete) return;
+
+      buyLines.forEach(line => {
+        const amount = roundMoney(netOf(line) * Math.min(rule.discountPercentage || 0, 100) / 100);
+        line.discountAmount = roundMoney(line.discountAmount + amount);
+        addApplication(rule.id, 'promotional', rule.name, describePromotionalRule(rule, 0), amount);
+      });
+      return;
+    }
+
+    const boughtQuantity = buyLines.reduce((sum, line) => sum + line.quantity, 0);
+    const sets = Math.floor(boughtQuantity / rule.buyQuantity);
+    const rewardQuantity = sets * rule.getQuantity;
+    if (rewardQuantity <= 0) return;
+
+    const cheapest = (candidates: PricedCartLine[]) =>
+      candidates.reduce<PricedCartLine | null>((min, line) => (!min || line.unitPrice < min.unitPrice ? line : min), null);
+
+    let reward: Omit<PricingCartLine, 'key' | 'quantity'> | null = null;
+    if (rule.getProductIds.length === 0) {
+      reward = cheapest(buyLines);
+    } else {
+      reward = cheapest(lines.filter(line => rule.getProductIds.includes(line.productId)));
+      if (!reward && context.resolveProduct) {
+        reward = rule.getProductIds.map(productId => context.resolveProduct?.(productId) ?? null).find(Boolean) ?? null;
+      }
+    }
+    if (!reward) return;
+
+    const percentage = rule.type === 'buy_x_get_y_free' ? 100 : Math.min(rule.discountPercentage || 0, 100);
+    const gross = roundMoney(reward.unitPrice * rewardQuantity);
+    const discountAmount = roundMoney(gross * percentage / 100);
+
+    promotionLines.push({
+      key: `promotion-${rule.id}`,
+      productId: reward.productId,
+      productName: reward.productName,
+      color: reward.color,
+      size: reward.size,
+      quantity: rewardQuantity,
+      unitPrice: reward.unitPrice,
+      discountAmount,
+      total: roundMoney(gross - discountAmount),
+      appliedRuleId: rule.id
+    });
+    addApplication(rule.id, 'promotional', rule.name, describePromotionalRule(rule, rewardQuantity, reward.productName), discountAmount);
+  });
+
+  lines.forEach(line => {
+    line.total = netOf(line);
+  });
+
+  const applications = Array.from(amounts.values());
+  return {
+    lines,
+    promotionLines,
+    applications,
+    totalSavings: roundMoney(applications.reduce((sum, application) => sum + application.appliedAmount, 0))
+  };
+};
+
+/**
+ * Record the rules a saved sales order or invoice used and count them against maxUsageCount
+ * Rules exhausted by another order in the meantime are not recorded; returns the recorded rule ids,
+ * or null when they could not be recorded at all
+ */
+export const recordRuleApplications = async (
+  documentId: string,
+  documentType: 'sales_order' | 'invoice',
+  applications: AppliedPricingRule[]
+): Promise<string[] | null> => {
+  try {
+    const { data, error } = await supabase.rpc('record_rule_applications', {
+      p_order_id: documentId,
+      p_document_type: documentType,
+      p_applications: applications.map(application => ({
+        rule_id: application.ruleId,
+        rule_type: application.ruleType,
+        rule_name: application.ruleName,
+        description: application.description,
+        applied_amount: application.appliedAmount
+      })) as Json
+    });
+
+    if (error) throw error;
+
+    const recorded = data || [];
+    if (recorded.length < applications.length) {
+      clearPricingRulesCache();
+    }
+    return recorded;
+  } catch (error) {
+    console.warn('Error recording rule applications:', error);
+    return null;
+  }
+};
+
+/**
+ * Count the rules of a document whose header is saved against maxUsageCount, pricing the cart again
+ * without any rule that ran out until every rule left is counted. Save the document's lines and
+ * totals from the returned pricing so no discount of an exhausted rule is kept.
+ */
+export const claimPricingRules = async (
+  documentId: string,
+  documentType: 'sales_order' | 'invoice',
+  cart: PricingCartLine[],
+  pricing: PricingResult,
+  context: PricingContext = {}
+): Promise<PricingResult> => {
+  const exhausted = new Set<string>();
+  let current = pricing;
+
+  for (;;) {
+    const recorded = await recordRuleApplications(documentId, documentType, current.applications);
+    if (!recorded) return current;
+
+    const skipped = current.applications.filter(application => !recorded.includes(application.ruleId));
+    if (skipped.length === 0) return current;
+
+    skipped.forEach(application => exhausted.add(application.ruleId));
+    const rules = await getActivePricingRules();
+    current = evaluatePricingRules(cart, {
+      discountRules: rules.discountRules.filter(rule => !exhausted.has(rule.id)),
+      promotionalRules: rules.promotionalRules.filter(rule => !exhausted.has(rule.id))
+    }, context);
+  }
+};
+
+/**
+ * Load the rules recorded against a sales order or invoice
+ */
+export const getRuleApplications = async (documentIds: string[]): Promise<AppliedPricingRule[]> => {
+  const ids = documentIds.filter(Boolean);
+  if (ids.length === 0) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('rule_applications')
+      .select('order_id, rule_id, rule_type, rule_name, description, applied_amount')
+      .in('order_id', ids);
+
+    if (error) throw error;
+
+    // An invoice raised from a sales order inherits the order's rules unless it has its own
+    const ownRows = (data || []).filter(row => row.order_id === ids[0]);
+    const rows = ownRows.length > 0 ? ownRows : (data || []);
+
+    return rows.map(row => ({
+      ruleId: row.rule_id,
+      ruleType: row.rule_type,
+      ruleName: row.rule_name || '',
+      description: row.description || '',
+      appliedAmount: Number(row.applied_amount)
+    }));
+  } catch (error) {
+    console.warn('Error fetching rule applications:', error);
+    return [];
+  }
+};
@@ -0,0 +1,184 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type {
+  ExternalProductRef,
+  ProductMapping,
+  ProductMappingSource,
+  ProductMappingStatus,
+  ProductMatch,
+  ProductMatchMethod,
+} from '@/types/product';
+import { fetchAllSupabaseRows } from '@/utils/supabasePagination';
+
+type ProductMappingRow = Database['public']['Tables']['product_mappings']['Row'] & {
+  products?: { name: string } | null;
+};
+
+const MAPPING_SELECT = '*, products!product_mappings_product_id_fkey(name)';
+
+const toProductMapping = (row: ProductMappingRow): ProductMapping => ({
+  id: row.id,
+  source: row.source as ProductMappingSource,
+  externalKey: row.external_key,
+  externalName: row.external_name || undefined,
+  externalCode: row.external_code || undefined,
+  externalColor: row.external_color || undefined,
+  externalSize: row.external_size || undefined,
+  productId: row.product_id || undefined,
+  productName: row.products?.name || undefined,
+  color: row.color,
+  size: row.size,
+  status: row.status as ProductMappingStatus,
+  confidence: Number(row.confidence || 0),
+  matchMethod: row.match_method as ProductMatchMethod,
+  reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+  updatedAt: new Date(row.updated_at)
+});
+
+/**
+ * Mapping key for sources without product ids: the product text, color and size, normalized
+ */
+export const buildProductMappingKey = (name: string, color?: string, size?: string) =>
+  [name, color || 'Default', size || 'Default']
+    .map(part => part.trim().toLowerCase().replace(/\s+/g, ' '))
+    .join('|');
+
+/**
+ * Ask the mapping table about external products, keyed by external key. Products it has never seen get a
+ * scored guess that is queued for review; only confirmed matches should be used as they are.
+ */
+export const matchExternalProducts = async (
+  source: ProductMappingSource,
+  refs: ExternalProductRef[]
+): Promise<Map<string, ProductMatch>> => {
+  const uniqueRefs = [...new Map(refs.map(ref => [ref.externalKey, ref])).values()];
+  if (uniqueRefs.length === 0) return new Map();
+
+  const { data, error } = await supabase.rpc('match_external_products', {
+    p_source: source,
+    p_items: uniqueRefs.map(ref => ({
+      external_key: ref.externalKey,
+      name: ref.name || null,
+      code: ref.code || null,
+      color: ref.color || null,
+      size: ref.size || null
+    }))
+  });
+
+  if (error) throw error;
+  return new Map((data || []).map(row => [row.external_key, {
+    mappingId: row.mapping_id,
+    status: row.status as ProductMappingStatus,
+    productId: row.product_id || undefined,
+    productName: row.product_name || undefined,
+    color: row.color,
+    size: row.size,
+    confidence: Number(row.confidence || 0)
+  }]));
+};
+
+/**
+ * Save a product created for external products as the candidate of their suggestions, which had none; they stay
+ * in the review queue. Returns how many were saved.
+ */
+export const linkCreatedProductMappings = async (mappingIds: string[], productId: string): Promise<number> => {
+  if (mappingIds.length === 0) return 0;
+
+  const { data, error } = await supabase.rpc('link_created_product_mappings', {
+    p_mapping_ids: mappingIds,
+    p_product_id: productId
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Confirmed mappings of a source, keyed by external key; all of them when no keys are given
+ */
+export const getProductMappings = async (
+  source: ProductMappingSource,
+  externalKeys?: string[]
+): Promise<Map<string, ProductMapping>> => {
+  if (externalKeys?.length === 0) return new Map();
+
+  const rows = await fetchAllSupabaseRows<ProductMappingRow>(() => {
+    let query = supabase
+      .from('product_mappings')
+      .select(MAPPING_SELECT)
+      .eq('source', source)
+      .eq('status', 'confirmed');
+
+    if (externalKeys) query = query.in('external_key', externalKeys);
+    return query.order('external_key');
+  });
+
+  return new Map(rows.map(row => [row.external_key, toProductMapping(row)]));
+};
+
+/**
+ * Mappings in the review queue, lowest confidence first
+ */
+export const getProductMappingQueue = async (filters: {
+  status: ProductMappingStatus;
+  source?: ProductMappingSource;
+}): Promise<ProductMapping[]> => {
+  const rows = await fetchAllSupabaseRows<ProductMappingRow>(() => {
+    let query = supabase
+      .from('product_mappings')
+      .select(MAPPING_SELECT)
+      .eq('status', filters.status);
+
+    if (filters.source) query = query.eq('source', filters.source);
+    return query.order('confidence').order('external_name');
+  });
+
+  return rows.map(toProductMapping);
+};
+
+/**
+ * Pick the product variant of an external product by hand; replaces any earlier mapping. Superusers only.
+ */
+export const saveProductMapping = async (
+  mapping: Pick<ProductMapping, 'source' | 'externalKey' | 'externalName' | 'color' | 'size'> & { productId: string }
+): Promise<ProductMapping> => {
+  const { data, error } = await supabase
+    .from('product_mappings')
+    .upsert({
+      source: mapping.source,
+      external_key: mapping.externalKey,
+      external_name: mapping.externalName || null,
+      product_id: mapping.productId,
+      color: mapping.color || 'Default',
+      size: mapping.size || 'Default',
+      status: 'confirmed',
+      confidence: 1,
+      match_method: 'manual'
+    }, { onConflict: 'source,external_key' })
+    .select(MAPPING_SELECT)
+    .single();
+
+  if (error) throw error;
+  return toProductMapping(data);
+};
+
+/**
+ * Confirm or reject queued mappings, or merge several into one product variant. Confirm keeps each
+ * suggestion's candidate unless a product is given. Returns how many were reviewed. Superusers only.
+ */
+export const reviewProductMappings = async (
+  mappingIds: string[],
+  action: 'confirm' | 'reject' | 'merge',
+  target?: { productId: string; color?: string; size?: string }
+): Promise<number> => {
+  const { data, error } = await supabase.rpc('review_product_mappings', {
+    p_mapping_ids: mappingIds,
+    p_action: action,
+    p_product_id: target?.productId,
+    p_color: target?.color,
+    p_size: target?.size
+  });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,251 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type {
+  PurchaseOrder,
+  PurchaseOrderEvent,
+  PurchaseOrderEventType,
+  PurchaseOrderLineApproval,
+  PurchaseOrderShipment,
+  PurchaseOrderShipmentItem,
+} from '@/types/purchase';
+import type { SmsMessage } from '@/types/sms';
+import { sendSMS, SmsTemplates } from '@/services/sms.service';
+
+type PurchaseOrderEventRow = Database['public']['Tables']['purchase_order_events']['Row'];
+type PurchaseOrderShipmentRow = Database['public']['Tables']['purchase_order_shipments']['Row'] & {
+  grns?: { status: string | null; total: number } | null;
+  odoo_invoices?: { odoo_name: string; amount_total: number } | null;
+  purchase_order_shipment_lines?: Database['public']['Tables']['purchase_order_shipment_lines']['Row'][];
+};
+
+type PurchaseOrderRecipient = Pick<PurchaseOrder, 'id' | 'agencyId' | 'agencyName'>;
+
+const SHIPMENT_SELECT = '*, grns!purchase_order_shipments_grn_id_fkey(status, total), odoo_invoices!purchase_order_shipments_odoo_invoice_id_fkey(odoo_name, amount_total), purchase_order_shipment_lines(*)';
+
+const toPurchaseOrderEvent = (row: PurchaseOrderEventRow): PurchaseOrderEvent => ({
+  id: row.id,
+  eventType: row.event_type as PurchaseOrderEventType,
+  description: row.description || undefined,
+  createdByName: row.created_by_name || undefined,
+  createdAt: new Date(row.created_at)
+});
+
+const toPurchaseOrderShipment = (row: PurchaseOrderShipmentRow): PurchaseOrderShipment => ({
+  id: row.id,
+  shipmentNumber: row.shipment_number,
+  purchaseOrderId: row.purchase_order_id,
+  invoiceReference: row.invoice_reference,
+  status: row.status === 'received' ? 'received' : 'dispatched',
+  totalQuantity: row.total_quantity,
+  totalValue: Number(row.total_value || 0),
+  receivedQuantity: row.received_quantity ?? undefined,
+  grnId: row.grn_id || undefined,
+  grnStatus: row.grns?.status || undefined,
+  grnTotal: row.grns ? Number(row.grns.total || 0) : undefined,
+  odooInvoiceId: row.odoo_invoice_id || undefined,
+  odooInvoiceName: row.odoo_invoices?.odoo_name || undefined,
+  odooInvoiceTotal: row.odoo_invoices ? Number(row.odoo_invoices.amount_total || 0) : undefined,
+  notes: row.notes || undefined,
+  dispatchedByName: row.dispatched_by_name || undefined,
+  dispatchedAt: new Date(row.dispatched_at),
+  receivedAt: row.received_at ? new Date(row.received_at) : undefined,
+  lines: (row.purchase_order_shipment_lines || [])
+    .map(line => ({
+      id: line.id,
+      purchaseOrderItemId: line.purchase_order_item_id,
+      productName: line.product_name,
+      color: line.color,
+      size: line.size,
+      quantity: line.quantity,
+      unitPrice: Number(line.unit_price || 0),
+      receivedQuantity: line.received_quantity ?? undefined
+    }))
+    .sort((a, b) => a.productName.localeCompare(b.productName))
+});
+
+/**
+ * Short order number used in messages, matching the one on submission SMS
+ */
+export const formatPurchaseOrderNumber = (orderId: string) => orderId.slice(0, 8).toUpperCase();
+
+/**
+ * Status timeline of an order, oldest first
+ */
+export const getPurchaseOrderEvents = async (orderId: string): Promise<PurchaseOrderEvent[]> => {
+  const { data, error } = await supabase
+    .from('purchase_order_events')
+    .select('*')
+    .eq('purchase_order_id', orderId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []).map(toPurchaseOrderEvent);
+};
+
+/**
+ * Shipments of an order with their lines and the GRN and Odoo invoice matched to each
+ */
+export const getPurchaseOrderShipments = async (orderId: string): Promise<PurchaseOrderShipment[]> => {
+  const { data, error } = await supabase
+    .from('purchase_order_shipments')
+    .select(SHIPMENT_SELECT)
+    .eq('purchase_order_id', orderId)
+    .order('dispatched_at');
+
+  if (error) throw error;
+  return ((data || []) as PurchaseOrderShipmentRow[]).map(toPurchaseOrderShipment);
+};
+
+/**
+ * An agency's GRNs that are not matched to any shipment yet, newest first
+ */
+export const getUnmatchedGRNs = async (agencyId: string) => {
+  const [{ data: grns, error: grnsError }, { data: matched, error: matchedError }] = await Promise.all([
+    supabase
+      .from('grns')
+      .select('id, invoice_id, invoice_file_name, status, total, created_at')
+      .eq('agency_id', agencyId)
+      .order('created_at', { ascending: false })
+      .limit(100),
+    supabase
+      .from('purchase_order_shipments')
+      .select('grn_id')
+      .eq('agency_id', agencyId)
+      .not('grn_id', 'is', null)
+  ]);
+
+  if (grnsError) throw grnsError;
+  if (matchedError) throw matchedError;
+
+  const matchedIds = new Set((matched || []).map(row => row.grn_id));
+  return (grns || []).filter(grn => !matchedIds.has(grn.id));
+};
+
+/**
+ * Approve a pending order. Lines without an approval entry are approved in full. Superusers only.
+ */
+export const approvePurchaseOrder = async (orderId: string, approvals: PurchaseOrderLineApproval[], notes?: string) => {
+  const { error } = await supabase.rpc('approve_purchase_order', {
+    p_order_id: orderId,
+    p_lines: approvals.map(approval => ({
+      item_id: approval.itemId,
+      approved_quantity: approval.approvedQuantity
+    })),
+    p_notes: notes || undefined
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Agencies can cancel pending orders; head office can also cancel approved orders that have not shipped
+ */
+export const cancelPurchaseOrder = async (orderId: string, reason?: string) => {
+  const { error } = await supabase.rpc('cancel_purchase_order', {
+    p_order_id: orderId,
+    p_reason: reason || undefined
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Dispatch part or all of an approved order on an Odoo invoice; returns the shipment id. Superusers only.
+ */
+export const createPurchaseOrderShipment = async (
+  orderId: string,
+  invoiceReference: string,
+  items: PurchaseOrderShipmentItem[],
+  notes?: string,
+  closeOrder = false
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('create_purchase_order_shipment', {
+    p_order_id: orderId,
+    p_invoice_reference: invoiceReference,
+    p_lines: items.map(item => ({ item_id: item.itemId, quantity: item.quantity })),
+    p_notes: notes || undefined,
+    p_close_order: closeOrder
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Stop shipping the rest of an order; it is delivered once the shipments already sent are received
+ */
+export const closePurchaseOrderShipping = async (orderId: string, reason?: string) => {
+  const { error } = await supabase.rpc('close_purchase_order_shipping', {
+    p_order_id: orderId,
+    p_reason: reason || undefined
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Match a shipment to a GRN that does not carry its invoice reference
+ */
+export const linkShipmentGRN = async (shipmentId: string, grnId: string) => {
+  const { error } = await supabase.rpc('link_purchase_order_shipment_grn', {
+    p_shipment_id: shipmentId,
+    p_grn_id: grnId
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * SMS about an order to the agency that placed it, or to the head office numbers in 'po_notification_phones'
+ */
+export const notifyPurchaseOrder = async (
+  order: PurchaseOrderRecipient,
+  message: SmsMessage,
+  recipient: 'agency' | 'head_office'
+) => {
+  try {
+    let phones: string[] = [];
+
+    if (recipient === 'agency') {
+      const { data } = await supabase.from('agencies').select('phone').eq('id', order.agencyId).maybeSingle();
+      phones = data?.phone ? [data.phone] : [];
+    } else {
+      const { data } = await supabase.from('app_settings').select('value').eq('key', 'po_notification_phones').maybeSingle();
+      phones = (data?.value || '').split(',').map(phone => phone.trim()).filter(Boolean);
+    }
+
+    await Promise.all(phones.map(phone =>
+      sendSMS(phone, message, {
+        agencyId: order.agencyId,
+        related: { type: 'purchase_order', id: order.id },
+      })
+    ));
+  } catch (error) {
+    console.error('Error sending purchase order notification:', error);
+  }
+};
+
+/**
+ * Tell head office about orders that a received GRN has completed
+ */
+export const notifyDeliveredPurchaseOrders = async (grnId: string) => {
+  const { data, error } = await supabase
+    .from('purchase_order_shipments')
+    .select('purchase_orders!purchase_order_shipments_purchase_order_id_fkey(id, agency_id, agency_name, status)')
+    .eq('grn_id', grnId);
+
+  if (error) {
+    console.error('Error loading purchase orders for GRN:', error);
+    return;
+  }
+
+  for (const row of data || []) {
+    const order = row.purchase_orders;
+    if (order?.status !== 'delivered') continue;
+    await notifyPurchaseOrder(
+      { id: order.id, agencyId: order.agency_id, agencyName: order.agency_name },
+      SmsTemplates.purchaseOrderDelivered(order.agency_name, formatPurchaseOrderNumber(order.id)),
+      'head_office'
+    );
+  }
+};
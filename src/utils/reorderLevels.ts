@@ -0,0 +1,148 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { PurchaseSuggestion, ReorderLevel } from '@/types/inventory';
+import { fetchAllSupabaseRows } from '@/utils/supabasePagination';
+
+type StockBalanceRow = Database['public']['Tables']['external_inventory_stock_balances']['Row'];
+type ReorderLevelRow = Database['public']['Tables']['stock_reorder_levels']['Row'];
+
+const variantKey = (productName: string, color: string, size: string) => `${productName}|${color}|${size}`;
+
+/**
+ * Every stocked variant of an agency with its min/max level; variants without a saved level come back at 0/0
+ */
+export const getReorderLevels = async (agencyId: string): Promise<ReorderLevel[]> => {
+  const [balances, { data: levels, error }] = await Promise.all([
+    fetchAllSupabaseRows<StockBalanceRow>(() =>
+      supabase
+        .from('external_inventory_stock_balances')
+        .select('*')
+        .eq('agency_id', agencyId)
+        .order('product_name')
+        .order('color')
+        .order('size')
+    ),
+    supabase.from('stock_reorder_levels').select('*').eq('agency_id', agencyId)
+  ]);
+
+  if (error) throw error;
+
+  const levelsByVariant = new Map<string, ReorderLevelRow>(
+    (levels || []).map(level => [variantKey(level.product_name, level.color, level.size), level])
+  );
+
+  const toReorderLevel = (
+    variant: { product_name: string; color: string; size: string },
+    currentStock: number,
+    level?: ReorderLevelRow
+  ): ReorderLevel => ({
+    id: level?.id,
+    agencyId,
+    productName: variant.product_name,
+    color: variant.color,
+    size: variant.size,
+    currentStock,
+    minimumStock: level?.min_stock ?? 0,
+    maximumStock: level?.max_stock ?? 0,
+    source: level?.source === 'velocity' ? 'velocity' : 'manual',
+    velocityWeeks: level?.velocity_weeks ?? undefined,
+    dailySales: level?.daily_sales != null ? Number(level.daily_sales) : undefined,
+    updatedAt: level ? new Date(level.updated_at) : undefined
+  });
+
+  const rows = balances.map(balance => {
+    const key = variantKey(balance.product_name, balance.color, balance.size);
+    const level = levelsByVariant.get(key);
+    levelsByVariant.delete(key);
+    return toReorderLevel(balance, balance.current_stock, level);
+  });
+
+  // Levels kept for variants that have no stock movements left
+  levelsByVariant.forEach(level => rows.push(toReorderLevel(level, 0, level)));
+
+  return rows;
+};
+
+/**
+ * Save a hand-entered level; it is no longer replaced by velocity refreshes
+ */
+export const saveReorderLevel = async (
+  level: Pick<ReorderLevel, 'agencyId' | 'productName' | 'color' | 'size' | 'minimumStock' | 'maximumStock'>,
+  userId: string
+) => {
+  if (level.minimumStock < 0 || level.maximumStock < level.minimumStock) {
+    throw new Error('Maximum stock must be at least the minimum, and neither can be negative');
+  }
+
+  const { error } = await supabase
+    .from('stock_reorder_levels')
+    .upsert({
+      agency_id: level.agencyId,
+      product_name: level.productName,
+      color: level.color,
+      size: level.size,
+      min_stock: level.minimumStock,
+      max_stock: level.maximumStock,
+      source: 'manual',
+      velocity_weeks: null,
+      daily_sales: null,
+      updated_by: userId,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'agency_id,product_name,color,size' });
+
+  if (error) throw error;
+};
+
+/**
+ * Remove a variant's level so it falls back to the default low-stock threshold
+ */
+export const deleteReorderLevel = async (id: string) => {
+  const { error } = await supabase.from('stock_reorder_levels').delete().eq('id', id);
+  if (error) throw error;
+};
+
+/**
+ * Derive levels from the last N weeks of sales; manual levels are kept. Returns the number of variants updated.
+ */
+export const setReorderLevelsFromVelocity = async (
+  agencyId: string,
+  options: { weeks: number; leadDays: number; coverDays: number }
+): Promise<number> => {
+  const { data, error } = await supabase.rpc('set_reorder_levels_from_velocity', {
+    p_agency_id: agencyId,
+    p_weeks: options.weeks,
+    p_lead_days: options.leadDays,
+    p_cover_days: options.coverDays
+  });
+
+  if (error) throw error;
+  return data ?? 0;
+};
+
+/**
+ * Variants at or below minimum after open purchase orders, most urgent first
+ */
+export const getPurchaseSuggestions = async (agencyId: string, weeks: number): Promise<PurchaseSuggestion[]> => {
+  const { data, error } = await supabase.rpc('get_purchase_suggestions', {
+    p_agency_id: agencyId,
+    p_weeks: weeks
+  });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    productId: row.product_id || undefined,
+    productName: row.product_name,
+    ledgerProductName: row.ledger_product_name,
+    color: row.color,
+    size: row.size,
+    unitPrice: Number(row.unit_price || 0),
+    currentStock: row.current_stock,
+    minimumStock: row.min_stock,
+    maximumStock: row.max_stock,
+    dailySales: Number(row.daily_sales || 0),
+    sellThroughDays: row.sell_through_days != null ? Number(row.sell_through_days) : undefined,
+    onOrderQuantity: row.on_order_quantity,
+    suggestedQuantity: row.suggested_quantity
+  }));
+};
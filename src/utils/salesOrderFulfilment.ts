@@ -0,0 +1,67 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { BackorderLine, FillableBackorder, SalesOrder, SalesOrderItem } from '@/types/sales';
+
+/**
+ * Quantity of an order line not yet invoiced
+ */
+export const getOutstandingQuantity = (item: Pick<SalesOrderItem, 'quantity' | 'invoicedQuantity'>) =>
+  Math.max(0, item.quantity - (item.invoicedQuantity || 0));
+
+/**
+ * Whether any line of the order still has quantity to invoice
+ */
+export const hasOutstandingLines = (order: Pick<SalesOrder, 'items'>) =>
+  order.items.some(item => getOutstandingQuantity(item) > 0);
+
+/**
+ * Open lines of a customer's partially invoiced orders, oldest order first
+ */
+export const getCustomerBackorders = async (customerId: string): Promise<BackorderLine[]> => {
+  const { data, error } = await supabase
+    .from('sales_order_backorders')
+    .select('*')
+    .eq('customer_id', customerId)
+    .order('ordered_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    salesOrderItemId: row.sales_order_item_id || '',
+    salesOrderId: row.sales_order_id || '',
+    orderNumber: row.order_number || row.sales_order_id || '',
+    customerId: row.customer_id || '',
+    customerName: row.customer_name || '',
+    productId: row.product_id || undefined,
+    productName: row.product_name || '',
+    color: row.color || '',
+    size: row.size || '',
+    unitPrice: Number(row.unit_price || 0),
+    orderedQuantity: row.ordered_quantity || 0,
+    invoicedQuantity: row.invoiced_quantity || 0,
+    outstandingQuantity: row.outstanding_quantity || 0,
+    orderedAt: new Date(row.ordered_at || 0)
+  }));
+};
+
+/**
+ * Backorders in an agency whose variant has come into stock (GRN or company invoice) since it was ordered
+ */
+export const getFillableBackorders = async (agencyId: string): Promise<FillableBackorder[]> => {
+  const { data, error } = await supabase.rpc('get_fillable_backorders', { p_agency_id: agencyId });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    salesOrderItemId: row.sales_order_item_id,
+    salesOrderId: row.sales_order_id,
+    orderNumber: row.order_number || row.sales_order_id,
+    customerId: row.customer_id,
+    customerName: row.customer_name,
+    productName: row.product_name,
+    color: row.color,
+    size: row.size,
+    outstandingQuantity: row.outstanding_quantity,
+    availableQuantity: row.available_quantity,
+    receivedAt: new Date(row.received_at)
+  }));
+};
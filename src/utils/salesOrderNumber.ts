@@ -0,0 +1,30 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const getNextSalesOrderNumber = async (agencyId: string) => {
+  const agencyCode = agencyId.slice(-4);
+  const { data, error } = await supabase
+    .from('sales_orders')
+    .select('order_number')
+    .eq('agency_id', agencyId)
+    .like('order_number', `${agencyCode}-%`);
+
+  if (error) throw error;
+
+  const maxNumber = (data || []).reduce((max, order) => {
+    const match = order.order_number?.match(new RegExp(`^${agencyCode}-(\\d+)$`));
+    if (!match) return max;
+    return Math.max(max, Number(match[1]));
+  }, 99);
+
+  return `${agencyCode}-${String(maxNumber + 1).padStart(5, '0')}`;
+};
+
+export const isDuplicateOrderNumberError = (error: unknown) => {
+  if (!error || typeof error !== 'object') return false;
+
+  const supabaseError = error as { code?: string; message?: string };
+  return (
+    supabaseError.code === '23505' &&
+    Boolean(supabaseError.message?.includes('sales_orders_order_number_key'))
+  );
+};
@@ -0,0 +1,201 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { SmsLanguage, SmsMessage, SmsTemplate, SmsTemplateKey, SmsTemplateVariables } from '@/types/sms';
+
+type SmsTemplateRow = Database['public']['Tables']['sms_templates']['Row'];
+
+export interface SmsTemplateDefinition {
+  label: string;
+  placeholders: string[];
+  defaultBody: string;
+  sampleVariables: SmsTemplateVariables;
+}
+
+export const SMS_LANGUAGES: Array<{ value: SmsLanguage; label: string }> = [
+  { value: 'en', label: 'English' },
+  { value: 'si', label: 'Sinhala' },
+  { value: 'ta', label: 'Tamil' }
+];
+
+// Built-in English bodies, used when the sms_templates table has no matching row
+export const SMS_TEMPLATE_DEFINITIONS: Record<SmsTemplateKey, SmsTemplateDefinition> = {
+  customer_welcome: {
+    label: 'Customer welcome',
+    placeholders: ['customer_name'],
+    defaultBody: 'Dear {customer_name}, welcome to DAG Clothing Pvt Ltd! We are delighted to have you as our valued customer. We look forward to serving you with the finest apparel. Thank you for choosing DAG Clothing!',
+    sampleVariables: { customer_name: 'Nimal Stores' }
+  },
+  sales_order_created: {
+    label: 'Sales order created',
+    placeholders: ['customer_name', 'total', 'pdf_url'],
+    defaultBody: 'Dear {customer_name}, thank you for placing your order with DAG Clothing Pvt Ltd! Your sales order of LKR {total} has been successfully received and is being processed.[ View your order here: {pdf_url}] We truly appreciate your trust in us. Thank you for choosing DAG Clothing!',
+    sampleVariables: { customer_name: 'Nimal Stores', total: 45250, pdf_url: 'https://example.com/order.pdf' }
+  },
+  invoice_created: {
+    label: 'Invoice created',
+    placeholders: ['customer_name', 'invoice_number', 'total', 'pdf_url'],
+    defaultBody: 'Dear {customer_name}, your invoice #{invoice_number} of LKR {total} has been generated by DAG Clothing Pvt Ltd.[ You may view and download your invoice here: {pdf_url}] We are grateful for your continued support. Thank you for choosing DAG Clothing!',
+    sampleVariables: { customer_name: 'Nimal Stores', invoice_number: 'INV-000123', total: 45250, pdf_url: 'https://example.com/invoice.pdf' }
+  },
+  purchase_order_created: {
+    label: 'Purchase order submitted',
+    placeholders: ['agency_name', 'order_number', 'total', 'pdf_url'],
+    defaultBody: 'Dear Team, a new Purchase Order has been submitted by {agency_name}. Order ID: {order_number}, Total: LKR {total}.[ View PDF: {pdf_url}] Please review and process at your earliest convenience. - DAG Clothing Pvt Ltd',
+    sampleVariables: { agency_name: 'Kandy Agency', order_number: '3F2A9C1B', total: 250000, pdf_url: 'https://example.com/po.pdf' }
+  },
+  purchase_order_updated: {
+    label: 'Purchase order revised',
+    placeholders: ['agency_name', 'order_number', 'total', 'pdf_url'],
+    defaultBody: 'Dear Team, please note that Purchase Order {order_number} from {agency_name} has been revised. Updated Total: LKR {total}.[ View updated PDF: {pdf_url}] Kindly review the changes. - DAG Clothing Pvt Ltd',
+    sampleVariables: { agency_name: 'Kandy Agency', order_number: '3F2A9C1B', total: 265000, pdf_url: 'https://example.com/po.pdf' }
+  },
+  purchase_order_approved: {
+    label: 'Purchase order approved',
+    placeholders: ['agency_name', 'order_number', 'total', 'notes'],
+    defaultBody: 'Dear {agency_name}, your Purchase Order {order_number} has been approved by DAG Clothing Pvt Ltd. Approved value: LKR {total}.[ Note: {notes}] We will let you know when it ships.',
+    sampleVariables: { agency_name: 'Kandy Agency', order_number: '3F2A9C1B', total: 240000, notes: 'Size 42 is out of stock' }
+  },
+  purchase_order_shipped: {
+    label: 'Purchase order shipped',
+    placeholders: ['agency_name', 'order_number', 'quantity', 'invoice_reference'],
+    defaultBody: 'Dear {agency_name}, {quantity} pcs from your Purchase Order {order_number} have been dispatched on invoice {invoice_reference}. Please check them against the GRN when they arrive. - DAG Clothing Pvt Ltd',
+    sampleVariables: { agency_name: 'Kandy Agency', order_number: '3F2A9C1B', quantity: 480, invoice_reference: 'INV/2026/00412' }
+  },
+  purchase_order_delivered: {
+    label: 'Purchase order delivered',
+    placeholders: ['agency_name', 'order_number'],
+    defaultBody: 'Dear Team, Purchase Order {order_number} from {agency_name} has been fully received and is now closed. - DAG Clothing Pvt Ltd',
+    sampleVariables: { agency_name: 'Kandy Agency', order_number: '3F2A9C1B' }
+  },
+  purchase_order_cancelled: {
+    label: 'Purchase order cancelled',
+    placeholders: ['agency_name', 'order_number', 'reason'],
+    defaultBody: 'Purchase Order {order_number} for {agency_name} has been cancelled.[ Reason: {reason}] - DAG Clothing Pvt Ltd',
+    sampleVariables: { agency_name: 'Kandy Agency', order_number: '3F2A9C1B', reason: 'Placed twice' }
+  },
+  collection_recorded: {
+    label: 'Payment received',
+    placeholders: ['customer_name', 'total', 'payment_details'],
+    defaultBody: 'Dear {customer_name}, we have successfully received your payment of LKR {total} ({payment_details}) at DAG Clothing Pvt Ltd. Your account has been updated accordingly. We sincerely appreciate your prompt payment. Thank you for choosing DAG Clothing!',
+    sampleVariables: { customer_name: 'Nimal Stores', total: 30000, payment_details: 'Cash payment of LKR 10,000 & Cheque #100234 of LKR 20,000' }
+  },
+  customer_birthday: {
+    label: 'Customer birthday',
+    placeholders: ['customer_name'],
+    defaultBody: 'Dear {customer_name}, wishing you a very Happy Birthday from all of us at DAG Clothing Pvt Ltd! May this special day bring you joy, happiness, and wonderful moments. Thank you for being our valued customer. Have a fantastic birthday! 🎂',
+    sampleVariables: { customer_name: 'Nimal Stores' }
+  },
+  customer_statement: {
+    label: 'Account statement',
+    placeholders: ['customer_name', 'period', 'balance', 'statement_url'],
+    defaultBody: 'Dear {customer_name}, your account statement from DAG Clothing Pvt Ltd for {period} is ready. Balance due: LKR {balance}.[ View your statement here: {statement_url}] Thank you for your continued support.',
+    sampleVariables: { customer_name: 'Nimal Stores', period: '01 Jun 2026 - 30 Jun 2026', balance: 84500, statement_url: 'https://example.com/statement' }
+  }
+};
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+const OPTIONAL_SECTION_PATTERN = /\[([^[\]]*)\]/g;
+
+let templatesCache: SmsTemplate[] | null = null;
+let templatesCacheExpiry = 0;
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+const mapSmsTemplate = (row: SmsTemplateRow): SmsTemplate => ({
+  id: row.id,
+  templateKey: row.template_key as SmsTemplateKey,
+  language: row.language as SmsLanguage,
+  agencyId: row.agency_id,
+  body: row.body,
+  isActive: row.is_active,
+  updatedAt: row.updated_at
+});
+
+const formatVariable = (value: SmsTemplateVariables[string]) => {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'number' ? value.toLocaleString() : String(value);
+};
+
+/**
+ * Fill {placeholder} tokens in a template body
+ * A [bracketed] section is dropped when any placeholder inside it has no value,
+ * so optional links don't leave dangling text
+ */
+export const renderSmsTemplate = (body: string, variables: SmsTemplateVariables): string =>
+  body
+    .replace(OPTIONAL_SECTION_PATTERN, (_, section: string) => {
+      const names = Array.from(section.matchAll(PLACEHOLDER_PATTERN), match => match[1]);
+      return names.some(name => formatVariable(variables[name]) === '') ? '' : section;
+    })
+    .replace(PLACEHOLDER_PATTERN, (_, name: string) => formatVariable(variables[name]))
+    .trim();
+
+/**
+ * Placeholders in a body that the template type does not supply; they render as empty text
+ */
+export const findUnknownPlaceholders = (body: string, templateKey: SmsTemplateKey): string[] => {
+  const known = SMS_TEMPLATE_DEFINITIONS[templateKey].placeholders;
+  const used = Array.from(body.matchAll(PLACEHOLDER_PATTERN), match => match[1]);
+  return Array.from(new Set(used.filter(name => !known.includes(name))));
+};
+
+/**
+ * Load all SMS templates (cached for 5 minutes)
+ */
+export const getSmsTemplates = async (): Promise<SmsTemplate[]> => {
+  if (templatesCache && Date.now() < templatesCacheExpiry) {
+    return templatesCache;
+  }
+
+  const { data, error } = await supabase.from('sms_templates').select('*');
+
+  if (error) {
+    if (!error.message.includes('does not exist')) {
+      console.warn('Error fetching SMS templates:', error);
+    }
+    return [];
+  }
+
+  templatesCache = (data || []).map(mapSmsTemplate);
+  templatesCacheExpiry = Date.now() + CACHE_DURATION;
+  return templatesCache;
+};
+
+export const clearSmsTemplatesCache = () => {
+  templatesCache = null;
+  templatesCacheExpiry = 0;
+};
+
+/**
+ * Pick the most specific active template body:
+ * agency + language, global + language, agency + English, global + English, built-in default
+ */
+export const resolveSmsTemplateBody = (
+  templates: SmsTemplate[],
+  templateKey: SmsTemplateKey,
+  language: SmsLanguage = 'en',
+  agencyId?: string | null
+): string => {
+  const candidates = templates.filter(template => template.templateKey === templateKey && template.isActive);
+  const find = (lang: SmsLanguage, agency: string | null) =>
+    candidates.find(template => template.language === lang && (template.agencyId ?? null) === agency);
+
+  const languages: SmsLanguage[] = language === 'en' ? ['en'] : [language, 'en'];
+  for (const lang of languages) {
+    const match = (agencyId ? find(lang, agencyId) : undefined) || find(lang, null);
+    if (match) return match.body;
+  }
+
+  return SMS_TEMPLATE_DEFINITIONS[templateKey].defaultBody;
+};
+
+/**
+ * Render a message in the recipient's language, preferring their agency's template
+ */
+export const renderSmsMessage = async (
+  message: SmsMessage,
+  language: SmsLanguage = 'en',
+  agencyId?: string | null
+): Promise<string> => {
+  const templates = await getSmsTemplates();
+  return renderSmsTemplate(resolveSmsTemplateBody(templates, message.templateKey, language, agencyId), message.variables);
+};
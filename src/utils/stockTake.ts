@@ -0,0 +1,228 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { StockTakeCount, StockTakeLine, StockTakeSession, StockTakeStatus } from '@/types/inventory';
+import { fetchAllSupabaseRows } from '@/utils/supabasePagination';
+
+type StockTakeSessionRow = Database['public']['Tables']['stock_take_sessions']['Row'];
+type StockTakeVarianceRow = Database['public']['Functions']['get_stock_take_variances']['Returns'][number];
+type StockTakeCountRow = Database['public']['Tables']['stock_take_counts']['Row'];
+
+/** Prefix of the transaction_id shared by the adjustments a stock take submits */
+export const STOCK_TAKE_BATCH_PREFIX = 'STOCK-TAKE-';
+
+const toStockTakeSession = (row: StockTakeSessionRow): StockTakeSession => ({
+  id: row.id,
+  agencyId: row.agency_id,
+  sessionNumber: row.session_number,
+  name: row.name,
+  subCategories: row.sub_categories || [],
+  status: row.status as StockTakeStatus,
+  currentPass: row.current_pass,
+  snapshotAt: new Date(row.snapshot_at),
+  lineCount: row.line_count,
+  adjustmentCount: row.adjustment_count,
+  netVariance: row.net_variance,
+  varianceValue: Number(row.variance_value || 0),
+  createdByName: row.created_by_name || undefined,
+  submittedAt: row.submitted_at ? new Date(row.submitted_at) : undefined,
+  completedAt: row.completed_at ? new Date(row.completed_at) : undefined
+});
+
+const toStockTakeLine = (row: StockTakeVarianceRow): StockTakeLine => ({
+  id: row.line_id,
+  productName: row.product_name,
+  productCode: row.product_code || undefined,
+  color: row.color,
+  size: row.size,
+  category: row.category || 'General',
+  subCategory: row.sub_category || row.category || 'General',
+  expectedQuantity: row.expected_quantity,
+  movedQuantity: row.moved_quantity,
+  unitCost: Number(row.unit_cost || 0),
+  countedQuantity: row.counted_quantity ?? undefined,
+  countedPass: row.counted_pass ?? undefined,
+  variance: row.variance ?? undefined,
+  varianceValue: row.variance_value != null ? Number(row.variance_value) : undefined,
+  addedDuringCount: row.added_during_count
+});
+
+const toStockTakeCount = (row: StockTakeCountRow): StockTakeCount => ({
+  id: row.id,
+  lineId: row.line_id,
+  passNumber: row.pass_number,
+  quantity: row.quantity,
+  countedByName: row.counted_by_name || undefined,
+  countedAt: new Date(row.counted_at)
+});
+
+/**
+ * An agency's stock takes, newest first
+ */
+export const getStockTakeSessions = async (agencyId: string): Promise<StockTakeSession[]> => {
+  const { data, error } = await supabase
+    .from('stock_take_sessions')
+    .select('*')
+    .eq('agency_id', agencyId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(toStockTakeSession);
+};
+
+export const getStockTakeSession = async (sessionId: string): Promise<StockTakeSession> => {
+  const { data, error } = await supabase
+    .from('stock_take_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .single();
+
+  if (error) throw error;
+  return toStockTakeSession(data);
+};
+
+/**
+ * Sub-categories an agency holds stock in, for scoping a count
+ */
+export const getStockTakeSubCategories = async (agencyId: string): Promise<string[]> => {
+  const rows = await fetchAllSupabaseRows<{ category: string | null; sub_category: string | null }>(() =>
+    supabase
+      .from('external_inventory_stock_balances')
+      .select('category, sub_category')
+      .eq('agency_id', agencyId)
+  );
+
+  return Array.from(new Set(rows.map(row => row.sub_category || row.category || 'General'))).sort();
+};
+
+/**
+ * Open a session and freeze expected quantities; an empty scope counts every sub-category
+ */
+export const startStockTake = async (agencyId: string, name: string, subCategories: string[]): Promise<string> => {
+  const { data, error } = await supabase.rpc('start_stock_take', {
+    p_agency_id: agencyId,
+    p_name: name,
+    p_sub_categories: subCategories
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Every line of a session with its counted quantity and variance against the snapshot
+ */
+export const getStockTakeLines = async (sessionId: string): Promise<StockTakeLine[]> => {
+  const rows = await fetchAllSupabaseRows<StockTakeVarianceRow>(() =>
+    supabase.rpc('get_stock_take_variances', { p_session_id: sessionId })
+  );
+  return rows.map(toStockTakeLine);
+};
+
+/**
+ * Count entries recorded in one pass, newest first
+ */
+export const getStockTakeCounts = async (sessionId: string, passNumber: number): Promise<StockTakeCount[]> => {
+  const rows = await fetchAllSupabaseRows<StockTakeCountRow>(() =>
+    supabase
+      .from('stock_take_counts')
+      .select('*')
+      .eq('session_id', sessionId)
+      .eq('pass_number', passNumber)
+      .order('counted_at', { ascending: false })
+  );
+  return rows.map(toStockTakeCount);
+};
+
+/**
+ * Record counted units for a line; entries in the same pass add up, so several counters can share a line
+ */
+export const recordStockTakeCount = async (
+  sessionId: string,
+  lineId: string,
+  passNumber: number,
+  quantity: number,
+  counter: { id: string; name: string }
+) => {
+  if (!Number.isInteger(quantity) || quantity < 0) {
+    throw new Error('Counted quantity must be a whole number of zero or more');
+  }
+
+  const { error } = await supabase.from('stock_take_counts').insert({
+    session_id: sessionId,
+    line_id: lineId,
+    pass_number: passNumber,
+    quantity,
+    counted_by: counter.id,
+    counted_by_name: counter.name
+  });
+
+  if (error) throw error;
+};
+
+export const deleteStockTakeCount = async (countId: string) => {
+  const { error } = await supabase.from('stock_take_counts').delete().eq('id', countId);
+  if (error) throw error;
+};
+
+/**
+ * Add a variant found on the shelf that was not in the snapshot; it is expected at zero
+ */
+export const addStockTakeLine = async (
+  sessionId: string,
+  variant: { productName: string; color: string; size: string; category?: string; subCategory?: string; unitCost?: number }
+): Promise<string> => {
+  const { data, error } = await supabase
+    .from('stock_take_lines')
+    .insert({
+      session_id: sessionId,
+      product_name: variant.productName,
+      color: variant.color || 'Default',
+      size: variant.size || 'Default',
+      category: variant.category || 'General',
+      sub_category: variant.subCategory || variant.category || 'General',
+      unit_cost: variant.unitCost || 0,
+      expected_quantity: 0,
+      added_during_count: true
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+/**
+ * Start a recount; lines counted in the new pass replace their earlier counts, the rest keep them
+ */
+export const startNextStockTakePass = async (session: StockTakeSession) => {
+  const { error } = await supabase
+    .from('stock_take_sessions')
+    .update({ current_pass: session.currentPass + 1 })
+    .eq('id', session.id)
+    .eq('status', 'counting');
+
+  if (error) throw error;
+};
+
+export const cancelStockTake = async (sessionId: string) => {
+  const { error } = await supabase
+    .from('stock_take_sessions')
+    .update({ status: 'cancelled' })
+    .eq('id', sessionId)
+    .eq('status', 'counting');
+
+  if (error) throw error;
+};
+
+/**
+ * Post the net differences as one batch of pending adjustments. Returns the number of adjustments created.
+ */
+export const submitStockTake = async (sessionId: string, zeroUncounted: boolean): Promise<number> => {
+  const { data, error } = await supabase.rpc('submit_stock_take', {
+    p_session_id: sessionId,
+    p_zero_uncounted: zeroUncounted
+  });
+
+  if (error) throw error;
+  return data ?? 0;
+};
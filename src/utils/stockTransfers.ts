@@ -0,0 +1,218 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type {
+  StockTransfer,
+  StockTransferItem,
+  StockTransferLine,
+  StockTransferReceipt,
+  StockTransferStatus,
+} from '@/types/inventory';
+import { fetchAllSupabaseRows } from '@/utils/supabasePagination';
+
+type StockTransferRow = Database['public']['Tables']['stock_transfers']['Row'] & {
+  from_agency?: { name: string } | null;
+  to_agency?: { name: string } | null;
+};
+type StockTransferLineRow = Database['public']['Tables']['stock_transfer_lines']['Row'];
+
+const APPROVAL_THRESHOLD_KEY = 'stock_transfer_approval_value';
+
+const TRANSFER_SELECT = '*, from_agency:agencies!stock_transfers_from_agency_id_fkey(name), to_agency:agencies!stock_transfers_to_agency_id_fkey(name)';
+
+const toStockTransfer = (row: StockTransferRow): StockTransfer => ({
+  id: row.id,
+  transferNumber: row.transfer_number,
+  fromAgencyId: row.from_agency_id,
+  fromAgencyName: row.from_agency?.name || undefined,
+  toAgencyId: row.to_agency_id,
+  toAgencyName: row.to_agency?.name || undefined,
+  status: row.status as StockTransferStatus,
+  requiresApproval: row.requires_approval,
+  lineCount: row.line_count,
+  totalQuantity: row.total_quantity,
+  totalValue: Number(row.total_value || 0),
+  receivedQuantity: row.received_quantity,
+  damagedQuantity: row.damaged_quantity,
+  shortQuantity: row.short_quantity,
+  notes: row.notes || undefined,
+  receiptNotes: row.receipt_notes || undefined,
+  createdByName: row.created_by_name || undefined,
+  reviewedByName: row.reviewed_by_name || undefined,
+  reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+  rejectionReason: row.rejection_reason || undefined,
+  dispatchedAt: row.dispatched_at ? new Date(row.dispatched_at) : undefined,
+  receivedByName: row.received_by_name || undefined,
+  receivedAt: row.received_at ? new Date(row.received_at) : undefined,
+  createdAt: new Date(row.created_at)
+});
+
+const toStockTransferLine = (row: StockTransferLineRow): StockTransferLine => ({
+  id: row.id,
+  productName: row.product_name,
+  productCode: row.product_code || undefined,
+  color: row.color,
+  size: row.size,
+  category: row.category || 'General',
+  subCategory: row.sub_category || row.category || 'General',
+  quantity: row.quantity,
+  unitCost: Number(row.unit_cost || 0),
+  receivedQuantity: row.received_quantity ?? undefined,
+  damagedQuantity: row.damaged_quantity,
+  shortQuantity: row.short_quantity
+});
+
+/**
+ * Transfers into or out of an agency, newest first; every transfer when no agency is given (superusers)
+ */
+export const getStockTransfers = async (agencyId?: string): Promise<StockTransfer[]> => {
+  const rows = await fetchAllSupabaseRows<StockTransferRow>(() => {
+    const query = supabase
+      .from('stock_transfers')
+      .select(TRANSFER_SELECT)
+      .order('created_at', { ascending: false });
+    return agencyId ? query.or(`from_agency_id.eq.${agencyId},to_agency_id.eq.${agencyId}`) : query;
+  });
+
+  return rows.map(toStockTransfer);
+};
+
+export const getStockTransferLines = async (transferId: string): Promise<StockTransferLine[]> => {
+  const rows = await fetchAllSupabaseRows<StockTransferLineRow>(() =>
+    supabase
+      .from('stock_transfer_lines')
+      .select('*')
+      .eq('transfer_id', transferId)
+      .order('product_name')
+      .order('color')
+      .order('size')
+  );
+
+  return rows.map(toStockTransferLine);
+};
+
+/**
+ * Variants an agency has in stock, with the quantity that can be transferred
+ */
+export const getTransferableStock = async (agencyId: string): Promise<(StockTransferItem & { available: number })[]> => {
+  const rows = await fetchAllSupabaseRows<Database['public']['Tables']['external_inventory_stock_balances']['Row']>(() =>
+    supabase
+      .from('external_inventory_stock_balances')
+      .select('*')
+      .eq('agency_id', agencyId)
+      .gt('current_stock', 0)
+      .order('product_name')
+      .order('color')
+      .order('size')
+  );
+
+  return rows.map(row => ({
+    productName: row.product_name,
+    productCode: row.product_code || undefined,
+    color: row.color,
+    size: row.size,
+    category: row.category || undefined,
+    subCategory: row.sub_category || undefined,
+    quantity: 0,
+    available: row.current_stock
+  }));
+};
+
+/**
+ * Units on their way to an agency from transfers that have been dispatched but not received
+ */
+export const getStockInTransit = async (agencyId: string): Promise<{ quantity: number; value: number }> => {
+  const { data, error } = await supabase
+    .from('stock_in_transit')
+    .select('quantity, stock_value')
+    .eq('agency_id', agencyId);
+
+  if (error) throw error;
+  return (data || []).reduce(
+    (total, row) => ({ quantity: total.quantity + (row.quantity || 0), value: total.value + Number(row.stock_value || 0) }),
+    { quantity: 0, value: 0 }
+  );
+};
+
+/**
+ * Raise a transfer. It is dispatched straight away unless it needs approval; returns the transfer id.
+ */
+export const createStockTransfer = async (
+  fromAgencyId: string,
+  toAgencyId: string,
+  items: StockTransferItem[],
+  notes?: string
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('create_stock_transfer', {
+    p_from_agency_id: fromAgencyId,
+    p_to_agency_id: toAgencyId,
+    p_lines: items.map(item => ({
+      product_name: item.productName,
+      product_code: item.productCode || null,
+      color: item.color,
+      size: item.size,
+      category: item.category || null,
+      sub_category: item.subCategory || null,
+      quantity: item.quantity
+    })),
+    p_notes: notes || undefined
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Approve (and dispatch) or reject a transfer waiting for approval. Superusers only.
+ */
+export const reviewStockTransfer = async (transferId: string, approve: boolean, reason?: string) => {
+  const { error } = await supabase.rpc('review_stock_transfer', {
+    p_transfer_id: transferId,
+    p_approve: approve,
+    p_reason: reason || undefined
+  });
+
+  if (error) throw error;
+};
+
+export const cancelStockTransfer = async (transferId: string) => {
+  const { error } = await supabase.rpc('cancel_stock_transfer', { p_transfer_id: transferId });
+  if (error) throw error;
+};
+
+/**
+ * Receive a transfer; lines without a receipt entry are taken as received in full
+ */
+export const receiveStockTransfer = async (transferId: string, receipts: StockTransferReceipt[], notes?: string) => {
+  const { error } = await supabase.rpc('receive_stock_transfer', {
+    p_transfer_id: transferId,
+    p_lines: receipts.map(receipt => ({
+      line_id: receipt.lineId,
+      received_quantity: receipt.receivedQuantity,
+      damaged_quantity: receipt.damagedQuantity
+    })),
+    p_notes: notes || undefined
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Transfers worth more than this at cost wait for superuser approval
+ */
+export const getStockTransferApprovalThreshold = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('stock_transfer_approval_threshold');
+  if (error) throw error;
+  return Number(data || 0);
+};
+
+export const setStockTransferApprovalThreshold = async (value: number) => {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error('Approval threshold must be zero or more');
+  }
+
+  const { error } = await supabase
+    .from('app_settings')
+    .upsert({ key: APPROVAL_THRESHOLD_KEY, value: String(value), updated_at: new Date().toISOString() });
+
+  if (error) throw error;
+};
@@ -0,0 +1,98 @@
+// Records outbound SMS in sms_messages and sends them with retry bookkeeping.
+import { getSmsProvider, type SmsProvider } from './smsProviders.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SERVICE_ROLE_KEY = Deno.env.get('SB_SERVICE_ROLE_KEY') ?? '';
+
+export const MAX_SMS_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+
+export interface SmsLogEntry {
+  recipient: string;
+  message: string;
+  template_key?: string | null;
+  language?: string | null;
+  customer_id?: string | null;
+  agency_id?: string | null;
+  related_type?: string | null;
+  related_id?: string | null;
+  resent_from?: string | null;
+  created_by?: string | null;
+}
+
+export interface SmsLogRow extends SmsLogEntry {
+  id: string;
+  status: 'pending' | 'sent' | 'failed';
+  attempts: number;
+}
+
+async function rest(path: string, init: RequestInit = {}) {
+  const res = await fetch(`${SUPABASE_URL}/rest/v1/${path}`, {
+    ...init,
+    headers: {
+      'apikey': SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      'Prefer': 'return=representation',
+      ...(init.headers ?? {}),
+    },
+  });
+  if (!res.ok) throw new Error(`sms_messages ${init.method ?? 'GET'} failed: ${await res.text()}`);
+  return res.json();
+}
+
+// 1, 4, 16, 64 minutes after each failed attempt
+export function nextRetryAt(attempts: number): string | null {
+  if (attempts >= MAX_SMS_ATTEMPTS) return null;
+  return new Date(Date.now() + BASE_RETRY_DELAY_MS * 4 ** (attempts - 1)).toISOString();
+}
+
+export async function createSmsLog(entry: SmsLogEntry): Promise<SmsLogRow> {
+  const rows = await rest('sms_messages', { method: 'POST', body: JSON.stringify({ ...entry, status: 'pending' }) });
+  return rows[0];
+}
+
+export async function getSmsLog(id: string): Promise<SmsLogRow | null> {
+  const rows = await rest(`sms_messages?id=eq.${id}&select=*`);
+  return rows[0] ?? null;
+}
+
+// Failed messages whose backoff has elapsed, marked pending so an overlapping run skips them
+export async function claimDueRetries(limit = 50): Promise<SmsLogRow[]> {
+  return rest('rpc/claim_due_sms_retries', {
+    method: 'POST',
+    body: JSON.stringify({ p_max_attempts: MAX_SMS_ATTEMPTS, p_limit: limit }),
+  });
+}
+
+export async function isCustomerOptedOut(customerId: string): Promise<boolean> {
+  const rows = await rest(`customers?id=eq.${customerId}&select=sms_opt_out`);
+  return Boolean(rows[0]?.sms_opt_out);
+}
+
+// Sends one logged message and stores the outcome; never throws for gateway failures
+export async function deliverSms(row: SmsLogRow, provider: SmsProvider = getSmsProvider()): Promise<SmsLogRow> {
+  const result = await provider.send(row.recipient, row.message);
+  const attempts = row.attempts + 1;
+  const now = new Date().toISOString();
+
+  const update = result.ok
+    ? { status: 'sent', sent_at: now, last_error: null, next_retry_at: null }
+    : { status: 'failed', last_error: result.error ?? 'Unknown error', next_retry_at: result.retryable ? nextRetryAt(attempts) : null };
+
+  if (result.ok) console.log(`[sms] Sent ${row.id} via ${provider.name}`);
+  else console.error(`[sms] Failed ${row.id} via ${provider.name}:`, result.error);
+
+  const rows = await rest(`sms_messages?id=eq.${row.id}`, {
+    method: 'PATCH',
+    body: JSON.stringify({
+      ...update,
+      attempts,
+      provider: provider.name,
+      provider_message_id: result.providerMessageId ?? null,
+      provider_response: result.response ?? null,
+      updated_at: now,
+    }),
+  });
+  return rows[0] ?? { ...row, status: update.status as SmsLogRow['status'], attempts };
+}
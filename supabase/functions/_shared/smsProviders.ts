@@ -0,0 +1,83 @@
+// SMS gateways behind one interface. SMS_PROVIDER selects the gateway ('textlk' by default,
+// 'mock' to log messages without sending; set SMS_MOCK_FAIL=true to exercise retries).
+
+export interface SmsSendResult {
+  ok: boolean;
+  providerMessageId?: string | null;
+  response: unknown;
+  error?: string;
+  // false when resending cannot help, e.g. the gateway rejected the number
+  retryable: boolean;
+}
+
+export interface SmsProvider {
+  name: string;
+  send(to: string, message: string): Promise<SmsSendResult>;
+}
+
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.startsWith('94')) return digits;
+  if (digits.startsWith('0')) return '94' + digits.slice(1);
+  return '94' + digits;
+}
+
+class TextLkProvider implements SmsProvider {
+  name = 'textlk';
+
+  constructor(private apiToken: string, private senderId: string) {}
+
+  async send(to: string, message: string): Promise<SmsSendResult> {
+    try {
+      const res = await fetch('https://app.text.lk/api/v3/sms/send', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiToken}`,
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+        },
+        body: JSON.stringify({ recipient: normalizePhone(to), sender_id: this.senderId, message, type: 'plain' }),
+      });
+      const data = await res.json().catch(() => null);
+
+      // text.lk reports some failures with HTTP 200 and status "error"
+      if (!res.ok || data?.status === 'error') {
+        return {
+          ok: false,
+          response: data,
+          error: data?.message || `HTTP ${res.status}`,
+          retryable: res.status === 429 || res.status >= 500,
+        };
+      }
+
+      return { ok: true, providerMessageId: data?.data?.uid ?? null, response: data, retryable: false };
+    } catch (error) {
+      return { ok: false, response: null, error: error.message, retryable: true };
+    }
+  }
+}
+
+class MockSmsProvider implements SmsProvider {
+  name = 'mock';
+
+  constructor(private fail: boolean) {}
+
+  async send(to: string, message: string): Promise<SmsSendResult> {
+    const recipient = normalizePhone(to);
+    console.log(`[sms-mock] To ${recipient}: ${message}`);
+    if (this.fail) {
+      return { ok: false, response: { recipient }, error: 'Mock provider failure', retryable: true };
+    }
+    return { ok: true, providerMessageId: `mock-${crypto.randomUUID()}`, response: { recipient }, retryable: false };
+  }
+}
+
+export function getSmsProvider(name = Deno.env.get('SMS_PROVIDER') ?? 'textlk'): SmsProvider {
+  switch (name) {
+    case 'mock':
+      return new MockSmsProvider(Deno.env.get('SMS_MOCK_FAIL') === 'true');
+    case 'textlk':
+    default:
+      return new TextLkProvider(Deno.env.get('SMS_API_TOKEN') ?? '', Deno.env.get('SMS_SENDER_ID') ?? 'AGENCY');
+  }
+}
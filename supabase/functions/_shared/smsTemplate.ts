@@ -0,0 +1,64 @@
+// Server-side counterpart of src/utils/smsTemplates.ts for edge functions.
+
+export interface SmsTemplateRow {
+  template_key: string;
+  language: string;
+  agency_id: string | null;
+  body: string;
+  is_active: boolean;
+}
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+const OPTIONAL_SECTION_PATTERN = /\[([^[\]]*)\]/g;
+
+function formatVariable(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'number' ? value.toLocaleString() : String(value);
+}
+
+// Fill {placeholder} tokens; a [bracketed] section is dropped when a placeholder in it is empty
+export function renderSmsTemplate(body: string, variables: Record<string, string | number | null | undefined>): string {
+  return body
+    .replace(OPTIONAL_SECTION_PATTERN, (_, section: string) => {
+      const names = Array.from(section.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]);
+      return names.some((name) => formatVariable(variables[name]) === '') ? '' : section;
+    })
+    .replace(PLACEHOLDER_PATTERN, (_, name: string) => formatVariable(variables[name]))
+    .trim();
+}
+
+// Most specific active template: agency + language, global + language, agency + English, global + English
+export function pickSmsTemplate(
+  templates: SmsTemplateRow[],
+  templateKey: string,
+  language: string,
+  agencyId: string | null,
+  fallbackBody: string,
+): string {
+  const candidates = templates.filter((t) => t.template_key === templateKey && t.is_active);
+  const find = (lang: string, agency: string | null) =>
+    candidates.find((t) => t.language === lang && (t.agency_id ?? null) === agency);
+
+  for (const lang of language === 'en' ? ['en'] : [language, 'en']) {
+    const match = (agencyId ? find(lang, agencyId) : undefined) || find(lang, null);
+    if (match) return match.body;
+  }
+  return fallbackBody;
+}
+
+export async function fetchSmsTemplates(supabaseUrl: string, serviceRoleKey: string, templateKey: string): Promise<SmsTemplateRow[]> {
+  const res = await fetch(
+    `${supabaseUrl}/rest/v1/sms_templates?select=template_key,language,agency_id,body,is_active&template_key=eq.${templateKey}`,
+    {
+      headers: {
+        'apikey': serviceRoleKey,
+        'Authorization': `Bearer ${serviceRoleKey}`,
+      },
+    }
+  );
+  if (!res.ok) {
+    console.error('[sms-template] Template fetch error:', await res.text());
+    return [];
+  }
+  return await res.json();
+}
@@ -1,30 +1,11 @@
+import { fetchSmsTemplates, pickSmsTemplate, renderSmsTemplate } from '../_shared/smsTemplate.ts';
+import { createSmsLog, deliverSms } from '../_shared/smsLog.ts';
+import { getSmsProvider } from '../_shared/smsProviders.ts';
+
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
 const SERVICE_ROLE_KEY = Deno.env.get('SB_SERVICE_ROLE_KEY') ?? '';
-const SMS_API_TOKEN = Deno.env.get('SMS_API_TOKEN') ?? '';
-const SMS_SENDER_ID = Deno.env.get('SMS_SENDER_ID') ?? 'AGENCY';
-
-function normalizePhone(phone: string): string {
-  const digits = phone.replace(/\D/g, '');
-  if (digits.startsWith('94')) return digits;
-  if (digits.startsWith('0')) return '94' + digits.slice(1);
-  return '94' + digits;
-}
 
-async function sendSms(to: string, message: string) {
-  const recipient = normalizePhone(to);
-  const res = await fetch('https://app.text.lk/api/v3/sms/send', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${SMS_API_TOKEN}`,
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-    },
-    body: JSON.stringify({ recipient, sender_id: SMS_SENDER_ID, message, type: 'plain' }),
-  });
-  const data = await res.json();
-  if (!res.ok) console.error('[birthday-sms] SMS error:', JSON.stringify(data));
-  else console.log('[birthday-sms] Sent to', recipient);
-}
+const DEFAULT_BIRTHDAY_TEMPLATE = 'Dear {customer_name}, wishing you a very Happy Birthday from all of us at DAG Clothing Pvt Ltd! May this special day bring you joy, happiness, and wonderful moments. Thank you for being our valued customer. Have a fantastic birthday! 🎂';
 
 Deno.serve(async (_req) => {
   try {
@@ -36,7 +17,7 @@ Deno.serve(async (_req) => {
     const todayDay = today.getUTCDate();         // 1–31
 
     const res = await fetch(
-      `${SUPABASE_URL}/rest/v1/customers?select=name,phone,shop_owner_birthday&shop_owner_birthday=not.is.null`,
+      `${SUPABASE_URL}/rest/v1/customers?select=id,name,phone,shop_owner_birthday,agency_id,preferred_language,sms_opt_out&shop_owner_birthday=not.is.null&sms_opt_out=is.false`,
       {
         headers: {
           'apikey': SERVICE_ROLE_KEY,
@@ -51,7 +32,15 @@ Deno.serve(async (_req) => {
       return new Response(JSON.stringify({ error: err }), { status: 500 });
     }
 
-    const customers: Array<{ name: string; phone: string | null; shop_owner_birthday: string }> = await res.json();
+    const customers: Array<{
+      id: string;
+      name: string;
+      phone: string | null;
+      shop_owner_birthday: string;
+      agency_id: string | null;
+      preferred_language: string | null;
+      sms_opt_out: boolean;
+    }> = await res.json();
 
     const birthdayCustomers = customers.filter(c => {
       if (!c.shop_owner_birthday || !c.phone) return false;
@@ -61,13 +50,32 @@ Deno.serve(async (_req) => {
 
     console.log(`[birthday-sms] Found ${birthdayCustomers.length} birthdays today (${todayDay}/${todayMonth})`);
 
+    const templates = birthdayCustomers.length > 0
+      ? await fetchSmsTemplates(SUPABASE_URL, SERVICE_ROLE_KEY, 'customer_birthday')
+      : [];
+
+    const provider = getSmsProvider();
+    let sent = 0;
+
     for (const customer of birthdayCustomers) {
-      const message = `Dear ${customer.name}, wishing you a very Happy Birthday from all of us at DAG Clothing Pvt Ltd! May this special day bring you joy, happiness, and wonderful moments. Thank you for being our valued customer. Have a fantastic birthday! 🎂`;
-      await sendSms(customer.phone!, message);
+      const language = customer.preferred_language || 'en';
+      const body = pickSmsTemplate(templates, 'customer_birthday', language, customer.agency_id, DEFAULT_BIRTHDAY_TEMPLATE);
+      const logged = await createSmsLog({
+        recipient: customer.phone!,
+        message: renderSmsTemplate(body, { customer_name: customer.name }),
+        template_key: 'customer_birthday',
+        language,
+        customer_id: customer.id,
+        agency_id: customer.agency_id,
+        related_type: 'customer',
+        related_id: customer.id,
+      });
+      const result = await deliverSms(logged, provider);
+      if (result.status === 'sent') sent++;
     }
 
     return new Response(
-      JSON.stringify({ success: true, sent: birthdayCustomers.length }),
+      JSON.stringify({ success: true, due: birthdayCustomers.length, sent }),
       { headers: { 'Content-Type': 'application/json' } }
     );
   } catch (err) {
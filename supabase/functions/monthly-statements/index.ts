@@ -0,0 +1,312 @@
+import { corsHeaders } from '../_shared/cors.ts';
+import { fetchSmsTemplates, pickSmsTemplate, renderSmsTemplate } from '../_shared/smsTemplate.ts';
+import { createSmsLog, deliverSms } from '../_shared/smsLog.ts';
+import { getSmsProvider } from '../_shared/smsProviders.ts';
+import { buildStatementBundlePdf, StatementJson } from './statementBundle.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SERVICE_ROLE_KEY = Deno.env.get('SB_SERVICE_ROLE_KEY') ?? '';
+
+const DEFAULT_STATEMENT_TEMPLATE = 'Dear {customer_name}, your account statement from DAG Clothing Pvt Ltd for {period} is ready. Balance due: LKR {balance}.[ View your statement here: {statement_url}] Thank you for your continued support.';
+
+type Caller = { id: string; role: string; agency_id: string | null };
+
+type CustomerRow = {
+  id: string;
+  name: string;
+  phone: string | null;
+  preferred_language: string | null;
+  sms_opt_out: boolean;
+};
+
+type BalanceRow = { customer_id: string; opening_balance: number; closing_balance: number };
+
+type RunRow = {
+  id: string;
+  agency_id: string;
+  period_from: string;
+  period_to: string;
+  trigger: 'manual' | 'scheduled';
+  send_sms: boolean;
+};
+
+async function rest(path: string, init: RequestInit = {}) {
+  const res = await fetch(`${SUPABASE_URL}/rest/v1/${path}`, {
+    ...init,
+    headers: {
+      'apikey': SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      'Prefer': 'return=representation',
+      ...(init.headers ?? {}),
+    },
+  });
+  if (!res.ok) throw new Error(`${init.method ?? 'GET'} ${path.split('?')[0]} failed: ${await res.text()}`);
+  return res.json();
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// The signed-in user and their profile; null when called with the service role key (cron)
+async function getCaller(req: Request): Promise<Caller | null> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization || authorization === `Bearer ${SERVICE_ROLE_KEY}`) return null;
+  const res = await fetch(`${SUPABASE_URL}/auth/v1/user`, {
+    headers: { 'apikey': SERVICE_ROLE_KEY, 'Authorization': authorization },
+  });
+  if (!res.ok) throw new Error('Not signed in');
+  const user = await res.json();
+  const profiles = await rest(`profiles?id=eq.${user.id}&select=id,role,agency_id`);
+  if (!profiles[0]) throw new Error('Profile not found');
+  return profiles[0];
+}
+
+// The previous calendar month in Sri Lanka time (UTC+5:30)
+function previousMonth(): { from: string; to: string } {
+  const today = new Date(Date.now() + 5.5 * 60 * 60 * 1000);
+  const from = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, 1));
+  const to = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 0));
+  return { from: from.toISOString().slice(0, 10), to: to.toISOString().slice(0, 10) };
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+// Every statement of the run in one PDF, stored where Reports opens the print bundle from
+async function storeBundle(runId: string, statementsByCustomer: Map<string, string>, period: { from: string; to: string }) {
+  const statements: StatementJson[] = [];
+  for (const customerId of statementsByCustomer.keys()) {
+    statements.push(await rest('rpc/get_customer_statement', {
+      method: 'POST',
+      body: JSON.stringify({ p_customer_id: customerId, p_from: period.from, p_to: period.to }),
+    }));
+  }
+  statements.sort((a, b) => a.customer.name.localeCompare(b.customer.name));
+
+  const path = `statements/runs/${runId}.pdf`;
+  const res = await fetch(`${SUPABASE_URL}/storage/v1/object/invoice-pdfs/${path}`, {
+    method: 'POST',
+    headers: {
+      'apikey': SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/pdf',
+      'x-upsert': 'true',
+    },
+    body: buildStatementBundlePdf(statements),
+  });
+  if (!res.ok) throw new Error(`Bundle upload failed: ${await res.text()}`);
+  return `${SUPABASE_URL}/storage/v1/object/public/invoice-pdfs/${path}?t=${Date.now()}`;
+}
+
+async function startRun(
+  agencyId: string,
+  period: { from: string; to: string },
+  options: { sendSms: boolean; trigger: 'manual' | 'scheduled'; createdBy: string | null },
+): Promise<RunRow> {
+  const [run] = await rest('statement_runs', {
+    method: 'POST',
+    body: JSON.stringify({
+      agency_id: agencyId,
+      period_from: period.from,
+      period_to: period.to,
+      trigger: options.trigger,
+      send_sms: options.sendSms,
+      created_by: options.createdBy,
+      started_at: new Date().toISOString(),
+    }),
+  });
+  return run;
+}
+
+async function processRun(run: RunRow, createdBy: string | null) {
+  const agencyId = run.agency_id;
+  const period = { from: run.period_from, to: run.period_to };
+  const options = { sendSms: run.send_sms, createdBy };
+
+  try {
+    const balances: BalanceRow[] = await rest('rpc/get_agency_statement_balances', {
+      method: 'POST',
+      body: JSON.stringify({ p_agency_id: agencyId, p_from: period.from, p_to: period.to }),
+    });
+
+    const customers: CustomerRow[] = balances.length > 0
+      ? await rest(`customers?agency_id=eq.${agencyId}&select=id,name,phone,preferred_language,sms_opt_out`)
+      : [];
+    const customersById = new Map(customers.map((customer) => [customer.id, customer]));
+
+    const statements: Array<{ id: string; customer_id: string }> = balances.length > 0
+      ? await rest('customer_statements', {
+          method: 'POST',
+          body: JSON.stringify(balances.map((balance) => ({
+            customer_id: balance.customer_id,
+            agency_id: agencyId,
+            period_from: period.from,
+            period_to: period.to,
+            opening_balance: balance.opening_balance,
+            closing_balance: balance.closing_balance,
+            created_by: options.createdBy,
+          }))),
+        })
+      : [];
+    const statementIds = new Map(statements.map((statement) => [statement.customer_id, statement.id]));
+
+    const templates = options.sendSms && balances.length > 0
+      ? await fetchSmsTemplates(SUPABASE_URL, SERVICE_ROLE_KEY, 'customer_statement')
+      : [];
+    const provider = getSmsProvider();
+    const periodLabel = `${formatDate(period.from)} - ${formatDate(period.to)}`;
+
+    const items = [];
+    for (const balance of balances) {
+      const customer = customersById.get(balance.customer_id);
+      const statementId = statementIds.get(balance.customer_id) ?? null;
+      const item = {
+        run_id: run.id,
+        customer_id: balance.customer_id,
+        statement_id: statementId,
+        closing_balance: balance.closing_balance,
+        status: 'generated',
+        sms_message_id: null as string | null,
+        error: null as string | null,
+      };
+
+      if (!statementId) {
+        item.status = 'failed';
+        item.error = 'Statement was not created';
+      } else if (options.sendSms) {
+        if (!customer?.phone || customer.sms_opt_out) {
+          item.status = 'skipped';
+          item.error = customer?.sms_opt_out ? 'Customer opted out of SMS' : 'No phone number';
+        } else {
+          try {
+            const language = customer.preferred_language || 'en';
+            const body = pickSmsTemplate(templates, 'customer_statement', language, agencyId, DEFAULT_STATEMENT_TEMPLATE);
+            const logged = await createSmsLog({
+              recipient: customer.phone,
+              message: renderSmsTemplate(body, {
+                customer_name: customer.name,
+                period: periodLabel,
+                balance: Number(balance.closing_balance),
+                statement_url: `${SUPABASE_URL}/functions/v1/view-statement?id=${statementId}`,
+              }),
+              template_key: 'customer_statement',
+              language,
+              customer_id: customer.id,
+              agency_id: agencyId,
+              related_type: 'statement',
+              related_id: statementId,
+              created_by: options.createdBy,
+            });
+            const result = await deliverSms(logged, provider);
+            item.sms_message_id = result.id;
+            item.status = result.status === 'sent' ? 'sent' : 'failed';
+            // Failed deliveries are retried by sms-retry; the log shows the latest outcome
+            if (result.status !== 'sent') item.error = 'SMS delivery failed';
+          } catch (error) {
+            item.status = 'failed';
+            item.error = error.message;
+          }
+        }
+      }
+
+      items.push(item);
+    }
+
+    if (items.length > 0) {
+      await rest('statement_run_items', { method: 'POST', body: JSON.stringify(items) });
+    }
+
+    // Scheduled runs have nobody to print the bundle on demand, so it is built now; a failure here leaves
+    // the statements in place and Reports can still build the bundle later
+    let bundlePdfUrl: string | null = null;
+    if (run.trigger === 'scheduled' && statementIds.size > 0) {
+      try {
+        bundlePdfUrl = await storeBundle(run.id, statementIds, period);
+      } catch (error) {
+        console.error(`[monthly-statements] Bundle for run ${run.id} failed:`, error);
+      }
+    }
+
+    const summary = {
+      status: 'completed',
+      bundle_pdf_url: bundlePdfUrl,
+      customer_count: items.length,
+      sms_sent_count: items.filter((item) => item.status === 'sent').length,
+      failed_count: items.filter((item) => item.status === 'failed').length,
+      total_balance: balances.reduce((sum, balance) => sum + Number(balance.closing_balance), 0),
+      completed_at: new Date().toISOString(),
+    };
+    await rest(`statement_runs?id=eq.${run.id}`, { method: 'PATCH', body: JSON.stringify(summary) });
+    console.log(`[monthly-statements] Agency ${agencyId}: ${summary.customer_count} statements, ${summary.sms_sent_count} SMS sent`);
+    return { runId: run.id, agencyId, ...summary };
+  } catch (error) {
+    console.error(`[monthly-statements] Agency ${agencyId} failed:`, error);
+    await rest(`statement_runs?id=eq.${run.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status: 'failed', error: error.message, completed_at: new Date().toISOString() }),
+    });
+    return { runId: run.id, agencyId, status: 'failed', error: error.message };
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    let caller: Caller | null;
+    try {
+      caller = await getCaller(req);
+    } catch (error) {
+      return json({ error: error.message }, 401);
+    }
+
+    const period = body.periodFrom && body.periodTo
+      ? { from: String(body.periodFrom), to: String(body.periodTo) }
+      : previousMonth();
+    if (period.from > period.to) {
+      return json({ error: 'periodFrom must be on or before periodTo' }, 400);
+    }
+
+    // The cron worker sends no agency: it takes the next queued scheduled run, one agency per call
+    if (!caller && !body.agencyId) {
+      const [run]: RunRow[] = await rest('rpc/claim_statement_run', { method: 'POST', body: '{}' });
+      if (!run) return json({ success: true, runs: [] });
+      const result = await processRun(run, null);
+      return json({ success: true, periodFrom: run.period_from, periodTo: run.period_to, runs: [result] });
+    }
+
+    let agencyId: string;
+    if (caller && caller.role !== 'superuser') {
+      // Agency users can only run their own agency
+      if (!caller.agency_id || (body.agencyId && body.agencyId !== caller.agency_id)) {
+        return json({ error: 'Not allowed to run statements for this agency' }, 403);
+      }
+      agencyId = caller.agency_id;
+    } else if (body.agencyId) {
+      agencyId = String(body.agencyId);
+    } else {
+      return json({ error: 'Missing required field: agencyId' }, 400);
+    }
+
+    const run = await startRun(agencyId, period, {
+      sendSms: Boolean(body.sendSms),
+      trigger: caller ? 'manual' : 'scheduled',
+      createdBy: caller?.id ?? null,
+    });
+    const result = await processRun(run, caller?.id ?? null);
+
+    return json({ success: true, periodFrom: period.from, periodTo: period.to, runs: [result] });
+  } catch (error) {
+    console.error('[monthly-statements] Error:', error);
+    return json({ error: 'Internal server error', details: error.message }, 500);
+  }
+});
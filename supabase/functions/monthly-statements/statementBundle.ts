@@ -0,0 +1,135 @@
+import { jsPDF } from 'npm:jspdf@2.5.1';
+
+// What get_customer_statement returns
+export type StatementJson = {
+  customer: { name: string; phone: string | null; address: string | null };
+  agency: { name: string } | null;
+  period_from: string;
+  period_to: string;
+  opening_balance: number;
+  total_debits: number;
+  total_credits: number;
+  closing_balance: number;
+  entries: Array<{ date: string; reference: string; description: string; debit: number; credit: number; balance: number }> | null;
+  pending_cheques: Array<{ date: string; reference: string; description: string; amount: number }> | null;
+};
+
+const COMPANY_NAME = 'DAG Clothing Pvt Ltd';
+const COMPANY_ADDRESS = 'Dag clothing Pvt Ltd Kandamuduna Thalalla Matara';
+const COMPANY_CONTACT = 'Phone: 0412259525  |  Email: order@dag-apparel.com  |  Website: www.dag.lk';
+
+const MARGIN = 15;
+const PAGE_BOTTOM = 280;
+const ROW_HEIGHT = 6;
+
+const money = (value: number) =>
+  Number(value || 0).toLocaleString('en-LK', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Ledger columns as [left edge, width, align] in mm across the A4 page
+const LEDGER_COLUMNS: Array<[number, number, 'left' | 'right']> = [
+  [MARGIN, 22, 'left'],
+  [MARGIN + 22, 58, 'left'],
+  [MARGIN + 80, 30, 'left'],
+  [MARGIN + 110, 22, 'right'],
+  [MARGIN + 132, 22, 'right'],
+  [MARGIN + 154, 26, 'right'],
+];
+
+function drawRow(pdf: jsPDF, y: number, cells: string[], columns: Array<[number, number, 'left' | 'right']>) {
+  cells.forEach((text, index) => {
+    const [left, width, align] = columns[index];
+    // Long descriptions are cut to one line so every row keeps the same height
+    const [line = ''] = pdf.splitTextToSize(text, width - 2);
+    pdf.text(line, align === 'right' ? left + width - 1 : left + 1, y, { align });
+  });
+}
+
+function drawStatement(pdf: jsPDF, statement: StatementJson) {
+  let y = MARGIN + 5;
+  const nextRow = (height = ROW_HEIGHT) => {
+    y += height;
+    if (y > PAGE_BOTTOM) {
+      pdf.addPage();
+      y = MARGIN + 5;
+    }
+  };
+
+  pdf.setFont('helvetica', 'bold').setFontSize(16).text(COMPANY_NAME, MARGIN, y);
+  pdf.setFont('helvetica', 'normal').setFontSize(9).text(COMPANY_ADDRESS, MARGIN, y + 5);
+  pdf.text(COMPANY_CONTACT, MARGIN, y + 10);
+  pdf.line(MARGIN, y + 13, 210 - MARGIN, y + 13);
+  y += 22;
+
+  pdf.setFont('helvetica', 'bold').setFontSize(13).text('STATEMENT OF ACCOUNT', MARGIN, y);
+  pdf.setFontSize(10).text(statement.customer.name, 120, y);
+  pdf.setFont('helvetica', 'normal').setFontSize(9);
+  pdf.text(`Period: ${statement.period_from} to ${statement.period_to}`, MARGIN, y + 6);
+  if (statement.agency?.name) pdf.text(`Agency: ${statement.agency.name}`, MARGIN, y + 11);
+  if (statement.customer.address) pdf.text(pdf.splitTextToSize(statement.customer.address, 75)[0], 120, y + 6);
+  if (statement.customer.phone) pdf.text(statement.customer.phone, 120, y + 11);
+  y += 20;
+
+  pdf.setFont('helvetica', 'bold');
+  drawRow(pdf, y, ['Date', 'Description', 'Reference', 'Debit', 'Credit', 'Balance'], LEDGER_COLUMNS);
+  pdf.line(MARGIN, y + 2, 210 - MARGIN, y + 2);
+  pdf.setFont('helvetica', 'normal');
+  nextRow();
+
+  drawRow(pdf, y, [statement.period_from, 'Opening balance', '', '', '', money(statement.opening_balance)], LEDGER_COLUMNS);
+  for (const entry of statement.entries ?? []) {
+    nextRow();
+    drawRow(pdf, y, [
+      entry.date,
+      entry.description,
+      entry.reference,
+      Number(entry.debit) > 0 ? money(entry.debit) : '',
+      Number(entry.credit) > 0 ? money(entry.credit) : '',
+      money(entry.balance),
+    ], LEDGER_COLUMNS);
+  }
+  pdf.line(MARGIN, y + 2, 210 - MARGIN, y + 2);
+  nextRow(10);
+
+  const totals: Array<[string, string]> = [
+    ['Opening balance:', `LKR ${money(statement.opening_balance)}`],
+    ['Total debits:', `LKR ${money(statement.total_debits)}`],
+    ['Total credits:', `-LKR ${money(statement.total_credits)}`],
+    ['Balance due:', `LKR ${money(statement.closing_balance)}`],
+  ];
+  totals.forEach(([label, value], index) => {
+    if (index === totals.length - 1) pdf.setFont('helvetica', 'bold');
+    pdf.text(label, 120, y);
+    pdf.text(value, 210 - MARGIN, y, { align: 'right' });
+    nextRow();
+  });
+  pdf.setFont('helvetica', 'normal');
+
+  const pending = statement.pending_cheques ?? [];
+  if (pending.length > 0) {
+    nextRow(4);
+    pdf.setFont('helvetica', 'bold').text('Post-dated cheques (not yet credited)', MARGIN, y);
+    nextRow();
+    const columns: Array<[number, number, 'left' | 'right']> = [
+      [MARGIN, 25, 'left'],
+      [MARGIN + 25, 90, 'left'],
+      [MARGIN + 115, 35, 'left'],
+      [MARGIN + 150, 30, 'right'],
+    ];
+    drawRow(pdf, y, ['Cheque date', 'Details', 'Cheque #', 'Amount'], columns);
+    pdf.setFont('helvetica', 'normal');
+    for (const cheque of pending) {
+      nextRow();
+      drawRow(pdf, y, [cheque.date, cheque.description, cheque.reference, money(cheque.amount)], columns);
+    }
+  }
+}
+
+// One printable PDF with every statement of a run, each starting on a new page
+export function buildStatementBundlePdf(statements: StatementJson[]): Uint8Array {
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  statements.forEach((statement, index) => {
+    if (index > 0) pdf.addPage();
+    drawStatement(pdf, statement);
+  });
+  return new Uint8Array(pdf.output('arraybuffer'));
+}
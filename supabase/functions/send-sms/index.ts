@@ -1,16 +1,34 @@
+import { createSmsLog, deliverSms, getSmsLog, isCustomerOptedOut } from '../_shared/smsLog.ts'
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-const SMS_API_TOKEN = Deno.env.get('SMS_API_TOKEN') ?? '';
-const SMS_SENDER_ID = Deno.env.get('SMS_SENDER_ID') ?? 'AGENCY';
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SERVICE_ROLE_KEY = Deno.env.get('SB_SERVICE_ROLE_KEY') ?? '';
 
-function normalizePhone(phone: string): string {
-  const digits = phone.replace(/\D/g, '');
-  if (digits.startsWith('94')) return digits;
-  if (digits.startsWith('0')) return '94' + digits.slice(1);
-  return '94' + digits;
+// The signed-in user who triggered the message, for the log; null for service calls
+async function getCallerId(req: Request): Promise<string | null> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return null;
+  try {
+    const res = await fetch(`${SUPABASE_URL}/auth/v1/user`, {
+      headers: { 'apikey': SERVICE_ROLE_KEY, 'Authorization': authorization },
+    })
+    if (!res.ok) return null
+    const user = await res.json()
+    return user?.id ?? null
+  } catch {
+    return null
+  }
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
 }
 
 Deno.serve(async (req) => {
@@ -19,52 +37,67 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const { to, message } = await req.json()
+    const {
+      to,
+      message,
+      templateKey,
+      language,
+      customerId,
+      agencyId,
+      relatedType,
+      relatedId,
+      resendOf,
+    } = await req.json()
+    const createdBy = await getCallerId(req)
 
-    if (!to || !message) {
-      return new Response(
-        JSON.stringify({ error: 'Missing required fields: to, message' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    let entry
+    if (resendOf) {
+      // Resend creates a new log row so the original attempt stays in the history
+      const original = await getSmsLog(String(resendOf))
+      if (!original) return json({ error: 'Message not found' }, 404)
+      if (original.customer_id && await isCustomerOptedOut(original.customer_id)) {
+        return json({ error: 'Customer opted out of SMS' }, 409)
+      }
+      entry = {
+        recipient: original.recipient,
+        message: original.message,
+        template_key: original.template_key,
+        language: original.language,
+        customer_id: original.customer_id,
+        agency_id: original.agency_id,
+        related_type: original.related_type,
+        related_id: original.related_id,
+        resent_from: original.id,
+        created_by: createdBy,
+      }
+    } else {
+      if (!to || !message) {
+        return json({ error: 'Missing required fields: to, message' }, 400)
+      }
+      entry = {
+        recipient: String(to),
+        message: String(message),
+        template_key: templateKey ?? null,
+        language: language ?? null,
+        customer_id: customerId ?? null,
+        agency_id: agencyId ?? null,
+        related_type: relatedType ?? null,
+        related_id: relatedId ?? null,
+        created_by: createdBy,
+      }
     }
 
-    const recipient = normalizePhone(String(to))
-
-    const response = await fetch('https://app.text.lk/api/v3/sms/send', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${SMS_API_TOKEN}`,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify({
-        recipient,
-        sender_id: SMS_SENDER_ID,
-        message,
-        type: 'plain',
-      }),
-    })
-
-    const data = await response.json()
+    const logged = await createSmsLog(entry)
+    const result = await deliverSms(logged)
 
-    if (!response.ok) {
-      console.error('[send-sms] API error:', JSON.stringify(data))
-      return new Response(
-        JSON.stringify({ error: 'SMS API error', details: data }),
-        { status: response.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    if (result.status !== 'sent') {
+      // Retryable failures are picked up again by sms-retry
+      return json({ error: 'SMS send failed', id: result.id, status: result.status }, 502)
     }
 
-    console.log('[send-sms] Sent to', recipient)
-    return new Response(
-      JSON.stringify({ success: true, data }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+    return json({ success: true, id: result.id, status: result.status })
   } catch (error) {
     console.error('[send-sms] Error:', error)
-    return new Response(
-      JSON.stringify({ error: 'Internal server error', details: error.message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+    return json({ error: 'Internal server error', details: error.message }, 500)
   }
 })
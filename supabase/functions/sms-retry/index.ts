@@ -0,0 +1,25 @@
+import { claimDueRetries, deliverSms } from '../_shared/smsLog.ts';
+import { getSmsProvider } from '../_shared/smsProviders.ts';
+
+// Resends failed SMS whose backoff has elapsed; scheduled every 5 minutes by trigger_sms_retry()
+Deno.serve(async (_req) => {
+  try {
+    const due = await claimDueRetries();
+    const provider = getSmsProvider();
+    let sent = 0;
+
+    for (const row of due) {
+      const result = await deliverSms(row, provider);
+      if (result.status === 'sent') sent++;
+    }
+
+    console.log(`[sms-retry] Retried ${due.length}, sent ${sent}`);
+    return new Response(
+      JSON.stringify({ success: true, retried: due.length, sent }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (err) {
+    console.error('[sms-retry] Error:', err);
+    return new Response(JSON.stringify({ success: false, error: err.message }), { status: 500 });
+  }
+});
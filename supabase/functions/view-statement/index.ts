@@ -0,0 +1,157 @@
+const SUPABASE_URL = 'https://ejpwmgluazqcczrpwjlo.supabase.co';
+const SERVICE_ROLE_KEY = Deno.env.get('SB_SERVICE_ROLE_KEY') ?? '';
+
+const headers = {
+  apikey: SERVICE_ROLE_KEY,
+  Authorization: `Bearer ${SERVICE_ROLE_KEY}`,
+};
+
+async function query(table: string, filter: Record<string, string>, select = '*') {
+  const params = new URLSearchParams({ select });
+  for (const [k, v] of Object.entries(filter)) params.set(k, `eq.${v}`);
+  const res = await fetch(`${SUPABASE_URL}/rest/v1/${table}?${params}`, { headers });
+  return res.json();
+}
+
+async function getStatement(customerId: string, from: string, to: string) {
+  const res = await fetch(`${SUPABASE_URL}/rest/v1/rpc/get_customer_statement`, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ p_customer_id: customerId, p_from: from, p_to: to }),
+  });
+  if (!res.ok) throw new Error(`Statement query failed: ${await res.text()}`);
+  return res.json();
+}
+
+type StatementEntry = { date: string; reference: string; description: string; debit: number; credit: number; balance: number };
+type PendingCheque = { date: string; reference: string; description: string; amount: number };
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '').replace(/[&<>"]/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+
+Deno.serve(async (req) => {
+  const url = new URL(req.url);
+  const id = url.searchParams.get('id');
+
+  if (!id) {
+    return new Response('<h2>Missing statement ID</h2>', { status: 400, headers: { 'Content-Type': 'text/html' } });
+  }
+
+  const records = await query('customer_statements', { id }, 'id,customer_id,period_from,period_to,pdf_url');
+
+  if (!records || records.length === 0) {
+    return new Response('<h2>Statement not found</h2>', { status: 404, headers: { 'Content-Type': 'text/html' } });
+  }
+
+  const record = records[0];
+  let st;
+  try {
+    // Rebuilt on every view so later corrections (e.g. a returned cheque) show up
+    st = await getStatement(record.customer_id, record.period_from, record.period_to);
+  } catch (error) {
+    console.error(error);
+    return new Response('<h2>Statement unavailable</h2>', { status: 500, headers: { 'Content-Type': 'text/html' } });
+  }
+
+  const agency = st.agency ?? { name: 'Agency', phone: '', address: '' };
+  const fmtDate = (d: string) => new Date(d).toLocaleDateString('en-LK', { year: 'numeric', month: 'short', day: 'numeric' });
+  const fmt = (n: number) => `LKR ${Number(n).toLocaleString('en-LK', { minimumFractionDigits: 2 })}`;
+  const amount = (n: number) => (Number(n) > 0 ? fmt(n) : '');
+
+  const rows = ((st.entries ?? []) as StatementEntry[]).map((e) => `
+    <tr>
+      <td>${fmtDate(e.date)}</td>
+      <td>${escapeHtml(e.description)}<div class="ref">${escapeHtml(e.reference)}</div></td>
+      <td style="text-align:right">${amount(e.debit)}</td>
+      <td style="text-align:right">${amount(e.credit)}</td>
+      <td style="text-align:right">${fmt(e.balance)}</td>
+    </tr>`).join('');
+
+  const pending = ((st.pending_cheques ?? []) as PendingCheque[]).map((c) => `
+    <div class="total-row"><span>${fmtDate(c.date)} · ${escapeHtml(c.description)} #${escapeHtml(c.reference)}</span><span>${fmt(c.amount)}</span></div>`).join('');
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Statement - ${escapeHtml(st.customer.name)}</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; background: #f5f5f5; color: #333; }
+    .container { max-width: 700px; margin: 24px auto; background: #fff; border-radius: 12px; overflow: hidden; box-shadow: 0 2px 16px rgba(0,0,0,.10); }
+    .header { background: #1a1a2e; color: #fff; padding: 28px 32px; }
+    .header h1 { font-size: 22px; font-weight: 700; }
+    .header p { font-size: 13px; opacity: .75; margin-top: 4px; }
+    .meta { display: flex; justify-content: space-between; padding: 24px 32px; border-bottom: 1px solid #eee; flex-wrap: wrap; gap: 16px; }
+    .meta-block h3 { font-size: 11px; text-transform: uppercase; color: #888; margin-bottom: 6px; letter-spacing: .5px; }
+    .meta-block p { font-size: 14px; font-weight: 600; }
+    .meta-block .sub { font-size: 13px; font-weight: 400; color: #555; }
+    table { width: 100%; border-collapse: collapse; }
+    th { background: #f8f8f8; font-size: 12px; text-transform: uppercase; color: #666; padding: 10px 16px; text-align: left; border-bottom: 2px solid #eee; }
+    th:last-child, td:last-child { text-align: right; padding-right: 32px; }
+    th:first-child, td:first-child { padding-left: 32px; white-space: nowrap; }
+    td { padding: 12px 16px; font-size: 14px; border-bottom: 1px solid #f0f0f0; }
+    td .ref { font-size: 12px; color: #888; }
+    tr.opening td { font-style: italic; color: #555; }
+    .totals { padding: 20px 32px; border-top: 2px solid #eee; }
+    .total-row { display: flex; justify-content: space-between; gap: 48px; font-size: 14px; margin-bottom: 8px; color: #555; }
+    .total-row.grand { font-size: 17px; font-weight: 700; color: #1a1a2e; border-top: 1px solid #ddd; padding-top: 10px; margin-top: 4px; }
+    .pending h3 { font-size: 11px; text-transform: uppercase; color: #888; margin-bottom: 8px; letter-spacing: .5px; }
+    .download { display: inline-block; margin-top: 8px; color: #1a1a2e; font-weight: 600; }
+    .footer { text-align: center; padding: 20px; font-size: 12px; color: #aaa; background: #fafafa; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>${escapeHtml(agency.name)}</h1>
+      <p>${escapeHtml(agency.address)}${agency.phone ? ' · ' + escapeHtml(agency.phone) : ''}</p>
+    </div>
+    <div class="meta">
+      <div class="meta-block">
+        <h3>Statement of Account</h3>
+        <p>${fmtDate(st.period_from)} - ${fmtDate(st.period_to)}</p>
+        ${record.pdf_url ? `<a class="download" href="${escapeHtml(record.pdf_url)}">Download PDF</a>` : ''}
+      </div>
+      <div class="meta-block">
+        <h3>Customer</h3>
+        <p>${escapeHtml(st.customer.name)}</p>
+        <p class="sub">${escapeHtml(st.customer.address)}</p>
+      </div>
+    </div>
+    <table>
+      <thead>
+        <tr>
+          <th>Date</th>
+          <th>Details</th>
+          <th style="text-align:right">Debit</th>
+          <th style="text-align:right">Credit</th>
+          <th style="text-align:right">Balance</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr class="opening">
+          <td>${fmtDate(st.period_from)}</td>
+          <td colspan="3">Opening balance</td>
+          <td style="text-align:right">${fmt(st.opening_balance)}</td>
+        </tr>
+        ${rows}
+      </tbody>
+    </table>
+    <div class="totals">
+      <div class="total-row"><span>Opening balance</span><span>${fmt(st.opening_balance)}</span></div>
+      <div class="total-row"><span>Debits</span><span>${fmt(st.total_debits)}</span></div>
+      <div class="total-row"><span>Credits</span><span>- ${fmt(st.total_credits)}</span></div>
+      <div class="total-row grand"><span>Balance due</span><span>${fmt(st.closing_balance)}</span></div>
+    </div>
+    ${pending ? `<div class="totals pending"><h3>Post-dated cheques (not yet credited)</h3>${pending}</div>` : ''}
+    <div class="footer">Thank you for your business!</div>
+  </div>
+</body>
+</html>`;
+
+  return new Response(html, {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+});
@@ -0,0 +1,26 @@
+-- Offline outbox support.
+-- Records captured without signal are created on the device with a client UUID and
+-- replayed later. Storing that UUID on the server row makes the replay idempotent:
+-- if a request reached the server but the response was lost, the next replay finds
+-- the existing row by client_id instead of inserting a duplicate.
+
+ALTER TABLE sales_orders ADD COLUMN IF NOT EXISTS client_id UUID;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS client_id UUID;
+ALTER TABLE collections ADD COLUMN IF NOT EXISTS client_id UUID;
+ALTER TABLE non_productive_visits ADD COLUMN IF NOT EXISTS client_id UUID;
+ALTER TABLE time_tracking_route_points ADD COLUMN IF NOT EXISTS client_id UUID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_orders_client_id
+ON sales_orders(client_id) WHERE client_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_client_id
+ON invoices(client_id) WHERE client_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_collections_client_id
+ON collections(client_id) WHERE client_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_non_productive_visits_client_id
+ON non_productive_visits(client_id) WHERE client_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_tracking_route_points_client_id
+ON time_tracking_route_points(client_id) WHERE client_id IS NOT NULL;
@@ -0,0 +1,268 @@
+-- Atomic per-agency invoice numbering.
+-- Invoice numbers used to be computed as MAX(existing)+1, both in the client and in
+-- generate_invoice_number(). Two agents invoicing at the same moment could receive the
+-- same number, and the scan grew with the invoices table. Numbers now come from a
+-- counter row per agency that is locked while it is incremented.
+--
+-- Modes:
+--   continuous: NEX001, NEX002, ... (existing format, never resets)
+--   yearly:     NEX26001, NEX26002, ... (two-digit year, sequence resets every January)
+--
+-- Numbers are allocated by the set_invoice_number trigger inside the invoice insert, so an insert
+-- that fails rolls its number back with it. Offline devices reserve a block of numbers in advance
+-- through reserve_invoice_numbers(); reserved numbers are marked used when an invoice is inserted
+-- with them, and numbers a device has left unused for two days go to the next invoice saved online.
+
+CREATE TABLE IF NOT EXISTS invoice_number_sequences (
+    agency_id UUID PRIMARY KEY REFERENCES agencies(id) ON DELETE CASCADE,
+    mode TEXT NOT NULL DEFAULT 'continuous' CHECK (mode IN ('continuous', 'yearly')),
+    period_year INTEGER,
+    last_number INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_by UUID REFERENCES auth.users(id)
+);
+
+CREATE TABLE IF NOT EXISTS invoice_number_reservations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+    invoice_number TEXT NOT NULL UNIQUE,
+    reserved_by UUID REFERENCES auth.users(id),
+    reserved_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    mode TEXT NOT NULL DEFAULT 'continuous' CHECK (mode IN ('continuous', 'yearly')),
+    period_year INTEGER,
+    used_at TIMESTAMPTZ,
+    invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_number_reservations_open
+ON invoice_number_reservations(agency_id, reserved_by) WHERE used_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoice_number_reservations_unused
+ON invoice_number_reservations(agency_id, reserved_at) WHERE used_at IS NULL;
+
+ALTER TABLE invoice_number_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_number_reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view invoice number sequences"
+ON invoice_number_sequences FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Superusers can manage invoice number sequences"
+ON invoice_number_sequences FOR ALL
+USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser'))
+WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser'));
+
+CREATE POLICY "Users can view their invoice number reservations"
+ON invoice_number_reservations FOR SELECT
+USING (
+    reserved_by = auth.uid()
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+CREATE OR REPLACE FUNCTION format_invoice_number(agency_code TEXT, mode TEXT, period_year INTEGER, sequence_number INTEGER)
+RETURNS TEXT AS $$
+BEGIN
+    RETURN agency_code ||
+        CASE WHEN mode = 'yearly' THEN LPAD((period_year % 100)::TEXT, 2, '0') ELSE '' END ||
+        CASE
+            WHEN sequence_number < 1000 THEN LPAD(sequence_number::TEXT, 3, '0')
+            ELSE sequence_number::TEXT
+        END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Allocates p_count consecutive numbers for an agency. The counter row is locked for
+-- the rest of the calling transaction, so concurrent callers queue instead of colliding.
+CREATE OR REPLACE FUNCTION allocate_invoice_numbers(p_agency_id UUID, p_count INTEGER DEFAULT 1)
+RETURNS TEXT[] AS $$
+DECLARE
+    agency_code TEXT;
+    sequence_row invoice_number_sequences%ROWTYPE;
+    current_year INTEGER := EXTRACT(YEAR FROM (NOW() AT TIME ZONE 'Asia/Colombo'))::INTEGER;
+    year_code TEXT := LPAD((current_year % 100)::TEXT, 2, '0');
+    seeded_number INTEGER;
+    allocated TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+    IF p_count IS NULL OR p_count < 1 OR p_count > 500 THEN
+        RAISE EXCEPTION 'Invoice number count must be between 1 and 500';
+    END IF;
+
+    agency_code := get_agency_invoice_prefix(p_agency_id);
+
+    INSERT INTO invoice_number_sequences (agency_id)
+    VALUES (p_agency_id)
+    ON CONFLICT (agency_id) DO NOTHING;
+
+    SELECT * INTO sequence_row
+    FROM invoice_number_sequences
+    WHERE agency_id = p_agency_id
+    FOR UPDATE;
+
+    -- period_year is NULL on first use and after the mode is changed; re-seed from
+    -- the numbers already issued so the counter never goes backwards.
+    IF sequence_row.mode = 'yearly' AND sequence_row.period_year IS DISTINCT FROM current_year THEN
+        SELECT COALESCE(MAX(CAST(SUBSTRING(invoice_number FROM 6) AS INTEGER)), 0)
+        INTO seeded_number
+        FROM invoices
+        WHERE invoices.agency_id = p_agency_id
+          AND invoice_number ~ ('^' || agency_code || year_code || '[0-9]{3,}$');
+
+        sequence_row.last_number := seeded_number;
+        sequence_row.period_year := current_year;
+    ELSIF sequence_row.mode = 'continuous' AND sequence_row.period_year IS NULL THEN
+        -- Yearly numbers are also prefix + digits; leave out those made of the two-digit year the
+        -- invoice was created in and at least three more digits
+        SELECT COALESCE(MAX(CAST(SUBSTRING(invoice_number FROM ('^' || agency_code || '([0-9]+)$')) AS INTEGER)), 0)
+        INTO seeded_number
+        FROM invoices
+        WHERE invoices.agency_id = p_agency_id
+          AND invoice_number ~ ('^' || agency_code || '[0-9]+$')
+          AND NOT (
+              invoice_number ~ ('^' || agency_code || '[0-9]{5,}$')
+              AND SUBSTRING(invoice_number FROM 4 FOR 2) =
+                  LPAD((EXTRACT(YEAR FROM (invoices.created_at AT TIME ZONE 'Asia/Colombo'))::INTEGER % 100)::TEXT, 2, '0')
+          );
+
+        -- A continuous number that was taken for a yearly one above must not be issued again
+        WHILE EXISTS (
+            SELECT 1 FROM invoices
+            WHERE invoice_number = format_invoice_number(agency_code, 'continuous', NULL, seeded_number + 1)
+        ) LOOP
+            seeded_number := seeded_number + 1;
+        END LOOP;
+
+        sequence_row.last_number := seeded_number;
+        sequence_row.period_year := current_year;
+    END IF;
+
+    FOR i IN 1..p_count LOOP
+        allocated := allocated || format_invoice_number(
+            agency_code,
+            sequence_row.mode,
+            sequence_row.period_year,
+            sequence_row.last_number + i
+        );
+    END LOOP;
+
+    UPDATE invoice_number_sequences
+    SET last_number = sequence_row.last_number + p_count,
+        period_year = sequence_row.period_year,
+        updated_at = NOW()
+    WHERE agency_id = p_agency_id;
+
+    RETURN allocated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Claims a block of numbers for the calling user so invoices can be numbered offline.
+CREATE OR REPLACE FUNCTION reserve_invoice_numbers(p_agency_id UUID, p_count INTEGER)
+RETURNS TEXT[] AS $$
+DECLARE
+    allocated TEXT[];
+BEGIN
+    IF p_count IS NULL OR p_count < 1 OR p_count > 50 THEN
+        RAISE EXCEPTION 'Reservation size must be between 1 and 50';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+          AND (profiles.agency_id = p_agency_id OR profiles.role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'Not allowed to reserve invoice numbers for this agency';
+    END IF;
+
+    allocated := allocate_invoice_numbers(p_agency_id, p_count);
+
+    INSERT INTO invoice_number_reservations (agency_id, invoice_number, reserved_by, mode, period_year)
+    SELECT p_agency_id, UNNEST(allocated), auth.uid(), mode, period_year
+    FROM invoice_number_sequences
+    WHERE agency_id = p_agency_id;
+
+    RETURN allocated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION generate_invoice_number(agency_id UUID)
+RETURNS TEXT AS $$
+BEGIN
+    RETURN (allocate_invoice_numbers($1, 1))[1];
+END;
+$$ LANGUAGE plpgsql;
+
+-- Numbers invoices in the insert itself. An invoice without a number takes a reserved number a
+-- device has left unused for two days, or else the next one from the counter. An offline invoice
+-- whose reserved number was given to another invoice in the meantime is numbered the same way.
+CREATE OR REPLACE FUNCTION set_invoice_number()
+RETURNS TRIGGER AS $$
+DECLARE
+    reservation invoice_number_reservations%ROWTYPE;
+    sequence_mode TEXT;
+BEGIN
+    IF NEW.invoice_number IS NOT NULL THEN
+        SELECT * INTO reservation
+        FROM invoice_number_reservations
+        WHERE invoice_number = NEW.invoice_number
+        FOR UPDATE;
+
+        IF NOT FOUND OR reservation.used_at IS NULL THEN
+            RETURN NEW;
+        END IF;
+
+        NEW.invoice_number := NULL;
+    END IF;
+
+    SELECT mode INTO sequence_mode
+    FROM invoice_number_sequences
+    WHERE agency_id = NEW.agency_id;
+
+    SELECT invoice_number INTO NEW.invoice_number
+    FROM invoice_number_reservations
+    WHERE agency_id = NEW.agency_id
+      AND used_at IS NULL
+      AND reserved_at < NOW() - INTERVAL '2 days'
+      AND mode = COALESCE(sequence_mode, 'continuous')
+      AND (mode = 'continuous' OR period_year = EXTRACT(YEAR FROM (NOW() AT TIME ZONE 'Asia/Colombo'))::INTEGER)
+    ORDER BY reserved_at, invoice_number
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF NEW.invoice_number IS NULL THEN
+        NEW.invoice_number := (allocate_invoice_numbers(NEW.agency_id, 1))[1];
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_set_invoice_number ON invoices;
+CREATE TRIGGER trigger_set_invoice_number
+    BEFORE INSERT ON invoices
+    FOR EACH ROW
+    EXECUTE FUNCTION set_invoice_number();
+
+CREATE OR REPLACE FUNCTION mark_invoice_number_reservation_used()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE invoice_number_reservations
+    SET used_at = NOW(),
+        invoice_id = NEW.id
+    WHERE invoice_number = NEW.invoice_number
+      AND used_at IS NULL;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_mark_invoice_number_reservation_used ON invoices;
+CREATE TRIGGER trigger_mark_invoice_number_reservation_used
+    AFTER INSERT ON invoices
+    FOR EACH ROW
+    WHEN (NEW.invoice_number IS NOT NULL)
+    EXECUTE FUNCTION mark_invoice_number_reservation_used();
+
+-- Only the insert trigger and reserve_invoice_numbers allocate numbers
+REVOKE EXECUTE ON FUNCTION allocate_invoice_numbers(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION generate_invoice_number(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reserve_invoice_numbers(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reserve_invoice_numbers(UUID, INTEGER) TO authenticated;
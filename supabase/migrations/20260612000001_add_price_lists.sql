@@ -0,0 +1,62 @@
+-- Named price lists (tiers such as Wholesale / Retail / Key Account).
+-- A list starts from a base price type (selling or billing price) and may override
+-- individual products or whole categories, each override with optional validity dates.
+-- Customers are assigned a list; customers without one keep using the agency price type
+-- from agency_pricing_settings.
+
+CREATE TABLE IF NOT EXISTS price_lists (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    description TEXT,
+    agency_id UUID REFERENCES agencies(id) ON DELETE CASCADE,
+    base_price_type TEXT NOT NULL DEFAULT 'billing_price' CHECK (base_price_type IN ('selling_price', 'billing_price')),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_by UUID REFERENCES auth.users(id),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- agency_id NULL means the list is available to every agency.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_lists_agency_name
+ON price_lists(COALESCE(agency_id, '00000000-0000-0000-0000-000000000000'::UUID), LOWER(name));
+
+CREATE TABLE IF NOT EXISTS price_list_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    price_list_id UUID NOT NULL REFERENCES price_lists(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    category TEXT,
+    price NUMERIC(12, 2),
+    discount_percentage NUMERIC(5, 2),
+    valid_from DATE,
+    valid_to DATE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT price_list_items_target_check CHECK ((product_id IS NULL) <> (category IS NULL)),
+    CONSTRAINT price_list_items_value_check CHECK ((price IS NULL) <> (discount_percentage IS NULL)),
+    CONSTRAINT price_list_items_discount_check CHECK (discount_percentage IS NULL OR discount_percentage BETWEEN 0 AND 100),
+    CONSTRAINT price_list_items_validity_check CHECK (valid_from IS NULL OR valid_to IS NULL OR valid_from <= valid_to)
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_list_items_list ON price_list_items(price_list_id);
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS price_list_id UUID REFERENCES price_lists(id) ON DELETE SET NULL;
+
+ALTER TABLE price_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_list_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view price lists"
+ON price_lists FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Superusers can manage price lists"
+ON price_lists FOR ALL
+USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser'))
+WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser'));
+
+CREATE POLICY "Users can view price list items"
+ON price_list_items FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Superusers can manage price list items"
+ON price_list_items FOR ALL
+USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser'))
+WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser'));
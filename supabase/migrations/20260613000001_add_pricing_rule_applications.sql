@@ -0,0 +1,147 @@
+-- Pricing engine support for discount_rules and promotional_rules.
+-- Orders and invoices record every rule they used in rule_applications. Lines added by a
+-- promotion (free or discounted units) carry the rule id so they can be told apart from
+-- ordered lines when an order is edited or invoiced.
+--
+-- Usage counters are incremented by record_rule_applications(), which locks each rule
+-- row so max_usage_count cannot be exceeded by two agents saving at the same time.
+
+ALTER TABLE rule_applications ADD COLUMN IF NOT EXISTS document_type TEXT NOT NULL DEFAULT 'sales_order'
+    CHECK (document_type IN ('sales_order', 'invoice'));
+ALTER TABLE rule_applications ADD COLUMN IF NOT EXISTS rule_name TEXT;
+ALTER TABLE rule_applications ADD COLUMN IF NOT EXISTS description TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_rule_applications_order ON rule_applications(order_id);
+
+ALTER TABLE sales_order_items ADD COLUMN IF NOT EXISTS applied_rule_id UUID;
+ALTER TABLE invoice_items ADD COLUMN IF NOT EXISTS applied_rule_id UUID;
+
+-- p_applications: [{ "rule_id", "rule_type", "rule_name", "description", "applied_amount" }]
+-- Rules that are inactive, expired or exhausted by the time the document is saved are
+-- skipped. Returns the ids of the rules that were recorded.
+CREATE OR REPLACE FUNCTION record_rule_applications(
+    p_order_id UUID,
+    p_document_type TEXT,
+    p_applications JSONB
+)
+RETURNS UUID[] AS $$
+DECLARE
+    application JSONB;
+    application_rule_id UUID;
+    application_rule_type TEXT;
+    rule_active BOOLEAN;
+    rule_valid_from DATE;
+    rule_valid_to DATE;
+    rule_max_usage INTEGER;
+    rule_usage INTEGER;
+    recorded UUID[] := ARRAY[]::UUID[];
+    document_agency_id UUID;
+BEGIN
+    -- Only the agency that owns the document (or a superuser) may count rules against it
+    IF p_document_type = 'sales_order' THEN
+        SELECT agency_id INTO document_agency_id FROM sales_orders WHERE id = p_order_id;
+    ELSIF p_document_type = 'invoice' THEN
+        SELECT agency_id INTO document_agency_id FROM invoices WHERE id = p_order_id;
+    ELSE
+        RAISE EXCEPTION 'Unknown document type: %', p_document_type;
+    END IF;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Document not found';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+          AND (profiles.agency_id = document_agency_id OR profiles.role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'Not allowed to record pricing rules for this document';
+    END IF;
+
+    FOR application IN SELECT * FROM jsonb_array_elements(COALESCE(p_applications, '[]'::JSONB)) LOOP
+        application_rule_id := (application->>'rule_id')::UUID;
+        application_rule_type := application->>'rule_type';
+
+        -- Re-saving an edited order keeps the rules it already counted.
+        IF EXISTS (
+            SELECT 1 FROM rule_applications
+            WHERE order_id = p_order_id AND rule_id = application_rule_id
+        ) THEN
+            UPDATE rule_applications
+            SET applied_amount = (application->>'applied_amount')::NUMERIC,
+                description = application->>'description',
+                applied_at = NOW()
+            WHERE order_id = p_order_id AND rule_id = application_rule_id;
+
+            recorded := recorded || application_rule_id;
+            CONTINUE;
+        END IF;
+
+        IF application_rule_type = 'discount' THEN
+            SELECT is_active, valid_from::DATE, valid_to::DATE, max_usage_count, COALESCE(current_usage_count, 0)
+            INTO rule_active, rule_valid_from, rule_valid_to, rule_max_usage, rule_usage
+            FROM discount_rules
+            WHERE id = application_rule_id
+            FOR UPDATE;
+        ELSIF application_rule_type = 'promotional' THEN
+            SELECT is_active, valid_from::DATE, valid_to::DATE, max_usage_count, COALESCE(current_usage_count, 0)
+            INTO rule_active, rule_valid_from, rule_valid_to, rule_max_usage, rule_usage
+            FROM promotional_rules
+            WHERE id = application_rule_id
+            FOR UPDATE;
+        ELSE
+            CONTINUE;
+        END IF;
+
+        IF NOT FOUND
+           OR rule_active IS NOT TRUE
+           OR CURRENT_DATE < rule_valid_from
+           OR CURRENT_DATE > rule_valid_to
+           OR (rule_max_usage IS NOT NULL AND rule_usage >= rule_max_usage) THEN
+            CONTINUE;
+        END IF;
+
+        INSERT INTO rule_applications (order_id, rule_id, rule_type, document_type, rule_name, description, applied_amount)
+        VALUES (
+            p_order_id,
+            application_rule_id,
+            application_rule_type::rule_type,
+            p_document_type,
+            application->>'rule_name',
+            application->>'description',
+            (application->>'applied_amount')::NUMERIC
+        );
+
+        IF application_rule_type = 'discount' THEN
+            UPDATE discount_rules SET current_usage_count = rule_usage + 1 WHERE id = application_rule_id;
+        ELSE
+            UPDATE promotional_rules SET current_usage_count = rule_usage + 1 WHERE id = application_rule_id;
+        END IF;
+
+        recorded := recorded || application_rule_id;
+    END LOOP;
+
+    -- Rules that no longer apply to an edited order are released.
+    FOR application_rule_id, application_rule_type IN
+        DELETE FROM rule_applications
+        WHERE order_id = p_order_id
+          AND NOT (rule_id = ANY(recorded))
+        RETURNING rule_id, rule_type::TEXT
+    LOOP
+        IF application_rule_type = 'discount' THEN
+            UPDATE discount_rules
+            SET current_usage_count = GREATEST(COALESCE(current_usage_count, 0) - 1, 0)
+            WHERE id = application_rule_id;
+        ELSE
+            UPDATE promotional_rules
+            SET current_usage_count = GREATEST(COALESCE(current_usage_count, 0) - 1, 0)
+            WHERE id = application_rule_id;
+        END IF;
+    END LOOP;
+
+    RETURN recorded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_rule_applications(UUID, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_rule_applications(UUID, TEXT, JSONB) TO authenticated;
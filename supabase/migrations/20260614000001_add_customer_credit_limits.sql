@@ -0,0 +1,65 @@
+-- Credit control per customer.
+-- A customer may have its own credit limit and maximum overdue age; when either is NULL
+-- the agency default from agency_credit_settings applies, and when that is NULL too the
+-- check is off. Sales orders that breach a limit are saved as pending with the reasons in
+-- approval_reasons so SuperuserApprovalManagement can show why approval is needed.
+-- Direct invoices made offline were handed over before they could be checked, so a breach found
+-- when they sync is kept in credit_breach_reasons until a superuser reviews the invoice.
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS credit_limit NUMERIC(12, 2)
+    CHECK (credit_limit IS NULL OR credit_limit >= 0);
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS max_overdue_days INTEGER
+    CHECK (max_overdue_days IS NULL OR max_overdue_days >= 0);
+
+CREATE TABLE IF NOT EXISTS agency_credit_settings (
+    agency_id UUID PRIMARY KEY REFERENCES agencies(id) ON DELETE CASCADE,
+    default_credit_limit NUMERIC(12, 2) CHECK (default_credit_limit IS NULL OR default_credit_limit >= 0),
+    default_max_overdue_days INTEGER CHECK (default_max_overdue_days IS NULL OR default_max_overdue_days >= 0),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_by UUID REFERENCES auth.users(id)
+);
+
+ALTER TABLE sales_orders ADD COLUMN IF NOT EXISTS approval_reasons TEXT[];
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS credit_breach_reasons TEXT[];
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS credit_reviewed_by UUID REFERENCES auth.users(id);
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS credit_reviewed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_credit_breach_unreviewed
+ON invoices(created_at) WHERE credit_breach_reasons IS NOT NULL AND credit_reviewed_at IS NULL;
+
+ALTER TABLE agency_credit_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view agency credit settings"
+ON agency_credit_settings FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Superusers can manage agency credit settings"
+ON agency_credit_settings FOR ALL
+USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser'))
+WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser'));
+
+CREATE OR REPLACE FUNCTION review_invoice_credit_breach(p_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser') THEN
+        RAISE EXCEPTION 'Only superusers can review invoices over the credit limit';
+    END IF;
+
+    UPDATE invoices
+    SET credit_reviewed_by = auth.uid(),
+        credit_reviewed_at = NOW()
+    WHERE id = p_invoice_id
+      AND credit_breach_reasons IS NOT NULL
+      AND credit_reviewed_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invoice is not waiting for a credit review';
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION review_invoice_credit_breach(UUID) TO authenticated;
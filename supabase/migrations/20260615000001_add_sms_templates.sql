@@ -0,0 +1,54 @@
+-- Editable SMS templates.
+-- Each message type (template_key) has a global English template; admins can add Sinhala
+-- and Tamil variants and per-agency overrides. The most specific active row wins:
+-- agency + customer language, global + customer language, agency + English, global + English.
+-- Bodies use {placeholder} tokens; text inside [ ... ] is dropped when a placeholder in it is empty.
+-- Customers choose their SMS language and may opt out of SMS altogether.
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS preferred_language TEXT NOT NULL DEFAULT 'en'
+    CHECK (preferred_language IN ('en', 'si', 'ta'));
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS sms_opt_out BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS sms_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_key TEXT NOT NULL,
+    language TEXT NOT NULL DEFAULT 'en' CHECK (language IN ('en', 'si', 'ta')),
+    agency_id UUID REFERENCES agencies(id) ON DELETE CASCADE,
+    body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_by UUID REFERENCES auth.users(id),
+    CONSTRAINT sms_templates_key_language_agency_key UNIQUE NULLS NOT DISTINCT (template_key, language, agency_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_templates_key ON sms_templates(template_key);
+
+ALTER TABLE sms_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view sms templates"
+ON sms_templates FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Superusers can manage sms templates"
+ON sms_templates FOR ALL
+USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser'))
+WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser'));
+
+-- Global English templates matching the messages previously hard-coded in the app
+INSERT INTO sms_templates (template_key, language, body) VALUES
+    ('customer_welcome', 'en',
+     'Dear {customer_name}, welcome to DAG Clothing Pvt Ltd! We are delighted to have you as our valued customer. We look forward to serving you with the finest apparel. Thank you for choosing DAG Clothing!'),
+    ('sales_order_created', 'en',
+     'Dear {customer_name}, thank you for placing your order with DAG Clothing Pvt Ltd! Your sales order of LKR {total} has been successfully received and is being processed.[ View your order here: {pdf_url}] We truly appreciate your trust in us. Thank you for choosing DAG Clothing!'),
+    ('invoice_created', 'en',
+     'Dear {customer_name}, your invoice #{invoice_number} of LKR {total} has been generated by DAG Clothing Pvt Ltd.[ You may view and download your invoice here: {pdf_url}] We are grateful for your continued support. Thank you for choosing DAG Clothing!'),
+    ('purchase_order_created', 'en',
+     'Dear Team, a new Purchase Order has been submitted by {agency_name}. Order ID: {order_number}, Total: LKR {total}.[ View PDF: {pdf_url}] Please review and process at your earliest convenience. - DAG Clothing Pvt Ltd'),
+    ('purchase_order_updated', 'en',
+     'Dear Team, please note that Purchase Order {order_number} from {agency_name} has been revised. Updated Total: LKR {total}.[ View updated PDF: {pdf_url}] Kindly review the changes. - DAG Clothing Pvt Ltd'),
+    ('collection_recorded', 'en',
+     'Dear {customer_name}, we have successfully received your payment of LKR {total} ({payment_details}) at DAG Clothing Pvt Ltd. Your account has been updated accordingly. We sincerely appreciate your prompt payment. Thank you for choosing DAG Clothing!'),
+    ('customer_birthday', 'en',
+     'Dear {customer_name}, wishing you a very Happy Birthday from all of us at DAG Clothing Pvt Ltd! May this special day bring you joy, happiness, and wonderful moments. Thank you for being our valued customer. Have a fantastic birthday! 🎂')
+ON CONFLICT (template_key, language, agency_id) DO NOTHING;
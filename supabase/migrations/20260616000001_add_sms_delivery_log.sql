@@ -0,0 +1,128 @@
+-- Delivery log for every outbound SMS.
+-- send-sms and birthday-sms write a row per message, send it through the configured provider
+-- (text.lk or the mock provider) and record the provider response. Failed sends keep
+-- next_retry_at set with exponential backoff; the sms-retry function resends them until
+-- they succeed or run out of attempts, at which point next_retry_at is cleared. Each sms-retry
+-- run claims the rows it sends, so overlapping runs never send the same message twice, and
+-- customers who have since opted out of SMS are not retried.
+
+CREATE TABLE IF NOT EXISTS sms_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    recipient TEXT NOT NULL,
+    message TEXT NOT NULL,
+    template_key TEXT,
+    language TEXT,
+    customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+    agency_id UUID REFERENCES agencies(id) ON DELETE SET NULL,
+    related_type TEXT CHECK (related_type IN ('invoice', 'sales_order', 'collection', 'purchase_order', 'customer', 'statement')),
+    related_id UUID,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    provider TEXT,
+    provider_message_id TEXT,
+    provider_response JSONB,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_retry_at TIMESTAMPTZ,
+    sent_at TIMESTAMPTZ,
+    resent_from UUID REFERENCES sms_messages(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_messages_created_at ON sms_messages(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sms_messages_retry ON sms_messages(next_retry_at) WHERE status = 'failed' AND next_retry_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_sms_messages_related ON sms_messages(related_type, related_id);
+
+ALTER TABLE sms_messages ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by edge functions with the service role; only superusers read the log
+CREATE POLICY "Superusers can view sms messages"
+ON sms_messages FOR SELECT
+USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser'));
+
+-- Claim failed messages due for a retry by flipping them back to pending. Rows a run claimed but never
+-- finished (the function died) are released after 15 minutes.
+CREATE OR REPLACE FUNCTION claim_due_sms_retries(p_max_attempts INTEGER, p_limit INTEGER DEFAULT 50)
+RETURNS SETOF sms_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    UPDATE sms_messages
+    SET status = 'failed',
+        updated_at = NOW()
+    WHERE status = 'pending'
+      AND next_retry_at IS NOT NULL
+      AND updated_at < NOW() - INTERVAL '15 minutes';
+
+    UPDATE sms_messages m
+    SET next_retry_at = NULL,
+        last_error = 'Customer opted out of SMS',
+        updated_at = NOW()
+    FROM customers c
+    WHERE c.id = m.customer_id
+      AND c.sms_opt_out
+      AND m.status = 'failed'
+      AND m.next_retry_at IS NOT NULL;
+
+    RETURN QUERY
+    UPDATE sms_messages
+    SET status = 'pending',
+        updated_at = NOW()
+    WHERE id IN (
+        SELECT id FROM sms_messages
+        WHERE status = 'failed'
+          AND next_retry_at <= NOW()
+          AND attempts < p_max_attempts
+        ORDER BY next_retry_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_due_sms_retries(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS http;
+
+CREATE OR REPLACE FUNCTION trigger_sms_retry()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    response_status int;
+    response_content text;
+BEGIN
+    SELECT
+        (response).status,
+        (response).content
+    INTO
+        response_status,
+        response_content
+    FROM extensions.http((
+        'POST',
+        current_setting('app.supabase_url') || '/functions/v1/sms-retry',
+        ARRAY[
+            extensions.http_header('Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')),
+            extensions.http_header('Content-Type', 'application/json')
+        ],
+        'application/json',
+        '{}'
+    )::http_request);
+
+    IF response_status <> 200 THEN
+        RAISE WARNING 'sms-retry failed - HTTP %: %', response_status, response_content;
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION trigger_sms_retry() TO postgres;
+
+SELECT cron.schedule(
+    'sms-retry',
+    '*/5 * * * *',
+    'SELECT trigger_sms_retry();'
+);
@@ -0,0 +1,176 @@
+-- Customer account statements.
+-- get_customer_statement() builds the ledger for a period: opening balance, then invoices,
+-- cash payments and discounts, cheques (credited on the cheque date), returned cheques
+-- (debited back on the return date) and approved returns, each with a running balance.
+-- Cheques dated after the period are listed separately and not credited yet.
+-- customer_statements records each generated statement so the public view-statement
+-- page can rebuild it from the link id.
+
+-- Every ledger movement for a customer, dated in Sri Lanka time
+CREATE OR REPLACE FUNCTION customer_ledger_entries(p_customer_id UUID)
+RETURNS TABLE (
+    entry_date DATE,
+    sort_at TIMESTAMPTZ,
+    entry_type TEXT,
+    reference TEXT,
+    description TEXT,
+    debit NUMERIC,
+    credit NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT (i.created_at AT TIME ZONE 'Asia/Colombo')::DATE, i.created_at, 'invoice',
+           COALESCE(i.invoice_number, UPPER(LEFT(i.id::TEXT, 8))), 'Invoice', i.total, 0::NUMERIC
+    FROM invoices i
+    WHERE i.customer_id = p_customer_id
+
+    UNION ALL
+
+    SELECT COALESCE(col.cash_date::DATE, (col.created_at AT TIME ZONE 'Asia/Colombo')::DATE), col.created_at, 'cash',
+           UPPER(LEFT(col.id::TEXT, 8)), 'Cash payment', 0, col.cash_amount
+    FROM collections col
+    WHERE col.customer_id = p_customer_id AND col.cash_amount > 0
+
+    UNION ALL
+
+    SELECT COALESCE(col.cash_date::DATE, (col.created_at AT TIME ZONE 'Asia/Colombo')::DATE), col.created_at, 'discount',
+           UPPER(LEFT(col.id::TEXT, 8)), 'Cash discount', 0, col.cash_discount
+    FROM collections col
+    WHERE col.customer_id = p_customer_id AND COALESCE(col.cash_discount, 0) > 0
+
+    UNION ALL
+
+    SELECT cc.cheque_date::DATE, col.created_at, 'cheque',
+           cc.cheque_number, 'Cheque - ' || cc.bank_name, 0, cc.amount
+    FROM collection_cheques cc
+    JOIN collections col ON col.id = cc.collection_id
+    WHERE col.customer_id = p_customer_id
+
+    UNION ALL
+
+    SELECT COALESCE((cc.returned_at AT TIME ZONE 'Asia/Colombo')::DATE, cc.cheque_date::DATE), COALESCE(cc.returned_at, col.created_at),
+           'returned_cheque', cc.cheque_number,
+           'Returned cheque' || COALESCE(' - ' || NULLIF(cc.return_reason, ''), ''), cc.amount, 0
+    FROM collection_cheques cc
+    JOIN collections col ON col.id = cc.collection_id
+    WHERE col.customer_id = p_customer_id
+      AND (cc.status IN ('returned', 'held', 'resolved') OR cc.returned_at IS NOT NULL)
+
+    UNION ALL
+
+    SELECT (COALESCE(r.processed_at, r.created_at) AT TIME ZONE 'Asia/Colombo')::DATE, COALESCE(r.processed_at, r.created_at), 'return',
+           UPPER(LEFT(r.id::TEXT, 8)), 'Goods return' || COALESCE(' - ' || NULLIF(r.reason, ''), ''), 0, r.total
+    FROM returns r
+    WHERE r.customer_id = p_customer_id AND r.status IN ('approved', 'processed');
+$$;
+
+CREATE OR REPLACE FUNCTION get_customer_statement(p_customer_id UUID, p_from DATE, p_to DATE)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    v_customer JSONB;
+    v_agency JSONB;
+    v_opening NUMERIC;
+    v_debits NUMERIC;
+    v_credits NUMERIC;
+    v_entries JSONB;
+    v_pending JSONB;
+BEGIN
+    IF p_from > p_to THEN
+        RAISE EXCEPTION 'Statement start date must be on or before the end date';
+    END IF;
+
+    SELECT jsonb_build_object('id', c.id, 'name', c.name, 'phone', c.phone, 'address', c.address, 'agency_id', c.agency_id),
+           jsonb_build_object('name', a.name, 'phone', a.phone, 'address', a.address)
+    INTO v_customer, v_agency
+    FROM customers c
+    LEFT JOIN agencies a ON a.id = c.agency_id
+    WHERE c.id = p_customer_id;
+
+    IF v_customer IS NULL THEN
+        RAISE EXCEPTION 'Customer % not found', p_customer_id;
+    END IF;
+
+    SELECT COALESCE(SUM(debit - credit) FILTER (WHERE entry_date < p_from), 0),
+           COALESCE(SUM(debit) FILTER (WHERE entry_date BETWEEN p_from AND p_to), 0),
+           COALESCE(SUM(credit) FILTER (WHERE entry_date BETWEEN p_from AND p_to), 0),
+           COALESCE(jsonb_agg(jsonb_build_object(
+               'date', entry_date,
+               'reference', reference,
+               'description', description,
+               'amount', credit
+           ) ORDER BY entry_date) FILTER (WHERE entry_type = 'cheque' AND entry_date > p_to), '[]'::JSONB)
+    INTO v_opening, v_debits, v_credits, v_pending
+    FROM customer_ledger_entries(p_customer_id);
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+               'date', entry_date,
+               'type', entry_type,
+               'reference', reference,
+               'description', description,
+               'debit', debit,
+               'credit', credit,
+               'balance', v_opening + running
+           ) ORDER BY entry_date, sort_at, entry_type), '[]'::JSONB)
+    INTO v_entries
+    FROM (
+        SELECT *, SUM(debit - credit) OVER (ORDER BY entry_date, sort_at, entry_type ROWS UNBOUNDED PRECEDING) AS running
+        FROM customer_ledger_entries(p_customer_id)
+        WHERE entry_date BETWEEN p_from AND p_to
+    ) period;
+
+    RETURN jsonb_build_object(
+        'customer', v_customer,
+        'agency', v_agency,
+        'period_from', p_from,
+        'period_to', p_to,
+        'opening_balance', v_opening,
+        'total_debits', v_debits,
+        'total_credits', v_credits,
+        'closing_balance', v_opening + v_debits - v_credits,
+        'entries', v_entries,
+        'pending_cheques', v_pending
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION customer_ledger_entries(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_customer_statement(UUID, DATE, DATE) TO authenticated;
+
+CREATE TABLE IF NOT EXISTS customer_statements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    agency_id UUID REFERENCES agencies(id) ON DELETE SET NULL,
+    period_from DATE NOT NULL,
+    period_to DATE NOT NULL,
+    opening_balance NUMERIC(14, 2) NOT NULL DEFAULT 0,
+    closing_balance NUMERIC(14, 2) NOT NULL DEFAULT 0,
+    pdf_url TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (period_from <= period_to)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_statements_customer ON customer_statements(customer_id, created_at DESC);
+
+ALTER TABLE customer_statements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view customer statements"
+ON customer_statements FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can create customer statements"
+ON customer_statements FOR INSERT
+WITH CHECK (auth.uid() IS NOT NULL AND created_by = auth.uid());
+
+CREATE POLICY "Users can update their customer statements"
+ON customer_statements FOR UPDATE
+USING (created_by = auth.uid());
+
+INSERT INTO sms_templates (template_key, language, body) VALUES
+    ('customer_statement', 'en',
+     'Dear {customer_name}, your account statement from DAG Clothing Pvt Ltd for {period} is ready. Balance due: LKR {balance}.[ View your statement here: {statement_url}] Thank you for your continued support.')
+ON CONFLICT (template_key, language, agency_id) DO NOTHING;
@@ -0,0 +1,196 @@
+-- Month-end statement runs.
+-- The monthly-statements edge function creates a customer statement for every customer in an
+-- agency whose balance at the end of the period is not zero, optionally texts each customer
+-- their statement link, and records the outcome per customer in statement_run_items.
+-- It can be started from Reports for one agency. On the 1st of every month one scheduled run per agency is
+-- queued for the previous month; a worker job then calls the function every two minutes and each call
+-- claims and finishes a single queued run, storing its print bundle, so no call has to cover every agency.
+
+-- Opening and closing balance per customer of an agency, from the same ledger as the statement
+CREATE OR REPLACE FUNCTION get_agency_statement_balances(p_agency_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+    customer_id UUID,
+    opening_balance NUMERIC,
+    closing_balance NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT c.id,
+           COALESCE(SUM(l.debit - l.credit) FILTER (WHERE l.entry_date < p_from), 0),
+           COALESCE(SUM(l.debit - l.credit) FILTER (WHERE l.entry_date <= p_to), 0)
+    FROM customers c
+    CROSS JOIN LATERAL customer_ledger_entries(c.id) l
+    WHERE c.agency_id = p_agency_id
+    GROUP BY c.id
+    HAVING COALESCE(SUM(l.debit - l.credit) FILTER (WHERE l.entry_date <= p_to), 0) <> 0;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_agency_statement_balances(UUID, DATE, DATE) TO authenticated;
+
+CREATE TABLE IF NOT EXISTS statement_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+    period_from DATE NOT NULL,
+    period_to DATE NOT NULL,
+    trigger TEXT NOT NULL DEFAULT 'manual' CHECK (trigger IN ('manual', 'scheduled')),
+    send_sms BOOLEAN NOT NULL DEFAULT FALSE,
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+    customer_count INTEGER NOT NULL DEFAULT 0,
+    sms_sent_count INTEGER NOT NULL DEFAULT 0,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    total_balance NUMERIC(14, 2) NOT NULL DEFAULT 0,
+    bundle_pdf_url TEXT,
+    error TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS statement_run_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    run_id UUID NOT NULL REFERENCES statement_runs(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    statement_id UUID REFERENCES customer_statements(id) ON DELETE SET NULL,
+    closing_balance NUMERIC(14, 2) NOT NULL DEFAULT 0,
+    -- generated: no SMS requested; skipped: no phone or opted out
+    status TEXT NOT NULL CHECK (status IN ('generated', 'sent', 'skipped', 'failed')),
+    sms_message_id UUID REFERENCES sms_messages(id) ON DELETE SET NULL,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_statement_runs_agency ON statement_runs(agency_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_statement_runs_queued ON statement_runs(created_at) WHERE status = 'queued';
+-- One scheduled run per agency and month, however often the month is queued
+CREATE UNIQUE INDEX IF NOT EXISTS idx_statement_runs_scheduled_period
+ON statement_runs(agency_id, period_from, period_to) WHERE trigger = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_statement_run_items_run ON statement_run_items(run_id);
+
+ALTER TABLE statement_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE statement_run_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view statement runs"
+ON statement_runs FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- Runs are created by the edge function; users only attach the print bundle
+CREATE POLICY "Agency users can update their statement runs"
+ON statement_runs FOR UPDATE
+USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+      AND (profiles.role = 'superuser' OR profiles.agency_id = statement_runs.agency_id)
+));
+
+CREATE POLICY "Users can view statement run items"
+ON statement_run_items FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- Queue a scheduled run per agency for the month just ended (Sri Lanka time)
+CREATE OR REPLACE FUNCTION queue_monthly_statement_runs()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_month_start DATE := date_trunc('month', NOW() AT TIME ZONE 'Asia/Colombo')::DATE;
+    v_queued INTEGER;
+BEGIN
+    INSERT INTO statement_runs (agency_id, period_from, period_to, trigger, send_sms, status)
+    SELECT id, (v_month_start - INTERVAL '1 month')::DATE, v_month_start - 1, 'scheduled', TRUE, 'queued'
+    FROM agencies
+    ON CONFLICT (agency_id, period_from, period_to) WHERE trigger = 'scheduled' DO NOTHING;
+
+    GET DIAGNOSTICS v_queued = ROW_COUNT;
+    RETURN v_queued;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_monthly_statement_runs() FROM PUBLIC, anon, authenticated;
+
+-- Hand the oldest queued run to one call of the edge function. A run still 'running' after an hour was cut
+-- off by the function time limit; it is failed rather than retried as its SMS may already have gone out.
+CREATE OR REPLACE FUNCTION claim_statement_run()
+RETURNS SETOF statement_runs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    UPDATE statement_runs
+    SET status = 'failed',
+        error = 'The run did not finish',
+        completed_at = NOW()
+    WHERE status = 'running' AND started_at < NOW() - INTERVAL '1 hour';
+
+    RETURN QUERY
+    UPDATE statement_runs
+    SET status = 'running',
+        started_at = NOW()
+    WHERE id = (
+        SELECT id FROM statement_runs
+        WHERE status = 'queued'
+        ORDER BY created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_statement_run() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS http;
+
+-- Each call of the edge function works through one queued run
+CREATE OR REPLACE FUNCTION trigger_monthly_statements()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    response_status int;
+    response_content text;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM statement_runs WHERE status = 'queued') THEN
+        RETURN;
+    END IF;
+
+    SELECT
+        (response).status,
+        (response).content
+    INTO
+        response_status,
+        response_content
+    FROM extensions.http((
+        'POST',
+        current_setting('app.supabase_url') || '/functions/v1/monthly-statements',
+        ARRAY[
+            extensions.http_header('Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')),
+            extensions.http_header('Content-Type', 'application/json')
+        ],
+        'application/json',
+        '{}'
+    )::http_request);
+
+    IF response_status <> 200 THEN
+        RAISE WARNING 'monthly-statements failed - HTTP %: %', response_status, response_content;
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION trigger_monthly_statements() TO postgres;
+
+-- 06:00 Sri Lanka time on the 1st, for the month just ended
+SELECT cron.schedule(
+    'monthly-statements',
+    '30 0 1 * *',
+    'SELECT queue_monthly_statement_runs();'
+);
+
+SELECT cron.schedule(
+    'monthly-statements-worker',
+    '*/2 * * * *',
+    'SELECT trigger_monthly_statements();'
+);
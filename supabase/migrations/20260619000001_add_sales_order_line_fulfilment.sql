@@ -0,0 +1,188 @@
+-- Line-level sales order fulfilment.
+-- Invoice lines now point at the order line they fulfil, and sales_order_items.invoiced_quantity
+-- is kept in step by trigger, so every order line has ordered / invoiced / outstanding quantities.
+-- The order status follows the lines: 'invoiced' once every line is fully invoiced, otherwise
+-- 'partially_invoiced' after the first invoice. Outstanding lines on partially invoiced orders are
+-- backorders; get_fillable_backorders() lists those whose variant has since been received into stock.
+
+ALTER TABLE sales_order_items ADD COLUMN IF NOT EXISTS invoiced_quantity INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE invoice_items ADD COLUMN IF NOT EXISTS sales_order_item_id UUID REFERENCES sales_order_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoice_items_sales_order_item ON invoice_items(sales_order_item_id);
+
+-- Link existing invoice lines to their order line by variant, as CreateInvoiceForm matched them
+UPDATE invoice_items ii
+SET sales_order_item_id = (
+    SELECT soi.id
+    FROM invoices i
+    JOIN sales_order_items soi ON soi.sales_order_id = i.sales_order_id
+    WHERE i.id = ii.invoice_id
+      AND COALESCE(soi.product_id::TEXT, soi.product_name) = COALESCE(ii.product_id::TEXT, ii.product_name)
+      AND soi.color IS NOT DISTINCT FROM ii.color
+      AND soi.size IS NOT DISTINCT FROM ii.size
+      AND soi.applied_rule_id IS NOT DISTINCT FROM ii.applied_rule_id
+    ORDER BY soi.id
+    LIMIT 1
+)
+WHERE ii.sales_order_item_id IS NULL
+  AND EXISTS (SELECT 1 FROM invoices i WHERE i.id = ii.invoice_id AND i.sales_order_id IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION refresh_sales_order_fulfilment(p_sales_order_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    UPDATE sales_order_items soi
+    SET invoiced_quantity = COALESCE((
+        SELECT SUM(ii.quantity) FROM invoice_items ii WHERE ii.sales_order_item_id = soi.id
+    ), 0)
+    WHERE soi.sales_order_id = p_sales_order_id;
+
+    UPDATE sales_orders so
+    SET total_invoiced = (
+            SELECT COALESCE(SUM(i.total), 0) FROM invoices i WHERE i.sales_order_id = p_sales_order_id
+        ),
+        status = CASE
+            -- Pending, cancelled and closed orders keep their status
+            WHEN so.status NOT IN ('approved', 'partially_invoiced', 'invoiced') THEN so.status
+            WHEN NOT EXISTS (SELECT 1 FROM invoices i WHERE i.sales_order_id = p_sales_order_id) THEN 'approved'
+            WHEN NOT EXISTS (
+                SELECT 1 FROM sales_order_items soi
+                WHERE soi.sales_order_id = p_sales_order_id AND soi.invoiced_quantity < soi.quantity
+            ) THEN 'invoiced'
+            ELSE 'partially_invoiced'
+        END
+    WHERE so.id = p_sales_order_id;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION refresh_sales_order_fulfilment(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Replaces the amount-based status update from 20250609180641. Both triggers run as the owner because the
+-- refresh above is not executable by API roles.
+CREATE OR REPLACE FUNCTION update_sales_order_invoiced_amount()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.sales_order_id IS NOT NULL THEN
+    PERFORM refresh_sales_order_fulfilment(OLD.sales_order_id);
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.sales_order_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.sales_order_id IS DISTINCT FROM OLD.sales_order_id) THEN
+    PERFORM refresh_sales_order_fulfilment(NEW.sales_order_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION update_sales_order_item_fulfilment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_order_id UUID;
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.sales_order_item_id IS NOT NULL THEN
+    SELECT sales_order_id INTO v_order_id FROM sales_order_items WHERE id = OLD.sales_order_item_id;
+    IF v_order_id IS NOT NULL THEN
+      PERFORM refresh_sales_order_fulfilment(v_order_id);
+    END IF;
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.sales_order_item_id IS NOT NULL THEN
+    SELECT sales_order_id INTO v_order_id FROM sales_order_items WHERE id = NEW.sales_order_item_id;
+    IF v_order_id IS NOT NULL THEN
+      PERFORM refresh_sales_order_fulfilment(v_order_id);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_update_sales_order_item_fulfilment ON invoice_items;
+CREATE TRIGGER trigger_update_sales_order_item_fulfilment
+  AFTER INSERT OR UPDATE OF quantity, sales_order_item_id OR DELETE ON invoice_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sales_order_item_fulfilment();
+
+-- Bring existing orders in line with the backfilled links
+UPDATE sales_order_items soi
+SET invoiced_quantity = sums.quantity
+FROM (
+    SELECT sales_order_item_id, SUM(quantity) AS quantity
+    FROM invoice_items
+    WHERE sales_order_item_id IS NOT NULL
+    GROUP BY sales_order_item_id
+) sums
+WHERE soi.id = sums.sales_order_item_id;
+
+CREATE OR REPLACE VIEW sales_order_backorders
+WITH (security_invoker = true) AS
+SELECT
+    soi.id AS sales_order_item_id,
+    so.id AS sales_order_id,
+    so.order_number,
+    so.customer_id,
+    so.customer_name,
+    so.agency_id,
+    so.created_at AS ordered_at,
+    soi.product_id,
+    soi.product_name,
+    soi.color,
+    soi.size,
+    soi.unit_price,
+    soi.quantity AS ordered_quantity,
+    soi.invoiced_quantity,
+    soi.quantity - soi.invoiced_quantity AS outstanding_quantity
+FROM sales_order_items soi
+JOIN sales_orders so ON so.id = soi.sales_order_id
+WHERE so.status = 'partially_invoiced'
+  AND soi.invoiced_quantity < soi.quantity;
+
+GRANT SELECT ON sales_order_backorders TO authenticated;
+
+-- Backorders whose variant was received (GRN or company invoice) after the order and is in stock now
+CREATE OR REPLACE FUNCTION get_fillable_backorders(p_agency_id UUID)
+RETURNS TABLE (
+    sales_order_item_id UUID,
+    sales_order_id UUID,
+    order_number TEXT,
+    customer_id UUID,
+    customer_name TEXT,
+    product_name TEXT,
+    color TEXT,
+    size TEXT,
+    outstanding_quantity INTEGER,
+    available_quantity INTEGER,
+    received_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH stock AS (
+        SELECT e.product_name, e.color, e.size,
+               SUM(e.quantity) AS on_hand,
+               MAX(e.transaction_date) FILTER (
+                   WHERE e.transaction_type IN ('grn', 'external_invoice') AND e.quantity > 0
+               ) AS received_at
+        FROM external_inventory_management e
+        WHERE e.agency_id = p_agency_id AND e.approval_status = 'approved'
+        GROUP BY e.product_name, e.color, e.size
+    )
+    SELECT DISTINCT ON (b.sales_order_item_id)
+           b.sales_order_item_id, b.sales_order_id, b.order_number::TEXT, b.customer_id, b.customer_name::TEXT,
+           b.product_name::TEXT, b.color::TEXT, b.size::TEXT, b.outstanding_quantity,
+           LEAST(b.outstanding_quantity, s.on_hand)::INTEGER, s.received_at
+    FROM sales_order_backorders b
+    LEFT JOIN products p ON p.id::TEXT = b.product_id::TEXT
+    -- Stock rows use the product description ("[CODE] NAME") or the plain name, and 'Default' for blank variants
+    JOIN stock s ON s.product_name IN (b.product_name, p.description)
+                AND s.color = COALESCE(NULLIF(b.color, ''), 'Default')
+                AND s.size = COALESCE(NULLIF(b.size, ''), 'Default')
+    WHERE b.agency_id = p_agency_id
+      AND s.on_hand > 0
+      AND s.received_at > b.ordered_at
+    ORDER BY b.sales_order_item_id, s.on_hand DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_fillable_backorders(UUID) TO authenticated;
@@ -0,0 +1,339 @@
+-- Per-variant stock balances maintained from the external inventory ledger.
+-- external_inventory_stock_balances holds one row per agency/product_name/color/size with the totals the
+-- inventory screens used to fold together in the browser. Statement-level triggers on
+-- external_inventory_management recompute the variants a statement touched, so the balance stays in step
+-- with approved transactions. A nightly reconciliation compares every balance with the raw ledger, records
+-- any drift and repairs it.
+
+CREATE TABLE IF NOT EXISTS external_inventory_stock_balances (
+    agency_id UUID NOT NULL,
+    product_name VARCHAR(255) NOT NULL,
+    color VARCHAR(100) NOT NULL,
+    size VARCHAR(100) NOT NULL,
+    product_code VARCHAR(100),
+    category VARCHAR(100),
+    sub_category VARCHAR(100),
+    current_stock INTEGER NOT NULL DEFAULT 0,
+    total_stock_in INTEGER NOT NULL DEFAULT 0,
+    total_stock_out INTEGER NOT NULL DEFAULT 0,
+    -- Average of the non-zero unit prices, as the inventory screen has always shown it
+    price_sum NUMERIC(14,2) NOT NULL DEFAULT 0,
+    price_count INTEGER NOT NULL DEFAULT 0,
+    avg_unit_price NUMERIC(14,2) GENERATED ALWAYS AS (
+        CASE WHEN price_count > 0 THEN ROUND(price_sum / price_count, 2) ELSE 0 END
+    ) STORED,
+    transaction_count INTEGER NOT NULL DEFAULT 0,
+    first_transaction_date TIMESTAMP WITH TIME ZONE,
+    last_transaction_date TIMESTAMP WITH TIME ZONE,
+    sources TEXT[] NOT NULL DEFAULT '{}',
+    transaction_types TEXT[] NOT NULL DEFAULT '{}',
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (agency_id, product_name, color, size)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_balances_agency_sub_category ON external_inventory_stock_balances(agency_id, sub_category);
+
+ALTER TABLE external_inventory_stock_balances ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view stock balances from their agency"
+ON external_inventory_stock_balances
+FOR SELECT USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+GRANT SELECT ON external_inventory_stock_balances TO authenticated;
+GRANT ALL ON external_inventory_stock_balances TO service_role;
+
+-- Recompute one variant from its approved ledger rows; removes the balance when none are left
+CREATE OR REPLACE FUNCTION refresh_external_inventory_stock_balance(
+    p_agency_id UUID,
+    p_product_name TEXT,
+    p_color TEXT,
+    p_size TEXT
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    INSERT INTO external_inventory_stock_balances (
+        agency_id, product_name, color, size, product_code, category, sub_category,
+        current_stock, total_stock_in, total_stock_out, price_sum, price_count, transaction_count,
+        first_transaction_date, last_transaction_date, sources, transaction_types, updated_at
+    )
+    SELECT
+        e.agency_id, e.product_name, e.color, e.size,
+        (ARRAY_AGG(e.product_code ORDER BY e.transaction_date DESC) FILTER (WHERE e.product_code IS NOT NULL))[1],
+        (ARRAY_AGG(e.category ORDER BY e.transaction_date DESC) FILTER (WHERE e.category IS NOT NULL))[1],
+        (ARRAY_AGG(e.sub_category ORDER BY e.transaction_date DESC) FILTER (WHERE e.sub_category IS NOT NULL))[1],
+        SUM(e.quantity),
+        COALESCE(SUM(e.quantity) FILTER (WHERE e.quantity > 0), 0),
+        COALESCE(SUM(-e.quantity) FILTER (WHERE e.quantity < 0), 0),
+        COALESCE(SUM(e.unit_price) FILTER (WHERE e.unit_price > 0), 0),
+        COUNT(*) FILTER (WHERE e.unit_price > 0),
+        COUNT(*),
+        MIN(e.transaction_date),
+        MAX(e.transaction_date),
+        COALESCE(ARRAY_AGG(DISTINCT e.external_source) FILTER (WHERE e.external_source IS NOT NULL), '{}'),
+        ARRAY_AGG(DISTINCT e.transaction_type),
+        NOW()
+    FROM external_inventory_management e
+    WHERE e.agency_id = p_agency_id
+      AND e.product_name = p_product_name
+      AND e.color = p_color
+      AND e.size = p_size
+      AND e.approval_status = 'approved'
+    GROUP BY e.agency_id, e.product_name, e.color, e.size
+    ON CONFLICT (agency_id, product_name, color, size) DO UPDATE SET
+        product_code = EXCLUDED.product_code,
+        category = EXCLUDED.category,
+        sub_category = EXCLUDED.sub_category,
+        current_stock = EXCLUDED.current_stock,
+        total_stock_in = EXCLUDED.total_stock_in,
+        total_stock_out = EXCLUDED.total_stock_out,
+        price_sum = EXCLUDED.price_sum,
+        price_count = EXCLUDED.price_count,
+        transaction_count = EXCLUDED.transaction_count,
+        first_transaction_date = EXCLUDED.first_transaction_date,
+        last_transaction_date = EXCLUDED.last_transaction_date,
+        sources = EXCLUDED.sources,
+        transaction_types = EXCLUDED.transaction_types,
+        updated_at = EXCLUDED.updated_at;
+
+    IF NOT FOUND THEN
+        DELETE FROM external_inventory_stock_balances
+        WHERE agency_id = p_agency_id AND product_name = p_product_name AND color = p_color AND size = p_size;
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_external_inventory_stock_balance(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Statement-level so a bulk sync recomputes each touched variant once
+CREATE OR REPLACE FUNCTION sync_external_inventory_stock_balances()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_variant RECORD;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        FOR v_variant IN SELECT DISTINCT agency_id, product_name, color, size FROM new_rows LOOP
+            PERFORM refresh_external_inventory_stock_balance(v_variant.agency_id, v_variant.product_name, v_variant.color, v_variant.size);
+        END LOOP;
+    ELSIF TG_OP = 'UPDATE' THEN
+        FOR v_variant IN
+            SELECT agency_id, product_name, color, size FROM old_rows
+            UNION
+            SELECT agency_id, product_name, color, size FROM new_rows
+        LOOP
+            PERFORM refresh_external_inventory_stock_balance(v_variant.agency_id, v_variant.product_name, v_variant.color, v_variant.size);
+        END LOOP;
+    ELSE
+        FOR v_variant IN SELECT DISTINCT agency_id, product_name, color, size FROM old_rows LOOP
+            PERFORM refresh_external_inventory_stock_balance(v_variant.agency_id, v_variant.product_name, v_variant.color, v_variant.size);
+        END LOOP;
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_stock_balances_insert ON external_inventory_management;
+CREATE TRIGGER trigger_stock_balances_insert
+    AFTER INSERT ON external_inventory_management
+    REFERENCING NEW TABLE AS new_rows
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION sync_external_inventory_stock_balances();
+
+DROP TRIGGER IF EXISTS trigger_stock_balances_update ON external_inventory_management;
+CREATE TRIGGER trigger_stock_balances_update
+    AFTER UPDATE ON external_inventory_management
+    REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION sync_external_inventory_stock_balances();
+
+DROP TRIGGER IF EXISTS trigger_stock_balances_delete ON external_inventory_management;
+CREATE TRIGGER trigger_stock_balances_delete
+    AFTER DELETE ON external_inventory_management
+    REFERENCING OLD TABLE AS old_rows
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION sync_external_inventory_stock_balances();
+
+-- The ledger aggregated the same way as a balance row, for the backfill and reconciliation
+CREATE OR REPLACE FUNCTION external_inventory_ledger_balances(p_agency_id UUID DEFAULT NULL)
+RETURNS TABLE (
+    agency_id UUID,
+    product_name TEXT,
+    color TEXT,
+    size TEXT,
+    current_stock INTEGER,
+    total_stock_in INTEGER,
+    total_stock_out INTEGER,
+    transaction_count INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT e.agency_id, e.product_name::TEXT, e.color::TEXT, e.size::TEXT,
+           SUM(e.quantity)::INTEGER,
+           COALESCE(SUM(e.quantity) FILTER (WHERE e.quantity > 0), 0)::INTEGER,
+           COALESCE(SUM(-e.quantity) FILTER (WHERE e.quantity < 0), 0)::INTEGER,
+           COUNT(*)::INTEGER
+    FROM external_inventory_management e
+    WHERE e.approval_status = 'approved'
+      AND (p_agency_id IS NULL OR e.agency_id = p_agency_id)
+    GROUP BY e.agency_id, e.product_name, e.color, e.size;
+$$;
+
+-- Backfill every variant already in the ledger
+DO $$
+DECLARE
+    v_variant RECORD;
+BEGIN
+    FOR v_variant IN SELECT DISTINCT agency_id, product_name, color, size FROM external_inventory_management WHERE approval_status = 'approved' LOOP
+        PERFORM refresh_external_inventory_stock_balance(v_variant.agency_id, v_variant.product_name, v_variant.color, v_variant.size);
+    END LOOP;
+END $$;
+
+-- Reconciliation runs and the drift they found
+CREATE TABLE IF NOT EXISTS stock_balance_reconciliations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    agency_id UUID REFERENCES agencies(id) ON DELETE CASCADE,
+    trigger TEXT NOT NULL DEFAULT 'manual' CHECK (trigger IN ('manual', 'scheduled')),
+    repair BOOLEAN NOT NULL DEFAULT TRUE,
+    variants_checked INTEGER NOT NULL DEFAULT 0,
+    drift_count INTEGER NOT NULL DEFAULT 0,
+    created_by UUID REFERENCES auth.users(id),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS stock_balance_drifts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    reconciliation_id UUID NOT NULL REFERENCES stock_balance_reconciliations(id) ON DELETE CASCADE,
+    agency_id UUID NOT NULL,
+    product_name TEXT NOT NULL,
+    color TEXT NOT NULL,
+    size TEXT NOT NULL,
+    -- NULL when the variant is missing on that side
+    balance_stock INTEGER,
+    ledger_stock INTEGER,
+    balance_transaction_count INTEGER,
+    ledger_transaction_count INTEGER,
+    repaired BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_balance_reconciliations_agency ON stock_balance_reconciliations(agency_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_balance_drifts_reconciliation ON stock_balance_drifts(reconciliation_id);
+
+ALTER TABLE stock_balance_reconciliations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_balance_drifts ENABLE ROW LEVEL SECURITY;
+
+-- Runs over all agencies have no agency_id and are visible to superusers only
+CREATE POLICY "Users can view stock balance reconciliations from their agency"
+ON stock_balance_reconciliations
+FOR SELECT USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+CREATE POLICY "Users can view stock balance drifts from their agency"
+ON stock_balance_drifts
+FOR SELECT USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+-- Compare balances with the ledger for one agency (or all), record every difference and optionally repair it.
+-- Superusers only when called from the app; a 'scheduled' run must come from the nightly cron job, which
+-- connects as postgres rather than through the API.
+CREATE OR REPLACE FUNCTION reconcile_external_inventory_stock_balances(
+    p_agency_id UUID DEFAULT NULL,
+    p_repair BOOLEAN DEFAULT TRUE,
+    p_trigger TEXT DEFAULT 'manual'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_run_id UUID;
+    v_checked INTEGER;
+    v_drift RECORD;
+    v_drift_count INTEGER := 0;
+BEGIN
+    IF p_trigger = 'scheduled' THEN
+        IF session_user <> 'postgres' THEN
+            RAISE EXCEPTION 'Scheduled reconciliations are started by the nightly job only';
+        END IF;
+    ELSIF NOT EXISTS (
+        SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser'
+    ) THEN
+        RAISE EXCEPTION 'Only superusers can reconcile stock balances';
+    END IF;
+
+    INSERT INTO stock_balance_reconciliations (agency_id, trigger, repair, created_by)
+    VALUES (p_agency_id, p_trigger, p_repair, auth.uid())
+    RETURNING id INTO v_run_id;
+
+    SELECT COUNT(*) INTO v_checked
+    FROM external_inventory_stock_balances b
+    WHERE p_agency_id IS NULL OR b.agency_id = p_agency_id;
+
+    FOR v_drift IN
+        SELECT
+            COALESCE(l.agency_id, b.agency_id) AS agency_id,
+            COALESCE(l.product_name, b.product_name) AS product_name,
+            COALESCE(l.color, b.color) AS color,
+            COALESCE(l.size, b.size) AS size,
+            b.current_stock AS balance_stock,
+            l.current_stock AS ledger_stock,
+            b.transaction_count AS balance_transaction_count,
+            l.transaction_count AS ledger_transaction_count
+        FROM external_inventory_ledger_balances(p_agency_id) l
+        FULL OUTER JOIN (
+            SELECT * FROM external_inventory_stock_balances
+            WHERE p_agency_id IS NULL OR agency_id = p_agency_id
+        ) b ON b.agency_id = l.agency_id AND b.product_name = l.product_name AND b.color = l.color AND b.size = l.size
+        WHERE b.current_stock IS DISTINCT FROM l.current_stock
+           OR b.total_stock_in IS DISTINCT FROM l.total_stock_in
+           OR b.total_stock_out IS DISTINCT FROM l.total_stock_out
+           OR b.transaction_count IS DISTINCT FROM l.transaction_count
+    LOOP
+        v_drift_count := v_drift_count + 1;
+
+        IF p_repair THEN
+            PERFORM refresh_external_inventory_stock_balance(v_drift.agency_id, v_drift.product_name, v_drift.color, v_drift.size);
+        END IF;
+
+        INSERT INTO stock_balance_drifts (
+            reconciliation_id, agency_id, product_name, color, size,
+            balance_stock, ledger_stock, balance_transaction_count, ledger_transaction_count, repaired
+        ) VALUES (
+            v_run_id, v_drift.agency_id, v_drift.product_name, v_drift.color, v_drift.size,
+            v_drift.balance_stock, v_drift.ledger_stock, v_drift.balance_transaction_count, v_drift.ledger_transaction_count, p_repair
+        );
+    END LOOP;
+
+    UPDATE stock_balance_reconciliations
+    SET variants_checked = v_checked, drift_count = v_drift_count, completed_at = NOW()
+    WHERE id = v_run_id;
+
+    RETURN v_run_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reconcile_external_inventory_stock_balances(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reconcile_external_inventory_stock_balances(UUID, BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION reconcile_external_inventory_stock_balances(UUID, BOOLEAN, TEXT) TO postgres;
+
+-- Nightly at 02:00 Sri Lanka time (20:30 UTC)
+SELECT cron.schedule(
+    'stock-balance-reconciliation',
+    '30 20 * * *',
+    'SELECT reconcile_external_inventory_stock_balances(NULL, TRUE, ''scheduled'');'
+);
@@ -0,0 +1,224 @@
+-- Min/max stock levels per product variant per agency, and purchase suggestions built from them.
+-- stock_reorder_levels is keyed like external_inventory_stock_balances (ledger product name, color, size).
+-- Levels are either entered by hand or derived from the agency's sales over the last N weeks; a velocity
+-- refresh never overwrites a manual level. get_purchase_suggestions lists the variants at or below their
+-- minimum once open purchase orders are counted, with the quantity needed to bring them back to maximum.
+
+CREATE TABLE IF NOT EXISTS stock_reorder_levels (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+    product_name VARCHAR(255) NOT NULL,
+    color VARCHAR(100) NOT NULL DEFAULT 'Default',
+    size VARCHAR(100) NOT NULL DEFAULT 'Default',
+    min_stock INTEGER NOT NULL DEFAULT 0 CHECK (min_stock >= 0),
+    max_stock INTEGER NOT NULL DEFAULT 0 CHECK (max_stock >= 0),
+    source VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'velocity')),
+    -- Only set for velocity levels: the sales window and average daily sales they were derived from
+    velocity_weeks INTEGER,
+    daily_sales NUMERIC(10,3),
+    updated_by UUID REFERENCES auth.users(id),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (agency_id, product_name, color, size),
+    CHECK (max_stock >= min_stock)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reorder_levels_agency ON stock_reorder_levels(agency_id);
+
+ALTER TABLE stock_reorder_levels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view reorder levels from their agency"
+ON stock_reorder_levels
+FOR SELECT USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+CREATE POLICY "Users can manage reorder levels for their agency"
+ON stock_reorder_levels
+FOR ALL USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+) WITH CHECK (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON stock_reorder_levels TO authenticated;
+GRANT ALL ON stock_reorder_levels TO service_role;
+
+-- Units sold per variant over the last p_weeks weeks, from approved sale transactions
+CREATE OR REPLACE FUNCTION get_variant_sales_velocity(
+    p_agency_id UUID,
+    p_weeks INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+    product_name TEXT,
+    color TEXT,
+    size TEXT,
+    units_sold INTEGER,
+    daily_sales NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        eim.product_name::TEXT,
+        eim.color::TEXT,
+        eim.size::TEXT,
+        SUM(-eim.quantity)::INTEGER AS units_sold,
+        ROUND(SUM(-eim.quantity)::NUMERIC / (GREATEST(p_weeks, 1) * 7), 3) AS daily_sales
+    FROM external_inventory_management eim
+    WHERE eim.agency_id = p_agency_id
+      AND eim.approval_status = 'approved'
+      AND eim.transaction_type = 'sale'
+      AND eim.quantity < 0
+      AND eim.transaction_date >= NOW() - make_interval(weeks => GREATEST(p_weeks, 1))
+    GROUP BY eim.product_name, eim.color, eim.size;
+$$;
+
+-- Derive levels from sales velocity: min covers the supplier lead time, max adds p_cover_days of stock on top.
+-- Manual levels are left untouched. Returns the number of variants written.
+CREATE OR REPLACE FUNCTION set_reorder_levels_from_velocity(
+    p_agency_id UUID,
+    p_weeks INTEGER DEFAULT 8,
+    p_lead_days INTEGER DEFAULT 14,
+    p_cover_days INTEGER DEFAULT 30
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    IF p_weeks < 1 OR p_lead_days < 0 OR p_cover_days < 1 THEN
+        RAISE EXCEPTION 'Sales window and cover days must be at least 1, lead time cannot be negative';
+    END IF;
+
+    INSERT INTO stock_reorder_levels (
+        agency_id, product_name, color, size, min_stock, max_stock,
+        source, velocity_weeks, daily_sales, updated_by, updated_at
+    )
+    SELECT
+        p_agency_id,
+        v.product_name,
+        v.color,
+        v.size,
+        CEIL(v.daily_sales * p_lead_days)::INTEGER,
+        GREATEST(CEIL(v.daily_sales * (p_lead_days + p_cover_days))::INTEGER, 1),
+        'velocity',
+        p_weeks,
+        v.daily_sales,
+        auth.uid(),
+        NOW()
+    FROM get_variant_sales_velocity(p_agency_id, p_weeks) v
+    WHERE v.units_sold > 0
+    ON CONFLICT (agency_id, product_name, color, size) DO UPDATE SET
+        min_stock = EXCLUDED.min_stock,
+        max_stock = EXCLUDED.max_stock,
+        velocity_weeks = EXCLUDED.velocity_weeks,
+        daily_sales = EXCLUDED.daily_sales,
+        updated_by = EXCLUDED.updated_by,
+        updated_at = NOW()
+    WHERE stock_reorder_levels.source = 'velocity';
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+-- Variants at or below their minimum once open purchase orders are counted, with the quantity to reach maximum.
+-- Open PO lines match on product and on color/size unless the ledger variant is 'Default'.
+CREATE OR REPLACE FUNCTION get_purchase_suggestions(
+    p_agency_id UUID,
+    p_weeks INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+    product_id UUID,
+    product_name TEXT,
+    ledger_product_name TEXT,
+    color TEXT,
+    size TEXT,
+    unit_price NUMERIC,
+    current_stock INTEGER,
+    min_stock INTEGER,
+    max_stock INTEGER,
+    daily_sales NUMERIC,
+    sell_through_days NUMERIC,
+    on_order_quantity INTEGER,
+    suggested_quantity INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH velocity AS (
+        SELECT * FROM get_variant_sales_velocity(p_agency_id, p_weeks)
+    ),
+    open_order_lines AS (
+        SELECT poi.product_id, poi.color, poi.size, poi.quantity
+        FROM purchase_order_items poi
+        JOIN purchase_orders po ON po.id = poi.purchase_order_id
+        WHERE po.agency_id = p_agency_id
+          AND po.status IN ('pending', 'approved', 'shipped')
+    ),
+    levels AS (
+        SELECT
+            p.id AS product_id,
+            COALESCE(p.name, rl.product_name)::TEXT AS product_name,
+            rl.product_name::TEXT AS ledger_product_name,
+            rl.color::TEXT AS color,
+            rl.size::TEXT AS size,
+            COALESCE(p.billing_price, 0)::NUMERIC AS unit_price,
+            COALESCE(sb.current_stock, 0) AS current_stock,
+            rl.min_stock,
+            rl.max_stock,
+            COALESCE(v.daily_sales, 0) AS daily_sales,
+            COALESCE((
+                SELECT SUM(ool.quantity)
+                FROM open_order_lines ool
+                WHERE ool.product_id = p.id
+                  AND (rl.color = 'Default' OR ool.color = rl.color)
+                  AND (rl.size = 'Default' OR ool.size = rl.size)
+            ), 0)::INTEGER AS on_order_quantity
+        FROM stock_reorder_levels rl
+        LEFT JOIN external_inventory_stock_balances sb
+            ON sb.agency_id = rl.agency_id
+           AND sb.product_name = rl.product_name
+           AND sb.color = rl.color
+           AND sb.size = rl.size
+        LEFT JOIN velocity v
+            ON v.product_name = rl.product_name
+           AND v.color = rl.color
+           AND v.size = rl.size
+        LEFT JOIN LATERAL (
+            SELECT pr.id, pr.name, pr.billing_price
+            FROM products pr
+            WHERE pr.description = rl.product_name OR pr.name = rl.product_name
+            ORDER BY (pr.description = rl.product_name) DESC
+            LIMIT 1
+        ) p ON TRUE
+        WHERE rl.agency_id = p_agency_id
+          AND rl.max_stock > 0
+    )
+    SELECT
+        l.product_id,
+        l.product_name,
+        l.ledger_product_name,
+        l.color,
+        l.size,
+        l.unit_price,
+        l.current_stock,
+        l.min_stock,
+        l.max_stock,
+        l.daily_sales,
+        CASE WHEN l.daily_sales > 0 THEN ROUND(GREATEST(l.current_stock, 0) / l.daily_sales, 1) END AS sell_through_days,
+        l.on_order_quantity,
+        (l.max_stock - l.current_stock - l.on_order_quantity) AS suggested_quantity
+    FROM levels l
+    WHERE l.current_stock + l.on_order_quantity <= l.min_stock
+      AND l.max_stock - l.current_stock - l.on_order_quantity > 0
+    ORDER BY sell_through_days ASC NULLS LAST, l.product_name, l.color, l.size;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_variant_sales_velocity(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_reorder_levels_from_velocity(UUID, INTEGER, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_purchase_suggestions(UUID, INTEGER) TO authenticated;
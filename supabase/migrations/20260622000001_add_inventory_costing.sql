@@ -0,0 +1,351 @@
+-- Inventory costing per agency: FIFO or moving weighted average.
+-- inventory_cost_movements holds one costed row per approved external_inventory_management row, in ledger
+-- order per variant, with the running quantity and value after it. GRN and company invoice rows bring stock
+-- in at their unit price; sales, company returns and negative adjustments take it out at FIFO layer cost or
+-- the current average; customer returns and positive adjustments without a price come back at the latest
+-- cost. A variant is re-costed from scratch whenever its ledger rows change, so back-dated entries are
+-- handled. Valuation as of a date is the last movement per variant on or before it, and sale movements
+-- (transaction_id = invoices.id) give the cost of goods sold per invoice.
+
+ALTER TABLE agencies
+    ADD COLUMN IF NOT EXISTS cost_method VARCHAR(20) NOT NULL DEFAULT 'weighted_average'
+    CHECK (cost_method IN ('fifo', 'weighted_average'));
+
+CREATE TABLE IF NOT EXISTS inventory_cost_movements (
+    ledger_id UUID PRIMARY KEY REFERENCES external_inventory_management(id) ON DELETE CASCADE,
+    agency_id UUID NOT NULL,
+    product_name VARCHAR(255) NOT NULL,
+    color VARCHAR(100) NOT NULL,
+    size VARCHAR(100) NOT NULL,
+    category VARCHAR(100),
+    sub_category VARCHAR(100),
+    transaction_type VARCHAR(50) NOT NULL,
+    transaction_id VARCHAR(255),
+    transaction_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    -- Position of the row in the variant's ledger order
+    sequence INTEGER NOT NULL,
+    quantity INTEGER NOT NULL,
+    unit_cost NUMERIC(14,4) NOT NULL DEFAULT 0,
+    -- Signed like quantity: positive for stock in, negative for cost taken out
+    total_cost NUMERIC(14,2) NOT NULL DEFAULT 0,
+    balance_quantity INTEGER NOT NULL,
+    balance_value NUMERIC(14,2) NOT NULL,
+    cost_method VARCHAR(20) NOT NULL,
+    costed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_cost_movements_variant
+ON inventory_cost_movements(agency_id, product_name, color, size, transaction_date DESC, sequence DESC);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_cost_movements_transaction
+ON inventory_cost_movements(transaction_type, transaction_id);
+
+ALTER TABLE inventory_cost_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view inventory costs from their agency"
+ON inventory_cost_movements
+FOR SELECT USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+GRANT SELECT ON inventory_cost_movements TO authenticated;
+GRANT ALL ON inventory_cost_movements TO service_role;
+
+-- Re-cost one variant from its approved ledger rows using the agency's cost method
+CREATE OR REPLACE FUNCTION rebuild_inventory_variant_costs(
+    p_agency_id UUID,
+    p_product_name TEXT,
+    p_color TEXT,
+    p_size TEXT
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_method TEXT;
+    v_row RECORD;
+    v_sequence INTEGER := 0;
+    v_quantity INTEGER := 0;
+    v_value NUMERIC := 0;
+    -- FIFO layers, oldest first; v_head is the oldest layer with stock left
+    v_layer_quantity INTEGER[] := '{}';
+    v_layer_cost NUMERIC[] := '{}';
+    v_head INTEGER := 1;
+    v_unit_cost NUMERIC;
+    v_total NUMERIC;
+    v_last_cost NUMERIC := 0;
+    v_remaining INTEGER;
+    v_take INTEGER;
+    v_shortage INTEGER;
+BEGIN
+    SELECT COALESCE(cost_method, 'weighted_average') INTO v_method FROM agencies WHERE id = p_agency_id;
+    v_method := COALESCE(v_method, 'weighted_average');
+
+    DELETE FROM inventory_cost_movements
+    WHERE agency_id = p_agency_id AND product_name = p_product_name AND color = p_color AND size = p_size;
+
+    FOR v_row IN
+        SELECT e.id, e.category, e.sub_category, e.transaction_type, e.transaction_id, e.transaction_date, e.quantity, e.unit_price
+        FROM external_inventory_management e
+        WHERE e.agency_id = p_agency_id
+          AND e.product_name = p_product_name
+          AND e.color = p_color
+          AND e.size = p_size
+          AND e.approval_status = 'approved'
+          AND e.quantity <> 0
+        ORDER BY e.transaction_date, e.created_at, e.id
+    LOOP
+        v_sequence := v_sequence + 1;
+
+        IF v_row.quantity > 0 THEN
+            IF v_row.transaction_type IN ('grn', 'external_invoice', 'adjustment') AND COALESCE(v_row.unit_price, 0) > 0 THEN
+                v_unit_cost := v_row.unit_price;
+            ELSIF v_method = 'weighted_average' AND v_quantity > 0 THEN
+                v_unit_cost := v_value / v_quantity;
+            ELSE
+                v_unit_cost := v_last_cost;
+            END IF;
+
+            v_total := ROUND(v_row.quantity * v_unit_cost, 2);
+
+            IF v_method = 'fifo' THEN
+                -- Stock issued while the variant was short is covered first; only the rest becomes a layer
+                v_shortage := LEAST(v_row.quantity, GREATEST(-v_quantity, 0));
+                IF v_row.quantity > v_shortage THEN
+                    v_layer_quantity := v_layer_quantity || (v_row.quantity - v_shortage);
+                    v_layer_cost := v_layer_cost || v_unit_cost;
+                END IF;
+            END IF;
+
+            v_quantity := v_quantity + v_row.quantity;
+            v_value := v_value + v_total;
+        ELSE
+            v_remaining := -v_row.quantity;
+
+            IF v_method = 'fifo' THEN
+                v_total := 0;
+                WHILE v_remaining > 0 AND v_head <= COALESCE(array_length(v_layer_quantity, 1), 0) LOOP
+                    v_take := LEAST(v_remaining, v_layer_quantity[v_head]);
+                    v_total := v_total + v_take * v_layer_cost[v_head];
+                    v_layer_quantity[v_head] := v_layer_quantity[v_head] - v_take;
+                    v_remaining := v_remaining - v_take;
+                    IF v_layer_quantity[v_head] = 0 THEN
+                        v_head := v_head + 1;
+                    END IF;
+                END LOOP;
+                -- Issued beyond the stock on hand: cost at the latest known cost
+                v_total := v_total + v_remaining * v_last_cost;
+                v_unit_cost := v_total / -v_row.quantity;
+            ELSE
+                v_unit_cost := CASE WHEN v_quantity > 0 THEN v_value / v_quantity ELSE v_last_cost END;
+                v_total := -v_row.quantity * v_unit_cost;
+            END IF;
+
+            v_total := -ROUND(v_total, 2);
+            v_quantity := v_quantity + v_row.quantity;
+            v_value := v_value + v_total;
+        END IF;
+
+        IF v_method = 'fifo' THEN
+            SELECT COALESCE(SUM(layer.quantity * layer.cost), 0) INTO v_value
+            FROM unnest(v_layer_quantity[v_head:], v_layer_cost[v_head:]) AS layer(quantity, cost);
+            v_value := v_value + LEAST(v_quantity, 0) * v_unit_cost;
+        ELSIF v_quantity <= 0 THEN
+            -- Nothing left to average over; drop rounding residue and value any shortage at the latest cost
+            v_value := v_quantity * v_unit_cost;
+        END IF;
+
+        v_last_cost := v_unit_cost;
+
+        INSERT INTO inventory_cost_movements (
+            ledger_id, agency_id, product_name, color, size, category, sub_category,
+            transaction_type, transaction_id, transaction_date, sequence, quantity,
+            unit_cost, total_cost, balance_quantity, balance_value, cost_method
+        ) VALUES (
+            v_row.id, p_agency_id, p_product_name, p_color, p_size, v_row.category, v_row.sub_category,
+            v_row.transaction_type, v_row.transaction_id, v_row.transaction_date, v_sequence, v_row.quantity,
+            ROUND(v_unit_cost, 4), v_total, v_quantity, ROUND(v_value, 2), v_method
+        );
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION rebuild_inventory_variant_costs(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Re-cost every variant of an agency, e.g. after its cost method changes
+CREATE OR REPLACE FUNCTION rebuild_agency_inventory_costs(p_agency_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_variant RECORD;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_variant IN
+        SELECT DISTINCT product_name, color, size
+        FROM external_inventory_management
+        WHERE agency_id = p_agency_id
+        UNION
+        SELECT product_name, color, size
+        FROM inventory_cost_movements
+        WHERE agency_id = p_agency_id
+    LOOP
+        PERFORM rebuild_inventory_variant_costs(p_agency_id, v_variant.product_name, v_variant.color, v_variant.size);
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION rebuild_agency_inventory_costs(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Statement-level so a bulk sync re-costs each touched variant once
+CREATE OR REPLACE FUNCTION sync_inventory_cost_movements()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_variant RECORD;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        FOR v_variant IN SELECT DISTINCT agency_id, product_name, color, size FROM new_rows LOOP
+            PERFORM rebuild_inventory_variant_costs(v_variant.agency_id, v_variant.product_name, v_variant.color, v_variant.size);
+        END LOOP;
+    ELSIF TG_OP = 'UPDATE' THEN
+        FOR v_variant IN
+            SELECT agency_id, product_name, color, size FROM old_rows
+            UNION
+            SELECT agency_id, product_name, color, size FROM new_rows
+        LOOP
+            PERFORM rebuild_inventory_variant_costs(v_variant.agency_id, v_variant.product_name, v_variant.color, v_variant.size);
+        END LOOP;
+    ELSE
+        FOR v_variant IN SELECT DISTINCT agency_id, product_name, color, size FROM old_rows LOOP
+            PERFORM rebuild_inventory_variant_costs(v_variant.agency_id, v_variant.product_name, v_variant.color, v_variant.size);
+        END LOOP;
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_inventory_costs_insert ON external_inventory_management;
+CREATE TRIGGER trigger_inventory_costs_insert
+    AFTER INSERT ON external_inventory_management
+    REFERENCING NEW TABLE AS new_rows
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION sync_inventory_cost_movements();
+
+DROP TRIGGER IF EXISTS trigger_inventory_costs_update ON external_inventory_management;
+CREATE TRIGGER trigger_inventory_costs_update
+    AFTER UPDATE ON external_inventory_management
+    REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION sync_inventory_cost_movements();
+
+DROP TRIGGER IF EXISTS trigger_inventory_costs_delete ON external_inventory_management;
+CREATE TRIGGER trigger_inventory_costs_delete
+    AFTER DELETE ON external_inventory_management
+    REFERENCING OLD TABLE AS old_rows
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION sync_inventory_cost_movements();
+
+-- Switch an agency between FIFO and weighted average and re-cost its stock (superusers only)
+CREATE OR REPLACE FUNCTION set_agency_cost_method(p_agency_id UUID, p_cost_method TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser') THEN
+        RAISE EXCEPTION 'Only superusers can change the cost method';
+    END IF;
+
+    IF p_cost_method NOT IN ('fifo', 'weighted_average') THEN
+        RAISE EXCEPTION 'Unknown cost method: %', p_cost_method;
+    END IF;
+
+    UPDATE agencies SET cost_method = p_cost_method WHERE id = p_agency_id;
+    RETURN rebuild_agency_inventory_costs(p_agency_id);
+END;
+$$;
+
+-- Stock on hand and its cost per variant as of a point in time
+CREATE OR REPLACE FUNCTION get_inventory_valuation(
+    p_agency_id UUID,
+    p_as_of TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS TABLE (
+    product_name TEXT,
+    color TEXT,
+    size TEXT,
+    category TEXT,
+    sub_category TEXT,
+    quantity INTEGER,
+    stock_value NUMERIC,
+    unit_cost NUMERIC,
+    cost_method TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        m.product_name::TEXT,
+        m.color::TEXT,
+        m.size::TEXT,
+        m.category::TEXT,
+        m.sub_category::TEXT,
+        m.balance_quantity,
+        m.balance_value,
+        CASE WHEN m.balance_quantity > 0 THEN ROUND(m.balance_value / m.balance_quantity, 4) ELSE 0 END,
+        m.cost_method::TEXT
+    FROM (
+        SELECT DISTINCT ON (icm.product_name, icm.color, icm.size) icm.*
+        FROM inventory_cost_movements icm
+        WHERE icm.agency_id = p_agency_id
+          AND icm.transaction_date <= p_as_of
+        ORDER BY icm.product_name, icm.color, icm.size, icm.transaction_date DESC, icm.sequence DESC
+    ) m
+    WHERE m.balance_quantity <> 0 OR m.balance_value <> 0
+    ORDER BY m.sub_category, m.product_name, m.color, m.size;
+$$;
+
+-- Cost of goods sold and gross margin per invoice, from the sale movements booked against it
+CREATE OR REPLACE VIEW invoice_cost_of_goods
+WITH (security_invoker = true) AS
+SELECT
+    i.id AS invoice_id,
+    i.invoice_number,
+    i.agency_id,
+    i.customer_id,
+    i.customer_name,
+    i.created_at AS invoice_date,
+    i.total AS revenue,
+    COALESCE(-SUM(icm.total_cost), 0)::NUMERIC(14,2) AS cost_of_goods,
+    (i.total - COALESCE(-SUM(icm.total_cost), 0))::NUMERIC(14,2) AS gross_margin,
+    COUNT(icm.ledger_id)::INTEGER AS costed_lines
+FROM invoices i
+LEFT JOIN inventory_cost_movements icm
+    ON icm.transaction_type = 'sale'
+   AND icm.transaction_id = i.id::TEXT
+GROUP BY i.id;
+
+GRANT SELECT ON invoice_cost_of_goods TO authenticated;
+GRANT EXECUTE ON FUNCTION get_inventory_valuation(UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_agency_cost_method(UUID, TEXT) TO authenticated;
+
+-- Cost the existing ledger
+DO $$
+DECLARE
+    v_agency RECORD;
+BEGIN
+    FOR v_agency IN SELECT DISTINCT agency_id FROM external_inventory_management LOOP
+        PERFORM rebuild_agency_inventory_costs(v_agency.agency_id);
+    END LOOP;
+END;
+$$;
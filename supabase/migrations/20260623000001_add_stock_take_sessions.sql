@@ -0,0 +1,344 @@
+-- Stock-take sessions: a physical count of an agency's stock against a frozen snapshot.
+-- Starting a session copies the expected quantity of every variant in scope (all, or chosen sub-categories)
+-- from external_inventory_stock_balances into stock_take_lines. Counters record counted quantities in
+-- stock_take_counts, possibly from several devices and over several passes; a line's count is the total of
+-- the latest pass that counted it. Sales, GRNs and transfers carry on while counting, so a line's variance is
+-- measured against the snapshot plus the approved movements since it. Submitting posts the net differences as
+-- pending 'adjustment' rows that
+-- share one transaction_id ('STOCK-TAKE-<session id>'), so they are approved together through the usual
+-- stock adjustment approval screen. The session completes once none of those rows are pending.
+
+CREATE TABLE IF NOT EXISTS stock_take_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+    session_number VARCHAR(50) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    -- Empty means the whole agency was counted
+    sub_categories TEXT[] NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'counting' CHECK (status IN ('counting', 'submitted', 'completed', 'cancelled')),
+    current_pass INTEGER NOT NULL DEFAULT 1 CHECK (current_pass >= 1),
+    snapshot_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    line_count INTEGER NOT NULL DEFAULT 0,
+    adjustment_count INTEGER NOT NULL DEFAULT 0,
+    net_variance INTEGER NOT NULL DEFAULT 0,
+    variance_value NUMERIC(14,2) NOT NULL DEFAULT 0,
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_by_name VARCHAR(255),
+    submitted_by UUID REFERENCES auth.users(id),
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (agency_id, session_number)
+);
+
+CREATE TABLE IF NOT EXISTS stock_take_lines (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES stock_take_sessions(id) ON DELETE CASCADE,
+    product_name VARCHAR(255) NOT NULL,
+    product_code VARCHAR(100),
+    color VARCHAR(100) NOT NULL DEFAULT 'Default',
+    size VARCHAR(100) NOT NULL DEFAULT 'Default',
+    category VARCHAR(100),
+    sub_category VARCHAR(100),
+    expected_quantity INTEGER NOT NULL DEFAULT 0,
+    unit_cost NUMERIC(14,4) NOT NULL DEFAULT 0,
+    -- Found on the shelf but not in the snapshot
+    added_during_count BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (session_id, product_name, color, size)
+);
+
+CREATE TABLE IF NOT EXISTS stock_take_counts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES stock_take_sessions(id) ON DELETE CASCADE,
+    line_id UUID NOT NULL REFERENCES stock_take_lines(id) ON DELETE CASCADE,
+    pass_number INTEGER NOT NULL DEFAULT 1,
+    quantity INTEGER NOT NULL CHECK (quantity >= 0),
+    counted_by UUID REFERENCES auth.users(id),
+    counted_by_name VARCHAR(255),
+    counted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_take_sessions_agency ON stock_take_sessions(agency_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_take_lines_session ON stock_take_lines(session_id);
+CREATE INDEX IF NOT EXISTS idx_stock_take_counts_line ON stock_take_counts(line_id, pass_number);
+
+ALTER TABLE stock_take_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_take_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_take_counts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage stock takes for their agency"
+ON stock_take_sessions
+FOR ALL USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+) WITH CHECK (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+-- Lines and counts follow the visibility of their session
+CREATE POLICY "Users can manage stock take lines for their sessions"
+ON stock_take_lines
+FOR ALL USING (session_id IN (SELECT id FROM stock_take_sessions))
+WITH CHECK (session_id IN (SELECT id FROM stock_take_sessions));
+
+CREATE POLICY "Users can manage stock take counts for their sessions"
+ON stock_take_counts
+FOR ALL USING (session_id IN (SELECT id FROM stock_take_sessions))
+WITH CHECK (session_id IN (SELECT id FROM stock_take_sessions));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON stock_take_sessions TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON stock_take_lines TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON stock_take_counts TO authenticated;
+GRANT ALL ON stock_take_sessions TO service_role;
+GRANT ALL ON stock_take_lines TO service_role;
+GRANT ALL ON stock_take_counts TO service_role;
+
+-- Open a session and freeze the expected quantities of the variants in scope
+CREATE OR REPLACE FUNCTION start_stock_take(
+    p_agency_id UUID,
+    p_name TEXT,
+    p_sub_categories TEXT[] DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_session_id UUID;
+    v_number INTEGER;
+    v_line_count INTEGER;
+BEGIN
+    SELECT COUNT(*) + 1 INTO v_number FROM stock_take_sessions WHERE agency_id = p_agency_id;
+
+    INSERT INTO stock_take_sessions (agency_id, session_number, name, sub_categories, created_by, created_by_name)
+    VALUES (
+        p_agency_id,
+        'ST-' || LPAD(v_number::TEXT, 4, '0'),
+        p_name,
+        COALESCE(p_sub_categories, '{}'),
+        auth.uid(),
+        (SELECT name FROM profiles WHERE id = auth.uid())
+    )
+    RETURNING id INTO v_session_id;
+
+    INSERT INTO stock_take_lines (
+        session_id, product_name, product_code, color, size, category, sub_category, expected_quantity, unit_cost
+    )
+    SELECT
+        v_session_id,
+        sb.product_name,
+        sb.product_code,
+        sb.color,
+        sb.size,
+        sb.category,
+        COALESCE(sb.sub_category, sb.category, 'General'),
+        sb.current_stock,
+        COALESCE(NULLIF(v.unit_cost, 0), sb.avg_unit_price, 0)
+    FROM external_inventory_stock_balances sb
+    LEFT JOIN get_inventory_valuation(p_agency_id) v
+        ON v.product_name = sb.product_name AND v.color = sb.color AND v.size = sb.size
+    WHERE sb.agency_id = p_agency_id
+      AND (
+          COALESCE(array_length(p_sub_categories, 1), 0) = 0
+          OR COALESCE(sb.sub_category, sb.category, 'General') = ANY (p_sub_categories)
+      );
+
+    GET DIAGNOSTICS v_line_count = ROW_COUNT;
+    UPDATE stock_take_sessions SET line_count = v_line_count WHERE id = v_session_id;
+
+    RETURN v_session_id;
+END;
+$$;
+
+-- Expected vs counted per line; a line's count is the total of the latest pass that counted it.
+-- moved_quantity is the approved stock movement of the variant between the snapshot and the time that pass was
+-- counted, leaving out the session's own adjustments, so the variance is what the count differs from the stock
+-- on hand when it was counted. Lines not counted yet take all movement up to now.
+CREATE OR REPLACE FUNCTION get_stock_take_variances(p_session_id UUID)
+RETURNS TABLE (
+    line_id UUID,
+    product_name TEXT,
+    product_code TEXT,
+    color TEXT,
+    size TEXT,
+    category TEXT,
+    sub_category TEXT,
+    expected_quantity INTEGER,
+    moved_quantity INTEGER,
+    counted_quantity INTEGER,
+    counted_pass INTEGER,
+    variance INTEGER,
+    unit_cost NUMERIC,
+    variance_value NUMERIC,
+    added_during_count BOOLEAN
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH pass_totals AS (
+        SELECT c.line_id, c.pass_number, SUM(c.quantity)::INTEGER AS quantity, MAX(c.counted_at) AS counted_at
+        FROM stock_take_counts c
+        WHERE c.session_id = p_session_id
+        GROUP BY c.line_id, c.pass_number
+    ),
+    latest AS (
+        SELECT DISTINCT ON (pt.line_id) pt.line_id, pt.pass_number, pt.quantity, pt.counted_at
+        FROM pass_totals pt
+        ORDER BY pt.line_id, pt.pass_number DESC
+    ),
+    moved AS (
+        SELECT l.id AS line_id, COALESCE(SUM(e.quantity), 0)::INTEGER AS quantity
+        FROM stock_take_lines l
+        JOIN stock_take_sessions s ON s.id = l.session_id
+        LEFT JOIN latest ON latest.line_id = l.id
+        JOIN external_inventory_management e
+            ON e.agency_id = s.agency_id
+           AND e.product_name = l.product_name AND e.color = l.color AND e.size = l.size
+           AND e.approval_status = 'approved'
+           AND COALESCE(e.approved_at, e.created_at) > s.snapshot_at
+           AND (latest.line_id IS NULL OR COALESCE(e.approved_at, e.created_at) <= latest.counted_at)
+           AND e.transaction_id IS DISTINCT FROM 'STOCK-TAKE-' || s.id
+        WHERE l.session_id = p_session_id
+        GROUP BY l.id
+    )
+    SELECT
+        l.id,
+        l.product_name::TEXT,
+        l.product_code::TEXT,
+        l.color::TEXT,
+        l.size::TEXT,
+        l.category::TEXT,
+        l.sub_category::TEXT,
+        l.expected_quantity,
+        COALESCE(moved.quantity, 0),
+        latest.quantity,
+        latest.pass_number,
+        CASE WHEN latest.line_id IS NULL THEN NULL ELSE latest.quantity - l.expected_quantity - COALESCE(moved.quantity, 0) END,
+        l.unit_cost,
+        CASE WHEN latest.line_id IS NULL THEN NULL
+             ELSE ROUND((latest.quantity - l.expected_quantity - COALESCE(moved.quantity, 0)) * l.unit_cost, 2) END,
+        l.added_during_count
+    FROM stock_take_lines l
+    LEFT JOIN latest ON latest.line_id = l.id
+    LEFT JOIN moved ON moved.line_id = l.id
+    WHERE l.session_id = p_session_id
+    ORDER BY l.sub_category, l.product_name, l.color, l.size;
+$$;
+
+-- Post the net differences as one batch of pending adjustments.
+-- Lines never counted are skipped unless p_zero_uncounted, which treats them as counted at zero.
+CREATE OR REPLACE FUNCTION submit_stock_take(
+    p_session_id UUID,
+    p_zero_uncounted BOOLEAN DEFAULT FALSE
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_session stock_take_sessions%ROWTYPE;
+    v_user_name TEXT;
+    v_count INTEGER;
+BEGIN
+    SELECT * INTO v_session FROM stock_take_sessions WHERE id = p_session_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Stock take not found';
+    END IF;
+
+    IF v_session.status <> 'counting' THEN
+        RAISE EXCEPTION 'Stock take % has already been %', v_session.session_number, v_session.status;
+    END IF;
+
+    SELECT COALESCE(name, 'Unknown User') INTO v_user_name FROM profiles WHERE id = auth.uid();
+
+    CREATE TEMP TABLE stock_take_submission ON COMMIT DROP AS
+    SELECT
+        v.*,
+        CASE WHEN v.counted_quantity IS NULL THEN -(v.expected_quantity + v.moved_quantity) ELSE v.variance END AS net_change
+    FROM get_stock_take_variances(p_session_id) v
+    WHERE v.counted_quantity IS NOT NULL OR p_zero_uncounted;
+
+    INSERT INTO external_inventory_management (
+        product_name, product_code, color, size, category, sub_category, unit_price,
+        transaction_type, transaction_id, quantity, reference_name, agency_id,
+        user_id, user_name, notes, external_source, approval_status, requested_by, requested_by_name
+    )
+    SELECT
+        s.product_name,
+        s.product_code,
+        s.color,
+        s.size,
+        COALESCE(s.category, 'General'),
+        s.sub_category,
+        s.unit_cost,
+        'adjustment',
+        'STOCK-TAKE-' || p_session_id,
+        s.net_change,
+        'Stock Take ' || v_session.session_number || ': ' || v_session.name,
+        v_session.agency_id,
+        auth.uid(),
+        v_user_name,
+        'Stock Take ' || v_session.session_number || '. Expected: ' || s.expected_quantity
+            || CASE WHEN s.moved_quantity <> 0 THEN ', Moved since snapshot: ' || s.moved_quantity ELSE '' END
+            || ', Counted: ' || COALESCE(s.counted_quantity, 0)
+            || CASE WHEN s.counted_quantity IS NULL THEN ' (not counted)' ELSE ' (pass ' || s.counted_pass || ')' END,
+        'stock_take',
+        'pending',
+        auth.uid(),
+        v_user_name
+    FROM stock_take_submission s
+    WHERE s.net_change <> 0;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    UPDATE stock_take_sessions SET
+        status = CASE WHEN v_count = 0 THEN 'completed' ELSE 'submitted' END,
+        adjustment_count = v_count,
+        net_variance = COALESCE((SELECT SUM(net_change) FROM stock_take_submission), 0),
+        variance_value = COALESCE((SELECT SUM(ROUND(net_change * unit_cost, 2)) FROM stock_take_submission), 0),
+        submitted_by = auth.uid(),
+        submitted_at = NOW(),
+        completed_at = CASE WHEN v_count = 0 THEN NOW() ELSE NULL END
+    WHERE id = p_session_id;
+
+    DROP TABLE stock_take_submission;
+
+    RETURN v_count;
+END;
+$$;
+
+-- Complete a submitted session once its adjustment batch has been fully approved or rejected
+CREATE OR REPLACE FUNCTION complete_reviewed_stock_takes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    UPDATE stock_take_sessions sts
+    SET status = 'completed', completed_at = NOW()
+    WHERE sts.status = 'submitted'
+      AND 'STOCK-TAKE-' || sts.id IN (
+          SELECT DISTINCT transaction_id FROM new_rows WHERE external_source = 'stock_take'
+      )
+      AND NOT EXISTS (
+          SELECT 1 FROM external_inventory_management eim
+          WHERE eim.transaction_id = 'STOCK-TAKE-' || sts.id
+            AND eim.approval_status = 'pending'
+      );
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_complete_reviewed_stock_takes ON external_inventory_management;
+CREATE TRIGGER trigger_complete_reviewed_stock_takes
+    AFTER UPDATE ON external_inventory_management
+    REFERENCING NEW TABLE AS new_rows
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION complete_reviewed_stock_takes();
+
+GRANT EXECUTE ON FUNCTION start_stock_take(UUID, TEXT, TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_stock_take_variances(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_stock_take(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,90 @@
+-- Barcodes for product variants (product + color + size).
+-- Generated barcodes are EAN-13 in the 20-29 "restricted circulation" range, which is reserved for in-store
+-- numbering and never clashes with a supplier's GS1 barcode. A supplier barcode that is already printed on the
+-- garment can be stored instead; anything that is not a valid EAN-13 is printed as Code 128.
+
+CREATE SEQUENCE IF NOT EXISTS product_barcode_seq;
+
+CREATE TABLE IF NOT EXISTS product_barcodes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    color VARCHAR(100) NOT NULL DEFAULT 'Default',
+    size VARCHAR(100) NOT NULL DEFAULT 'Default',
+    barcode VARCHAR(64) NOT NULL UNIQUE,
+    symbology VARCHAR(10) NOT NULL DEFAULT 'ean13' CHECK (symbology IN ('ean13', 'code128')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (product_id, color, size)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_barcodes_product ON product_barcodes(product_id);
+
+ALTER TABLE product_barcodes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view product barcodes"
+ON product_barcodes
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Superusers can manage product barcodes"
+ON product_barcodes
+FOR ALL USING (
+    EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+) WITH CHECK (
+    EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON product_barcodes TO authenticated;
+GRANT ALL ON product_barcodes TO service_role;
+GRANT USAGE ON SEQUENCE product_barcode_seq TO service_role;
+
+-- Check digit for the first 12 digits of an EAN-13
+CREATE OR REPLACE FUNCTION ean13_check_digit(p_digits TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT (10 - SUM(SUBSTRING(p_digits FROM i FOR 1)::INTEGER * CASE WHEN i % 2 = 0 THEN 3 ELSE 1 END)::INTEGER % 10) % 10
+    FROM generate_series(1, 12) AS i;
+$$;
+
+-- Give every color/size combination of the products a barcode if it has none. Products without colors or
+-- sizes get a single 'Default' variant, matching how the ledger stores them. Returns the number created.
+CREATE OR REPLACE FUNCTION assign_product_barcodes(p_product_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_variant RECORD;
+    v_digits TEXT;
+    v_created INTEGER := 0;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    FOR v_variant IN
+        SELECT p.id AS product_id, c.color, s.size
+        FROM products p
+        CROSS JOIN LATERAL unnest(COALESCE(NULLIF(p.colors, '{}'), ARRAY['Default'])) AS c(color)
+        CROSS JOIN LATERAL unnest(COALESCE(NULLIF(p.sizes, '{}'), ARRAY['Default'])) AS s(size)
+        WHERE p.id = ANY (p_product_ids)
+          AND NOT EXISTS (
+              SELECT 1 FROM product_barcodes pb
+              WHERE pb.product_id = p.id AND pb.color = c.color AND pb.size = s.size
+          )
+        ORDER BY p.name, c.color, s.size
+    LOOP
+        v_digits := '20' || LPAD(nextval('product_barcode_seq')::TEXT, 10, '0');
+
+        INSERT INTO product_barcodes (product_id, color, size, barcode, symbology)
+        VALUES (v_variant.product_id, v_variant.color, v_variant.size, v_digits || ean13_check_digit(v_digits), 'ean13');
+
+        v_created := v_created + 1;
+    END LOOP;
+
+    RETURN v_created;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION ean13_check_digit(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION assign_product_barcodes(UUID[]) TO authenticated;
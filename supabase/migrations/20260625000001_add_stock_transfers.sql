@@ -0,0 +1,685 @@
+-- Inter-agency stock transfers.
+-- A transfer moves variants from one agency to another. Dispatch posts a 'transfer_out' row per line at the
+-- source (at the source's current unit cost) and the quantity stays in transit until the destination receives
+-- it. Receipt posts a 'transfer_in' row per line for the good quantity at the same cost; damaged and missing
+-- units are recorded on the line and never reach the destination's stock. Both sides' ledger rows carry the
+-- transfer id as transaction_id. Transfers valued above the 'stock_transfer_approval_value' setting wait for
+-- a superuser to approve them before anything is dispatched.
+
+ALTER TABLE external_inventory_management
+DROP CONSTRAINT IF EXISTS external_inventory_management_transaction_type_check;
+
+ALTER TABLE external_inventory_management
+ADD CONSTRAINT external_inventory_management_transaction_type_check CHECK (
+    transaction_type IN (
+        'external_invoice',
+        'grn',
+        'customer_return',
+        'sale',
+        'company_return',
+        'adjustment',
+        'transfer_out',     -- Stock OUT to another agency (-)
+        'transfer_in'       -- Stock IN from another agency (+)
+    )
+);
+
+INSERT INTO app_settings (key, value, description) VALUES
+('stock_transfer_approval_value', '100000', 'Transfers worth more than this at cost need superuser approval before dispatch')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS stock_transfers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transfer_number VARCHAR(50) NOT NULL,
+    from_agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+    to_agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending_approval' CHECK (
+        status IN ('pending_approval', 'in_transit', 'received', 'rejected', 'cancelled')
+    ),
+    requires_approval BOOLEAN NOT NULL DEFAULT FALSE,
+    line_count INTEGER NOT NULL DEFAULT 0,
+    total_quantity INTEGER NOT NULL DEFAULT 0,
+    total_value NUMERIC(14,2) NOT NULL DEFAULT 0,
+    received_quantity INTEGER NOT NULL DEFAULT 0,
+    damaged_quantity INTEGER NOT NULL DEFAULT 0,
+    short_quantity INTEGER NOT NULL DEFAULT 0,
+    notes TEXT,
+    receipt_notes TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_by_name VARCHAR(255),
+    reviewed_by UUID REFERENCES auth.users(id),
+    reviewed_by_name VARCHAR(255),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    rejection_reason TEXT,
+    dispatched_at TIMESTAMP WITH TIME ZONE,
+    received_by UUID REFERENCES auth.users(id),
+    received_by_name VARCHAR(255),
+    received_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (from_agency_id, transfer_number),
+    CHECK (from_agency_id <> to_agency_id)
+);
+
+CREATE TABLE IF NOT EXISTS stock_transfer_lines (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transfer_id UUID NOT NULL REFERENCES stock_transfers(id) ON DELETE CASCADE,
+    product_name VARCHAR(255) NOT NULL,
+    product_code VARCHAR(100),
+    color VARCHAR(100) NOT NULL DEFAULT 'Default',
+    size VARCHAR(100) NOT NULL DEFAULT 'Default',
+    category VARCHAR(100),
+    sub_category VARCHAR(100),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    -- Source agency's cost when the transfer was raised; the destination takes the stock in at this cost
+    unit_cost NUMERIC(14,4) NOT NULL DEFAULT 0,
+    -- Set on receipt: good units into stock, damaged units set aside, the rest never arrived
+    received_quantity INTEGER CHECK (received_quantity >= 0),
+    damaged_quantity INTEGER NOT NULL DEFAULT 0 CHECK (damaged_quantity >= 0),
+    short_quantity INTEGER NOT NULL DEFAULT 0 CHECK (short_quantity >= 0),
+    UNIQUE (transfer_id, product_name, color, size)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_from_agency ON stock_transfers(from_agency_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_to_agency ON stock_transfers(to_agency_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_status ON stock_transfers(status);
+CREATE INDEX IF NOT EXISTS idx_stock_transfer_lines_transfer ON stock_transfer_lines(transfer_id);
+
+ALTER TABLE stock_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_transfer_lines ENABLE ROW LEVEL SECURITY;
+
+-- Both agencies see the transfer; every change goes through the functions below
+CREATE POLICY "Users can view transfers to or from their agency"
+ON stock_transfers
+FOR SELECT USING (
+    from_agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR to_agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+CREATE POLICY "Users can view lines of their transfers"
+ON stock_transfer_lines
+FOR SELECT USING (transfer_id IN (SELECT id FROM stock_transfers));
+
+GRANT SELECT ON stock_transfers TO authenticated;
+GRANT SELECT ON stock_transfer_lines TO authenticated;
+GRANT ALL ON stock_transfers TO service_role;
+GRANT ALL ON stock_transfer_lines TO service_role;
+
+-- Quantity on its way to each agency, per variant
+CREATE OR REPLACE VIEW stock_in_transit
+WITH (security_invoker = true) AS
+SELECT
+    t.to_agency_id AS agency_id,
+    l.product_name,
+    l.color,
+    l.size,
+    SUM(l.quantity)::INTEGER AS quantity,
+    SUM(ROUND(l.quantity * l.unit_cost, 2))::NUMERIC(14,2) AS stock_value,
+    COUNT(DISTINCT t.id)::INTEGER AS transfer_count
+FROM stock_transfers t
+JOIN stock_transfer_lines l ON l.transfer_id = t.id
+WHERE t.status = 'in_transit'
+GROUP BY t.to_agency_id, l.product_name, l.color, l.size;
+
+GRANT SELECT ON stock_in_transit TO authenticated;
+
+-- Transfers worth more than this need approval; app_settings is not readable by agents, hence the definer
+CREATE OR REPLACE FUNCTION stock_transfer_approval_threshold()
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT COALESCE((SELECT NULLIF(value, '')::NUMERIC FROM app_settings WHERE key = 'stock_transfer_approval_value'), 0);
+$$;
+
+-- Raise if the source agency no longer holds enough of any line
+CREATE OR REPLACE FUNCTION check_stock_transfer_availability(p_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_short RECORD;
+BEGIN
+    SELECT l.product_name, l.color, l.size, COALESCE(sb.current_stock, 0) AS available
+    INTO v_short
+    FROM stock_transfer_lines l
+    JOIN stock_transfers t ON t.id = l.transfer_id
+    LEFT JOIN external_inventory_stock_balances sb
+        ON sb.agency_id = t.from_agency_id
+       AND sb.product_name = l.product_name AND sb.color = l.color AND sb.size = l.size
+    WHERE l.transfer_id = p_transfer_id
+      AND l.quantity > COALESCE(sb.current_stock, 0)
+    LIMIT 1;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'Only % of % (%, %) left to transfer', v_short.available, v_short.product_name, v_short.color, v_short.size;
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_stock_transfer_availability(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Book the transfer's stock out of the source agency and mark it in transit. Only reached through
+-- create_stock_transfer and review_stock_transfer, but checked again so a transfer can never skip approval
+-- or be dispatched twice.
+CREATE OR REPLACE FUNCTION dispatch_stock_transfer(p_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_transfer stock_transfers%ROWTYPE;
+    v_to_agency_name TEXT;
+BEGIN
+    SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Transfer not found';
+    END IF;
+
+    IF v_transfer.status <> 'pending_approval' THEN
+        RAISE EXCEPTION 'Transfer % has already been dispatched or closed', v_transfer.transfer_number;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = auth.uid() AND (agency_id = v_transfer.from_agency_id OR role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'You can only dispatch transfers out of your own agency';
+    END IF;
+
+    -- Stock may have been sold while the transfer waited for approval
+    PERFORM check_stock_transfer_availability(p_transfer_id);
+
+    SELECT name INTO v_to_agency_name FROM agencies WHERE id = v_transfer.to_agency_id;
+
+    INSERT INTO external_inventory_management (
+        product_name, product_code, color, size, category, sub_category, unit_price,
+        transaction_type, transaction_id, quantity, reference_name,
+        agency_id, user_id, user_name, transaction_date, notes,
+        external_source, external_reference, approval_status
+    )
+    SELECT
+        l.product_name,
+        l.product_code,
+        l.color,
+        l.size,
+        COALESCE(l.category, 'General'),
+        l.sub_category,
+        l.unit_cost,
+        'transfer_out',
+        p_transfer_id::TEXT,
+        -l.quantity,
+        'Transfer ' || v_transfer.transfer_number || ' to ' || COALESCE(v_to_agency_name, 'another agency'),
+        v_transfer.from_agency_id,
+        auth.uid(),
+        (SELECT name FROM profiles WHERE id = auth.uid()),
+        NOW(),
+        v_transfer.notes,
+        'transfer',
+        v_transfer.transfer_number,
+        'approved'
+    FROM stock_transfer_lines l
+    WHERE l.transfer_id = p_transfer_id;
+
+    UPDATE stock_transfers
+    SET status = 'in_transit', dispatched_at = NOW()
+    WHERE id = p_transfer_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION dispatch_stock_transfer(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Raise a transfer from the caller's agency. p_lines is an array of
+-- {product_name, product_code, color, size, category, sub_category, quantity}; repeated variants are merged.
+-- Dispatched straight away unless it is worth more than the approval threshold and the caller is not a superuser.
+CREATE OR REPLACE FUNCTION create_stock_transfer(
+    p_from_agency_id UUID,
+    p_to_agency_id UUID,
+    p_lines JSONB,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_is_superuser BOOLEAN;
+    v_transfer_id UUID;
+    v_number INTEGER;
+    v_line_count INTEGER;
+    v_total_quantity INTEGER;
+    v_total_value NUMERIC;
+BEGIN
+    v_is_superuser := EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser');
+
+    IF NOT v_is_superuser AND NOT EXISTS (
+        SELECT 1 FROM profiles WHERE id = auth.uid() AND agency_id = p_from_agency_id
+    ) THEN
+        RAISE EXCEPTION 'You can only transfer stock out of your own agency';
+    END IF;
+
+    IF p_from_agency_id = p_to_agency_id THEN
+        RAISE EXCEPTION 'Choose a different agency to transfer to';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM agencies WHERE id = p_to_agency_id) THEN
+        RAISE EXCEPTION 'Destination agency not found';
+    END IF;
+
+    IF COALESCE(jsonb_array_length(p_lines), 0) = 0 THEN
+        RAISE EXCEPTION 'Add at least one item to transfer';
+    END IF;
+
+    SELECT COUNT(*) + 1 INTO v_number FROM stock_transfers WHERE from_agency_id = p_from_agency_id;
+
+    INSERT INTO stock_transfers (
+        transfer_number, from_agency_id, to_agency_id, notes, created_by, created_by_name
+    ) VALUES (
+        'TR-' || LPAD(v_number::TEXT, 4, '0'),
+        p_from_agency_id,
+        p_to_agency_id,
+        NULLIF(TRIM(p_notes), ''),
+        auth.uid(),
+        (SELECT name FROM profiles WHERE id = auth.uid())
+    )
+    RETURNING id INTO v_transfer_id;
+
+    INSERT INTO stock_transfer_lines (
+        transfer_id, product_name, product_code, color, size, category, sub_category, quantity, unit_cost
+    )
+    SELECT
+        v_transfer_id,
+        l.product_name,
+        MAX(COALESCE(l.product_code, sb.product_code)),
+        COALESCE(NULLIF(l.color, ''), 'Default'),
+        COALESCE(NULLIF(l.size, ''), 'Default'),
+        MAX(COALESCE(l.category, sb.category)),
+        MAX(COALESCE(l.sub_category, sb.sub_category, l.category, sb.category, 'General')),
+        SUM(l.quantity),
+        MAX(COALESCE(NULLIF(v.unit_cost, 0), sb.avg_unit_price, 0))
+    FROM jsonb_to_recordset(p_lines) AS l(
+        product_name TEXT, product_code TEXT, color TEXT, size TEXT, category TEXT, sub_category TEXT, quantity INTEGER
+    )
+    LEFT JOIN external_inventory_stock_balances sb
+        ON sb.agency_id = p_from_agency_id
+       AND sb.product_name = l.product_name
+       AND sb.color = COALESCE(NULLIF(l.color, ''), 'Default')
+       AND sb.size = COALESCE(NULLIF(l.size, ''), 'Default')
+    LEFT JOIN get_inventory_valuation(p_from_agency_id) v
+        ON v.product_name = sb.product_name AND v.color = sb.color AND v.size = sb.size
+    WHERE COALESCE(l.quantity, 0) > 0
+    GROUP BY l.product_name, COALESCE(NULLIF(l.color, ''), 'Default'), COALESCE(NULLIF(l.size, ''), 'Default');
+
+    SELECT COUNT(*), COALESCE(SUM(quantity), 0), COALESCE(SUM(ROUND(quantity * unit_cost, 2)), 0)
+    INTO v_line_count, v_total_quantity, v_total_value
+    FROM stock_transfer_lines
+    WHERE transfer_id = v_transfer_id;
+
+    IF v_line_count = 0 THEN
+        RAISE EXCEPTION 'Add at least one item to transfer';
+    END IF;
+
+    PERFORM check_stock_transfer_availability(v_transfer_id);
+
+    UPDATE stock_transfers
+    SET line_count = v_line_count,
+        total_quantity = v_total_quantity,
+        total_value = v_total_value,
+        requires_approval = NOT v_is_superuser AND v_total_value > stock_transfer_approval_threshold()
+    WHERE id = v_transfer_id;
+
+    IF v_is_superuser OR v_total_value <= stock_transfer_approval_threshold() THEN
+        PERFORM dispatch_stock_transfer(v_transfer_id);
+    END IF;
+
+    RETURN v_transfer_id;
+END;
+$$;
+
+-- Approve (dispatch) or reject a transfer waiting for approval. Superusers only.
+CREATE OR REPLACE FUNCTION review_stock_transfer(
+    p_transfer_id UUID,
+    p_approve BOOLEAN,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_transfer stock_transfers%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser') THEN
+        RAISE EXCEPTION 'Only superusers can approve transfers';
+    END IF;
+
+    SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Transfer not found';
+    END IF;
+
+    IF v_transfer.status <> 'pending_approval' THEN
+        RAISE EXCEPTION 'Transfer % is not waiting for approval', v_transfer.transfer_number;
+    END IF;
+
+    UPDATE stock_transfers
+    SET reviewed_by = auth.uid(),
+        reviewed_by_name = (SELECT name FROM profiles WHERE id = auth.uid()),
+        reviewed_at = NOW(),
+        rejection_reason = CASE WHEN p_approve THEN NULL ELSE NULLIF(TRIM(p_reason), '') END,
+        status = CASE WHEN p_approve THEN status ELSE 'rejected' END
+    WHERE id = p_transfer_id;
+
+    IF p_approve THEN
+        PERFORM dispatch_stock_transfer(p_transfer_id);
+    END IF;
+END;
+$$;
+
+-- Withdraw a transfer before it is dispatched
+CREATE OR REPLACE FUNCTION cancel_stock_transfer(p_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_transfer stock_transfers%ROWTYPE;
+BEGIN
+    SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT (
+        v_transfer.from_agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+        OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'Transfer not found';
+    END IF;
+
+    IF v_transfer.status <> 'pending_approval' THEN
+        RAISE EXCEPTION 'Transfer % has already been dispatched', v_transfer.transfer_number;
+    END IF;
+
+    UPDATE stock_transfers SET status = 'cancelled' WHERE id = p_transfer_id;
+END;
+$$;
+
+-- Receive a transfer at the destination. p_lines is an array of {line_id, received_quantity, damaged_quantity}
+-- for lines that did not arrive in full; lines left out are received as dispatched.
+CREATE OR REPLACE FUNCTION receive_stock_transfer(
+    p_transfer_id UUID,
+    p_lines JSONB DEFAULT '[]',
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_transfer stock_transfers%ROWTYPE;
+    v_from_agency_name TEXT;
+    v_line RECORD;
+BEGIN
+    SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT (
+        v_transfer.to_agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+        OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'Transfer not found';
+    END IF;
+
+    IF v_transfer.status <> 'in_transit' THEN
+        RAISE EXCEPTION 'Transfer % is not in transit', v_transfer.transfer_number;
+    END IF;
+
+    FOR v_line IN
+        SELECT
+            l.id, l.product_name, l.color, l.size, l.quantity,
+            COALESCE(r.damaged_quantity, 0) AS damaged_quantity,
+            COALESCE(r.received_quantity, l.quantity - COALESCE(r.damaged_quantity, 0)) AS received_quantity
+        FROM stock_transfer_lines l
+        LEFT JOIN jsonb_to_recordset(COALESCE(p_lines, '[]')) AS r(line_id UUID, received_quantity INTEGER, damaged_quantity INTEGER)
+            ON r.line_id = l.id
+        WHERE l.transfer_id = p_transfer_id
+    LOOP
+        IF v_line.received_quantity < 0 OR v_line.damaged_quantity < 0
+           OR v_line.received_quantity + v_line.damaged_quantity > v_line.quantity THEN
+            RAISE EXCEPTION 'Received and damaged quantities of % (%, %) must add up to at most %',
+                v_line.product_name, v_line.color, v_line.size, v_line.quantity;
+        END IF;
+
+        UPDATE stock_transfer_lines
+        SET received_quantity = v_line.received_quantity,
+            damaged_quantity = v_line.damaged_quantity,
+            short_quantity = v_line.quantity - v_line.received_quantity - v_line.damaged_quantity
+        WHERE id = v_line.id;
+    END LOOP;
+
+    SELECT name INTO v_from_agency_name FROM agencies WHERE id = v_transfer.from_agency_id;
+
+    INSERT INTO external_inventory_management (
+        product_name, product_code, color, size, category, sub_category, unit_price,
+        transaction_type, transaction_id, quantity, reference_name,
+        agency_id, user_id, user_name, transaction_date, notes,
+        external_source, external_reference, approval_status
+    )
+    SELECT
+        l.product_name,
+        l.product_code,
+        l.color,
+        l.size,
+        COALESCE(l.category, 'General'),
+        l.sub_category,
+        l.unit_cost,
+        'transfer_in',
+        p_transfer_id::TEXT,
+        l.received_quantity,
+        'Transfer ' || v_transfer.transfer_number || ' from ' || COALESCE(v_from_agency_name, 'another agency'),
+        v_transfer.to_agency_id,
+        auth.uid(),
+        (SELECT name FROM profiles WHERE id = auth.uid()),
+        NOW(),
+        'Transfer ' || v_transfer.transfer_number || '. Dispatched: ' || l.quantity
+            || CASE WHEN l.damaged_quantity > 0 THEN ', Damaged: ' || l.damaged_quantity ELSE '' END
+            || CASE WHEN l.short_quantity > 0 THEN ', Short: ' || l.short_quantity ELSE '' END,
+        'transfer',
+        v_transfer.transfer_number,
+        'approved'
+    FROM stock_transfer_lines l
+    WHERE l.transfer_id = p_transfer_id
+      AND l.received_quantity > 0;
+
+    UPDATE stock_transfers t
+    SET status = 'received',
+        received_quantity = totals.received_quantity,
+        damaged_quantity = totals.damaged_quantity,
+        short_quantity = totals.short_quantity,
+        receipt_notes = NULLIF(TRIM(p_notes), ''),
+        received_by = auth.uid(),
+        received_by_name = (SELECT name FROM profiles WHERE id = auth.uid()),
+        received_at = NOW()
+    FROM (
+        SELECT
+            COALESCE(SUM(received_quantity), 0)::INTEGER AS received_quantity,
+            COALESCE(SUM(damaged_quantity), 0)::INTEGER AS damaged_quantity,
+            COALESCE(SUM(short_quantity), 0)::INTEGER AS short_quantity
+        FROM stock_transfer_lines
+        WHERE transfer_id = p_transfer_id
+    ) totals
+    WHERE t.id = p_transfer_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION stock_transfer_approval_threshold() TO authenticated;
+GRANT EXECUTE ON FUNCTION create_stock_transfer(UUID, UUID, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION review_stock_transfer(UUID, BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_stock_transfer(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION receive_stock_transfer(UUID, JSONB, TEXT) TO authenticated;
+
+-- Transfers come in at the source's cost, like a GRN at its purchase price
+CREATE OR REPLACE FUNCTION rebuild_inventory_variant_costs(
+    p_agency_id UUID,
+    p_product_name TEXT,
+    p_color TEXT,
+    p_size TEXT
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_method TEXT;
+    v_row RECORD;
+    v_sequence INTEGER := 0;
+    v_quantity INTEGER := 0;
+    v_value NUMERIC := 0;
+    -- FIFO layers, oldest first; v_head is the oldest layer with stock left
+    v_layer_quantity INTEGER[] := '{}';
+    v_layer_cost NUMERIC[] := '{}';
+    v_head INTEGER := 1;
+    v_unit_cost NUMERIC;
+    v_total NUMERIC;
+    v_last_cost NUMERIC := 0;
+    v_remaining INTEGER;
+    v_take INTEGER;
+    v_shortage INTEGER;
+BEGIN
+    SELECT COALESCE(cost_method, 'weighted_average') INTO v_method FROM agencies WHERE id = p_agency_id;
+    v_method := COALESCE(v_method, 'weighted_average');
+
+    DELETE FROM inventory_cost_movements
+    WHERE agency_id = p_agency_id AND product_name = p_product_name AND color = p_color AND size = p_size;
+
+    FOR v_row IN
+        SELECT e.id, e.category, e.sub_category, e.transaction_type, e.transaction_id, e.transaction_date, e.quantity, e.unit_price
+        FROM external_inventory_management e
+        WHERE e.agency_id = p_agency_id
+          AND e.product_name = p_product_name
+          AND e.color = p_color
+          AND e.size = p_size
+          AND e.approval_status = 'approved'
+          AND e.quantity <> 0
+        ORDER BY e.transaction_date, e.created_at, e.id
+    LOOP
+        v_sequence := v_sequence + 1;
+
+        IF v_row.quantity > 0 THEN
+            IF v_row.transaction_type IN ('grn', 'external_invoice', 'adjustment', 'transfer_in') AND COALESCE(v_row.unit_price, 0) > 0 THEN
+                v_unit_cost := v_row.unit_price;
+            ELSIF v_method = 'weighted_average' AND v_quantity > 0 THEN
+                v_unit_cost := v_value / v_quantity;
+            ELSE
+                v_unit_cost := v_last_cost;
+            END IF;
+
+            v_total := ROUND(v_row.quantity * v_unit_cost, 2);
+
+            IF v_method = 'fifo' THEN
+                -- Stock issued while the variant was short is covered first; only the rest becomes a layer
+                v_shortage := LEAST(v_row.quantity, GREATEST(-v_quantity, 0));
+                IF v_row.quantity > v_shortage THEN
+                    v_layer_quantity := v_layer_quantity || (v_row.quantity - v_shortage);
+                    v_layer_cost := v_layer_cost || v_unit_cost;
+                END IF;
+            END IF;
+
+            v_quantity := v_quantity + v_row.quantity;
+            v_value := v_value + v_total;
+        ELSE
+            v_remaining := -v_row.quantity;
+
+            IF v_method = 'fifo' THEN
+                v_total := 0;
+                WHILE v_remaining > 0 AND v_head <= COALESCE(array_length(v_layer_quantity, 1), 0) LOOP
+                    v_take := LEAST(v_remaining, v_layer_quantity[v_head]);
+                    v_total := v_total + v_take * v_layer_cost[v_head];
+                    v_layer_quantity[v_head] := v_layer_quantity[v_head] - v_take;
+                    v_remaining := v_remaining - v_take;
+                    IF v_layer_quantity[v_head] = 0 THEN
+                        v_head := v_head + 1;
+                    END IF;
+                END LOOP;
+                -- Issued beyond the stock on hand: cost at the latest known cost
+                v_total := v_total + v_remaining * v_last_cost;
+                v_unit_cost := v_total / -v_row.quantity;
+            ELSE
+                v_unit_cost := CASE WHEN v_quantity > 0 THEN v_value / v_quantity ELSE v_last_cost END;
+                v_total := -v_row.quantity * v_unit_cost;
+            END IF;
+
+            v_total := -ROUND(v_total, 2);
+            v_quantity := v_quantity + v_row.quantity;
+            v_value := v_value + v_total;
+        END IF;
+
+        IF v_method = 'fifo' THEN
+            SELECT COALESCE(SUM(layer.quantity * layer.cost), 0) INTO v_value
+            FROM unnest(v_layer_quantity[v_head:], v_layer_cost[v_head:]) AS layer(quantity, cost);
+            v_value := v_value + LEAST(v_quantity, 0) * v_unit_cost;
+        ELSIF v_quantity <= 0 THEN
+            -- Nothing left to average over; drop rounding residue and value any shortage at the latest cost
+            v_value := v_quantity * v_unit_cost;
+        END IF;
+
+        v_last_cost := v_unit_cost;
+
+        INSERT INTO inventory_cost_movements (
+            ledger_id, agency_id, product_name, color, size, category, sub_category,
+            transaction_type, transaction_id, transaction_date, sequence, quantity,
+            unit_cost, total_cost, balance_quantity, balance_value, cost_method
+        ) VALUES (
+            v_row.id, p_agency_id, p_product_name, p_color, p_size, v_row.category, v_row.sub_category,
+            v_row.transaction_type, v_row.transaction_id, v_row.transaction_date, v_sequence, v_row.quantity,
+            ROUND(v_unit_cost, 4), v_total, v_quantity, ROUND(v_value, 2), v_method
+        );
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION rebuild_inventory_variant_costs(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- A transfer arriving counts as new stock for backorder prompts
+CREATE OR REPLACE FUNCTION get_fillable_backorders(p_agency_id UUID)
+RETURNS TABLE (
+    sales_order_item_id UUID,
+    sales_order_id UUID,
+    order_number TEXT,
+    customer_id UUID,
+    customer_name TEXT,
+    product_name TEXT,
+    color TEXT,
+    size TEXT,
+    outstanding_quantity INTEGER,
+    available_quantity INTEGER,
+    received_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH stock AS (
+        SELECT e.product_name, e.color, e.size,
+               SUM(e.quantity) AS on_hand,
+               MAX(e.transaction_date) FILTER (
+                   WHERE e.transaction_type IN ('grn', 'external_invoice', 'transfer_in') AND e.quantity > 0
+               ) AS received_at
+        FROM external_inventory_management e
+        WHERE e.agency_id = p_agency_id AND e.approval_status = 'approved'
+        GROUP BY e.product_name, e.color, e.size
+    )
+    SELECT DISTINCT ON (b.sales_order_item_id)
+           b.sales_order_item_id, b.sales_order_id, b.order_number::TEXT, b.customer_id, b.customer_name::TEXT,
+           b.product_name::TEXT, b.color::TEXT, b.size::TEXT, b.outstanding_quantity,
+           LEAST(b.outstanding_quantity, s.on_hand)::INTEGER, s.received_at
+    FROM sales_order_backorders b
+    LEFT JOIN products p ON p.id::TEXT = b.product_id::TEXT
+    -- Stock rows use the product description ("[CODE] NAME") or the plain name, and 'Default' for blank variants
+    JOIN stock s ON s.product_name IN (b.product_name, p.description)
+                AND s.color = COALESCE(NULLIF(b.color, ''), 'Default')
+                AND s.size = COALESCE(NULLIF(b.size, ''), 'Default')
+    WHERE b.agency_id = p_agency_id
+      AND s.on_hand > 0
+      AND s.received_at > b.ordered_at
+    ORDER BY b.sales_order_item_id, s.on_hand DESC;
+$$;
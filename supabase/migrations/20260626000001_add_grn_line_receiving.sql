@@ -0,0 +1,277 @@
+-- GRN line-level receiving with discrepancy claims.
+-- The agency records, per GRN item, the good quantity received and the quantity that arrived damaged; the
+-- rest is short. Only the good quantity is posted to external_inventory_management as 'grn' stock. A GRN that
+-- did not arrive in full becomes 'partially_accepted' and raises a discrepancy claim for head office, which
+-- resolves it with a credit note or by sending a replacement GRN for the missing and damaged pieces.
+
+ALTER TYPE grn_status ADD VALUE IF NOT EXISTS 'partially_accepted';
+
+ALTER TABLE grn_items
+    ADD COLUMN IF NOT EXISTS received_quantity INTEGER CHECK (received_quantity >= 0),
+    ADD COLUMN IF NOT EXISTS damaged_quantity INTEGER NOT NULL DEFAULT 0 CHECK (damaged_quantity >= 0),
+    ADD COLUMN IF NOT EXISTS short_quantity INTEGER NOT NULL DEFAULT 0 CHECK (short_quantity >= 0),
+    ADD COLUMN IF NOT EXISTS condition_notes TEXT;
+
+CREATE TABLE IF NOT EXISTS grn_discrepancy_claims (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    claim_number VARCHAR(50) NOT NULL,
+    grn_id UUID NOT NULL REFERENCES grns(id) ON DELETE CASCADE,
+    agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+    short_quantity INTEGER NOT NULL DEFAULT 0,
+    damaged_quantity INTEGER NOT NULL DEFAULT 0,
+    -- Short and damaged pieces at the GRN unit price
+    claim_value NUMERIC(14,2) NOT NULL DEFAULT 0,
+    notes TEXT,
+    resolution VARCHAR(20) CHECK (resolution IN ('credit_note', 'replacement', 'dismissed')),
+    -- Credit note number, or the id of the replacement GRN
+    resolution_reference VARCHAR(255),
+    resolution_notes TEXT,
+    replacement_grn_id UUID REFERENCES grns(id) ON DELETE SET NULL,
+    raised_by UUID REFERENCES auth.users(id),
+    raised_by_name VARCHAR(255),
+    resolved_by UUID REFERENCES auth.users(id),
+    resolved_by_name VARCHAR(255),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (agency_id, claim_number),
+    UNIQUE (grn_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_grn_discrepancy_claims_agency ON grn_discrepancy_claims(agency_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_grn_discrepancy_claims_status ON grn_discrepancy_claims(status);
+
+ALTER TABLE grn_discrepancy_claims ENABLE ROW LEVEL SECURITY;
+
+-- Claims are raised and resolved through the functions below
+CREATE POLICY "Users can view discrepancy claims for their agency"
+ON grn_discrepancy_claims
+FOR SELECT USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+GRANT SELECT ON grn_discrepancy_claims TO authenticated;
+GRANT ALL ON grn_discrepancy_claims TO service_role;
+
+-- Receive a pending GRN. p_lines is an array of {item_id, received_quantity, damaged_quantity, condition_notes}
+-- for items that did not arrive in full; items left out are received as invoiced. Returns the discrepancy
+-- claim raised for the shortfall, or NULL when everything arrived in good condition.
+CREATE OR REPLACE FUNCTION receive_grn(
+    p_grn_id UUID,
+    p_lines JSONB DEFAULT '[]',
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_grn grns%ROWTYPE;
+    v_line RECORD;
+    v_short INTEGER;
+    v_damaged INTEGER;
+    v_value NUMERIC;
+    v_number INTEGER;
+    v_claim_id UUID;
+BEGIN
+    SELECT * INTO v_grn FROM grns WHERE id = p_grn_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT (
+        v_grn.agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+        OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'GRN not found';
+    END IF;
+
+    IF v_grn.status IS DISTINCT FROM 'pending' THEN
+        RAISE EXCEPTION 'GRN has already been %', v_grn.status;
+    END IF;
+
+    FOR v_line IN
+        SELECT
+            gi.id, gi.product_name, gi.color, gi.size, gi.quantity,
+            COALESCE(r.damaged_quantity, 0) AS damaged_quantity,
+            COALESCE(r.received_quantity, gi.quantity - COALESCE(r.damaged_quantity, 0)) AS received_quantity,
+            NULLIF(TRIM(r.condition_notes), '') AS condition_notes
+        FROM grn_items gi
+        LEFT JOIN jsonb_to_recordset(COALESCE(p_lines, '[]'))
+            AS r(item_id UUID, received_quantity INTEGER, damaged_quantity INTEGER, condition_notes TEXT)
+            ON r.item_id = gi.id
+        WHERE gi.grn_id = p_grn_id
+    LOOP
+        IF v_line.received_quantity < 0 OR v_line.damaged_quantity < 0
+           OR v_line.received_quantity + v_line.damaged_quantity > v_line.quantity THEN
+            RAISE EXCEPTION 'Received and damaged quantities of % (%, %) must add up to at most %',
+                v_line.product_name, v_line.color, v_line.size, v_line.quantity;
+        END IF;
+
+        UPDATE grn_items
+        SET received_quantity = v_line.received_quantity,
+            damaged_quantity = v_line.damaged_quantity,
+            short_quantity = v_line.quantity - v_line.received_quantity - v_line.damaged_quantity,
+            condition_notes = v_line.condition_notes
+        WHERE id = v_line.id;
+    END LOOP;
+
+    INSERT INTO external_inventory_management (
+        product_name, color, size, category, sub_category, unit_price,
+        transaction_type, transaction_id, quantity, reference_name,
+        agency_id, user_id, user_name, transaction_date, notes,
+        external_source, approval_status, matched_product_id
+    )
+    SELECT
+        gi.product_name,
+        COALESCE(NULLIF(gi.color, ''), 'Default'),
+        COALESCE(NULLIF(gi.size, ''), 'Default'),
+        COALESCE(p.category, 'General'),
+        p.sub_category,
+        gi.unit_price,
+        'grn',
+        p_grn_id::TEXT,
+        gi.received_quantity,
+        'GRN ' || v_grn.invoice_file_name,
+        v_grn.agency_id,
+        auth.uid(),
+        (SELECT name FROM profiles WHERE id = auth.uid()),
+        NOW(),
+        CASE WHEN gi.received_quantity < gi.quantity
+            THEN 'Invoiced: ' || gi.quantity
+                 || CASE WHEN gi.damaged_quantity > 0 THEN ', Damaged: ' || gi.damaged_quantity ELSE '' END
+                 || CASE WHEN gi.short_quantity > 0 THEN ', Short: ' || gi.short_quantity ELSE '' END
+        END,
+        'grn',
+        'approved',
+        p.id
+    FROM grn_items gi
+    LEFT JOIN LATERAL (
+        SELECT pr.id, pr.category, pr.sub_category FROM products pr WHERE pr.name = gi.product_name LIMIT 1
+    ) p ON TRUE
+    WHERE gi.grn_id = p_grn_id
+      AND gi.received_quantity > 0;
+
+    SELECT
+        COALESCE(SUM(short_quantity), 0),
+        COALESCE(SUM(damaged_quantity), 0),
+        COALESCE(SUM(ROUND((short_quantity + damaged_quantity) * unit_price, 2)), 0)
+    INTO v_short, v_damaged, v_value
+    FROM grn_items
+    WHERE grn_id = p_grn_id;
+
+    UPDATE grns
+    SET status = CASE WHEN v_short + v_damaged > 0 THEN 'partially_accepted'::grn_status ELSE 'accepted'::grn_status END,
+        processed_at = NOW(),
+        processed_by = (SELECT name FROM profiles WHERE id = auth.uid())
+    WHERE id = p_grn_id;
+
+    IF v_short + v_damaged = 0 THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT COUNT(*) + 1 INTO v_number FROM grn_discrepancy_claims WHERE agency_id = v_grn.agency_id;
+
+    INSERT INTO grn_discrepancy_claims (
+        claim_number, grn_id, agency_id, short_quantity, damaged_quantity, claim_value, notes, raised_by, raised_by_name
+    ) VALUES (
+        'CLM-' || LPAD(v_number::TEXT, 4, '0'),
+        p_grn_id,
+        v_grn.agency_id,
+        v_short,
+        v_damaged,
+        v_value,
+        NULLIF(TRIM(p_notes), ''),
+        auth.uid(),
+        (SELECT name FROM profiles WHERE id = auth.uid())
+    )
+    RETURNING id INTO v_claim_id;
+
+    RETURN v_claim_id;
+END;
+$$;
+
+-- Close a claim. 'replacement' sends a new pending GRN to the agency for the short and damaged pieces;
+-- 'credit_note' records the credit note number; 'dismissed' closes it without either. Superusers only.
+CREATE OR REPLACE FUNCTION resolve_grn_discrepancy_claim(
+    p_claim_id UUID,
+    p_resolution TEXT,
+    p_reference TEXT DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_claim grn_discrepancy_claims%ROWTYPE;
+    v_grn grns%ROWTYPE;
+    v_replacement_id UUID;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser') THEN
+        RAISE EXCEPTION 'Only superusers can resolve discrepancy claims';
+    END IF;
+
+    IF p_resolution NOT IN ('credit_note', 'replacement', 'dismissed') THEN
+        RAISE EXCEPTION 'Unknown resolution: %', p_resolution;
+    END IF;
+
+    IF p_resolution = 'credit_note' AND NULLIF(TRIM(p_reference), '') IS NULL THEN
+        RAISE EXCEPTION 'Enter the credit note number';
+    END IF;
+
+    SELECT * INTO v_claim FROM grn_discrepancy_claims WHERE id = p_claim_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Claim not found';
+    END IF;
+
+    IF v_claim.status <> 'open' THEN
+        RAISE EXCEPTION 'Claim % has already been resolved', v_claim.claim_number;
+    END IF;
+
+    IF p_resolution = 'replacement' THEN
+        SELECT * INTO v_grn FROM grns WHERE id = v_claim.grn_id;
+
+        INSERT INTO grns (invoice_id, invoice_file_name, agency_id, agency_name, total, status, uploaded_by, assigned_at)
+        VALUES (
+            v_grn.invoice_id,
+            v_grn.invoice_file_name || ' (replacement ' || v_claim.claim_number || ')',
+            v_grn.agency_id,
+            v_grn.agency_name,
+            v_claim.claim_value,
+            'pending',
+            (SELECT name FROM profiles WHERE id = auth.uid()),
+            NOW()
+        )
+        RETURNING id INTO v_replacement_id;
+
+        INSERT INTO grn_items (grn_id, product_name, color, size, quantity, unit_price, total)
+        SELECT
+            v_replacement_id,
+            gi.product_name,
+            gi.color,
+            gi.size,
+            gi.short_quantity + gi.damaged_quantity,
+            gi.unit_price,
+            ROUND((gi.short_quantity + gi.damaged_quantity) * gi.unit_price, 2)
+        FROM grn_items gi
+        WHERE gi.grn_id = v_claim.grn_id
+          AND gi.short_quantity + gi.damaged_quantity > 0;
+    END IF;
+
+    UPDATE grn_discrepancy_claims
+    SET status = 'resolved',
+        resolution = p_resolution,
+        resolution_reference = COALESCE(v_replacement_id::TEXT, NULLIF(TRIM(p_reference), '')),
+        resolution_notes = NULLIF(TRIM(p_notes), ''),
+        replacement_grn_id = v_replacement_id,
+        resolved_by = auth.uid(),
+        resolved_by_name = (SELECT name FROM profiles WHERE id = auth.uid()),
+        resolved_at = NOW()
+    WHERE id = p_claim_id;
+
+    RETURN v_replacement_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION receive_grn(UUID, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_grn_discrepancy_claim(UUID, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,799 @@
+-- Purchase order lifecycle: approval, shipments and three-way matching.
+-- Head office approves a pending order line by line; approved_quantity may be lower than the quantity ordered
+-- and lines left out of the approval are approved in full. Approved orders go out in one or more shipments, each
+-- recording the quantity dispatched per line and the Odoo invoice reference it was billed on. When a GRN or an
+-- Odoo invoice carrying that reference arrives it is linked to the shipment. Once the GRN has been received its
+-- good quantities are copied onto the shipment lines, so every PO line can be compared ordered -> approved ->
+-- shipped -> received. The order is 'delivered' when nothing more is to be shipped and every shipment has been
+-- received. Every transition is written to purchase_order_events, which feeds the status timeline.
+
+ALTER TABLE purchase_order_items
+    ADD COLUMN IF NOT EXISTS approved_quantity INTEGER CHECK (approved_quantity >= 0),
+    ADD COLUMN IF NOT EXISTS shipped_quantity INTEGER NOT NULL DEFAULT 0 CHECK (shipped_quantity >= 0),
+    ADD COLUMN IF NOT EXISTS received_quantity INTEGER NOT NULL DEFAULT 0 CHECK (received_quantity >= 0);
+
+ALTER TABLE purchase_orders
+    ADD COLUMN IF NOT EXISTS approved_total NUMERIC(14,2),
+    ADD COLUMN IF NOT EXISTS approval_notes TEXT,
+    ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES auth.users(id),
+    ADD COLUMN IF NOT EXISTS approved_by_name VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP WITH TIME ZONE,
+    -- Set once everything approved has shipped, or when head office decides not to ship the rest
+    ADD COLUMN IF NOT EXISTS shipping_closed BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+    ADD COLUMN IF NOT EXISTS cancelled_by_name VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS purchase_order_shipments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    shipment_number VARCHAR(50) NOT NULL,
+    purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+    agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+    -- Odoo invoice the shipment was billed on; GRNs and synced invoices are matched on it
+    invoice_reference VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'dispatched' CHECK (status IN ('dispatched', 'received')),
+    total_quantity INTEGER NOT NULL DEFAULT 0,
+    total_value NUMERIC(14,2) NOT NULL DEFAULT 0,
+    received_quantity INTEGER,
+    grn_id UUID REFERENCES grns(id) ON DELETE SET NULL,
+    odoo_invoice_id UUID REFERENCES odoo_invoices(id) ON DELETE SET NULL,
+    notes TEXT,
+    dispatched_by UUID REFERENCES auth.users(id),
+    dispatched_by_name VARCHAR(255),
+    dispatched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    received_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (agency_id, shipment_number)
+);
+
+CREATE TABLE IF NOT EXISTS purchase_order_shipment_lines (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    shipment_id UUID NOT NULL REFERENCES purchase_order_shipments(id) ON DELETE CASCADE,
+    purchase_order_item_id UUID NOT NULL REFERENCES purchase_order_items(id) ON DELETE CASCADE,
+    product_name VARCHAR(255) NOT NULL,
+    color VARCHAR(100) NOT NULL,
+    size VARCHAR(100) NOT NULL,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    unit_price NUMERIC(14,2) NOT NULL DEFAULT 0,
+    -- Good pieces on the matched GRN; NULL until it has been received
+    received_quantity INTEGER CHECK (received_quantity >= 0),
+    UNIQUE (shipment_id, purchase_order_item_id)
+);
+
+CREATE TABLE IF NOT EXISTS purchase_order_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+    event_type VARCHAR(20) NOT NULL CHECK (
+        event_type IN ('created', 'revised', 'approved', 'shipped', 'invoiced', 'received', 'delivered', 'cancelled')
+    ),
+    description TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_by_name VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_shipments_order ON purchase_order_shipments(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_shipments_reference ON purchase_order_shipments(agency_id, invoice_reference);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_shipments_grn ON purchase_order_shipments(grn_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_shipment_lines_shipment ON purchase_order_shipment_lines(shipment_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_events_order ON purchase_order_events(purchase_order_id, created_at);
+
+ALTER TABLE purchase_order_shipments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_shipment_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_events ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients; every change goes through the functions below
+CREATE POLICY "Users can view shipments for their agency"
+ON purchase_order_shipments
+FOR SELECT USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+CREATE POLICY "Users can view lines of their shipments"
+ON purchase_order_shipment_lines
+FOR SELECT USING (shipment_id IN (SELECT id FROM purchase_order_shipments));
+
+CREATE POLICY "Users can view events of their purchase orders"
+ON purchase_order_events
+FOR SELECT USING (purchase_order_id IN (SELECT id FROM purchase_orders));
+
+GRANT SELECT ON purchase_order_shipments TO authenticated;
+GRANT SELECT ON purchase_order_shipment_lines TO authenticated;
+GRANT SELECT ON purchase_order_events TO authenticated;
+GRANT ALL ON purchase_order_shipments TO service_role;
+GRANT ALL ON purchase_order_shipment_lines TO service_role;
+GRANT ALL ON purchase_order_events TO service_role;
+
+CREATE OR REPLACE FUNCTION log_purchase_order_event(
+    p_order_id UUID,
+    p_event_type TEXT,
+    p_description TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+    INSERT INTO purchase_order_events (purchase_order_id, event_type, description, created_by, created_by_name)
+    VALUES (p_order_id, p_event_type, p_description, auth.uid(), (SELECT name FROM profiles WHERE id = auth.uid()));
+$$;
+
+REVOKE EXECUTE ON FUNCTION log_purchase_order_event(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Orders are created and revised by the app directly, so those two events come from a trigger
+CREATE OR REPLACE FUNCTION log_purchase_order_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        PERFORM log_purchase_order_event(NEW.id, 'created', 'Order placed for LKR ' || TO_CHAR(NEW.total, 'FM999,999,999,990.00'));
+    ELSIF NEW.status = 'pending' AND NEW.total IS DISTINCT FROM OLD.total THEN
+        PERFORM log_purchase_order_event(NEW.id, 'revised', 'Order revised to LKR ' || TO_CHAR(NEW.total, 'FM999,999,999,990.00'));
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_log_purchase_order_change ON purchase_orders;
+CREATE TRIGGER trigger_log_purchase_order_change
+    AFTER INSERT OR UPDATE OF total ON purchase_orders
+    FOR EACH ROW
+    EXECUTE FUNCTION log_purchase_order_change();
+
+-- Marks a shipped order delivered once nothing more is to be shipped and every shipment has been received
+CREATE OR REPLACE FUNCTION complete_purchase_order_delivery(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    UPDATE purchase_orders po
+    SET status = 'delivered',
+        delivered_at = NOW()
+    WHERE po.id = p_order_id
+      AND po.status = 'shipped'
+      AND po.shipping_closed
+      AND NOT EXISTS (
+          SELECT 1 FROM purchase_order_shipments s
+          WHERE s.purchase_order_id = po.id AND s.status = 'dispatched'
+      );
+
+    IF FOUND THEN
+        PERFORM log_purchase_order_event(p_order_id, 'delivered', 'All shipments received');
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION complete_purchase_order_delivery(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Copies the received quantities of a shipment's GRN onto its lines once the GRN has been received.
+-- GRN items match shipment lines on product name, color and size.
+CREATE OR REPLACE FUNCTION receive_purchase_order_shipment(p_shipment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_shipment purchase_order_shipments%ROWTYPE;
+    v_received INTEGER;
+BEGIN
+    SELECT s.* INTO v_shipment
+    FROM purchase_order_shipments s
+    JOIN grns g ON g.id = s.grn_id
+    WHERE s.id = p_shipment_id
+      AND s.status = 'dispatched'
+      AND g.status IN ('accepted', 'partially_accepted')
+    FOR UPDATE OF s;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    UPDATE purchase_order_shipment_lines l
+    SET received_quantity = COALESCE((
+        SELECT SUM(COALESCE(gi.received_quantity, gi.quantity))
+        FROM grn_items gi
+        WHERE gi.grn_id = v_shipment.grn_id
+          AND gi.product_name = l.product_name
+          AND gi.color = l.color
+          AND gi.size = l.size
+    ), 0)
+    WHERE l.shipment_id = p_shipment_id;
+
+    SELECT COALESCE(SUM(received_quantity), 0) INTO v_received
+    FROM purchase_order_shipment_lines
+    WHERE shipment_id = p_shipment_id;
+
+    UPDATE purchase_order_shipments
+    SET status = 'received',
+        received_quantity = v_received,
+        received_at = NOW()
+    WHERE id = p_shipment_id;
+
+    UPDATE purchase_order_items i
+    SET received_quantity = COALESCE((
+        SELECT SUM(l.received_quantity)
+        FROM purchase_order_shipment_lines l
+        JOIN purchase_order_shipments s ON s.id = l.shipment_id
+        WHERE l.purchase_order_item_id = i.id AND s.status = 'received'
+    ), 0)
+    WHERE i.purchase_order_id = v_shipment.purchase_order_id;
+
+    PERFORM log_purchase_order_event(
+        v_shipment.purchase_order_id,
+        'received',
+        'GRN received for ' || v_shipment.shipment_number || ': ' || v_received || ' of ' || v_shipment.total_quantity || ' pcs'
+    );
+
+    PERFORM complete_purchase_order_delivery(v_shipment.purchase_order_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION receive_purchase_order_shipment(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Links the GRN and Odoo invoice carrying a shipment's invoice reference, if they have arrived
+CREATE OR REPLACE FUNCTION link_purchase_order_shipment_documents(p_shipment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_shipment purchase_order_shipments%ROWTYPE;
+    v_grn_id UUID;
+    v_invoice odoo_invoices%ROWTYPE;
+BEGIN
+    SELECT * INTO v_shipment FROM purchase_order_shipments WHERE id = p_shipment_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    IF v_shipment.grn_id IS NULL THEN
+        SELECT g.id INTO v_grn_id
+        FROM grns g
+        WHERE g.agency_id = v_shipment.agency_id
+          AND v_shipment.invoice_reference IN (g.invoice_id, g.invoice_file_name)
+          AND NOT EXISTS (SELECT 1 FROM purchase_order_shipments s WHERE s.grn_id = g.id)
+        ORDER BY g.created_at
+        LIMIT 1;
+
+        IF v_grn_id IS NOT NULL THEN
+            UPDATE purchase_order_shipments SET grn_id = v_grn_id WHERE id = p_shipment_id;
+        END IF;
+    END IF;
+
+    IF v_shipment.odoo_invoice_id IS NULL THEN
+        SELECT * INTO v_invoice
+        FROM odoo_invoices
+        WHERE agency_id = v_shipment.agency_id
+          AND v_shipment.invoice_reference IN (odoo_name, reference)
+        ORDER BY created_at
+        LIMIT 1;
+
+        IF FOUND THEN
+            UPDATE purchase_order_shipments SET odoo_invoice_id = v_invoice.id WHERE id = p_shipment_id;
+
+            PERFORM log_purchase_order_event(
+                v_shipment.purchase_order_id,
+                'invoiced',
+                'Odoo invoice ' || v_invoice.odoo_name || ' matched to ' || v_shipment.shipment_number
+                    || ': LKR ' || TO_CHAR(v_invoice.amount_total, 'FM999,999,999,990.00')
+            );
+        END IF;
+    END IF;
+
+    PERFORM receive_purchase_order_shipment(p_shipment_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION link_purchase_order_shipment_documents(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION match_grn_to_purchase_order_shipments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_shipment_id UUID;
+BEGIN
+    FOR v_shipment_id IN
+        SELECT id FROM purchase_order_shipments
+        WHERE agency_id = NEW.agency_id
+          AND status = 'dispatched'
+          AND (grn_id = NEW.id OR (grn_id IS NULL AND invoice_reference IN (NEW.invoice_id, NEW.invoice_file_name)))
+    LOOP
+        PERFORM link_purchase_order_shipment_documents(v_shipment_id);
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_match_grn_to_purchase_order_shipments ON grns;
+CREATE TRIGGER trigger_match_grn_to_purchase_order_shipments
+    AFTER INSERT OR UPDATE OF status ON grns
+    FOR EACH ROW
+    EXECUTE FUNCTION match_grn_to_purchase_order_shipments();
+
+CREATE OR REPLACE FUNCTION match_odoo_invoice_to_purchase_order_shipments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_shipment_id UUID;
+BEGIN
+    FOR v_shipment_id IN
+        SELECT id FROM purchase_order_shipments
+        WHERE agency_id = NEW.agency_id
+          AND odoo_invoice_id IS NULL
+          AND invoice_reference IN (NEW.odoo_name, NEW.reference)
+    LOOP
+        PERFORM link_purchase_order_shipment_documents(v_shipment_id);
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_match_odoo_invoice_to_purchase_order_shipments ON odoo_invoices;
+CREATE TRIGGER trigger_match_odoo_invoice_to_purchase_order_shipments
+    AFTER INSERT OR UPDATE OF odoo_name, reference ON odoo_invoices
+    FOR EACH ROW
+    EXECUTE FUNCTION match_odoo_invoice_to_purchase_order_shipments();
+
+-- Approve a pending order. p_lines is an array of {item_id, approved_quantity} for lines approved below the
+-- quantity ordered; lines left out are approved in full.
+CREATE OR REPLACE FUNCTION approve_purchase_order(
+    p_order_id UUID,
+    p_lines JSONB DEFAULT '[]',
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_order purchase_orders%ROWTYPE;
+    v_line JSONB;
+    v_item purchase_order_items%ROWTYPE;
+    v_approved INTEGER;
+    v_units INTEGER;
+    v_ordered_units INTEGER;
+    v_total NUMERIC;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser') THEN
+        RAISE EXCEPTION 'Only superusers can approve purchase orders';
+    END IF;
+
+    SELECT * INTO v_order FROM purchase_orders WHERE id = p_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+
+    IF v_order.status IS DISTINCT FROM 'pending' THEN
+        RAISE EXCEPTION 'Purchase order is not waiting for approval';
+    END IF;
+
+    UPDATE purchase_order_items SET approved_quantity = quantity WHERE purchase_order_id = p_order_id;
+
+    FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::JSONB))
+    LOOP
+        SELECT * INTO v_item
+        FROM purchase_order_items
+        WHERE id = (v_line->>'item_id')::UUID AND purchase_order_id = p_order_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Line % is not on this order', v_line->>'item_id';
+        END IF;
+
+        v_approved := COALESCE((v_line->>'approved_quantity')::INTEGER, v_item.quantity);
+
+        IF v_approved < 0 OR v_approved > v_item.quantity THEN
+            RAISE EXCEPTION 'Approved quantity for % (%, %) must be between 0 and %',
+                v_item.product_name, v_item.color, v_item.size, v_item.quantity;
+        END IF;
+
+        UPDATE purchase_order_items SET approved_quantity = v_approved WHERE id = v_item.id;
+    END LOOP;
+
+    SELECT COALESCE(SUM(approved_quantity), 0), COALESCE(SUM(quantity), 0), COALESCE(SUM(approved_quantity * unit_price), 0)
+    INTO v_units, v_ordered_units, v_total
+    FROM purchase_order_items
+    WHERE purchase_order_id = p_order_id;
+
+    IF v_units = 0 THEN
+        RAISE EXCEPTION 'Nothing was approved; cancel the order instead';
+    END IF;
+
+    UPDATE purchase_orders
+    SET status = 'approved',
+        approved_total = ROUND(v_total, 2),
+        approval_notes = NULLIF(TRIM(p_notes), ''),
+        approved_by = auth.uid(),
+        approved_by_name = (SELECT name FROM profiles WHERE id = auth.uid()),
+        approved_at = NOW()
+    WHERE id = p_order_id;
+
+    PERFORM log_purchase_order_event(
+        p_order_id,
+        'approved',
+        CASE WHEN v_units < v_ordered_units
+            THEN 'Partially approved: ' || v_units || ' of ' || v_ordered_units || ' pcs'
+            ELSE 'Approved: ' || v_units || ' pcs'
+        END || ', LKR ' || TO_CHAR(v_total, 'FM999,999,999,990.00')
+            || COALESCE('. ' || NULLIF(TRIM(p_notes), ''), '')
+    );
+END;
+$$;
+
+-- Agencies can withdraw their own pending orders; head office can also cancel approved orders before shipping
+CREATE OR REPLACE FUNCTION cancel_purchase_order(p_order_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_order purchase_orders%ROWTYPE;
+    v_is_superuser BOOLEAN;
+BEGIN
+    v_is_superuser := EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser');
+
+    SELECT * INTO v_order FROM purchase_orders WHERE id = p_order_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT (
+        v_is_superuser OR v_order.agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    ) THEN
+        RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+
+    IF NOT COALESCE(
+        v_order.status = 'pending' OR (v_is_superuser AND v_order.status = 'approved'),
+        FALSE
+    ) THEN
+        RAISE EXCEPTION 'Purchase order can no longer be cancelled';
+    END IF;
+
+    UPDATE purchase_orders
+    SET status = 'cancelled',
+        cancellation_reason = NULLIF(TRIM(p_reason), ''),
+        cancelled_by_name = (SELECT name FROM profiles WHERE id = auth.uid()),
+        cancelled_at = NOW()
+    WHERE id = p_order_id;
+
+    PERFORM log_purchase_order_event(p_order_id, 'cancelled', COALESCE(NULLIF(TRIM(p_reason), ''), 'Order cancelled'));
+END;
+$$;
+
+-- Dispatch part or all of an approved order. p_lines is an array of {item_id, quantity}; p_close_order stops
+-- further shipments even if some approved quantity has not been sent. Returns the shipment id.
+CREATE OR REPLACE FUNCTION create_purchase_order_shipment(
+    p_order_id UUID,
+    p_invoice_reference TEXT,
+    p_lines JSONB,
+    p_notes TEXT DEFAULT NULL,
+    p_close_order BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_order purchase_orders%ROWTYPE;
+    v_reference TEXT := NULLIF(TRIM(p_invoice_reference), '');
+    v_shipment_id UUID;
+    v_number INTEGER;
+    v_shipment_number TEXT;
+    v_line JSONB;
+    v_item purchase_order_items%ROWTYPE;
+    v_quantity INTEGER;
+    v_units INTEGER;
+    v_value NUMERIC;
+    v_closed BOOLEAN;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser') THEN
+        RAISE EXCEPTION 'Only superusers can ship purchase orders';
+    END IF;
+
+    SELECT * INTO v_order FROM purchase_orders WHERE id = p_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+
+    IF v_order.status IS NULL OR v_order.status NOT IN ('approved', 'shipped') THEN
+        RAISE EXCEPTION 'Only approved orders can be shipped';
+    END IF;
+
+    IF v_order.shipping_closed THEN
+        RAISE EXCEPTION 'Shipping has been closed on this order';
+    END IF;
+
+    IF v_reference IS NULL THEN
+        RAISE EXCEPTION 'Odoo invoice reference is required';
+    END IF;
+
+    SELECT COUNT(*) + 1 INTO v_number FROM purchase_order_shipments WHERE agency_id = v_order.agency_id;
+    v_shipment_number := 'SHP-' || LPAD(v_number::TEXT, 4, '0');
+
+    INSERT INTO purchase_order_shipments (
+        shipment_number, purchase_order_id, agency_id, invoice_reference, notes, dispatched_by, dispatched_by_name
+    ) VALUES (
+        v_shipment_number,
+        p_order_id,
+        v_order.agency_id,
+        v_reference,
+        NULLIF(TRIM(p_notes), ''),
+        auth.uid(),
+        (SELECT name FROM profiles WHERE id = auth.uid())
+    )
+    RETURNING id INTO v_shipment_id;
+
+    FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::JSONB))
+    LOOP
+        v_quantity := COALESCE((v_line->>'quantity')::INTEGER, 0);
+
+        IF v_quantity = 0 THEN
+            CONTINUE;
+        END IF;
+
+        SELECT * INTO v_item
+        FROM purchase_order_items
+        WHERE id = (v_line->>'item_id')::UUID AND purchase_order_id = p_order_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Line % is not on this order', v_line->>'item_id';
+        END IF;
+
+        IF v_quantity < 0 OR v_quantity > COALESCE(v_item.approved_quantity, v_item.quantity) - v_item.shipped_quantity THEN
+            RAISE EXCEPTION 'Only % of % (%, %) are left to ship',
+                GREATEST(COALESCE(v_item.approved_quantity, v_item.quantity) - v_item.shipped_quantity, 0),
+                v_item.product_name, v_item.color, v_item.size;
+        END IF;
+
+        INSERT INTO purchase_order_shipment_lines (
+            shipment_id, purchase_order_item_id, product_name, color, size, quantity, unit_price
+        ) VALUES (
+            v_shipment_id, v_item.id, v_item.product_name, v_item.color, v_item.size, v_quantity, v_item.unit_price
+        );
+
+        UPDATE purchase_order_items SET shipped_quantity = shipped_quantity + v_quantity WHERE id = v_item.id;
+    END LOOP;
+
+    SELECT COALESCE(SUM(quantity), 0), COALESCE(SUM(quantity * unit_price), 0)
+    INTO v_units, v_value
+    FROM purchase_order_shipment_lines
+    WHERE shipment_id = v_shipment_id;
+
+    IF v_units = 0 THEN
+        RAISE EXCEPTION 'Enter a quantity to ship for at least one line';
+    END IF;
+
+    UPDATE purchase_order_shipments
+    SET total_quantity = v_units,
+        total_value = ROUND(v_value, 2)
+    WHERE id = v_shipment_id;
+
+    v_closed := p_close_order OR NOT EXISTS (
+        SELECT 1 FROM purchase_order_items
+        WHERE purchase_order_id = p_order_id
+          AND shipped_quantity < COALESCE(approved_quantity, quantity)
+    );
+
+    UPDATE purchase_orders
+    SET status = 'shipped',
+        shipping_closed = v_closed
+    WHERE id = p_order_id;
+
+    PERFORM log_purchase_order_event(
+        p_order_id,
+        'shipped',
+        v_shipment_number || ' dispatched on invoice ' || v_reference || ': ' || v_units || ' pcs, LKR '
+            || TO_CHAR(v_value, 'FM999,999,999,990.00')
+            || CASE WHEN v_closed THEN '' ELSE '. More to follow' END
+    );
+
+    -- The GRN or invoice may already be in
+    PERFORM link_purchase_order_shipment_documents(v_shipment_id);
+
+    RETURN v_shipment_id;
+END;
+$$;
+
+-- Stop shipping the rest of an order; it is delivered once the shipments already sent have been received
+CREATE OR REPLACE FUNCTION close_purchase_order_shipping(p_order_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser') THEN
+        RAISE EXCEPTION 'Only superusers can close shipping on purchase orders';
+    END IF;
+
+    UPDATE purchase_orders
+    SET shipping_closed = TRUE
+    WHERE id = p_order_id AND status = 'shipped' AND NOT shipping_closed;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only shipped orders with quantity left to ship can be closed';
+    END IF;
+
+    PERFORM log_purchase_order_event(
+        p_order_id,
+        'shipped',
+        'No further shipments' || COALESCE(': ' || NULLIF(TRIM(p_reason), ''), '')
+    );
+
+    PERFORM complete_purchase_order_delivery(p_order_id);
+END;
+$$;
+
+-- Match a shipment to a GRN by hand when the GRN does not carry the shipment's invoice reference
+CREATE OR REPLACE FUNCTION link_purchase_order_shipment_grn(p_shipment_id UUID, p_grn_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_shipment purchase_order_shipments%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser') THEN
+        RAISE EXCEPTION 'Only superusers can match shipments';
+    END IF;
+
+    SELECT * INTO v_shipment FROM purchase_order_shipments WHERE id = p_shipment_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Shipment not found';
+    END IF;
+
+    IF v_shipment.grn_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Shipment % is already matched to a GRN', v_shipment.shipment_number;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM grns WHERE id = p_grn_id AND agency_id = v_shipment.agency_id) THEN
+        RAISE EXCEPTION 'GRN not found for this agency';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM purchase_order_shipments WHERE grn_id = p_grn_id) THEN
+        RAISE EXCEPTION 'GRN is already matched to another shipment';
+    END IF;
+
+    UPDATE purchase_order_shipments SET grn_id = p_grn_id WHERE id = p_shipment_id;
+
+    PERFORM receive_purchase_order_shipment(p_shipment_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION approve_purchase_order(UUID, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_purchase_order(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_purchase_order_shipment(UUID, TEXT, JSONB, TEXT, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION close_purchase_order_shipping(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION link_purchase_order_shipment_grn(UUID, UUID) TO authenticated;
+
+-- Start the timeline of existing orders
+INSERT INTO purchase_order_events (purchase_order_id, event_type, description, created_by, created_by_name, created_at)
+SELECT po.id, 'created', 'Order placed for LKR ' || TO_CHAR(po.total, 'FM999,999,999,990.00'), po.created_by, p.name, COALESCE(po.created_at, NOW())
+FROM purchase_orders po
+LEFT JOIN profiles p ON p.id = po.created_by
+WHERE NOT EXISTS (SELECT 1 FROM purchase_order_events e WHERE e.purchase_order_id = po.id);
+
+-- Approved orders only count what is still to arrive against the approved (or, once closed, shipped) quantity
+CREATE OR REPLACE FUNCTION get_purchase_suggestions(
+    p_agency_id UUID,
+    p_weeks INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+    product_id UUID,
+    product_name TEXT,
+    ledger_product_name TEXT,
+    color TEXT,
+    size TEXT,
+    unit_price NUMERIC,
+    current_stock INTEGER,
+    min_stock INTEGER,
+    max_stock INTEGER,
+    daily_sales NUMERIC,
+    sell_through_days NUMERIC,
+    on_order_quantity INTEGER,
+    suggested_quantity INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH velocity AS (
+        SELECT * FROM get_variant_sales_velocity(p_agency_id, p_weeks)
+    ),
+    open_order_lines AS (
+        SELECT
+            poi.product_id,
+            poi.color,
+            poi.size,
+            CASE
+                WHEN po.status = 'pending' THEN poi.quantity
+                ELSE GREATEST(
+                    CASE WHEN po.shipping_closed THEN poi.shipped_quantity ELSE COALESCE(poi.approved_quantity, poi.quantity) END
+                        - poi.received_quantity,
+                    0
+                )
+            END AS quantity
+        FROM purchase_order_items poi
+        JOIN purchase_orders po ON po.id = poi.purchase_order_id
+        WHERE po.agency_id = p_agency_id
+          AND po.status IN ('pending', 'approved', 'shipped')
+    ),
+    levels AS (
+        SELECT
+            p.id AS product_id,
+            COALESCE(p.name, rl.product_name)::TEXT AS product_name,
+            rl.product_name::TEXT AS ledger_product_name,
+            rl.color::TEXT AS color,
+            rl.size::TEXT AS size,
+            COALESCE(p.billing_price, 0)::NUMERIC AS unit_price,
+            COALESCE(sb.current_stock, 0) AS current_stock,
+            rl.min_stock,
+            rl.max_stock,
+            COALESCE(v.daily_sales, 0) AS daily_sales,
+            COALESCE((
+                SELECT SUM(ool.quantity)
+                FROM open_order_lines ool
+                WHERE ool.product_id = p.id
+                  AND (rl.color = 'Default' OR ool.color = rl.color)
+                  AND (rl.size = 'Default' OR ool.size = rl.size)
+            ), 0)::INTEGER AS on_order_quantity
+        FROM stock_reorder_levels rl
+        LEFT JOIN external_inventory_stock_balances sb
+            ON sb.agency_id = rl.agency_id
+           AND sb.product_name = rl.product_name
+           AND sb.color = rl.color
+           AND sb.size = rl.size
+        LEFT JOIN velocity v
+            ON v.product_name = rl.product_name
+           AND v.color = rl.color
+           AND v.size = rl.size
+        LEFT JOIN LATERAL (
+            SELECT pr.id, pr.name, pr.billing_price
+            FROM products pr
+            WHERE pr.description = rl.product_name OR pr.name = rl.product_name
+            ORDER BY (pr.description = rl.product_name) DESC
+            LIMIT 1
+        ) p ON TRUE
+        WHERE rl.agency_id = p_agency_id
+          AND rl.max_stock > 0
+    )
+    SELECT
+        l.product_id,
+        l.product_name,
+        l.ledger_product_name,
+        l.color,
+        l.size,
+        l.unit_price,
+        l.current_stock,
+        l.min_stock,
+        l.max_stock,
+        l.daily_sales,
+        CASE WHEN l.daily_sales > 0 THEN ROUND(GREATEST(l.current_stock, 0) / l.daily_sales, 1) END AS sell_through_days,
+        l.on_order_quantity,
+        (l.max_stock - l.current_stock - l.on_order_quantity) AS suggested_quantity
+    FROM levels l
+    WHERE l.current_stock + l.on_order_quantity <= l.min_stock
+      AND l.max_stock - l.current_stock - l.on_order_quantity > 0
+    ORDER BY sell_through_days ASC NULLS LAST, l.product_name, l.color, l.size;
+$$;
+
+INSERT INTO sms_templates (template_key, language, body) VALUES
+    ('purchase_order_approved', 'en',
+     'Dear {agency_name}, your Purchase Order {order_number} has been approved by DAG Clothing Pvt Ltd. Approved value: LKR {total}.[ Note: {notes}] We will let you know when it ships.'),
+    ('purchase_order_shipped', 'en',
+     'Dear {agency_name}, {quantity} pcs from your Purchase Order {order_number} have been dispatched on invoice {invoice_reference}. Please check them against the GRN when they arrive. - DAG Clothing Pvt Ltd'),
+    ('purchase_order_delivered', 'en',
+     'Dear Team, Purchase Order {order_number} from {agency_name} has been fully received and is now closed. - DAG Clothing Pvt Ltd'),
+    ('purchase_order_cancelled', 'en',
+     'Purchase Order {order_number} for {agency_name} has been cancelled.[ Reason: {reason}] - DAG Clothing Pvt Ltd')
+ON CONFLICT (template_key, language, agency_id) DO NOTHING;
@@ -0,0 +1,138 @@
+-- GRNs imported from Odoo invoices.
+-- Head office picks a posted Odoo invoice for the agency's partner (agencies.odoo_partner_id) and its lines
+-- become a pending GRN. Each Odoo product is mapped once to an internal product, color and size in
+-- product_mappings; later invoices reuse the mapping so lines arrive already matched. The GRN keeps the Odoo
+-- move id so an invoice can only be imported once, and carries the invoice name as its invoice_id so purchase
+-- order shipments billed on that invoice match it. PDF/OCR upload stays for suppliers outside Odoo.
+
+ALTER TABLE agencies ADD COLUMN IF NOT EXISTS odoo_partner_id INTEGER;
+
+ALTER TABLE grns
+    ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'upload' CHECK (source IN ('upload', 'odoo')),
+    ADD COLUMN IF NOT EXISTS odoo_move_id INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_grns_odoo_move_id ON grns(odoo_move_id) WHERE odoo_move_id IS NOT NULL;
+
+-- External product -> internal product variant. source says where external_key comes from
+-- ('odoo' = Odoo product.product id).
+CREATE TABLE IF NOT EXISTS product_mappings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    source VARCHAR(30) NOT NULL,
+    external_key TEXT NOT NULL,
+    external_name TEXT,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    color VARCHAR(100) NOT NULL DEFAULT 'Default',
+    size VARCHAR(100) NOT NULL DEFAULT 'Default',
+    created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (source, external_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_mappings_product ON product_mappings(product_id);
+
+ALTER TABLE product_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view product mappings"
+ON product_mappings FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Superusers can manage product mappings"
+ON product_mappings FOR ALL
+USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser'))
+WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser'));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON product_mappings TO authenticated;
+GRANT ALL ON product_mappings TO service_role;
+
+-- Create a pending GRN for an agency. p_lines is an array of {product_name, color, size, quantity, unit_price,
+-- total}; p_odoo_move_id is set for invoices imported from Odoo. Returns the GRN id.
+CREATE OR REPLACE FUNCTION create_grn(
+    p_agency_id UUID,
+    p_invoice_id TEXT,
+    p_invoice_file_name TEXT,
+    p_lines JSONB,
+    p_odoo_move_id INTEGER DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_agency_name TEXT;
+    v_grn_id UUID;
+    v_line JSONB;
+    v_count INTEGER := 0;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser') THEN
+        RAISE EXCEPTION 'Only superusers can create GRNs';
+    END IF;
+
+    SELECT name INTO v_agency_name FROM agencies WHERE id = p_agency_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Agency not found';
+    END IF;
+
+    IF NULLIF(TRIM(p_invoice_id), '') IS NULL THEN
+        RAISE EXCEPTION 'Invoice reference is required';
+    END IF;
+
+    IF p_odoo_move_id IS NOT NULL AND EXISTS (SELECT 1 FROM grns WHERE odoo_move_id = p_odoo_move_id) THEN
+        RAISE EXCEPTION 'Invoice % has already been imported as a GRN', p_invoice_id;
+    END IF;
+
+    INSERT INTO grns (
+        invoice_id, invoice_file_name, agency_id, agency_name, total, status, uploaded_by, assigned_at,
+        source, odoo_move_id
+    ) VALUES (
+        TRIM(p_invoice_id),
+        COALESCE(NULLIF(TRIM(p_invoice_file_name), ''), TRIM(p_invoice_id)),
+        p_agency_id,
+        v_agency_name,
+        0,
+        'pending',
+        auth.uid(),
+        NOW(),
+        CASE WHEN p_odoo_move_id IS NULL THEN 'upload' ELSE 'odoo' END,
+        p_odoo_move_id
+    )
+    RETURNING id INTO v_grn_id;
+
+    FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::JSONB))
+    LOOP
+        IF NULLIF(TRIM(v_line->>'product_name'), '') IS NULL THEN
+            RAISE EXCEPTION 'Every GRN line needs a product';
+        END IF;
+
+        IF COALESCE((v_line->>'quantity')::INTEGER, 0) <= 0 THEN
+            RAISE EXCEPTION 'Quantity for % must be more than zero', v_line->>'product_name';
+        END IF;
+
+        INSERT INTO grn_items (grn_id, product_name, color, size, quantity, unit_price, total)
+        VALUES (
+            v_grn_id,
+            TRIM(v_line->>'product_name'),
+            COALESCE(NULLIF(TRIM(v_line->>'color'), ''), 'Default'),
+            COALESCE(NULLIF(TRIM(v_line->>'size'), ''), 'Default'),
+            (v_line->>'quantity')::INTEGER,
+            COALESCE((v_line->>'unit_price')::NUMERIC, 0),
+            COALESCE((v_line->>'total')::NUMERIC, 0)
+        );
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    IF v_count = 0 THEN
+        RAISE EXCEPTION 'A GRN needs at least one line';
+    END IF;
+
+    UPDATE grns
+    SET total = (SELECT COALESCE(SUM(total), 0) FROM grn_items WHERE grn_id = v_grn_id)
+    WHERE id = v_grn_id;
+
+    RETURN v_grn_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_grn(UUID, TEXT, TEXT, JSONB, INTEGER) TO authenticated;
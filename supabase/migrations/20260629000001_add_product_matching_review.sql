@@ -0,0 +1,295 @@
+-- One place for external -> internal product matching.
+-- Every sync and import path (Odoo GRN import and invoice sync, the global bot sync, OCR invoices, the external
+-- inventory auto-matcher) asks match_external_products before guessing. A confirmed mapping is used as is; a
+-- rejected one means "do not guess this again". Anything else gets a guess scored here (exact name or Odoo
+-- display name in products.description, product code, contained name) and stored as a 'suggested' mapping with
+-- its confidence, so the guess lands in the review queue instead of being lost. Superusers confirm, reject or
+-- merge suggestions with review_product_mappings, which also re-links external inventory rows that carry the
+-- external name. A suggestion without a candidate is guessed again on the next lookup, and a product the
+-- inventory auto-matcher creates for one is saved on it with link_created_product_mappings.
+
+ALTER TABLE product_mappings
+    ADD COLUMN IF NOT EXISTS external_code TEXT,
+    ADD COLUMN IF NOT EXISTS external_color VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS external_size VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'confirmed'
+        CHECK (status IN ('suggested', 'confirmed', 'rejected')),
+    ADD COLUMN IF NOT EXISTS confidence NUMERIC(4,3) NOT NULL DEFAULT 1 CHECK (confidence BETWEEN 0 AND 1),
+    ADD COLUMN IF NOT EXISTS match_method VARCHAR(20) NOT NULL DEFAULT 'manual'
+        CHECK (match_method IN ('manual', 'merged', 'exact_name', 'code', 'contains', 'none', 'created')),
+    ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id),
+    ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+
+-- Mappings saved before this migration were all picked by hand; new rows start as suggestions
+ALTER TABLE product_mappings ALTER COLUMN status SET DEFAULT 'suggested';
+ALTER TABLE product_mappings ALTER COLUMN confidence SET DEFAULT 0;
+ALTER TABLE product_mappings ALTER COLUMN match_method SET DEFAULT 'none';
+
+-- A suggestion may have no candidate at all; a confirmed mapping always points at a product
+ALTER TABLE product_mappings ALTER COLUMN product_id DROP NOT NULL;
+ALTER TABLE product_mappings ADD CONSTRAINT product_mappings_confirmed_product
+    CHECK (status <> 'confirmed' OR product_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_product_mappings_status ON product_mappings(status);
+
+-- Stamp who reviewed a mapping whenever it becomes confirmed or rejected, whichever path wrote it
+CREATE OR REPLACE FUNCTION stamp_product_mapping_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    NEW.updated_at := NOW();
+    IF NEW.status IN ('confirmed', 'rejected')
+       AND (TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status OR NEW.product_id IS DISTINCT FROM OLD.product_id) THEN
+        NEW.reviewed_by := auth.uid();
+        NEW.reviewed_at := NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_product_mapping_review ON product_mappings;
+CREATE TRIGGER stamp_product_mapping_review
+BEFORE INSERT OR UPDATE ON product_mappings
+FOR EACH ROW EXECUTE FUNCTION stamp_product_mapping_review();
+
+UPDATE product_mappings SET reviewed_by = created_by, reviewed_at = updated_at WHERE reviewed_at IS NULL;
+
+-- Look up the mapping of each external product, guessing and queueing a suggestion for ones never seen before
+-- or still without a candidate. p_items is an array of {external_key, name, code, color, size}. Returns one row
+-- per item.
+CREATE OR REPLACE FUNCTION match_external_products(p_source TEXT, p_items JSONB)
+RETURNS TABLE (
+    external_key TEXT,
+    mapping_id UUID,
+    status TEXT,
+    product_id UUID,
+    product_name TEXT,
+    color TEXT,
+    size TEXT,
+    confidence NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_item JSONB;
+    v_key TEXT;
+    v_name TEXT;
+    v_code TEXT;
+    v_color TEXT;
+    v_size TEXT;
+    v_product RECORD;
+    v_confidence NUMERIC;
+    v_method TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not signed in';
+    END IF;
+
+    IF NULLIF(TRIM(p_source), '') IS NULL THEN
+        RAISE EXCEPTION 'Mapping source is required';
+    END IF;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB))
+    LOOP
+        v_key := NULLIF(TRIM(v_item->>'external_key'), '');
+        CONTINUE WHEN v_key IS NULL;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM product_mappings m
+            WHERE m.source = p_source AND m.external_key = v_key
+              AND (m.status <> 'suggested' OR m.product_id IS NOT NULL)
+        ) THEN
+            v_name := NULLIF(TRIM(v_item->>'name'), '');
+            v_code := NULLIF(TRIM(v_item->>'code'), '');
+            v_color := NULLIF(TRIM(v_item->>'color'), '');
+            v_size := NULLIF(TRIM(v_item->>'size'), '');
+            v_confidence := 0;
+            v_method := 'none';
+
+            SELECT p.id, p.colors, p.sizes INTO v_product
+            FROM products p
+            WHERE LOWER(p.name) = LOWER(v_name) OR LOWER(p.description) = LOWER(v_name)
+            ORDER BY LOWER(p.name) = LOWER(v_name) DESC
+            LIMIT 1;
+
+            IF v_product.id IS NOT NULL THEN
+                v_confidence := 1;
+                v_method := 'exact_name';
+            ELSIF v_code IS NOT NULL THEN
+                SELECT p.id, p.colors, p.sizes INTO v_product
+                FROM products p
+                WHERE LOWER(p.name) = LOWER(v_code) OR p.name ILIKE '%' || v_code || '%'
+                ORDER BY LENGTH(p.name)
+                LIMIT 1;
+
+                IF v_product.id IS NOT NULL THEN
+                    v_confidence := 0.8;
+                    v_method := 'code';
+                END IF;
+            END IF;
+
+            IF v_product.id IS NULL AND v_name IS NOT NULL THEN
+                SELECT p.id, p.colors, p.sizes INTO v_product
+                FROM products p
+                WHERE LENGTH(p.name) >= 3
+                  AND (LOWER(v_name) LIKE '%' || LOWER(p.name) || '%' OR LOWER(p.name) LIKE '%' || LOWER(v_name) || '%')
+                ORDER BY LENGTH(p.name) DESC
+                LIMIT 1;
+
+                IF v_product.id IS NOT NULL THEN
+                    v_confidence := 0.5;
+                    v_method := 'contains';
+                END IF;
+            END IF;
+
+            INSERT INTO product_mappings (
+                source, external_key, external_name, external_code, external_color, external_size,
+                product_id, color, size, status, confidence, match_method
+            ) VALUES (
+                p_source, v_key, v_name, v_code, v_color, v_size,
+                v_product.id,
+                CASE WHEN v_color = ANY(COALESCE(v_product.colors, '{}')) THEN v_color ELSE 'Default' END,
+                CASE WHEN v_size = ANY(COALESCE(v_product.sizes, '{}')) THEN v_size ELSE 'Default' END,
+                'suggested', v_confidence, v_method
+            )
+            ON CONFLICT ON CONSTRAINT product_mappings_source_external_key_key DO UPDATE
+            SET product_id = EXCLUDED.product_id,
+                color = EXCLUDED.color,
+                size = EXCLUDED.size,
+                confidence = EXCLUDED.confidence,
+                match_method = EXCLUDED.match_method
+            WHERE product_mappings.status = 'suggested' AND product_mappings.product_id IS NULL;
+        END IF;
+
+        RETURN QUERY
+        SELECT m.external_key, m.id, m.status::TEXT, m.product_id, p.name::TEXT, m.color::TEXT, m.size::TEXT, m.confidence
+        FROM product_mappings m
+        LEFT JOIN products p ON p.id = m.product_id
+        WHERE m.source = p_source AND m.external_key = v_key;
+    END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_external_products(TEXT, JSONB) TO authenticated;
+
+-- Save a product the auto-matcher created as the candidate of the suggestions it was created for, so the next
+-- lookup finds it instead of creating another. Only suggestions without a candidate are touched, and they stay
+-- suggested until a superuser confirms them in the review queue. Returns how many were saved.
+CREATE OR REPLACE FUNCTION link_created_product_mappings(p_mapping_ids UUID[], p_product_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not signed in';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM products WHERE id = p_product_id) THEN
+        RAISE EXCEPTION 'Product not found';
+    END IF;
+
+    UPDATE product_mappings
+    SET product_id = p_product_id,
+        color = 'Default',
+        size = 'Default',
+        confidence = 1,
+        match_method = 'created'
+    WHERE id = ANY(COALESCE(p_mapping_ids, '{}'))
+      AND status = 'suggested'
+      AND product_id IS NULL;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION link_created_product_mappings(UUID[], UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION link_created_product_mappings(UUID[], UUID) TO authenticated;
+
+-- Confirm, reject or merge mappings from the review queue. Confirm keeps each suggestion's candidate unless
+-- p_product_id is given; merge points every mapping at the one product variant given. Superusers only.
+CREATE OR REPLACE FUNCTION review_product_mappings(
+    p_mapping_ids UUID[],
+    p_action TEXT,
+    p_product_id UUID DEFAULT NULL,
+    p_color TEXT DEFAULT NULL,
+    p_size TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_mapping product_mappings%ROWTYPE;
+    v_product_id UUID;
+    v_count INTEGER := 0;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser') THEN
+        RAISE EXCEPTION 'Only superusers can review product mappings';
+    END IF;
+
+    IF p_action IS NULL OR p_action NOT IN ('confirm', 'reject', 'merge') THEN
+        RAISE EXCEPTION 'Unknown review action %', p_action;
+    END IF;
+
+    IF p_action = 'merge' AND p_product_id IS NULL THEN
+        RAISE EXCEPTION 'Pick the product to merge into';
+    END IF;
+
+    IF p_product_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM products WHERE id = p_product_id) THEN
+        RAISE EXCEPTION 'Product not found';
+    END IF;
+
+    FOR v_mapping IN SELECT * FROM product_mappings WHERE id = ANY(COALESCE(p_mapping_ids, '{}')) FOR UPDATE
+    LOOP
+        IF p_action = 'reject' THEN
+            UPDATE product_mappings SET status = 'rejected' WHERE id = v_mapping.id;
+
+            -- Undo links the rejected guess made
+            IF v_mapping.product_id IS NOT NULL AND v_mapping.external_name IS NOT NULL THEN
+                UPDATE external_inventory_management
+                SET matched_product_id = NULL
+                WHERE matched_product_id = v_mapping.product_id
+                  AND LOWER(product_name) = LOWER(v_mapping.external_name);
+            END IF;
+        ELSE
+            v_product_id := COALESCE(p_product_id, v_mapping.product_id);
+
+            IF v_product_id IS NULL THEN
+                RAISE EXCEPTION 'Pick a product for %', COALESCE(v_mapping.external_name, v_mapping.external_key);
+            END IF;
+
+            UPDATE product_mappings
+            SET status = 'confirmed',
+                product_id = v_product_id,
+                color = COALESCE(NULLIF(TRIM(p_color), ''), CASE WHEN p_product_id IS NULL THEN color ELSE 'Default' END),
+                size = COALESCE(NULLIF(TRIM(p_size), ''), CASE WHEN p_product_id IS NULL THEN size ELSE 'Default' END),
+                confidence = 1,
+                match_method = CASE
+                    WHEN p_action = 'merge' THEN 'merged'
+                    WHEN p_product_id IS NOT NULL AND p_product_id IS DISTINCT FROM v_mapping.product_id THEN 'manual'
+                    ELSE match_method
+                END
+            WHERE id = v_mapping.id;
+
+            IF v_mapping.external_name IS NOT NULL THEN
+                UPDATE external_inventory_management
+                SET matched_product_id = v_product_id
+                WHERE LOWER(product_name) = LOWER(v_mapping.external_name)
+                  AND (matched_product_id IS NULL OR matched_product_id = v_mapping.product_id);
+            END IF;
+        END IF;
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION review_product_mappings(UUID[], TEXT, UUID, TEXT, TEXT) TO authenticated;
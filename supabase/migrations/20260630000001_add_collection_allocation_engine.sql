@@ -0,0 +1,480 @@
+-- Collection allocation engine.
+-- A collection is spread over the customer's invoices by a strategy instead of amounts typed per invoice:
+-- 'oldest_first' (invoice date), 'due_date' (invoices.due_date) or 'specific' (listed invoices, each up to an
+-- optional amount). Whatever is left over is unapplied credit, kept per collection in customer_credits against
+-- the customer. Open credit is applied to the customer's next invoice as soon as it is created, can be applied
+-- to older invoices on request, or is paid back against a credit note reference.
+--
+-- A collection's money is its cash, cash discount and the cheques still good (pending or cleared). When a cheque
+-- is returned or held the newest allocations of its collection are reversed until the collection covers them
+-- again; reversals are negative allocation rows pointing at the row they undo, so the allocation history is an
+-- append-only audit trail and every SUM(allocated_amount) reader keeps working. When the money comes back
+-- (cleared with money, unheld, replacement cheque) the collection is re-allocated with its strategy.
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS due_date DATE;
+
+ALTER TABLE collections
+    ADD COLUMN IF NOT EXISTS allocation_strategy VARCHAR(20)
+        CHECK (allocation_strategy IN ('oldest_first', 'due_date', 'specific'));
+
+ALTER TABLE collection_allocations
+    ADD COLUMN IF NOT EXISTS allocation_type VARCHAR(20) NOT NULL DEFAULT 'payment'
+        CHECK (allocation_type IN ('payment', 'credit', 'reversal')),
+    ADD COLUMN IF NOT EXISTS reversal_of UUID REFERENCES collection_allocations(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS reason TEXT;
+
+ALTER TABLE collection_allocations DROP CONSTRAINT IF EXISTS collection_allocations_allocated_amount_check;
+ALTER TABLE collection_allocations ADD CONSTRAINT collection_allocations_amount_sign CHECK (
+    (allocation_type = 'reversal' AND allocated_amount < 0 AND reversal_of IS NOT NULL)
+    OR (allocation_type <> 'reversal' AND allocated_amount >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_collection_allocations_collection ON collection_allocations(collection_id);
+CREATE INDEX IF NOT EXISTS idx_collection_allocations_invoice ON collection_allocations(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_collection_allocations_reversal_of ON collection_allocations(reversal_of);
+
+-- Unapplied money of a collection, one row per collection that ever had some
+CREATE TABLE IF NOT EXISTS customer_credits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    collection_id UUID NOT NULL UNIQUE REFERENCES collections(id) ON DELETE CASCADE,
+    balance NUMERIC(12,2) NOT NULL DEFAULT 0,
+    refunded_amount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_credits_customer ON customer_credits(customer_id);
+
+-- Credit paid back to the customer, each against the credit note it was issued on
+CREATE TABLE IF NOT EXISTS customer_credit_refunds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    credit_id UUID NOT NULL REFERENCES customer_credits(id) ON DELETE CASCADE,
+    amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+    credit_note_reference TEXT NOT NULL,
+    notes TEXT,
+    refunded_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+    refunded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_credit_refunds_credit ON customer_credit_refunds(credit_id);
+
+ALTER TABLE customer_credits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_credit_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view customer credits for their agency"
+ON customer_credits
+FOR SELECT USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+CREATE POLICY "Users can view refunds of their customer credits"
+ON customer_credit_refunds
+FOR SELECT USING (credit_id IN (SELECT id FROM customer_credits));
+
+GRANT SELECT ON customer_credits TO authenticated;
+GRANT SELECT ON customer_credit_refunds TO authenticated;
+GRANT ALL ON customer_credits TO service_role;
+GRANT ALL ON customer_credit_refunds TO service_role;
+
+-- Due date = invoice date + the customer's payment days (customer limit, else agency default)
+CREATE OR REPLACE FUNCTION set_invoice_due_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.due_date IS NULL THEN
+        NEW.due_date := COALESCE(NEW.created_at, NOW())::DATE + COALESCE(
+            (SELECT max_overdue_days FROM customers WHERE id = NEW.customer_id),
+            (SELECT default_max_overdue_days FROM agency_credit_settings WHERE agency_id = NEW.agency_id),
+            0
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_invoice_due_date ON invoices;
+CREATE TRIGGER set_invoice_due_date
+BEFORE INSERT ON invoices
+FOR EACH ROW EXECUTE FUNCTION set_invoice_due_date();
+
+UPDATE invoices i
+SET due_date = i.created_at::DATE + COALESCE(c.max_overdue_days, s.default_max_overdue_days, 0)
+FROM customers c
+LEFT JOIN agency_credit_settings s ON s.agency_id = c.agency_id
+WHERE c.id = i.customer_id AND i.due_date IS NULL;
+
+-- What is still owed on an invoice after allocations and approved returns
+CREATE OR REPLACE FUNCTION invoice_outstanding_amount(p_invoice_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT GREATEST(0, i.total
+        - COALESCE((SELECT SUM(a.allocated_amount) FROM collection_allocations a WHERE a.invoice_id = i.id), 0)
+        - COALESCE((SELECT SUM(r.total) FROM returns r WHERE r.invoice_id = i.id AND r.status IN ('approved', 'processed')), 0))
+    FROM invoices i
+    WHERE i.id = p_invoice_id;
+$$;
+
+-- Money of a collection not allocated to an invoice or refunded; negative when a returned cheque left
+-- allocations uncovered
+CREATE OR REPLACE FUNCTION collection_unapplied_amount(p_collection_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT COALESCE(c.cash_amount, 0) + COALESCE(c.cash_discount, 0)
+        + COALESCE((
+            SELECT SUM(q.amount) FROM collection_cheques q
+            WHERE q.collection_id = c.id AND COALESCE(q.status, 'pending') IN ('pending', 'cleared')
+        ), 0)
+        - COALESCE((SELECT SUM(a.allocated_amount) FROM collection_allocations a WHERE a.collection_id = c.id), 0)
+        - COALESCE((SELECT cc.refunded_amount FROM customer_credits cc WHERE cc.collection_id = c.id), 0)
+    FROM collections c
+    WHERE c.id = p_collection_id;
+$$;
+
+-- Store the collection's unapplied amount as customer credit
+CREATE OR REPLACE FUNCTION sync_customer_credit(p_collection_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_unapplied NUMERIC;
+BEGIN
+    v_unapplied := collection_unapplied_amount(p_collection_id);
+
+    IF v_unapplied <> 0 OR EXISTS (SELECT 1 FROM customer_credits WHERE collection_id = p_collection_id) THEN
+        INSERT INTO customer_credits (agency_id, customer_id, collection_id, balance)
+        SELECT agency_id, customer_id, id, v_unapplied FROM collections WHERE id = p_collection_id
+        ON CONFLICT (collection_id) DO UPDATE SET balance = EXCLUDED.balance, updated_at = NOW();
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION sync_customer_credit(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Allocate a collection's unapplied money with a strategy. p_allocations is used by 'specific' only: an array of
+-- {invoice_id, amount}, amount optional (up to the invoice's outstanding). Returns what is left unapplied.
+CREATE OR REPLACE FUNCTION allocate_collection_amount(
+    p_collection_id UUID,
+    p_strategy TEXT,
+    p_allocations JSONB,
+    p_type TEXT,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_collection collections%ROWTYPE;
+    v_available NUMERIC;
+    v_amount NUMERIC;
+    v_item JSONB;
+    v_invoice_id UUID;
+BEGIN
+    SELECT * INTO v_collection FROM collections WHERE id = p_collection_id FOR UPDATE;
+    v_available := collection_unapplied_amount(p_collection_id);
+
+    IF p_strategy = 'specific' THEN
+        FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_allocations, '[]'::JSONB))
+        LOOP
+            EXIT WHEN v_available <= 0;
+            v_invoice_id := (v_item->>'invoice_id')::UUID;
+
+            IF NOT EXISTS (SELECT 1 FROM invoices WHERE id = v_invoice_id AND customer_id = v_collection.customer_id) THEN
+                RAISE EXCEPTION 'Invoice is not one of %''s invoices', v_collection.customer_name;
+            END IF;
+
+            v_amount := LEAST(
+                v_available,
+                invoice_outstanding_amount(v_invoice_id),
+                COALESCE((v_item->>'amount')::NUMERIC, v_available)
+            );
+
+            IF v_amount > 0 THEN
+                INSERT INTO collection_allocations (collection_id, invoice_id, allocated_amount, allocation_type, reason, allocated_by, allocated_at)
+                VALUES (p_collection_id, v_invoice_id, v_amount, p_type, p_reason, auth.uid(), NOW());
+                v_available := v_available - v_amount;
+            END IF;
+        END LOOP;
+    ELSE
+        FOR v_invoice_id IN
+            SELECT i.id FROM invoices i
+            WHERE i.customer_id = v_collection.customer_id
+            ORDER BY CASE WHEN p_strategy = 'due_date' THEN i.due_date END NULLS LAST, i.created_at, i.id
+        LOOP
+            EXIT WHEN v_available <= 0;
+            v_amount := LEAST(v_available, invoice_outstanding_amount(v_invoice_id));
+
+            IF v_amount > 0 THEN
+                INSERT INTO collection_allocations (collection_id, invoice_id, allocated_amount, allocation_type, reason, allocated_by, allocated_at)
+                VALUES (p_collection_id, v_invoice_id, v_amount, p_type, p_reason, auth.uid(), NOW());
+                v_available := v_available - v_amount;
+            END IF;
+        END LOOP;
+    END IF;
+
+    PERFORM sync_customer_credit(p_collection_id);
+    RETURN GREATEST(v_available, 0);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION allocate_collection_amount(UUID, TEXT, JSONB, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Bring a collection's allocations back in line with its money: reverse the newest allocations when it no
+-- longer covers them, re-allocate with its strategy when reversed money has come back
+CREATE OR REPLACE FUNCTION rebalance_collection(p_collection_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_strategy TEXT;
+    v_unapplied NUMERIC;
+    v_allocation RECORD;
+    v_amount NUMERIC;
+BEGIN
+    SELECT allocation_strategy INTO v_strategy FROM collections WHERE id = p_collection_id FOR UPDATE;
+
+    -- Not allocated yet: the collection is still being recorded
+    IF v_strategy IS NULL THEN
+        RETURN;
+    END IF;
+
+    v_unapplied := collection_unapplied_amount(p_collection_id);
+
+    IF v_unapplied < 0 THEN
+        FOR v_allocation IN
+            SELECT a.id, a.invoice_id,
+                   a.allocated_amount + COALESCE((SELECT SUM(r.allocated_amount) FROM collection_allocations r WHERE r.reversal_of = a.id), 0) AS remaining
+            FROM collection_allocations a
+            WHERE a.collection_id = p_collection_id AND a.allocation_type <> 'reversal'
+            ORDER BY a.allocated_at DESC, a.id DESC
+        LOOP
+            EXIT WHEN v_unapplied >= 0;
+            CONTINUE WHEN v_allocation.remaining <= 0;
+
+            v_amount := LEAST(v_allocation.remaining, -v_unapplied);
+            INSERT INTO collection_allocations (collection_id, invoice_id, allocated_amount, allocation_type, reversal_of, reason, allocated_by, allocated_at)
+            VALUES (p_collection_id, v_allocation.invoice_id, -v_amount, 'reversal', v_allocation.id, p_reason, auth.uid(), NOW());
+            v_unapplied := v_unapplied + v_amount;
+        END LOOP;
+
+        PERFORM sync_customer_credit(p_collection_id);
+    ELSIF v_unapplied > 0 AND EXISTS (
+        SELECT 1 FROM collection_allocations WHERE collection_id = p_collection_id AND allocation_type = 'reversal'
+    ) THEN
+        -- 'specific' collections go back to the invoices they were allocated to, in the original order
+        PERFORM allocate_collection_amount(
+            p_collection_id,
+            v_strategy,
+            (SELECT jsonb_agg(jsonb_build_object('invoice_id', s.invoice_id) ORDER BY s.first_allocated_at)
+             FROM (
+                SELECT invoice_id, MIN(allocated_at) AS first_allocated_at
+                FROM collection_allocations
+                WHERE collection_id = p_collection_id AND allocation_type <> 'reversal'
+                GROUP BY invoice_id
+             ) s),
+            'payment',
+            p_reason
+        );
+    ELSE
+        PERFORM sync_customer_credit(p_collection_id);
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION rebalance_collection(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION rebalance_collection_on_cheque_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    PERFORM rebalance_collection(
+        NEW.collection_id,
+        'Cheque ' || NEW.cheque_number || ' ' ||
+        CASE
+            WHEN TG_OP = 'INSERT' THEN 'received'
+            WHEN NEW.status = 'returned' THEN 'returned' || COALESCE(': ' || NULLIF(TRIM(NEW.return_reason), ''), '')
+            ELSE COALESCE(NEW.status, 'pending')
+        END
+    );
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rebalance_collection_on_cheque_change ON collection_cheques;
+CREATE TRIGGER rebalance_collection_on_cheque_change
+AFTER INSERT OR UPDATE OF status, amount ON collection_cheques
+FOR EACH ROW EXECUTE FUNCTION rebalance_collection_on_cheque_change();
+
+-- Open credit pays the customer's next invoice, oldest credit first
+CREATE OR REPLACE FUNCTION apply_customer_credit_to_new_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_collection_id UUID;
+BEGIN
+    FOR v_collection_id IN
+        SELECT collection_id FROM customer_credits
+        WHERE customer_id = NEW.customer_id AND balance > 0
+        ORDER BY created_at
+    LOOP
+        EXIT WHEN invoice_outstanding_amount(NEW.id) <= 0;
+        PERFORM allocate_collection_amount(
+            v_collection_id, 'specific', jsonb_build_array(jsonb_build_object('invoice_id', NEW.id)),
+            'credit', 'Customer credit applied to new invoice'
+        );
+    END LOOP;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_customer_credit_to_new_invoice ON invoices;
+CREATE TRIGGER apply_customer_credit_to_new_invoice
+AFTER INSERT ON invoices
+FOR EACH ROW EXECUTE FUNCTION apply_customer_credit_to_new_invoice();
+
+-- Allocate a newly recorded collection. Returns the amount kept as customer credit.
+CREATE OR REPLACE FUNCTION allocate_collection(
+    p_collection_id UUID,
+    p_strategy TEXT DEFAULT 'oldest_first',
+    p_allocations JSONB DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_collection collections%ROWTYPE;
+BEGIN
+    SELECT * INTO v_collection FROM collections WHERE id = p_collection_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Collection not found';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = auth.uid() AND (agency_id = v_collection.agency_id OR role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'You can only allocate collections of your own agency';
+    END IF;
+
+    IF p_strategy IS NULL OR p_strategy NOT IN ('oldest_first', 'due_date', 'specific') THEN
+        RAISE EXCEPTION 'Unknown allocation strategy %', p_strategy;
+    END IF;
+
+    UPDATE collections SET allocation_strategy = p_strategy WHERE id = p_collection_id;
+
+    RETURN allocate_collection_amount(p_collection_id, p_strategy, p_allocations, 'payment');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION allocate_collection(UUID, TEXT, JSONB) TO authenticated;
+
+-- Apply a customer's open credit to their outstanding invoices, oldest invoice first. Returns the amount applied.
+CREATE OR REPLACE FUNCTION apply_customer_credit(p_customer_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_credit customer_credits%ROWTYPE;
+    v_applied NUMERIC := 0;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM customers c JOIN profiles p ON p.id = auth.uid()
+        WHERE c.id = p_customer_id AND (p.agency_id = c.agency_id OR p.role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'You can only apply credit of your own agency''s customers';
+    END IF;
+
+    FOR v_credit IN
+        SELECT * FROM customer_credits
+        WHERE customer_id = p_customer_id AND balance > 0
+        ORDER BY created_at
+    LOOP
+        v_applied := v_applied + v_credit.balance
+            - allocate_collection_amount(v_credit.collection_id, 'oldest_first', NULL, 'credit', 'Customer credit applied');
+    END LOOP;
+
+    RETURN v_applied;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION apply_customer_credit(UUID) TO authenticated;
+
+-- Pay back part or all of a credit against a credit note. Returns the credit's remaining balance.
+CREATE OR REPLACE FUNCTION refund_customer_credit(
+    p_credit_id UUID,
+    p_amount NUMERIC,
+    p_credit_note_reference TEXT,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_credit customer_credits%ROWTYPE;
+BEGIN
+    SELECT * INTO v_credit FROM customer_credits WHERE id = p_credit_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer credit not found';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = auth.uid() AND (agency_id = v_credit.agency_id OR role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'You can only refund credit of your own agency''s customers';
+    END IF;
+
+    IF NULLIF(TRIM(p_credit_note_reference), '') IS NULL THEN
+        RAISE EXCEPTION 'Enter the credit note the credit is returned on';
+    END IF;
+
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'Refund amount must be greater than 0';
+    END IF;
+
+    IF p_amount > v_credit.balance THEN
+        RAISE EXCEPTION 'Only LKR % of this credit is unapplied', v_credit.balance;
+    END IF;
+
+    INSERT INTO customer_credit_refunds (credit_id, amount, credit_note_reference, notes)
+    VALUES (p_credit_id, p_amount, TRIM(p_credit_note_reference), NULLIF(TRIM(p_notes), ''));
+
+    UPDATE customer_credits SET refunded_amount = refunded_amount + p_amount WHERE id = p_credit_id;
+    PERFORM sync_customer_credit(v_credit.collection_id);
+
+    RETURN (SELECT balance FROM customer_credits WHERE id = p_credit_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION refund_customer_credit(UUID, NUMERIC, TEXT, TEXT) TO authenticated;
+
+-- Existing collections were allocated by hand to the invoices they list. Reverse what returned or held cheques
+-- no longer cover and keep advances as credit.
+UPDATE collections SET allocation_strategy = 'specific' WHERE allocation_strategy IS NULL;
+
+SELECT rebalance_collection(id, 'Cheque returned before allocation tracking')
+FROM collections
+WHERE collection_unapplied_amount(id) < 0;
+
+SELECT sync_customer_credit(id)
+FROM collections
+WHERE collection_unapplied_amount(id) > 0;
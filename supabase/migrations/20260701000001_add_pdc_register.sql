@@ -0,0 +1,252 @@
+-- Post-dated cheque register and bank deposit batches.
+-- Agencies keep their bank accounts in agency_bank_accounts. Cheques whose date has come are banked together
+-- in a deposit batch for one account (numbered DB-0001 per agency); the batch keeps the deposit slip PDF.
+-- A banked cheque waits as 'pending' with its deposit_batch_id until the bank statement comes back, when the
+-- batch is settled by clearing or returning its cheques in bulk. Returned cheques go through the usual
+-- rebalance trigger, so their allocations are reversed. Cheques the Return Cheques Lodge marked cleared on
+-- their date without any banking can still be deposited; they go back to pending until the bank confirms.
+
+CREATE TABLE IF NOT EXISTS agency_bank_accounts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+    bank_name TEXT NOT NULL,
+    branch TEXT,
+    account_name TEXT NOT NULL,
+    account_number TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (agency_id, account_number)
+);
+
+CREATE TABLE IF NOT EXISTS cheque_deposit_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+    batch_number TEXT NOT NULL,
+    bank_account_id UUID NOT NULL REFERENCES agency_bank_accounts(id),
+    deposit_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    status VARCHAR(20) NOT NULL DEFAULT 'deposited' CHECK (status IN ('deposited', 'settled')),
+    cheque_count INTEGER NOT NULL DEFAULT 0,
+    total_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+    notes TEXT,
+    slip_pdf_url TEXT,
+    created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    settled_by UUID REFERENCES auth.users(id),
+    settled_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (agency_id, batch_number)
+);
+
+ALTER TABLE collection_cheques
+    ADD COLUMN IF NOT EXISTS deposit_batch_id UUID REFERENCES cheque_deposit_batches(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS deposited_at DATE;
+
+CREATE INDEX IF NOT EXISTS idx_collection_cheques_cheque_date ON collection_cheques(cheque_date);
+CREATE INDEX IF NOT EXISTS idx_collection_cheques_deposit_batch ON collection_cheques(deposit_batch_id);
+CREATE INDEX IF NOT EXISTS idx_cheque_deposit_batches_agency ON cheque_deposit_batches(agency_id, created_at DESC);
+
+ALTER TABLE agency_bank_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cheque_deposit_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view bank accounts of their agency"
+ON agency_bank_accounts
+FOR SELECT USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+CREATE POLICY "Users can manage bank accounts of their agency"
+ON agency_bank_accounts
+FOR ALL USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+)
+WITH CHECK (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+CREATE POLICY "Users can view deposit batches of their agency"
+ON cheque_deposit_batches
+FOR SELECT USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+-- Only the slip link is written directly; everything else goes through the functions below
+CREATE POLICY "Users can attach deposit slips for their agency"
+ON cheque_deposit_batches
+FOR UPDATE USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON agency_bank_accounts TO authenticated;
+GRANT SELECT ON cheque_deposit_batches TO authenticated;
+GRANT UPDATE (slip_pdf_url) ON cheque_deposit_batches TO authenticated;
+GRANT ALL ON agency_bank_accounts TO service_role;
+GRANT ALL ON cheque_deposit_batches TO service_role;
+
+-- Bank cheques into an account of the agency. Every cheque must belong to the agency, be due by the deposit
+-- date and not be banked or settled yet. Returns the batch id.
+CREATE OR REPLACE FUNCTION create_cheque_deposit_batch(
+    p_agency_id UUID,
+    p_bank_account_id UUID,
+    p_cheque_ids UUID[],
+    p_deposit_date DATE DEFAULT CURRENT_DATE,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_cheque RECORD;
+    v_batch_id UUID;
+    v_number INTEGER;
+    v_count INTEGER := 0;
+    v_total NUMERIC := 0;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = auth.uid() AND (agency_id = p_agency_id OR role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'You can only bank cheques of your own agency';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM agency_bank_accounts WHERE id = p_bank_account_id AND agency_id = p_agency_id AND is_active
+    ) THEN
+        RAISE EXCEPTION 'Pick one of the agency''s bank accounts';
+    END IF;
+
+    IF COALESCE(array_length(p_cheque_ids, 1), 0) = 0 THEN
+        RAISE EXCEPTION 'Pick the cheques to deposit';
+    END IF;
+
+    SELECT COUNT(*) + 1 INTO v_number FROM cheque_deposit_batches WHERE agency_id = p_agency_id;
+
+    INSERT INTO cheque_deposit_batches (agency_id, batch_number, bank_account_id, deposit_date, notes)
+    VALUES (p_agency_id, 'DB-' || LPAD(v_number::TEXT, 4, '0'), p_bank_account_id, COALESCE(p_deposit_date, CURRENT_DATE), NULLIF(TRIM(p_notes), ''))
+    RETURNING id INTO v_batch_id;
+
+    FOR v_cheque IN
+        SELECT cc.id, cc.cheque_number, cc.cheque_date, cc.amount, cc.status, cc.resolution_method, cc.deposit_batch_id, col.agency_id
+        FROM collection_cheques cc
+        JOIN collections col ON col.id = cc.collection_id
+        WHERE cc.id = ANY(p_cheque_ids)
+        FOR UPDATE OF cc
+    LOOP
+        IF v_cheque.agency_id <> p_agency_id THEN
+            RAISE EXCEPTION 'Cheque % is not one of the agency''s cheques', v_cheque.cheque_number;
+        END IF;
+
+        IF v_cheque.deposit_batch_id IS NOT NULL THEN
+            RAISE EXCEPTION 'Cheque % is already banked', v_cheque.cheque_number;
+        END IF;
+
+        IF NOT (COALESCE(v_cheque.status, 'pending') = 'pending'
+                OR (v_cheque.status = 'cleared' AND v_cheque.resolution_method IS NULL)) THEN
+            RAISE EXCEPTION 'Cheque % is % and cannot be banked', v_cheque.cheque_number, v_cheque.status;
+        END IF;
+
+        IF v_cheque.cheque_date > COALESCE(p_deposit_date, CURRENT_DATE) THEN
+            RAISE EXCEPTION 'Cheque % is dated % and cannot be banked before then', v_cheque.cheque_number, v_cheque.cheque_date;
+        END IF;
+
+        UPDATE collection_cheques
+        SET deposit_batch_id = v_batch_id,
+            deposited_at = COALESCE(p_deposit_date, CURRENT_DATE),
+            status = 'pending',
+            cleared_at = NULL
+        WHERE id = v_cheque.id;
+
+        v_count := v_count + 1;
+        v_total := v_total + v_cheque.amount;
+    END LOOP;
+
+    IF v_count <> array_length(p_cheque_ids, 1) THEN
+        RAISE EXCEPTION 'Some of the picked cheques were not found';
+    END IF;
+
+    UPDATE cheque_deposit_batches SET cheque_count = v_count, total_amount = v_total WHERE id = v_batch_id;
+
+    RETURN v_batch_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_cheque_deposit_batch(UUID, UUID, UUID[], DATE, TEXT) TO authenticated;
+
+-- Record the bank's result for cheques of a batch: p_cleared_ids are cleared, p_returned_ids returned with
+-- p_return_reason, both as of p_result_date. The batch is settled once none of its cheques is waiting.
+-- Returns the number of cheques updated.
+CREATE OR REPLACE FUNCTION settle_cheque_deposit_batch(
+    p_batch_id UUID,
+    p_cleared_ids UUID[] DEFAULT '{}',
+    p_returned_ids UUID[] DEFAULT '{}',
+    p_return_reason TEXT DEFAULT NULL,
+    p_result_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_batch cheque_deposit_batches%ROWTYPE;
+    v_cleared INTEGER;
+    v_returned INTEGER;
+BEGIN
+    SELECT * INTO v_batch FROM cheque_deposit_batches WHERE id = p_batch_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Deposit batch not found';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = auth.uid() AND (agency_id = v_batch.agency_id OR role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'You can only settle deposit batches of your own agency';
+    END IF;
+
+    IF COALESCE(p_cleared_ids, '{}') && COALESCE(p_returned_ids, '{}') THEN
+        RAISE EXCEPTION 'A cheque cannot be both cleared and returned';
+    END IF;
+
+    IF COALESCE(array_length(p_returned_ids, 1), 0) > 0 AND NULLIF(TRIM(p_return_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'Enter the reason the bank returned the cheques';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM collection_cheques
+        WHERE id = ANY(COALESCE(p_cleared_ids, '{}') || COALESCE(p_returned_ids, '{}'))
+          AND (deposit_batch_id IS DISTINCT FROM p_batch_id OR COALESCE(status, 'pending') <> 'pending')
+    ) THEN
+        RAISE EXCEPTION 'Only cheques of this batch still waiting for the bank can be settled';
+    END IF;
+
+    UPDATE collection_cheques
+    SET status = 'cleared',
+        cleared_at = COALESCE(p_result_date, CURRENT_DATE)::TIMESTAMPTZ
+    WHERE id = ANY(COALESCE(p_cleared_ids, '{}'));
+    GET DIAGNOSTICS v_cleared = ROW_COUNT;
+
+    UPDATE collection_cheques
+    SET status = 'returned',
+        return_reason = TRIM(p_return_reason),
+        returned_at = COALESCE(p_result_date, CURRENT_DATE)::TIMESTAMPTZ
+    WHERE id = ANY(COALESCE(p_returned_ids, '{}'));
+    GET DIAGNOSTICS v_returned = ROW_COUNT;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM collection_cheques WHERE deposit_batch_id = p_batch_id AND COALESCE(status, 'pending') = 'pending'
+    ) THEN
+        UPDATE cheque_deposit_batches
+        SET status = 'settled', settled_by = auth.uid(), settled_at = NOW()
+        WHERE id = p_batch_id;
+    END IF;
+
+    RETURN v_cleared + v_returned;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION settle_cheque_deposit_batch(UUID, UUID[], UUID[], TEXT, DATE) TO authenticated;
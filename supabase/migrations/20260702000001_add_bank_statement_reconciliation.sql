@@ -0,0 +1,454 @@
+-- Bank statement import and reconciliation.
+-- A statement CSV is read on the client with one of the bank_statement_formats (which CSV header holds the
+-- date, description, cheque number and amounts) and its lines are stored against an agency bank account.
+-- Each bank account remembers the format it was last imported with. Lines already imported for the account
+-- are skipped, so overlapping statements can be uploaded safely.
+-- Every new line is matched automatically and the match is only proposed; nothing changes until it is
+-- confirmed:
+--   credit with a cheque number  -> clears that cheque (100 when the amount agrees, 60 when it does not)
+--   debit with a cheque number   -> returns that cheque, through the usual reversal trigger
+--   credit without a number      -> a cheque banked into this account in the last week for the same amount (70),
+--                                   else a cash collection of the same amount from the last week (80, 50 if several)
+-- Lines that stay unmatched, and banked cheques the bank has not reported, make up the unreconciled report.
+-- Cash banked for several collections at once is not split automatically; it stays unmatched for review.
+
+CREATE TABLE IF NOT EXISTS bank_statement_formats (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE,
+    bank_name TEXT NOT NULL,
+    date_column TEXT NOT NULL,
+    description_column TEXT NOT NULL,
+    reference_column TEXT,
+    cheque_number_column TEXT,
+    -- Either separate debit/credit columns or one signed amount column (negative = debit)
+    debit_column TEXT,
+    credit_column TEXT,
+    amount_column TEXT,
+    date_format VARCHAR(20) NOT NULL DEFAULT 'DD/MM/YYYY'
+        CHECK (date_format IN ('DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD', 'DD-MMM-YYYY')),
+    created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    CHECK (amount_column IS NOT NULL OR (debit_column IS NOT NULL AND credit_column IS NOT NULL))
+);
+
+ALTER TABLE agency_bank_accounts
+    ADD COLUMN IF NOT EXISTS statement_format_id UUID REFERENCES bank_statement_formats(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS bank_statement_imports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+    bank_account_id UUID NOT NULL REFERENCES agency_bank_accounts(id),
+    format_id UUID REFERENCES bank_statement_formats(id) ON DELETE SET NULL,
+    file_name TEXT NOT NULL,
+    statement_from DATE,
+    statement_to DATE,
+    line_count INTEGER NOT NULL DEFAULT 0,
+    skipped_count INTEGER NOT NULL DEFAULT 0,
+    imported_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS bank_statement_lines (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    import_id UUID NOT NULL REFERENCES bank_statement_imports(id) ON DELETE CASCADE,
+    bank_account_id UUID NOT NULL REFERENCES agency_bank_accounts(id),
+    line_number INTEGER NOT NULL,
+    transaction_date DATE NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    reference TEXT,
+    cheque_number TEXT,
+    debit NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (debit >= 0),
+    credit NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (credit >= 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'unmatched' CHECK (status IN ('unmatched', 'proposed', 'reconciled', 'ignored')),
+    match_type VARCHAR(20) CHECK (match_type IN ('cheque_cleared', 'cheque_returned', 'cash_deposit')),
+    matched_cheque_id UUID REFERENCES collection_cheques(id) ON DELETE SET NULL,
+    matched_collection_id UUID REFERENCES collections(id) ON DELETE SET NULL,
+    match_score INTEGER,
+    notes TEXT,
+    reconciled_by UUID REFERENCES auth.users(id),
+    reconciled_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_statement_imports_account ON bank_statement_imports(bank_account_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_import ON bank_statement_lines(import_id, line_number);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_account ON bank_statement_lines(bank_account_id, transaction_date);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_cheque ON bank_statement_lines(matched_cheque_id) WHERE matched_cheque_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_collection ON bank_statement_lines(matched_collection_id) WHERE matched_collection_id IS NOT NULL;
+
+ALTER TABLE bank_statement_formats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bank_statement_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bank_statement_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view bank statement formats"
+ON bank_statement_formats FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Superusers can manage bank statement formats"
+ON bank_statement_formats FOR ALL
+USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser'))
+WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser'));
+
+CREATE POLICY "Users can view bank statement imports of their agency"
+ON bank_statement_imports
+FOR SELECT USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+CREATE POLICY "Users can view bank statement lines of their agency"
+ON bank_statement_lines
+FOR SELECT USING (
+    import_id IN (SELECT id FROM bank_statement_imports)
+);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON bank_statement_formats TO authenticated;
+GRANT SELECT ON bank_statement_imports TO authenticated;
+GRANT SELECT ON bank_statement_lines TO authenticated;
+GRANT ALL ON bank_statement_formats TO service_role;
+GRANT ALL ON bank_statement_imports TO service_role;
+GRANT ALL ON bank_statement_lines TO service_role;
+
+-- Starting points for the major banks' CSV downloads; header names can be corrected from the app
+INSERT INTO bank_statement_formats (name, bank_name, date_column, description_column, reference_column, cheque_number_column, debit_column, credit_column, amount_column, date_format)
+VALUES
+    ('Bank of Ceylon', 'Bank of Ceylon', 'Txn Date', 'Description', 'Reference', 'Cheque No', 'Debit', 'Credit', NULL, 'DD/MM/YYYY'),
+    ('People''s Bank', 'People''s Bank', 'Date', 'Particulars', 'Reference', 'Cheque No', 'Withdrawals', 'Deposits', NULL, 'DD/MM/YYYY'),
+    ('Commercial Bank', 'Commercial Bank', 'Transaction Date', 'Description', 'Reference', 'Cheque No', 'Withdrawals', 'Deposits', NULL, 'DD/MM/YYYY'),
+    ('Sampath Bank', 'Sampath Bank', 'Date', 'Description', 'Reference No', 'Cheque Number', 'Debit', 'Credit', NULL, 'DD-MMM-YYYY'),
+    ('Hatton National Bank', 'Hatton National Bank', 'Value Date', 'Narration', 'Reference', 'Chq No', 'Debit', 'Credit', NULL, 'DD/MM/YYYY'),
+    ('Seylan Bank', 'Seylan Bank', 'Date', 'Description', NULL, 'Cheque No', 'Debit', 'Credit', NULL, 'DD/MM/YYYY'),
+    ('Generic (signed amount)', 'Other', 'Date', 'Description', 'Reference', 'Cheque No', NULL, NULL, 'Amount', 'YYYY-MM-DD')
+ON CONFLICT (name) DO NOTHING;
+
+-- Propose matches for the unmatched lines of an import (see the header). Returns the number of lines proposed.
+CREATE OR REPLACE FUNCTION auto_match_bank_statement(p_import_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_import bank_statement_imports%ROWTYPE;
+    v_line bank_statement_lines%ROWTYPE;
+    v_type TEXT;
+    v_cheque_id UUID;
+    v_collection_id UUID;
+    v_score INTEGER;
+    v_candidates INTEGER;
+    v_proposed INTEGER := 0;
+BEGIN
+    SELECT * INTO v_import FROM bank_statement_imports WHERE id = p_import_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Statement import not found';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = auth.uid() AND (agency_id = v_import.agency_id OR role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'You can only reconcile statements of your own agency';
+    END IF;
+
+    FOR v_line IN
+        SELECT * FROM bank_statement_lines
+        WHERE import_id = p_import_id AND status = 'unmatched'
+        ORDER BY line_number
+    LOOP
+        v_type := NULL;
+        v_cheque_id := NULL;
+        v_collection_id := NULL;
+        v_score := NULL;
+
+        IF v_line.cheque_number IS NOT NULL THEN
+            v_type := CASE WHEN v_line.debit > 0 THEN 'cheque_returned' ELSE 'cheque_cleared' END;
+
+            SELECT cc.id, CASE WHEN cc.amount = GREATEST(v_line.credit, v_line.debit) THEN 100 ELSE 60 END
+            INTO v_cheque_id, v_score
+            FROM collection_cheques cc
+            JOIN collections col ON col.id = cc.collection_id
+            LEFT JOIN cheque_deposit_batches b ON b.id = cc.deposit_batch_id
+            WHERE col.agency_id = v_import.agency_id
+              AND LTRIM(cc.cheque_number, '0') = LTRIM(v_line.cheque_number, '0')
+              AND (COALESCE(cc.status, 'pending') = 'pending' OR (cc.status = 'cleared' AND cc.resolution_method IS NULL))
+              AND NOT EXISTS (
+                  SELECT 1 FROM bank_statement_lines l
+                  WHERE l.matched_cheque_id = cc.id AND l.match_type = v_type AND l.status IN ('proposed', 'reconciled')
+              )
+            ORDER BY cc.amount = GREATEST(v_line.credit, v_line.debit) DESC,
+                     b.bank_account_id IS NOT DISTINCT FROM v_import.bank_account_id DESC,
+                     cc.cheque_date DESC
+            LIMIT 1;
+        ELSIF v_line.credit > 0 THEN
+            v_type := 'cheque_cleared';
+
+            SELECT cc.id, 70
+            INTO v_cheque_id, v_score
+            FROM collection_cheques cc
+            JOIN cheque_deposit_batches b ON b.id = cc.deposit_batch_id
+            WHERE b.bank_account_id = v_import.bank_account_id
+              AND COALESCE(cc.status, 'pending') = 'pending'
+              AND cc.amount = v_line.credit
+              AND cc.deposited_at BETWEEN v_line.transaction_date - 7 AND v_line.transaction_date
+              AND NOT EXISTS (
+                  SELECT 1 FROM bank_statement_lines l
+                  WHERE l.matched_cheque_id = cc.id AND l.match_type = v_type AND l.status IN ('proposed', 'reconciled')
+              )
+            ORDER BY cc.deposited_at DESC
+            LIMIT 1;
+
+            IF v_cheque_id IS NULL THEN
+                v_type := 'cash_deposit';
+
+                SELECT COUNT(*) OVER (), col.id
+                INTO v_candidates, v_collection_id
+                FROM collections col
+                WHERE col.agency_id = v_import.agency_id
+                  AND COALESCE(col.cash_amount, 0) = v_line.credit
+                  AND col.cash_date BETWEEN v_line.transaction_date - 7 AND v_line.transaction_date
+                  AND NOT EXISTS (
+                      SELECT 1 FROM bank_statement_lines l
+                      WHERE l.matched_collection_id = col.id AND l.status IN ('proposed', 'reconciled')
+                  )
+                ORDER BY col.cash_date DESC
+                LIMIT 1;
+
+                v_score := CASE WHEN v_candidates > 1 THEN 50 ELSE 80 END;
+            END IF;
+        END IF;
+
+        IF v_cheque_id IS NOT NULL OR v_collection_id IS NOT NULL THEN
+            UPDATE bank_statement_lines
+            SET status = 'proposed',
+                match_type = v_type,
+                matched_cheque_id = v_cheque_id,
+                matched_collection_id = v_collection_id,
+                match_score = v_score
+            WHERE id = v_line.id;
+
+            v_proposed := v_proposed + 1;
+        END IF;
+    END LOOP;
+
+    RETURN v_proposed;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION auto_match_bank_statement(UUID) TO authenticated;
+
+-- Store a parsed statement for a bank account and propose matches. p_lines is an array of
+-- {line_number, transaction_date, description, reference, cheque_number, debit, credit}. Returns the import id.
+CREATE OR REPLACE FUNCTION import_bank_statement(
+    p_bank_account_id UUID,
+    p_format_id UUID,
+    p_file_name TEXT,
+    p_lines JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_account agency_bank_accounts%ROWTYPE;
+    v_import_id UUID;
+    v_line JSONB;
+    v_date DATE;
+    v_description TEXT;
+    v_cheque_number TEXT;
+    v_debit NUMERIC;
+    v_credit NUMERIC;
+    v_count INTEGER := 0;
+    v_skipped INTEGER := 0;
+BEGIN
+    SELECT * INTO v_account FROM agency_bank_accounts WHERE id = p_bank_account_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bank account not found';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = auth.uid() AND (agency_id = v_account.agency_id OR role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'You can only import statements for your own agency';
+    END IF;
+
+    IF jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+        RAISE EXCEPTION 'The statement has no transactions';
+    END IF;
+
+    INSERT INTO bank_statement_imports (agency_id, bank_account_id, format_id, file_name)
+    VALUES (v_account.agency_id, p_bank_account_id, p_format_id, p_file_name)
+    RETURNING id INTO v_import_id;
+
+    FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+    LOOP
+        v_date := (v_line->>'transaction_date')::DATE;
+        v_description := COALESCE(TRIM(v_line->>'description'), '');
+        v_cheque_number := NULLIF(TRIM(v_line->>'cheque_number'), '');
+        v_debit := COALESCE((v_line->>'debit')::NUMERIC, 0);
+        v_credit := COALESCE((v_line->>'credit')::NUMERIC, 0);
+
+        IF v_debit = 0 AND v_credit = 0 THEN
+            v_skipped := v_skipped + 1;
+            CONTINUE;
+        END IF;
+
+        -- Already imported from an earlier, overlapping statement
+        IF EXISTS (
+            SELECT 1 FROM bank_statement_lines
+            WHERE bank_account_id = p_bank_account_id
+              AND transaction_date = v_date
+              AND description = v_description
+              AND cheque_number IS NOT DISTINCT FROM v_cheque_number
+              AND debit = v_debit
+              AND credit = v_credit
+              AND import_id <> v_import_id
+        ) THEN
+            v_skipped := v_skipped + 1;
+            CONTINUE;
+        END IF;
+
+        INSERT INTO bank_statement_lines (
+            import_id, bank_account_id, line_number, transaction_date, description, reference, cheque_number, debit, credit
+        )
+        VALUES (
+            v_import_id, p_bank_account_id, (v_line->>'line_number')::INTEGER, v_date, v_description,
+            NULLIF(TRIM(v_line->>'reference'), ''), v_cheque_number, v_debit, v_credit
+        );
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    UPDATE bank_statement_imports
+    SET line_count = v_count,
+        skipped_count = v_skipped,
+        statement_from = (SELECT MIN(transaction_date) FROM bank_statement_lines WHERE import_id = v_import_id),
+        statement_to = (SELECT MAX(transaction_date) FROM bank_statement_lines WHERE import_id = v_import_id)
+    WHERE id = v_import_id;
+
+    UPDATE agency_bank_accounts SET statement_format_id = p_format_id WHERE id = p_bank_account_id;
+
+    PERFORM auto_match_bank_statement(v_import_id);
+
+    RETURN v_import_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_bank_statement(UUID, UUID, TEXT, JSONB) TO authenticated;
+
+-- Accept a proposed match: clear or return the cheque as of the statement date, or mark the cash deposit
+-- banked. A deposit batch whose last cheque is settled this way is closed too.
+CREATE OR REPLACE FUNCTION confirm_bank_statement_line(p_line_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_line bank_statement_lines%ROWTYPE;
+    v_agency_id UUID;
+    v_cheque collection_cheques%ROWTYPE;
+BEGIN
+    SELECT * INTO v_line FROM bank_statement_lines WHERE id = p_line_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Statement line not found';
+    END IF;
+
+    SELECT agency_id INTO v_agency_id FROM bank_statement_imports WHERE id = v_line.import_id;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = auth.uid() AND (agency_id = v_agency_id OR role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'You can only reconcile statements of your own agency';
+    END IF;
+
+    IF v_line.status <> 'proposed' THEN
+        RAISE EXCEPTION 'Only proposed matches can be confirmed';
+    END IF;
+
+    IF v_line.match_type IN ('cheque_cleared', 'cheque_returned') THEN
+        SELECT * INTO v_cheque FROM collection_cheques WHERE id = v_line.matched_cheque_id FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'The matched cheque no longer exists';
+        END IF;
+
+        IF NOT (COALESCE(v_cheque.status, 'pending') = 'pending'
+                OR (v_cheque.status = 'cleared' AND v_cheque.resolution_method IS NULL)) THEN
+            RAISE EXCEPTION 'Cheque % is already %', v_cheque.cheque_number, v_cheque.status;
+        END IF;
+
+        IF v_line.match_type = 'cheque_cleared' THEN
+            UPDATE collection_cheques
+            SET status = 'cleared', cleared_at = v_line.transaction_date::TIMESTAMPTZ
+            WHERE id = v_cheque.id;
+        ELSE
+            UPDATE collection_cheques
+            SET status = 'returned',
+                return_reason = COALESCE(NULLIF(v_line.description, ''), 'Returned by bank'),
+                returned_at = v_line.transaction_date::TIMESTAMPTZ
+            WHERE id = v_cheque.id;
+        END IF;
+
+        IF v_cheque.deposit_batch_id IS NOT NULL AND NOT EXISTS (
+            SELECT 1 FROM collection_cheques
+            WHERE deposit_batch_id = v_cheque.deposit_batch_id AND COALESCE(status, 'pending') = 'pending'
+        ) THEN
+            UPDATE cheque_deposit_batches
+            SET status = 'settled', settled_by = auth.uid(), settled_at = NOW()
+            WHERE id = v_cheque.deposit_batch_id AND status <> 'settled';
+        END IF;
+    END IF;
+
+    UPDATE bank_statement_lines
+    SET status = 'reconciled', reconciled_by = auth.uid(), reconciled_at = NOW()
+    WHERE id = p_line_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION confirm_bank_statement_line(UUID) TO authenticated;
+
+-- Turn down a proposed match (the line goes back to unmatched) or set a line aside as ignored, e.g. bank charges
+CREATE OR REPLACE FUNCTION dismiss_bank_statement_line(p_line_id UUID, p_ignore BOOLEAN DEFAULT FALSE, p_notes TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_line bank_statement_lines%ROWTYPE;
+    v_agency_id UUID;
+BEGIN
+    SELECT * INTO v_line FROM bank_statement_lines WHERE id = p_line_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Statement line not found';
+    END IF;
+
+    SELECT agency_id INTO v_agency_id FROM bank_statement_imports WHERE id = v_line.import_id;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = auth.uid() AND (agency_id = v_agency_id OR role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'You can only reconcile statements of your own agency';
+    END IF;
+
+    IF v_line.status NOT IN ('unmatched', 'proposed') THEN
+        RAISE EXCEPTION 'This line is already %', v_line.status;
+    END IF;
+
+    UPDATE bank_statement_lines
+    SET status = CASE WHEN p_ignore THEN 'ignored' ELSE 'unmatched' END,
+        match_type = NULL,
+        matched_cheque_id = NULL,
+        matched_collection_id = NULL,
+        match_score = NULL,
+        notes = COALESCE(NULLIF(TRIM(p_notes), ''), notes),
+        reconciled_by = CASE WHEN p_ignore THEN auth.uid() END,
+        reconciled_at = CASE WHEN p_ignore THEN NOW() END
+    WHERE id = p_line_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION dismiss_bank_statement_line(UUID, BOOLEAN, TEXT) TO authenticated;
@@ -0,0 +1,629 @@
+-- Returned cheque charges and recovery.
+-- Every cheque that goes to 'returned' (from the Return Cheques Lodge, a deposit batch or a bank statement)
+-- opens a recovery case for the customer. The agency's returned-cheque bank charge and penalty from
+-- agency_credit_settings are raised together as a debit note (DN-0001 per agency) on the customer's balance.
+-- A case collects what is done to recover the money: replacement cheques (logged when the Lodge adds one),
+-- cash settlements, extra charges and follow-ups with the next follow-up date. Cash pays the case's open
+-- charges first and the rest is recorded as a cash collection allocated to the oldest invoices. The case is
+-- recovered once replacement cheques that have not bounced, cash, and the cheque itself if it was later
+-- cleared cover the cheque and its charges.
+-- When a customer reaches cash_only_after_returns returned cheques within twelve months they are flagged
+-- cash-only; the collection form then accepts cash only and cheques for them are rejected on insert until the
+-- flag is lifted.
+
+ALTER TABLE agency_credit_settings
+    ADD COLUMN IF NOT EXISTS returned_cheque_bank_charge NUMERIC(12, 2)
+        CHECK (returned_cheque_bank_charge IS NULL OR returned_cheque_bank_charge >= 0),
+    ADD COLUMN IF NOT EXISTS returned_cheque_penalty NUMERIC(12, 2)
+        CHECK (returned_cheque_penalty IS NULL OR returned_cheque_penalty >= 0),
+    ADD COLUMN IF NOT EXISTS cash_only_after_returns INTEGER
+        CHECK (cash_only_after_returns IS NULL OR cash_only_after_returns > 0);
+
+ALTER TABLE customers
+    ADD COLUMN IF NOT EXISTS is_cash_only BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS cash_only_reason TEXT,
+    ADD COLUMN IF NOT EXISTS cash_only_since TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS cheque_recovery_cases (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    cheque_id UUID NOT NULL UNIQUE REFERENCES collection_cheques(id) ON DELETE CASCADE,
+    cheque_amount NUMERIC(12, 2) NOT NULL,
+    charges_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    recovered_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'recovered', 'closed')),
+    next_follow_up_date DATE,
+    closed_reason TEXT,
+    closed_by UUID REFERENCES auth.users(id),
+    closed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS customer_debit_notes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    debit_note_number TEXT NOT NULL,
+    amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+    settled_amount NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (settled_amount >= 0),
+    reason TEXT NOT NULL,
+    recovery_case_id UUID REFERENCES cheque_recovery_cases(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (agency_id, debit_note_number),
+    CHECK (settled_amount <= amount)
+);
+
+CREATE TABLE IF NOT EXISTS cheque_recovery_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    case_id UUID NOT NULL REFERENCES cheque_recovery_cases(id) ON DELETE CASCADE,
+    event_type VARCHAR(30) NOT NULL CHECK (event_type IN ('replacement_cheque', 'cash', 'charge', 'follow_up', 'closed')),
+    amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    -- Part of a cash settlement that paid the case's charges; the rest went to collection_id
+    charges_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    replacement_cheque_id UUID REFERENCES collection_cheques(id) ON DELETE SET NULL,
+    collection_id UUID REFERENCES collections(id) ON DELETE SET NULL,
+    debit_note_id UUID REFERENCES customer_debit_notes(id) ON DELETE SET NULL,
+    follow_up_date DATE,
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cheque_recovery_cases_agency ON cheque_recovery_cases(agency_id, status, next_follow_up_date);
+CREATE INDEX IF NOT EXISTS idx_cheque_recovery_cases_customer ON cheque_recovery_cases(customer_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_cheque_recovery_events_case ON cheque_recovery_events(case_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_cheque_recovery_events_replacement ON cheque_recovery_events(replacement_cheque_id) WHERE replacement_cheque_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_customer_debit_notes_customer ON customer_debit_notes(customer_id, created_at);
+
+ALTER TABLE cheque_recovery_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cheque_recovery_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_debit_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view recovery cases of their agency"
+ON cheque_recovery_cases
+FOR SELECT USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+CREATE POLICY "Users can view recovery events of their agency"
+ON cheque_recovery_events
+FOR SELECT USING (
+    case_id IN (SELECT id FROM cheque_recovery_cases)
+);
+
+CREATE POLICY "Users can view debit notes of their agency"
+ON customer_debit_notes
+FOR SELECT USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+GRANT SELECT ON cheque_recovery_cases TO authenticated;
+GRANT SELECT ON cheque_recovery_events TO authenticated;
+GRANT SELECT ON customer_debit_notes TO authenticated;
+GRANT ALL ON cheque_recovery_cases TO service_role;
+GRANT ALL ON cheque_recovery_events TO service_role;
+GRANT ALL ON customer_debit_notes TO service_role;
+
+-- Raise a debit note on a customer; returns its id
+CREATE OR REPLACE FUNCTION create_customer_debit_note(
+    p_agency_id UUID,
+    p_customer_id UUID,
+    p_amount NUMERIC,
+    p_reason TEXT,
+    p_recovery_case_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_number INTEGER;
+    v_id UUID;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('customer_debit_notes:' || p_agency_id::TEXT));
+
+    SELECT COUNT(*) + 1 INTO v_number FROM customer_debit_notes WHERE agency_id = p_agency_id;
+
+    INSERT INTO customer_debit_notes (agency_id, customer_id, debit_note_number, amount, reason, recovery_case_id)
+    VALUES (p_agency_id, p_customer_id, 'DN-' || LPAD(v_number::TEXT, 4, '0'), ROUND(p_amount, 2), p_reason, p_recovery_case_id)
+    RETURNING id INTO v_id;
+
+    RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_customer_debit_note(UUID, UUID, NUMERIC, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Work out what a case has recovered and whether it is still open
+CREATE OR REPLACE FUNCTION refresh_cheque_recovery_case(p_case_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_recovered NUMERIC;
+BEGIN
+    SELECT COALESCE((
+               SELECT SUM(e.amount) FROM cheque_recovery_events e
+               WHERE e.case_id = p_case_id AND e.event_type = 'cash'
+           ), 0)
+         + COALESCE((
+               SELECT SUM(cc.amount) FROM cheque_recovery_events e
+               JOIN collection_cheques cc ON cc.id = e.replacement_cheque_id
+               WHERE e.case_id = p_case_id AND e.event_type = 'replacement_cheque'
+                 AND COALESCE(cc.status, 'pending') NOT IN ('returned', 'held', 'resolved')
+           ), 0)
+         + COALESCE((
+               SELECT cc.amount FROM cheque_recovery_cases rc
+               JOIN collection_cheques cc ON cc.id = rc.cheque_id
+               WHERE rc.id = p_case_id AND cc.status = 'cleared'
+           ), 0)
+    INTO v_recovered;
+
+    UPDATE cheque_recovery_cases
+    SET recovered_amount = v_recovered,
+        status = CASE
+            WHEN status = 'closed' THEN 'closed'
+            WHEN v_recovered >= cheque_amount + charges_amount THEN 'recovered'
+            ELSE 'open'
+        END,
+        updated_at = NOW()
+    WHERE id = p_case_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_cheque_recovery_case(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Open the recovery case of a returned cheque, raise the agency's charges and flag repeat offenders cash-only
+CREATE OR REPLACE FUNCTION open_cheque_recovery_case(p_cheque_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_cheque RECORD;
+    v_settings agency_credit_settings%ROWTYPE;
+    v_case_id UUID;
+    v_charges NUMERIC;
+    v_debit_note_id UUID;
+    v_returns INTEGER;
+BEGIN
+    SELECT cc.id, cc.cheque_number, cc.amount, col.agency_id, col.customer_id
+    INTO v_cheque
+    FROM collection_cheques cc
+    JOIN collections col ON col.id = cc.collection_id
+    WHERE cc.id = p_cheque_id;
+
+    IF NOT FOUND OR v_cheque.customer_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO cheque_recovery_cases (agency_id, customer_id, cheque_id, cheque_amount)
+    VALUES (v_cheque.agency_id, v_cheque.customer_id, v_cheque.id, v_cheque.amount)
+    ON CONFLICT (cheque_id) DO NOTHING
+    RETURNING id INTO v_case_id;
+
+    -- Returned before; the case and its charges already exist
+    IF v_case_id IS NULL THEN
+        RETURN (SELECT id FROM cheque_recovery_cases WHERE cheque_id = p_cheque_id);
+    END IF;
+
+    SELECT * INTO v_settings FROM agency_credit_settings WHERE agency_id = v_cheque.agency_id;
+    v_charges := COALESCE(v_settings.returned_cheque_bank_charge, 0) + COALESCE(v_settings.returned_cheque_penalty, 0);
+
+    IF v_charges > 0 THEN
+        v_debit_note_id := create_customer_debit_note(
+            v_cheque.agency_id,
+            v_cheque.customer_id,
+            v_charges,
+            'Returned cheque ' || v_cheque.cheque_number || ': bank charge LKR '
+                || COALESCE(v_settings.returned_cheque_bank_charge, 0) || ', penalty LKR '
+                || COALESCE(v_settings.returned_cheque_penalty, 0),
+            v_case_id
+        );
+
+        INSERT INTO cheque_recovery_events (case_id, event_type, amount, debit_note_id, notes)
+        VALUES (v_case_id, 'charge', v_charges, v_debit_note_id, 'Returned cheque charges');
+
+        UPDATE cheque_recovery_cases SET charges_amount = v_charges WHERE id = v_case_id;
+    END IF;
+
+    IF v_settings.cash_only_after_returns IS NOT NULL THEN
+        SELECT COUNT(*) INTO v_returns
+        FROM cheque_recovery_cases
+        WHERE customer_id = v_cheque.customer_id AND created_at >= NOW() - INTERVAL '12 months';
+
+        IF v_returns >= v_settings.cash_only_after_returns THEN
+            UPDATE customers
+            SET is_cash_only = TRUE,
+                cash_only_reason = v_returns || ' returned cheques in the last 12 months',
+                cash_only_since = NOW()
+            WHERE id = v_cheque.customer_id AND NOT is_cash_only;
+        END IF;
+    END IF;
+
+    RETURN v_case_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION open_cheque_recovery_case(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION track_cheque_recovery()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_case_id UUID;
+BEGIN
+    IF NEW.status = 'returned' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'returned') THEN
+        PERFORM open_cheque_recovery_case(NEW.id);
+    END IF;
+
+    -- A replacement cheque from the Lodge is logged on the case of the cheque it replaces
+    IF TG_OP = 'INSERT' AND NEW.replacement_for_cheque_id IS NOT NULL THEN
+        SELECT id INTO v_case_id FROM cheque_recovery_cases WHERE cheque_id = NEW.replacement_for_cheque_id;
+
+        IF v_case_id IS NOT NULL THEN
+            INSERT INTO cheque_recovery_events (case_id, event_type, amount, replacement_cheque_id, notes)
+            VALUES (v_case_id, 'replacement_cheque', NEW.amount, NEW.id,
+                    'Replacement cheque ' || NEW.cheque_number || ' - ' || NEW.bank_name);
+        END IF;
+    END IF;
+
+    FOR v_case_id IN
+        SELECT id FROM cheque_recovery_cases WHERE cheque_id = NEW.id
+        UNION
+        SELECT case_id FROM cheque_recovery_events WHERE replacement_cheque_id = NEW.id
+    LOOP
+        PERFORM refresh_cheque_recovery_case(v_case_id);
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_cheque_recovery ON collection_cheques;
+CREATE TRIGGER track_cheque_recovery
+AFTER INSERT OR UPDATE OF status ON collection_cheques
+FOR EACH ROW EXECUTE FUNCTION track_cheque_recovery();
+
+-- Check the caller may work on a recovery case and lock it
+CREATE OR REPLACE FUNCTION lock_cheque_recovery_case(p_case_id UUID)
+RETURNS cheque_recovery_cases
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_case cheque_recovery_cases%ROWTYPE;
+BEGIN
+    SELECT * INTO v_case FROM cheque_recovery_cases WHERE id = p_case_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Recovery case not found';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = auth.uid() AND (agency_id = v_case.agency_id OR role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'You can only work on recovery cases of your own agency';
+    END IF;
+
+    RETURN v_case;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION lock_cheque_recovery_case(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Record cash received on a case. It pays the case's open charges first; the rest becomes a cash collection
+-- allocated to the customer's oldest invoices. Returns the collection id, or NULL when it all went to charges.
+CREATE OR REPLACE FUNCTION record_cheque_recovery_cash(p_case_id UUID, p_amount NUMERIC, p_notes TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_case cheque_recovery_cases%ROWTYPE;
+    v_note RECORD;
+    v_left NUMERIC := ROUND(COALESCE(p_amount, 0), 2);
+    v_pay NUMERIC;
+    v_charges_paid NUMERIC := 0;
+    v_collection_id UUID;
+BEGIN
+    v_case := lock_cheque_recovery_case(p_case_id);
+
+    IF v_left <= 0 THEN
+        RAISE EXCEPTION 'Enter the amount received';
+    END IF;
+
+    IF v_case.status = 'closed' THEN
+        RAISE EXCEPTION 'This recovery case is closed';
+    END IF;
+
+    FOR v_note IN
+        SELECT id, amount - settled_amount AS open_amount FROM customer_debit_notes
+        WHERE recovery_case_id = p_case_id AND settled_amount < amount
+        ORDER BY created_at
+        FOR UPDATE
+    LOOP
+        EXIT WHEN v_left <= 0;
+        v_pay := LEAST(v_left, v_note.open_amount);
+        UPDATE customer_debit_notes SET settled_amount = settled_amount + v_pay WHERE id = v_note.id;
+        v_charges_paid := v_charges_paid + v_pay;
+        v_left := v_left - v_pay;
+    END LOOP;
+
+    IF v_left > 0 THEN
+        INSERT INTO collections (
+            agency_id, customer_id, customer_name, total_amount, payment_method, cash_amount, cash_date,
+            notes, status, created_by, allocation_strategy
+        )
+        SELECT v_case.agency_id, c.id, c.name, v_left, 'cash', v_left, CURRENT_DATE,
+               COALESCE(NULLIF(TRIM(p_notes), ''), 'Returned cheque recovery'), 'allocated', auth.uid(), 'oldest_first'
+        FROM customers c
+        WHERE c.id = v_case.customer_id
+        RETURNING id INTO v_collection_id;
+
+        PERFORM allocate_collection_amount(v_collection_id, 'oldest_first', NULL, 'payment');
+    END IF;
+
+    INSERT INTO cheque_recovery_events (case_id, event_type, amount, charges_amount, collection_id, notes)
+    VALUES (p_case_id, 'cash', ROUND(p_amount, 2), v_charges_paid, v_collection_id, NULLIF(TRIM(p_notes), ''));
+
+    PERFORM refresh_cheque_recovery_case(p_case_id);
+
+    RETURN v_collection_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_cheque_recovery_cash(UUID, NUMERIC, TEXT) TO authenticated;
+
+-- Raise another charge on a case as a debit note
+CREATE OR REPLACE FUNCTION add_cheque_recovery_charge(p_case_id UUID, p_amount NUMERIC, p_reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_case cheque_recovery_cases%ROWTYPE;
+    v_debit_note_id UUID;
+BEGIN
+    v_case := lock_cheque_recovery_case(p_case_id);
+
+    IF COALESCE(p_amount, 0) <= 0 OR NULLIF(TRIM(p_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'Enter the charge amount and reason';
+    END IF;
+
+    v_debit_note_id := create_customer_debit_note(v_case.agency_id, v_case.customer_id, p_amount, TRIM(p_reason), p_case_id);
+
+    INSERT INTO cheque_recovery_events (case_id, event_type, amount, debit_note_id, notes)
+    VALUES (p_case_id, 'charge', ROUND(p_amount, 2), v_debit_note_id, TRIM(p_reason));
+
+    UPDATE cheque_recovery_cases SET charges_amount = charges_amount + ROUND(p_amount, 2) WHERE id = p_case_id;
+    PERFORM refresh_cheque_recovery_case(p_case_id);
+
+    RETURN v_debit_note_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION add_cheque_recovery_charge(UUID, NUMERIC, TEXT) TO authenticated;
+
+-- Note a follow-up with the customer and when to follow up next
+CREATE OR REPLACE FUNCTION log_cheque_recovery_follow_up(p_case_id UUID, p_notes TEXT, p_next_follow_up_date DATE DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    PERFORM lock_cheque_recovery_case(p_case_id);
+
+    IF NULLIF(TRIM(p_notes), '') IS NULL THEN
+        RAISE EXCEPTION 'Enter what was agreed with the customer';
+    END IF;
+
+    INSERT INTO cheque_recovery_events (case_id, event_type, follow_up_date, notes)
+    VALUES (p_case_id, 'follow_up', p_next_follow_up_date, TRIM(p_notes));
+
+    UPDATE cheque_recovery_cases
+    SET next_follow_up_date = p_next_follow_up_date, updated_at = NOW()
+    WHERE id = p_case_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION log_cheque_recovery_follow_up(UUID, TEXT, DATE) TO authenticated;
+
+-- Close a case that will not be recovered further, e.g. written off
+CREATE OR REPLACE FUNCTION close_cheque_recovery_case(p_case_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    PERFORM lock_cheque_recovery_case(p_case_id);
+
+    IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'Enter why the case is closed';
+    END IF;
+
+    INSERT INTO cheque_recovery_events (case_id, event_type, notes)
+    VALUES (p_case_id, 'closed', TRIM(p_reason));
+
+    UPDATE cheque_recovery_cases
+    SET status = 'closed', closed_reason = TRIM(p_reason), closed_by = auth.uid(), closed_at = NOW(),
+        next_follow_up_date = NULL, updated_at = NOW()
+    WHERE id = p_case_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION close_cheque_recovery_case(UUID, TEXT) TO authenticated;
+
+-- Flag or clear a customer as cash-only
+CREATE OR REPLACE FUNCTION set_customer_cash_only(p_customer_id UUID, p_cash_only BOOLEAN, p_reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_agency_id UUID;
+BEGIN
+    SELECT agency_id INTO v_agency_id FROM customers WHERE id = p_customer_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer not found';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = auth.uid() AND role IN ('agency', 'superuser') AND (agency_id = v_agency_id OR role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'Only the agency or a superuser can change cash-only customers';
+    END IF;
+
+    UPDATE customers
+    SET is_cash_only = p_cash_only,
+        cash_only_reason = CASE WHEN p_cash_only THEN COALESCE(NULLIF(TRIM(p_reason), ''), 'Set manually') END,
+        cash_only_since = CASE WHEN p_cash_only THEN NOW() END
+    WHERE id = p_customer_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_customer_cash_only(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- Cash-only customers cannot pay by cheque, whichever device records the collection; replacement cheques
+-- taken by the Lodge against a returned cheque are part of the recovery and still allowed
+CREATE OR REPLACE FUNCTION enforce_customer_cash_only()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_customer RECORD;
+BEGIN
+    IF NEW.replacement_for_cheque_id IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT c.name, c.is_cash_only INTO v_customer
+    FROM collections col
+    JOIN customers c ON c.id = col.customer_id
+    WHERE col.id = NEW.collection_id;
+
+    IF v_customer.is_cash_only THEN
+        RAISE EXCEPTION '% is on cash only and cannot pay by cheque', v_customer.name;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION enforce_customer_cash_only() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS enforce_customer_cash_only ON collection_cheques;
+CREATE TRIGGER enforce_customer_cash_only
+BEFORE INSERT ON collection_cheques
+FOR EACH ROW EXECUTE FUNCTION enforce_customer_cash_only();
+
+-- Cheques returned before this migration get their cases, without back-dated charges
+INSERT INTO cheque_recovery_cases (agency_id, customer_id, cheque_id, cheque_amount, created_at)
+SELECT col.agency_id, col.customer_id, cc.id, cc.amount, COALESCE(cc.returned_at, cc.created_at, NOW())
+FROM collection_cheques cc
+JOIN collections col ON col.id = cc.collection_id
+WHERE col.customer_id IS NOT NULL AND col.agency_id IS NOT NULL
+  AND (cc.status IN ('returned', 'resolved') OR cc.returned_at IS NOT NULL)
+ON CONFLICT (cheque_id) DO NOTHING;
+
+INSERT INTO cheque_recovery_events (case_id, event_type, amount, replacement_cheque_id, notes, created_at)
+SELECT rc.id, 'replacement_cheque', cc.amount, cc.id,
+       'Replacement cheque ' || cc.cheque_number || ' - ' || cc.bank_name, COALESCE(cc.created_at, NOW())
+FROM collection_cheques cc
+JOIN cheque_recovery_cases rc ON rc.cheque_id = cc.replacement_for_cheque_id;
+
+DO $$
+DECLARE
+    v_case_id UUID;
+BEGIN
+    FOR v_case_id IN SELECT id FROM cheque_recovery_cases LOOP
+        PERFORM refresh_cheque_recovery_case(v_case_id);
+    END LOOP;
+END;
+$$;
+
+-- Debit notes and the charges paid on them join the customer ledger
+CREATE OR REPLACE FUNCTION customer_ledger_entries(p_customer_id UUID)
+RETURNS TABLE (
+    entry_date DATE,
+    sort_at TIMESTAMPTZ,
+    entry_type TEXT,
+    reference TEXT,
+    description TEXT,
+    debit NUMERIC,
+    credit NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT (i.created_at AT TIME ZONE 'Asia/Colombo')::DATE, i.created_at, 'invoice',
+           COALESCE(i.invoice_number, UPPER(LEFT(i.id::TEXT, 8))), 'Invoice', i.total, 0::NUMERIC
+    FROM invoices i
+    WHERE i.customer_id = p_customer_id
+
+    UNION ALL
+
+    SELECT COALESCE(col.cash_date::DATE, (col.created_at AT TIME ZONE 'Asia/Colombo')::DATE), col.created_at, 'cash',
+           UPPER(LEFT(col.id::TEXT, 8)), 'Cash payment', 0, col.cash_amount
+    FROM collections col
+    WHERE col.customer_id = p_customer_id AND col.cash_amount > 0
+
+    UNION ALL
+
+    SELECT COALESCE(col.cash_date::DATE, (col.created_at AT TIME ZONE 'Asia/Colombo')::DATE), col.created_at, 'discount',
+           UPPER(LEFT(col.id::TEXT, 8)), 'Cash discount', 0, col.cash_discount
+    FROM collections col
+    WHERE col.customer_id = p_customer_id AND COALESCE(col.cash_discount, 0) > 0
+
+    UNION ALL
+
+    SELECT cc.cheque_date::DATE, col.created_at, 'cheque',
+           cc.cheque_number, 'Cheque - ' || cc.bank_name, 0, cc.amount
+    FROM collection_cheques cc
+    JOIN collections col ON col.id = cc.collection_id
+    WHERE col.customer_id = p_customer_id
+
+    UNION ALL
+
+    SELECT COALESCE((cc.returned_at AT TIME ZONE 'Asia/Colombo')::DATE, cc.cheque_date::DATE), COALESCE(cc.returned_at, col.created_at),
+           'returned_cheque', cc.cheque_number,
+           'Returned cheque' || COALESCE(' - ' || NULLIF(cc.return_reason, ''), ''), cc.amount, 0
+    FROM collection_cheques cc
+    JOIN collections col ON col.id = cc.collection_id
+    WHERE col.customer_id = p_customer_id
+      AND (cc.status IN ('returned', 'held', 'resolved') OR cc.returned_at IS NOT NULL)
+
+    UNION ALL
+
+    SELECT (COALESCE(r.processed_at, r.created_at) AT TIME ZONE 'Asia/Colombo')::DATE, COALESCE(r.processed_at, r.created_at), 'return',
+           UPPER(LEFT(r.id::TEXT, 8)), 'Goods return' || COALESCE(' - ' || NULLIF(r.reason, ''), ''), 0, r.total
+    FROM returns r
+    WHERE r.customer_id = p_customer_id AND r.status IN ('approved', 'processed')
+
+    UNION ALL
+
+    SELECT (dn.created_at AT TIME ZONE 'Asia/Colombo')::DATE, dn.created_at, 'debit_note',
+           dn.debit_note_number, 'Debit note - ' || dn.reason, dn.amount, 0
+    FROM customer_debit_notes dn
+    WHERE dn.customer_id = p_customer_id
+
+    UNION ALL
+
+    SELECT (e.created_at AT TIME ZONE 'Asia/Colombo')::DATE, e.created_at, 'charges_paid',
+           UPPER(LEFT(e.id::TEXT, 8)), 'Returned cheque charges paid', 0, e.charges_amount
+    FROM cheque_recovery_events e
+    JOIN cheque_recovery_cases rc ON rc.id = e.case_id
+    WHERE rc.customer_id = p_customer_id AND e.event_type = 'cash' AND e.charges_amount > 0;
+$$;
@@ -0,0 +1,669 @@
+-- Customer credit and debit notes.
+-- Credit notes (CN-0001 per agency) lower what a customer owes for price corrections, damaged-goods allowances
+-- and rebates; debit notes (DN-0001, the returned cheque charges of customer_debit_notes are the first of them)
+-- raise it. A note either references one of the customer's invoices or stands alone. A credit note on an invoice
+-- comes off that invoice's outstanding amount like a return, so it cannot be more than the invoice still owes;
+-- a debit note on an invoice is its own amount owed and only names the invoice it relates to.
+-- Notes above the 'customer_note_approval_value' setting wait for a superuser before they count; pending notes
+-- can be cancelled, approved notes are corrected with an opposite note. Only approved notes reach the balance
+-- and the customer ledger, which also shows credit paid back to the customer from customer_credit_refunds.
+-- Approved debit notes are paid like invoices: the allocation engine's oldest_first and due_date strategies
+-- (collections and applied customer credit) allocate to them in date order alongside invoices, and those
+-- allocations keep customer_debit_notes.settled_amount up to date, reversals included. Returned cheque recovery
+-- cash becomes a collection that pays the case's charges first, so every payment of a debit note is a collection.
+
+INSERT INTO app_settings (key, value, description) VALUES
+('customer_note_approval_value', '25000', 'Credit and debit notes for more than this need superuser approval')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE customer_debit_notes
+    ADD COLUMN IF NOT EXISTS invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS category VARCHAR(30) NOT NULL DEFAULT 'other'
+        CHECK (category IN ('price_correction', 'damaged_goods', 'rebate', 'returned_cheque', 'other')),
+    ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'approved'
+        CHECK (status IN ('pending_approval', 'approved', 'rejected', 'cancelled')),
+    ADD COLUMN IF NOT EXISTS requires_approval BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS created_by_name VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id),
+    ADD COLUMN IF NOT EXISTS reviewed_by_name VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+
+UPDATE customer_debit_notes SET category = 'returned_cheque' WHERE recovery_case_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS customer_credit_notes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    credit_note_number TEXT NOT NULL,
+    invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    category VARCHAR(30) NOT NULL DEFAULT 'other'
+        CHECK (category IN ('price_correction', 'damaged_goods', 'rebate', 'other')),
+    amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+    reason TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending_approval'
+        CHECK (status IN ('pending_approval', 'approved', 'rejected', 'cancelled')),
+    requires_approval BOOLEAN NOT NULL DEFAULT FALSE,
+    created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+    created_by_name VARCHAR(255),
+    reviewed_by UUID REFERENCES auth.users(id),
+    reviewed_by_name VARCHAR(255),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    rejection_reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (agency_id, credit_note_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_credit_notes_customer ON customer_credit_notes(customer_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_customer_credit_notes_invoice ON customer_credit_notes(invoice_id) WHERE invoice_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_customer_credit_notes_status ON customer_credit_notes(status);
+CREATE INDEX IF NOT EXISTS idx_customer_debit_notes_status ON customer_debit_notes(status);
+
+ALTER TABLE customer_credit_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view credit notes of their agency"
+ON customer_credit_notes
+FOR SELECT USING (
+    agency_id IN (SELECT agency_id FROM profiles WHERE id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser')
+);
+
+GRANT SELECT ON customer_credit_notes TO authenticated;
+GRANT ALL ON customer_credit_notes TO service_role;
+
+-- Notes for more than this need approval; app_settings is not readable by agents, hence the definer
+CREATE OR REPLACE FUNCTION customer_note_approval_threshold()
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT COALESCE((SELECT NULLIF(value, '')::NUMERIC FROM app_settings WHERE key = 'customer_note_approval_value'), 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION customer_note_approval_threshold() TO authenticated;
+
+-- What is still owed on an invoice after allocations, approved returns and approved credit notes
+CREATE OR REPLACE FUNCTION invoice_outstanding_amount(p_invoice_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT GREATEST(0, i.total
+        - COALESCE((SELECT SUM(a.allocated_amount) FROM collection_allocations a WHERE a.invoice_id = i.id), 0)
+        - COALESCE((SELECT SUM(r.total) FROM returns r WHERE r.invoice_id = i.id AND r.status IN ('approved', 'processed')), 0)
+        - COALESCE((SELECT SUM(n.amount) FROM customer_credit_notes n WHERE n.invoice_id = i.id AND n.status = 'approved'), 0))
+    FROM invoices i
+    WHERE i.id = p_invoice_id;
+$$;
+
+-- Returned cheque charges are debit notes of their own category
+CREATE OR REPLACE FUNCTION create_customer_debit_note(
+    p_agency_id UUID,
+    p_customer_id UUID,
+    p_amount NUMERIC,
+    p_reason TEXT,
+    p_recovery_case_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_number INTEGER;
+    v_id UUID;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('customer_debit_notes:' || p_agency_id::TEXT));
+
+    SELECT COUNT(*) + 1 INTO v_number FROM customer_debit_notes WHERE agency_id = p_agency_id;
+
+    INSERT INTO customer_debit_notes (
+        agency_id, customer_id, debit_note_number, amount, reason, recovery_case_id, category, created_by_name
+    ) VALUES (
+        p_agency_id, p_customer_id, 'DN-' || LPAD(v_number::TEXT, 4, '0'), ROUND(p_amount, 2), p_reason, p_recovery_case_id,
+        CASE WHEN p_recovery_case_id IS NOT NULL THEN 'returned_cheque' ELSE 'other' END,
+        (SELECT name FROM profiles WHERE id = auth.uid())
+    )
+    RETURNING id INTO v_id;
+
+    RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_customer_debit_note(UUID, UUID, NUMERIC, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Raise a credit or debit note for a customer; returns its id. Superusers' notes and notes up to the
+-- approval threshold count straight away, the rest wait for approval.
+CREATE OR REPLACE FUNCTION create_customer_note(
+    p_note_type TEXT,
+    p_customer_id UUID,
+    p_amount NUMERIC,
+    p_category TEXT,
+    p_reason TEXT,
+    p_invoice_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_customer customers%ROWTYPE;
+    v_is_superuser BOOLEAN;
+    v_amount NUMERIC := ROUND(COALESCE(p_amount, 0), 2);
+    v_requires_approval BOOLEAN;
+    v_number INTEGER;
+    v_id UUID;
+BEGIN
+    SELECT * INTO v_customer FROM customers WHERE id = p_customer_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer not found';
+    END IF;
+
+    v_is_superuser := EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser');
+
+    IF NOT v_is_superuser AND NOT EXISTS (
+        SELECT 1 FROM profiles WHERE id = auth.uid() AND agency_id = v_customer.agency_id
+    ) THEN
+        RAISE EXCEPTION 'You can only raise notes for your own agency''s customers';
+    END IF;
+
+    IF p_note_type NOT IN ('credit', 'debit') THEN
+        RAISE EXCEPTION 'Unknown note type %', p_note_type;
+    END IF;
+
+    IF v_amount <= 0 THEN
+        RAISE EXCEPTION 'Note amount must be greater than 0';
+    END IF;
+
+    IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'Enter the reason for the note';
+    END IF;
+
+    IF p_invoice_id IS NOT NULL THEN
+        IF NOT EXISTS (SELECT 1 FROM invoices WHERE id = p_invoice_id AND customer_id = p_customer_id) THEN
+            RAISE EXCEPTION 'Invoice is not one of %''s invoices', v_customer.name;
+        END IF;
+
+        IF p_note_type = 'credit' AND v_amount > invoice_outstanding_amount(p_invoice_id) THEN
+            RAISE EXCEPTION 'Only LKR % is still owed on this invoice', invoice_outstanding_amount(p_invoice_id);
+        END IF;
+    END IF;
+
+    v_requires_approval := NOT v_is_superuser AND v_amount > customer_note_approval_threshold();
+
+    IF p_note_type = 'credit' THEN
+        PERFORM pg_advisory_xact_lock(hashtext('customer_credit_notes:' || v_customer.agency_id::TEXT));
+        SELECT COUNT(*) + 1 INTO v_number FROM customer_credit_notes WHERE agency_id = v_customer.agency_id;
+
+        INSERT INTO customer_credit_notes (
+            agency_id, customer_id, credit_note_number, invoice_id, category, amount, reason,
+            status, requires_approval, created_by_name
+        ) VALUES (
+            v_customer.agency_id, p_customer_id, 'CN-' || LPAD(v_number::TEXT, 4, '0'), p_invoice_id, p_category, v_amount,
+            TRIM(p_reason), CASE WHEN v_requires_approval THEN 'pending_approval' ELSE 'approved' END, v_requires_approval,
+            (SELECT name FROM profiles WHERE id = auth.uid())
+        )
+        RETURNING id INTO v_id;
+    ELSE
+        PERFORM pg_advisory_xact_lock(hashtext('customer_debit_notes:' || v_customer.agency_id::TEXT));
+        SELECT COUNT(*) + 1 INTO v_number FROM customer_debit_notes WHERE agency_id = v_customer.agency_id;
+
+        INSERT INTO customer_debit_notes (
+            agency_id, customer_id, debit_note_number, invoice_id, category, amount, reason,
+            status, requires_approval, created_by_name
+        ) VALUES (
+            v_customer.agency_id, p_customer_id, 'DN-' || LPAD(v_number::TEXT, 4, '0'), p_invoice_id, p_category, v_amount,
+            TRIM(p_reason), CASE WHEN v_requires_approval THEN 'pending_approval' ELSE 'approved' END, v_requires_approval,
+            (SELECT name FROM profiles WHERE id = auth.uid())
+        )
+        RETURNING id INTO v_id;
+    END IF;
+
+    RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_customer_note(TEXT, UUID, NUMERIC, TEXT, TEXT, UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION review_customer_note(
+    p_note_type TEXT,
+    p_note_id UUID,
+    p_approve BOOLEAN,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_status TEXT;
+    v_number TEXT;
+    v_invoice_id UUID;
+    v_amount NUMERIC;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'superuser') THEN
+        RAISE EXCEPTION 'Only superusers can approve credit and debit notes';
+    END IF;
+
+    IF p_note_type = 'credit' THEN
+        SELECT status, credit_note_number, invoice_id, amount INTO v_status, v_number, v_invoice_id, v_amount
+        FROM customer_credit_notes WHERE id = p_note_id FOR UPDATE;
+    ELSE
+        SELECT status, debit_note_number, NULL, amount INTO v_status, v_number, v_invoice_id, v_amount
+        FROM customer_debit_notes WHERE id = p_note_id FOR UPDATE;
+    END IF;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Note not found';
+    END IF;
+
+    IF v_status <> 'pending_approval' THEN
+        RAISE EXCEPTION 'Note % is not waiting for approval', v_number;
+    END IF;
+
+    -- The invoice may have been paid since the credit note was raised
+    IF p_approve AND v_invoice_id IS NOT NULL AND v_amount > invoice_outstanding_amount(v_invoice_id) THEN
+        RAISE EXCEPTION 'Only LKR % is still owed on the invoice of %', invoice_outstanding_amount(v_invoice_id), v_number;
+    END IF;
+
+    IF p_note_type = 'credit' THEN
+        UPDATE customer_credit_notes
+        SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+            reviewed_by = auth.uid(),
+            reviewed_by_name = (SELECT name FROM profiles WHERE id = auth.uid()),
+            reviewed_at = NOW(),
+            rejection_reason = CASE WHEN p_approve THEN NULL ELSE NULLIF(TRIM(p_reason), '') END
+        WHERE id = p_note_id;
+    ELSE
+        UPDATE customer_debit_notes
+        SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+            reviewed_by = auth.uid(),
+            reviewed_by_name = (SELECT name FROM profiles WHERE id = auth.uid()),
+            reviewed_at = NOW(),
+            rejection_reason = CASE WHEN p_approve THEN NULL ELSE NULLIF(TRIM(p_reason), '') END
+        WHERE id = p_note_id;
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION review_customer_note(TEXT, UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- Withdraw a note still waiting for approval
+CREATE OR REPLACE FUNCTION cancel_customer_note(p_note_type TEXT, p_note_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_agency_id UUID;
+    v_status TEXT;
+    v_number TEXT;
+BEGIN
+    IF p_note_type = 'credit' THEN
+        SELECT agency_id, status, credit_note_number INTO v_agency_id, v_status, v_number
+        FROM customer_credit_notes WHERE id = p_note_id FOR UPDATE;
+    ELSE
+        SELECT agency_id, status, debit_note_number INTO v_agency_id, v_status, v_number
+        FROM customer_debit_notes WHERE id = p_note_id FOR UPDATE;
+    END IF;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Note not found';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = auth.uid() AND (agency_id = v_agency_id OR role = 'superuser')
+    ) THEN
+        RAISE EXCEPTION 'You can only cancel notes of your own agency';
+    END IF;
+
+    IF v_status <> 'pending_approval' THEN
+        RAISE EXCEPTION 'Only notes waiting for approval can be cancelled; raise an opposite note to correct %', v_number;
+    END IF;
+
+    IF p_note_type = 'credit' THEN
+        UPDATE customer_credit_notes SET status = 'cancelled' WHERE id = p_note_id;
+    ELSE
+        UPDATE customer_debit_notes SET status = 'cancelled' WHERE id = p_note_id;
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cancel_customer_note(TEXT, UUID) TO authenticated;
+
+-- Approved notes and credit paid back join the customer ledger; recovery cash that paid charges is a collection
+-- now, so it shows as a cash payment
+CREATE OR REPLACE FUNCTION customer_ledger_entries(p_customer_id UUID)
+RETURNS TABLE (
+    entry_date DATE,
+    sort_at TIMESTAMPTZ,
+    entry_type TEXT,
+    reference TEXT,
+    description TEXT,
+    debit NUMERIC,
+    credit NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT (i.created_at AT TIME ZONE 'Asia/Colombo')::DATE, i.created_at, 'invoice',
+           COALESCE(i.invoice_number, UPPER(LEFT(i.id::TEXT, 8))), 'Invoice', i.total, 0::NUMERIC
+    FROM invoices i
+    WHERE i.customer_id = p_customer_id
+
+    UNION ALL
+
+    SELECT COALESCE(col.cash_date::DATE, (col.created_at AT TIME ZONE 'Asia/Colombo')::DATE), col.created_at, 'cash',
+           UPPER(LEFT(col.id::TEXT, 8)), 'Cash payment', 0, col.cash_amount
+    FROM collections col
+    WHERE col.customer_id = p_customer_id AND col.cash_amount > 0
+
+    UNION ALL
+
+    SELECT COALESCE(col.cash_date::DATE, (col.created_at AT TIME ZONE 'Asia/Colombo')::DATE), col.created_at, 'discount',
+           UPPER(LEFT(col.id::TEXT, 8)), 'Cash discount', 0, col.cash_discount
+    FROM collections col
+    WHERE col.customer_id = p_customer_id AND COALESCE(col.cash_discount, 0) > 0
+
+    UNION ALL
+
+    SELECT cc.cheque_date::DATE, col.created_at, 'cheque',
+           cc.cheque_number, 'Cheque - ' || cc.bank_name, 0, cc.amount
+    FROM collection_cheques cc
+    JOIN collections col ON col.id = cc.collection_id
+    WHERE col.customer_id = p_customer_id
+
+    UNION ALL
+
+    SELECT COALESCE((cc.returned_at AT TIME ZONE 'Asia/Colombo')::DATE, cc.cheque_date::DATE), COALESCE(cc.returned_at, col.created_at),
+           'returned_cheque', cc.cheque_number,
+           'Returned cheque' || COALESCE(' - ' || NULLIF(cc.return_reason, ''), ''), cc.amount, 0
+    FROM collection_cheques cc
+    JOIN collections col ON col.id = cc.collection_id
+    WHERE col.customer_id = p_customer_id
+      AND (cc.status IN ('returned', 'held', 'resolved') OR cc.returned_at IS NOT NULL)
+
+    UNION ALL
+
+    SELECT (COALESCE(r.processed_at, r.created_at) AT TIME ZONE 'Asia/Colombo')::DATE, COALESCE(r.processed_at, r.created_at), 'return',
+           UPPER(LEFT(r.id::TEXT, 8)), 'Goods return' || COALESCE(' - ' || NULLIF(r.reason, ''), ''), 0, r.total
+    FROM returns r
+    WHERE r.customer_id = p_customer_id AND r.status IN ('approved', 'processed')
+
+    UNION ALL
+
+    SELECT (dn.created_at AT TIME ZONE 'Asia/Colombo')::DATE, dn.created_at, 'debit_note',
+           dn.debit_note_number, 'Debit note - ' || dn.reason, dn.amount, 0
+    FROM customer_debit_notes dn
+    WHERE dn.customer_id = p_customer_id AND dn.status = 'approved'
+
+    UNION ALL
+
+    SELECT (cn.created_at AT TIME ZONE 'Asia/Colombo')::DATE, cn.created_at, 'credit_note',
+           cn.credit_note_number, 'Credit note - ' || cn.reason, 0, cn.amount
+    FROM customer_credit_notes cn
+    WHERE cn.customer_id = p_customer_id AND cn.status = 'approved'
+
+
+    UNION ALL
+
+    SELECT (rf.refunded_at AT TIME ZONE 'Asia/Colombo')::DATE, rf.refunded_at, 'credit_refund',
+           rf.credit_note_reference, 'Credit paid back' || COALESCE(' - ' || NULLIF(rf.notes, ''), ''), rf.amount, 0
+    FROM customer_credit_refunds rf
+    JOIN customer_credits c ON c.id = rf.credit_id
+    WHERE c.customer_id = p_customer_id;
+$$;
+
+-- An allocation pays either an invoice or a debit note
+ALTER TABLE collection_allocations
+    ADD COLUMN IF NOT EXISTS debit_note_id UUID REFERENCES customer_debit_notes(id) ON DELETE CASCADE;
+ALTER TABLE collection_allocations ALTER COLUMN invoice_id DROP NOT NULL;
+ALTER TABLE collection_allocations ADD CONSTRAINT collection_allocations_one_document
+    CHECK (num_nonnulls(invoice_id, debit_note_id) = 1);
+
+CREATE INDEX IF NOT EXISTS idx_collection_allocations_debit_note
+    ON collection_allocations(debit_note_id) WHERE debit_note_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION settle_debit_note_allocation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    UPDATE customer_debit_notes
+    SET settled_amount = settled_amount + NEW.allocated_amount
+    WHERE id = NEW.debit_note_id;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS settle_debit_note_allocation ON collection_allocations;
+CREATE TRIGGER settle_debit_note_allocation
+AFTER INSERT ON collection_allocations
+FOR EACH ROW WHEN (NEW.debit_note_id IS NOT NULL)
+EXECUTE FUNCTION settle_debit_note_allocation();
+
+-- Allocate a collection's unapplied money with a strategy. p_allocations is used by 'specific' only: an array of
+-- {invoice_id, amount}, amount optional (up to the invoice's outstanding). The other strategies also pay the
+-- customer's open approved debit notes, dated by when they were raised. Returns what is left unapplied.
+CREATE OR REPLACE FUNCTION allocate_collection_amount(
+    p_collection_id UUID,
+    p_strategy TEXT,
+    p_allocations JSONB,
+    p_type TEXT,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_collection collections%ROWTYPE;
+    v_available NUMERIC;
+    v_amount NUMERIC;
+    v_item JSONB;
+    v_invoice_id UUID;
+    v_document RECORD;
+BEGIN
+    SELECT * INTO v_collection FROM collections WHERE id = p_collection_id FOR UPDATE;
+    v_available := collection_unapplied_amount(p_collection_id);
+
+    IF p_strategy = 'specific' THEN
+        FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_allocations, '[]'::JSONB))
+        LOOP
+            EXIT WHEN v_available <= 0;
+            v_invoice_id := (v_item->>'invoice_id')::UUID;
+
+            IF NOT EXISTS (SELECT 1 FROM invoices WHERE id = v_invoice_id AND customer_id = v_collection.customer_id) THEN
+                RAISE EXCEPTION 'Invoice is not one of %''s invoices', v_collection.customer_name;
+            END IF;
+
+            v_amount := LEAST(
+                v_available,
+                invoice_outstanding_amount(v_invoice_id),
+                COALESCE((v_item->>'amount')::NUMERIC, v_available)
+            );
+
+            IF v_amount > 0 THEN
+                INSERT INTO collection_allocations (collection_id, invoice_id, allocated_amount, allocation_type, reason, allocated_by, allocated_at)
+                VALUES (p_collection_id, v_invoice_id, v_amount, p_type, p_reason, auth.uid(), NOW());
+                v_available := v_available - v_amount;
+            END IF;
+        END LOOP;
+    ELSE
+        FOR v_document IN
+            SELECT * FROM (
+                SELECT i.id AS invoice_id, NULL::UUID AS debit_note_id, i.due_date, i.created_at
+                FROM invoices i
+                WHERE i.customer_id = v_collection.customer_id
+
+                UNION ALL
+
+                SELECT NULL::UUID, dn.id, dn.created_at::DATE, dn.created_at
+                FROM customer_debit_notes dn
+                WHERE dn.customer_id = v_collection.customer_id
+                  AND dn.status = 'approved'
+                  AND dn.settled_amount < dn.amount
+            ) d
+            ORDER BY CASE WHEN p_strategy = 'due_date' THEN d.due_date END NULLS LAST, d.created_at,
+                     COALESCE(d.invoice_id, d.debit_note_id)
+        LOOP
+            EXIT WHEN v_available <= 0;
+
+            IF v_document.invoice_id IS NOT NULL THEN
+                v_amount := LEAST(v_available, invoice_outstanding_amount(v_document.invoice_id));
+            ELSE
+                SELECT LEAST(v_available, amount - settled_amount) INTO v_amount
+                FROM customer_debit_notes WHERE id = v_document.debit_note_id FOR UPDATE;
+            END IF;
+
+            IF v_amount > 0 THEN
+                INSERT INTO collection_allocations (
+                    collection_id, invoice_id, debit_note_id, allocated_amount, allocation_type, reason, allocated_by, allocated_at
+                )
+                VALUES (
+                    p_collection_id, v_document.invoice_id, v_document.debit_note_id, v_amount, p_type, p_reason, auth.uid(), NOW()
+                );
+                v_available := v_available - v_amount;
+            END IF;
+        END LOOP;
+    END IF;
+
+    PERFORM sync_customer_credit(p_collection_id);
+    RETURN GREATEST(v_available, 0);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION allocate_collection_amount(UUID, TEXT, JSONB, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Reversals undo debit note allocations too; 'specific' collections go back to their invoices only
+CREATE OR REPLACE FUNCTION rebalance_collection(p_collection_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_strategy TEXT;
+    v_unapplied NUMERIC;
+    v_allocation RECORD;
+    v_amount NUMERIC;
+BEGIN
+    SELECT allocation_strategy INTO v_strategy FROM collections WHERE id = p_collection_id FOR UPDATE;
+
+    -- Not allocated yet: the collection is still being recorded
+    IF v_strategy IS NULL THEN
+        RETURN;
+    END IF;
+
+    v_unapplied := collection_unapplied_amount(p_collection_id);
+
+    IF v_unapplied < 0 THEN
+        FOR v_allocation IN
+            SELECT a.id, a.invoice_id, a.debit_note_id,
+                   a.allocated_amount + COALESCE((SELECT SUM(r.allocated_amount) FROM collection_allocations r WHERE r.reversal_of = a.id), 0) AS remaining
+            FROM collection_allocations a
+            WHERE a.collection_id = p_collection_id AND a.allocation_type <> 'reversal'
+            ORDER BY a.allocated_at DESC, a.id DESC
+        LOOP
+            EXIT WHEN v_unapplied >= 0;
+            CONTINUE WHEN v_allocation.remaining <= 0;
+
+            v_amount := LEAST(v_allocation.remaining, -v_unapplied);
+            INSERT INTO collection_allocations (
+                collection_id, invoice_id, debit_note_id, allocated_amount, allocation_type, reversal_of, reason, allocated_by, allocated_at
+            )
+            VALUES (
+                p_collection_id, v_allocation.invoice_id, v_allocation.debit_note_id, -v_amount, 'reversal', v_allocation.id,
+                p_reason, auth.uid(), NOW()
+            );
+            v_unapplied := v_unapplied + v_amount;
+        END LOOP;
+
+        PERFORM sync_customer_credit(p_collection_id);
+    ELSIF v_unapplied > 0 AND EXISTS (
+        SELECT 1 FROM collection_allocations WHERE collection_id = p_collection_id AND allocation_type = 'reversal'
+    ) THEN
+        PERFORM allocate_collection_amount(
+            p_collection_id,
+            v_strategy,
+            (SELECT jsonb_agg(jsonb_build_object('invoice_id', s.invoice_id) ORDER BY s.first_allocated_at)
+             FROM (
+                SELECT invoice_id, MIN(allocated_at) AS first_allocated_at
+                FROM collection_allocations
+                WHERE collection_id = p_collection_id AND allocation_type <> 'reversal' AND invoice_id IS NOT NULL
+                GROUP BY invoice_id
+             ) s),
+            'payment',
+            p_reason
+        );
+    ELSE
+        PERFORM sync_customer_credit(p_collection_id);
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION rebalance_collection(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Record cash received on a case as a cash collection. It pays the case's open charges first and the rest goes to
+-- the customer's oldest invoices and debit notes. Returns the collection id.
+CREATE OR REPLACE FUNCTION record_cheque_recovery_cash(p_case_id UUID, p_amount NUMERIC, p_notes TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_case cheque_recovery_cases%ROWTYPE;
+    v_note RECORD;
+    v_left NUMERIC := ROUND(COALESCE(p_amount, 0), 2);
+    v_pay NUMERIC;
+    v_charges_paid NUMERIC := 0;
+    v_collection_id UUID;
+BEGIN
+    v_case := lock_cheque_recovery_case(p_case_id);
+
+    IF v_left <= 0 THEN
+        RAISE EXCEPTION 'Enter the amount received';
+    END IF;
+
+    IF v_case.status = 'closed' THEN
+        RAISE EXCEPTION 'This recovery case is closed';
+    END IF;
+
+    INSERT INTO collections (
+        agency_id, customer_id, customer_name, total_amount, payment_method, cash_amount, cash_date,
+        notes, status, created_by, allocation_strategy
+    )
+    SELECT v_case.agency_id, c.id, c.name, v_left, 'cash', v_left, CURRENT_DATE,
+           COALESCE(NULLIF(TRIM(p_notes), ''), 'Returned cheque recovery'), 'allocated', auth.uid(), 'oldest_first'
+    FROM customers c
+    WHERE c.id = v_case.customer_id
+    RETURNING id INTO v_collection_id;
+
+    FOR v_note IN
+        SELECT id, amount - settled_amount AS open_amount FROM customer_debit_notes
+        WHERE recovery_case_id = p_case_id AND status = 'approved' AND settled_amount < amount
+        ORDER BY created_at
+        FOR UPDATE
+    LOOP
+        EXIT WHEN v_left <= 0;
+        v_pay := LEAST(v_left, v_note.open_amount);
+        INSERT INTO collection_allocations (collection_id, debit_note_id, allocated_amount, allocation_type, reason, allocated_by, allocated_at)
+        VALUES (v_collection_id, v_note.id, v_pay, 'payment', 'Returned cheque charges', auth.uid(), NOW());
+        v_charges_paid := v_charges_paid + v_pay;
+        v_left := v_left - v_pay;
+    END LOOP;
+
+    PERFORM allocate_collection_amount(v_collection_id, 'oldest_first', NULL, 'payment');
+
+    INSERT INTO cheque_recovery_events (case_id, event_type, amount, charges_amount, collection_id, notes)
+    VALUES (p_case_id, 'cash', ROUND(p_amount, 2), v_charges_paid, v_collection_id, NULLIF(TRIM(p_notes), ''));
+
+    PERFORM refresh_cheque_recovery_case(p_case_id);
+
+    RETURN v_collection_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_cheque_recovery_cash(UUID, NUMERIC, TEXT) TO authenticated;